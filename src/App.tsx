@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useState, useCallback } from 'react'
+import React, { useCallback, useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 import './App.css'
 
 import {
@@ -15,29 +15,113 @@ import { StepRepeatPanel } from './components/StepRepeatPanel/StepRepeatPanel'
 import { ExportPanel } from './components/ExportPanel/ExportPanel'
 import { MachinePresetsPanel } from './components/MachinePresetsPanel/MachinePresetsPanel'
 import { JobTicketPanel } from './components/JobTicketPanel/JobTicketPanel'
+import { VdpPrintRunPanel } from './components/VdpPrintRunPanel/VdpPrintRunPanel'
 import { LoginPage, type AppMode } from './components/LoginPage/LoginPage'
 import { AutoTrapStudio } from './components/AutoTrapStudio/AutoTrapStudio'
 import { StructuralStudio } from './components/StructuralStudio/StructuralStudio'
+import { JobBrowser } from './components/JobBrowser/JobBrowser'
+import { HistoryPanel } from './components/HistoryPanel/HistoryPanel'
+import { LabelCanvas, LabelExportSvg } from './components/LabelCanvas/LabelCanvas'
+import { LayersPanel } from './components/LayersPanel/LayersPanel'
+import { ObjectPropertiesPanel } from './components/ObjectPropertiesPanel/ObjectPropertiesPanel'
+import { formatGs1Decimal, gs1CheckDigit, validateGs1ForCodeType } from './lib/gs1'
+import {
+  gs1ToDigitalLink,
+  parseGs1DigitalLink,
+  validateGs1DigitalLink,
+  type Gs1DigitalLinkCompression,
+} from './lib/gs1DigitalLink'
+import { compositeComponentsFor, isCompositeCodeType, splitGs1Composite } from './lib/gs1Composite'
+import {
+  compressUpcA,
+  expandUpcE,
+  isAddOnCodeType,
+  joinAddOn,
+  validateAddOn,
+  validateEanUpc,
+  validateUpcE,
+} from './lib/eanUpc'
+import { DEFAULT_RANDOM_CONFIG } from './lib/randomSerial'
+import {
+  clearJobDraft,
+  createEmptyJob,
+  createJobFileFromBlob,
+  getJob,
+  getJobDraft,
+  saveJob,
+  saveJobDraft,
+  withJobDefaults,
+  type JobDraft,
+} from './lib/jobStorage'
+import { diffCodeJobs, formatCodeJobChange, summarizeCodeJobChanges } from './lib/jobDiff'
+import type { JobPackage } from './lib/jobPackage'
+import {
+  DEFAULT_JOB_TICKET_DETAILS,
+  createJobTicket,
+  jobTicketDetailsOf,
+  type JobTicketDetails,
+} from './lib/jobTicket'
+import { vdpImportFromFile, vdpImportToFile } from './lib/vdpDataSource'
+import { vdpImportFieldNames } from './lib/vdp'
+import { resolveVdpLayers, vdpImportRowContext, vdpRecordObjects, type VdpImageSources } from './lib/vdpObjects'
+import {
+  EMPTY_EDITOR_HISTORY,
+  goToEditorHistory,
+  recordEditorChange,
+  redoEditorHistory,
+  undoEditorHistory,
+  type EditorHistory,
+  type EditorSnapshot,
+} from './lib/editorHistory'
+import {
+  addLabelObject,
+  createLabelObject,
+  createLayer,
+  duplicateLabelObject,
+  isImageObject,
+  moveLabelObjectToLayer,
+  removeLabelObject,
+  reorderLabelObject,
+  reorderLayers,
+  updateLabelObject,
+  updateLayer,
+} from './lib/labelObjects'
 
 import type {
   CodeType,
+  CompositeComponent,
+  DataBarVariant,
   DataMode,
   Rotation,
   VdpMode,
+  VdpRandomConfig,
   LabelPreset,
   ReferenceBox,
   VdpImportState,
+  VdpPrintRun,
+  VdpValidationResult,
   PrintDirection,
   LabelConfig,
   Layer,
+  LayerType,
+  LabelObject,
+  ObjectType,
   DistortionSettings,
   StepRepeatConfig,
-  WebStepRepeat,
   ExportSettings,
   SeparationPreview,
   MachinePreset,
   LabelOrientation,
 } from './types/barcodeTypes'
+import {
+  formatVdpTemplateIssue,
+  getPrintRunRecordCount,
+  printRunRecordFields,
+  renderPrintRunRecord,
+} from './lib/vdp'
+import { buildVdpImportState, parseVdpCsv } from './lib/vdpDataSource'
+import type { CodeJob, CodeJobAnchor, CodeJobFile, CodeJobId } from './types/jobTypes'
+import type { DieLineInfo } from './prepress/dieline/DieLineTypes'
 
 /** BASE URL na BE – primárne z Vite env, fallback na Railway / api.gpcs.online */
 const RAW_API_BASE =
@@ -47,22 +131,73 @@ const RAW_API_BASE =
 // odstráň trailing /, aby URL boli vždy v tvare https://.../api/...
 const API_BASE_URL = RAW_API_BASE.replace(/\/+$/, '')
 
+const EMPTY_VDP_IMPORT_STATE: VdpImportState = {
+  fileName: null,
+  columns: [],
+  rows: [],
+  currentRowIndex: 0,
+  totalRows: 0,
+  patternTemplate: '[SERIAL]',
+  fieldMapping: {},
+}
+
+/** Oneskorenie autosave po poslednej zmene */
+const AUTOSAVE_DELAY_MS = 2000
+const JOB_AUTHOR_STORAGE_KEY = 'gpcs-job-author'
+
+type JobMeta = Pick<CodeJob, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'revision'>
+
+const jobMetaOf = ({ id, name, createdAt, updatedAt, revision }: CodeJob): JobMeta => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  revision,
+})
+
 const App: React.FC = () => {
   // Auth state
   const [isLoggedIn, setIsLoggedIn] = useState(false)
   const [appMode, setAppMode] = useState<AppMode>('CODE_GENERATOR')
 
+  // Predvolené hodnoty editora sú hodnoty nového jobu
+  const [initialJob] = useState(() => createEmptyJob())
+
   /* =====================
    * ZÁKLADNÉ DÁTA KÓDU
    * ===================== */
-  const [codeType, setCodeType] = useState<CodeType>('CODE128')
-  const [codeValue, setCodeValue] = useState<string>('')
+  const [codeType, setCodeType] = useState<CodeType>(initialJob.codeType)
+  const [codeValue, setCodeValue] = useState<string>(initialJob.rawCodeValue)
   const [touched, setTouched] = useState(false)
 
+  // GS1 DataBar – variant a segmenty na riadok pre Expanded Stacked
+  const [dataBarVariant, setDataBarVariant] = useState<DataBarVariant>(initialJob.dataBarVariant)
+  const [dataBarSegments, setDataBarSegments] = useState(initialJob.dataBarSegments)
+
+  // GS1 Composite – 2D zložka CC-A/B/C nad lineárnym kódom (undefined = vypnuté)
+  const [compositeEnabled, setCompositeEnabled] = useState(initialJob.compositeEnabled)
+  const [compositeComponent, setCompositeComponent] = useState<CompositeComponent>(initialJob.compositeComponent)
+  const composite = compositeEnabled && isCompositeCodeType(codeType)
+    ? compositeComponentsFor(codeType).includes(compositeComponent) ? compositeComponent : 'AUTO'
+    : undefined
+
+  // EAN-2/EAN-5 doplnok za EAN-13/UPC (prázdny = bez doplnku), pri kompozite sa nepoužije
+  const [addOn, setAddOn] = useState(initialJob.addOn)
+  const activeAddOn = isAddOnCodeType(codeType) && !composite ? addOn : ''
+  // Hodnota pre symbol – doplnok za medzerou ako vstup bwip-js
+  const symbolValue = joinAddOn(codeValue, activeAddOn)
+
   const error = useMemo(() => {
     if (!touched) return ''
     if (!codeValue) return 'Hodnota je povinná'
 
+    // Kompozit sa zadáva ako AI reťazec pre obe zložky
+    if (composite) {
+      const compositeError = splitGs1Composite(codeType, codeValue, dataBarVariant, composite)
+        .report.issues.find(i => i.severity === 'error')
+      return compositeError ? `GS1 Composite: ${compositeError.message}` : ''
+    }
+
     const onlyDigits = /^[0-9]+$/
 
     if (codeType === 'EAN13' && (!onlyDigits.test(codeValue) || codeValue.length !== 12)) {
@@ -74,12 +209,31 @@ const App: React.FC = () => {
     if (codeType === 'UPCA' && (!onlyDigits.test(codeValue) || codeValue.length !== 11)) {
       return 'UPC-A: zadaj presne 11 číslic (bez kontrolnej číslice)'
     }
+    if (codeType === 'UPCE') {
+      if (!onlyDigits.test(codeValue) || codeValue.length !== 7) {
+        return 'UPC-E: zadaj presne 7 číslic (číselný systém 0/1 + 6 číslic, bez kontrolnej číslice)'
+      }
+      const upcEError = validateUpcE(codeValue).issues.find(i => i.severity === 'error')
+      if (upcEError) return `UPC-E: ${upcEError.message}`
+    }
+    if (activeAddOn) {
+      const addOnError = validateAddOn(activeAddOn).find(i => i.severity === 'error')
+      if (addOnError) return `Doplnok: ${addOnError.message}`
+    }
     if (codeType === 'ITF14' && (!onlyDigits.test(codeValue) || codeValue.length !== 13)) {
       return 'ITF-14: zadaj presne 13 číslic (GTIN-14 bez kontrolnej číslice)'
     }
+    if (codeType === 'GS1128' || codeType === 'GS1DM' || codeType === 'GS1DATABAR') {
+      const gs1Error = validateGs1ForCodeType(codeType, codeValue, dataBarVariant).issues.find(i => i.severity === 'error')
+      if (gs1Error) return `GS1: ${gs1Error.message}`
+    }
+    if (codeType === 'QR') {
+      const linkError = validateGs1DigitalLink(codeValue)?.issues.find(i => i.severity === 'error')
+      if (linkError) return `GS1 Digital Link: ${linkError.message}`
+    }
 
     return ''
-  }, [codeType, codeValue, touched])
+  }, [codeType, codeValue, dataBarVariant, composite, activeAddOn, touched])
 
   const maxLength = 512
 
@@ -88,23 +242,17 @@ const App: React.FC = () => {
    * ===================== */
   const defaultProfile = getDefaultProfile()
   const [activeProfileId, setActiveProfileId] = useState<PrintingProfileId>(
-    defaultProfile.id,
+    initialJob.activeProfileId ?? defaultProfile.id,
   )
   const activeProfile: PrintingProfile | null = useMemo(
     () => PRINTING_PROFILES.find(p => p.id === activeProfileId) ?? null,
     [activeProfileId],
   )
 
-  const [xDimMm, setXDimMm] = useState(defaultProfile.recommended.xDimMm)
-  const [quietZoneMm, setQuietZoneMm] = useState(
-    defaultProfile.recommended.quietZoneMm,
-  )
-  const [magnificationPercent, setMagnificationPercent] = useState(
-    defaultProfile.recommended.magnificationPercent,
-  )
-  const [barWidthReductionMm, setBarWidthReductionMm] = useState(
-    defaultProfile.recommended.barWidthReductionMm,
-  )
+  const [xDimMm, setXDimMm] = useState(initialJob.xDimMm)
+  const [quietZoneMm, setQuietZoneMm] = useState(initialJob.quietZoneMm)
+  const [magnificationPercent, setMagnificationPercent] = useState(initialJob.magnificationPercent)
+  const [barWidthReductionMm, setBarWidthReductionMm] = useState(initialJob.barWidthReductionMm)
 
   const applyPrintingProfile = (p: PrintingProfile) => {
     setXDimMm(p.recommended.xDimMm)
@@ -117,37 +265,52 @@ const App: React.FC = () => {
   /* =====================
    * DATA MODE + GS1 FORM
    * ===================== */
-  const [dataMode, setDataMode] = useState<DataMode>('PLAIN')
-
-  const [labelGtin14, setLabelGtin14] = useState('')
-  const [labelLot, setLabelLot] = useState('')
-  const [labelBestBefore, setLabelBestBefore] = useState('')
-  const [labelSerial, setLabelSerial] = useState('')
-  const [labelProdDate, setLabelProdDate] = useState('')
-  const [labelPackDate, setLabelPackDate] = useState('')
-  const [labelUseBy, setLabelUseBy] = useState('')
-  const [labelVariant, setLabelVariant] = useState('')
-  const [labelQuantity, setLabelQuantity] = useState('')
-  const [labelCount, setLabelCount] = useState('')
+  const [dataMode, setDataMode] = useState<DataMode>(initialJob.dataMode)
+
+  const [labelGtin14, setLabelGtin14] = useState(initialJob.gs1Label.gtin14)
+  const [labelLot, setLabelLot] = useState(initialJob.gs1Label.lot)
+  const [labelBestBefore, setLabelBestBefore] = useState(initialJob.gs1Label.bestBefore)
+  const [labelSerial, setLabelSerial] = useState(initialJob.gs1Label.serial)
+  const [labelProdDate, setLabelProdDate] = useState(initialJob.gs1Label.prodDate)
+  const [labelPackDate, setLabelPackDate] = useState(initialJob.gs1Label.packDate)
+  const [labelUseBy, setLabelUseBy] = useState(initialJob.gs1Label.useBy)
+  const [labelVariant, setLabelVariant] = useState(initialJob.gs1Label.variant)
+  const [labelQuantity, setLabelQuantity] = useState(initialJob.gs1Label.quantity)
+  const [labelCount, setLabelCount] = useState(initialJob.gs1Label.count)
+  const [labelNetWeightKg, setLabelNetWeightKg] = useState(initialJob.gs1Label.netWeightKg)
+  const [labelPrice, setLabelPrice] = useState(initialJob.gs1Label.price)
+  const [gs1FormError, setGs1FormError] = useState('')
+
+  // GS1 Digital Link výstup formulára (pre QR)
+  const [gs1FormOutput, setGs1FormOutput] = useState(initialJob.gs1FormOutput)
+  const [digitalLinkDomain, setDigitalLinkDomain] = useState(initialJob.digitalLinkDomain)
+  const [digitalLinkCompression, setDigitalLinkCompression] = useState<Gs1DigitalLinkCompression>(initialJob.digitalLinkCompression)
+  const [digitalLinkError, setDigitalLinkError] = useState('')
 
   const computeGs1CheckDigit = (gtinBase: string): string | null => {
     const digits = gtinBase.replace(/[^0-9]/g, '')
     if (digits.length !== 13 && digits.length !== 14) return null
 
     const body = digits.length === 14 ? digits.slice(0, 13) : digits
-    const reversed = body.split('').reverse()
-    let sum = 0
-    for (let i = 0; i < reversed.length; i++) {
-      const n = parseInt(reversed[i], 10)
-      sum += (i + 1) % 2 === 1 ? 3 * n : n
-    }
-    const cd = (10 - (sum % 10)) % 10
-    return body + String(cd)
+    return body + String(gs1CheckDigit(body))
   }
 
   const buildGs1LabelString = () => {
     const parts: string[] = []
     if (labelGtin14) parts.push(`(01)${labelGtin14}`)
+
+    // Cena a hmotnosť hneď za GTIN – DataBar Expanded ich tak kóduje kompaktne
+    const price = labelPrice ? formatGs1Decimal('392', labelPrice, null) : ''
+    const netWeight = labelNetWeightKg ? formatGs1Decimal('310', labelNetWeightKg, 6) : ''
+    const formErrors = [
+      price === null && 'Cena: zadaj číslo s najviac 9 desatinnými miestami',
+      netWeight === null && 'Hmotnosť: zadaj kg s najviac 5 desatinnými miestami (6 číslic)',
+    ].filter(Boolean)
+    setGs1FormError(formErrors.join('\n'))
+    if (formErrors.length > 0) return
+    if (price) parts.push(price)
+    if (netWeight) parts.push(netWeight)
+
     if (labelBestBefore) parts.push(`(17)${labelBestBefore}`)
     if (labelLot) parts.push(`(10)${labelLot}`)
     if (labelSerial) parts.push(`(21)${labelSerial}`)
@@ -159,28 +322,71 @@ const App: React.FC = () => {
     if (labelCount) parts.push(`(37)${labelCount}`)
 
     const gs1String = parts.join('')
-    setCodeValue(gs1String)
     setDataMode('GS1_FORM')
     setTouched(true)
+
+    if (gs1FormOutput === 'DIGITAL_LINK' || codeType === 'QR') {
+      applyDigitalLink(gs1String)
+      return
+    }
+    setDigitalLinkError('')
+    setCodeValue(gs1String)
+  }
+
+  // Element string → Digital Link URI, ktoré ide do QR kódu
+  const applyDigitalLink = (gs1String: string) => {
+    const result = gs1ToDigitalLink(gs1String, {
+      domain: digitalLinkDomain,
+      compression: digitalLinkCompression,
+    })
+    if (!result.valid) {
+      setDigitalLinkError(result.issues.filter(i => i.severity === 'error').map(i => i.message).join('\n'))
+      return
+    }
+    setDigitalLinkError('')
+    setCodeValue(result.uri)
+    if (codeType !== 'QR' && codeType !== 'DATAMATRIX') setCodeType('QR')
+  }
+
+  // UPC-A ↔ UPC-E – potlačenie núl, hodnota bez kontrolnej číslice
+  const convertUpcType = () => {
+    if (codeType === 'UPCA') {
+      const upce = compressUpcA(codeValue)
+      if (!upce) return
+      setCodeType('UPCE')
+      setCodeValue(upce.slice(0, 7))
+    } else if (codeType === 'UPCE') {
+      const upca = expandUpcE(codeValue)
+      if (!upca) return
+      setCodeType('UPCA')
+      setCodeValue(upca.slice(0, 11))
+    }
+    setTouched(true)
+  }
+
+  // Digital Link URI → GS1 element string (HRI)
+  const convertDigitalLinkToElementString = () => {
+    const parsed = parseGs1DigitalLink(codeValue)
+    if (!parsed.valid) {
+      setDigitalLinkError(parsed.issues.filter(i => i.severity === 'error').map(i => i.message).join('\n'))
+      return
+    }
+    setDigitalLinkError('')
+    setCodeValue(parsed.hri)
+    if (codeType !== 'GS1128' && codeType !== 'GS1DM' && codeType !== 'GS1DATABAR') setCodeType('GS1DM')
   }
 
   /* =====================
-   * BACKEND VALIDÁCIA
+   * GS1 VALIDÁCIA (lokálna, server len ako krížová kontrola)
    * ===================== */
   const [serverMessage, setServerMessage] = useState('')
   const [serverError, setServerError] = useState('')
   const [loading, setLoading] = useState(false)
+  const [gs1ServerCheck, setGs1ServerCheck] = useState(false)
 
-  const handleValidateGs1Linear = async () => {
-    setLoading(true)
-    setServerMessage('')
-    setServerError('')
-
+  // Voliteľná krížová kontrola na backende – nedostupný server nie je chyba
+  const crossCheckGs1OnServer = async (): Promise<{ agrees: boolean; note: string }> => {
     try {
-      if (!codeValue) {
-        throw new Error('Hodnota kódu je prázdna.')
-      }
-
       const resp = await fetch(`${API_BASE_URL}/api/gs1/validate-linear`, {
         method: 'POST',
         headers: {
@@ -192,60 +398,69 @@ const App: React.FC = () => {
         }),
       })
 
-      // Ak backend endpoint ešte nie je hotový / 404 → fallback na lokálny stub
       if (resp.status === 404) {
-        setServerMessage(
-          'Backend validácia ešte nie je dostupná – lokálna kontrola OK (formát vyzerá v poriadku).',
-        )
-        return
+        return { agrees: true, note: 'Server: krížová kontrola nie je dostupná.' }
       }
-
       if (!resp.ok) {
-        const text = await resp.text()
-        throw new Error(
-          `Chyba BE validácie (${resp.status}): ${text || 'neznáma chyba'}`,
-        )
+        return { agrees: true, note: `Server: krížová kontrola zlyhala (${resp.status}).` }
       }
 
       type Gs1Response = {
         valid: boolean
         message?: string
         warnings?: string[]
-        sanitized?: string
-        finalCode?: string
-        checkDigit?: number
       }
 
       const data: Gs1Response = await resp.json()
+      if (data.valid === false) {
+        return { agrees: false, note: `Server: ${data.message ?? 'GS1 kód nie je validný.'}` }
+      }
+      return { agrees: true, note: `Server: ${data.message ?? 'GS1 validácia úspešná.'}` }
+    } catch (e) {
+      console.error(e)
+      return { agrees: true, note: 'Server: nedostupný – platí lokálna validácia.' }
+    }
+  }
+
+  const handleValidateGs1Linear = async () => {
+    setLoading(true)
+    setServerMessage('')
+    setServerError('')
+
+    try {
+      if (!codeValue) {
+        throw new Error('Hodnota kódu je prázdna.')
+      }
 
-      if (typeof data.valid === 'boolean') {
-        const warningsText =
-          data.warnings && data.warnings.length > 0
-            ? `\nUpozornenia: ${data.warnings.join('; ')}`
-            : ''
+      const report = (composite && splitGs1Composite(codeType, codeValue, dataBarVariant, composite).report) ||
+        (isAddOnCodeType(codeType) && validateEanUpc(codeType, symbolValue)) ||
+        (codeType === 'QR' && validateGs1DigitalLink(codeValue)) ||
+        validateGs1ForCodeType(codeType, codeValue, dataBarVariant)
+      const errors = report.issues.filter(i => i.severity === 'error').map(i => i.message)
+      const warnings = report.issues.filter(i => i.severity === 'warning').map(i => i.message)
+      const warningsText = warnings.length > 0 ? `\nUpozornenia: ${warnings.join('; ')}` : ''
+
+      if (!report.valid) {
+        setServerError(`GS1 kód nie je validný:\n${errors.join('\n')}${warningsText}`)
+        return
+      }
 
-        if (data.valid) {
-          const baseMsg = data.message ?? 'GS1 validácia úspešná.'
-          setServerMessage(baseMsg + warningsText)
-          setServerError('')
+      let message = `GS1 validácia úspešná: ${report.hri}${warningsText}`
+      if (gs1ServerCheck) {
+        const crossCheck = await crossCheckGs1OnServer()
+        if (crossCheck.agrees) {
+          message += `\n${crossCheck.note}`
         } else {
-          const baseMsg = data.message ?? 'GS1 kód nie je validný.'
-          setServerError(baseMsg + warningsText)
-          setServerMessage('')
+          setServerError(crossCheck.note)
         }
-      } else {
-        // backend vrátil niečo iné, ale bez chyby
-        setServerMessage(
-          data?.message ??
-            'Backend odpovedal, ale formát odpovede nie je špecifikovaný. Predpokladám OK.',
-        )
       }
+      setServerMessage(message)
     } catch (e) {
       console.error(e)
       setServerError(
         e instanceof Error
           ? e.message
-          : 'Neznáma chyba pri volaní backend validácie.',
+          : 'Neznáma chyba pri GS1 validácii.',
       )
     } finally {
       setLoading(false)
@@ -255,146 +470,114 @@ const App: React.FC = () => {
   /* =====================
    * EXPORT & ROZMERY
    * ===================== */
-  const [exportDpi, setExportDpi] = useState(300)
+  const [exportDpi, setExportDpi] = useState(initialJob.exportDpi)
 
-  const [labelWidthMm, setLabelWidthMm] = useState(50)
-  const [labelHeightMm, setLabelHeightMm] = useState(30)
-  const [labelPreset, setLabelPreset] = useState<LabelPreset>('50x30')
-  const [bleedMm, setBleedMm] = useState(2)
-  const [safeMarginMm, setSafeMarginMm] = useState(2)
-  const [referenceBox, setReferenceBox] = useState<ReferenceBox>('TRIM')
+  const [labelWidthMm, setLabelWidthMm] = useState(initialJob.labelWidthMm)
+  const [labelHeightMm, setLabelHeightMm] = useState(initialJob.labelHeightMm)
+  const [labelPreset, setLabelPreset] = useState<LabelPreset>(initialJob.labelPreset)
+  const [bleedMm, setBleedMm] = useState(initialJob.bleedMm)
+  const [safeMarginMm, setSafeMarginMm] = useState(initialJob.safeMarginMm)
+  const [referenceBox, setReferenceBox] = useState<ReferenceBox>(initialJob.referenceBox)
 
-  const [anchorX, setAnchorX] = useState<'start' | 'center' | 'end'>('end')
-  const [anchorY, setAnchorY] = useState<'start' | 'center' | 'end'>('end')
-  const [offsetXmm, setOffsetXmm] = useState(-3)
-  const [offsetYmm, setOffsetYmm] = useState(3)
+  const [anchorX, setAnchorX] = useState<CodeJobAnchor>(initialJob.anchorX)
+  const [anchorY, setAnchorY] = useState<CodeJobAnchor>(initialJob.anchorY)
+  const [offsetXmm, setOffsetXmm] = useState(initialJob.offsetXmm)
+  const [offsetYmm, setOffsetYmm] = useState(initialJob.offsetYmm)
 
   /* =====================
    * ROTÁCIA & SMER TLAČE & VDP
    * ===================== */
-  const [rotation, setRotation] = useState<Rotation>(0)
+  const [rotation, setRotation] = useState<Rotation>(initialJob.rotation)
   const [printDirection, setPrintDirection] =
-    useState<PrintDirection>('ALONG_WEB')
-
-  const [vdpEnabled, setVdpEnabled] = useState(false)
-  const [serialStart, setSerialStart] = useState(1)
-  const [serialCurrent, setSerialCurrent] = useState(1)
-  const [serialPadding, setSerialPadding] = useState(6)
-  const [vdpPattern, setVdpPattern] = useState<string>('[SERIAL]')
-  const [vdpMode, setVdpMode] = useState<VdpMode>('LINEAR')
-  const [vdpCount, setVdpCount] = useState(100)
-  const [vdpPrefix, setVdpPrefix] = useState('')
-  const [vdpAlphaStartChar, setVdpAlphaStartChar] = useState('A')
+    useState<PrintDirection>(initialJob.printDirection)
+
+  const [vdpEnabled, setVdpEnabled] = useState(initialJob.vdpEnabled)
+  const [serialStart, setSerialStart] = useState(initialJob.serialStart)
+  const [serialCurrent, setSerialCurrent] = useState(initialJob.serialCurrent)
+  const [serialPadding, setSerialPadding] = useState(initialJob.serialPadding)
+  const [vdpPattern, setVdpPattern] = useState<string>(initialJob.vdpPattern)
+  const [vdpMode, setVdpMode] = useState<VdpMode>(initialJob.vdpMode)
+  const [vdpCount, setVdpCount] = useState(initialJob.vdpCount)
+  const [vdpPrefix, setVdpPrefix] = useState(initialJob.vdpPrefix)
+  const [vdpAlphaStartChar, setVdpAlphaStartChar] = useState(initialJob.vdpAlphaStartChar)
+  const [vdpRandom, setVdpRandom] = useState<VdpRandomConfig>(initialJob.vdpRandom ?? DEFAULT_RANDOM_CONFIG)
 
   /* =====================
    * VDP IMPORT STATE
    * ===================== */
-  const [vdpImportState, setVdpImportState] = useState<VdpImportState>({
-    fileName: null,
-    columns: [],
-    rows: [],
-    currentRowIndex: 0,
-    totalRows: 0,
-    patternTemplate: '[SERIAL]',
-    fieldMapping: {},
-  })
-  const [vdpImportPatternTemplate, setVdpImportPatternTemplate] = useState(
-    '(01)[SERIAL]',
+  const [vdpImportState, setVdpImportState] = useState<VdpImportState>(EMPTY_VDP_IMPORT_STATE)
+  const [vdpImportPatternTemplate, setVdpImportPatternTemplate] = useState(initialJob.vdpImportPatternTemplate)
+
+  /* =====================
+   * VDP TLAČOVÝ BEH
+   * ===================== */
+  const [showVdpPrintRun, setShowVdpPrintRun] = useState(false)
+  // CSV zdrojom behu sú dáta VDP importu, beh drží len vlastné nastavenia
+  const [vdpPrintRun, setVdpPrintRun] = useState<Omit<VdpPrintRun, 'csvData'>>(() => ({
+    source: 'SERIAL',
+    serialStart: initialJob.serialStart,
+    serialEnd: initialJob.serialStart + Math.max(1, initialJob.vdpCount) - 1,
+    serialPadding: initialJob.serialPadding,
+    serialPrefix: initialJob.vdpPrefix,
+    useLanes: false,
+    laneConfigs: [],
+    validateBeforeExport: true,
+    stopOnError: true,
+    previewIndices: [0, 1, 9, -1],
+  }))
+  const printRun = useMemo<VdpPrintRun>(
+    () => ({
+      ...vdpPrintRun,
+      csvData:
+        vdpImportState.totalRows > 0 ? { ...vdpImportState, patternTemplate: vdpImportPatternTemplate } : undefined,
+    }),
+    [vdpPrintRun, vdpImportState, vdpImportPatternTemplate],
   )
 
   /* =====================
    * GRAFIKA KÓDU
    * ===================== */
-  const [barHeightPx, setBarHeightPx] = useState(60)
-  const [showHrText, setShowHrText] = useState(true)
-  const [hrFontSizePt, setHrFontSizePt] = useState(14)
-  const [barColor, setBarColor] = useState('#000000')
-  const [bgColor, setBgColor] = useState('#ffffff')
-  const [textColor, setTextColor] = useState('#000000')
+  const [barHeightPx, setBarHeightPx] = useState(initialJob.barHeightPx)
+  const [showHrText, setShowHrText] = useState(initialJob.showHrText)
+  const [hrFontSizePt, setHrFontSizePt] = useState(initialJob.hrFontSizePt)
+  const [barColor, setBarColor] = useState(initialJob.barColor)
+  const [bgColor, setBgColor] = useState(initialJob.bgColor)
+  const [textColor, setTextColor] = useState(initialJob.textColor)
 
   // editable HR line
-  const [hrCustomText, setHrCustomText] = useState('')
+  const [hrCustomText, setHrCustomText] = useState(initialJob.hrCustomText)
 
   /* =====================
    * LABEL SHAPE & GUIDES
    * ===================== */
-  const [labelBorderRadiusMm, setLabelBorderRadiusMm] = useState(1.0)
-  const [showDimensionGuides, setShowDimensionGuides] = useState(true)
+  const [labelBorderRadiusMm, setLabelBorderRadiusMm] = useState(initialJob.labelBorderRadiusMm)
+  const [showDimensionGuides, setShowDimensionGuides] = useState(initialJob.showDimensionGuides)
 
   /* =====================
    * QR LOGO
    * ===================== */
-  const [qrLogoDataUrl, setQrLogoDataUrl] = useState<string | null>(null)
-  const [qrLogoScale, setQrLogoScale] = useState(0.25)
+  const [qrLogoDataUrl, setQrLogoDataUrl] = useState<string | null>(initialJob.qrLogoDataUrl)
+  const [qrLogoScale, setQrLogoScale] = useState(initialJob.qrLogoScale)
 
   /* =====================
    * LABEL CANVAS STATE
    * ===================== */
-  const [layers] = useState<Layer[]>([
-    {
-      id: 'layer_white',
-      type: 'WHITE_UNDERPRINT',
-      name: 'White Underprint',
-      visible: true,
-      locked: false,
-      printable: true,
-      objects: [],
-      colorMode: 'SPOT',
-      spotColorName: 'WHITE',
-      overprint: false,
-      knockout: false,
-    },
-    {
-      id: 'layer_barcode',
-      type: 'BARCODE',
-      name: 'Barcode',
-      visible: true,
-      locked: false,
-      printable: true,
-      objects: [],
-      colorMode: 'PROCESS',
-      overprint: false,
-      knockout: true,
-    },
-    {
-      id: 'layer_text',
-      type: 'TEXT',
-      name: 'Text',
-      visible: true,
-      locked: false,
-      printable: true,
-      objects: [],
-      colorMode: 'PROCESS',
-      overprint: false,
-      knockout: true,
-    },
-    {
-      id: 'layer_logo',
-      type: 'LOGO',
-      name: 'Logo',
-      visible: true,
-      locked: false,
-      printable: true,
-      objects: [],
-      colorMode: 'PROCESS',
-      overprint: false,
-      knockout: true,
-    },
-  ])
+  const [layers, setLayers] = useState<Layer[]>(initialJob.layers)
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null)
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null)
+  // Hlavná plocha: náhľad kódu alebo kompozícia celej etikety
+  const [canvasView, setCanvasView] = useState<'PREVIEW' | 'COMPOSITION'>('PREVIEW')
+  const [snapToGrid, setSnapToGrid] = useState(false)
+  const [snapToObjects, setSnapToObjects] = useState(true)
   const [distortionSettings, setDistortionSettings] =
-    useState<DistortionSettings>({
-      enabled: false,
-      webDirectionPercent: 0,
-      crossDirectionPercent: 0,
-      previewDistorted: false,
-    })
+    useState<DistortionSettings>(initialJob.distortion)
 
   // Canvas zobrazenie zón
   const [showBleedZone] = useState(true)
   const [showTrimZone] = useState(true)
   const [showSafeZone] = useState(true)
   const [showCanvasGrid] = useState(true)
-  const [canvasGridSizeMm, setCanvasGridSizeMm] = useState(1)
+  const [canvasGridSizeMm, setCanvasGridSizeMm] = useState(initialJob.canvasGridSizeMm)
   const [canvasZoom, setCanvasZoom] = useState(1)
   const [labelOrientation] = useState<LabelOrientation>('HEAD_UP')
 
@@ -413,56 +596,19 @@ const App: React.FC = () => {
   const [showExport, setShowExport] = useState(false)
 
   // Step & Repeat config
-  const [stepRepeatConfig, setStepRepeatConfig] = useState<StepRepeatConfig>({
-    mode: 'WEB',
-    webWidthMm: 330,
-    repeatLengthMm: 330,
-    lanes: 3,
-    rows: 4,
-    horizontalGapMm: 2,
-    verticalGapMm: 2,
-    staggerMode: 'NONE',
-    leftMarginMm: 5,
-    rightMarginMm: 5,
-    leadingEdgeMm: 5,
-    trailingEdgeMm: 5,
-    includeEyeMark: true,
-    eyeMarkPositionMm: 5,
-    eyeMarkWidthMm: 3,
-    eyeMarkHeightMm: 5,
-    includeRegistrationMarks: true,
-    includeColorBar: false,
-    includeMicrotext: false,
-    microtextContent: '',
-  } as WebStepRepeat)
+  const [stepRepeatConfig, setStepRepeatConfig] = useState<StepRepeatConfig>(initialJob.stepRepeat)
 
   // Export settings
-  const [exportSettings, setExportSettings] = useState<ExportSettings>({
-    format: 'PDF',
-    pdfVersion: 'PDF_X4',
-    embedFonts: true,
-    outlineFonts: false,
-    dpi: 300,
-    colorMode: 'CMYK',
-    spotColors: [],
-    barcodeColorName: 'Black',
-    barcodeAsSpot: false,
-    whiteUnderprint: false,
-    whiteUnderprintSpread: 0.1,
-    includeBleed: true,
-    includeCropMarks: true,
-    includeRegistrationMarks: true,
-    includeColorBars: false,
-    markOffset: 3,
-  })
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(initialJob.exportSettings)
 
   // Machine Presets
   const [showMachinePresets, setShowMachinePresets] = useState(false)
   const [selectedMachinePreset, setSelectedMachinePreset] =
-    useState<MachinePreset | null>(null)
+    useState<MachinePreset | null>(initialJob.machinePreset)
 
   // Job Ticket
   const [showJobTicket, setShowJobTicket] = useState(false)
+  const [jobTicketDetails, setJobTicketDetails] = useState<JobTicketDetails>(DEFAULT_JOB_TICKET_DETAILS)
   const jobId = `JOB-${Date.now().toString(36).toUpperCase()}`
 
   const labelConfig: LabelConfig = {
@@ -481,21 +627,573 @@ const App: React.FC = () => {
     gridSizeMm: canvasGridSizeMm,
   }
 
+  /* =====================
+   * KOMPOZÍCIA – VRSTVY A OBJEKTY
+   * ===================== */
+  const handleAddLayer = (type: LayerType) => {
+    const layer = createLayer(type)
+    setLayers(prev => [layer, ...prev])
+    setSelectedLayerId(layer.id)
+  }
+
+  const handleRemoveLayer = (layerId: string) => {
+    setLayers(prev => prev.filter(layer => layer.id !== layerId))
+    if (selectedLayerId === layerId) setSelectedLayerId(null)
+  }
+
+  const handleAddObject = (layerId: string, type: ObjectType) => {
+    const layer = layers.find(l => l.id === layerId)
+    if (!layer) return
+    const object = createLabelObject(type, layer.type, labelConfig)
+    setLayers(prev => addLabelObject(prev, layerId, object))
+    setSelectedObjectId(object.id)
+    setCanvasView('COMPOSITION')
+  }
+
+  const handleUpdateObject = (_layerId: string, objectId: string, updates: Partial<LabelObject>) =>
+    setLayers(prev => updateLabelObject(prev, objectId, updates))
+
+  const handleRemoveObject = (_layerId: string, objectId: string) => {
+    setLayers(prev => removeLabelObject(prev, objectId))
+    if (selectedObjectId === objectId) setSelectedObjectId(null)
+  }
+
+  const handleDuplicateObject = (_layerId: string, objectId: string) => {
+    const duplicated = duplicateLabelObject(layers, objectId)
+    if (!duplicated) return
+    setLayers(duplicated.layers)
+    setSelectedObjectId(duplicated.id)
+  }
+
+  // Variabilné texty a obrázky sa na plátne ukazujú pre aktuálny riadok VDP importu
+  const vdpRowContext = useMemo(() => vdpImportRowContext(vdpImportState), [vdpImportState])
+  const vdpFieldNames = useMemo(() => vdpImportFieldNames(vdpImportState.columns), [vdpImportState.columns])
+
+  // Obrázky variabilných objektov sú prílohy jobu, objekty držia len ich názvy
+  const [vdpImageFiles, setVdpImageFiles] = useState<CodeJobFile[]>(initialJob.vdpImageFiles ?? [])
+  const vdpImageUrls = useMemo<VdpImageSources>(
+    () => Object.fromEntries(vdpImageFiles.map(file => [file.name, URL.createObjectURL(file.data)])),
+    [vdpImageFiles],
+  )
+  useEffect(() => () => Object.values(vdpImageUrls).forEach(url => URL.revokeObjectURL(url)), [vdpImageUrls])
+  // Do jobu idú len obrázky, na ktoré odkazuje niektorý objekt
+  const usedVdpImageFiles = useMemo(() => {
+    const names = new Set(
+      layers.flatMap(layer => layer.objects.flatMap(obj => (isImageObject(obj) ? (obj.vdpImageNames ?? []) : []))),
+    )
+    return vdpImageFiles.filter(file => names.has(file.name))
+  }, [layers, vdpImageFiles])
+
+  const handleAddVdpImages = async (files: File[]): Promise<string[]> => {
+    const added = await Promise.all(
+      files.map(file => createJobFileFromBlob(file.name, file.type || 'application/octet-stream', file)),
+    )
+    const names = new Set(added.map(file => file.name))
+    setVdpImageFiles(prev => [...prev.filter(file => !names.has(file.name)), ...added])
+    return added.map(file => file.name)
+  }
+
+  const previewLayers = useMemo(
+    () => resolveVdpLayers(layers, vdpRowContext, vdpImageUrls),
+    [layers, vdpRowContext, vdpImageUrls],
+  )
+
+  const goToVdpRow = (rowIndex: number) =>
+    setVdpImportState(prev => ({
+      ...prev,
+      currentRowIndex: Math.min(Math.max(0, rowIndex), Math.max(0, prev.totalRows - 1)),
+    }))
+
+  /* =====================
+   * JOB – ULOŽENIE, AUTOSAVE, OBNOVA
+   * ===================== */
+  const [jobMeta, setJobMeta] = useState<JobMeta>(() => jobMetaOf(initialJob))
+  // Naposledy uložený alebo otvorený stav – voči nemu sa určujú neuložené zmeny
+  const [baselineJob, setBaselineJob] = useState<CodeJob>(initialJob)
+  // Výsekový nástroj editor nemení, len ho zachová pri uložení
+  const [dieLineFile, setDieLineFile] = useState<CodeJobFile | null>(null)
+  // Rozbor výseku a zdrojové súbory VDP z balíka – editor ich len prenesie do ďalšieho balíka
+  const [dieLine, setDieLine] = useState<DieLineInfo | null>(null)
+  const [vdpSourceFiles, setVdpSourceFiles] = useState<CodeJobFile[]>([])
+  const [showJobBrowser, setShowJobBrowser] = useState(false)
+  const [showSaveJob, setShowSaveJob] = useState(false)
+  const [jobAuthor, setJobAuthor] = useState(() => localStorage.getItem(JOB_AUTHOR_STORAGE_KEY) ?? '')
+  const [jobComment, setJobComment] = useState('')
+  const [jobSaving, setJobSaving] = useState(false)
+  const [jobMessage, setJobMessage] = useState<{ text: string; error: boolean } | null>(null)
+  const [recoveryDraft, setRecoveryDraft] = useState<JobDraft | null>(null)
+
+  const vdpDataFile = useMemo(() => vdpImportToFile(vdpImportState), [vdpImportState])
+
+  // Celý stav editora ako job – to sa ukladá, autosavuje a porovnáva
+  const editorJob = useMemo<CodeJob>(
+    () => ({
+      ...jobMeta,
+      codeType,
+      dataMode,
+      rawCodeValue: codeValue,
+      dataBarVariant,
+      dataBarSegments,
+      compositeEnabled,
+      compositeComponent,
+      addOn,
+      gs1Label: {
+        gtin14: labelGtin14,
+        lot: labelLot,
+        bestBefore: labelBestBefore,
+        serial: labelSerial,
+        prodDate: labelProdDate,
+        packDate: labelPackDate,
+        useBy: labelUseBy,
+        variant: labelVariant,
+        quantity: labelQuantity,
+        count: labelCount,
+        netWeightKg: labelNetWeightKg,
+        price: labelPrice,
+      },
+      gs1FormOutput,
+      digitalLinkDomain,
+      digitalLinkCompression,
+      vdpEnabled,
+      vdpMode,
+      vdpPattern,
+      vdpPrefix,
+      vdpAlphaStartChar,
+      serialStart,
+      serialCurrent,
+      serialPadding,
+      vdpCount,
+      vdpRandom,
+      vdpImportPatternTemplate,
+      labelPreset,
+      labelWidthMm,
+      labelHeightMm,
+      bleedMm,
+      safeMarginMm,
+      labelBorderRadiusMm,
+      referenceBox,
+      rotation,
+      printDirection,
+      anchorX,
+      anchorY,
+      offsetXmm,
+      offsetYmm,
+      activeProfileId,
+      xDimMm,
+      quietZoneMm,
+      magnificationPercent,
+      barWidthReductionMm,
+      barHeightPx,
+      showHrText,
+      hrFontSizePt,
+      barColor,
+      bgColor,
+      textColor,
+      qrLogoDataUrl,
+      qrLogoScale,
+      hrCustomText,
+      vdpDataFile,
+      dieLineFile,
+      vdpImageFiles: usedVdpImageFiles,
+      showDimensionGuides,
+      canvasGridSizeMm,
+      layers,
+      exportDpi,
+      stepRepeat: stepRepeatConfig,
+      exportSettings,
+      distortion: distortionSettings,
+      machinePreset: selectedMachinePreset,
+    }),
+    [
+      jobMeta, codeType, dataMode, codeValue, dataBarVariant, dataBarSegments, compositeEnabled,
+      compositeComponent, addOn, labelGtin14, labelLot, labelBestBefore, labelSerial, labelProdDate,
+      labelPackDate, labelUseBy, labelVariant, labelQuantity, labelCount, labelNetWeightKg, labelPrice,
+      gs1FormOutput, digitalLinkDomain, digitalLinkCompression, vdpEnabled, vdpMode, vdpPattern,
+      vdpPrefix, vdpAlphaStartChar, serialStart, serialCurrent, serialPadding, vdpCount, vdpRandom,
+      vdpImportPatternTemplate, labelPreset, labelWidthMm, labelHeightMm, bleedMm, safeMarginMm,
+      labelBorderRadiusMm, referenceBox, rotation, printDirection, anchorX, anchorY, offsetXmm,
+      offsetYmm, activeProfileId, xDimMm, quietZoneMm, magnificationPercent, barWidthReductionMm,
+      barHeightPx, showHrText, hrFontSizePt, barColor, bgColor, textColor, qrLogoDataUrl, qrLogoScale,
+      hrCustomText, vdpDataFile, dieLineFile, usedVdpImageFiles, showDimensionGuides, canvasGridSizeMm,
+      layers, exportDpi, stepRepeatConfig, exportSettings, distortionSettings, selectedMachinePreset,
+    ],
+  )
+
+  const jobChanges = useMemo(() => diffCodeJobs(baselineJob, editorJob), [baselineJob, editorJob])
+  const isJobDirty = jobChanges.length > 0
+
+  // Job v tvare, ktorý editor vie zobraziť (starší job bez profilu / RANDOM konfigurácie)
+  const normalizeJob = (job: CodeJob): CodeJob =>
+    withJobDefaults({
+      ...job,
+      activeProfileId: job.activeProfileId ?? defaultProfile.id,
+      vdpRandom: job.vdpRandom ?? DEFAULT_RANDOM_CONFIG,
+    })
+
+  /** Nastaví všetky polia editora podľa jobu (identitu jobu nemení) */
+  const applyEditorState = (next: CodeJob, importState: VdpImportState) => {
+    setJobMeta(meta => ({ ...meta, name: next.name }))
+    setCodeType(next.codeType)
+    setDataMode(next.dataMode)
+    setCodeValue(next.rawCodeValue)
+    setTouched(false)
+    setDataBarVariant(next.dataBarVariant)
+    setDataBarSegments(next.dataBarSegments)
+    setCompositeEnabled(next.compositeEnabled)
+    setCompositeComponent(next.compositeComponent)
+    setAddOn(next.addOn)
+    setLabelGtin14(next.gs1Label.gtin14)
+    setLabelLot(next.gs1Label.lot)
+    setLabelBestBefore(next.gs1Label.bestBefore)
+    setLabelSerial(next.gs1Label.serial)
+    setLabelProdDate(next.gs1Label.prodDate)
+    setLabelPackDate(next.gs1Label.packDate)
+    setLabelUseBy(next.gs1Label.useBy)
+    setLabelVariant(next.gs1Label.variant)
+    setLabelQuantity(next.gs1Label.quantity)
+    setLabelCount(next.gs1Label.count)
+    setLabelNetWeightKg(next.gs1Label.netWeightKg)
+    setLabelPrice(next.gs1Label.price)
+    setGs1FormOutput(next.gs1FormOutput)
+    setDigitalLinkDomain(next.digitalLinkDomain)
+    setDigitalLinkCompression(next.digitalLinkCompression)
+    setVdpEnabled(next.vdpEnabled)
+    setVdpMode(next.vdpMode)
+    setVdpPattern(next.vdpPattern)
+    setVdpPrefix(next.vdpPrefix)
+    setVdpAlphaStartChar(next.vdpAlphaStartChar)
+    setSerialStart(next.serialStart)
+    setSerialCurrent(next.serialCurrent)
+    setSerialPadding(next.serialPadding)
+    setVdpCount(next.vdpCount)
+    setVdpRandom(next.vdpRandom ?? DEFAULT_RANDOM_CONFIG)
+    setVdpImportPatternTemplate(next.vdpImportPatternTemplate)
+    setVdpImportState(importState)
+    setLabelPreset(next.labelPreset)
+    setLabelWidthMm(next.labelWidthMm)
+    setLabelHeightMm(next.labelHeightMm)
+    setBleedMm(next.bleedMm)
+    setSafeMarginMm(next.safeMarginMm)
+    setLabelBorderRadiusMm(next.labelBorderRadiusMm)
+    setReferenceBox(next.referenceBox)
+    setRotation(next.rotation)
+    setPrintDirection(next.printDirection)
+    setAnchorX(next.anchorX)
+    setAnchorY(next.anchorY)
+    setOffsetXmm(next.offsetXmm)
+    setOffsetYmm(next.offsetYmm)
+    setActiveProfileId(next.activeProfileId ?? defaultProfile.id)
+    setXDimMm(next.xDimMm)
+    setQuietZoneMm(next.quietZoneMm)
+    setMagnificationPercent(next.magnificationPercent)
+    setBarWidthReductionMm(next.barWidthReductionMm)
+    setBarHeightPx(next.barHeightPx)
+    setShowHrText(next.showHrText)
+    setHrFontSizePt(next.hrFontSizePt)
+    setBarColor(next.barColor)
+    setBgColor(next.bgColor)
+    setTextColor(next.textColor)
+    setQrLogoDataUrl(next.qrLogoDataUrl)
+    setQrLogoScale(next.qrLogoScale)
+    setHrCustomText(next.hrCustomText)
+    setDieLineFile(next.dieLineFile ?? null)
+    setVdpImageFiles(next.vdpImageFiles ?? [])
+    setShowDimensionGuides(next.showDimensionGuides)
+    setCanvasGridSizeMm(next.canvasGridSizeMm)
+    setLayers(next.layers)
+    setExportDpi(next.exportDpi)
+    setStepRepeatConfig(next.stepRepeat)
+    setExportSettings(next.exportSettings)
+    setDistortionSettings(next.distortion)
+    setSelectedMachinePreset(next.machinePreset)
+  }
+
+  /**
+   * Načíta job do editora. `baseline` je stav, voči ktorému sa ukazujú
+   * neuložené zmeny (pri obnove konceptu posledná uložená verzia).
+   */
+  const applyJob = async (job: CodeJob, baseline: CodeJob = job) => {
+    const next = normalizeJob(job)
+    let importState = EMPTY_VDP_IMPORT_STATE
+    let note: string | null = null
+    if (next.vdpDataFile) {
+      const stored = await vdpImportFromFile(next.vdpDataFile).catch(() => null)
+      if (stored) importState = stored
+      else note = `VDP súbor „${next.vdpDataFile.name}“ treba importovať znova`
+    }
+
+    applyEditorState(next, importState)
+    setJobMeta(jobMetaOf(next))
+    setBaselineJob(normalizeJob(baseline))
+    // Otvorený job začína s prázdnou históriou úprav
+    resetEditorHistory({ job: next, vdpImportState: importState })
+    setJobMessage(note ? { text: note, error: true } : null)
+  }
+
+  const confirmDiscardChanges = () =>
+    !isJobDirty || window.confirm('Job má neuložené zmeny, ktoré sa stratia. Pokračovať?')
+
+  // Job ticket, výsek a zdroje VDP patria k otvorenému jobu, nie sú v ňom uložené
+  const resetJobExtras = () => {
+    setJobTicketDetails(DEFAULT_JOB_TICKET_DETAILS)
+    setDieLine(null)
+    setVdpSourceFiles([])
+  }
+
+  const handleOpenJob = (job: CodeJob) => {
+    if (!confirmDiscardChanges()) return
+    setShowJobBrowser(false)
+    if (job.id !== jobMeta.id) resetJobExtras()
+    void applyJob(job).then(() => clearJobDraft().catch(() => undefined))
+  }
+
+  const handleNewJob = () => {
+    if (!confirmDiscardChanges()) return
+    setShowJobBrowser(false)
+    resetJobExtras()
+    void applyJob(createEmptyJob()).then(() => clearJobDraft().catch(() => undefined))
+  }
+
+  const getJobPackageSections = (): Omit<JobPackage, 'job'> => ({
+    labelConfig,
+    stepRepeat: stepRepeatConfig,
+    exportSettings,
+    jobTicket: createJobTicket({
+      jobId: jobMeta.id,
+      jobName: jobMeta.name,
+      createdBy: jobAuthor,
+      details: jobTicketDetails,
+      labelConfig,
+      presetUsed: labelPreset,
+      codeType,
+      codeValue: symbolValue,
+      magnificationPercent,
+      xDimMm,
+      barWidthReductionMm,
+      machinePreset: selectedMachinePreset ?? undefined,
+      printingProfile: activeProfile?.name ?? '',
+      layers,
+      stepRepeat: stepRepeatConfig,
+      vdpEnabled,
+    }),
+    dieLine: dieLine ?? undefined,
+    vdpSourceFiles,
+  })
+
+  // Importovaný job sa otvorí ako každý iný, nastavenia mimo jobu prídu z balíka
+  const handleImportPackage = (job: CodeJob, content: JobPackage) => {
+    if (!confirmDiscardChanges()) return
+    setShowJobBrowser(false)
+    void applyJob(job).then(() => {
+      setJobTicketDetails(content.jobTicket ? jobTicketDetailsOf(content.jobTicket) : DEFAULT_JOB_TICKET_DETAILS)
+      setDieLine(content.dieLine ?? null)
+      setVdpSourceFiles(content.vdpSourceFiles ?? [])
+      return clearJobDraft().catch(() => undefined)
+    })
+  }
+
+  // Posledný importovaný zdrojový súbor VDP – ide do balíka jobu
+  const handleVdpSourceFile = (file: File) => {
+    createJobFileFromBlob(file.name, file.type || 'application/octet-stream', file)
+      .then(source => setVdpSourceFiles([source]))
+      .catch(error => console.warn('VDP source file could not be read:', error))
+  }
+
+  const handleUpdatePrintRun = ({ csvData, ...updates }: Partial<VdpPrintRun>) => {
+    if (csvData) setVdpImportState(csvData)
+    setVdpPrintRun(prev => ({ ...prev, ...updates }))
+  }
+
+  const handleImportPrintRunCsv = async (file: File): Promise<VdpImportState> => {
+    const table = parseVdpCsv(await file.text())
+    if (table.rows.length === 0) throw new Error('CSV must contain a header and at least one data row')
+    handleVdpSourceFile(file)
+    return buildVdpImportState(file.name, table, vdpImportPatternTemplate)
+  }
+
+  // Kontrola behu – šablóna kódu a väzby variabilných objektov každého záznamu
+  const validatePrintRun = (): VdpValidationResult[] =>
+    Array.from({ length: getPrintRunRecordCount(printRun) }, (_, index) => {
+      const record = renderPrintRunRecord(printRun, index)
+      const objects = vdpRecordObjects(layers, { fields: printRunRecordFields(printRun, index), index }, vdpImageUrls)
+      const errors = [
+        ...(record.value ? record.issues.map(formatVdpTemplateIssue) : ['Record value is empty']),
+        ...objects.issues,
+      ]
+      return { index, value: record.value, isValid: errors.length === 0, warnings: [], errors }
+    })
+
+  // Panel behu exportuje všetko okrem symbológií bez PDF renderera (MSI); chyba
+  // zastaví export skôr, než sa beh zapíše do ledgera
+  const handleExportPrintRun = () => {
+    throw new Error(`VDP PDF export is not available for ${codeType}`)
+  }
+
+  // Náhľad záznamu behu na plátne etikety
+  const previewPrintRunRecord = (index: number) => {
+    if (printRun.source === 'CSV') goToVdpRow(index)
+    else setSerialCurrent(printRun.serialStart + index)
+    setCanvasView('COMPOSITION')
+    setShowVdpPrintRun(false)
+  }
+
+  // Zmazaný otvorený job sa pri ďalšom uložení vytvorí znova od revízie 1
+  const handleJobDeleted = (id: CodeJobId) => {
+    if (id === jobMeta.id) setJobMeta(meta => ({ ...meta, revision: undefined }))
+  }
+
+  const handleSaveJob = async () => {
+    setJobSaving(true)
+    try {
+      const saved = await saveJob(editorJob, { author: jobAuthor, comment: jobComment })
+      localStorage.setItem(JOB_AUTHOR_STORAGE_KEY, jobAuthor.trim())
+      setJobMeta(jobMetaOf(saved))
+      setBaselineJob(saved)
+      setShowSaveJob(false)
+      setJobComment('')
+      setJobMessage({ text: `Uložené – revízia ${saved.revision}`, error: false })
+      await clearJobDraft()
+    } catch (error) {
+      setJobMessage({ text: error instanceof Error ? error.message : String(error), error: true })
+    } finally {
+      setJobSaving(false)
+    }
+  }
+
+  const handleRecoverDraft = async () => {
+    if (!recoveryDraft) return
+    const { job } = recoveryDraft
+    const saved = job.revision !== undefined ? await getJob(job.id).catch(() => undefined) : undefined
+    setRecoveryDraft(null)
+    await applyJob(job, saved ?? { ...createEmptyJob(), ...jobMetaOf(job) })
+  }
+
+  const handleDiscardDraft = () => {
+    setRecoveryDraft(null)
+    clearJobDraft().catch(() => undefined)
+  }
+
+  // Koncept po páde / zatvorení bez uloženia – ponúkne sa na obnovu
+  useEffect(() => {
+    let cancelled = false
+    getJobDraft()
+      .then(async draft => {
+        if (!draft) return
+        const saved = await getJob(draft.job.id)
+        // Koncept bez rozdielu oproti uloženému jobu nie je čo obnoviť
+        if (saved && diffCodeJobs(saved, draft.job).length === 0) {
+          await clearJobDraft()
+          return
+        }
+        if (!cancelled) setRecoveryDraft(draft)
+      })
+      .catch(error => console.warn('Job draft could not be read:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Autosave – pokým čaká ponuka obnovy, starý koncept sa neprepíše
+  useEffect(() => {
+    if (!isJobDirty || recoveryDraft) return
+    const timer = window.setTimeout(() => {
+      saveJobDraft(editorJob).catch(error =>
+        setJobMessage({ text: `Autosave: ${error instanceof Error ? error.message : String(error)}`, error: true }),
+      )
+    }, AUTOSAVE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [editorJob, isJobDirty, recoveryDraft])
+
+  useEffect(() => {
+    if (!isJobDirty) return
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault()
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [isJobDirty])
+
+  // Ctrl+S / Cmd+S – uloženie jobu
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+        event.preventDefault()
+        setShowSaveJob(true)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  /* =====================
+   * HISTÓRIA ÚPRAV (UNDO / REDO)
+   * ===================== */
+  const [editorHistory, setEditorHistory] = useState<EditorHistory>(EMPTY_EDITOR_HISTORY)
+  const [showHistory, setShowHistory] = useState(false)
+  // Posledný zaznamenaný stav – voči nemu sa určuje ďalší krok
+  const recordedStateRef = useRef<EditorSnapshot>({ job: initialJob, vdpImportState: EMPTY_VDP_IMPORT_STATE })
+
+  const resetEditorHistory = (snapshot: EditorSnapshot) => {
+    recordedStateRef.current = snapshot
+    setEditorHistory(EMPTY_EDITOR_HISTORY)
+  }
+
+  // Každá zmena stavu editora (z ľubovoľného panelu) je krok histórie
+  useEffect(() => {
+    const before = recordedStateRef.current
+    const after = { job: editorJob, vdpImportState }
+    recordedStateRef.current = after
+    setEditorHistory(history => recordEditorChange(history, before, after, Date.now()))
+  }, [editorJob, vdpImportState])
+
+  const applyHistoryTarget = (target: ReturnType<typeof goToEditorHistory>) => {
+    if (!target) return
+    // Návrat do zaznamenaného stavu sa nezapíše ako nový krok
+    recordedStateRef.current = target.snapshot
+    setEditorHistory(target.history)
+    applyEditorState(target.snapshot.job, target.snapshot.vdpImportState)
+  }
+
+  const goToHistory = (position: number) => applyHistoryTarget(goToEditorHistory(editorHistory, position))
+  const handleUndo = () => applyHistoryTarget(undoEditorHistory(editorHistory))
+  const handleRedo = () => applyHistoryTarget(redoEditorHistory(editorHistory))
+
+  // Ctrl+Z späť, Ctrl+Shift+Z / Ctrl+Y znova
+  const onHistoryKeyDown = useEffectEvent((event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey)) return
+    const key = event.key.toLowerCase()
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault()
+      handleUndo()
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+      event.preventDefault()
+      handleRedo()
+    }
+  })
+
+  useEffect(() => {
+    window.addEventListener('keydown', onHistoryKeyDown)
+    return () => window.removeEventListener('keydown', onHistoryKeyDown)
+  }, [])
+
   /* =====================
    * REFS
    * ===================== */
   const svgRef = useRef<SVGSVGElement | null>(null)
   const previewWrapperRef = useRef<HTMLDivElement | null>(null)
+  // Skryté SVG kompozície – export etikety s objektmi v oboch pohľadoch
+  const labelSvgRef = useRef<SVGSVGElement | null>(null)
+  const hasComposition = layers.some(layer => layer.objects.length > 0)
 
   /* =====================
    * EXPORT FUNCTIONS - Profesionálny prístup
    * ===================== */
   
-  // Pomocná funkcia pre získanie SVG s správnymi rozmermi
+  // Pomocná funkcia pre získanie SVG s správnymi rozmermi – etiketa s objektmi
+  // sa exportuje z kompozície, inak náhľad kódu
   const getSvgForExport = useCallback(() => {
-    if (!svgRef.current) return null
+    const source = hasComposition ? labelSvgRef.current : svgRef.current
+    if (!source) return null
     
-    const svgElement = svgRef.current.cloneNode(true) as SVGSVGElement
+    const svgElement = source.cloneNode(true) as SVGSVGElement
     
     // Nastavíme explicitné rozmery v mm
     const widthPx = labelWidthMm * (exportDpi / 25.4)
@@ -507,7 +1205,7 @@ const App: React.FC = () => {
     svgElement.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink')
     
     return { element: svgElement, widthPx, heightPx }
-  }, [labelWidthMm, labelHeightMm, exportDpi])
+  }, [labelWidthMm, labelHeightMm, exportDpi, hasComposition])
 
   const handleExportSVG = useCallback(() => {
     const svgData = getSvgForExport()
@@ -838,8 +1536,19 @@ showpage
           <LeftPanel
             codeType={codeType}
             setCodeType={setCodeType}
+            dataBarVariant={dataBarVariant}
+            setDataBarVariant={setDataBarVariant}
+            dataBarSegments={dataBarSegments}
+            setDataBarSegments={setDataBarSegments}
+            compositeEnabled={compositeEnabled}
+            setCompositeEnabled={setCompositeEnabled}
+            compositeComponent={composite ?? compositeComponent}
+            setCompositeComponent={setCompositeComponent}
             codeValue={codeValue}
             setCodeValue={setCodeValue}
+            addOn={addOn}
+            setAddOn={setAddOn}
+            convertUpcType={convertUpcType}
             maxLength={maxLength}
             error={error}
             setTouched={setTouched}
@@ -865,9 +1574,25 @@ showpage
             setLabelQuantity={setLabelQuantity}
             labelCount={labelCount}
             setLabelCount={setLabelCount}
+            labelNetWeightKg={labelNetWeightKg}
+            setLabelNetWeightKg={setLabelNetWeightKg}
+            labelPrice={labelPrice}
+            setLabelPrice={setLabelPrice}
+            gs1FormError={gs1FormError}
             buildGs1LabelString={buildGs1LabelString}
+            gs1FormOutput={gs1FormOutput}
+            setGs1FormOutput={setGs1FormOutput}
+            digitalLinkDomain={digitalLinkDomain}
+            setDigitalLinkDomain={setDigitalLinkDomain}
+            digitalLinkCompression={digitalLinkCompression}
+            setDigitalLinkCompression={setDigitalLinkCompression}
+            digitalLinkError={digitalLinkError}
+            applyDigitalLink={() => applyDigitalLink(codeValue)}
+            convertDigitalLinkToElementString={convertDigitalLinkToElementString}
             computeGs1CheckDigit={computeGs1CheckDigit}
             handleValidateGs1Linear={handleValidateGs1Linear}
+            gs1ServerCheck={gs1ServerCheck}
+            setGs1ServerCheck={setGs1ServerCheck}
             serverMessage={serverMessage}
             serverError={serverError}
             loading={loading}
@@ -897,6 +1622,7 @@ showpage
             setVdpImportState={setVdpImportState}
             vdpImportPatternTemplate={vdpImportPatternTemplate}
             setVdpImportPatternTemplate={setVdpImportPatternTemplate}
+            onVdpSourceFile={handleVdpSourceFile}
           />
         </div>
       </div>
@@ -923,6 +1649,11 @@ showpage
             <div className="p-6">
               <GraphicToolsPanel
                 codeType={codeType}
+                dataBarVariant={dataBarVariant}
+                dataBarSegments={dataBarSegments}
+                composite={composite}
+                codeValue={symbolValue}
+                activeProfile={activeProfile}
                 rotation={rotation}
                 setRotation={setRotation}
                 printDirection={printDirection}
@@ -954,6 +1685,8 @@ showpage
                 setVdpPrefix={setVdpPrefix}
                 vdpAlphaStartChar={vdpAlphaStartChar}
                 setVdpAlphaStartChar={setVdpAlphaStartChar}
+                vdpRandom={vdpRandom}
+                setVdpRandom={setVdpRandom}
                 barHeightPx={barHeightPx}
                 setBarHeightPx={setBarHeightPx}
                 showHrText={showHrText}
@@ -1234,10 +1967,12 @@ showpage
               machinePreset={selectedMachinePreset || undefined}
               exportSettings={exportSettings}
               codeType={codeType}
-              codeValue={codeValue}
+              codeValue={symbolValue}
               magnificationPercent={magnificationPercent}
               xDimMm={xDimMm}
               barWidthReductionMm={barWidthReductionMm}
+              details={jobTicketDetails}
+              onUpdateDetails={patch => setJobTicketDetails(prev => ({ ...prev, ...patch }))}
               onGenerateReport={() => {}}
               onPrint={() => {}}
             />
@@ -1245,10 +1980,262 @@ showpage
         </div>
       )}
 
+      {/* MODAL: VDP tlačový beh */}
+      {showVdpPrintRun && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div className="relative flex h-[90vh] w-[900px] flex-col overflow-hidden rounded-2xl border border-slate-600 bg-slate-900 shadow-2xl">
+            <div className="flex items-center justify-between border-b border-slate-600 bg-slate-800 px-6 py-4">
+              <h2 className="flex items-center gap-3 text-lg font-semibold text-white">
+                <span className="text-xl">🔢</span>
+                VDP tlačový beh
+              </h2>
+              <button
+                type="button"
+                onClick={() => setShowVdpPrintRun(false)}
+                className="rounded-lg border-2 border-slate-500 bg-slate-700 px-4 py-2 text-sm font-medium text-white transition-all hover:border-red-500 hover:bg-red-500/20"
+              >
+                Zavrieť ✕
+              </button>
+            </div>
+            <div className="min-h-0 flex-1 overflow-y-auto p-4">
+              <VdpPrintRunPanel
+                printRun={printRun}
+                onUpdatePrintRun={handleUpdatePrintRun}
+                codeType={codeType}
+                dataBarVariant={dataBarVariant}
+                dataBarSegments={dataBarSegments}
+                composite={composite}
+                onImportCsv={handleImportPrintRunCsv}
+                onValidateAll={validatePrintRun}
+                onExportVdp={handleExportPrintRun}
+                onPreviewItem={previewPrintRunRecord}
+                activeProfile={activeProfile}
+                pdfLabel={{
+                  widthMm: labelWidthMm,
+                  heightMm: labelHeightMm,
+                  xDimMm: (xDimMm * magnificationPercent) / 100,
+                  barColor,
+                  backgroundColor: bgColor,
+                  cornerRadiusMm: labelBorderRadiusMm,
+                  hrText: showHrText,
+                  hrFontSizePt,
+                }}
+                jobId={jobMeta.id}
+                jobName={jobMeta.name}
+                stepRepeatConfig={stepRepeatConfig}
+                labelLayers={layers}
+                vdpImages={vdpImageUrls}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* MODAL: Joby */}
+      {showJobBrowser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div className="relative max-h-[90vh] w-[900px] overflow-y-auto rounded-2xl border border-slate-600 bg-slate-900 shadow-2xl">
+            <div className="sticky top-0 z-10 flex items-center justify-between border-b border-slate-600 bg-slate-800 px-6 py-4">
+              <h2 className="flex items-center gap-3 text-lg font-semibold text-white">
+                <span className="text-xl">📁</span>
+                Uložené joby
+              </h2>
+              <button
+                type="button"
+                onClick={() => setShowJobBrowser(false)}
+                className="rounded-lg border-2 border-slate-500 bg-slate-700 px-4 py-2 text-sm font-medium text-white transition-all hover:border-red-500 hover:bg-red-500/20"
+              >
+                Zavrieť ✕
+              </button>
+            </div>
+            <JobBrowser
+              currentJobId={jobMeta.id}
+              author={jobAuthor}
+              onOpen={handleOpenJob}
+              onNew={handleNewJob}
+              onDeleted={handleJobDeleted}
+              getPackageSections={getJobPackageSections}
+              onImportPackage={handleImportPackage}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* MODAL: História úprav */}
+      {showHistory && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div className="relative max-h-[90vh] w-[560px] overflow-y-auto rounded-2xl border border-slate-600 bg-slate-900 shadow-2xl">
+            <div className="sticky top-0 z-10 flex items-center justify-between border-b border-slate-600 bg-slate-800 px-6 py-4">
+              <h2 className="flex items-center gap-3 text-lg font-semibold text-white">
+                <span className="text-xl">🕘</span>
+                História úprav
+              </h2>
+              <button
+                type="button"
+                onClick={() => setShowHistory(false)}
+                className="rounded-lg border-2 border-slate-500 bg-slate-700 px-4 py-2 text-sm font-medium text-white transition-all hover:border-red-500 hover:bg-red-500/20"
+              >
+                Zavrieť ✕
+              </button>
+            </div>
+            <div className="p-6">
+              <HistoryPanel history={editorHistory} onGoTo={goToHistory} onUndo={handleUndo} onRedo={handleRedo} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* MODAL: Uloženie jobu */}
+      {showSaveJob && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div className="relative max-h-[90vh] w-[560px] overflow-y-auto rounded-2xl border border-slate-600 bg-slate-900 shadow-2xl">
+            <div className="sticky top-0 z-10 flex items-center justify-between border-b border-slate-600 bg-slate-800 px-6 py-4">
+              <h2 className="flex items-center gap-3 text-lg font-semibold text-white">
+                <span className="text-xl">💾</span>
+                Uložiť job
+              </h2>
+              <button
+                type="button"
+                onClick={() => setShowSaveJob(false)}
+                className="rounded-lg border-2 border-slate-500 bg-slate-700 px-4 py-2 text-sm font-medium text-white transition-all hover:border-red-500 hover:bg-red-500/20"
+              >
+                Zavrieť ✕
+              </button>
+            </div>
+            <div className="space-y-4 p-6 text-sm">
+              <label className="block">
+                <span className="mb-1 block text-xs text-slate-400">Názov jobu</span>
+                <input
+                  type="text"
+                  value={jobMeta.name}
+                  onChange={e => setJobMeta(meta => ({ ...meta, name: e.target.value }))}
+                  className="w-full rounded-lg border border-slate-600 bg-slate-800 px-3 py-2 text-slate-100 focus:border-sky-500 focus:outline-none"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-xs text-slate-400">Autor</span>
+                <input
+                  type="text"
+                  value={jobAuthor}
+                  onChange={e => setJobAuthor(e.target.value)}
+                  className="w-full rounded-lg border border-slate-600 bg-slate-800 px-3 py-2 text-slate-100 focus:border-sky-500 focus:outline-none"
+                />
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-xs text-slate-400">Komentár k revízii</span>
+                <input
+                  type="text"
+                  value={jobComment}
+                  onChange={e => setJobComment(e.target.value)}
+                  placeholder="napr. zmena šarže pre dotlač"
+                  className="w-full rounded-lg border border-slate-600 bg-slate-800 px-3 py-2 text-slate-100 focus:border-sky-500 focus:outline-none"
+                />
+              </label>
+              <div>
+                <div className="mb-1 text-xs text-slate-400">
+                  {jobMeta.revision === undefined
+                    ? 'Nový job – uloží sa ako revízia 1'
+                    : `Zmeny oproti revízii ${jobMeta.revision}`}
+                </div>
+                {jobMeta.revision !== undefined && (
+                  <ul className="max-h-48 space-y-1 overflow-y-auto rounded-lg border border-slate-700 bg-slate-800/50 p-3 text-xs text-slate-300">
+                    {jobChanges.length === 0 && <li className="text-slate-500">Bez zmien</li>}
+                    {jobChanges.map(change => (
+                      <li key={change.path}>{formatCodeJobChange(change)}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowSaveJob(false)}
+                  className="rounded-lg border border-slate-600 bg-slate-800 px-4 py-2 text-slate-200 hover:bg-slate-700"
+                >
+                  Zrušiť
+                </button>
+                <button
+                  type="button"
+                  disabled={jobSaving || !jobMeta.name.trim()}
+                  onClick={() => void handleSaveJob()}
+                  className="rounded-lg border border-sky-500 bg-sky-500/20 px-4 py-2 font-semibold text-sky-200 hover:bg-sky-500/30 disabled:opacity-50"
+                >
+                  {jobSaving ? 'Ukladám…' : 'Uložiť revíziu'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Hlavný obsah */}
       <div className="flex flex-1 flex-col overflow-hidden">
         {/* Toolbar s dropdown hover efektmi */}
         <div className="flex items-center gap-2 border-b border-slate-700 bg-slate-900/95 px-4 py-2">
+          {/* Job – otvorenie, názov, uloženie */}
+          <button
+            type="button"
+            onClick={() => setShowJobBrowser(true)}
+            className="rounded-lg border border-slate-600 bg-slate-800 px-4 py-2 text-sm text-slate-200 transition-all hover:border-sky-500 hover:bg-sky-500/20"
+          >
+            📁 Joby
+          </button>
+          <input
+            type="text"
+            value={jobMeta.name}
+            onChange={e => setJobMeta(meta => ({ ...meta, name: e.target.value }))}
+            aria-label="Názov jobu"
+            className="w-44 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1.5 text-sm text-slate-100 focus:border-sky-500 focus:outline-none"
+          />
+          <span
+            title={isJobDirty ? `Neuložené zmeny: ${summarizeCodeJobChanges(jobChanges)}` : 'Všetko uložené'}
+            className={`h-2.5 w-2.5 rounded-full ${isJobDirty ? 'bg-amber-400' : 'bg-emerald-500'}`}
+          />
+          <button
+            type="button"
+            onClick={() => setShowSaveJob(true)}
+            title="Uložiť (Ctrl+S)"
+            className="rounded-lg border border-sky-600 bg-sky-600/20 px-3 py-1.5 text-xs font-bold text-sky-300 transition-all hover:bg-sky-600/30"
+          >
+            Uložiť
+          </button>
+          {jobMessage && (
+            <span className={`max-w-xs truncate text-xs ${jobMessage.error ? 'text-red-400' : 'text-emerald-400'}`}>
+              {jobMessage.text}
+            </span>
+          )}
+
+          <div className="mx-2 h-6 w-px bg-slate-700" />
+
+          {/* Späť / znova */}
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={!editorHistory.past.length}
+            title={editorHistory.past.length ? `Späť: ${editorHistory.past[editorHistory.past.length - 1].description} (Ctrl+Z)` : 'Späť (Ctrl+Z)'}
+            className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-300 transition-all hover:bg-slate-700 disabled:opacity-40"
+          >
+            ↶
+          </button>
+          <button
+            type="button"
+            onClick={handleRedo}
+            disabled={!editorHistory.future.length}
+            title={editorHistory.future.length ? `Znova: ${editorHistory.future[0].description} (Ctrl+Shift+Z)` : 'Znova (Ctrl+Shift+Z)'}
+            className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-300 transition-all hover:bg-slate-700 disabled:opacity-40"
+          >
+            ↷
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowHistory(true)}
+            className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-300 transition-all hover:bg-slate-700"
+          >
+            🕘 História
+          </button>
+
+          <div className="mx-2 h-6 w-px bg-slate-700" />
+
           {/* VDP */}
           <div className="group relative">
             <button
@@ -1319,6 +2306,20 @@ showpage
             </div>
           </div>
 
+          {/* VDP tlačový beh */}
+          <div className="group relative">
+            <button
+              type="button"
+              onClick={() => setShowVdpPrintRun(true)}
+              className="rounded-lg border border-slate-600 bg-slate-800 px-4 py-2 text-sm text-slate-200 transition-all duration-200 hover:-translate-y-1 hover:scale-110 hover:border-sky-500 hover:bg-sky-500/20 hover:shadow-lg"
+            >
+              🔢 VDP
+            </button>
+            <div className="pointer-events-none absolute left-0 top-full z-50 mt-2 w-48 origin-top scale-y-0 rounded-lg border border-sky-500/50 bg-slate-800 p-3 opacity-0 shadow-xl transition-all duration-200 group-hover:pointer-events-auto group-hover:scale-y-100 group-hover:opacity-100">
+              <p className="text-xs text-slate-300">VDP tlačový beh a export</p>
+            </div>
+          </div>
+
           <div className="mx-2 h-6 w-px bg-slate-700" />
 
           {/* Rýchly export */}
@@ -1328,49 +2329,189 @@ showpage
 
           <div className="mx-2 h-6 w-px bg-slate-700" />
 
+          {/* Náhľad kódu / kompozícia etikety */}
+          <div className="flex overflow-hidden rounded-lg border border-slate-600">
+            <button
+              type="button"
+              onClick={() => setCanvasView('PREVIEW')}
+              className={`px-3 py-1.5 text-xs ${canvasView === 'PREVIEW' ? 'bg-sky-600/30 text-sky-200' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+            >
+              Kód
+            </button>
+            <button
+              type="button"
+              onClick={() => setCanvasView('COMPOSITION')}
+              className={`px-3 py-1.5 text-xs ${canvasView === 'COMPOSITION' ? 'bg-sky-600/30 text-sky-200' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+            >
+              Etiketa
+            </button>
+          </div>
+
           {/* Zoom */}
           <button onClick={() => setCanvasZoom(z => Math.max(0.25, z - 0.25))} className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-300 transition-all hover:bg-slate-700">−</button>
           <span className="w-12 text-center text-sm text-slate-200">{Math.round(canvasZoom * 100)}%</span>
           <button onClick={() => setCanvasZoom(z => Math.min(3, z + 0.25))} className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-300 transition-all hover:bg-slate-700">+</button>
         </div>
 
+        {/* Obnova konceptu po páde alebo zatvorení bez uloženia */}
+        {recoveryDraft && (
+          <div className="flex items-center gap-3 border-b border-amber-500/40 bg-amber-500/10 px-4 py-2 text-sm text-amber-200">
+            <span>
+              Našiel sa neuložený koncept „{recoveryDraft.job.name}“ z{' '}
+              {new Date(recoveryDraft.savedAt).toLocaleString('sk-SK')}.
+            </span>
+            <button
+              type="button"
+              onClick={() => void handleRecoverDraft()}
+              className="rounded-lg border border-amber-500 bg-amber-500/20 px-3 py-1 text-xs font-bold hover:bg-amber-500/30"
+            >
+              Obnoviť
+            </button>
+            <button
+              type="button"
+              onClick={handleDiscardDraft}
+              className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1 text-xs text-slate-300 hover:bg-slate-700"
+            >
+              Zahodiť
+            </button>
+          </div>
+        )}
+
+        {hasComposition && (
+          <div className="hidden">
+            <LabelExportSvg labelConfig={labelConfig} layers={previewLayers} backgroundColor={bgColor} svgRef={labelSvgRef} />
+          </div>
+        )}
+
         {/* Náhľad - zväčšený */}
-        <div className="flex flex-1 w-full overflow-auto p-4">
-          <PreviewPanel
-            codeType={codeType}
-            rawCodeValue={codeValue}
-            vdpEnabled={vdpEnabled}
-            serialCurrent={serialCurrent}
-            serialPadding={serialPadding}
-            vdpPattern={vdpPattern}
-            vdpMode={vdpMode}
-            vdpPrefix={vdpPrefix}
-            vdpAlphaStartChar={vdpAlphaStartChar}
-            rotation={rotation}
-            printDirection={printDirection}
-            exportDpi={exportDpi}
-            labelWidthMm={labelWidthMm}
-            labelHeightMm={labelHeightMm}
-            bleedMm={bleedMm}
-            xDimMm={xDimMm}
-            quietZoneMm={quietZoneMm}
-            magnificationPercent={magnificationPercent}
-            activeProfile={activeProfile}
-            svgRef={svgRef}
-            previewWrapperRef={previewWrapperRef}
-            barHeightPx={barHeightPx}
-            showHrText={showHrText}
-            hrFontSizePt={hrFontSizePt}
-            barColor={barColor}
-            bgColor={bgColor}
-            textColor={textColor}
-            qrLogoDataUrl={qrLogoDataUrl}
-            qrLogoScale={qrLogoScale}
-            hrCustomText={hrCustomText}
-            labelBorderRadiusMm={labelBorderRadiusMm}
-            showDimensionGuides={showDimensionGuides}
-          />
-        </div>
+        {canvasView === 'PREVIEW' ? (
+          <div className="flex flex-1 w-full overflow-auto p-4">
+            <PreviewPanel
+              codeType={codeType}
+              dataBarVariant={dataBarVariant}
+              dataBarSegments={dataBarSegments}
+              composite={composite}
+              rawCodeValue={symbolValue}
+              vdpEnabled={vdpEnabled}
+              serialStart={serialStart}
+              serialCurrent={serialCurrent}
+              serialPadding={serialPadding}
+              vdpPattern={vdpPattern}
+              vdpMode={vdpMode}
+              vdpPrefix={vdpPrefix}
+              vdpAlphaStartChar={vdpAlphaStartChar}
+              vdpRandom={vdpRandom}
+              rotation={rotation}
+              printDirection={printDirection}
+              exportDpi={exportDpi}
+              labelWidthMm={labelWidthMm}
+              labelHeightMm={labelHeightMm}
+              bleedMm={bleedMm}
+              xDimMm={xDimMm}
+              quietZoneMm={quietZoneMm}
+              magnificationPercent={magnificationPercent}
+              activeProfile={activeProfile}
+              svgRef={svgRef}
+              previewWrapperRef={previewWrapperRef}
+              barHeightPx={barHeightPx}
+              showHrText={showHrText}
+              hrFontSizePt={hrFontSizePt}
+              barColor={barColor}
+              bgColor={bgColor}
+              textColor={textColor}
+              qrLogoDataUrl={qrLogoDataUrl}
+              qrLogoScale={qrLogoScale}
+              hrCustomText={hrCustomText}
+              labelBorderRadiusMm={labelBorderRadiusMm}
+              showDimensionGuides={showDimensionGuides}
+            />
+          </div>
+        ) : (
+          /* Kompozícia etikety – vrstvy, plátno, vlastnosti objektu */
+          <div className="flex flex-1 gap-3 overflow-hidden p-4">
+            <div className="w-64 flex-shrink-0 overflow-y-auto">
+              <LayersPanel
+                layers={layers}
+                selectedLayerId={selectedLayerId}
+                selectedObjectId={selectedObjectId}
+                onSelectLayer={setSelectedLayerId}
+                onSelectObject={setSelectedObjectId}
+                onAddLayer={handleAddLayer}
+                onRemoveLayer={handleRemoveLayer}
+                onUpdateLayer={(id, updates) => setLayers(prev => updateLayer(prev, id, updates))}
+                onReorderLayers={(from, to) => setLayers(prev => reorderLayers(prev, from, to))}
+                onAddObject={handleAddObject}
+                onRemoveObject={handleRemoveObject}
+                onUpdateObject={handleUpdateObject}
+                onDuplicateObject={handleDuplicateObject}
+              />
+            </div>
+            <div className="flex min-w-0 flex-1 flex-col gap-2 overflow-auto">
+              <div className="flex items-center gap-4 text-xs text-slate-400">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={snapToObjects} onChange={e => setSnapToObjects(e.target.checked)} />
+                  Prichytávať k etikete a objektom
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={snapToGrid} onChange={e => setSnapToGrid(e.target.checked)} />
+                  Prichytávať k mriežke ({canvasGridSizeMm} mm)
+                </label>
+                {vdpImportState.totalRows > 0 && (
+                  <div className="flex items-center gap-1">
+                    <span className="text-slate-500">VDP záznam</span>
+                    <button
+                      type="button"
+                      onClick={() => goToVdpRow(vdpImportState.currentRowIndex - 1)}
+                      disabled={vdpImportState.currentRowIndex === 0}
+                      className="rounded border border-slate-600 px-1.5 hover:border-sky-500 disabled:opacity-40"
+                    >
+                      ‹
+                    </button>
+                    <span className="text-slate-200">
+                      {vdpImportState.currentRowIndex + 1} / {vdpImportState.totalRows}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => goToVdpRow(vdpImportState.currentRowIndex + 1)}
+                      disabled={vdpImportState.currentRowIndex >= vdpImportState.totalRows - 1}
+                      className="rounded border border-slate-600 px-1.5 hover:border-sky-500 disabled:opacity-40"
+                    >
+                      ›
+                    </button>
+                  </div>
+                )}
+                <span className="ml-auto text-slate-500">Alt = bez prichytenia · Shift = pomer strán / 15° · šípky = posun</span>
+              </div>
+              <LabelCanvas
+                labelConfig={labelConfig}
+                layers={previewLayers}
+                selectedObjectId={selectedObjectId}
+                onSelectObject={setSelectedObjectId}
+                onUpdateObject={handleUpdateObject}
+                onRemoveObject={handleRemoveObject}
+                distortionSettings={distortionSettings}
+                zoom={canvasZoom}
+                showRulers
+                snapToGrid={snapToGrid}
+                snapToObjects={snapToObjects}
+              />
+            </div>
+            <div className="w-64 flex-shrink-0 overflow-y-auto">
+              <ObjectPropertiesPanel
+                layers={layers}
+                selectedObjectId={selectedObjectId}
+                labelConfig={labelConfig}
+                vdpFields={vdpFieldNames}
+                vdpContext={vdpRowContext}
+                vdpImages={vdpImageUrls}
+                onAddVdpImages={handleAddVdpImages}
+                onUpdateObject={handleUpdateObject}
+                onReorderObject={(objectId, action) => setLayers(prev => reorderLabelObject(prev, objectId, action))}
+                onMoveObjectToLayer={(objectId, layerId) => setLayers(prev => moveLabelObjectToLayer(prev, objectId, layerId))}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* =====================
@@ -0,0 +1,333 @@
+/**
+ * GPCS CodeStudio - Batch Verifier
+ *
+ * Verifies every record (or a statistical sample) of a VDP print run
+ * and aggregates the grades into a per-record report
+ */
+
+import bwipjs from 'bwip-js'
+
+import type {
+  BarcodeType,
+  QualityGrade,
+  BatchRecordRenderer,
+  BatchRecordSource,
+  BatchRecordResult,
+  BatchVerificationOptions,
+  BatchVerificationReport,
+  BwipRenderOptions,
+} from './types'
+
+import type { PrintingProfile } from '../config/printingProfiles'
+import type { CodeType, CompositeComponent, DataBarVariant } from '../types/barcodeTypes'
+
+import { DATABAR_BARCODE_TYPES, QUIET_ZONE_REQUIREMENTS } from './types'
+import { gs1CheckDigit } from '../lib/gs1'
+import { splitGs1Composite } from '../lib/gs1Composite'
+import { BarcodeVerifier } from './BarcodeVerifier'
+import { gradeToNumeric, isPassingGrade } from './QualityGrading'
+
+// ============================================
+// RECORD SELECTION
+// ============================================
+
+/**
+ * Select record indices to verify. A sample is spread evenly over the
+ * run and always contains the first and the last record.
+ */
+export function selectBatchIndices(count: number, sampleSize: number): number[] {
+  if (count <= 0) return []
+  if (sampleSize <= 0 || sampleSize >= count) {
+    return Array.from({ length: count }, (_, i) => i)
+  }
+  if (sampleSize === 1) return [0]
+
+  const indices = new Set<number>()
+  for (let i = 0; i < sampleSize; i++) {
+    indices.add(Math.round((i * (count - 1)) / (sampleSize - 1)))
+  }
+  return [...indices].sort((a, b) => a - b)
+}
+
+/**
+ * Minimum grade required by a printing profile (GS1 compliance level)
+ */
+export function minimumGradeForProfile(profile: PrintingProfile | null | undefined): QualityGrade {
+  const level = profile?.gs1ComplianceLevel
+  return level && level !== 'CUSTOM' ? level : 'C'
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+const BWIP_SYMBOLOGIES: Record<BarcodeType, string> = {
+  'CODE128': 'code128',
+  'EAN13': 'ean13',
+  'EAN8': 'ean8',
+  'UPCA': 'upca',
+  'UPCE': 'upce',
+  'ITF14': 'itf14',
+  'CODE39': 'code39',
+  'CODE93': 'code93',
+  'CODABAR': 'rationalizedCodabar',
+  'GS1128': 'gs1-128',
+  'GS1DATABAR': 'databaromni',
+  'GS1DATABAR_STACKED': 'databarstackedomni',
+  'GS1DATABAR_LIMITED': 'databarlimited',
+  'GS1DATABAR_EXPANDED': 'databarexpanded',
+  'GS1DATABAR_EXPANDED_STACKED': 'databarexpandedstacked',
+  'DATAMATRIX': 'datamatrix',
+  'QR': 'qrcode',
+  'PDF417': 'pdf417',
+  'MICROPDF417': 'micropdf417',
+  'AZTEC': 'azteccode',
+  'MAXICODE': 'maxicode'
+}
+
+/** GS1 variants of the 2D symbologies */
+const BWIP_GS1_SYMBOLOGIES: Partial<Record<BarcodeType, string>> = {
+  'DATAMATRIX': 'gs1datamatrix',
+  'QR': 'gs1qrcode'
+}
+
+/** GS1 composite symbologies (linear component with a 2D component above) */
+const BWIP_COMPOSITE_SYMBOLOGIES: Partial<Record<BarcodeType, string>> = {
+  'EAN13': 'ean13composite',
+  'EAN8': 'ean8composite',
+  'UPCA': 'upcacomposite',
+  'GS1128': 'gs1-128composite',
+  'GS1DATABAR': 'databaromnicomposite',
+  'GS1DATABAR_STACKED': 'databarstackedomnicomposite',
+  'GS1DATABAR_LIMITED': 'databarlimitedcomposite',
+  'GS1DATABAR_EXPANDED': 'databarexpandedcomposite',
+  'GS1DATABAR_EXPANDED_STACKED': 'databarexpandedstackedcomposite'
+}
+
+/** Forced 2D component version (AUTO lets bwip-js pick the smallest that fits) */
+const BWIP_COMPOSITE_VERSIONS: Record<CompositeComponent, string | undefined> = {
+  'AUTO': undefined,
+  'CC_A': 'a',
+  'CC_B': 'b',
+  'CC_C': 'c'
+}
+
+/**
+ * Map an editor code type to the verified symbology (null if not verifiable)
+ */
+export function barcodeTypeForCodeType(
+  codeType: CodeType,
+  dataBarVariant: DataBarVariant = 'OMNIDIRECTIONAL'
+): BarcodeType | null {
+  if (codeType === 'GS1DM') return 'DATAMATRIX'
+  if (codeType === 'GS1DATABAR') return DATABAR_BARCODE_TYPES[dataBarVariant]
+  if (codeType === 'MSI') return null
+  return codeType
+}
+
+/**
+ * GS1 DataBar input for bwip-js: a bare GTIN becomes (01) with its check digit
+ */
+function dataBarText(value: string): string {
+  const digits = value.trim()
+  if (/^\d{13}$/.test(digits)) return `(01)${digits}${gs1CheckDigit(digits)}`
+  if (/^\d{14}$/.test(digits)) return `(01)${digits}`
+  return value
+}
+
+/**
+ * GS1 composite input for bwip-js: linear component | 2D component
+ */
+function compositeText(barcodeType: BarcodeType, value: string): string {
+  const codeType: CodeType = barcodeType.startsWith('GS1DATABAR') ? 'GS1DATABAR' : barcodeType as CodeType
+  const split = splitGs1Composite(codeType, value)
+  const error = split.report.issues.find(i => i.severity === 'error')
+  if (error) throw new Error(error.message)
+  return `${split.linearText}|${split.componentHri}`
+}
+
+/**
+ * Draw one symbol with bwip-js. The default scale gives 10 px per module,
+ * the pixel grid the linear quiet zone check assumes. Segments sets the
+ * segments per row of GS1 DataBar Expanded Stacked, composite draws a GS1
+ * composite symbol with the given 2D component.
+ */
+export function renderBwipImage(
+  barcodeType: BarcodeType,
+  value: string,
+  options: BwipRenderOptions = {}
+): ImageData {
+  const scale = options.scale ?? 10
+  const composite = options.composite ? BWIP_COMPOSITE_SYMBOLOGIES[barcodeType] : undefined
+  const bcid = composite || (options.gs1 && BWIP_GS1_SYMBOLOGIES[barcodeType]) || BWIP_SYMBOLOGIES[barcodeType]
+  const dataBar = bcid.startsWith('databar')
+  const segments = barcodeType === 'GS1DATABAR_EXPANDED_STACKED' && options.segments
+    ? { segments: options.segments }
+    : {}
+  const ccversion = composite && options.composite && BWIP_COMPOSITE_VERSIONS[options.composite]
+  const linearQuietZone = (QUIET_ZONE_REQUIREMENTS as Partial<Record<BarcodeType, { left: number; right: number }>>)[barcodeType]
+  const padding = options.padding ?? (linearQuietZone ? Math.max(linearQuietZone.left, linearQuietZone.right) + 1 : 4)
+
+  const canvas = document.createElement('canvas')
+  bwipjs.toCanvas(canvas, {
+    bcid,
+    text: composite ? compositeText(barcodeType, value) : dataBar ? dataBarText(value) : value,
+    scale,
+    ...segments,
+    ...(ccversion ? { ccversion } : {}),
+    includetext: false,
+    backgroundcolor: 'FFFFFF',
+    paddingwidth: padding,
+    paddingheight: linearQuietZone ? Math.min(2, padding) : padding
+  })
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Could not get canvas context')
+  }
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Create a renderer drawing records with bwip-js
+ */
+export function createBwipRenderer(
+  barcodeType: BarcodeType,
+  options: BwipRenderOptions = {}
+): BatchRecordRenderer {
+  return (value: string) => renderBwipImage(barcodeType, value, options)
+}
+
+// ============================================
+// BATCH VERIFICATION
+// ============================================
+
+/**
+ * Verify the records of a print run. Every record is rendered, verified
+ * against its own value and graded against the minimum grade.
+ */
+export async function verifyBatch(
+  source: BatchRecordSource,
+  render: BatchRecordRenderer,
+  options: BatchVerificationOptions
+): Promise<BatchVerificationReport> {
+  const startedAt = new Date()
+  const indices = selectBatchIndices(source.count, options.sampleSize)
+  const verifier = new BarcodeVerifier({ minimumGrade: options.minimumGrade, composite: options.composite })
+  const records: BatchRecordResult[] = []
+
+  for (const index of indices) {
+    if (options.signal?.aborted) break
+
+    const value = source.valueAt(index)
+    records.push(await verifyRecord(verifier, render, index, value, options))
+    options.onProgress?.(records.length, indices.length)
+
+    // Yield to the UI between records
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  const gradeDistribution: Record<QualityGrade, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 }
+  for (const record of records) {
+    gradeDistribution[record.overallGrade]++
+  }
+  const passedRecords = records.filter(r => r.passed).length
+
+  return {
+    barcodeType: options.barcodeType,
+    summary: {
+      totalRecords: source.count,
+      verifiedRecords: records.length,
+      passedRecords,
+      failedRecords: records.length - passedRecords,
+      gradeDistribution,
+      averageNumericGrade: records.length > 0
+        ? records.reduce((sum, r) => sum + r.numericGrade, 0) / records.length
+        : 0,
+      minimumGrade: options.minimumGrade,
+      startedAt,
+      completedAt: new Date(),
+      cancelled: records.length < indices.length
+    },
+    records
+  }
+}
+
+/**
+ * Render and verify one record
+ */
+async function verifyRecord(
+  verifier: BarcodeVerifier,
+  render: BatchRecordRenderer,
+  index: number,
+  value: string,
+  options: BatchVerificationOptions
+): Promise<BatchRecordResult> {
+  let imageData: ImageData
+  try {
+    imageData = await render(value, index)
+  } catch (error) {
+    return {
+      index,
+      value,
+      decodedData: null,
+      overallGrade: 'F',
+      numericGrade: 0,
+      passed: false,
+      failedParameters: ['Render'],
+      warnings: [`Record could not be rendered: ${error instanceof Error ? error.message : String(error)}`]
+    }
+  }
+
+  verifier.setOptions({ expectedData: value })
+  const result = await verifier.verifyFromImageData(imageData, options.barcodeType, options.xDimensionMm)
+
+  return {
+    index,
+    value,
+    decodedData: result.decodedData,
+    overallGrade: result.overallGrade,
+    numericGrade: result.numericGrade,
+    passed: isPassingGrade(result.overallGrade, options.minimumGrade) && result.passed,
+    failedParameters: result.parameters
+      .filter(p => gradeToNumeric(p.grade) < gradeToNumeric(options.minimumGrade))
+      .map(p => p.name),
+    warnings: result.warnings
+  }
+}
+
+// ============================================
+// REPORT EXPORT
+// ============================================
+
+/**
+ * Per-record CSV report (semicolon separated, one row per verified record)
+ */
+export function batchReportToCsv(report: BatchVerificationReport): string {
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const lines = [
+    ['Record', 'Value', 'Decoded', 'Grade', 'Numeric', 'Result', 'Failed parameters', 'Warnings'].join(';')
+  ]
+
+  for (const record of report.records) {
+    lines.push([
+      record.index + 1,
+      record.value,
+      record.decodedData ?? '',
+      record.overallGrade,
+      record.numericGrade.toFixed(1),
+      record.passed ? 'PASS' : 'FAIL',
+      record.failedParameters.join(', '),
+      record.warnings.join(' | ')
+    ].map(quote).join(';'))
+  }
+
+  return lines.join('\r\n')
+}
+
+/**
+ * JSON report (summary and per-record results)
+ */
+export function batchReportToJson(report: BatchVerificationReport): string {
+  return JSON.stringify(report, null, 2)
+}
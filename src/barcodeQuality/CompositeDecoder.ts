@@ -0,0 +1,723 @@
+/**
+ * GPCS CodeStudio - Composite Component Decoder
+ *
+ * Reference decode of the 2D component of GS1 composite symbols
+ * (ISO/IEC 24723). CC-A / CC-B (MicroPDF417) and CC-C (PDF417) rows are
+ * read scan line by scan line, error corrected in GF(929) and the
+ * compacted bit stream is decoded into a GS1 element string. The symbol
+ * is expected upright with the 2D component above the linear component.
+ */
+
+import type {
+  CompositeComponentDecodeResult,
+  CompositeComponentType,
+  ISO15415Parameters,
+} from './types'
+
+import type { MicroPdf417Size } from './Pdf417Tables'
+import type { ReflectanceImage } from './MatrixSampler'
+
+import {
+  CC_A_BIT_CAPACITIES,
+  CC_A_SIZES,
+  MICRO_PDF417_CENTRE_RAPS,
+  MICRO_PDF417_SIDE_RAPS,
+  MICRO_PDF417_SIZES,
+  PDF417_CLUSTERS,
+} from './Pdf417Tables'
+import { toReflectanceImage } from './MatrixSampler'
+import { decodeReedSolomon929 } from './ReedSolomon'
+import { BitReader, decodeGeneralPurposeField } from './DataBarDecoder'
+import {
+  calculateCodewordModulation,
+  calculateFixedPatternDamage,
+  calculateUnusedErrorCorrection,
+} from './QualityGrading'
+
+// ============================================
+// TYPES
+// ============================================
+
+type RowToken = 'side' | 'centre' | 'codeword'
+
+/**
+ * One pixel row read as a MicroPDF417 or PDF417 symbol row
+ */
+interface ScannedRow {
+  kind: 'micro' | 'pdf417'
+  cluster: number
+  codewords: number[]
+  /** Codeword modulation (0-1) */
+  modulation: number[]
+  /** MicroPDF417: left / centre / right RAP index (-1 = none), PDF417: left / right row indicator */
+  address: number[]
+  moduleSizePx: number
+}
+
+/**
+ * Pixel rows that read as the same symbol row
+ */
+interface SymbolRow {
+  key: string
+  scans: ScannedRow[]
+}
+
+interface AssembledSymbol {
+  componentType: CompositeComponentType | 'MICROPDF417'
+  rows: number
+  columns: number
+  ecCodewords: number
+  codewords: number[]
+  modulation: number[]
+  missingRows: number
+  /** CC-A data capacity in bits */
+  bitCapacity: number
+}
+
+// ============================================
+// PATTERN TABLES
+// ============================================
+
+const GS = '\x1D'
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+/**
+ * Run lengths of a module bitmap (most significant bit first, first run dark)
+ */
+function bitmapWidths(bitmap: number, modules: number): number[] {
+  const widths: number[] = []
+  let previous = -1
+  for (let i = modules - 1; i >= 0; i--) {
+    const bit = Math.floor(bitmap / 2 ** i) % 2
+    if (bit === previous) {
+      widths[widths.length - 1]++
+    } else {
+      widths.push(1)
+    }
+    previous = bit
+  }
+  return widths
+}
+
+/** Edge to similar edge distances of a 17-module codeword */
+const edgeKey = (modules: number[]) => modules.slice(0, 6).map((w, i) => w + modules[i + 1]).join(',')
+
+/** Codewords by edge to similar edge distances - unique over all three clusters */
+const CODEWORDS_BY_EDGES = new Map<string, { cluster: number; value: number }>()
+PDF417_CLUSTERS.forEach((patterns, index) => {
+  patterns.forEach((bitmap, value) => {
+    CODEWORDS_BY_EDGES.set(edgeKey(bitmapWidths(bitmap, 17)), { cluster: index * 3, value })
+  })
+})
+
+const SIDE_RAP_INDEX = new Map(MICRO_PDF417_SIDE_RAPS.map((bitmap, i) => [bitmap, i]))
+const CENTRE_RAP_INDEX = new Map(MICRO_PDF417_CENTRE_RAPS.map((bitmap, i) => [bitmap, i]))
+
+/** MicroPDF417 row layouts by element count (every row ends with a 1-module stop bar) */
+const MICRO_ROW_LAYOUTS: Record<number, RowToken[]> = {
+  21: ['side', 'codeword', 'side'],
+  29: ['side', 'codeword', 'codeword', 'side'],
+  37: ['codeword', 'centre', 'codeword', 'codeword', 'side'],
+  43: ['side', 'codeword', 'centre', 'codeword', 'codeword', 'side'],
+  51: ['side', 'codeword', 'codeword', 'centre', 'codeword', 'codeword', 'side']
+}
+
+// ============================================
+// ROW READING
+// ============================================
+
+/**
+ * Element edges of one pixel row at the image threshold (sub-pixel, first edge light→dark)
+ */
+function rowEdges(img: ReflectanceImage, y: number): number[] {
+  const edges: number[] = []
+  const offset = y * img.width
+  for (let x = 1; x < img.width; x++) {
+    const prev = img.values[offset + x - 1]
+    const cur = img.values[offset + x]
+    if ((prev < img.threshold) !== (cur < img.threshold)) {
+      edges.push(x - 1 + (img.threshold - prev) / (cur - prev))
+    }
+  }
+  if (img.values[offset] < img.threshold) edges.shift()
+  return edges
+}
+
+/**
+ * Modulation of the elements between two edges: darkest bar against the
+ * lightest space, relative to the symbol contrast
+ */
+function elementModulation(img: ReflectanceImage, y: number, edges: number[], from: number, count: number): number {
+  const contrast = img.rMax - img.rMin
+  if (contrast <= 0) return 0
+  let highestBar = 0
+  let lowestSpace = 100
+  for (let e = from; e < from + count; e++) {
+    const x0 = Math.ceil(edges[e])
+    const x1 = Math.floor(edges[e + 1])
+    if (x1 < x0) continue
+    // Reflectance at the element centre line
+    let extreme = e % 2 === 0 ? 100 : 0
+    for (let x = x0; x <= x1; x++) {
+      const value = img.values[y * img.width + x]
+      extreme = e % 2 === 0 ? Math.min(extreme, value) : Math.max(extreme, value)
+    }
+    if (e % 2 === 0) highestBar = Math.max(highestBar, extreme)
+    else lowestSpace = Math.min(lowestSpace, extreme)
+  }
+  return Math.max(0, Math.min(1, (lowestSpace - highestBar) / contrast))
+}
+
+/**
+ * Decode a codeword from its 8 element widths (edge to similar edge measurement)
+ */
+function decodeCodeword(widths: number[]): { cluster: number; value: number } | null {
+  const total = sum(widths)
+  const key = widths.slice(0, 6).map((w, i) => Math.round(((w + widths[i + 1]) * 17) / total)).join(',')
+  return CODEWORDS_BY_EDGES.get(key) ?? null
+}
+
+/**
+ * Decode a row address pattern from its 6 element widths (10 modules)
+ */
+function decodeRap(widths: number[], index: Map<number, number>): number | null {
+  const unit = sum(widths) / 10
+  let bitmap = 0
+  let modules = 0
+  widths.forEach((w, i) => {
+    const n = Math.max(1, Math.round(w / unit))
+    for (let k = 0; k < n; k++) bitmap = bitmap * 2 + (i % 2 === 0 ? 1 : 0)
+    modules += n
+  })
+  return modules === 10 ? index.get(bitmap) ?? null : null
+}
+
+/**
+ * Read one pixel row as a MicroPDF417 or PDF417 row. Returns null for rows
+ * that are not component rows (quiet zone, separator, linear symbol).
+ */
+function readRow(img: ReflectanceImage, y: number): ScannedRow | null {
+  const edges = rowEdges(img, y)
+  const widths: number[] = []
+  for (let i = 1; i < edges.length; i++) widths.push(edges[i] - edges[i - 1])
+  const count = widths.length
+
+  const codewords: number[] = []
+  const modulation: number[] = []
+  let cluster = -1
+
+  const readCodeword = (start: number): boolean => {
+    const codeword = decodeCodeword(widths.slice(start, start + 8))
+    if (!codeword || (cluster >= 0 && codeword.cluster !== cluster)) return false
+    cluster = codeword.cluster
+    codewords.push(codeword.value)
+    modulation.push(elementModulation(img, y, edges, start, 8))
+    return true
+  }
+
+  const layout = MICRO_ROW_LAYOUTS[count]
+  if (layout) {
+    const address = [-1, -1, -1]
+    let position = 0
+    let sides = 0
+    for (const token of layout) {
+      if (token === 'codeword') {
+        if (!readCodeword(position)) return null
+        position += 8
+        continue
+      }
+      const rap = decodeRap(widths.slice(position, position + 6), token === 'side' ? SIDE_RAP_INDEX : CENTRE_RAP_INDEX)
+      if (rap === null) return null
+      // The only side pattern of a 3-column CC-A row is the right one
+      const slot = token === 'centre' ? 1 : sides === 0 && layout[0] === 'side' ? 0 : 2
+      address[slot] = rap
+      if (token === 'side') sides++
+      position += 6
+    }
+    const modules = sum(layout.map(token => (token === 'codeword' ? 17 : 10))) + 1
+    return { kind: 'micro', cluster, codewords, modulation, address, moduleSizePx: (edges[count] - edges[0]) / modules }
+  }
+
+  // PDF417: start pattern, left indicator, data, right indicator, stop pattern
+  if (count < 41 || (count - 33) % 8 !== 0) return null
+  const startWidth = sum(widths.slice(0, 8))
+  if (widths[0] < (startWidth / 17) * 6 || widths[count - 9] < (sum(widths.slice(count - 9)) / 18) * 5) return null
+
+  const columns = (count - 33) / 8
+  for (let i = 0; i < columns + 2; i++) {
+    if (!readCodeword(8 + i * 8)) return null
+  }
+  const [leftIndicator] = codewords.splice(0, 1)
+  const [rightIndicator] = codewords.splice(columns, 1)
+  modulation.splice(columns + 1, 1)
+  modulation.splice(0, 1)
+  return {
+    kind: 'pdf417',
+    cluster,
+    codewords,
+    modulation,
+    address: [leftIndicator, rightIndicator],
+    moduleSizePx: (edges[count] - edges[0]) / (17 * (columns + 3) + 1)
+  }
+}
+
+// ============================================
+// SYMBOL ASSEMBLY
+// ============================================
+
+/**
+ * Most frequent value of each codeword position over the scans of a row
+ */
+function voteRow(row: SymbolRow): { codewords: number[]; modulation: number[] } {
+  const columns = row.scans[0].codewords.length
+  const codewords: number[] = []
+  const modulation: number[] = []
+  for (let c = 0; c < columns; c++) {
+    const counts = new Map<number, number>()
+    for (const scan of row.scans) {
+      counts.set(scan.codewords[c], (counts.get(scan.codewords[c]) ?? 0) + 1)
+    }
+    const best = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0]
+    const agreeing = row.scans.filter(s => s.codewords[c] === best)
+    codewords.push(best)
+    modulation.push(sum(agreeing.map(s => s.modulation[c])) / agreeing.length)
+  }
+  return { codewords, modulation }
+}
+
+/**
+ * Order MicroPDF417 rows by their row address patterns and match a symbol size
+ */
+function assembleMicro(rows: SymbolRow[]): AssembledSymbol | null {
+  const first = rows[0].scans[0]
+  const columns = first.codewords.length
+  const firstRight = first.address[2]
+
+  // Consecutive rows use consecutive right RAPs
+  const byOffset = new Map<number, SymbolRow>()
+  for (const row of rows) {
+    if (row.scans[0].codewords.length !== columns) continue
+    const offset = (row.scans[0].address[2] - firstRight + 52) % 52
+    if (!byOffset.has(offset)) byOffset.set(offset, row)
+  }
+  const foundRows = Math.max(...byOffset.keys()) + 1
+
+  const matches = (s: MicroPdf417Size) =>
+    s.columns === columns &&
+    s.rows >= foundRows &&
+    s.rightRap - 1 === firstRight &&
+    (first.address[0] < 0 || s.leftRap - 1 === first.address[0])
+  const candidates: Array<[CompositeComponentType | 'MICROPDF417', MicroPdf417Size]> = [
+    ...CC_A_SIZES.filter(matches).map(s => ['CC-A', s] as [CompositeComponentType, MicroPdf417Size]),
+    ...MICRO_PDF417_SIZES.filter(matches).map(s => ['MICROPDF417', s] as ['MICROPDF417', MicroPdf417Size])
+  ]
+  if (candidates.length === 0) return null
+  const [componentType, size] = candidates.sort((a, b) => a[1].rows - b[1].rows)[0]
+
+  const codewords: number[] = []
+  const modulation: number[] = []
+  let missingRows = 0
+  for (let r = 0; r < size.rows; r++) {
+    const row = byOffset.get(r)
+    if (!row) {
+      missingRows++
+      codewords.push(...new Array(columns).fill(0))
+      modulation.push(...new Array(columns).fill(0))
+      continue
+    }
+    const voted = voteRow(row)
+    codewords.push(...voted.codewords)
+    modulation.push(...voted.modulation)
+  }
+
+  const capacities = componentType === 'CC-A' ? CC_A_BIT_CAPACITIES[columns - 2] ?? [] : []
+  const dataCodewords = size.rows * size.columns - size.ecCodewords
+  const bitCapacity = capacities.find(bits => base928Codewords(bits) === dataCodewords) ?? 0
+
+  return {
+    componentType,
+    rows: size.rows,
+    columns,
+    ecCodewords: size.ecCodewords,
+    codewords,
+    modulation,
+    missingRows,
+    bitCapacity
+  }
+}
+
+/**
+ * Order PDF417 rows by their row indicators (CC-C)
+ */
+function assemblePdf417(rows: SymbolRow[]): AssembledSymbol | null {
+  const columns = rows[0].scans[0].codewords.length
+  const indicatorVotes = { rows: new Map<number, number>(), level: new Map<number, number>() }
+  const vote = (map: Map<number, number>, value: number) => map.set(value, (map.get(value) ?? 0) + 1)
+  const byIndex = new Map<number, SymbolRow>()
+
+  for (const row of rows) {
+    const scan = row.scans[0]
+    if (scan.codewords.length !== columns) continue
+    const [left, right] = scan.address
+    const clusterIndex = scan.cluster / 3
+    const group = Math.floor(left / 30)
+    if (Math.floor(right / 30) !== group) continue
+
+    // Row indicators carry the row count, column count and EC level by cluster
+    if (clusterIndex === 0) {
+      vote(indicatorVotes.rows, (left % 30) * 3)
+      if (right % 30 !== columns - 1) continue
+    } else if (clusterIndex === 1) {
+      vote(indicatorVotes.level, Math.floor((left % 30) / 3))
+      vote(indicatorVotes.rows, (right % 30) * 3 + (left % 3))
+    } else {
+      if (left % 30 !== columns - 1) continue
+      vote(indicatorVotes.level, Math.floor((right % 30) / 3))
+    }
+    const index = group * 3 + clusterIndex
+    if (!byIndex.has(index)) byIndex.set(index, row)
+  }
+
+  const winner = (map: Map<number, number>) => [...map.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+  const level = winner(indicatorVotes.level)
+  // Row count information is (rows - 1) / 3 and (rows - 1) mod 3 in different clusters
+  const rowInfo = [...indicatorVotes.rows.keys()]
+  const symbolRows = Math.max(...byIndex.keys()) + 1
+  if (level === undefined || rowInfo.length === 0) return null
+  const totalRows = Math.max(symbolRows, winner(indicatorVotes.rows) + 1)
+
+  const codewords: number[] = []
+  const modulation: number[] = []
+  let missingRows = 0
+  for (let r = 0; r < totalRows; r++) {
+    const row = byIndex.get(r)
+    if (!row) {
+      missingRows++
+      codewords.push(...new Array(columns).fill(0))
+      modulation.push(...new Array(columns).fill(0))
+      continue
+    }
+    const voted = voteRow(row)
+    codewords.push(...voted.codewords)
+    modulation.push(...voted.modulation)
+  }
+
+  return {
+    componentType: 'CC-C',
+    rows: totalRows,
+    columns,
+    ecCodewords: 2 ** (level + 1),
+    codewords,
+    modulation,
+    missingRows,
+    bitCapacity: 0
+  }
+}
+
+// ============================================
+// CODEWORD DATA
+// ============================================
+
+/** Codewords of a CC-A base 928 bit group: 69 bits → 7 codewords */
+function base928Codewords(bits: number): number {
+  let codewords = 7 * Math.floor(bits / 69)
+  if (bits % 69 > 0) codewords += Math.floor((bits % 69) / 10) + 1
+  return codewords
+}
+
+/**
+ * CC-A base 928 compaction back to the bit stream
+ */
+function ccaBits(codewords: number[], bitCapacity: number): string | null {
+  let bits = ''
+  let position = 0
+  for (let remaining = bitCapacity; remaining > 0; remaining -= 69) {
+    const groupBits = Math.min(69, remaining)
+    const groupCodewords = Math.floor(groupBits / 10) + 1
+    let value = 0n
+    for (const codeword of codewords.slice(position, position + groupCodewords)) {
+      if (codeword > 927) return null
+      value = value * 928n + BigInt(codeword)
+    }
+    const binary = value.toString(2)
+    if (binary.length > groupBits) return null
+    bits += binary.padStart(groupBits, '0')
+    position += groupCodewords
+  }
+  return bits
+}
+
+/**
+ * CC-B / CC-C byte compaction (920 flag, 901 / 924 latch) back to the bit stream
+ */
+function byteCompactionBits(codewords: number[]): string | null {
+  if (codewords[0] !== 920 || (codewords[1] !== 901 && codewords[1] !== 924)) return null
+
+  // Byte codewords end at the first pad (900) or latch codeword
+  let end = 2
+  while (end < codewords.length && codewords[end] < 900) end++
+  const data = codewords.slice(2, end)
+
+  // 901 leaves the final 1-5 bytes as single codewords
+  const singles = codewords[1] === 924 ? 0 : data.length % 5 === 0 ? 5 : data.length % 5
+  if (data.length < singles) return null
+
+  const bytes: number[] = []
+  for (let i = 0; i + 5 <= data.length - singles; i += 5) {
+    let value = 0n
+    for (const codeword of data.slice(i, i + 5)) value = value * 900n + BigInt(codeword)
+    const group: number[] = []
+    for (let k = 0; k < 6; k++) {
+      group.unshift(Number(value % 256n))
+      value /= 256n
+    }
+    if (value > 0n) return null
+    bytes.push(...group)
+  }
+  for (const codeword of data.slice(data.length - singles)) {
+    if (codeword > 255) return null
+    bytes.push(codeword)
+  }
+  return bytes.map(b => b.toString(2).padStart(8, '0')).join('')
+}
+
+// ============================================
+// COMPOSITE BIT STREAM
+// ============================================
+
+/** Letters following the (90) number in encodation method 11 */
+const AI90_LETTERS = 'BDHIJKLNPQRSTVXZ'
+
+/** Split a field at its FNC1: value, rest (null without FNC1) */
+function splitField(field: string): [string, string | null] {
+  const separator = field.indexOf(GS)
+  return separator < 0 ? [field, null] : [field.slice(0, separator), field.slice(separator + 1)]
+}
+
+/**
+ * Uppercase alphabetic (90) data of encodation method 11, read up to FNC1
+ */
+function readAi90Alpha(reader: BitReader): string {
+  let data = ''
+  while (reader.remaining >= 5) {
+    const five = reader.read(5)
+    if (five === 31) break
+    if (five < 26) {
+      data += String.fromCharCode(65 + five)
+      continue
+    }
+    const six = five * 2 + reader.read(1)
+    if (six < 52 || six > 61) throw new RangeError('Invalid alpha character')
+    data += String(six - 52)
+  }
+  return data
+}
+
+/**
+ * Decode the composite component bit stream (encodation method and general
+ * purpose field) into a GS1 element string
+ */
+export function decodeCompositeBits(bits: string): string | null {
+  const reader = new BitReader(bits)
+  const fields: string[] = []
+  let rest: string | null
+
+  try {
+    const method = reader.read(1) === 0 ? '0' : reader.read(1) === 0 ? '10' : '11'
+    if (method === '0') {
+      // Method 0: general purpose field only
+      rest = decodeGeneralPurposeField(reader)
+    } else if (method === '10') {
+      // Method 10: (11) or (17) date and (10) lot number
+      if (reader.peek(2) === 3) {
+        reader.read(2)
+      } else {
+        const date = reader.read(16)
+        const ai = reader.read(1) === 1 ? '17' : '11'
+        const yy = Math.floor(date / 384)
+        const mm = Math.floor((date % 384) / 32) + 1
+        const dd = date % 32
+        if (yy > 99 || mm > 12) return null
+        const pad = (n: number) => String(n).padStart(2, '0')
+        fields.push(`${ai}${pad(yy)}${pad(mm)}${pad(dd)}`)
+      }
+      const field = decodeGeneralPurposeField(reader)
+      if (field === null) return null
+      const [lot, after] = splitField(field)
+      if (lot) fields.push(`10${lot}`)
+      rest = after
+    } else {
+      // Method 11: (90) starting with up to 3 digits and an uppercase letter
+      const mode = reader.read(1) === 0 ? 'alphanumeric' : reader.read(1) === 0 ? 'numeric' : 'alpha'
+      const follower = reader.read(1) === 0 ? null : reader.read(1) === 0 ? '21' : '8004'
+
+      let number: number
+      let letter: string
+      if (reader.peek(5) === 31) {
+        reader.read(5)
+        number = reader.read(10)
+        letter = String.fromCharCode(65 + reader.read(5))
+      } else {
+        number = reader.read(5)
+        letter = AI90_LETTERS[reader.read(4)]
+      }
+      const prefix = `90${number > 0 ? number : ''}${letter}`
+
+      if (mode === 'alpha') {
+        fields.push(prefix + readAi90Alpha(reader))
+        rest = decodeGeneralPurposeField(reader)
+      } else {
+        const field = decodeGeneralPurposeField(reader, mode)
+        if (field === null) return null
+        const [value, after] = splitField(field)
+        fields.push(prefix + value)
+        rest = after
+      }
+
+      if (follower && rest !== null) {
+        const [value, after] = splitField(rest)
+        fields.push(follower + value)
+        rest = after
+      }
+    }
+  } catch {
+    return null
+  }
+
+  if (rest === null && fields.length === 0) return null
+  if (rest) fields.push(rest)
+
+  // A trailing FNC1 only pads the last variable-length field
+  let elementString = fields.join(GS)
+  while (elementString.endsWith(GS)) {
+    elementString = elementString.slice(0, -1)
+  }
+  return elementString
+}
+
+// ============================================
+// COMPONENT DECODER
+// ============================================
+
+/**
+ * Locate and decode the 2D component of a composite symbol. Returns null
+ * when no MicroPDF417 / PDF417 row is found in the image.
+ */
+export function decodeCompositeComponent(imageData: ImageData): CompositeComponentDecodeResult | null {
+  const img = toReflectanceImage(imageData)
+  const messages: string[] = []
+
+  // Read pixel rows top-down and group those reading as the same symbol row
+  const rows: SymbolRow[] = []
+  let kind: ScannedRow['kind'] | null = null
+  let bottom = 0
+  let componentHeight = 0
+  for (let y = 0; y < img.height; y++) {
+    // Damaged rows, the separator and the linear symbol do not read as component rows
+    const scan = readRow(img, y)
+    if (!scan || (kind && scan.kind !== kind)) continue
+    kind = scan.kind
+    bottom = y + 1
+    componentHeight++
+
+    const key = `${scan.cluster}:${scan.address.join(',')}`
+    const row = rows.find(r => r.key === key)
+    if (row) {
+      row.scans.push(scan)
+    } else {
+      rows.push({ key, scans: [scan] })
+    }
+  }
+
+  if (rows.length === 0 || !kind) return null
+
+  const symbol = kind === 'micro' ? assembleMicro(rows) : assemblePdf417(rows)
+  const moduleSizePx = sum(rows.flatMap(r => r.scans.map(s => s.moduleSizePx))) / componentHeight
+  const contrast = img.rMax - img.rMin
+
+  const parameters: ISO15415Parameters = {
+    symbolContrast: contrast,
+    modulation: 0,
+    axialNonuniformity: 0,
+    gridNonuniformity: 0,
+    unusedErrorCorrection: 0,
+    fixedPatternDamage: 0,
+    decode: false,
+    printGrowth: 0,
+    quietZoneCompliant: true
+  }
+
+  if (!symbol) {
+    messages.push('Composite component rows were found but no valid symbol size matches them')
+    return {
+      componentType: kind === 'micro' ? 'CC-A' : 'CC-C',
+      data: null,
+      parameters,
+      messages,
+      symbolSize: 'unknown',
+      rows: rows.length,
+      columns: rows[0].scans[0].codewords.length,
+      moduleSizePx,
+      errorsCorrected: [],
+      bottom
+    }
+  }
+
+  const corrected = decodeReedSolomon929(symbol.codewords, symbol.ecCodewords)
+  const misdecodeProtection = symbol.componentType === 'CC-C' ? 2 : 0
+  let componentType: CompositeComponentType = symbol.componentType === 'MICROPDF417' ? 'CC-B' : symbol.componentType
+  let data: string | null = null
+
+  if (!corrected) {
+    messages.push('Error correction failed - too many codeword errors')
+  } else {
+    const dataCodewords = corrected.codewords.slice(0, corrected.codewords.length - symbol.ecCodewords)
+    let bits: string | null = null
+    if (symbol.componentType === 'CC-A') {
+      bits = ccaBits(dataCodewords, symbol.bitCapacity)
+    } else if (symbol.componentType === 'CC-C') {
+      if (dataCodewords[0] !== dataCodewords.length) messages.push('Symbol length descriptor does not match the symbol size')
+      bits = byteCompactionBits(dataCodewords.slice(1))
+    } else {
+      bits = byteCompactionBits(dataCodewords)
+      if (bits === null) messages.push('MicroPDF417 symbol is not a CC-B composite component (missing 920 flag)')
+    }
+    data = bits !== null ? decodeCompositeBits(bits) : null
+    if (data === null && bits !== null) messages.push('Composite bit stream could not be decoded')
+    if (corrected.errorsCorrected > 0) {
+      messages.push(`${corrected.errorsCorrected} codeword error(s) corrected`)
+    }
+  }
+
+  if (symbol.missingRows > 0) {
+    messages.push(`${symbol.missingRows} row(s) of the ${componentType} component could not be read`)
+  }
+  if (symbol.componentType === 'MICROPDF417' && data === null) componentType = 'CC-B'
+
+  const block = {
+    codewordModulation: symbol.modulation,
+    errorPositions: corrected?.errorPositions ?? [],
+    ecCodewords: symbol.ecCodewords,
+    misdecodeProtection
+  }
+  parameters.modulation = corrected ? calculateCodewordModulation([block]) : 0
+  parameters.unusedErrorCorrection = corrected
+    ? calculateUnusedErrorCorrection(corrected.errorsCorrected, symbol.ecCodewords, misdecodeProtection)
+    : 0
+  parameters.fixedPatternDamage = calculateFixedPatternDamage(symbol.missingRows)
+  parameters.decode = data !== null
+
+  return {
+    componentType,
+    data,
+    parameters,
+    messages,
+    symbolSize: `${componentType} ${symbol.columns}x${symbol.rows}`,
+    rows: symbol.rows,
+    columns: symbol.columns,
+    moduleSizePx,
+    errorsCorrected: corrected ? [corrected.errorsCorrected] : [],
+    bottom
+  }
+}
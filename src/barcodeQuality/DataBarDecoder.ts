@@ -0,0 +1,730 @@
+/**
+ * GPCS CodeStudio - GS1 DataBar Decoder
+ *
+ * Reference decode of GS1 DataBar Omnidirectional, Limited and Expanded
+ * scan lines (ISO/IEC 24724). Symbol characters are (n, k) width patterns
+ * converted to values with the RSS combinatorial enumeration.
+ */
+
+import type { CharacterDecodability } from './types'
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Symbol decoded from one row of element widths
+ */
+export interface DataBarSymbol {
+  /** Element string prefixed with the ]e0 symbology identifier */
+  data: string
+  characters: CharacterDecodability[]
+  /** Linkage flag (a 2D composite component follows) */
+  linked: boolean
+}
+
+interface MeasuredCharacter {
+  modules: number[]
+  decodability: number
+}
+
+// ============================================
+// WIDTH ENUMERATION
+// ============================================
+
+/**
+ * Binomial coefficient n over r
+ */
+function combins(n: number, r: number): number {
+  const minDenom = Math.min(r, n - r)
+  const maxDenom = Math.max(r, n - r)
+  let value = 1
+  let j = 1
+  for (let i = n; i > maxDenom; i--) {
+    value *= i
+    if (j <= minDenom) {
+      value /= j
+      j++
+    }
+  }
+  while (j <= minDenom) {
+    value /= j
+    j++
+  }
+  return value
+}
+
+/**
+ * Value of an (n, k) element width set. Inverse of the getRSSwidths
+ * enumeration: maxWidth limits single elements, noNarrow excludes sets
+ * without a single-module element.
+ */
+export function getRSSValue(widths: number[], maxWidth: number, noNarrow: boolean): number {
+  const elements = widths.length
+  let n = widths.reduce((a, b) => a + b, 0)
+  let value = 0
+  let narrowMask = 0
+
+  for (let bar = 0; bar < elements - 1; bar++) {
+    let elementWidth = 1
+    narrowMask |= 1 << bar
+    for (; elementWidth < widths[bar]; elementWidth++, narrowMask &= ~(1 << bar)) {
+      let subValue = combins(n - elementWidth - 1, elements - bar - 2)
+      if (noNarrow && narrowMask === 0 && n - elementWidth - (elements - bar - 1) >= elements - bar - 1) {
+        subValue -= combins(n - elementWidth - (elements - bar), elements - bar - 2)
+      }
+      if (elements - bar - 1 > 1) {
+        let lessValue = 0
+        for (let mxw = n - elementWidth - (elements - bar - 2); mxw > maxWidth; mxw--) {
+          lessValue += combins(n - elementWidth - mxw - 1, elements - bar - 3)
+        }
+        subValue -= lessValue * (elements - 1 - bar)
+      } else if (n - elementWidth > maxWidth) {
+        subValue--
+      }
+      value += subValue
+    }
+    n -= elementWidth
+  }
+  return value
+}
+
+/**
+ * Convert measured element widths to whole modules. Edge-to-similar-edge
+ * distances fix every width but one degree of freedom, which is taken from
+ * the measured widths themselves (bar gain below half a module).
+ */
+function measureCharacter(widths: number[], modules: number): MeasuredCharacter | null {
+  const total = widths.reduce((a, b) => a + b, 0)
+  if (total <= 0 || widths.length < 2) return null
+
+  const normalized = widths.map(w => (w * modules) / total)
+  const distances: number[] = []
+  let decodability = 1
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const distance = normalized[i] + normalized[i + 1]
+    const rounded = Math.round(distance)
+    distances.push(rounded)
+    decodability = Math.min(decodability, 1 - 2 * Math.abs(distance - rounded))
+  }
+
+  let best: number[] | null = null
+  let bestError = Infinity
+  for (let first = 1; first < modules; first++) {
+    const candidate = [first]
+    for (const distance of distances) {
+      candidate.push(distance - candidate[candidate.length - 1])
+    }
+    if (candidate.some(w => w < 1)) continue
+    if (candidate.reduce((a, b) => a + b, 0) !== modules) continue
+
+    const error = candidate.reduce((sum, w, i) => sum + Math.abs(w - normalized[i]), 0)
+    if (error < bestError) {
+      best = candidate
+      bestError = error
+    }
+  }
+
+  return best ? { modules: best, decodability: Math.max(0, decodability) } : null
+}
+
+const oddElements = (widths: number[]) => widths.filter((_, i) => i % 2 === 0)
+const evenElements = (widths: number[]) => widths.filter((_, i) => i % 2 === 1)
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+/**
+ * GTIN-14 from its 13-digit body
+ */
+function withCheckDigit(body: string): string {
+  let total = 0
+  for (let i = 0; i < body.length; i++) {
+    total += parseInt(body[body.length - 1 - i], 10) * (i % 2 === 0 ? 3 : 1)
+  }
+  return body + ((10 - (total % 10)) % 10)
+}
+
+// ============================================
+// GS1 DATABAR OMNIDIRECTIONAL
+// ============================================
+
+/** Outside characters (16 modules): odd elements set the group */
+const OMNI_OUTSIDE = {
+  teven: [1, 10, 34, 70, 126],
+  gsum: [0, 161, 961, 2015, 2715],
+  oddMaxWidth: [8, 6, 4, 3, 1]
+}
+
+/** Inside characters (15 modules): even elements set the group */
+const OMNI_INSIDE = {
+  todd: [4, 20, 48, 81],
+  gsum: [0, 336, 1036, 1516],
+  oddMaxWidth: [2, 4, 6, 8]
+}
+
+/** Finder patterns (first four elements, the fifth is always one module) */
+const OMNI_FINDERS = [
+  [3, 8, 2, 1], [3, 5, 5, 1], [3, 3, 7, 1], [3, 1, 9, 1], [2, 7, 4, 1],
+  [2, 5, 6, 1], [2, 3, 8, 1], [1, 5, 7, 1], [1, 3, 9, 1]
+]
+
+/**
+ * Decode an Omnidirectional data character (odd/even elements interleaved,
+ * odd first). Returns the value and its checksum contribution.
+ */
+function decodeOmniCharacter(widths: number[], outside: boolean): { value: number; checksum: number } | null {
+  const odd = oddElements(widths)
+  const even = evenElements(widths)
+
+  let checksum = 0
+  for (let i = 3; i >= 0; i--) {
+    checksum = checksum * 9 + odd[i]
+  }
+  let evenChecksum = 0
+  for (let i = 3; i >= 0; i--) {
+    evenChecksum = evenChecksum * 9 + even[i]
+  }
+  checksum += 3 * evenChecksum
+
+  if (outside) {
+    const group = (12 - sum(odd)) / 2
+    if (!Number.isInteger(group) || group < 0 || group > 4) return null
+    const oddMax = OMNI_OUTSIDE.oddMaxWidth[group]
+    const value = getRSSValue(odd, oddMax, false) * OMNI_OUTSIDE.teven[group] +
+      getRSSValue(even, 9 - oddMax, true) + OMNI_OUTSIDE.gsum[group]
+    return { value, checksum }
+  }
+
+  const group = (10 - sum(even)) / 2
+  if (!Number.isInteger(group) || group < 0 || group > 3) return null
+  const oddMax = OMNI_INSIDE.oddMaxWidth[group]
+  const value = getRSSValue(even, 9 - oddMax, false) * OMNI_INSIDE.todd[group] +
+    getRSSValue(odd, oddMax, true) + OMNI_INSIDE.gsum[group]
+  return { value, checksum }
+}
+
+function findOmniFinder(widths: number[]): number {
+  return OMNI_FINDERS.findIndex(pattern => pattern.every((w, i) => w === widths[i]))
+}
+
+/**
+ * Decode a GS1 DataBar Omnidirectional (or Truncated) scan. The symbol is
+ * 45 elements starting with the one-module left guard bar.
+ */
+export function decodeDataBarOmni(widths: number[], start: number): DataBarSymbol | null {
+  if (start + 45 > widths.length) return null
+
+  // Left guard bar, char 1, left finder, char 2, char 4, right finder, char 3, right guard
+  const slice = (offset: number, count: number) => widths.slice(start + offset, start + offset + count)
+  const c1 = measureCharacter(slice(1, 8), 16)
+  const leftFinder = measureCharacter(slice(9, 5), 15)
+  const c2 = measureCharacter(slice(14, 8), 15)
+  const c4 = measureCharacter(slice(22, 8), 15)
+  const rightFinder = measureCharacter(slice(30, 5), 15)
+  const c3 = measureCharacter(slice(35, 8), 16)
+  if (!c1 || !leftFinder || !c2 || !c4 || !rightFinder || !c3) return null
+
+  const left = findOmniFinder(leftFinder.modules)
+  const right = findOmniFinder([...rightFinder.modules].reverse())
+  if (left < 0 || right < 0) return null
+
+  const d1 = decodeOmniCharacter(c1.modules, true)
+  const d2 = decodeOmniCharacter([...c2.modules].reverse(), false)
+  const d4 = decodeOmniCharacter(c4.modules, false)
+  const d3 = decodeOmniCharacter([...c3.modules].reverse(), true)
+  if (!d1 || !d2 || !d3 || !d4) return null
+
+  const leftPair = { value: 1597 * d1.value + d2.value, checksum: d1.checksum + 4 * d2.checksum }
+  const rightPair = { value: 1597 * d3.value + d4.value, checksum: d3.checksum + 4 * d4.checksum }
+
+  let target = 9 * left + right
+  if (target > 72) target--
+  if (target > 8) target--
+  if ((leftPair.checksum + 16 * rightPair.checksum) % 79 !== target) return null
+
+  let value = 4537077 * leftPair.value + rightPair.value
+  const linked = value >= 1e13
+  if (linked) value -= 1e13
+
+  const characters: CharacterDecodability[] = [
+    { position: 0, character: String(d1.value), decodability: c1.decodability },
+    { position: 1, character: `FINDER ${left}`, decodability: leftFinder.decodability },
+    { position: 2, character: String(d2.value), decodability: c2.decodability },
+    { position: 3, character: String(d4.value), decodability: c4.decodability },
+    { position: 4, character: `FINDER ${right}`, decodability: rightFinder.decodability },
+    { position: 5, character: String(d3.value), decodability: c3.decodability }
+  ]
+
+  return { data: `]e001${withCheckDigit(String(value).padStart(13, '0'))}`, characters, linked }
+}
+
+// ============================================
+// GS1 DATABAR LIMITED
+// ============================================
+
+/** Character groups: [max value, group sum, odd modules, odd max width, even max width, odd combinations, even combinations] */
+const LIMITED_GROUPS = [
+  [183063, 0, 17, 6, 3, 6538, 28],
+  [820063, 183064, 13, 5, 4, 875, 728],
+  [1000775, 820064, 9, 3, 6, 28, 6454],
+  [1491020, 1000776, 15, 5, 4, 2415, 203],
+  [1979844, 1491021, 11, 4, 5, 203, 2408],
+  [1996938, 1979845, 19, 8, 1, 17094, 1],
+  [2013570, 1996939, 7, 1, 8, 1, 16632]
+]
+
+const LIMITED_CHECK_WEIGHTS = [
+  1, 3, 9, 27, 81, 65, 17, 51, 64, 14, 42, 37, 22, 66,
+  20, 60, 2, 6, 18, 54, 73, 41, 34, 13, 39, 28, 84, 74
+]
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+
+/** Check character sequence numbers by checksum (mod 89) */
+const LIMITED_CHECK_SEQUENCE = [
+  ...range(0, 43), 45, 52, 57, ...range(63, 66), ...range(73, 79), 82,
+  ...range(126, 130), 132, ...range(141, 146), ...range(210, 217), 220,
+  ...range(316, 320), 322, 323, 326, 337
+]
+
+/** Linkage flag offset added to the symbol value */
+const LIMITED_LINKAGE = 2015133531096
+
+function decodeLimitedCharacter(widths: number[]): number | null {
+  const odd = oddElements(widths)
+  const even = evenElements(widths)
+  const group = LIMITED_GROUPS.find(g => g[2] === sum(odd))
+  if (!group) return null
+  const [, groupSum, , oddMax, evenMax, , evenCombinations] = group
+  return groupSum + getRSSValue(odd, oddMax, false) * evenCombinations + getRSSValue(even, evenMax, true)
+}
+
+/**
+ * Decode a GS1 DataBar Limited scan: left guard bar, two 14-element data
+ * characters around the check character and the right guard.
+ */
+export function decodeDataBarLimited(widths: number[], start: number): DataBarSymbol | null {
+  if (start + 45 > widths.length) return null
+
+  const slice = (offset: number, count: number) => widths.slice(start + offset, start + offset + count)
+  const left = measureCharacter(slice(1, 14), 26)
+  const check = measureCharacter(slice(15, 14), 18)
+  const right = measureCharacter(slice(29, 14), 26)
+  if (!left || !check || !right) return null
+
+  // Check character ends with two single-module elements
+  const [lastSpace, lastBar] = check.modules.slice(12)
+  if (lastSpace !== 1 || lastBar !== 1) return null
+
+  const d1 = decodeLimitedCharacter(left.modules)
+  const d2 = decodeLimitedCharacter(right.modules)
+  if (d1 === null || d2 === null) return null
+
+  const checkWidths = check.modules.slice(0, 12)
+  const sequence = getRSSValue(oddElements(checkWidths), 3, false) * 21 + getRSSValue(evenElements(checkWidths), 3, false)
+  const weighted = [...left.modules, ...right.modules].reduce((acc, w, i) => acc + w * LIMITED_CHECK_WEIGHTS[i], 0)
+  if (LIMITED_CHECK_SEQUENCE[weighted % 89] !== sequence) return null
+
+  let value = d1 * 2013571 + d2
+  const linked = value >= LIMITED_LINKAGE
+  if (linked) value -= LIMITED_LINKAGE
+  if (value >= 2e12) return null
+
+  const characters: CharacterDecodability[] = [
+    { position: 0, character: String(d1), decodability: left.decodability },
+    { position: 1, character: 'CHECK', decodability: check.decodability },
+    { position: 2, character: String(d2), decodability: right.decodability }
+  ]
+
+  return { data: `]e001${withCheckDigit(String(value).padStart(13, '0'))}`, characters, linked }
+}
+
+// ============================================
+// GS1 DATABAR EXPANDED
+// ============================================
+
+/** Character groups: [max value, group sum, odd modules, odd max width, even max width, odd combinations, even combinations] */
+const EXPANDED_GROUPS = [
+  [347, 0, 12, 7, 2, 87, 4],
+  [1387, 348, 10, 5, 4, 52, 20],
+  [2947, 1388, 8, 4, 5, 30, 52],
+  [3987, 2948, 6, 3, 6, 10, 104],
+  [4191, 3988, 4, 1, 8, 1, 204]
+]
+
+/** Finder patterns A-F; odd sequence values are the mirrored pattern */
+const EXPANDED_FINDERS = [
+  [1, 8, 4, 1, 1], [3, 6, 4, 1, 1], [3, 4, 6, 1, 1],
+  [3, 2, 8, 1, 1], [2, 6, 5, 1, 1], [2, 2, 9, 1, 1]
+]
+
+/** Finder sequences by number of finder patterns */
+const EXPANDED_FINDER_SEQUENCES = [
+  [0, 1],
+  [0, 3, 2],
+  [0, 5, 2, 7],
+  [0, 9, 2, 7, 4],
+  [0, 9, 2, 7, 6, 11],
+  [0, 9, 2, 7, 8, 11, 10],
+  [0, 1, 2, 3, 4, 5, 6, 7],
+  [0, 1, 2, 3, 4, 5, 6, 9, 8],
+  [0, 1, 2, 3, 4, 5, 6, 9, 10, 11],
+  [0, 1, 2, 3, 4, 7, 6, 9, 8, 11, 10]
+]
+
+/** Checksum weights of the left and right character for every finder value */
+const EXPANDED_CHECK_WEIGHTS = [
+  -1, -1, -1, -1, -1, -1, -1, -1, 77, 96, 32, 81, 27, 9, 3, 1,
+  20, 60, 180, 118, 143, 7, 21, 63, 205, 209, 140, 117, 39, 13, 145, 189,
+  193, 157, 49, 147, 19, 57, 171, 91, 132, 44, 85, 169, 197, 136, 186, 62,
+  185, 133, 188, 142, 4, 12, 36, 108, 50, 87, 29, 80, 97, 173, 128, 113,
+  150, 28, 84, 41, 123, 158, 52, 156, 166, 196, 206, 139, 187, 203, 138, 46,
+  76, 17, 51, 153, 37, 111, 122, 155, 146, 119, 110, 107, 106, 176, 129, 43,
+  16, 48, 144, 10, 30, 90, 59, 177, 164, 125, 112, 178, 200, 137, 116, 109,
+  70, 210, 208, 202, 184, 130, 179, 115, 190, 204, 68, 93, 31, 151, 191, 134,
+  148, 22, 66, 198, 172, 94, 71, 2, 40, 154, 192, 64, 162, 54, 18, 6,
+  120, 149, 25, 75, 14, 42, 126, 167, 175, 199, 207, 69, 23, 78, 26, 79,
+  103, 98, 83, 38, 114, 131, 182, 124, 159, 53, 88, 170, 127, 183, 61, 161,
+  55, 165, 73, 8, 24, 72, 5, 15, 89, 100, 174, 58, 160, 194, 135, 45
+]
+
+/**
+ * Decode an Expanded character from its widths in odd-first order
+ */
+function decodeExpandedCharacter(widths: number[]): number | null {
+  const odd = oddElements(widths)
+  const even = evenElements(widths)
+  const group = EXPANDED_GROUPS.find(g => g[2] === sum(odd))
+  if (!group) return null
+  const [max, groupSum, , oddMax, evenMax, , evenCombinations] = group
+  const value = groupSum + getRSSValue(odd, oddMax, true) * evenCombinations + getRSSValue(even, evenMax, false)
+  return value <= max ? value : null
+}
+
+function findExpandedFinder(widths: number[]): number {
+  for (let finder = 0; finder < EXPANDED_FINDERS.length; finder++) {
+    const pattern = EXPANDED_FINDERS[finder]
+    if (pattern.every((w, i) => w === widths[i])) return finder * 2
+    if (pattern.every((w, i) => w === widths[4 - i])) return finder * 2 + 1
+  }
+  return -1
+}
+
+/**
+ * Decode a GS1 DataBar Expanded scan. Characters are read pairwise around
+ * the finder patterns until the finder sequence and checksum agree with
+ * the number of characters read.
+ */
+export function decodeDataBarExpanded(widths: number[], start: number): DataBarSymbol | null {
+  // Physical widths of every character (check character first)
+  const characters: MeasuredCharacter[] = []
+  const finders: number[] = []
+  const finderDecodability: number[] = []
+  let position = start + 1
+
+  while (characters.length < 22) {
+    if (position + 8 > widths.length) return null
+    const character = measureCharacter(widths.slice(position, position + 8), 17)
+    if (!character) return null
+    characters.push(character)
+    position += 8
+
+    if (characters.length % 2 === 1) {
+      if (position + 5 > widths.length) return null
+      const finder = measureCharacter(widths.slice(position, position + 5), 15)
+      const value = finder ? findExpandedFinder(finder.modules) : -1
+      if (!finder || value < 0) return null
+      finders.push(value)
+      finderDecodability.push(finder.decodability)
+      position += 5
+    }
+
+    // Right guard must follow the last character (a single bar after the finder of an odd pair)
+    if (characters.length >= 3 && position < widths.length) {
+      const symbol = interpretExpanded(characters, finders)
+      if (symbol) {
+        const decodability: CharacterDecodability[] = characters.map((c, i) => ({
+          position: i,
+          character: i === 0 ? 'CHECK' : String(symbol.values[i - 1]),
+          decodability: Math.min(c.decodability, finderDecodability[i >> 1])
+        }))
+        return { data: symbol.data, characters: decodability, linked: symbol.linked }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Validate the finder sequence and checksum of a candidate character run
+ * and decode its data
+ */
+function interpretExpanded(
+  characters: MeasuredCharacter[],
+  finders: number[]
+): { data: string; values: number[]; linked: boolean } | null {
+  const dataLength = characters.length - 1
+  const sequence = EXPANDED_FINDER_SEQUENCES[(dataLength - 2) >> 1]
+  if (!sequence || sequence.length !== finders.length) return null
+  if (sequence.some((finder, i) => finder !== finders[i])) return null
+
+  // Left characters read odd-first, right characters are mirrored
+  const logical = characters.map((c, i) => (i % 2 === 0 ? c.modules : [...c.modules].reverse()))
+  const values: number[] = []
+  for (const widths of logical) {
+    const value = decodeExpandedCharacter(widths)
+    if (value === null) return null
+    values.push(value)
+  }
+
+  const weights = sequence.flatMap(finder => EXPANDED_CHECK_WEIGHTS.slice(finder * 16, finder * 16 + 16)).slice(8)
+  const physical = characters.slice(1).flatMap(c => c.modules)
+  const weighted = physical.reduce((acc, w, i) => acc + w * weights[i], 0)
+  if ((weighted % 211) + (dataLength - 3) * 211 !== values[0]) return null
+
+  const bits = values.slice(1).map(v => v.toString(2).padStart(12, '0')).join('')
+  const decoded = decodeExpandedBinary(bits)
+  if (decoded === null) return null
+  return { data: `]e0${decoded.elementString}`, values: values.slice(1), linked: decoded.linked }
+}
+
+// ============================================
+// EXPANDED BINARY DATA
+// ============================================
+
+const GS = '\x1D'
+
+/**
+ * Reads a binary string MSB first (shared with the composite component decoder)
+ */
+export class BitReader {
+  private position = 0
+  private bits: string
+
+  constructor(bits: string) {
+    this.bits = bits
+  }
+
+  get remaining(): number {
+    return this.bits.length - this.position
+  }
+
+  peek(count: number): number {
+    return parseInt(this.bits.slice(this.position, this.position + count).padEnd(count, '0'), 2)
+  }
+
+  read(count: number): number {
+    const value = this.peek(count)
+    this.position += count
+    return value
+  }
+}
+
+/**
+ * Three-digit groups of the 40/44-bit compressed GTIN field
+ */
+function readDigitGroups(reader: BitReader, groups: number): string {
+  let digits = ''
+  for (let i = 0; i < groups; i++) {
+    const group = reader.read(10)
+    if (group > 999) throw new RangeError('Invalid compressed digit group')
+    digits += String(group).padStart(3, '0')
+  }
+  return digits
+}
+
+const DATE_AIS = ['11', '13', '15', '17']
+
+/**
+ * Decode the Expanded binary string (data characters without the check
+ * character) into a GS1 element string
+ */
+function decodeExpandedBinary(bits: string): { elementString: string; linked: boolean } | null {
+  const reader = new BitReader(bits)
+  const linked = reader.read(1) === 1
+  let elementString = ''
+  let generalPurpose = true
+
+  try {
+    if (reader.peek(1) === 1) {
+      // (01) with any indicator digit
+      reader.read(1)
+      reader.read(2)
+      const indicator = reader.read(4)
+      if (indicator > 9) return null
+      elementString = `01${withCheckDigit(indicator + readDigitGroups(reader, 4))}`
+    } else if (reader.peek(2) === 0) {
+      reader.read(2)
+      reader.read(2)
+    } else if (reader.peek(4) === 0b0100) {
+      // (01)9...(3103)
+      reader.read(4)
+      const gtin = withCheckDigit('9' + readDigitGroups(reader, 4))
+      elementString = `01${gtin}3103${String(reader.read(15)).padStart(6, '0')}`
+      generalPurpose = false
+    } else if (reader.peek(4) === 0b0101) {
+      // (01)9...(3202/3203)
+      reader.read(4)
+      const gtin = withCheckDigit('9' + readDigitGroups(reader, 4))
+      const weight = reader.read(15)
+      elementString = weight < 10000
+        ? `01${gtin}3202${String(weight).padStart(6, '0')}`
+        : `01${gtin}3203${String(weight - 10000).padStart(6, '0')}`
+      generalPurpose = false
+    } else if (reader.peek(5) === 0b01100 || reader.peek(5) === 0b01101) {
+      // (01)9...(392x) / (393x) price, followed by the general purpose field
+      const withCurrency = reader.read(5) === 0b01101
+      reader.read(2)
+      const gtin = withCheckDigit('9' + readDigitGroups(reader, 4))
+      const decimals = reader.read(2)
+      elementString = `01${gtin}39${withCurrency ? 3 : 2}${decimals}`
+      if (withCurrency) {
+        const currency = reader.read(10)
+        if (currency > 999) return null
+        elementString += String(currency).padStart(3, '0')
+      }
+    } else if (reader.peek(4) === 0b0111) {
+      // (01)9...(310x/320x)[(11/13/15/17)]
+      const method = reader.read(7)
+      const gtin = withCheckDigit('9' + readDigitGroups(reader, 4))
+      const weightField = reader.read(20)
+      const date = reader.read(16)
+      const measure = method & 1 ? '320' : '310'
+      elementString = `01${gtin}${measure}${Math.floor(weightField / 100000)}${String(weightField % 100000).padStart(6, '0')}`
+      if (date !== 38400) {
+        const yy = Math.floor(date / 384)
+        const mm = Math.floor((date % 384) / 32) + 1
+        const dd = date % 32
+        if (yy > 99 || mm > 12) return null
+        const pad = (n: number) => String(n).padStart(2, '0')
+        elementString += `${DATE_AIS[(method >> 1) & 3]}${pad(yy)}${pad(mm)}${pad(dd)}`
+      }
+      generalPurpose = false
+    } else {
+      return null
+    }
+  } catch {
+    return null
+  }
+
+  if (generalPurpose) {
+    const field = decodeGeneralPurposeField(reader)
+    if (field === null) return null
+    elementString += field
+  }
+
+  // A trailing FNC1 only pads the last variable-length field
+  while (elementString.endsWith(GS)) {
+    elementString = elementString.slice(0, -1)
+  }
+  return { elementString, linked }
+}
+
+/** Encodation mode of the general purpose field */
+export type GeneralPurposeMode = 'numeric' | 'alphanumeric' | 'iso646'
+
+/**
+ * Decode the numeric / alphanumeric / ISO 646 general purpose field
+ * (GS1 DataBar Expanded and the composite component). FNC1 decodes as GS.
+ */
+export function decodeGeneralPurposeField(
+  reader: BitReader,
+  startMode: GeneralPurposeMode = 'numeric'
+): string | null {
+  let mode = startMode
+  let data = ''
+
+  while (reader.remaining > 0) {
+    if (mode === 'numeric') {
+      if (reader.remaining < 7) {
+        // A final digit is packed into the last 4-6 bits
+        const digit = reader.remaining >= 4 ? reader.read(4) : 0
+        if (digit > 0 && digit <= 10) data += String(digit - 1)
+        break
+      }
+      if (reader.peek(4) === 0) {
+        reader.read(4)
+        mode = 'alphanumeric'
+        continue
+      }
+      const pair = reader.read(7) - 8
+      if (pair < 0 || pair > 120) return null
+      const first = Math.floor(pair / 11)
+      const second = pair % 11
+      data += first === 10 ? GS : String(first)
+      data += second === 10 ? GS : String(second)
+      continue
+    }
+
+    if (reader.remaining < 3) break
+    if (reader.peek(3) === 0) {
+      reader.read(3)
+      mode = 'numeric'
+      continue
+    }
+    if (reader.remaining < 5) break
+    const five = reader.peek(5)
+    if (five === 0b00100) {
+      reader.read(5)
+      mode = mode === 'alphanumeric' ? 'iso646' : 'alphanumeric'
+      continue
+    }
+    if (five >= 5 && five <= 14) {
+      reader.read(5)
+      data += String.fromCharCode(five + 43)
+      continue
+    }
+    if (five === 15) {
+      reader.read(5)
+      data += GS
+      mode = 'numeric'
+      continue
+    }
+
+    if (mode === 'alphanumeric') {
+      if (reader.remaining < 6) break
+      const six = reader.read(6)
+      if (six >= 32 && six <= 57) {
+        data += String.fromCharCode(six + 33)
+      } else if (six === 58) {
+        data += '*'
+      } else if (six >= 59 && six <= 62) {
+        data += String.fromCharCode(six - 15)
+      } else {
+        return null
+      }
+      continue
+    }
+
+    if (reader.remaining < 7) break
+    const seven = reader.peek(7)
+    if (seven >= 64 && seven <= 89) {
+      reader.read(7)
+      data += String.fromCharCode(seven + 1)
+      continue
+    }
+    if (seven >= 90 && seven <= 115) {
+      reader.read(7)
+      data += String.fromCharCode(seven + 7)
+      continue
+    }
+    if (reader.remaining < 8) break
+    const eight = reader.read(8)
+    if (eight === 232) {
+      data += '!'
+    } else if (eight === 233) {
+      data += '"'
+    } else if (eight >= 234 && eight <= 244) {
+      data += String.fromCharCode(eight - 197)
+    } else if (eight >= 245 && eight <= 250) {
+      data += String.fromCharCode(eight - 187)
+    } else if (eight === 251) {
+      data += '_'
+    } else if (eight === 252) {
+      data += ' '
+    } else {
+      return null
+    }
+  }
+
+  return data
+}
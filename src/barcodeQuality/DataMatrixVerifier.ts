@@ -9,8 +9,33 @@ import type {
   QualityGrade,
   VerificationResult,
   ISO15415Parameters,
+  CodewordBlockQuality,
+  MatrixDecodeResult,
 } from './types'
 
+import type { ReflectanceImage, SymbolBounds, TimingTrackMeasurement } from './MatrixSampler'
+
+import {
+  toReflectanceImage,
+  findSymbolBounds,
+  runsAlongLine,
+  sampleGrid,
+  rotateGridCounterClockwise,
+  measureModuleContrast,
+  countPatternDamage,
+  measureTimingTrack,
+  measureQuietZoneModules,
+  quietZoneReflectance,
+} from './MatrixSampler'
+
+import { decodeReedSolomon, DATA_MATRIX_FIELD } from './ReedSolomon'
+
+import {
+  calculateCodewordModulation,
+  calculateSymbolUnusedErrorCorrection,
+  calculateFixedPatternDamage,
+} from './QualityGrading'
+
 // ============================================
 // DATA MATRIX TYPES
 // ============================================
@@ -444,3 +469,558 @@ export function recommendDataMatrixSize(
   
   return sizes[0][0] as DataMatrixSize
 }
+
+// ============================================
+// SYMBOL DECODING (ISO/IEC 16022 ECC 200)
+// ============================================
+
+/**
+ * Data region size and interleaved block count per symbol size
+ */
+const DATA_MATRIX_LAYOUT: Record<DataMatrixSize, { regionRows: number; regionColumns: number; blocks: number }> = {
+  '10x10': { regionRows: 8, regionColumns: 8, blocks: 1 },
+  '12x12': { regionRows: 10, regionColumns: 10, blocks: 1 },
+  '14x14': { regionRows: 12, regionColumns: 12, blocks: 1 },
+  '16x16': { regionRows: 14, regionColumns: 14, blocks: 1 },
+  '18x18': { regionRows: 16, regionColumns: 16, blocks: 1 },
+  '20x20': { regionRows: 18, regionColumns: 18, blocks: 1 },
+  '22x22': { regionRows: 20, regionColumns: 20, blocks: 1 },
+  '24x24': { regionRows: 22, regionColumns: 22, blocks: 1 },
+  '26x26': { regionRows: 24, regionColumns: 24, blocks: 1 },
+  '32x32': { regionRows: 14, regionColumns: 14, blocks: 1 },
+  '36x36': { regionRows: 16, regionColumns: 16, blocks: 1 },
+  '40x40': { regionRows: 18, regionColumns: 18, blocks: 1 },
+  '44x44': { regionRows: 20, regionColumns: 20, blocks: 1 },
+  '48x48': { regionRows: 22, regionColumns: 22, blocks: 1 },
+  '52x52': { regionRows: 24, regionColumns: 24, blocks: 2 },
+  '64x64': { regionRows: 14, regionColumns: 14, blocks: 4 },
+  '72x72': { regionRows: 16, regionColumns: 16, blocks: 4 },
+  '80x80': { regionRows: 18, regionColumns: 18, blocks: 4 },
+  '88x88': { regionRows: 20, regionColumns: 20, blocks: 4 },
+  '96x96': { regionRows: 22, regionColumns: 22, blocks: 4 },
+  '104x104': { regionRows: 24, regionColumns: 24, blocks: 6 },
+  '120x120': { regionRows: 18, regionColumns: 18, blocks: 6 },
+  '132x132': { regionRows: 20, regionColumns: 20, blocks: 8 },
+  '144x144': { regionRows: 22, regionColumns: 22, blocks: 10 },
+  '8x18': { regionRows: 6, regionColumns: 16, blocks: 1 },
+  '8x32': { regionRows: 6, regionColumns: 14, blocks: 1 },
+  '12x26': { regionRows: 10, regionColumns: 24, blocks: 1 },
+  '12x36': { regionRows: 10, regionColumns: 16, blocks: 1 },
+  '16x36': { regionRows: 14, regionColumns: 16, blocks: 1 },
+  '16x48': { regionRows: 14, regionColumns: 22, blocks: 1 }
+}
+
+const DM_QUIET_ZONE_MODULES = 1
+
+type ModulePosition = { row: number; col: number }
+
+/**
+ * Expected colour of a finder / alignment pattern module, or null for data modules
+ */
+function expectedPatternModule(
+  row: number,
+  col: number,
+  regionRows: number,
+  regionColumns: number
+): boolean | null {
+  const localRow = row % (regionRows + 2)
+  const localCol = col % (regionColumns + 2)
+  if (localCol === 0) return true
+  if (localRow === regionRows + 1) return true
+  if (localRow === 0) return col % 2 === 0
+  if (localCol === regionColumns + 1) return localRow % 2 === 1
+  return null
+}
+
+/**
+ * Read codewords from the mapping matrix in the ECC 200 "utah" placement order
+ */
+function readPlacement(
+  bit: (row: number, col: number) => boolean,
+  numRows: number,
+  numColumns: number,
+  totalCodewords: number
+): { codewords: number[]; modules: ModulePosition[][] } | null {
+  const read = Array.from({ length: numRows }, () => new Array<boolean>(numColumns).fill(false))
+  const codewords: number[] = []
+  const modules: ModulePosition[][] = []
+
+  const readModule = (row: number, col: number, positions: ModulePosition[]): number => {
+    if (row < 0) {
+      row += numRows
+      col += 4 - ((numRows + 4) & 0x07)
+    }
+    if (col < 0) {
+      col += numColumns
+      row += 4 - ((numColumns + 4) & 0x07)
+    }
+    if (row >= numRows) row -= numRows
+    read[row][col] = true
+    positions.push({ row, col })
+    return bit(row, col) ? 1 : 0
+  }
+
+  const readCodeword = (coordinates: Array<[number, number]>) => {
+    const positions: ModulePosition[] = []
+    let value = 0
+    for (const [row, col] of coordinates) {
+      value = (value << 1) | readModule(row, col, positions)
+    }
+    codewords.push(value)
+    modules.push(positions)
+  }
+
+  const utah = (row: number, col: number) => readCodeword([
+    [row - 2, col - 2], [row - 2, col - 1], [row - 1, col - 2], [row - 1, col - 1],
+    [row - 1, col], [row, col - 2], [row, col - 1], [row, col]
+  ])
+
+  const r = numRows
+  const c = numColumns
+  const corners = [
+    [[r - 1, 0], [r - 1, 1], [r - 1, 2], [0, c - 2], [0, c - 1], [1, c - 1], [2, c - 1], [3, c - 1]],
+    [[r - 3, 0], [r - 2, 0], [r - 1, 0], [0, c - 4], [0, c - 3], [0, c - 2], [0, c - 1], [1, c - 1]],
+    [[r - 1, 0], [r - 1, c - 1], [0, c - 3], [0, c - 2], [0, c - 1], [1, c - 3], [1, c - 2], [1, c - 1]],
+    [[r - 3, 0], [r - 2, 0], [r - 1, 0], [0, c - 2], [0, c - 1], [1, c - 1], [2, c - 1], [3, c - 1]]
+  ] as Array<Array<[number, number]>>
+  const cornerRead = [false, false, false, false]
+
+  let row = 4
+  let col = 0
+  do {
+    if (row === r && col === 0 && !cornerRead[0]) {
+      readCodeword(corners[0])
+      cornerRead[0] = true
+      row -= 2
+      col += 2
+    } else if (row === r - 2 && col === 0 && (c & 0x03) !== 0 && !cornerRead[1]) {
+      readCodeword(corners[1])
+      cornerRead[1] = true
+      row -= 2
+      col += 2
+    } else if (row === r + 4 && col === 2 && (c & 0x07) === 0 && !cornerRead[2]) {
+      readCodeword(corners[2])
+      cornerRead[2] = true
+      row -= 2
+      col += 2
+    } else if (row === r - 2 && col === 0 && (c & 0x07) === 4 && !cornerRead[3]) {
+      readCodeword(corners[3])
+      cornerRead[3] = true
+      row -= 2
+      col += 2
+    } else {
+      // Sweep upward diagonally
+      do {
+        if (row < r && col >= 0 && !read[row][col]) utah(row, col)
+        row -= 2
+        col += 2
+      } while (row >= 0 && col < c)
+      row += 1
+      col += 3
+
+      // Sweep downward diagonally
+      do {
+        if (row >= 0 && col < c && !read[row][col]) utah(row, col)
+        row += 2
+        col -= 2
+      } while (row < r && col >= 0)
+      row += 3
+      col += 1
+    }
+  } while (row < r || col < c)
+
+  if (codewords.length !== totalCodewords) return null
+  return { codewords, modules }
+}
+
+/**
+ * Decode ECC 200 data codewords (GS1 data is prefixed with ]d2)
+ */
+function parseDataMatrixCodewords(codewords: number[]): string | null {
+  const bytes: number[] = []
+  let prefix = ''
+  let suffix = ''
+  let upperShift = false
+  let i = 0
+
+  const append = (code: number) => {
+    bytes.push(upperShift ? code + 128 : code)
+    upperShift = false
+  }
+
+  // C40 / Text / X12: three values in each codeword pair
+  const decodeTriplets = (set: 'C40' | 'TEXT' | 'X12') => {
+    let shift = 0
+    while (i + 1 < codewords.length) {
+      if (codewords[i] === 254) {
+        i++
+        return
+      }
+      const packed = codewords[i] * 256 + codewords[i + 1] - 1
+      i += 2
+      for (const value of [Math.floor(packed / 1600), Math.floor((packed % 1600) / 40), packed % 40]) {
+        if (set === 'X12') {
+          if (value === 0) append(13)
+          else if (value === 1) append(42)
+          else if (value === 2) append(62)
+          else if (value === 3) append(32)
+          else if (value < 14) append(48 + value - 4)
+          else append(65 + value - 14)
+          continue
+        }
+        if (shift === 0) {
+          if (value < 3) shift = value + 1
+          else if (value === 3) append(32)
+          else if (value < 14) append(48 + value - 4)
+          else append((set === 'C40' ? 65 : 97) + value - 14)
+        } else if (shift === 1) {
+          append(value)
+          shift = 0
+        } else if (shift === 2) {
+          if (value < 15) append(33 + value)
+          else if (value < 22) append(58 + value - 15)
+          else if (value < 27) append(91 + value - 22)
+          else if (value === 27) bytes.push(0x1d)
+          else if (value === 30) upperShift = true
+          shift = 0
+        } else {
+          if (set === 'C40') append(96 + value)
+          else if (value === 0) append(96)
+          else if (value < 27) append(65 + value - 1)
+          else append(123 + value - 27)
+          shift = 0
+        }
+      }
+    }
+  }
+
+  // EDIFACT: four 6-bit values in each codeword triple
+  const decodeEdifact = () => {
+    while (i + 3 <= codewords.length) {
+      const packed = (codewords[i] << 16) | (codewords[i + 1] << 8) | codewords[i + 2]
+      for (let k = 0; k < 4; k++) {
+        const value = (packed >> (18 - 6 * k)) & 0x3f
+        if (value === 0x1f) {
+          // Unlatch: the rest of the current codeword is discarded
+          i += Math.ceil(((k + 1) * 6) / 8)
+          return
+        }
+        append(value & 0x20 ? value : value | 0x40)
+      }
+      i += 3
+    }
+  }
+
+  // Base 256 with the 255-state unrandomising algorithm
+  const decodeBase256 = () => {
+    const next = () => {
+      const pseudoRandom = ((149 * (i + 1)) % 255) + 1
+      const value = codewords[i++] - pseudoRandom
+      return value >= 0 ? value : value + 256
+    }
+    const d1 = next()
+    const length = d1 === 0 ? codewords.length - i
+      : d1 < 250 ? d1
+      : 250 * (d1 - 249) + next()
+    for (let k = 0; k < length && i < codewords.length; k++) {
+      bytes.push(next())
+    }
+  }
+
+  while (i < codewords.length) {
+    const codeword = codewords[i++]
+
+    if (codeword === 0) return null
+    if (codeword <= 128) append(codeword - 1)
+    else if (codeword === 129) break
+    else if (codeword <= 229) bytes.push(...(codeword - 130).toString().padStart(2, '0').split('').map(ch => ch.charCodeAt(0)))
+    else if (codeword === 230) decodeTriplets('C40')
+    else if (codeword === 231) decodeBase256()
+    else if (codeword === 232) {
+      // FNC1 in first position marks GS1 data, elsewhere it is the GS separator
+      if (i === 1) prefix = ']d2'
+      else bytes.push(0x1d)
+    } else if (codeword === 233) i += 3
+    else if (codeword === 234) continue
+    else if (codeword === 235) upperShift = true
+    else if (codeword === 236 || codeword === 237) {
+      prefix += `[)>\x1e${codeword === 236 ? '05' : '06'}\x1d`
+      suffix = '\x1e\x04'
+    } else if (codeword === 238) decodeTriplets('X12')
+    else if (codeword === 239) decodeTriplets('TEXT')
+    else if (codeword === 240) decodeEdifact()
+    else if (codeword === 241) {
+      const first = codewords[i++]
+      if (first > 127) i += first > 191 ? 2 : 1
+    } else {
+      return null
+    }
+  }
+
+  let text: string
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes))
+  } catch {
+    text = String.fromCharCode(...bytes)
+  }
+  return prefix + text + suffix
+}
+
+/**
+ * Dark run statistics along one side of the symbol outline
+ */
+function measureSide(
+  img: ReflectanceImage,
+  bounds: SymbolBounds,
+  side: 'top' | 'bottom' | 'left' | 'right'
+): { length: number; darkCoverage: number; edgeGrowth: number; unit: number } {
+  const horizontal = side === 'top' || side === 'bottom'
+  const inset = 1
+  const fixed = side === 'top' ? bounds.top + inset
+    : side === 'bottom' ? bounds.bottom - inset
+    : side === 'left' ? bounds.left + inset
+    : bounds.right - inset
+  const runs = horizontal
+    ? runsAlongLine(img, 'horizontal', fixed, bounds.left, bounds.right)
+    : runsAlongLine(img, 'vertical', fixed, bounds.top, bounds.bottom)
+
+  const total = runs.reduce((sum, run) => sum + run.length, 0)
+  const dark = runs.filter(run => run.dark)
+  const darkCoverage = dark.reduce((sum, run) => sum + run.length, 0) / Math.max(1, total)
+
+  // Interior runs only - the end runs are cut by the symbol outline.
+  // Medians keep damaged clock modules from skewing the module size.
+  const interior = runs.slice(1, -1)
+  const median = (values: number[]) => {
+    if (values.length === 0) return 0
+    const sorted = [...values].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)]
+  }
+  const darkLength = median(interior.filter(run => run.dark).map(run => run.length))
+  const lightLength = median(interior.filter(run => !run.dark).map(run => run.length))
+
+  return {
+    length: total,
+    darkCoverage,
+    edgeGrowth: darkLength > 0 && lightLength > 0 ? (darkLength - lightLength) / 4 : 0,
+    unit: darkLength > 0 && lightLength > 0 ? (darkLength + lightLength) / 2 : 0
+  }
+}
+
+/**
+ * Locate, sample and decode a Data Matrix ECC 200 symbol and measure its
+ * ISO 15415 parameters. Returns null when no symbol is found in the image.
+ */
+export function decodeDataMatrixSymbol(imageData: ImageData): MatrixDecodeResult | null {
+  const img = toReflectanceImage(imageData)
+  const bounds = findSymbolBounds(img)
+  if (!bounds || img.rMax - img.rMin < 5) return null
+
+  const messages: string[] = []
+  const failed = (message: string, moduleSizePx: number): MatrixDecodeResult => ({
+    barcodeType: 'DATAMATRIX',
+    data: null,
+    symbolSize: 'unknown',
+    rows: 0,
+    columns: 0,
+    moduleSizePx,
+    errorsCorrected: [],
+    parameters: {
+      symbolContrast: img.rMax - img.rMin,
+      modulation: 0,
+      axialNonuniformity: 1,
+      gridNonuniformity: 1,
+      unusedErrorCorrection: 0,
+      fixedPatternDamage: 0,
+      decode: false,
+      printGrowth: 0,
+      quietZoneCompliant: moduleSizePx > 0 && measureQuietZoneModules(img, bounds, moduleSizePx) >= DM_QUIET_ZONE_MODULES
+    },
+    messages: [...messages, message]
+  })
+
+  // The L finder is solid on two adjacent sides, the clock track alternates on the others
+  const sides = {
+    top: measureSide(img, bounds, 'top'),
+    bottom: measureSide(img, bounds, 'bottom'),
+    left: measureSide(img, bounds, 'left'),
+    right: measureSide(img, bounds, 'right')
+  }
+  type Side = keyof typeof sides
+  // Clock sides are listed horizontal first
+  const orientations: Array<{ solid: [Side, Side]; clock: [Side, Side]; rotations: number }> = [
+    { solid: ['left', 'bottom'], clock: ['top', 'right'], rotations: 0 },
+    { solid: ['top', 'left'], clock: ['bottom', 'right'], rotations: 1 },
+    { solid: ['right', 'top'], clock: ['bottom', 'left'], rotations: 2 },
+    { solid: ['bottom', 'right'], clock: ['top', 'left'], rotations: 3 }
+  ]
+  const score = (o: typeof orientations[number]) =>
+    sides[o.solid[0]].darkCoverage + sides[o.solid[1]].darkCoverage -
+    sides[o.clock[0]].darkCoverage - sides[o.clock[1]].darkCoverage
+  const orientation = orientations.reduce((best, o) => (score(o) > score(best) ? o : best))
+  if (orientation.solid.some(side => sides[side].darkCoverage < 0.75) ||
+      orientation.clock.some(side => sides[side].unit === 0)) {
+    return failed('L-shaped finder pattern not found', 0)
+  }
+
+  // Module count from the clock track pitch, snapped to the nearest ECC 200 size
+  const horizontalClock = sides[orientation.clock[0]]
+  const verticalClock = sides[orientation.clock[1]]
+  const edgeGrowthPx = (horizontalClock.edgeGrowth + verticalClock.edgeGrowth) / 2
+  const estimatedColumns = (horizontalClock.length - 2 * edgeGrowthPx) / horizontalClock.unit
+  const estimatedRows = (verticalClock.length - 2 * edgeGrowthPx) / verticalClock.unit
+  const rotated = orientation.rotations % 2 === 1
+  const rowsEstimate = rotated ? estimatedColumns : estimatedRows
+  const columnsEstimate = rotated ? estimatedRows : estimatedColumns
+
+  const sizeInfo = Object.values(DATA_MATRIX_SIZES).reduce((best, info) =>
+    Math.abs(info.rows - rowsEstimate) + Math.abs(info.columns - columnsEstimate) <
+    Math.abs(best.rows - rowsEstimate) + Math.abs(best.columns - columnsEstimate) ? info : best
+  )
+  const { rows, columns, size } = sizeInfo
+  const moduleSizePx = (horizontalClock.unit + verticalClock.unit) / 2
+
+  if (Math.abs(rows - rowsEstimate) > 1 || Math.abs(columns - columnsEstimate) > 1) {
+    return failed(`Clock track does not match an ECC 200 size (${rowsEstimate.toFixed(1)}x${columnsEstimate.toFixed(1)})`, moduleSizePx)
+  }
+
+  const imageRows = rotated ? columns : rows
+  const imageColumns = rotated ? rows : columns
+  let grid = sampleGrid(img, bounds, imageRows, imageColumns, edgeGrowthPx)
+  for (let i = 0; i < orientation.rotations; i++) {
+    grid = rotateGridCounterClockwise(grid)
+  }
+  const pitch = (grid.pitchX + grid.pitchY) / 2
+
+  // Strip alignment patterns into the mapping matrix
+  const layout = DATA_MATRIX_LAYOUT[size]
+  const regionsV = rows / (layout.regionRows + 2)
+  const regionsH = columns / (layout.regionColumns + 2)
+  const toSymbol = (row: number, col: number): ModulePosition => ({
+    row: Math.floor(row / layout.regionRows) * (layout.regionRows + 2) + 1 + (row % layout.regionRows),
+    col: Math.floor(col / layout.regionColumns) * (layout.regionColumns + 2) + 1 + (col % layout.regionColumns)
+  })
+
+  const totalCodewords = sizeInfo.dataCapacity + sizeInfo.errorCorrectionCapacity
+  const placement = readPlacement(
+    (row, col) => {
+      const m = toSymbol(row, col)
+      return grid.dark[m.row][m.col]
+    },
+    regionsV * layout.regionRows,
+    regionsH * layout.regionColumns,
+    totalCodewords
+  )
+  if (!placement) {
+    return failed('Codeword placement does not match the symbol size', pitch)
+  }
+  const codewordModules = placement.modules.map(list => list.map(m => toSymbol(m.row, m.col)))
+
+  // De-interleave: codeword k belongs to block k mod blocks
+  const blocks = layout.blocks
+  const blockEc = sizeInfo.errorCorrectionCapacity / blocks
+  const blockIndices: number[][] = Array.from({ length: blocks }, () => [])
+  for (let k = 0; k < sizeInfo.dataCapacity; k++) blockIndices[k % blocks].push(k)
+  for (let k = 0; k < sizeInfo.errorCorrectionCapacity; k++) {
+    blockIndices[k % blocks].push(sizeInfo.dataCapacity + k)
+  }
+
+  const quietZone = quietZoneReflectance(img, bounds, pitch, DM_QUIET_ZONE_MODULES)
+  const contrast = measureModuleContrast(grid, quietZone)
+  const corrected = [...placement.codewords]
+  const blockQuality: CodewordBlockQuality[] = []
+  const errorsCorrected: number[] = []
+  const protection = blockEc % 2
+  let decodeFailed = false
+
+  blockIndices.forEach(indices => {
+    const received = indices.map(k => placement.codewords[k])
+    const result = decodeReedSolomon(DATA_MATRIX_FIELD, received, blockEc)
+    const modulation = indices.map(k =>
+      Math.min(...codewordModules[k].map(m => contrast.moduleModulation[m.row][m.col]))
+    )
+
+    if (!result) {
+      decodeFailed = true
+      errorsCorrected.push(-1)
+      blockQuality.push({
+        codewordModulation: modulation.map(() => 0),
+        errorPositions: received.map((_, i) => i),
+        ecCodewords: blockEc,
+        misdecodeProtection: protection
+      })
+      return
+    }
+
+    errorsCorrected.push(result.errorsCorrected)
+    result.errorPositions.forEach(p => { modulation[p] = 0 })
+    indices.forEach((k, position) => { corrected[k] = result.codewords[position] })
+    blockQuality.push({
+      codewordModulation: modulation,
+      errorPositions: result.errorPositions,
+      ecCodewords: blockEc,
+      misdecodeProtection: protection
+    })
+  })
+
+  const data = decodeFailed ? null : parseDataMatrixCodewords(corrected.slice(0, sizeInfo.dataCapacity))
+  if (decodeFailed) {
+    messages.push('Reed-Solomon error correction capacity exceeded')
+  } else if (data === null) {
+    messages.push('Invalid codeword sequence')
+  }
+
+  // Clock tracks: top row and right column
+  const horizontal = measureTimingTrack(img, grid.centers[0][0], grid.centers[0][columns - 2], columns - 1)
+  const vertical = measureTimingTrack(img, grid.centers[1][columns - 1], grid.centers[rows - 1][columns - 1], rows - 1)
+  const pitchH = horizontal?.pitch ?? grid.pitchX
+  const pitchV = vertical?.pitch ?? grid.pitchY
+  const axialNonuniformity = Math.abs(pitchH - pitchV) / ((pitchH + pitchV) / 2)
+  const gridNonuniformity = Math.max(horizontal?.maxDeviation ?? 0, vertical?.maxDeviation ?? 0)
+  const tracks = [horizontal, vertical].filter((t): t is TimingTrackMeasurement => t !== null)
+  const printGrowth = tracks.length > 0
+    ? tracks.reduce((sum, t) => sum + t.darkWidthRatio, 0) / tracks.length - 1
+    : 0
+
+  // Fixed patterns: every side of every data region is a separate segment
+  const segments = new Map<string, Array<{ row: number; col: number; dark: boolean }>>()
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const expected = expectedPatternModule(row, col, layout.regionRows, layout.regionColumns)
+      if (expected === null) continue
+      const localRow = row % (layout.regionRows + 2)
+      const localCol = col % (layout.regionColumns + 2)
+      const side = localCol === 0 ? 'L' : localRow === layout.regionRows + 1 ? 'B' : localRow === 0 ? 'T' : 'R'
+      const key = `${Math.floor(row / (layout.regionRows + 2))}:${Math.floor(col / (layout.regionColumns + 2))}:${side}`
+      const segment = segments.get(key) ?? []
+      segment.push({ row, col, dark: expected })
+      segments.set(key, segment)
+    }
+  }
+  const worstSegmentDamage = Math.max(...Array.from(segments.values()).map(segment => countPatternDamage(grid, segment)))
+
+  const decoded = data !== null
+  const quietZoneModules = measureQuietZoneModules(img, bounds, pitch) + edgeGrowthPx / pitch
+
+  return {
+    barcodeType: 'DATAMATRIX',
+    data,
+    symbolSize: size,
+    rows,
+    columns,
+    moduleSizePx: pitch,
+    errorsCorrected,
+    parameters: {
+      symbolContrast: contrast.symbolContrast,
+      modulation: decoded ? calculateCodewordModulation(blockQuality) : 0,
+      axialNonuniformity,
+      gridNonuniformity,
+      unusedErrorCorrection: decoded ? calculateSymbolUnusedErrorCorrection(blockQuality) : 0,
+      fixedPatternDamage: calculateFixedPatternDamage(worstSegmentDamage),
+      decode: decoded,
+      printGrowth,
+      quietZoneCompliant: quietZoneModules >= DM_QUIET_ZONE_MODULES
+    },
+    messages
+  }
+}
@@ -11,14 +11,20 @@ import type {
   VerificationResult,
   VerificationOptions,
   ScanLineResult,
+  CharacterDecodability,
+  LinearDecodeResult,
 } from './types'
 
-import { BarcodeVerifier } from './BarcodeVerifier'
 import {
+  DATABAR_BARCODE_TYPES,
   QUIET_ZONE_REQUIREMENTS,
-  GS1_APPLICATION_IDENTIFIERS,
 } from './types'
 
+import type { DataBarVariant } from '../types/barcodeTypes'
+import { validateGs1, validateGs1DataBar } from '../lib/gs1'
+import { ADD_ON_QUIET_ZONE_MODULES, addOnModules, addOnNumberSets, validateAddOn } from '../lib/eanUpc'
+import { decodeDataBarExpanded, decodeDataBarLimited, decodeDataBarOmni } from './DataBarDecoder'
+
 // ============================================
 // GS1-128 SPECIFIC VERIFICATION
 // ============================================
@@ -39,68 +45,22 @@ export interface ParsedAI {
 }
 
 /**
- * Parse and validate GS1-128 data
+ * Parse and validate GS1-128 data with the GS1 syntax engine
+ * (AI dictionary, FNC1 placement, check digits, dates, AI pairing rules)
  */
 export function parseGS1128(data: string): GS1ValidationResult {
+  const report = validateGs1(data)
   const result: GS1ValidationResult = {
-    isValid: true,
-    applicationIdentifiers: [],
-    errors: [],
-    warnings: []
-  }
-  
-  // Remove FNC1 characters (often represented as ]C1 or GS char)
-  let cleanData = data.replace(/\]C1/g, '').replace(/\x1D/g, '')
-  
-  let position = 0
-  
-  while (position < cleanData.length) {
-    // Try to match AI (2, 3, or 4 digits)
-    let matched = false
-    
-    for (const aiDef of GS1_APPLICATION_IDENTIFIERS) {
-      if (cleanData.substring(position).startsWith(aiDef.ai)) {
-        const aiLength = aiDef.ai.length
-        const dataStart = position + aiLength
-        
-        let dataEnd: number
-        if (aiDef.isFixedLength) {
-          dataEnd = dataStart + aiDef.maxLength
-        } else {
-          // Variable length - find FNC1 or end
-          const fnc1Pos = cleanData.indexOf('\x1D', dataStart)
-          dataEnd = fnc1Pos > 0 ? fnc1Pos : cleanData.length
-        }
-        
-        const value = cleanData.substring(dataStart, Math.min(dataEnd, cleanData.length))
-        
-        // Validate value
-        const validation = validateAIValue(aiDef.ai, value, aiDef)
-        
-        result.applicationIdentifiers.push({
-          ai: aiDef.ai,
-          name: aiDef.name,
-          value,
-          isValid: validation.isValid,
-          error: validation.error
-        })
-        
-        if (!validation.isValid) {
-          result.isValid = false
-          result.errors.push(`AI (${aiDef.ai}) ${aiDef.name}: ${validation.error}`)
-        }
-        
-        position = dataEnd
-        matched = true
-        break
-      }
-    }
-    
-    if (!matched) {
-      result.isValid = false
-      result.errors.push(`Unknown AI at position ${position}: ${cleanData.substring(position, position + 4)}`)
-      break
-    }
+    isValid: report.valid,
+    applicationIdentifiers: report.elements.map(element => ({
+      ai: element.ai,
+      name: element.title,
+      value: element.value,
+      isValid: element.valid,
+      error: report.issues.find(i => i.ai === element.ai && i.severity === 'error')?.message
+    })),
+    errors: report.issues.filter(i => i.severity === 'error').map(i => i.message),
+    warnings: report.issues.filter(i => i.severity === 'warning').map(i => i.message)
   }
   
   // Check for required AIs in certain contexts
@@ -109,55 +69,6 @@ export function parseGS1128(data: string): GS1ValidationResult {
   return result
 }
 
-/**
- * Validate AI value
- */
-function validateAIValue(
-  ai: string,
-  value: string,
-  definition: { format: string; minLength: number; maxLength: number }
-): { isValid: boolean; error?: string } {
-  // Check length
-  if (value.length < definition.minLength) {
-    return { isValid: false, error: `Value too short (min ${definition.minLength})` }
-  }
-  if (value.length > definition.maxLength) {
-    return { isValid: false, error: `Value too long (max ${definition.maxLength})` }
-  }
-  
-  // Check format
-  if (definition.format.startsWith('N')) {
-    // Numeric only
-    if (!/^\d+$/.test(value)) {
-      return { isValid: false, error: 'Must be numeric' }
-    }
-  }
-  
-  // Specific validations
-  switch (ai) {
-    case '01': // GTIN
-      if (!validateGTIN(value)) {
-        return { isValid: false, error: 'Invalid GTIN check digit' }
-      }
-      break
-    case '00': // SSCC
-      if (!validateSSCC(value)) {
-        return { isValid: false, error: 'Invalid SSCC check digit' }
-      }
-      break
-    case '11':
-    case '13':
-    case '15':
-    case '17': // Dates
-      if (!validateDate(value)) {
-        return { isValid: false, error: 'Invalid date format (YYMMDD)' }
-      }
-      break
-  }
-  
-  return { isValid: true }
-}
-
 /**
  * Validate GTIN check digit
  */
@@ -212,7 +123,7 @@ export function validateDate(date: string): boolean {
 }
 
 /**
- * Check for required AIs
+ * Recommended AI combinations (mandatory pairings are checked by the engine)
  */
 function checkRequiredAIs(result: GS1ValidationResult): void {
   const ais = result.applicationIdentifiers.map(a => a.ai)
@@ -224,11 +135,6 @@ function checkRequiredAIs(result: GS1ValidationResult): void {
       result.warnings.push('GTIN present but no batch/lot (10) or serial (21) number')
     }
   }
-  
-  // If serial is present, GTIN should be present
-  if (ais.includes('21') && !ais.includes('01')) {
-    result.warnings.push('Serial number (21) present without GTIN (01)')
-  }
 }
 
 // ============================================
@@ -297,6 +203,24 @@ export function verifyUPCAStructure(data: string): { isValid: boolean; errors: s
   return { isValid: true, errors: [] }
 }
 
+/**
+ * Verify UPC-E structure (8 digits, checked through its UPC-A equivalent)
+ */
+export function verifyUPCEStructure(data: string): { isValid: boolean; errors: string[] } {
+  if (!/^[01]\d{7}$/.test(data)) {
+    return { isValid: false, errors: ['UPC-E must be 8 digits with number system 0 or 1'] }
+  }
+  return verifyUPCAStructure(expandUPCE(data))
+}
+
+/**
+ * Verify an EAN-2/EAN-5 add-on
+ */
+export function verifyAddOnStructure(addOn: string): { isValid: boolean; errors: string[] } {
+  const errors = validateAddOn(addOn).filter(i => i.severity === 'error').map(i => i.message)
+  return { isValid: errors.length === 0, errors }
+}
+
 /**
  * Verify ITF-14 structure
  */
@@ -328,6 +252,612 @@ export function verifyITF14Structure(data: string): { isValid: boolean; errors:
   return { isValid: errors.length === 0, errors }
 }
 
+// ============================================
+// GS1 DATABAR SPECIFIC VERIFICATION
+// ============================================
+
+/**
+ * Check if the barcode type is a GS1 DataBar variant
+ */
+export function isDataBarType(barcodeType: LinearBarcodeType): boolean {
+  return Object.values(DATABAR_BARCODE_TYPES).includes(barcodeType)
+}
+
+/**
+ * Verify GS1 DataBar structure. Omnidirectional, Stacked and Limited carry
+ * a GTIN (01) only, Expanded data is checked with the GS1 syntax engine.
+ */
+export function verifyDataBarStructure(
+  data: string,
+  barcodeType: LinearBarcodeType
+): { isValid: boolean; errors: string[] } {
+  const variant = (Object.keys(DATABAR_BARCODE_TYPES) as DataBarVariant[])
+    .find(v => DATABAR_BARCODE_TYPES[v] === barcodeType)
+  if (!variant) {
+    return { isValid: false, errors: [`${barcodeType} is not a GS1 DataBar symbology`] }
+  }
+
+  const report = validateGs1DataBar(data, variant)
+  const errors = report.issues.filter(i => i.severity === 'error').map(i => i.message)
+  return { isValid: errors.length === 0, errors }
+}
+
+// ============================================
+// REFERENCE DECODE ALGORITHMS
+// ============================================
+
+/** Code 128 symbol character patterns (bar/space widths in modules, by value) */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '233111'
+]
+
+const CODE128_START_A = 103
+const CODE128_START_C = 105
+const CODE128_STOP = 106
+
+/** EAN/UPC number set A digit patterns (space-bar-space-bar widths) */
+const EAN_SET_A = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112']
+
+/** EAN-13 leading digit encoded by the number set pattern of the left half */
+const EAN13_PARITY = ['AAAAAA', 'AABABB', 'AABBAB', 'AABBBA', 'ABAABB', 'ABBAAB', 'ABBBAA', 'ABABAB', 'ABABBA', 'ABBABA']
+
+/** UPC-E check digit encoded by the number set pattern (number system 0) */
+const UPCE_PARITY = ['BBBAAA', 'BBABAA', 'BBAABA', 'BBAAAB', 'BABBAA', 'BAABBA', 'BAAABB', 'BABABA', 'BABAAB', 'BAABAB']
+
+/** Interleaved 2 of 5 digit patterns (n = narrow, w = wide) */
+const ITF_PATTERNS = ['nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw', 'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn']
+
+interface PatternCandidate {
+  value: number
+  numberSet: 'A' | 'B' | 'C'
+  widths: number[]
+}
+
+interface DecodedSymbol {
+  data: string
+  characters: CharacterDecodability[]
+  /** GS1 DataBar linkage flag */
+  linked?: boolean
+  /** Gap before the EAN-2/EAN-5 add-on, in modules */
+  addOnGapModules?: number
+}
+
+type SymbolDecoder = (widths: number[], start: number) => DecodedSymbol | null
+
+/**
+ * Edge-to-similar-edge key (sums of adjacent element pairs)
+ */
+function similarEdgeKey(widths: number[]): string {
+  const distances: number[] = []
+  for (let i = 0; i < widths.length - 2; i++) {
+    distances.push(widths[i] + widths[i + 1])
+  }
+  return distances.join(',')
+}
+
+function buildPatternTable(candidates: PatternCandidate[]): Map<string, PatternCandidate[]> {
+  const table = new Map<string, PatternCandidate[]>()
+  for (const candidate of candidates) {
+    const key = similarEdgeKey(candidate.widths)
+    table.set(key, [...(table.get(key) ?? []), candidate])
+  }
+  return table
+}
+
+const toWidths = (pattern: string) => pattern.split('').map(Number)
+
+const CODE128_TABLE = buildPatternTable(
+  CODE128_PATTERNS.map((pattern, value) => ({ value, numberSet: 'A', widths: toWidths(pattern) }))
+)
+
+// Sets A and C share widths (C is the mirror of B), set B is set A reversed
+const EAN_LEFT_TABLE = buildPatternTable([
+  ...EAN_SET_A.map((pattern, value): PatternCandidate => ({ value, numberSet: 'A', widths: toWidths(pattern) })),
+  ...EAN_SET_A.map((pattern, value): PatternCandidate => ({ value, numberSet: 'B', widths: toWidths(pattern).reverse() }))
+])
+
+const EAN_RIGHT_TABLE = buildPatternTable(
+  EAN_SET_A.map((pattern, value): PatternCandidate => ({ value, numberSet: 'C', widths: toWidths(pattern) }))
+)
+
+/**
+ * Decode one (n, k) character with the edge-to-similar-edge reference
+ * decode algorithm. Decodability is the smallest margin between a measured
+ * distance and its reference threshold, relative to half a module.
+ */
+function decodeSimilarEdgeCharacter(
+  widths: number[],
+  modules: number,
+  table: Map<string, PatternCandidate[]>,
+  barGain = 0,
+  darkFirst = true
+): { candidate: PatternCandidate; decodability: number } | null {
+  const total = widths.reduce((a, b) => a + b, 0)
+  if (total <= 0) return null
+
+  const normalized = widths.map(w => (w * modules) / total)
+  const distances: number[] = []
+  let decodability = 1
+  for (let i = 0; i < normalized.length - 2; i++) {
+    const distance = normalized[i] + normalized[i + 1]
+    const rounded = Math.round(distance)
+    distances.push(rounded)
+    decodability = Math.min(decodability, 1 - 2 * Math.abs(distance - rounded))
+  }
+
+  const candidates = table.get(distances.join(','))
+  if (!candidates) return null
+
+  // Characters sharing distances (EAN 1/7, 2/8) are resolved by element
+  // widths, corrected for the bar gain measured on the guard pattern
+  const corrected = normalized.map((w, i) => ((i % 2 === 0) === darkFirst ? w - barGain / 2 : w + barGain / 2))
+  let best = candidates[0]
+  let bestError = Infinity
+  for (const candidate of candidates) {
+    const error = candidate.widths.reduce((sum, w, i) => sum + Math.abs(w - corrected[i]), 0)
+    if (error < bestError) {
+      best = candidate
+      bestError = error
+    }
+  }
+
+  return { candidate: best, decodability: Math.max(0, decodability) }
+}
+
+/**
+ * Decode one two-width character (Interleaved 2 of 5)
+ */
+function decodeTwoWidthCharacter(widths: number[]): { value: number; decodability: number } | null {
+  const order = widths.map((_, i) => i).sort((a, b) => widths[b] - widths[a])
+  const wide = new Set(order.slice(0, 2))
+  const pattern = widths.map((_, i) => (wide.has(i) ? 'w' : 'n')).join('')
+  const value = ITF_PATTERNS.indexOf(pattern)
+  if (value < 0) return null
+
+  const wideWidths = widths.filter((_, i) => wide.has(i))
+  const narrowWidths = widths.filter((_, i) => !wide.has(i))
+  const wideAvg = wideWidths.reduce((a, b) => a + b, 0) / wideWidths.length
+  const narrowAvg = narrowWidths.reduce((a, b) => a + b, 0) / narrowWidths.length
+  if (wideAvg < narrowAvg * 1.5) return null
+
+  const threshold = (wideAvg + narrowAvg) / 2
+  const margin = Math.min(threshold - Math.max(...narrowWidths), Math.min(...wideWidths) - threshold)
+  return { value, decodability: Math.max(0, margin / ((wideAvg - narrowAvg) / 2)) }
+}
+
+/**
+ * Check that guard bars and spaces are single modules. Returns the bar
+ * width gain (print growth, in modules) measured on the guards, or null
+ * when the guard pattern does not match.
+ */
+function measureGuards(
+  widths: number[],
+  start: number,
+  elements: number,
+  modules: number,
+  guards: Array<[number, number]>
+): number | null {
+  const total = widths.slice(start, start + elements).reduce((a, b) => a + b, 0)
+  const moduleWidth = total / modules
+  const bars: number[] = []
+  const spaces: number[] = []
+
+  for (const [from, count] of guards) {
+    for (let i = from; i < from + count; i++) {
+      const width = widths[start + i]
+      if (width < moduleWidth * 0.25 || width > moduleWidth * 2) return null
+      if (i % 2 === 0) {
+        bars.push(width / moduleWidth)
+      } else {
+        spaces.push(width / moduleWidth)
+      }
+    }
+  }
+
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+  return average(bars) - average(spaces)
+}
+
+/**
+ * Decode a run of EAN/UPC digits
+ */
+function decodeEANDigits(
+  widths: number[],
+  start: number,
+  count: number,
+  table: Map<string, PatternCandidate[]>,
+  barGain: number
+): { digits: string; numberSets: string; characters: CharacterDecodability[] } | null {
+  // Left-hand characters start with a space, right-hand ones with a bar
+  const darkFirst = table === EAN_RIGHT_TABLE
+  let digits = ''
+  let numberSets = ''
+  const characters: CharacterDecodability[] = []
+  for (let i = 0; i < count; i++) {
+    const match = decodeSimilarEdgeCharacter(widths.slice(start + i * 4, start + i * 4 + 4), 7, table, barGain, darkFirst)
+    if (!match) return null
+    digits += match.candidate.value
+    numberSets += match.candidate.numberSet
+    characters.push({ position: i, character: String(match.candidate.value), decodability: match.decodability })
+  }
+  return { digits, numberSets, characters }
+}
+
+function renumber(characters: CharacterDecodability[]): CharacterDecodability[] {
+  return characters.map((c, position) => ({ ...c, position }))
+}
+
+const decodeEAN13: SymbolDecoder = (widths, start) => {
+  if (start + 59 > widths.length) return null
+  const barGain = measureGuards(widths, start, 59, 95, [[0, 3], [27, 5], [56, 3]])
+  if (barGain === null) return null
+
+  const left = decodeEANDigits(widths, start + 3, 6, EAN_LEFT_TABLE, barGain)
+  const right = left && decodeEANDigits(widths, start + 32, 6, EAN_RIGHT_TABLE, barGain)
+  if (!left || !right) return null
+
+  const leading = EAN13_PARITY.indexOf(left.numberSets)
+  if (leading < 0) return null
+
+  const data = `${leading}${left.digits}${right.digits}`
+  if (!verifyEAN13Structure(data).isValid) return null
+  return { data, characters: renumber([...left.characters, ...right.characters]) }
+}
+
+const decodeUPCA: SymbolDecoder = (widths, start) => {
+  const ean = decodeEAN13(widths, start)
+  if (!ean || !ean.data.startsWith('0')) return null
+  return { data: ean.data.slice(1), characters: ean.characters }
+}
+
+const decodeEAN8: SymbolDecoder = (widths, start) => {
+  if (start + 43 > widths.length) return null
+  const barGain = measureGuards(widths, start, 43, 67, [[0, 3], [19, 5], [40, 3]])
+  if (barGain === null) return null
+
+  const left = decodeEANDigits(widths, start + 3, 4, EAN_LEFT_TABLE, barGain)
+  const right = left && decodeEANDigits(widths, start + 24, 4, EAN_RIGHT_TABLE, barGain)
+  if (!left || !right || left.numberSets !== 'AAAA') return null
+
+  const data = left.digits + right.digits
+  if (!validateGTIN(data)) return null
+  return { data, characters: renumber([...left.characters, ...right.characters]) }
+}
+
+const decodeUPCE: SymbolDecoder = (widths, start) => {
+  if (start + 33 > widths.length) return null
+  const barGain = measureGuards(widths, start, 33, 51, [[0, 3], [27, 6]])
+  if (barGain === null) return null
+
+  const digits = decodeEANDigits(widths, start + 3, 6, EAN_LEFT_TABLE, barGain)
+  if (!digits) return null
+
+  // Number system 1 inverts the number set pattern
+  for (const numberSystem of [0, 1]) {
+    const pattern = numberSystem === 0
+      ? digits.numberSets
+      : digits.numberSets.replace(/[AB]/g, c => (c === 'A' ? 'B' : 'A'))
+    const checkDigit = UPCE_PARITY.indexOf(pattern)
+    if (checkDigit < 0) continue
+
+    const data = `${numberSystem}${digits.digits}${checkDigit}`
+    if (!verifyUPCAStructure(expandUPCE(data)).isValid) return null
+    return { data, characters: digits.characters }
+  }
+  return null
+}
+
+/** Gaps searched for an add-on (the specified 7-12X range with print tolerance) */
+const ADD_ON_GAP_SEARCH = { min: 5, max: 15 }
+
+/**
+ * Decode an EAN-2/EAN-5 add-on: start guard 1011, then digits of number
+ * set A or B separated by 01 delineators. The number set pattern is the
+ * add-on check (value mod 4 for EAN-2, weighted sum for EAN-5).
+ */
+function decodeAddOn(widths: number[], start: number): DecodedSymbol | null {
+  for (const length of [5, 2]) {
+    const elements = 3 + length * 4 + (length - 1) * 2
+    if (start + elements > widths.length) continue
+
+    const modules = addOnModules(length)
+    const moduleWidth = widths.slice(start, start + elements).reduce((a, b) => a + b, 0) / modules
+    const delineators = Array.from({ length: length - 1 }, (_, i): [number, number] => [7 + i * 6, 2])
+    const barGain = measureGuards(widths, start, elements, modules, [[0, 2], ...delineators])
+    const guardBar = widths[start + 2] / moduleWidth
+    if (barGain === null || guardBar < 1.4 || guardBar > 3) continue
+
+    // The add-on ends with its right quiet zone (or the end of the scan)
+    const trailing = widths[start + elements]
+    if (trailing !== undefined && trailing < moduleWidth * ADD_ON_QUIET_ZONE_MODULES * 0.8) continue
+
+    let data = ''
+    let numberSets = ''
+    const characters: CharacterDecodability[] = []
+    for (let i = 0; i < length; i++) {
+      const offset = start + 3 + i * 6
+      const match = decodeSimilarEdgeCharacter(widths.slice(offset, offset + 4), 7, EAN_LEFT_TABLE, barGain, false)
+      if (!match) break
+      data += match.candidate.value
+      numberSets += match.candidate.numberSet
+      characters.push({ position: i, character: `+${match.candidate.value}`, decodability: match.decodability })
+    }
+    if (data.length === length && addOnNumberSets(data) === numberSets) {
+      return { data, characters }
+    }
+  }
+  return null
+}
+
+/**
+ * EAN/UPC decoder followed by an optional add-on. The add-on is appended
+ * to the data after a space, the way it is entered for bwip-js.
+ */
+function withAddOn(decoder: SymbolDecoder, elements: number, modules: number): SymbolDecoder {
+  return (widths, start) => {
+    const symbol = decoder(widths, start)
+    if (!symbol || start + elements >= widths.length) return symbol
+
+    const moduleWidth = widths.slice(start, start + elements).reduce((a, b) => a + b, 0) / modules
+    const gapModules = widths[start + elements] / moduleWidth
+    if (gapModules < ADD_ON_GAP_SEARCH.min || gapModules > ADD_ON_GAP_SEARCH.max) return symbol
+
+    const addOn = decodeAddOn(widths, start + elements + 1)
+    if (!addOn) return symbol
+    return {
+      data: `${symbol.data} ${addOn.data}`,
+      characters: renumber([...symbol.characters, ...addOn.characters]),
+      addOnGapModules: gapModules
+    }
+  }
+}
+
+/**
+ * Expand an 8-digit UPC-E to its 12-digit UPC-A equivalent
+ */
+function expandUPCE(upce: string): string {
+  const d = upce.slice(1, 7)
+  const last = d[5]
+  let body: string
+  if (last <= '2') {
+    body = d.slice(0, 2) + last + '0000' + d.slice(2, 5)
+  } else if (last === '3') {
+    body = d.slice(0, 3) + '00000' + d.slice(3, 5)
+  } else if (last === '4') {
+    body = d.slice(0, 4) + '00000' + d[4]
+  } else {
+    body = d.slice(0, 5) + '0000' + last
+  }
+  return upce[0] + body + upce[7]
+}
+
+function code128CharacterName(value: number, position: number, isCheck: boolean): string {
+  if (isCheck) return 'CHECK'
+  if (value === CODE128_STOP) return 'STOP'
+  if (position === 0) return `START ${'ABC'[value - CODE128_START_A]}`
+  return String(value)
+}
+
+/**
+ * Interpret Code 128 codeword values (start character first, no check)
+ */
+function interpretCode128(values: number[]): string {
+  let codeSet = 'ABC'[values[0] - CODE128_START_A]
+  let shifted = false
+  let fnc4Pending = false
+  let fnc4Latched = false
+  let previousFnc4 = false
+  let gs1 = false
+  let data = ''
+
+  for (let i = 1; i < values.length; i++) {
+    const value = values[i]
+    const current = shifted ? (codeSet === 'A' ? 'B' : 'A') : codeSet
+    shifted = false
+    const isFnc4 = (current === 'A' && value === 101) || (current === 'B' && value === 100)
+
+    if (value === 102) {
+      // FNC1 in first position marks GS1-128, later ones separate fields
+      if (i === 1) {
+        gs1 = true
+      } else {
+        data += '\x1D'
+      }
+    } else if (current === 'C') {
+      if (value < 100) {
+        data += String(value).padStart(2, '0')
+      } else {
+        codeSet = value === 100 ? 'B' : 'A'
+      }
+    } else if (value < 96) {
+      let code = current === 'A' ? (value < 64 ? value + 32 : value - 64) : value + 32
+      if (fnc4Pending !== fnc4Latched) code += 128
+      fnc4Pending = false
+      data += String.fromCharCode(code)
+    } else if (isFnc4) {
+      // Two consecutive FNC4 latch extended ASCII
+      if (previousFnc4) {
+        fnc4Latched = !fnc4Latched
+        fnc4Pending = false
+      } else {
+        fnc4Pending = true
+      }
+    } else if (value === 98) {
+      shifted = true
+    } else if (value === 99) {
+      codeSet = 'C'
+    } else if (value === 100) {
+      codeSet = 'B'
+    } else if (value === 101) {
+      codeSet = 'A'
+    }
+    previousFnc4 = isFnc4 && !previousFnc4
+  }
+
+  return gs1 ? `]C1${data}` : data
+}
+
+const decodeCode128: SymbolDecoder = (widths, start) => {
+  const values: number[] = []
+  const characters: CharacterDecodability[] = []
+
+  for (let i = start; i + 6 <= widths.length; i += 6) {
+    const match = decodeSimilarEdgeCharacter(widths.slice(i, i + 6), 11, CODE128_TABLE)
+    if (!match) return null
+
+    const value = match.candidate.value
+    if (values.length === 0 && (value < CODE128_START_A || value > CODE128_START_C)) return null
+
+    characters.push({
+      position: characters.length,
+      character: code128CharacterName(value, characters.length, false),
+      decodability: match.decodability
+    })
+
+    if (value === CODE128_STOP) {
+      // Stop character ends with a 2-module termination bar
+      if (i + 6 >= widths.length || values.length < 2) return null
+
+      const check = values.pop() as number
+      const sum = values.reduce((acc, v, k) => acc + (k === 0 ? v : v * k), 0)
+      if (sum % 103 !== check) return null
+
+      characters[characters.length - 2].character = 'CHECK'
+      return { data: interpretCode128(values), characters }
+    }
+    values.push(value)
+  }
+  return null
+}
+
+const decodeGS1128: SymbolDecoder = (widths, start) => {
+  const symbol = decodeCode128(widths, start)
+  return symbol && symbol.data.startsWith(']C1') ? symbol : null
+}
+
+const decodeITF14: SymbolDecoder = (widths, start) => {
+  if (start + 77 > widths.length) return null
+
+  // Stop pattern: wide bar, narrow space, narrow bar
+  const [stopBar, , stopEnd] = widths.slice(start + 74, start + 77)
+  if (stopBar < stopEnd * 1.5) return null
+
+  let data = ''
+  const characters: CharacterDecodability[] = []
+  for (let pair = 0; pair < 7; pair++) {
+    const base = start + 4 + pair * 10
+    const elements = widths.slice(base, base + 10)
+    const bars = decodeTwoWidthCharacter(elements.filter((_, i) => i % 2 === 0))
+    const spaces = decodeTwoWidthCharacter(elements.filter((_, i) => i % 2 === 1))
+    if (!bars || !spaces) return null
+
+    for (const digit of [bars, spaces]) {
+      characters.push({ position: characters.length, character: String(digit.value), decodability: digit.decodability })
+      data += digit.value
+    }
+  }
+
+  // Start pattern: four narrow elements
+  if (Math.max(widths[start], widths[start + 2]) > stopBar * 0.75) return null
+
+  return validateGTIN(data) ? { data, characters } : null
+}
+
+const LINEAR_DECODERS: Partial<Record<LinearBarcodeType, SymbolDecoder>> = {
+  'EAN13': withAddOn(decodeEAN13, 59, 95),
+  'EAN8': decodeEAN8,
+  'UPCA': withAddOn(decodeUPCA, 59, 95),
+  'UPCE': withAddOn(decodeUPCE, 33, 51),
+  'CODE128': decodeCode128,
+  'GS1128': decodeGS1128,
+  'ITF14': decodeITF14,
+  // Stacked variants split the symbol over rows, a single scan line cannot decode them
+  'GS1DATABAR': decodeDataBarOmni,
+  'GS1DATABAR_LIMITED': decodeDataBarLimited,
+  'GS1DATABAR_EXPANDED': decodeDataBarExpanded
+}
+
+/**
+ * Check if a reference decode algorithm is available for the symbology
+ */
+export function hasReferenceDecoder(barcodeType: LinearBarcodeType): boolean {
+  return barcodeType in LINEAR_DECODERS
+}
+
+/**
+ * Measure bar/space widths along a reflectance profile. Edges are placed
+ * where the profile crosses the global threshold (interpolated to sub-pixel).
+ * The first element returned is always a bar.
+ */
+export function measureElementWidths(profile: number[]): number[] {
+  if (profile.length < 2) return []
+
+  const threshold = (Math.min(...profile) + Math.max(...profile)) / 2
+  const edges: number[] = []
+  for (let i = 1; i < profile.length; i++) {
+    const prev = profile[i - 1]
+    const cur = profile[i]
+    if ((prev < threshold) !== (cur < threshold)) {
+      edges.push(i - 1 + (threshold - prev) / (cur - prev))
+    }
+  }
+
+  // Drop a leading dark→light edge (symbol touching the image border)
+  if (profile[0] < threshold) edges.shift()
+
+  const widths: number[] = []
+  for (let i = 1; i < edges.length; i++) {
+    widths.push(edges[i] - edges[i - 1])
+  }
+  return widths
+}
+
+/**
+ * Decode one scan reflectance profile with the symbology reference decode
+ * algorithm. The symbol is searched in both directions; returns null when
+ * no valid symbol is found.
+ */
+export function decodeLinearScanLine(
+  profile: number[],
+  barcodeType: LinearBarcodeType
+): LinearDecodeResult | null {
+  const decoder = LINEAR_DECODERS[barcodeType]
+  if (!decoder) return null
+
+  const forward = measureElementWidths(profile)
+  const backward = [...forward].reverse()
+  // A scan ending on a space would start the reversed list with a space
+  if (forward.length % 2 === 0) backward.shift()
+
+  for (const [widths, reversed] of [[forward, false], [backward, true]] as const) {
+    for (let start = 0; start < widths.length; start += 2) {
+      const symbol = decoder(widths, start)
+      if (symbol) {
+        return {
+          barcodeType,
+          data: symbol.data,
+          characters: symbol.characters,
+          decodability: Math.min(...symbol.characters.map(c => c.decodability)),
+          reversed,
+          linked: symbol.linked,
+          addOnGapModules: symbol.addOnGapModules
+        }
+      }
+    }
+  }
+  return null
+}
+
 // ============================================
 // DIMENSIONAL VERIFICATION
 // ============================================
@@ -362,7 +892,11 @@ export function checkDimensionalCompliance(
     'CODE93': { min: 0.191, max: 1.270, nominal: 0.330 },
     'CODABAR': { min: 0.191, max: 1.270, nominal: 0.330 },
     'GS1128': { min: 0.250, max: 1.016, nominal: 0.495 },
-    'GS1DATABAR': { min: 0.264, max: 0.660, nominal: 0.330 }
+    'GS1DATABAR': { min: 0.264, max: 0.660, nominal: 0.330 },
+    'GS1DATABAR_STACKED': { min: 0.264, max: 0.660, nominal: 0.330 },
+    'GS1DATABAR_LIMITED': { min: 0.264, max: 0.660, nominal: 0.330 },
+    'GS1DATABAR_EXPANDED': { min: 0.264, max: 0.660, nominal: 0.330 },
+    'GS1DATABAR_EXPANDED_STACKED': { min: 0.264, max: 0.660, nominal: 0.330 }
   }
   
   const limits = xDimLimits[barcodeType]
@@ -0,0 +1,453 @@
+/**
+ * GPCS CodeStudio - Matrix Grid Sampler
+ *
+ * Image → module grid sampling shared by the QR Code and Data Matrix decoders
+ * ISO/IEC 15415 reflectance, grid and timing track measurements
+ */
+
+// ============================================
+// REFLECTANCE IMAGE
+// ============================================
+
+/**
+ * Grayscale reflectance image (0-100 %)
+ */
+export interface ReflectanceImage {
+  width: number
+  height: number
+  values: Float32Array
+  rMin: number
+  rMax: number
+  /** Global threshold halfway between Rmin and Rmax */
+  threshold: number
+}
+
+/**
+ * Convert RGBA image data to a reflectance image
+ */
+export function toReflectanceImage(imageData: ImageData): ReflectanceImage {
+  const { width, height, data } = imageData
+  const values = new Float32Array(width * height)
+  let rMin = 100
+  let rMax = 0
+
+  for (let i = 0, p = 0; p < values.length; i += 4, p++) {
+    // Transparent pixels are treated as white substrate
+    const alpha = data[i + 3] / 255
+    const gray = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+    const reflectance = ((gray * alpha + 255 * (1 - alpha)) / 255) * 100
+    values[p] = reflectance
+    if (reflectance < rMin) rMin = reflectance
+    if (reflectance > rMax) rMax = reflectance
+  }
+
+  return { width, height, values, rMin, rMax, threshold: (rMin + rMax) / 2 }
+}
+
+/**
+ * Reflectance at pixel (clamped to image)
+ */
+export function reflectanceAt(img: ReflectanceImage, x: number, y: number): number {
+  const px = Math.min(img.width - 1, Math.max(0, Math.round(x)))
+  const py = Math.min(img.height - 1, Math.max(0, Math.round(y)))
+  return img.values[py * img.width + px]
+}
+
+/**
+ * Mean reflectance of a square synthetic aperture centred on (x, y)
+ */
+export function apertureReflectance(
+  img: ReflectanceImage,
+  x: number,
+  y: number,
+  radiusPx: number
+): number {
+  const r = Math.max(0, Math.floor(radiusPx))
+  let sum = 0
+  let count = 0
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      sum += reflectanceAt(img, x + dx, y + dy)
+      count++
+    }
+  }
+  return sum / count
+}
+
+// ============================================
+// SYMBOL LOCATION
+// ============================================
+
+/**
+ * Pixel bounds of the dark symbol area (inclusive)
+ */
+export interface SymbolBounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * Find the bounding box of all dark pixels
+ */
+export function findSymbolBounds(img: ReflectanceImage): SymbolBounds | null {
+  let left = img.width
+  let top = img.height
+  let right = -1
+  let bottom = -1
+
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      if (img.values[y * img.width + x] < img.threshold) {
+        if (x < left) left = x
+        if (x > right) right = x
+        if (y < top) top = y
+        if (y > bottom) bottom = y
+      }
+    }
+  }
+
+  if (right < 0) return null
+  return { left, top, right, bottom }
+}
+
+/**
+ * Run of equal colour along a scan line
+ */
+export interface PixelRun {
+  dark: boolean
+  start: number
+  length: number
+}
+
+/**
+ * Dark/light runs along a horizontal or vertical pixel line
+ */
+export function runsAlongLine(
+  img: ReflectanceImage,
+  axis: 'horizontal' | 'vertical',
+  fixed: number,
+  from: number,
+  to: number
+): PixelRun[] {
+  const runs: PixelRun[] = []
+  const step = to >= from ? 1 : -1
+
+  for (let p = from; step > 0 ? p <= to : p >= to; p += step) {
+    const value = axis === 'horizontal'
+      ? reflectanceAt(img, p, fixed)
+      : reflectanceAt(img, fixed, p)
+    const dark = value < img.threshold
+    const last = runs[runs.length - 1]
+    if (last && last.dark === dark) {
+      last.length++
+    } else {
+      runs.push({ dark, start: p, length: 1 })
+    }
+  }
+
+  return runs
+}
+
+// ============================================
+// GRID SAMPLING
+// ============================================
+
+/**
+ * Sampled module grid (row-major, row 0 = top)
+ */
+export interface SampledGrid {
+  rows: number
+  cols: number
+  /** Aperture reflectance of each module */
+  reflectance: number[][]
+  /** Binarised module colour */
+  dark: boolean[][]
+  /** Pixel centre of each module */
+  centers: Array<Array<{ x: number; y: number }>>
+  /** Module pitch in pixels (image axes) */
+  pitchX: number
+  pitchY: number
+}
+
+/**
+ * Sample an axis-aligned module grid inside the symbol bounds.
+ * `edgeGrowthPx` is the print growth per edge that widens the dark outline
+ * beyond the nominal symbol boundary.
+ */
+export function sampleGrid(
+  img: ReflectanceImage,
+  bounds: SymbolBounds,
+  rows: number,
+  cols: number,
+  edgeGrowthPx: number = 0
+): SampledGrid {
+  const left = bounds.left + edgeGrowthPx
+  const top = bounds.top + edgeGrowthPx
+  const pitchX = (bounds.right - bounds.left + 1 - 2 * edgeGrowthPx) / cols
+  const pitchY = (bounds.bottom - bounds.top + 1 - 2 * edgeGrowthPx) / rows
+  const radius = Math.min(pitchX, pitchY) * 0.25
+
+  const reflectance: number[][] = []
+  const dark: boolean[][] = []
+  const centers: Array<Array<{ x: number; y: number }>> = []
+
+  for (let r = 0; r < rows; r++) {
+    const reflRow: number[] = []
+    const darkRow: boolean[] = []
+    const centerRow: Array<{ x: number; y: number }> = []
+    for (let c = 0; c < cols; c++) {
+      const x = left + (c + 0.5) * pitchX - 0.5
+      const y = top + (r + 0.5) * pitchY - 0.5
+      const value = apertureReflectance(img, x, y, radius)
+      reflRow.push(value)
+      darkRow.push(value < img.threshold)
+      centerRow.push({ x, y })
+    }
+    reflectance.push(reflRow)
+    dark.push(darkRow)
+    centers.push(centerRow)
+  }
+
+  return { rows, cols, reflectance, dark, centers, pitchX, pitchY }
+}
+
+function rotateMatrix<T>(matrix: T[][]): T[][] {
+  const rows = matrix.length
+  const cols = rows > 0 ? matrix[0].length : 0
+  const result: T[][] = []
+  for (let r = 0; r < cols; r++) {
+    const row: T[] = []
+    for (let c = 0; c < rows; c++) {
+      row.push(matrix[c][cols - 1 - r])
+    }
+    result.push(row)
+  }
+  return result
+}
+
+/**
+ * Rotate a sampled grid 90° counter-clockwise (module centres follow the modules)
+ */
+export function rotateGridCounterClockwise(grid: SampledGrid): SampledGrid {
+  return {
+    rows: grid.cols,
+    cols: grid.rows,
+    reflectance: rotateMatrix(grid.reflectance),
+    dark: rotateMatrix(grid.dark),
+    centers: rotateMatrix(grid.centers),
+    pitchX: grid.pitchX,
+    pitchY: grid.pitchY
+  }
+}
+
+// ============================================
+// MODULE CONTRAST
+// ============================================
+
+/**
+ * ISO 15415 reflectance measurements of a sampled grid
+ */
+export interface ModuleContrast {
+  rMax: number
+  rMin: number
+  /** Symbol Contrast in % (Rmax - Rmin) */
+  symbolContrast: number
+  /** Global threshold (Rmax + Rmin) / 2 */
+  globalThreshold: number
+  /** Modulation of each module: 2 * |R - GT| / SC */
+  moduleModulation: number[][]
+}
+
+/**
+ * Measure symbol contrast and per-module modulation (quiet zone included in Rmax)
+ */
+export function measureModuleContrast(
+  grid: SampledGrid,
+  quietZone: number | null
+): ModuleContrast {
+  const samples = grid.reflectance.flat()
+  if (quietZone !== null) samples.push(quietZone)
+
+  const rMax = Math.max(...samples)
+  const rMin = Math.min(...samples)
+  const symbolContrast = rMax - rMin
+  const globalThreshold = (rMax + rMin) / 2
+
+  const moduleModulation = grid.reflectance.map(row => row.map(r =>
+    symbolContrast > 0 ? Math.min(1, (2 * Math.abs(r - globalThreshold)) / symbolContrast) : 0
+  ))
+
+  return { rMax, rMin, symbolContrast, globalThreshold, moduleModulation }
+}
+
+/**
+ * Number of modules in a fixed pattern segment that do not have the expected colour
+ */
+export function countPatternDamage(
+  grid: SampledGrid,
+  modules: Array<{ row: number; col: number; dark: boolean }>
+): number {
+  return modules.filter(m => grid.dark[m.row]?.[m.col] !== m.dark).length
+}
+
+// ============================================
+// TIMING TRACK MEASUREMENT
+// ============================================
+
+/**
+ * Pitch/position measurement along an alternating timing or clock track
+ */
+export interface TimingTrackMeasurement {
+  /** Image axis the track runs along */
+  axis: 'horizontal' | 'vertical'
+  /** Measured module pitch in pixels (least-squares fit of dark module centres) */
+  pitch: number
+  /** Largest module centre deviation from the fitted grid, in modules */
+  maxDeviation: number
+  /** Mean width of dark modules divided by the pitch */
+  darkWidthRatio: number
+  /** Number of dark modules found */
+  darkModules: number
+}
+
+/**
+ * Measure dark module positions along a track of alternating modules.
+ * `from` and `to` are the centres of the first and last track module,
+ * both dark; centres are used instead of edges so print growth does not
+ * show up as grid deviation.
+ */
+export function measureTimingTrack(
+  img: ReflectanceImage,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  modules: number
+): TimingTrackMeasurement | null {
+  const horizontal = Math.abs(to.x - from.x) >= Math.abs(to.y - from.y)
+  const axis = horizontal ? 'horizontal' : 'vertical'
+  const start = horizontal ? from.x : from.y
+  const end = horizontal ? to.x : to.y
+  const fixed = horizontal ? (from.y + to.y) / 2 : (from.x + to.x) / 2
+  const nominalPitch = Math.abs(end - start) / Math.max(1, modules - 1)
+  const spread = Math.max(0, Math.floor(nominalPitch * 0.2))
+
+  // Extend by one module so the outer edges of the end modules are included
+  const lo = Math.floor(Math.min(start, end) - nominalPitch)
+  const hi = Math.ceil(Math.max(start, end) + nominalPitch)
+  if (hi - lo < 2) return null
+
+  // Profile averaged across the track width
+  const profile: number[] = []
+  for (let p = lo; p <= hi; p++) {
+    let sum = 0
+    let count = 0
+    for (let d = -spread; d <= spread; d++) {
+      sum += horizontal ? reflectanceAt(img, p, fixed + d) : reflectanceAt(img, fixed + d, p)
+      count++
+    }
+    profile.push(sum / count)
+  }
+
+  // Dark runs with sub-pixel threshold crossings
+  const runs: Array<{ center: number; width: number }> = []
+  let runStart: number | null = null
+  for (let i = 1; i < profile.length; i++) {
+    const a = profile[i - 1] - img.threshold
+    const b = profile[i] - img.threshold
+    if ((a < 0) === (b < 0)) continue
+    const position = lo + i - 1 + a / (a - b)
+    if (b < 0) {
+      runStart = position
+    } else if (runStart !== null) {
+      const center = (runStart + position) / 2
+      if (center >= Math.min(start, end) - nominalPitch / 2 && center <= Math.max(start, end) + nominalPitch / 2) {
+        runs.push({ center, width: position - runStart })
+      }
+      runStart = null
+    }
+  }
+
+  if (runs.length < 2) return null
+
+  // Least-squares fit: centre k = offset + k * (2 * pitch)
+  const n = runs.length
+  let sumK = 0
+  let sumP = 0
+  let sumKK = 0
+  let sumKP = 0
+  runs.forEach((run, k) => {
+    sumK += k
+    sumP += run.center
+    sumKK += k * k
+    sumKP += k * run.center
+  })
+  const denom = n * sumKK - sumK * sumK
+  const slope = denom !== 0 ? (n * sumKP - sumK * sumP) / denom : 2 * nominalPitch
+  const offset = (sumP - slope * sumK) / n
+  const pitch = Math.abs(slope) / 2
+  if (pitch === 0) return null
+
+  let maxDeviation = 0
+  runs.forEach((run, k) => {
+    maxDeviation = Math.max(maxDeviation, Math.abs(run.center - (offset + k * slope)) / pitch)
+  })
+
+  const darkWidthRatio = runs.reduce((sum, run) => sum + run.width, 0) / n / pitch
+
+  return { axis, pitch, maxDeviation, darkWidthRatio, darkModules: n }
+}
+
+// ============================================
+// QUIET ZONE
+// ============================================
+
+/**
+ * Smallest light margin around the symbol, in modules
+ */
+export function measureQuietZoneModules(
+  img: ReflectanceImage,
+  bounds: SymbolBounds,
+  pitch: number
+): number {
+  // findSymbolBounds guarantees there are no dark pixels outside the bounds,
+  // so the margin is limited by the image edge. The symbol edge lies inside
+  // the first dark pixel (half a pixel on average).
+  const margins = [
+    bounds.left,
+    bounds.top,
+    img.width - 1 - bounds.right,
+    img.height - 1 - bounds.bottom
+  ].map(margin => margin + 0.5)
+  return Math.min(...margins) / pitch
+}
+
+/**
+ * Mean reflectance of the quiet zone ring (up to `modules` wide)
+ */
+export function quietZoneReflectance(
+  img: ReflectanceImage,
+  bounds: SymbolBounds,
+  pitch: number,
+  modules: number
+): number | null {
+  const margin = Math.round(pitch * modules)
+  const x0 = Math.max(0, bounds.left - margin)
+  const y0 = Math.max(0, bounds.top - margin)
+  const x1 = Math.min(img.width - 1, bounds.right + margin)
+  const y1 = Math.min(img.height - 1, bounds.bottom + margin)
+
+  let sum = 0
+  let count = 0
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const inside = x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom
+      if (!inside) {
+        sum += img.values[y * img.width + x]
+        count++
+      }
+    }
+  }
+
+  return count > 0 ? sum / count : null
+}
@@ -0,0 +1,342 @@
+/**
+ * GPCS CodeStudio - Print Simulator
+ *
+ * What-if simulation of dot gain, bar width reduction and edge blur on a
+ * rendered symbol. Every simulated print is re-verified so the grade curve
+ * shows which BWR keeps the symbol in spec on press.
+ */
+
+import type {
+  PrintGainParameters,
+  PressGainModel,
+  PrintSimulationOptions,
+  PrintSimulationResult,
+  PrintSimulationStep,
+} from './types'
+
+import type { PrintProcess, PrintingProfile } from '../config/printingProfiles'
+
+import { BarcodeVerifier } from './BarcodeVerifier'
+import { isPassingGrade } from './QualityGrading'
+
+// ============================================
+// PRESS MODELS
+// ============================================
+
+/** Typical edge blur per printing process (Gaussian sigma in mm) */
+const PROCESS_BLUR_MM: Record<PrintProcess, number> = {
+  'FLEXO_UV': 0.020,
+  'FLEXO_WATER': 0.030,
+  'FLEXO_SOLVENT': 0.025,
+  'OFFSET_SHEET': 0.010,
+  'OFFSET_WEB': 0.012,
+  'OFFSET_UV': 0.010,
+  'DIGITAL_INDIGO': 0.010,
+  'DIGITAL_INKJET_UV': 0.020,
+  'DIGITAL_INKJET_WATER': 0.030,
+  'DIGITAL_TONER': 0.015,
+  'THERMAL_DIRECT': 0.030,
+  'THERMAL_TRANSFER': 0.020,
+  'GRAVURE': 0.020,
+  'SCREEN': 0.040
+}
+
+/**
+ * Press gain model of a printing profile. The recommended BWR of a profile
+ * compensates its typical gain, the simulated range runs to twice the
+ * largest BWR the profile allows.
+ */
+export function pressModelForProfile(profile: PrintingProfile): PressGainModel {
+  return {
+    expectedGainMm: profile.recommended.barWidthReductionMm,
+    maxGainMm: Math.max(profile.limits.bwrMmMax * 2, profile.recommended.barWidthReductionMm * 2, 0.02),
+    blurMm: PROCESS_BLUR_MM[profile.process] ?? 0.02
+  }
+}
+
+/**
+ * Evenly spaced gain steps from 0 to maxGainMm
+ */
+export function gainSteps(maxGainMm: number, count: number): number[] {
+  if (count <= 1) return [maxGainMm]
+  return Array.from({ length: count }, (_, i) => Math.round((maxGainMm * i / (count - 1)) * 10000) / 10000)
+}
+
+// ============================================
+// IMAGE SIMULATION
+// ============================================
+
+/** Squared distance of pixels without any feature pixel */
+const NO_FEATURE = 1e20
+
+/**
+ * Squared Euclidean distance transform of one row/column
+ * (Felzenszwalb & Huttenlocher lower envelope of parabolas)
+ */
+function distanceTransform1D(f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array): void {
+  let k = 0
+  v[0] = 0
+  z[0] = -Infinity
+  z[1] = Infinity
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    while (s <= z[k]) {
+      k--
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k])
+    }
+    k++
+    v[k] = q
+    z[k] = s
+    z[k + 1] = Infinity
+  }
+
+  k = 0
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]]
+  }
+}
+
+/**
+ * Distance (px) from every pixel to the nearest pixel of the feature set
+ */
+function distanceToFeature(feature: Uint8Array, width: number, height: number): Float64Array {
+  const size = Math.max(width, height)
+  const f = new Float64Array(size)
+  const d = new Float64Array(size)
+  const v = new Int32Array(size)
+  const z = new Float64Array(size + 1)
+  const grid = new Float64Array(width * height)
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = feature[y * width + x] ? 0 : NO_FEATURE
+    distanceTransform1D(f, height, d, v, z)
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y]
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x]
+    distanceTransform1D(f, width, d, v, z)
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(d[x])
+  }
+
+  return grid
+}
+
+/**
+ * Separable Gaussian blur of a coverage map
+ */
+function gaussianBlur(values: Float64Array, width: number, height: number, sigma: number): Float64Array {
+  if (sigma < 0.1) return values
+
+  const radius = Math.ceil(sigma * 3)
+  const kernel: number[] = []
+  let sum = 0
+  for (let i = -radius; i <= radius; i++) {
+    const weight = Math.exp(-(i * i) / (2 * sigma * sigma))
+    kernel.push(weight)
+    sum += weight
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum
+
+  const horizontal = new Float64Array(values.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0
+      for (let i = -radius; i <= radius; i++) {
+        const sx = Math.min(width - 1, Math.max(0, x + i))
+        acc += values[y * width + sx] * kernel[i + radius]
+      }
+      horizontal[y * width + x] = acc
+    }
+  }
+
+  const result = new Float64Array(values.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0
+      for (let i = -radius; i <= radius; i++) {
+        const sy = Math.min(height - 1, Math.max(0, y + i))
+        acc += horizontal[sy * width + x] * kernel[i + radius]
+      }
+      result[y * width + x] = acc
+    }
+  }
+  return result
+}
+
+/**
+ * Simulate printing of a rendered symbol. The dark area is shrunk by the
+ * plate BWR, grown by the press gain (isotropic, anti-aliased edges) and
+ * blurred. Paper and ink reflectance of the source image are kept.
+ */
+export function simulatePrintGain(imageData: ImageData, params: PrintGainParameters): ImageData {
+  const { width, height, data } = imageData
+  const pixelCount = width * height
+
+  const luminance = new Float64Array(pixelCount)
+  let paper = 0
+  let ink = 255
+  for (let i = 0; i < pixelCount; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    luminance[i] = value
+    paper = Math.max(paper, value)
+    ink = Math.min(ink, value)
+  }
+
+  const threshold = (paper + ink) / 2
+  const dark = new Uint8Array(pixelCount)
+  const light = new Uint8Array(pixelCount)
+  for (let i = 0; i < pixelCount; i++) {
+    if (luminance[i] < threshold) dark[i] = 1
+    else light[i] = 1
+  }
+
+  const toDark = distanceToFeature(dark, width, height)
+  const toLight = distanceToFeature(light, width, height)
+
+  // Edge shift per side in pixels (positive = bars grow)
+  const edgeShift = ((params.gainMm - params.bwrMm) / 2) * params.pixelsPerMm
+
+  const coverage = new Float64Array(pixelCount)
+  for (let i = 0; i < pixelCount; i++) {
+    // Signed distance from the pixel center to the original edge
+    const signed = dark[i] ? -(toLight[i] - 0.5) : toDark[i] - 0.5
+    coverage[i] = Math.min(1, Math.max(0, edgeShift - signed + 0.5))
+  }
+
+  const blurred = gaussianBlur(coverage, width, height, params.blurMm * params.pixelsPerMm)
+
+  const output = new Uint8ClampedArray(data.length)
+  for (let i = 0; i < pixelCount; i++) {
+    const value = paper - blurred[i] * (paper - ink)
+    output[i * 4] = value
+    output[i * 4 + 1] = value
+    output[i * 4 + 2] = value
+    output[i * 4 + 3] = 255
+  }
+
+  return new ImageData(output, width, height)
+}
+
+// ============================================
+// GRADE SIMULATION
+// ============================================
+
+/**
+ * Verify a symbol printed with every gain step. The result shows how the
+ * grade drops as gain rises and the gain window that stays in spec.
+ */
+export async function simulatePrintGrades(
+  imageData: ImageData,
+  options: PrintSimulationOptions
+): Promise<PrintSimulationResult> {
+  const verifier = new BarcodeVerifier({
+    minimumGrade: options.minimumGrade,
+    expectedData: options.expectedData,
+    composite: options.composite
+  })
+  const pixelsPerMm = options.moduleSizePx / options.xDimensionMm
+  const steps: PrintSimulationStep[] = []
+
+  for (const gainMm of options.gainStepsMm) {
+    if (options.signal?.aborted) break
+
+    const printed = simulatePrintGain(imageData, {
+      gainMm,
+      bwrMm: options.bwrMm,
+      blurMm: options.blurMm,
+      pixelsPerMm
+    })
+    const result = await verifier.verifyFromImageData(printed, options.barcodeType, options.xDimensionMm)
+    const decodeParameter = result.parameters.find(p => p.name === 'Decode')
+
+    steps.push({
+      gainMm,
+      netGainMm: gainMm - options.bwrMm,
+      overallGrade: result.overallGrade,
+      numericGrade: result.numericGrade,
+      decoded: decodeParameter ? decodeParameter.value >= 1 : result.decodedData !== null,
+      passed: isPassingGrade(result.overallGrade, options.minimumGrade) && result.passed,
+      parameters: result.parameters
+    })
+    options.onProgress?.(steps.length, options.gainStepsMm.length)
+
+    // Yield to the UI between steps
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  const passing = steps.filter(s => s.passed).map(s => s.gainMm)
+
+  return {
+    barcodeType: options.barcodeType,
+    bwrMm: options.bwrMm,
+    blurMm: options.blurMm,
+    steps,
+    maxPassingGainMm: passing.length > 0 ? Math.max(...passing) : null,
+    minPassingGainMm: passing.length > 0 ? Math.min(...passing) : null
+  }
+}
+
+/**
+ * Simulate the same gain range for several BWR values
+ */
+export async function compareBarWidthReductions(
+  imageData: ImageData,
+  bwrCandidatesMm: number[],
+  options: Omit<PrintSimulationOptions, 'bwrMm' | 'onProgress'> & {
+    onProgress?: (done: number, total: number) => void
+  }
+): Promise<PrintSimulationResult[]> {
+  const results: PrintSimulationResult[] = []
+  const total = bwrCandidatesMm.length * options.gainStepsMm.length
+
+  for (const bwrMm of bwrCandidatesMm) {
+    if (options.signal?.aborted) break
+    const offset = results.length * options.gainStepsMm.length
+    results.push(await simulatePrintGrades(imageData, {
+      ...options,
+      bwrMm,
+      onProgress: done => options.onProgress?.(offset + done, total)
+    }))
+  }
+
+  return results
+}
+
+/**
+ * Pick the BWR that grades best at the expected press gain. Ties go to
+ * the BWR whose passing window is centred closest on the expected gain.
+ */
+export function recommendBarWidthReduction(
+  results: PrintSimulationResult[],
+  expectedGainMm: number
+): PrintSimulationResult | null {
+  const gradeAt = (result: PrintSimulationResult) => {
+    let nearest: PrintSimulationStep | null = null
+    for (const step of result.steps) {
+      if (!nearest || Math.abs(step.gainMm - expectedGainMm) < Math.abs(nearest.gainMm - expectedGainMm)) {
+        nearest = step
+      }
+    }
+    return nearest ? nearest.numericGrade : -1
+  }
+  const windowOffset = (result: PrintSimulationResult) =>
+    result.minPassingGainMm === null || result.maxPassingGainMm === null
+      ? Infinity
+      : Math.abs((result.minPassingGainMm + result.maxPassingGainMm) / 2 - expectedGainMm)
+
+  let best: PrintSimulationResult | null = null
+  for (const result of results) {
+    if (result.steps.length === 0) continue
+    if (
+      !best ||
+      gradeAt(result) > gradeAt(best) ||
+      (gradeAt(result) === gradeAt(best) && windowOffset(result) < windowOffset(best))
+    ) {
+      best = result
+    }
+  }
+  return best
+}
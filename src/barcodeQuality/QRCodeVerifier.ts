@@ -8,8 +8,33 @@
 import type {
   QualityGrade,
   ISO15415Parameters,
+  CodewordBlockQuality,
+  MatrixDecodeResult,
 } from './types'
 
+import type { ReflectanceImage, SampledGrid, TimingTrackMeasurement } from './MatrixSampler'
+
+import {
+  toReflectanceImage,
+  findSymbolBounds,
+  reflectanceAt,
+  sampleGrid,
+  rotateGridCounterClockwise,
+  measureModuleContrast,
+  countPatternDamage,
+  measureTimingTrack,
+  measureQuietZoneModules,
+  quietZoneReflectance,
+} from './MatrixSampler'
+
+import { decodeReedSolomon, QR_CODE_FIELD } from './ReedSolomon'
+
+import {
+  calculateCodewordModulation,
+  calculateSymbolUnusedErrorCorrection,
+  calculateFixedPatternDamage,
+} from './QualityGrading'
+
 // ============================================
 // QR CODE TYPES
 // ============================================
@@ -481,3 +506,625 @@ export function validateQRContent(
   
   return { isValid, detectedType, issues }
 }
+
+// ============================================
+// SYMBOL DECODING (ISO/IEC 18004)
+// ============================================
+
+const EC_LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H']
+
+/** Error correction level indicator in the format information */
+const FORMAT_EC_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+/** Error correction codewords per block, indexed by version (index 0 unused) */
+const EC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+}
+
+/** Number of error correction blocks, indexed by version (index 0 unused) */
+const EC_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+}
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:'
+
+const QR_QUIET_ZONE_MODULES = 4
+
+type ModulePosition = { row: number; col: number }
+
+/**
+ * Alignment pattern centre coordinates for a version
+ */
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const count = Math.floor(version / 7) + 2
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos)
+  }
+  return positions
+}
+
+/**
+ * Total codewords (data + error correction) of a version
+ */
+function getRawCodewords(version: number): number {
+  let modules = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2
+    modules -= (25 * count - 10) * count - 55
+    if (version >= 7) modules -= 36
+  }
+  return Math.floor(modules / 8)
+}
+
+/**
+ * 15-bit format information for an error correction level and mask
+ */
+function getFormatBits(level: ErrorCorrectionLevel, mask: number): number {
+  const data = (FORMAT_EC_BITS[level] << 3) | mask
+  let rem = data
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+  }
+  return ((data << 10) | rem) ^ 0x5412
+}
+
+/**
+ * Data mask condition (true = module is inverted)
+ */
+function isMasked(mask: number, row: number, col: number): boolean {
+  switch (mask) {
+    case 0: return (row + col) % 2 === 0
+    case 1: return row % 2 === 0
+    case 2: return col % 3 === 0
+    case 3: return (row + col) % 3 === 0
+    case 4: return (Math.floor(col / 3) + Math.floor(row / 2)) % 2 === 0
+    case 5: return (col * row) % 2 + (col * row) % 3 === 0
+    case 6: return ((col * row) % 2 + (col * row) % 3) % 2 === 0
+    default: return ((col + row) % 2 + (col * row) % 3) % 2 === 0
+  }
+}
+
+/**
+ * Modules that are not part of the data region
+ */
+function buildFunctionMap(version: number): boolean[][] {
+  const size = version * 4 + 17
+  const map = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  const mark = (row: number, col: number) => {
+    if (row >= 0 && row < size && col >= 0 && col < size) map[row][col] = true
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    mark(6, i)
+    mark(i, 6)
+  }
+
+  // Finder patterns with separators
+  for (const [cr, cc] of [[3, 3], [3, size - 4], [size - 4, 3]]) {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) mark(cr + dr, cc + dc)
+    }
+  }
+
+  // Alignment patterns
+  const positions = getAlignmentPositions(version)
+  const last = positions.length - 1
+  positions.forEach((row, i) => {
+    positions.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) mark(row + dr, col + dc)
+      }
+    })
+  })
+
+  // Format information (both copies and the dark module)
+  for (let i = 0; i <= 8; i++) {
+    mark(8, i)
+    mark(i, 8)
+  }
+  for (let i = 0; i < 8; i++) {
+    mark(8, size - 1 - i)
+    mark(size - 1 - i, 8)
+  }
+
+  // Version information
+  if (version >= 7) {
+    for (let i = 0; i < 6; i++) {
+      for (let j = size - 11; j < size - 8; j++) {
+        mark(i, j)
+        mark(j, i)
+      }
+    }
+  }
+
+  return map
+}
+
+/**
+ * Read both format information copies (bit i of each 15-bit word)
+ */
+function readFormatCopies(dark: boolean[][], size: number): [number, number] {
+  const bit = (row: number, col: number, i: number) => (dark[row][col] ? 1 : 0) << i
+  let first = 0
+  let second = 0
+
+  for (let i = 0; i <= 5; i++) first |= bit(i, 8, i)
+  first |= bit(7, 8, 6)
+  first |= bit(8, 8, 7)
+  first |= bit(8, 7, 8)
+  for (let i = 9; i < 15; i++) first |= bit(8, 14 - i, i)
+
+  for (let i = 0; i < 8; i++) second |= bit(8, size - 1 - i, i)
+  for (let i = 8; i < 15; i++) second |= bit(size - 15 + i, 8, i)
+
+  return [first, second]
+}
+
+function bitCount(value: number): number {
+  let count = 0
+  for (let v = value; v !== 0; v &= v - 1) count++
+  return count
+}
+
+/**
+ * Character count indicator length for a mode
+ */
+function countIndicatorBits(mode: number, version: number): number {
+  const group = version <= 9 ? 0 : version <= 26 ? 1 : 2
+  switch (mode) {
+    case 0x1: return [10, 12, 14][group]
+    case 0x2: return [9, 11, 13][group]
+    case 0x4: return [8, 16, 16][group]
+    case 0x8: return [8, 10, 12][group]
+    default: return 0
+  }
+}
+
+/**
+ * Decode a byte segment (UTF-8 when valid, otherwise ISO-8859-1)
+ */
+function decodeBytes(bytes: number[], encoding?: string): string {
+  const array = new Uint8Array(bytes)
+  try {
+    return new TextDecoder(encoding ?? 'utf-8', { fatal: true }).decode(array)
+  } catch {
+    return String.fromCharCode(...bytes)
+  }
+}
+
+/**
+ * Parse the data bit stream into text (GS1 data is prefixed with ]Q3)
+ */
+function parseQRBitstream(codewords: number[], version: number): string | null {
+  let position = 0
+  const totalBits = codewords.length * 8
+  const read = (bits: number): number => {
+    let value = 0
+    for (let i = 0; i < bits; i++) {
+      const byte = codewords[(position + i) >> 3]
+      value = (value << 1) | ((byte >> (7 - ((position + i) & 7))) & 1)
+    }
+    position += bits
+    return value
+  }
+
+  let text = ''
+  let gs1 = false
+  let encoding: string | undefined
+
+  while (totalBits - position >= 4) {
+    const mode = read(4)
+    if (mode === 0x0) break
+
+    if (mode === 0x5) {
+      gs1 = true
+      continue
+    }
+    if (mode === 0x9) {
+      read(8) // Application indicator
+      continue
+    }
+    if (mode === 0x3) {
+      read(16) // Structured append header
+      continue
+    }
+    if (mode === 0x7) {
+      const first = read(8)
+      const designator = (first & 0x80) === 0 ? first
+        : (first & 0xc0) === 0x80 ? ((first & 0x3f) << 8) | read(8)
+        : ((first & 0x1f) << 16) | read(16)
+      encoding = designator === 26 ? 'utf-8'
+        : designator === 20 ? 'shift_jis'
+        : designator <= 3 ? 'iso-8859-1'
+        : undefined
+      continue
+    }
+
+    const countBits = countIndicatorBits(mode, version)
+    if (countBits === 0 || totalBits - position < countBits) return null
+    let count = read(countBits)
+
+    if (mode === 0x1) {
+      while (count >= 3) {
+        const value = read(10)
+        if (value > 999) return null
+        text += value.toString().padStart(3, '0')
+        count -= 3
+      }
+      if (count === 2) {
+        const value = read(7)
+        if (value > 99) return null
+        text += value.toString().padStart(2, '0')
+      } else if (count === 1) {
+        const value = read(4)
+        if (value > 9) return null
+        text += value.toString()
+      }
+    } else if (mode === 0x2) {
+      let segment = ''
+      while (count >= 2) {
+        const value = read(11)
+        if (value >= 45 * 45) return null
+        segment += ALPHANUMERIC_CHARSET[Math.floor(value / 45)] + ALPHANUMERIC_CHARSET[value % 45]
+        count -= 2
+      }
+      if (count === 1) {
+        const value = read(6)
+        if (value >= 45) return null
+        segment += ALPHANUMERIC_CHARSET[value]
+      }
+      // In FNC1 mode "%" encodes the GS separator and "%%" a literal percent sign
+      text += gs1 ? segment.replace(/%%|%/g, m => (m === '%%' ? '%' : '\x1d')) : segment
+    } else if (mode === 0x4) {
+      if (totalBits - position < count * 8) return null
+      const bytes: number[] = []
+      for (let i = 0; i < count; i++) bytes.push(read(8))
+      text += decodeBytes(bytes, encoding)
+    } else if (mode === 0x8) {
+      const bytes: number[] = []
+      for (let i = 0; i < count; i++) {
+        const value = read(13)
+        let assembled = (Math.floor(value / 0xc0) << 8) | (value % 0xc0)
+        assembled += assembled < 0x1f00 ? 0x8140 : 0xc140
+        bytes.push(assembled >> 8, assembled & 0xff)
+      }
+      text += decodeBytes(bytes, 'shift_jis')
+    } else {
+      return null
+    }
+
+    if (position > totalBits) return null
+  }
+
+  return gs1 ? `]Q3${text}` : text
+}
+
+/**
+ * Misdecode protection codewords (ISO/IEC 18004 Table 9)
+ */
+function getMisdecodeProtection(version: number, level: ErrorCorrectionLevel): number {
+  if (version === 1) return level === 'L' ? 3 : level === 'M' ? 2 : 1
+  if (version === 2 && level === 'L') return 2
+  if (version === 3 && level === 'L') return 1
+  return 0
+}
+
+/**
+ * Finder pattern check along the diagonal from a symbol corner (1:1:3:1:1).
+ * Returns the module size and the print growth per edge in pixels.
+ */
+function measureCornerFinder(
+  img: ReflectanceImage,
+  startX: number,
+  startY: number,
+  stepX: number,
+  stepY: number,
+  maxSteps: number
+): { unit: number; edgeGrowth: number } | null {
+  const runs: number[] = []
+  let dark = true
+  let length = 0
+
+  // Print growth rounds the outer corner - skip the light corner pixels
+  let start = 0
+  const maxCornerSkip = Math.max(2, Math.floor(maxSteps / 10))
+  while (start < maxSteps && reflectanceAt(img, startX + start * stepX, startY + start * stepY) >= img.threshold) {
+    if (++start > maxCornerSkip) return null
+  }
+  length = start
+
+  for (let s = start; s < maxSteps && runs.length < 5; s++) {
+    const isDark = reflectanceAt(img, startX + s * stepX, startY + s * stepY) < img.threshold
+    if (isDark === dark) {
+      length++
+    } else {
+      runs.push(length)
+      dark = isDark
+      length = 1
+    }
+  }
+  if (runs.length < 5) return null
+
+  // Adjacent dark + light pairs (2:4:4:2) are not affected by print growth
+  const pairs = [runs[0] + runs[1], runs[1] + runs[2], runs[2] + runs[3], runs[3] + runs[4]]
+  const expected = [2, 4, 4, 2]
+  const unit = pairs.reduce((a, b) => a + b, 0) / 12
+  const matches = pairs.every((pair, i) => Math.abs(pair - expected[i] * unit) <= Math.max(1.5, expected[i] * unit * 0.35))
+  if (!matches) return null
+
+  // Light rings lose the growth of both neighbouring dark edges
+  const edgeGrowth = (unit - (runs[1] + runs[3]) / 2) / 2
+  return { unit, edgeGrowth: Math.max(-unit / 2, Math.min(unit / 2, edgeGrowth)) }
+}
+
+/**
+ * Parameters for a symbol that was found but could not be decoded
+ */
+function undecodedParameters(symbolContrast: number, quietZoneCompliant: boolean): ISO15415Parameters {
+  return {
+    symbolContrast,
+    modulation: 0,
+    axialNonuniformity: 1,
+    gridNonuniformity: 1,
+    unusedErrorCorrection: 0,
+    fixedPatternDamage: 0,
+    decode: false,
+    printGrowth: 0,
+    quietZoneCompliant
+  }
+}
+
+/**
+ * Locate, sample and decode a QR Code symbol and measure its ISO 15415 parameters.
+ * Returns null when no symbol is found in the image.
+ */
+export function decodeQRSymbol(imageData: ImageData): MatrixDecodeResult | null {
+  const img = toReflectanceImage(imageData)
+  const bounds = findSymbolBounds(img)
+  if (!bounds || img.rMax - img.rMin < 5) return null
+
+  const widthPx = bounds.right - bounds.left + 1
+  const heightPx = bounds.bottom - bounds.top + 1
+  const maxSteps = Math.ceil(Math.min(widthPx, heightPx) / 2)
+  const messages: string[] = []
+
+  const failed = (message: string, moduleSizePx: number, grid?: SampledGrid): MatrixDecodeResult => {
+    const quietZone = moduleSizePx > 0 ? measureQuietZoneModules(img, bounds, moduleSizePx) : 0
+    const symbolContrast = grid
+      ? measureModuleContrast(grid, quietZoneReflectance(img, bounds, moduleSizePx, QR_QUIET_ZONE_MODULES)).symbolContrast
+      : img.rMax - img.rMin
+    return {
+      barcodeType: 'QR',
+      data: null,
+      symbolSize: grid ? `${grid.rows}x${grid.cols}` : 'unknown',
+      rows: grid?.rows ?? 0,
+      columns: grid?.cols ?? 0,
+      moduleSizePx,
+      errorsCorrected: [],
+      parameters: undecodedParameters(symbolContrast, quietZone >= QR_QUIET_ZONE_MODULES),
+      messages: [...messages, message]
+    }
+  }
+
+  // Finder patterns sit in three of the four corners
+  const corners = [
+    { name: 'TL', finder: measureCornerFinder(img, bounds.left, bounds.top, 1, 1, maxSteps) },
+    { name: 'TR', finder: measureCornerFinder(img, bounds.right, bounds.top, -1, 1, maxSteps) },
+    { name: 'BL', finder: measureCornerFinder(img, bounds.left, bounds.bottom, 1, -1, maxSteps) },
+    { name: 'BR', finder: measureCornerFinder(img, bounds.right, bounds.bottom, -1, -1, maxSteps) }
+  ]
+  const found = corners.flatMap(c => (c.finder ? [c.finder] : []))
+  if (found.length !== 3) {
+    return failed(`Finder patterns not found (${found.length} of 3 located)`, 0)
+  }
+
+  const moduleSizePx = found.reduce((sum, f) => sum + f.unit, 0) / found.length
+  const edgeGrowthPx = found.reduce((sum, f) => sum + f.edgeGrowth, 0) / found.length
+  const version = Math.round(((widthPx + heightPx) / 2 - 2 * edgeGrowthPx) / moduleSizePx / 4 - 17 / 4)
+  if (version < 1 || version > 40) {
+    return failed(`Symbol size does not match any QR Code version (${(widthPx / moduleSizePx).toFixed(1)} modules)`, moduleSizePx)
+  }
+  const size = version * 4 + 17
+
+  // Sample and rotate until the corner without a finder is bottom-right
+  let grid = sampleGrid(img, bounds, size, size, edgeGrowthPx)
+  const missing = corners.find(c => c.finder === null)?.name
+  const rotations = missing === 'BL' ? 1 : missing === 'TL' ? 2 : missing === 'TR' ? 3 : 0
+  for (let i = 0; i < rotations; i++) {
+    grid = rotateGridCounterClockwise(grid)
+  }
+  const pitch = (grid.pitchX + grid.pitchY) / 2
+
+  // Format information: nearest valid code word of either copy
+  const [firstCopy, secondCopy] = readFormatCopies(grid.dark, size)
+  let level: ErrorCorrectionLevel = 'L'
+  let mask = 0
+  let bestDistance = Infinity
+  for (const candidateLevel of EC_LEVELS) {
+    for (let candidateMask = 0; candidateMask < 8; candidateMask++) {
+      const bits = getFormatBits(candidateLevel, candidateMask)
+      const distance = Math.min(bitCount(bits ^ firstCopy), bitCount(bits ^ secondCopy))
+      if (distance < bestDistance) {
+        bestDistance = distance
+        level = candidateLevel
+        mask = candidateMask
+      }
+    }
+  }
+  if (bestDistance > 3) {
+    return failed('Format information could not be read', pitch, grid)
+  }
+  if (bestDistance > 0) {
+    messages.push(`Format information read with ${bestDistance} bit error(s)`)
+  }
+
+  // Read codewords in the zigzag placement order
+  const functionMap = buildFunctionMap(version)
+  const rawCodewords = getRawCodewords(version)
+  const codewords: number[] = []
+  const codewordModules: ModulePosition[][] = []
+  let currentByte = 0
+  let currentModules: ModulePosition[] = []
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    const upward = ((right + 1) & 2) === 0
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const col = right - j
+        const row = upward ? size - 1 - vert : vert
+        if (functionMap[row][col] || codewords.length >= rawCodewords) continue
+        const bit = grid.dark[row][col] !== isMasked(mask, row, col)
+        currentByte = (currentByte << 1) | (bit ? 1 : 0)
+        currentModules.push({ row, col })
+        if (currentModules.length === 8) {
+          codewords.push(currentByte)
+          codewordModules.push(currentModules)
+          currentByte = 0
+          currentModules = []
+        }
+      }
+    }
+  }
+
+  // De-interleave into error correction blocks
+  const numBlocks = EC_BLOCKS[level][version]
+  const blockEc = EC_CODEWORDS_PER_BLOCK[level][version]
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+  const blockIndices: number[][] = Array.from({ length: numBlocks }, () => [])
+
+  let index = 0
+  for (let i = 0; i <= shortBlockLength; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      // Short blocks carry one data codeword less
+      if (i === shortBlockLength - blockEc && j < numShortBlocks) continue
+      blockIndices[j].push(index++)
+    }
+  }
+
+  const contrast = measureModuleContrast(grid, quietZoneReflectance(img, bounds, pitch, QR_QUIET_ZONE_MODULES))
+  const dataCodewords: number[] = []
+  const blockQuality: CodewordBlockQuality[] = []
+  const errorsCorrected: number[] = []
+  let decodeFailed = false
+  const protection = getMisdecodeProtection(version, level)
+
+  blockIndices.forEach(indices => {
+    const received = indices.map(i => codewords[i])
+    const result = decodeReedSolomon(QR_CODE_FIELD, received, blockEc)
+    const modulation = indices.map(i =>
+      Math.min(...codewordModules[i].map(m => contrast.moduleModulation[m.row][m.col]))
+    )
+
+    if (!result) {
+      decodeFailed = true
+      errorsCorrected.push(-1)
+      blockQuality.push({
+        codewordModulation: modulation.map(() => 0),
+        errorPositions: received.map((_, i) => i),
+        ecCodewords: blockEc,
+        misdecodeProtection: protection
+      })
+      return
+    }
+
+    errorsCorrected.push(result.errorsCorrected)
+    result.errorPositions.forEach(p => { modulation[p] = 0 })
+    blockQuality.push({
+      codewordModulation: modulation,
+      errorPositions: result.errorPositions,
+      ecCodewords: blockEc,
+      misdecodeProtection: protection
+    })
+    dataCodewords.push(...result.codewords.slice(0, received.length - blockEc))
+  })
+
+  const data = decodeFailed ? null : parseQRBitstream(dataCodewords, version)
+  if (decodeFailed) {
+    messages.push('Reed-Solomon error correction capacity exceeded')
+  } else if (data === null) {
+    messages.push('Invalid data bit stream')
+  }
+
+  // Timing patterns: row 6 and column 6 between the separators
+  const horizontal = measureTimingTrack(img, grid.centers[6][8], grid.centers[6][size - 9], size - 16)
+  const vertical = measureTimingTrack(img, grid.centers[8][6], grid.centers[size - 9][6], size - 16)
+  const pitchH = horizontal?.pitch ?? grid.pitchX
+  const pitchV = vertical?.pitch ?? grid.pitchY
+  const axialNonuniformity = Math.abs(pitchH - pitchV) / ((pitchH + pitchV) / 2)
+  const gridNonuniformity = Math.max(horizontal?.maxDeviation ?? 0, vertical?.maxDeviation ?? 0)
+  const tracks = [horizontal, vertical].filter((t): t is TimingTrackMeasurement => t !== null)
+  const printGrowth = tracks.length > 0
+    ? tracks.reduce((sum, t) => sum + t.darkWidthRatio, 0) / tracks.length - 1
+    : 0
+
+  // Fixed patterns: each finder with its separator, and both timing patterns
+  const finderSegment = (originRow: number, originCol: number) => {
+    const modules: Array<{ row: number; col: number; dark: boolean }> = []
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const row = originRow + dr
+        const col = originCol + dc
+        if (row < 0 || row >= size || col < 0 || col >= size) continue
+        const distance = Math.max(Math.abs(dr), Math.abs(dc))
+        modules.push({ row, col, dark: distance !== 2 && distance !== 4 })
+      }
+    }
+    return modules
+  }
+  const timingSegment = (horizontalTrack: boolean) => {
+    const modules: Array<{ row: number; col: number; dark: boolean }> = []
+    for (let i = 8; i <= size - 9; i++) {
+      modules.push(horizontalTrack ? { row: 6, col: i, dark: i % 2 === 0 } : { row: i, col: 6, dark: i % 2 === 0 })
+    }
+    return modules
+  }
+  const segmentDamage = [
+    finderSegment(3, 3),
+    finderSegment(3, size - 4),
+    finderSegment(size - 4, 3),
+    timingSegment(true),
+    timingSegment(false)
+  ].map(segment => countPatternDamage(grid, segment))
+
+  // The quiet zone is measured from the nominal symbol edge, in timing pattern pitch
+  const timingPitch = (pitchH + pitchV) / 2
+  const quietZoneModules = measureQuietZoneModules(img, bounds, timingPitch) +
+    (tracks.length > 0 ? printGrowth / 2 : edgeGrowthPx / timingPitch)
+  const decoded = data !== null
+
+  return {
+    barcodeType: 'QR',
+    data,
+    symbolSize: `Version ${version}-${level}`,
+    rows: size,
+    columns: size,
+    moduleSizePx: pitch,
+    errorsCorrected,
+    parameters: {
+      symbolContrast: contrast.symbolContrast,
+      modulation: decoded ? calculateCodewordModulation(blockQuality) : 0,
+      axialNonuniformity,
+      gridNonuniformity,
+      unusedErrorCorrection: decoded ? calculateSymbolUnusedErrorCorrection(blockQuality) : 0,
+      fixedPatternDamage: calculateFixedPatternDamage(Math.max(...segmentDamage)),
+      decode: decoded,
+      printGrowth,
+      quietZoneCompliant: quietZoneModules >= QR_QUIET_ZONE_MODULES
+    },
+    messages
+  }
+}
@@ -10,6 +10,7 @@ import type {
   ParameterResult,
   ISO15416Parameters,
   ISO15415Parameters,
+  CodewordBlockQuality,
 } from './types'
 
 import {
@@ -294,6 +295,82 @@ export function calculateISO15415OverallGrade(params: ISO15415Parameters): Quali
   return calculateOverallGrade(grades)
 }
 
+// ============================================
+// ISO 15415 CODEWORD METRICS
+// ============================================
+
+/**
+ * Unused error correction of one block: 1 - 2t / (d - p)
+ */
+export function calculateUnusedErrorCorrection(
+  errorsCorrected: number,
+  ecCodewords: number,
+  misdecodeProtection: number = 0,
+  erasures: number = 0
+): number {
+  const capacity = ecCodewords - misdecodeProtection
+  if (capacity <= 0) return errorsCorrected + erasures === 0 ? 1 : 0
+  const uec = 1 - (2 * errorsCorrected + erasures) / capacity
+  return Math.max(0, Math.min(1, uec))
+}
+
+/**
+ * Symbol UEC - the lowest value of all error correction blocks
+ */
+export function calculateSymbolUnusedErrorCorrection(blocks: CodewordBlockQuality[]): number {
+  if (blocks.length === 0) return 0
+  return Math.min(...blocks.map(b =>
+    calculateUnusedErrorCorrection(b.errorPositions.length, b.ecCodewords, b.misdecodeProtection)
+  ))
+}
+
+/**
+ * Fixed pattern damage value from the damaged module count of the worst segment
+ * (0 modules grades A, 1 B, 2 C, 3 D, more F)
+ */
+export function calculateFixedPatternDamage(damagedModules: number): number {
+  const t = ISO15415_THRESHOLDS.fixedPatternDamage
+  const values = [1, t.B, t.C, t.D]
+  return damagedModules < values.length ? values[damagedModules] : 0
+}
+
+/**
+ * Modulation using the ISO 15415 codeword method.
+ * For each grade level, codewords below the level are treated as erasures
+ * and the level only counts if the remaining error correction still grades
+ * at that level. Returns a value that grades to the best level reached.
+ */
+export function calculateCodewordModulation(blocks: CodewordBlockQuality[]): number {
+  const levels: Array<'A' | 'B' | 'C' | 'D'> = ['A', 'B', 'C', 'D']
+  const thresholds = ISO15415_THRESHOLDS.modulation
+
+  const allModulation = blocks.flatMap(b => b.codewordModulation)
+  if (allModulation.length === 0) return 0
+  const lowest = Math.min(...allModulation)
+
+  for (const level of levels) {
+    const levelThreshold = thresholds[level]
+    const uecAtLevel = Math.min(...blocks.map(block => {
+      const erasures = block.codewordModulation.filter((mod, i) =>
+        mod < levelThreshold && !block.errorPositions.includes(i)
+      ).length
+      return calculateUnusedErrorCorrection(
+        block.errorPositions.length,
+        block.ecCodewords,
+        block.misdecodeProtection,
+        erasures
+      )
+    }))
+
+    const uecGrade = calculateGrade(uecAtLevel, ISO15415_THRESHOLDS.unusedErrorCorrection, true)
+    if (gradeToNumeric(uecGrade) >= gradeToNumeric(level)) {
+      return level === 'A' ? Math.max(levelThreshold, lowest) : levelThreshold
+    }
+  }
+
+  return Math.min(lowest, thresholds.D / 2)
+}
+
 // ============================================
 // GRADE DISPLAY UTILITIES
 // ============================================
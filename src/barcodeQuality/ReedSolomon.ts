@@ -0,0 +1,432 @@
+/**
+ * GPCS CodeStudio - Reed-Solomon Decoder
+ *
+ * GF(256) arithmetic and error correction used by the 2D symbol decoders
+ * (QR Code: x^8+x^4+x^3+x^2+1, Data Matrix ECC200: x^8+x^5+x^3+x^2+1)
+ * and GF(929) error correction of the PDF417 family
+ */
+
+// ============================================
+// GALOIS FIELD
+// ============================================
+
+/**
+ * GF(256) field defined by a primitive polynomial
+ */
+export class GaloisField256 {
+  private expTable: number[] = new Array(512)
+  private logTable: number[] = new Array(256)
+  readonly primitive: number
+  readonly generatorBase: number
+
+  constructor(primitive: number, generatorBase: number) {
+    this.primitive = primitive
+    this.generatorBase = generatorBase
+    let x = 1
+    for (let i = 0; i < 255; i++) {
+      this.expTable[i] = x
+      this.logTable[x] = i
+      x <<= 1
+      if (x >= 256) {
+        x ^= primitive
+      }
+    }
+    // Duplicate so exp(a + b) never needs a modulo
+    for (let i = 255; i < 512; i++) {
+      this.expTable[i] = this.expTable[i - 255]
+    }
+    this.logTable[0] = 0
+  }
+
+  exp(a: number): number {
+    return this.expTable[((a % 255) + 255) % 255]
+  }
+
+  log(a: number): number {
+    if (a === 0) {
+      throw new Error('log(0) is undefined in GF(256)')
+    }
+    return this.logTable[a]
+  }
+
+  multiply(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0
+    return this.expTable[this.logTable[a] + this.logTable[b]]
+  }
+
+  inverse(a: number): number {
+    if (a === 0) {
+      throw new Error('Cannot invert 0 in GF(256)')
+    }
+    return this.expTable[255 - this.logTable[a]]
+  }
+}
+
+/** QR Code field (ISO/IEC 18004) - generator roots start at alpha^0 */
+export const QR_CODE_FIELD = new GaloisField256(0x11d, 0)
+
+/** Data Matrix ECC200 field (ISO/IEC 16022) - generator roots start at alpha^1 */
+export const DATA_MATRIX_FIELD = new GaloisField256(0x12d, 1)
+
+// ============================================
+// POLYNOMIAL HELPERS (coefficients low → high degree)
+// ============================================
+
+function polyDegree(p: number[]): number {
+  for (let i = p.length - 1; i >= 0; i--) {
+    if (p[i] !== 0) return i
+  }
+  return -1
+}
+
+function polyEvaluate(field: GaloisField256, p: number[], x: number): number {
+  let result = 0
+  for (let i = p.length - 1; i >= 0; i--) {
+    result = field.multiply(result, x) ^ p[i]
+  }
+  return result
+}
+
+function polyAdd(a: number[], b: number[]): number[] {
+  const result = new Array(Math.max(a.length, b.length)).fill(0)
+  for (let i = 0; i < a.length; i++) result[i] ^= a[i]
+  for (let i = 0; i < b.length; i++) result[i] ^= b[i]
+  return result
+}
+
+function polyMultiply(field: GaloisField256, a: number[], b: number[]): number[] {
+  const result = new Array(a.length + b.length - 1).fill(0)
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === 0) continue
+    for (let j = 0; j < b.length; j++) {
+      result[i + j] ^= field.multiply(a[i], b[j])
+    }
+  }
+  return result
+}
+
+function polyScale(field: GaloisField256, p: number[], factor: number): number[] {
+  return p.map(c => field.multiply(c, factor))
+}
+
+// ============================================
+// DECODER
+// ============================================
+
+export interface ReedSolomonResult {
+  /** Corrected codewords (data + error correction) */
+  codewords: number[]
+  /** Number of codeword errors that were corrected */
+  errorsCorrected: number
+  /** Positions (indices into codewords) that were corrected */
+  errorPositions: number[]
+}
+
+/**
+ * Decode a Reed-Solomon block in place.
+ *
+ * `received` holds data codewords followed by `ecCodewords` check codewords,
+ * first codeword = highest degree coefficient. Returns null when the block
+ * holds more errors than the code can correct.
+ */
+export function decodeReedSolomon(
+  field: GaloisField256,
+  received: number[],
+  ecCodewords: number
+): ReedSolomonResult | null {
+  const n = received.length
+
+  // Syndromes S_i = R(alpha^(i + b))
+  const syndromes: number[] = []
+  let hasError = false
+  for (let i = 0; i < ecCodewords; i++) {
+    const x = field.exp(i + field.generatorBase)
+    let value = 0
+    for (let k = 0; k < n; k++) {
+      value = field.multiply(value, x) ^ received[k]
+    }
+    syndromes.push(value)
+    if (value !== 0) hasError = true
+  }
+
+  if (!hasError) {
+    return { codewords: [...received], errorsCorrected: 0, errorPositions: [] }
+  }
+
+  // Extended Euclidean algorithm on x^(2t) and S(x)
+  let rPrev: number[] = new Array(ecCodewords + 1).fill(0)
+  rPrev[ecCodewords] = 1
+  let rCur: number[] = [...syndromes]
+  let tPrev: number[] = [0]
+  let tCur: number[] = [1]
+
+  while (polyDegree(rCur) >= ecCodewords / 2) {
+    const degCur = polyDegree(rCur)
+    if (degCur < 0) return null
+
+    let remainder = [...rPrev]
+    let quotient: number[] = [0]
+    const leadInverse = field.inverse(rCur[degCur])
+
+    while (polyDegree(remainder) >= degCur) {
+      const degRem = polyDegree(remainder)
+      const shift = degRem - degCur
+      const scale = field.multiply(remainder[degRem], leadInverse)
+
+      const term = new Array(shift + 1).fill(0)
+      term[shift] = scale
+      quotient = polyAdd(quotient, term)
+      remainder = polyAdd(remainder, polyMultiply(field, rCur, term))
+    }
+
+    const tNext = polyAdd(polyMultiply(field, quotient, tCur), tPrev)
+    rPrev = rCur
+    rCur = remainder
+    tPrev = tCur
+    tCur = tNext
+  }
+
+  const sigmaZero = tCur[0]
+  if (sigmaZero === 0) return null
+
+  const sigmaInverse = field.inverse(sigmaZero)
+  const locator = polyScale(field, tCur, sigmaInverse)
+  const evaluator = polyScale(field, rCur, sigmaInverse)
+  const numErrors = polyDegree(locator)
+
+  if (numErrors < 1 || numErrors * 2 > ecCodewords) return null
+
+  // Chien search: locator roots are X_k^-1 with X_k = alpha^(degree position)
+  const errorPositions: number[] = []
+  const errorLocators: number[] = []
+  for (let degreePos = 0; degreePos < n; degreePos++) {
+    const xInverse = field.exp(-degreePos)
+    if (polyEvaluate(field, locator, xInverse) === 0) {
+      errorPositions.push(n - 1 - degreePos)
+      errorLocators.push(field.exp(degreePos))
+    }
+  }
+
+  if (errorPositions.length !== numErrors) return null
+
+  // Formal derivative of the locator
+  const derivative: number[] = []
+  for (let i = 1; i < locator.length; i++) {
+    derivative.push(i % 2 === 1 ? locator[i] : 0)
+  }
+
+  // Forney algorithm
+  const corrected = [...received]
+  for (let k = 0; k < errorPositions.length; k++) {
+    const xk = errorLocators[k]
+    const xkInverse = field.inverse(xk)
+    const numerator = polyEvaluate(field, evaluator, xkInverse)
+    const denominator = polyEvaluate(field, derivative, xkInverse)
+    if (denominator === 0) return null
+
+    let magnitude = field.multiply(numerator, field.inverse(denominator))
+    // e_k = X_k^(1 - b) * Omega(X_k^-1) / Lambda'(X_k^-1)
+    magnitude = field.multiply(magnitude, field.exp(field.log(xk) * (1 - field.generatorBase)))
+    corrected[errorPositions[k]] ^= magnitude
+  }
+
+  return {
+    codewords: corrected,
+    errorsCorrected: numErrors,
+    errorPositions: errorPositions.sort((a, b) => a - b)
+  }
+}
+
+/**
+ * Compute Reed-Solomon check codewords (used for self-tests and simulations)
+ */
+export function encodeReedSolomon(
+  field: GaloisField256,
+  data: number[],
+  ecCodewords: number
+): number[] {
+  // Generator g(x) = prod (x - alpha^(i + b)), coefficients high → low degree
+  let generator = [1]
+  for (let i = 0; i < ecCodewords; i++) {
+    const root = field.exp(i + field.generatorBase)
+    const next = new Array(generator.length + 1).fill(0)
+    for (let j = 0; j < generator.length; j++) {
+      next[j] ^= generator[j]
+      next[j + 1] ^= field.multiply(generator[j], root)
+    }
+    generator = next
+  }
+
+  const remainder = new Array(ecCodewords).fill(0)
+  for (const codeword of data) {
+    const factor = codeword ^ remainder[0]
+    remainder.shift()
+    remainder.push(0)
+    for (let j = 0; j < ecCodewords; j++) {
+      remainder[j] ^= field.multiply(generator[j + 1], factor)
+    }
+  }
+
+  return remainder
+}
+
+// ============================================
+// GF(929) - PDF417 FAMILY
+// ============================================
+
+const GF929 = 929
+
+// Powers and logarithms of the generator 3
+const GF929_EXP: number[] = []
+const GF929_LOG: number[] = new Array(GF929).fill(0)
+for (let i = 0, x = 1; i < GF929 - 1; i++) {
+  GF929_EXP[i] = x
+  GF929_LOG[x] = i
+  x = (x * 3) % GF929
+}
+
+const gf929Exp = (a: number) => GF929_EXP[((a % (GF929 - 1)) + GF929 - 1) % (GF929 - 1)]
+const gf929Add = (a: number, b: number) => (a + b) % GF929
+const gf929Subtract = (a: number, b: number) => (a - b + GF929) % GF929
+
+function gf929Multiply(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return gf929Exp(GF929_LOG[a] + GF929_LOG[b])
+}
+
+function gf929Inverse(a: number): number {
+  if (a === 0) {
+    throw new Error('Cannot invert 0 in GF(929)')
+  }
+  return gf929Exp(-GF929_LOG[a])
+}
+
+function poly929Evaluate(p: number[], x: number): number {
+  let result = 0
+  for (let i = p.length - 1; i >= 0; i--) {
+    result = gf929Add(gf929Multiply(result, x), p[i])
+  }
+  return result
+}
+
+function poly929Combine(a: number[], b: number[], sign: 1 | -1): number[] {
+  const result = new Array(Math.max(a.length, b.length)).fill(0)
+  for (let i = 0; i < a.length; i++) result[i] = a[i]
+  for (let i = 0; i < b.length; i++) {
+    result[i] = sign === 1 ? gf929Add(result[i], b[i]) : gf929Subtract(result[i], b[i])
+  }
+  return result
+}
+
+function poly929Multiply(a: number[], b: number[]): number[] {
+  const result = new Array(a.length + b.length - 1).fill(0)
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === 0) continue
+    for (let j = 0; j < b.length; j++) {
+      result[i + j] = gf929Add(result[i + j], gf929Multiply(a[i], b[j]))
+    }
+  }
+  return result
+}
+
+/**
+ * Decode a PDF417 / MicroPDF417 codeword sequence (ISO/IEC 15438 error
+ * correction: codewords mod 929, generator roots 3^1 ... 3^k). The last
+ * `ecCodewords` codewords are the check codewords. Returns null when the
+ * sequence holds more errors than the code can correct.
+ */
+export function decodeReedSolomon929(received: number[], ecCodewords: number): ReedSolomonResult | null {
+  const n = received.length
+
+  // Syndromes S_i = R(3^(i + 1))
+  const syndromes: number[] = []
+  let hasError = false
+  for (let i = 0; i < ecCodewords; i++) {
+    const x = gf929Exp(i + 1)
+    let value = 0
+    for (let k = 0; k < n; k++) {
+      value = gf929Add(gf929Multiply(value, x), received[k])
+    }
+    syndromes.push(value)
+    if (value !== 0) hasError = true
+  }
+
+  if (!hasError) {
+    return { codewords: [...received], errorsCorrected: 0, errorPositions: [] }
+  }
+
+  // Extended Euclidean algorithm on x^k and S(x)
+  let rPrev: number[] = new Array(ecCodewords + 1).fill(0)
+  rPrev[ecCodewords] = 1
+  let rCur: number[] = [...syndromes]
+  let tPrev: number[] = [0]
+  let tCur: number[] = [1]
+
+  while (polyDegree(rCur) >= ecCodewords / 2) {
+    const degCur = polyDegree(rCur)
+    if (degCur < 0) return null
+
+    let remainder = [...rPrev]
+    let quotient: number[] = [0]
+    const leadInverse = gf929Inverse(rCur[degCur])
+
+    while (polyDegree(remainder) >= degCur) {
+      const degRem = polyDegree(remainder)
+      const term = new Array(degRem - degCur + 1).fill(0)
+      term[degRem - degCur] = gf929Multiply(remainder[degRem], leadInverse)
+      quotient = poly929Combine(quotient, term, 1)
+      remainder = poly929Combine(remainder, poly929Multiply(rCur, term), -1)
+    }
+
+    const tNext = poly929Combine(tPrev, poly929Multiply(quotient, tCur), -1)
+    rPrev = rCur
+    rCur = remainder
+    tPrev = tCur
+    tCur = tNext
+  }
+
+  const sigmaZero = tCur[0]
+  if (sigmaZero === 0) return null
+
+  const sigmaInverse = gf929Inverse(sigmaZero)
+  const locator = tCur.map(c => gf929Multiply(c, sigmaInverse))
+  const evaluator = rCur.map(c => gf929Multiply(c, sigmaInverse))
+  const numErrors = polyDegree(locator)
+
+  if (numErrors < 1 || numErrors * 2 > ecCodewords) return null
+
+  // Chien search: locator roots are X_k^-1 with X_k = 3^(degree position)
+  const errorPositions: number[] = []
+  const errorLocators: number[] = []
+  for (let degreePos = 0; degreePos < n; degreePos++) {
+    if (poly929Evaluate(locator, gf929Exp(-degreePos)) === 0) {
+      errorPositions.push(n - 1 - degreePos)
+      errorLocators.push(gf929Exp(degreePos))
+    }
+  }
+
+  if (errorPositions.length !== numErrors) return null
+
+  // Formal derivative of the locator
+  const derivative: number[] = []
+  for (let i = 1; i < locator.length; i++) {
+    derivative.push(gf929Multiply(i % GF929, locator[i]))
+  }
+
+  // Forney algorithm: e_k = -Omega(X_k^-1) / Lambda'(X_k^-1)
+  const corrected = [...received]
+  for (let k = 0; k < errorPositions.length; k++) {
+    const xkInverse = gf929Inverse(errorLocators[k])
+    const denominator = poly929Evaluate(derivative, xkInverse)
+    if (denominator === 0) return null
+
+    const magnitude = gf929Multiply(poly929Evaluate(evaluator, xkInverse), gf929Inverse(denominator))
+    corrected[errorPositions[k]] = gf929Add(corrected[errorPositions[k]], magnitude)
+  }
+
+  return {
+    codewords: corrected,
+    errorsCorrected: numErrors,
+    errorPositions: errorPositions.sort((a, b) => a - b)
+  }
+}
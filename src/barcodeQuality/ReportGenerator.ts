@@ -0,0 +1,578 @@
+/**
+ * GPCS CodeStudio - Report Generator
+ *
+ * Printable ISO 15416 / ISO 15415 verification certificates
+ * in PDF, HTML, JSON and CSV format
+ */
+
+import { jsPDF } from 'jspdf'
+
+import type {
+  ReportFormat,
+  ReportOptions,
+  ReportAttachments,
+  GeneratedReport,
+  ParameterResult,
+  ScanLineResult,
+  VerificationResult,
+} from './types'
+
+import { DEFAULT_REPORT_OPTIONS } from './types'
+import { formatGrade, getGradeColor, getGradeDescription } from './QualityGrading'
+
+// ============================================
+// REPORT CONTENT
+// ============================================
+
+const MIL_TO_MM = 0.0254
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  'PDF': 'application/pdf',
+  'HTML': 'text/html',
+  'JSON': 'application/json',
+  'CSV': 'text/csv'
+}
+
+/** Pass/fail parameters graded with a threshold of 1 */
+const PASS_FAIL_PARAMETERS = ['Decode', 'Quiet Zone']
+
+/**
+ * ISO grade notation: grade / aperture (mil) / wavelength (nm),
+ * e.g. "3.5/06/670"
+ */
+export function formatISOGrade(result: VerificationResult): string {
+  const aperture = String(Math.round(result.aperture)).padStart(2, '0')
+  return `${result.numericGrade.toFixed(1)}/${aperture}/${Math.round(result.wavelength)}`
+}
+
+/**
+ * Format a measured parameter value with its unit
+ */
+export function formatParameterValue(parameter: ParameterResult): string {
+  if (PASS_FAIL_PARAMETERS.includes(parameter.name)) {
+    return parameter.value >= 1 ? 'PASS' : 'FAIL'
+  }
+  // Fractional values with a percentage unit (Unused Error Correction)
+  if (parameter.unit === '%' && parameter.threshold < 1) {
+    return `${(parameter.value * 100).toFixed(1)} %`
+  }
+  const digits = Math.abs(parameter.value) >= 10 ? 1 : 2
+  return `${parameter.value.toFixed(digits)}${parameter.unit ? ` ${parameter.unit}` : ''}`
+}
+
+/**
+ * Format a parameter threshold (minimum grade C boundary)
+ */
+function formatParameterThreshold(parameter: ParameterResult): string {
+  if (PASS_FAIL_PARAMETERS.includes(parameter.name)) return 'PASS'
+  return formatParameterValue({ ...parameter, value: parameter.threshold })
+}
+
+/**
+ * Make decoded data printable (GS1 separators are shown as <GS>)
+ */
+function displayData(data: string | null): string {
+  if (data === null) return '(not decoded)'
+  return data.replaceAll('\x1D', '<GS>')
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+function reportFileName(result: VerificationResult, format: ReportFormat, options: ReportOptions): string {
+  const stamp = formatDate(result.timestamp).replace(/[-: ]/g, '').slice(0, 12)
+  const reference = options.jobReference ? `_${options.jobReference.replace(/[^\w-]+/g, '_')}` : ''
+  return `verification_${result.barcodeType}${reference}_${stamp}.${format.toLowerCase()}`
+}
+
+/**
+ * Summary rows shared by all formats (label, value)
+ */
+function summaryRows(result: VerificationResult): [string, string][] {
+  const rows: [string, string][] = [
+    ['Symbology', result.barcodeType],
+    ['Standard', result.standard === 'ISO15416' ? 'ISO/IEC 15416' : 'ISO/IEC 15415'],
+    ['Decoded data', displayData(result.decodedData)],
+    ['Overall grade', `${formatGrade(result.overallGrade, result.numericGrade)} - ${getGradeDescription(result.overallGrade)}`],
+    ['ISO grade', formatISOGrade(result)],
+    ['Minimum grade', result.minimumGrade],
+    ['Result', result.passed ? 'PASS' : 'FAIL'],
+    ['Aperture', `${result.aperture} mil (${(result.aperture * MIL_TO_MM).toFixed(3)} mm)`],
+    ['Wavelength', `${result.wavelength} nm`],
+    ['Angle', `${result.angle}°`],
+    ['Verified', formatDate(result.timestamp)]
+  ]
+
+  if (result.matrixSymbol) {
+    const symbol = result.matrixSymbol
+    rows.push(
+      ['Symbol size', `${symbol.symbolSize} (${symbol.rows} x ${symbol.columns} modules)`],
+      ['Module size', `${symbol.moduleSizePx.toFixed(1)} px`],
+      ['Errors corrected', symbol.errorsCorrected.join(' / ') || '0']
+    )
+  }
+
+  return rows
+}
+
+function headerRows(options: ReportOptions): [string, string][] {
+  const rows: [string, string][] = []
+  if (options.companyName) rows.push(['Company', options.companyName])
+  if (options.jobReference) rows.push(['Job reference', options.jobReference])
+  if (options.operatorName) rows.push(['Operator', options.operatorName])
+  rows.push(['Report date', formatDate(new Date())])
+  return rows
+}
+
+const SCAN_LINE_HEADERS = ['Scan', 'Y', 'Decode', 'SC %', 'ECmin %', 'MOD', 'Defects', 'Decodability', 'Grade']
+
+function scanLineRow(line: ScanLineResult): string[] {
+  return [
+    String(line.lineNumber),
+    String(Math.round(line.yPosition)),
+    line.decode ? 'PASS' : 'FAIL',
+    line.symbolContrast.toFixed(1),
+    line.edgeContrast.toFixed(1),
+    line.modulation.toFixed(2),
+    line.defects.toFixed(2),
+    line.decodability.toFixed(2),
+    line.overallGrade
+  ]
+}
+
+// ============================================
+// REPORT GENERATION
+// ============================================
+
+/**
+ * Generate a verification certificate. Options not given fall back to
+ * DEFAULT_REPORT_OPTIONS; the image and reflectance profile are passed
+ * as attachments because they are not part of the verification result.
+ */
+export function generateVerificationReport(
+  result: VerificationResult,
+  options: Partial<ReportOptions> = {},
+  attachments: ReportAttachments = {}
+): GeneratedReport {
+  const resolved: ReportOptions = { ...DEFAULT_REPORT_OPTIONS, ...options }
+
+  let content: string | Blob
+  switch (resolved.format) {
+    case 'JSON':
+      content = reportToJson(result, resolved, attachments)
+      break
+    case 'CSV':
+      content = reportToCsv(result, resolved)
+      break
+    case 'HTML':
+      content = reportToHtml(result, resolved, attachments)
+      break
+    case 'PDF':
+      content = reportToPdf(result, resolved, attachments)
+      break
+  }
+
+  return {
+    format: resolved.format,
+    fileName: reportFileName(result, resolved.format, resolved),
+    mimeType: MIME_TYPES[resolved.format],
+    content
+  }
+}
+
+// ============================================
+// JSON / CSV
+// ============================================
+
+function reportToJson(result: VerificationResult, options: ReportOptions, attachments: ReportAttachments): string {
+  return JSON.stringify({
+    report: {
+      generatedAt: new Date(),
+      companyName: options.companyName ?? null,
+      operatorName: options.operatorName ?? null,
+      jobReference: options.jobReference ?? null
+    },
+    symbol: {
+      barcodeType: result.barcodeType,
+      standard: result.standard,
+      decodedData: result.decodedData,
+      matrixSymbol: result.matrixSymbol ?? null
+    },
+    grade: {
+      overall: result.overallGrade,
+      numeric: result.numericGrade,
+      iso: formatISOGrade(result),
+      minimum: result.minimumGrade,
+      passed: result.passed
+    },
+    conditions: {
+      apertureMil: result.aperture,
+      apertureMm: result.aperture * MIL_TO_MM,
+      wavelengthNm: result.wavelength,
+      angle: result.angle,
+      timestamp: result.timestamp
+    },
+    parameters: result.parameters,
+    scanLines: options.includeScanLines ? result.scanLines ?? [] : undefined,
+    reflectanceProfile: options.includeReflectanceProfile ? attachments.reflectanceProfile : undefined,
+    warnings: result.warnings,
+    recommendations: options.includeRecommendations ? result.recommendations : undefined
+  }, null, 2)
+}
+
+function reportToCsv(result: VerificationResult, options: ReportOptions): string {
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const row = (cells: (string | number)[]) => cells.map(quote).join(';')
+  const lines: string[] = []
+
+  for (const [label, value] of [...headerRows(options), ...summaryRows(result)]) {
+    lines.push(row([label, value]))
+  }
+
+  lines.push('', row(['Parameter', 'Value', 'Grade', 'Threshold', 'Description']))
+  for (const parameter of result.parameters) {
+    lines.push(row([
+      parameter.name,
+      formatParameterValue(parameter),
+      parameter.grade,
+      formatParameterThreshold(parameter),
+      parameter.description ?? ''
+    ]))
+  }
+
+  if (options.includeScanLines && result.scanLines?.length) {
+    lines.push('', row(SCAN_LINE_HEADERS))
+    for (const line of result.scanLines) {
+      lines.push(row(scanLineRow(line)))
+    }
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push('', row(['Warnings']))
+    result.warnings.forEach(w => lines.push(row([w])))
+  }
+
+  if (options.includeRecommendations && result.recommendations.length > 0) {
+    lines.push('', row(['Recommendations']))
+    result.recommendations.forEach(r => lines.push(row([r])))
+  }
+
+  return lines.join('\r\n')
+}
+
+// ============================================
+// HTML
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Reflectance profile as an inline SVG polyline
+ */
+function profileSvg(profile: number[]): string {
+  const width = 600
+  const height = 150
+  const step = profile.length > 1 ? width / (profile.length - 1) : width
+  const points = profile
+    .map((r, i) => `${(i * step).toFixed(1)},${(height - (Math.max(0, Math.min(100, r)) / 100) * height).toFixed(1)}`)
+    .join(' ')
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" preserveAspectRatio="none">` +
+    `<rect width="${width}" height="${height}" fill="#f8fafc" stroke="#cbd5e1"/>` +
+    `<polyline points="${points}" fill="none" stroke="#2563eb" stroke-width="1"/></svg>`
+}
+
+function reportToHtml(result: VerificationResult, options: ReportOptions, attachments: ReportAttachments): string {
+  const table = (rows: string[][], headers?: string[]) =>
+    '<table>' +
+    (headers ? `<tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr>` : '') +
+    rows.map(cells => `<tr>${cells.map(c => `<td>${c}</td>`).join('')}</tr>`).join('') +
+    '</table>'
+  const gradeCell = (grade: VerificationResult['overallGrade']) =>
+    `<span class="grade" style="background:${getGradeColor(grade)}">${grade}</span>`
+
+  const sections: string[] = []
+
+  sections.push(
+    '<header>' +
+    (options.companyLogo ? `<img class="logo" src="${escapeHtml(options.companyLogo)}" alt="">` : '') +
+    `<h1>Barcode Verification Certificate</h1></header>`,
+    table(headerRows(options).map(([l, v]) => [`<b>${escapeHtml(l)}</b>`, escapeHtml(v)])),
+    `<div class="result ${result.passed ? 'pass' : 'fail'}">${gradeCell(result.overallGrade)} ` +
+    `${escapeHtml(formatISOGrade(result))} &mdash; ${result.passed ? 'PASS' : 'FAIL'}</div>`,
+    table(summaryRows(result).map(([l, v]) => [`<b>${escapeHtml(l)}</b>`, escapeHtml(v)]))
+  )
+
+  if (options.includeImage && attachments.symbolImage) {
+    sections.push(`<h2>Symbol</h2><img class="symbol" src="${escapeHtml(attachments.symbolImage)}" alt="Symbol">`)
+  }
+
+  sections.push('<h2>Parameters</h2>', table(
+    result.parameters.map(p => [
+      escapeHtml(p.name),
+      escapeHtml(formatParameterValue(p)),
+      gradeCell(p.grade),
+      escapeHtml(formatParameterThreshold(p))
+    ]),
+    ['Parameter', 'Value', 'Grade', 'Threshold']
+  ))
+
+  if (options.includeScanLines && result.scanLines?.length) {
+    sections.push('<h2>Scan Lines</h2>', table(
+      result.scanLines.map(line => {
+        const cells = scanLineRow(line).map(escapeHtml)
+        cells[cells.length - 1] = gradeCell(line.overallGrade)
+        return cells
+      }),
+      SCAN_LINE_HEADERS
+    ))
+  }
+
+  if (options.includeReflectanceProfile && attachments.reflectanceProfile?.length) {
+    sections.push('<h2>Reflectance Profile</h2>', profileSvg(attachments.reflectanceProfile))
+  }
+
+  if (result.warnings.length > 0) {
+    sections.push('<h2>Warnings</h2>', `<ul>${result.warnings.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul>`)
+  }
+
+  if (options.includeRecommendations && result.recommendations.length > 0) {
+    sections.push('<h2>Recommendations</h2>', `<ul>${result.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ul>`)
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Verification ${escapeHtml(result.barcodeType)} ${escapeHtml(formatDate(result.timestamp))}</title>
+<style>
+body { font-family: Arial, Helvetica, sans-serif; color: #0f172a; max-width: 800px; margin: 24px auto; font-size: 13px; }
+header { display: flex; align-items: center; gap: 16px; }
+.logo { max-height: 48px; }
+h1 { font-size: 20px; }
+h2 { font-size: 15px; margin-top: 20px; border-bottom: 1px solid #cbd5e1; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+th, td { border: 1px solid #cbd5e1; padding: 3px 6px; text-align: left; }
+th { background: #f1f5f9; }
+.grade { display: inline-block; min-width: 18px; text-align: center; color: #fff; font-weight: bold; border-radius: 3px; }
+.result { font-size: 18px; font-weight: bold; margin: 12px 0; }
+.result.pass { color: #15803d; }
+.result.fail { color: #b91c1c; }
+.symbol { max-width: 300px; border: 1px solid #cbd5e1; }
+@media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+// ============================================
+// PDF
+// ============================================
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function reportToPdf(result: VerificationResult, options: ReportOptions, attachments: ReportAttachments): Blob {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 15
+  const contentWidth = pageWidth - margin * 2
+  let y = margin
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage()
+      y = margin
+    }
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(12)
+    y += 4
+    pdf.setFont('helvetica', 'bold')
+    pdf.setFontSize(11)
+    pdf.text(text, margin, y)
+    pdf.setDrawColor(203, 213, 225)
+    pdf.line(margin, y + 1.5, pageWidth - margin, y + 1.5)
+    y += 6
+  }
+
+  const keyValueRows = (rows: [string, string][]) => {
+    pdf.setFontSize(9)
+    for (const [label, value] of rows) {
+      const lines: string[] = pdf.splitTextToSize(value, contentWidth - 45)
+      ensureSpace(lines.length * 4.5)
+      pdf.setFont('helvetica', 'bold')
+      pdf.text(label, margin, y)
+      pdf.setFont('helvetica', 'normal')
+      pdf.text(lines, margin + 45, y)
+      y += lines.length * 4.5
+    }
+  }
+
+  const tableRows = (headers: string[], rows: string[][], widths: number[], gradeColumn: number) => {
+    const rowHeight = 5.5
+    const drawRow = (cells: string[], header: boolean) => {
+      ensureSpace(rowHeight)
+      let x = margin
+      pdf.setFont('helvetica', header ? 'bold' : 'normal')
+      cells.forEach((cell, i) => {
+        if (header) {
+          pdf.setFillColor(241, 245, 249)
+          pdf.rect(x, y - 4, widths[i], rowHeight, 'F')
+        } else if (i === gradeColumn) {
+          pdf.setFillColor(...hexToRgb(getGradeColor(cell as VerificationResult['overallGrade'])))
+          pdf.rect(x + 1, y - 3.5, 6, 4.5, 'F')
+        }
+        pdf.text(cell, x + (i === gradeColumn && !header ? 2.5 : 1.5), y)
+        x += widths[i]
+      })
+      pdf.setDrawColor(203, 213, 225)
+      pdf.line(margin, y + 1.5, margin + widths.reduce((a, b) => a + b, 0), y + 1.5)
+      y += rowHeight
+    }
+
+    pdf.setFontSize(8.5)
+    drawRow(headers, true)
+    rows.forEach(cells => drawRow(cells, false))
+  }
+
+  // Header
+  if (options.companyLogo) {
+    try {
+      const logo = pdf.getImageProperties(options.companyLogo)
+      const logoHeight = 12
+      pdf.addImage(options.companyLogo, pageWidth - margin - (logo.width / logo.height) * logoHeight, y - 4, (logo.width / logo.height) * logoHeight, logoHeight)
+    } catch {
+      // Unsupported logo format - the certificate is still valid without it
+    }
+  }
+  pdf.setFont('helvetica', 'bold')
+  pdf.setFontSize(16)
+  pdf.text('Barcode Verification Certificate', margin, y + 3)
+  y += 12
+  keyValueRows(headerRows(options))
+
+  // Result banner
+  y += 3
+  ensureSpace(14)
+  pdf.setFillColor(...hexToRgb(getGradeColor(result.overallGrade)))
+  pdf.rect(margin, y, 14, 10, 'F')
+  pdf.setTextColor(255, 255, 255)
+  pdf.setFontSize(16)
+  pdf.text(result.overallGrade, margin + 4.5, y + 7.5)
+  pdf.setTextColor(result.passed ? 21 : 185, result.passed ? 128 : 28, result.passed ? 61 : 28)
+  pdf.setFontSize(14)
+  pdf.text(`${formatISOGrade(result)}  ${result.passed ? 'PASS' : 'FAIL'}`, margin + 18, y + 7.5)
+  pdf.setTextColor(15, 23, 42)
+  y += 16
+
+  heading('Symbol')
+  keyValueRows(summaryRows(result))
+
+  if (options.includeImage && attachments.symbolImage) {
+    try {
+      const image = pdf.getImageProperties(attachments.symbolImage)
+      const width = Math.min(70, contentWidth)
+      const height = (image.height / image.width) * width
+      ensureSpace(height + 4)
+      pdf.addImage(attachments.symbolImage, margin, y, width, height)
+      y += height + 4
+    } catch {
+      // Image could not be embedded - skip it
+    }
+  }
+
+  heading('Parameters')
+  tableRows(
+    ['Parameter', 'Value', 'Grade', 'Threshold'],
+    result.parameters.map(p => [p.name, formatParameterValue(p), p.grade, formatParameterThreshold(p)]),
+    [70, 40, 20, 40],
+    2
+  )
+
+  if (options.includeScanLines && result.scanLines?.length) {
+    heading('Scan Lines')
+    tableRows(SCAN_LINE_HEADERS, result.scanLines.map(scanLineRow), [14, 14, 18, 18, 20, 18, 20, 26, 16], 8)
+  }
+
+  if (options.includeReflectanceProfile && attachments.reflectanceProfile?.length) {
+    const profile = attachments.reflectanceProfile
+    const height = 35
+    heading('Reflectance Profile')
+    ensureSpace(height + 4)
+    pdf.setDrawColor(203, 213, 225)
+    pdf.rect(margin, y, contentWidth, height)
+    pdf.setDrawColor(37, 99, 235)
+    const step = profile.length > 1 ? contentWidth / (profile.length - 1) : contentWidth
+    const toY = (r: number) => y + height - (Math.max(0, Math.min(100, r)) / 100) * height
+    for (let i = 1; i < profile.length; i++) {
+      pdf.line(margin + (i - 1) * step, toY(profile[i - 1]), margin + i * step, toY(profile[i]))
+    }
+    y += height + 4
+  }
+
+  const bulletList = (items: string[]) => {
+    pdf.setFont('helvetica', 'normal')
+    pdf.setFontSize(9)
+    for (const item of items) {
+      const lines: string[] = pdf.splitTextToSize(`- ${item}`, contentWidth)
+      ensureSpace(lines.length * 4.5)
+      pdf.text(lines, margin, y)
+      y += lines.length * 4.5
+    }
+  }
+
+  if (result.warnings.length > 0) {
+    heading('Warnings')
+    bulletList(result.warnings)
+  }
+
+  if (options.includeRecommendations && result.recommendations.length > 0) {
+    heading('Recommendations')
+    bulletList(result.recommendations)
+  }
+
+  // Page footer
+  const pages = pdf.getNumberOfPages()
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page)
+    pdf.setFont('helvetica', 'normal')
+    pdf.setFontSize(7.5)
+    pdf.setTextColor(100, 116, 139)
+    pdf.text(`GPCS CodeStudio - ${result.standard === 'ISO15416' ? 'ISO/IEC 15416' : 'ISO/IEC 15415'} verification`, margin, pageHeight - 8)
+    pdf.text(`${page} / ${pages}`, pageWidth - margin, pageHeight - 8, { align: 'right' })
+  }
+
+  return pdf.output('blob')
+}
+
+/**
+ * Download a generated report in the browser
+ */
+export function downloadReport(report: GeneratedReport): void {
+  const blob = report.content instanceof Blob
+    ? report.content
+    : new Blob([report.content], { type: `${report.mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = report.fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -16,5 +16,20 @@ export * from './LinearBarcodeVerifier'
 export * from './DataMatrixVerifier'
 export * from './QRCodeVerifier'
 
+// Print run batch verification
+export * from './BatchVerifier'
+
+// Print gain / BWR what-if simulation
+export * from './PrintSimulator'
+
+// Verification certificates
+export * from './ReportGenerator'
+
+// Symbol decoding primitives
+export * from './MatrixSampler'
+export * from './ReedSolomon'
+export * from './DataBarDecoder'
+export * from './CompositeDecoder'
+
 // Types
 export * from './types'
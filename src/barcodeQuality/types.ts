@@ -4,6 +4,8 @@
  * ISO/IEC 15416 (1D Linear) and ISO/IEC 15415 (2D Matrix) compliant types
  */
 
+import type { CompositeComponent, DataBarVariant } from '../types/barcodeTypes'
+
 // ============================================
 // QUALITY GRADES
 // ============================================
@@ -53,16 +55,32 @@ export type LinearBarcodeType =
   | 'CODABAR'
   | 'GS1128'
   | 'GS1DATABAR'
+  | 'GS1DATABAR_STACKED'
+  | 'GS1DATABAR_LIMITED'
+  | 'GS1DATABAR_EXPANDED'
+  | 'GS1DATABAR_EXPANDED_STACKED'
 
 export type MatrixBarcodeType =
   | 'DATAMATRIX'
   | 'QR'
   | 'PDF417'
+  | 'MICROPDF417'
   | 'AZTEC'
   | 'MAXICODE'
 
 export type BarcodeType = LinearBarcodeType | MatrixBarcodeType
 
+/**
+ * Verified symbology of each GS1 DataBar variant
+ */
+export const DATABAR_BARCODE_TYPES: Record<DataBarVariant, LinearBarcodeType> = {
+  'OMNIDIRECTIONAL': 'GS1DATABAR',
+  'STACKED': 'GS1DATABAR_STACKED',
+  'LIMITED': 'GS1DATABAR_LIMITED',
+  'EXPANDED': 'GS1DATABAR_EXPANDED',
+  'EXPANDED_STACKED': 'GS1DATABAR_EXPANDED_STACKED'
+}
+
 // ============================================
 // ISO 15416 - LINEAR BARCODE PARAMETERS
 // ============================================
@@ -226,6 +244,113 @@ export const ISO15415_THRESHOLDS = {
   }
 }
 
+/**
+ * Error correction block quality (ISO 15415 UEC / codeword modulation)
+ */
+export interface CodewordBlockQuality {
+  /** Modulation of each codeword in the block (lowest module MOD, 0-1) */
+  codewordModulation: number[]
+  /** Indices of codewords corrected by Reed-Solomon decoding */
+  errorPositions: number[]
+  /** Error correction codewords in the block */
+  ecCodewords: number
+  /** Codewords reserved for misdecode protection */
+  misdecodeProtection: number
+}
+
+/**
+ * Decoded 2D matrix symbol geometry
+ */
+export interface MatrixSymbolInfo {
+  /** Version / size label (e.g. "Version 2-M", "16x16") */
+  symbolSize: string
+  rows: number
+  columns: number
+  /** Measured module pitch in pixels */
+  moduleSizePx: number
+  /** Codewords corrected per error correction block */
+  errorsCorrected: number[]
+}
+
+/**
+ * Result of decoding a 2D matrix symbol from an image
+ */
+export interface MatrixDecodeResult extends MatrixSymbolInfo {
+  barcodeType: MatrixBarcodeType
+  /** Decoded payload (GS1 data prefixed with its symbology identifier) */
+  data: string | null
+  /** Measured ISO 15415 parameters */
+  parameters: ISO15415Parameters
+  /** Decoder notes (reasons for decode failure, symbol issues) */
+  messages: string[]
+}
+
+/**
+ * Reference decode result for a single symbol character (ISO 15416)
+ */
+export interface CharacterDecodability {
+  /** Position of the symbol character in the scan (0 = leftmost) */
+  position: number
+  /** Decoded character (digit, codeword value or start/stop name) */
+  character: string
+  /** Decodability margin of the character (0-1) */
+  decodability: number
+}
+
+/**
+ * Result of decoding a linear symbol from one scan reflectance profile
+ */
+export interface LinearDecodeResult {
+  barcodeType: LinearBarcodeType
+  /** Decoded data (GS1-128 data prefixed with its symbology identifier) */
+  data: string
+  /** Reference decode results for every symbol character */
+  characters: CharacterDecodability[]
+  /** Scan decodability (lowest character value) */
+  decodability: number
+  /** Symbol was read right to left */
+  reversed: boolean
+  /** GS1 DataBar linkage flag (a 2D composite component is present) */
+  linked?: boolean
+  /** Measured gap before an EAN-2/EAN-5 add-on, in modules */
+  addOnGapModules?: number
+}
+
+/**
+ * 2D component of a GS1 composite symbol (ISO/IEC 24723)
+ */
+export type CompositeComponentType = 'CC-A' | 'CC-B' | 'CC-C'
+
+/**
+ * Result of decoding the 2D component of a composite symbol
+ */
+export interface CompositeComponentDecodeResult extends MatrixSymbolInfo {
+  componentType: CompositeComponentType
+  /** GS1 element string of the component (FNC1 as GS), null if not decoded */
+  data: string | null
+  /** Measured ISO 15415 parameters */
+  parameters: ISO15415Parameters
+  /** Decoder notes (reasons for decode failure, symbol issues) */
+  messages: string[]
+  /** First pixel row below the component (top of the separator / linear symbol) */
+  bottom: number
+}
+
+/**
+ * Verification of the 2D component, attached to the result of the linear component
+ */
+export interface CompositeComponentVerification {
+  /** Component found in the image, null if none was decoded */
+  componentType: CompositeComponentType | null
+  decodedData: string | null
+  overallGrade: QualityGrade
+  numericGrade: number
+  parameters: ParameterResult[]
+  matrixSymbol?: MatrixSymbolInfo
+  /** Grade of the linear component alone */
+  linearGrade: QualityGrade
+}
+
 // ============================================
 // VERIFICATION RESULTS
 // ============================================
@@ -255,6 +380,14 @@ export interface ScanLineResult {
   defects: number
   decodability: number
   overallGrade: QualityGrade
+  /** Data decoded by the symbology reference decode algorithm */
+  decodedData?: string | null
+  /** Per-character reference decode results */
+  characters?: CharacterDecodability[]
+  /** GS1 DataBar linkage flag of the decoded symbol */
+  linked?: boolean
+  /** Measured gap before an EAN-2/EAN-5 add-on, in modules */
+  addOnGapModules?: number
 }
 
 /**
@@ -279,6 +412,12 @@ export interface VerificationResult {
   /** Scan line results (for linear) */
   scanLines?: ScanLineResult[]
   
+  /** Decoded symbol geometry (for 2D) */
+  matrixSymbol?: MatrixSymbolInfo
+  
+  /** 2D component verification (for GS1 composite symbols) */
+  compositeComponent?: CompositeComponentVerification
+  
   /** ISO standard used */
   standard: 'ISO15416' | 'ISO15415'
   
@@ -354,6 +493,12 @@ export interface VerificationOptions {
   
   /** Application identifier validation */
   validateAIs: boolean
+  
+  /** Data the symbol was generated with - a different decode fails the scan */
+  expectedData?: string
+  
+  /** GS1 composite symbol - a CC-A/B/C 2D component sits above the linear symbol */
+  composite?: boolean
 }
 
 /**
@@ -370,6 +515,201 @@ export const DEFAULT_VERIFICATION_OPTIONS: VerificationOptions = {
   validateAIs: true
 }
 
+// ============================================
+// BATCH VERIFICATION
+// ============================================
+
+/**
+ * bwip-js rendering of a symbol for verification and preview
+ */
+export interface BwipRenderOptions {
+  /** Pixels per module (default 10) */
+  scale?: number
+  /** Use the GS1 variant of a 2D symbology */
+  gs1?: boolean
+  /** Segments per row of GS1 DataBar Expanded Stacked */
+  segments?: number
+  /** Draw a GS1 composite symbol with this 2D component */
+  composite?: CompositeComponent
+  /** Quiet zone padding in modules (default from the symbology) */
+  padding?: number
+}
+
+/**
+ * Renders one print run record to an image (the same path used for export)
+ */
+export type BatchRecordRenderer = (value: string, index: number) => ImageData | Promise<ImageData>
+
+/**
+ * Record source of a print run (records are generated on demand)
+ */
+export interface BatchRecordSource {
+  count: number
+  valueAt: (index: number) => string
+}
+
+/**
+ * Batch verification options
+ */
+export interface BatchVerificationOptions {
+  barcodeType: BarcodeType
+  
+  /** Minimum grade every record must reach */
+  minimumGrade: QualityGrade
+  
+  /** Verify a systematic sample of this many records (0 = every record) */
+  sampleSize: number
+  
+  /** X dimension for aperture selection */
+  xDimensionMm?: number
+  
+  /** Records are GS1 composite symbols */
+  composite?: boolean
+  
+  /** Progress callback (records verified, records to verify) */
+  onProgress?: (verified: number, total: number) => void
+  
+  /** Stops the batch after the current record */
+  signal?: AbortSignal
+}
+
+/**
+ * Verification result of a single print run record
+ */
+export interface BatchRecordResult {
+  index: number
+  value: string
+  decodedData: string | null
+  overallGrade: QualityGrade
+  numericGrade: number
+  passed: boolean
+  /** Parameters graded below the minimum grade */
+  failedParameters: string[]
+  warnings: string[]
+}
+
+/**
+ * Aggregated batch verification statistics
+ */
+export interface BatchVerificationSummary {
+  totalRecords: number
+  verifiedRecords: number
+  passedRecords: number
+  failedRecords: number
+  gradeDistribution: Record<QualityGrade, number>
+  averageNumericGrade: number
+  minimumGrade: QualityGrade
+  startedAt: Date
+  completedAt: Date
+  /** Batch was stopped before all selected records were verified */
+  cancelled: boolean
+}
+
+/**
+ * Complete batch verification report
+ */
+export interface BatchVerificationReport {
+  barcodeType: BarcodeType
+  summary: BatchVerificationSummary
+  records: BatchRecordResult[]
+}
+
+// ============================================
+// PRINT SIMULATION
+// ============================================
+
+/**
+ * Press behaviour applied to a rendered symbol. Gain and BWR are total
+ * bar width changes (half of the value moves each edge).
+ */
+export interface PrintGainParameters {
+  /** Dot gain / ink spread on press (mm) */
+  gainMm: number
+  /** Bar width reduction applied on the plate (mm) */
+  bwrMm: number
+  /** Edge blur as Gaussian sigma (mm) */
+  blurMm: number
+  /** Image resolution */
+  pixelsPerMm: number
+}
+
+/**
+ * Press gain model derived from a printing profile
+ */
+export interface PressGainModel {
+  /** Expected dot gain on press (mm) */
+  expectedGainMm: number
+  /** Upper end of the simulated gain range (mm) */
+  maxGainMm: number
+  /** Edge blur of the process (mm) */
+  blurMm: number
+}
+
+/**
+ * Print simulation options
+ */
+export interface PrintSimulationOptions {
+  barcodeType: BarcodeType
+  
+  /** Nominal X dimension (mm) */
+  xDimensionMm: number
+  
+  /** Module size of the rendered symbol (px) */
+  moduleSizePx: number
+  
+  /** Bar width reduction applied on the plate (mm) */
+  bwrMm: number
+  
+  /** Edge blur (mm) */
+  blurMm: number
+  
+  /** Dot gain values to simulate (mm) */
+  gainStepsMm: number[]
+  
+  /** Minimum grade the printed symbol must reach */
+  minimumGrade: QualityGrade
+  
+  /** Data the symbol encodes (checked by the decode parameter) */
+  expectedData?: string
+  
+  /** Symbol is a GS1 composite */
+  composite?: boolean
+  
+  /** Progress callback (steps simulated, steps to simulate) */
+  onProgress?: (done: number, total: number) => void
+  
+  /** Stops the simulation after the current step */
+  signal?: AbortSignal
+}
+
+/**
+ * Verification result of one simulated dot gain
+ */
+export interface PrintSimulationStep {
+  gainMm: number
+  /** Gain left after the BWR compensation (mm) */
+  netGainMm: number
+  overallGrade: QualityGrade
+  numericGrade: number
+  decoded: boolean
+  passed: boolean
+  parameters: ParameterResult[]
+}
+
+/**
+ * Grade curve of a symbol over a range of dot gain
+ */
+export interface PrintSimulationResult {
+  barcodeType: BarcodeType
+  bwrMm: number
+  blurMm: number
+  steps: PrintSimulationStep[]
+  /** Highest simulated gain that still reaches the minimum grade */
+  maxPassingGainMm: number | null
+  /** Lowest simulated gain that reaches the minimum grade */
+  minPassingGainMm: number | null
+}
+
 // ============================================
 // QUIET ZONE REQUIREMENTS
 // ============================================
@@ -388,7 +728,11 @@ export const QUIET_ZONE_REQUIREMENTS: Record<LinearBarcodeType, { left: number;
   'CODE93': { left: 10, right: 10 },       // 10X each side
   'CODABAR': { left: 10, right: 10 },      // 10X each side
   'GS1128': { left: 10, right: 10 },       // 10X each side
-  'GS1DATABAR': { left: 1, right: 1 }      // 1X each side (varies by type)
+  'GS1DATABAR': { left: 1, right: 1 },                  // 1X guard space each side
+  'GS1DATABAR_STACKED': { left: 1, right: 1 },          // 1X guard space each side
+  'GS1DATABAR_LIMITED': { left: 1, right: 5 },          // 1X left, 5X right
+  'GS1DATABAR_EXPANDED': { left: 1, right: 1 },         // 1X guard space each side
+  'GS1DATABAR_EXPANDED_STACKED': { left: 1, right: 1 }  // 1X guard space each side
 }
 
 // ============================================
@@ -471,3 +815,23 @@ export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
   includeScanLines: true,
   includeRecommendations: true
 }
+
+/**
+ * Image data attached to a report (not part of the verification result)
+ */
+export interface ReportAttachments {
+  /** Symbol image as a PNG/JPEG data URL */
+  symbolImage?: string
+  /** Reflectance profile along the center scan line (0-100 %) */
+  reflectanceProfile?: number[]
+}
+
+/**
+ * Generated verification report, ready for download
+ */
+export interface GeneratedReport {
+  format: ReportFormat
+  fileName: string
+  mimeType: string
+  content: string | Blob
+}
@@ -5,13 +5,31 @@ import {
 } from '../../config/printingProfiles'
 import type {
   CodeType,
+  CompositeComponent,
+  DataBarVariant,
   Rotation,
   VdpMode,
+  VdpRandomConfig,
   PrintDirection,
 } from '../../types/barcodeTypes'
+import { PrintSimulationPanel } from '../PrintSimulationPanel/PrintSimulationPanel'
+import { VDP_SERIAL_FIELDS, formatVdpTemplateIssue, validateVdpTemplate } from '../../lib/vdp'
+import {
+  RANDOM_SERIAL_ALPHABETS,
+  createRandomSerialSeed,
+  randomSerialList,
+  randomSerialsToCsv,
+  randomSerialsToText,
+  validateRandomSerialConfig,
+} from '../../lib/randomSerial'
 
 type GraphicToolsPanelProps = {
   codeType: CodeType
+  dataBarVariant: DataBarVariant
+  dataBarSegments: number
+  composite?: CompositeComponent
+  codeValue: string
+  activeProfile: PrintingProfile | null
 
   rotation: Rotation
   setRotation: (r: Rotation) => void
@@ -47,6 +65,8 @@ type GraphicToolsPanelProps = {
   setVdpPrefix: (v: string) => void
   vdpAlphaStartChar: string
   setVdpAlphaStartChar: (v: string) => void
+  vdpRandom: VdpRandomConfig
+  setVdpRandom: (v: VdpRandomConfig) => void
 
   barHeightPx: number
   setBarHeightPx: (v: number) => void
@@ -98,6 +118,11 @@ const complianceColors: Record<string, string> = {
 export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
   const {
     codeType,
+    dataBarVariant,
+    dataBarSegments,
+    composite,
+    codeValue,
+    activeProfile,
     rotation,
     setRotation,
     printDirection,
@@ -129,6 +154,8 @@ export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
     setVdpPrefix,
     vdpAlphaStartChar,
     setVdpAlphaStartChar,
+    vdpRandom,
+    setVdpRandom,
     barHeightPx,
     setBarHeightPx,
     showHrText,
@@ -157,6 +184,33 @@ export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
   const [selectedProfile, setSelectedProfile] = useState<PrintingProfile | null>(null)
   const [showProfileDetail, setShowProfileDetail] = useState(false)
 
+  const vdpPatternIssues = validateVdpTemplate(vdpPattern, VDP_SERIAL_FIELDS)
+  const vdpRandomIssues = vdpMode === 'RANDOM' ? validateRandomSerialConfig(vdpRandom, serialStart - 1 + vdpCount) : []
+
+  const updateVdpRandom = (patch: Partial<VdpRandomConfig>) => setVdpRandom({ ...vdpRandom, ...patch })
+
+  // Zoznam čísel série (záznamy od začiatku série) pre upload do repozitára
+  const handleExportRandomSerials = (format: 'TXT' | 'CSV') => {
+    const start = Math.max(0, serialStart - 1)
+    const serials = randomSerialList(vdpRandom, start, vdpCount)
+    const content = format === 'CSV' ? randomSerialsToCsv(serials, start) : randomSerialsToText(serials)
+    const blob = new Blob([content], { type: format === 'CSV' ? 'text/csv;charset=utf-8' : 'text/plain;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `serials_${serialStart}-${serialStart + serials.length - 1}.${format.toLowerCase()}`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleExclusionsUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const values = (await file.text()).split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    updateVdpRandom({ exclusions: [...vdpRandom.exclusions.filter(Boolean), ...values] })
+    e.target.value = ''
+  }
+
   const handleNumberChange = useCallback(
     (setter: (n: number) => void) =>
       (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -433,6 +487,19 @@ export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
         </div>
       </div>
 
+      {/* Simulácia prírastku a BWR */}
+      <PrintSimulationPanel
+        codeType={codeType}
+        dataBarVariant={dataBarVariant}
+        dataBarSegments={dataBarSegments}
+        composite={composite}
+        codeValue={codeValue}
+        xDimMm={xDimMm}
+        barWidthReductionMm={barWidthReductionMm}
+        activeProfile={activeProfile}
+        onApplyBwr={setBarWidthReductionMm}
+      />
+
       {/* VDP / seriové čísla */}
       <div className="rounded-xl border border-slate-600 bg-slate-800/50 p-4">
         <div className="mb-4 flex items-center justify-between">
@@ -535,8 +602,15 @@ export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
             className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2.5 text-sm text-slate-100 outline-none focus:border-sky-500"
           />
           <p className="text-xs text-slate-500">
-            Tokeny: [SERIAL], [PREFIX], [ALPHA] podľa zvoleného VDP režimu.
+            Polia {'{SERIAL}'}, {'{PREFIX}'}, {'{ALPHA}'}, {'{INDEX}'}, {'{TODAY}'} · funkcie{' '}
+            {'{SERIAL|pad:8}'}, {'{TODAY|days:30|date:YYMMDD}'}, {'{counter:1:1:0}'},{' '}
+            {'{if PREFIX}…{else}…{end}'}. Staré tokeny [SERIAL] fungujú ďalej.
           </p>
+          {vdpPatternIssues.map(issue => (
+            <p key={issue.position + issue.message} className="text-xs text-red-400">
+              {formatVdpTemplateIssue(issue)}
+            </p>
+          ))}
         </div>
 
         <div className="mt-4 flex gap-4">
@@ -570,7 +644,139 @@ export const GraphicToolsPanel: React.FC<GraphicToolsPanelProps> = props => {
             />
             Alfa
           </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="radio"
+              value="RANDOM"
+              checked={vdpMode === 'RANDOM'}
+              onChange={() => {
+                setVdpMode('RANDOM')
+                if (!vdpRandom.seed) updateVdpRandom({ seed: createRandomSerialSeed() })
+              }}
+              className="h-4 w-4"
+            />
+            Náhodné
+          </label>
         </div>
+
+        {vdpMode === 'RANDOM' && (
+          <div className="mt-4 space-y-3 rounded-lg border border-slate-600 bg-slate-900/50 p-3">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-300">
+                Semienko (seed)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={vdpRandom.seed}
+                  onChange={e => updateVdpRandom({ seed: e.target.value })}
+                  className="flex-1 rounded-lg border border-slate-600 bg-slate-900 px-3 py-2.5 font-mono text-xs text-slate-100 outline-none focus:border-sky-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateVdpRandom({ seed: createRandomSerialSeed() })}
+                  className="rounded-lg bg-slate-700 px-3 text-xs text-slate-200 hover:bg-slate-600"
+                >
+                  Nové
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">
+                Rovnaké semienko, abeceda, dĺžka a vylúčenia dajú vždy rovnakú sériu – záznam N sa dá
+                kedykoľvek dotlačiť. Semienko uchovajte ako tajomstvo.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <label className="block text-sm font-medium text-slate-300">
+                  Abeceda
+                </label>
+                <input
+                  type="text"
+                  value={vdpRandom.alphabet}
+                  onChange={e => updateVdpRandom({ alphabet: e.target.value })}
+                  className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2.5 font-mono text-xs text-slate-100 outline-none focus:border-sky-500"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {RANDOM_SERIAL_ALPHABETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      type="button"
+                      onClick={() => updateVdpRandom({ alphabet: preset.chars })}
+                      className={`rounded px-2 py-0.5 text-[11px] ${
+                        vdpRandom.alphabet === preset.chars
+                          ? 'bg-sky-600 text-white'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-300">
+                  Dĺžka
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={vdpRandom.length}
+                  onChange={handleNumberChange(length => updateVdpRandom({ length }))}
+                  className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2.5 text-sm text-slate-100 outline-none focus:border-sky-500"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-slate-300">
+                  Vylúčené hodnoty ({vdpRandom.exclusions.filter(Boolean).length})
+                </label>
+                <label className="cursor-pointer text-xs text-sky-400 hover:text-sky-300">
+                  Načítať zo súboru
+                  <input type="file" accept=".txt,.csv" onChange={handleExclusionsUpload} className="hidden" />
+                </label>
+              </div>
+              <textarea
+                value={vdpRandom.exclusions.join('\n')}
+                onChange={e => updateVdpRandom({ exclusions: e.target.value.split('\n') })}
+                rows={3}
+                placeholder="jedna hodnota na riadok"
+                className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 font-mono text-xs text-slate-100 outline-none focus:border-sky-500"
+              />
+            </div>
+
+            {vdpRandomIssues.map(issue => (
+              <p
+                key={issue.message}
+                className={`text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-300'}`}
+              >
+                {issue.message}
+              </p>
+            ))}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleExportRandomSerials('TXT')}
+                disabled={vdpRandomIssues.some(issue => issue.severity === 'error')}
+                className="rounded-lg bg-slate-700 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+              >
+                Export zoznamu (TXT)
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExportRandomSerials('CSV')}
+                disabled={vdpRandomIssues.some(issue => issue.severity === 'error')}
+                className="rounded-lg bg-slate-700 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+              >
+                Export zoznamu (CSV)
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Grafika & shape */}
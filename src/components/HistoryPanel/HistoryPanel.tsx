@@ -0,0 +1,81 @@
+// src/components/HistoryPanel/HistoryPanel.tsx
+import React from 'react'
+import type { EditorHistory } from '../../lib/editorHistory'
+import { formatCodeJobChange } from '../../lib/jobDiff'
+
+export type HistoryPanelProps = {
+  history: EditorHistory
+  /** Presun na pozíciu = počet vykonaných krokov (0 = stav pred prvou zmenou) */
+  onGoTo: (position: number) => void
+  onUndo: () => void
+  onRedo: () => void
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString('sk-SK', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onGoTo, onUndo, onRedo }) => {
+  const commands = [...history.past, ...history.future]
+  const position = history.past.length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!history.past.length}
+          className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-200 hover:border-sky-500 disabled:opacity-40"
+        >
+          ↶ Späť
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!history.future.length}
+          className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-200 hover:border-sky-500 disabled:opacity-40"
+        >
+          ↷ Znova
+        </button>
+        <span className="ml-auto text-xs text-slate-500">Ctrl+Z / Ctrl+Shift+Z</span>
+      </div>
+
+      {commands.length === 0 ? (
+        <div className="text-sm text-slate-400">Zatiaľ žiadne zmeny.</div>
+      ) : (
+        <ol className="divide-y divide-slate-800 rounded-lg border border-slate-700 text-sm">
+          <li>
+            <button
+              type="button"
+              onClick={() => onGoTo(0)}
+              className={`w-full px-3 py-2 text-left ${position === 0 ? 'bg-sky-500/10 text-sky-200' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              Pôvodný stav
+            </button>
+          </li>
+          {commands.map((command, index) => {
+            const applied = index < position
+            const current = index === position - 1
+            return (
+              <li key={command.id}>
+                <button
+                  type="button"
+                  onClick={() => onGoTo(index + 1)}
+                  title={command.changes.map(formatCodeJobChange).join('\n')}
+                  className={`flex w-full items-center gap-3 px-3 py-2 text-left ${
+                    current ? 'bg-sky-500/10 text-sky-200' : applied ? 'text-slate-200 hover:bg-slate-800' : 'text-slate-500 hover:bg-slate-800'
+                  }`}
+                >
+                  <span className={`min-w-0 flex-1 truncate ${applied ? '' : 'line-through'}`}>{command.description}</span>
+                  <span className="flex-shrink-0 text-[11px] text-slate-500">{formatTime(command.at)}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default HistoryPanel
@@ -0,0 +1,366 @@
+// src/components/JobBrowser/JobBrowser.tsx
+import React, { useEffect, useRef, useState } from 'react'
+import type { CodeJob, CodeJobId, CodeJobRevision } from '../../types/jobTypes'
+import {
+  createJobId,
+  deleteJob,
+  getJob,
+  getJobRevision,
+  getJobStorageUsage,
+  listJobRevisions,
+  listJobs,
+  restoreJobRevision,
+  saveJob,
+} from '../../lib/jobStorage'
+import { diffCodeJobs, formatCodeJobChange } from '../../lib/jobDiff'
+import {
+  JOB_PACKAGE_EXTENSION,
+  createJobPackage,
+  jobPackageFileName,
+  jobWithPackageSettings,
+  readJobPackage,
+  type JobPackage,
+} from '../../lib/jobPackage'
+
+export type JobBrowserProps = {
+  currentJobId: CodeJobId
+  /** Autor revízií pri duplikovaní, importe a obnovení */
+  author: string
+  /** Otvorí job v editore – neuložené zmeny rieši volajúci */
+  onOpen: (job: CodeJob) => void
+  onNew: () => void
+  /** Zmazaný job (ak je otvorený, editor ho odpojí od úložiska) */
+  onDeleted: (id: CodeJobId) => void
+  /**
+   * Nastavenia editora pre balík otvoreného jobu – label config, job
+   * ticket, výsekový nástroj a zdrojové súbory VDP
+   */
+  getPackageSections: () => Omit<JobPackage, 'job'>
+  /** Importovaný a uložený job – editor ho otvorí s nastaveniami z balíka */
+  onImportPackage: (job: CodeJob, content: JobPackage) => void
+}
+
+type RevisionChanges = {
+  revision: number
+  lines: string[]
+}
+
+const MAX_LISTED_CHANGES = 30
+
+function formatDate(iso: string): string {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString('sk-SK', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1 << 20 ? `${(bytes / (1 << 20)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} kB`
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export const JobBrowser: React.FC<JobBrowserProps> = ({
+  currentJobId,
+  author,
+  onOpen,
+  onNew,
+  onDeleted,
+  getPackageSections,
+  onImportPackage,
+}) => {
+  const [jobs, setJobs] = useState<CodeJob[] | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null)
+  const [selectedId, setSelectedId] = useState<CodeJobId | null>(null)
+  const [revisions, setRevisions] = useState<CodeJobRevision[]>([])
+  const [revisionChanges, setRevisionChanges] = useState<RevisionChanges | null>(null)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([listJobs(), getJobStorageUsage()])
+      .then(([list, storage]) => {
+        if (cancelled) return
+        setJobs(list)
+        setUsage(storage)
+      })
+      .catch(error => {
+        if (!cancelled) setMessage({ text: error instanceof Error ? error.message : String(error), error: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [reloadKey])
+
+  useEffect(() => {
+    if (!selectedId) return
+    let cancelled = false
+    listJobRevisions(selectedId)
+      .then(list => {
+        if (!cancelled) setRevisions(list)
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId, reloadKey])
+
+  const reload = () => setReloadKey(key => key + 1)
+
+  /** Akcia nad úložiskom – chyba sa zobrazí, zoznam sa obnoví */
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const result = await action()
+      if (result) setMessage({ text: result, error: false })
+      reload()
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), error: true })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSelect = (id: CodeJobId) => {
+    setSelectedId(id === selectedId ? null : id)
+    setRevisions([])
+    setRevisionChanges(null)
+  }
+
+  const handleDuplicate = (job: CodeJob) =>
+    run(async () => {
+      const copy = await saveJob(
+        { ...job, id: createJobId(), name: `${job.name} (kópia)`, createdAt: '', revision: undefined },
+        { author, comment: `Duplicate of "${job.name}"` },
+      )
+      return `Vytvorená kópia „${copy.name}“`
+    })
+
+  const handleDelete = (job: CodeJob) => {
+    if (!window.confirm(`Zmazať job „${job.name}“ aj so všetkými revíziami?`)) return
+    void run(async () => {
+      await deleteJob(job.id)
+      if (selectedId === job.id) setSelectedId(null)
+      onDeleted(job.id)
+      return `Job „${job.name}“ bol zmazaný`
+    })
+  }
+
+  // Ostatné joby nemajú stav editora – balík nesie to, čo je uložené v jobe
+  const handleExportPackage = (job: CodeJob) =>
+    run(async () => {
+      const content: JobPackage =
+        job.id === currentJobId
+          ? { ...getPackageSections(), job }
+          : { job, stepRepeat: job.stepRepeat, exportSettings: job.exportSettings }
+      downloadBlob(await createJobPackage(content), jobPackageFileName(job))
+    })
+
+  const handleImportPackage = async (file: File) => {
+    await run(async () => {
+      const { content, issues } = await readJobPackage(file)
+      const notes = issues.map(issue => issue.message)
+      if (!content) throw new Error(notes.join('\n') || 'Package cannot be imported')
+      // Job s rovnakým id už existuje – import je nový job, nie prepis
+      const imported = jobWithPackageSettings(content)
+      const exists = (await getJob(imported.id)) !== undefined
+      const job = exists ? { ...imported, id: createJobId(), revision: undefined } : { ...imported, revision: undefined }
+      const saved = await saveJob(job, { author, comment: `Imported from ${file.name}` })
+      setSelectedId(saved.id)
+      onImportPackage(saved, content)
+      return [`Importovaný job „${saved.name}“`, ...notes].join('\n')
+    })
+  }
+
+  const handleShowChanges = (jobId: CodeJobId, revision: number) =>
+    run(async () => {
+      const [previous, current] = await Promise.all([
+        revision > 1 ? getJobRevision(jobId, revision - 1) : Promise.resolve(undefined),
+        getJobRevision(jobId, revision),
+      ])
+      if (!current) throw new Error(`Revision ${revision} is not available`)
+      const lines = previous
+        ? diffCodeJobs(previous, current).map(formatCodeJobChange)
+        : ['Prvá revízia jobu']
+      setRevisionChanges({ revision, lines: lines.length ? lines : ['Bez zmien'] })
+    })
+
+  const handleRestore = (jobId: CodeJobId, revision: number) => {
+    if (!window.confirm(`Obnoviť revíziu ${revision}? Uloží sa ako nová revízia, história zostane zachovaná.`)) return
+    void run(async () => {
+      const restored = await restoreJobRevision(jobId, revision, { author })
+      setRevisionChanges(null)
+      if (jobId === currentJobId) onOpen(restored)
+      return `Revízia ${revision} obnovená ako revízia ${restored.revision}`
+    })
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={onNew}
+          className="rounded-lg border border-sky-500 bg-sky-500/20 px-3 py-1.5 text-sm font-medium text-sky-200 hover:bg-sky-500/30"
+        >
+          + Nový job
+        </button>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          disabled={busy}
+          className="rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-sm text-slate-200 hover:border-sky-500 disabled:opacity-40"
+        >
+          Import balíka ({JOB_PACKAGE_EXTENSION})
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${JOB_PACKAGE_EXTENSION},application/zip`}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) void handleImportPackage(file)
+          }}
+        />
+        {usage && (
+          <span className="ml-auto text-xs text-slate-500">
+            Úložisko: {formatBytes(usage.usage)} z {formatBytes(usage.quota)}
+          </span>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`whitespace-pre-line rounded-md border px-3 py-2 text-xs ${
+            message.error ? 'border-red-700 bg-red-900/30 text-red-200' : 'border-slate-700 bg-slate-800/60 text-slate-300'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {jobs === null ? (
+        <div className="text-sm text-slate-400">Načítavam joby…</div>
+      ) : jobs.length === 0 ? (
+        <div className="text-sm text-slate-400">Zatiaľ nie sú uložené žiadne joby.</div>
+      ) : (
+        <div className="divide-y divide-slate-800 rounded-lg border border-slate-700">
+          {jobs.map(job => (
+            <div key={job.id} className={job.id === currentJobId ? 'bg-sky-500/5' : undefined}>
+              <div className="flex items-center gap-3 px-3 py-2">
+                <button type="button" onClick={() => handleSelect(job.id)} className="min-w-0 flex-1 text-left">
+                  <div className="truncate text-sm font-medium text-slate-100">
+                    {job.name}
+                    {job.id === currentJobId && <span className="ml-2 text-[10px] text-sky-400">otvorený</span>}
+                  </div>
+                  <div className="text-[11px] text-slate-500">
+                    {job.codeType} · {job.labelWidthMm}×{job.labelHeightMm} mm · revízia {job.revision ?? '—'} ·{' '}
+                    {formatDate(job.updatedAt)}
+                  </div>
+                </button>
+                <div className="flex flex-shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(job)}
+                    disabled={busy}
+                    className="rounded border border-sky-600 bg-sky-600/20 px-2 py-1 text-xs text-sky-200 hover:bg-sky-600/30 disabled:opacity-40"
+                  >
+                    Otvoriť
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDuplicate(job)}
+                    disabled={busy}
+                    className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:border-sky-500 disabled:opacity-40"
+                  >
+                    Duplikovať
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleExportPackage(job)}
+                    disabled={busy}
+                    className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200 hover:border-sky-500 disabled:opacity-40"
+                  >
+                    Export
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(job)}
+                    disabled={busy}
+                    className="rounded border border-red-700 bg-red-900/40 px-2 py-1 text-xs text-red-200 hover:border-red-500 disabled:opacity-40"
+                  >
+                    Zmazať
+                  </button>
+                </div>
+              </div>
+
+              {selectedId === job.id && (
+                <div className="border-t border-slate-800 bg-slate-900/60 px-3 py-2">
+                  <div className="mb-1 text-[10px] font-medium uppercase tracking-wide text-slate-400">História revízií</div>
+                  {revisions.length === 0 ? (
+                    <div className="text-xs text-slate-500">Bez revízií</div>
+                  ) : (
+                    <div className="max-h-48 space-y-0.5 overflow-y-auto">
+                      {revisions.map(revision => (
+                        <div key={revision.revision} className="flex items-center gap-2 text-xs text-slate-300">
+                          <span className="w-8 font-mono text-slate-500">r{revision.revision}</span>
+                          <span className="w-28 text-slate-500">{formatDate(revision.createdAt)}</span>
+                          <span className="min-w-0 flex-1 truncate">
+                            {revision.author && <span className="text-slate-400">{revision.author}: </span>}
+                            {revision.comment || <span className="text-slate-600">bez komentára</span>}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => void handleShowChanges(job.id, revision.revision)}
+                            disabled={busy}
+                            className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+                          >
+                            Zmeny
+                          </button>
+                          {revision.revision !== job.revision && (
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(job.id, revision.revision)}
+                              disabled={busy}
+                              className="text-amber-400 hover:text-amber-300 disabled:opacity-40"
+                            >
+                              Obnoviť
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {revisionChanges && (
+                    <div className="mt-2 rounded border border-slate-700 bg-slate-950/60 p-2 text-[11px] text-slate-300">
+                      <div className="mb-1 text-slate-400">Zmeny v revízii {revisionChanges.revision}:</div>
+                      {revisionChanges.lines.slice(0, MAX_LISTED_CHANGES).map((line, i) => (
+                        <div key={i}>{line}</div>
+                      ))}
+                      {revisionChanges.lines.length > MAX_LISTED_CHANGES && (
+                        <div className="text-slate-500">… a ďalších {revisionChanges.lines.length - MAX_LISTED_CHANGES}</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default JobBrowser
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 // src/components/JobTicketPanel/JobTicketPanel.tsx
-import React, { useState } from 'react'
+import React from 'react'
 import type {
   LabelConfig,
   Layer,
@@ -9,6 +9,7 @@ import type {
   VdpPrintRun,
   ExportSettings,
 } from '../../types/barcodeTypes'
+import { jobTicketRun, type JobTicketDetails } from '../../lib/jobTicket'
 
 interface JobTicketPanelProps {
   jobId: string
@@ -23,6 +24,9 @@ interface JobTicketPanelProps {
   magnificationPercent: number
   xDimMm: number
   barWidthReductionMm: number
+  /** Údaje zákazky – drží ich editor, idú aj do balíka jobu */
+  details: JobTicketDetails
+  onUpdateDetails: (patch: Partial<JobTicketDetails>) => void
   onGenerateReport: () => void
   onPrint: () => void
 }
@@ -40,24 +44,18 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
   magnificationPercent,
   xDimMm,
   barWidthReductionMm,
+  details,
+  onUpdateDetails,
   onGenerateReport,
   onPrint,
 }) => {
-  const [customerName, setCustomerName] = useState('')
-  const [orderNumber, setOrderNumber] = useState('')
-  const [material, setMaterial] = useState('PP White')
-  const [adhesive, setAdhesive] = useState('Permanent')
-  const [quantity, setQuantity] = useState(10000)
-  const [notes, setNotes] = useState('')
+  const { customerName, orderNumber, material, adhesive, quantity, notes } = details
 
   const isWebMode = stepRepeatConfig?.mode === 'WEB'
   const webConfig = stepRepeatConfig as { lanes?: number; rows?: number; webWidthMm?: number; repeatLengthMm?: number } | undefined
 
   // Výpočty
-  const labelsPerRepeat = isWebMode && webConfig ? (webConfig.lanes || 1) * (webConfig.rows || 1) : 1
-  const repeatsNeeded = Math.ceil(quantity / labelsPerRepeat)
-  const totalLengthMm = isWebMode && webConfig ? repeatsNeeded * (webConfig.repeatLengthMm || 330) : 0
-  const totalLengthM = totalLengthMm / 1000
+  const { labelsPerRepeat, totalRepeats: repeatsNeeded, totalMeters: totalLengthM } = jobTicketRun(stepRepeatConfig, quantity)
 
   const visibleLayers = layers.filter(l => l.visible && l.printable)
   const hasWhiteLayer = layers.some(l => l.type === 'WHITE_UNDERPRINT' && l.visible)
@@ -156,7 +154,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
                 <input
                   type="text"
                   value={orderNumber}
-                  onChange={e => setOrderNumber(e.target.value)}
+                  onChange={e => onUpdateDetails({ orderNumber: e.target.value })}
                   placeholder="OBJ-2024-001"
                   className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
                 />
@@ -166,7 +164,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
                 <input
                   type="text"
                   value={customerName}
-                  onChange={e => setCustomerName(e.target.value)}
+                  onChange={e => onUpdateDetails({ customerName: e.target.value })}
                   placeholder="Názov zákazníka"
                   className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
                 />
@@ -238,7 +236,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
                 <label className="mb-1 block text-sm font-medium text-slate-400">Materiál</label>
                 <select
                   value={material}
-                  onChange={e => setMaterial(e.target.value)}
+                  onChange={e => onUpdateDetails({ material: e.target.value })}
                   className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
                 >
                   <option value="PP White">PP Biely</option>
@@ -253,7 +251,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
                 <label className="mb-1 block text-sm font-medium text-slate-400">Lepidlo</label>
                 <select
                   value={adhesive}
-                  onChange={e => setAdhesive(e.target.value)}
+                  onChange={e => onUpdateDetails({ adhesive: e.target.value })}
                   className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
                 >
                   <option value="Permanent">Permanentné</option>
@@ -276,7 +274,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
                 <input
                   type="number"
                   value={quantity}
-                  onChange={e => setQuantity(parseInt(e.target.value) || 0)}
+                  onChange={e => onUpdateDetails({ quantity: parseInt(e.target.value) || 0 })}
                   className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
                 />
               </div>
@@ -372,7 +370,7 @@ export const JobTicketPanel: React.FC<JobTicketPanelProps> = ({
             <label className="mb-2 block text-sm font-medium text-slate-300">Poznámky</label>
             <textarea
               value={notes}
-              onChange={e => setNotes(e.target.value)}
+              onChange={e => onUpdateDetails({ notes: e.target.value })}
               rows={3}
               placeholder="Špeciálne požiadavky, poznámky pre tlač..."
               className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-200"
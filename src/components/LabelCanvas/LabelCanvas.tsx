@@ -1,6 +1,5 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 // src/components/LabelCanvas/LabelCanvas.tsx
-import React, { useMemo, useRef, useState, useCallback } from 'react'
+import React, { useMemo, useRef, useState, type RefObject } from 'react'
 import type {
   LabelConfig,
   Layer,
@@ -8,10 +7,28 @@ import type {
   BarcodeObject,
   TextObject,
   ImageObject,
-  ReferenceBox,
-  SnapPoint,
+  ShapeObject,
   DistortionSettings,
 } from '../../types/barcodeTypes'
+import { barcodeObjectSymbol, isLinearSymbol, sizedBarcodeObject, type VdpPdfSymbol } from '../../lib/vdpPdf'
+import {
+  BARCODE_MAGNIFICATION_MAX,
+  BARCODE_MAGNIFICATION_MIN,
+  MIN_OBJECT_SIZE_MM,
+  barcodeModuleMm,
+  barcodeObjectSize,
+  collectSnapTargets,
+  findLabelObject,
+  isBarcodeObject,
+  isImageObject,
+  isShapeObject,
+  isTextObject,
+  labelSnapPoints,
+  labelTextLines,
+  roundMm,
+  snapObjectPosition,
+  type SnapTargets,
+} from '../../lib/labelObjects'
 
 interface LabelCanvasProps {
   labelConfig: LabelConfig
@@ -19,6 +36,7 @@ interface LabelCanvasProps {
   selectedObjectId: string | null
   onSelectObject: (id: string | null) => void
   onUpdateObject: (layerId: string, objectId: string, updates: Partial<LabelObject>) => void
+  onRemoveObject: (layerId: string, objectId: string) => void
   distortionSettings: DistortionSettings
   zoom: number
   showRulers: boolean
@@ -28,6 +46,243 @@ interface LabelCanvasProps {
 
 // Konverzia mm na px pre zobrazenie
 const MM_TO_PX = 3.7795275591 // pri 96 DPI
+const PT_TO_MM = 25.4 / 72
+
+/** Veľkosť úchytov a tolerancia prichytenia v px obrazovky */
+const HANDLE_PX = 8
+const ROTATE_HANDLE_OFFSET_PX = 22
+const SNAP_TOLERANCE_PX = 6
+
+type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w'
+
+const RESIZE_HANDLES: { handle: ResizeHandle; hx: -1 | 0 | 1; hy: -1 | 0 | 1; cursor: string }[] = [
+  { handle: 'nw', hx: -1, hy: -1, cursor: 'nwse-resize' },
+  { handle: 'n', hx: 0, hy: -1, cursor: 'ns-resize' },
+  { handle: 'ne', hx: 1, hy: -1, cursor: 'nesw-resize' },
+  { handle: 'e', hx: 1, hy: 0, cursor: 'ew-resize' },
+  { handle: 'se', hx: 1, hy: 1, cursor: 'nwse-resize' },
+  { handle: 's', hx: 0, hy: 1, cursor: 'ns-resize' },
+  { handle: 'sw', hx: -1, hy: 1, cursor: 'nesw-resize' },
+  { handle: 'w', hx: -1, hy: 0, cursor: 'ew-resize' },
+]
+
+/** Prebiehajúca úprava myšou – do stavu aplikácie sa zapíše až po pustení */
+type DragState = {
+  layerId: string
+  mode: 'move' | 'rotate' | ResizeHandle
+  startX: number
+  startY: number
+  original: LabelObject
+  preview: LabelObject
+  targets: SnapTargets
+  guideX: number | null
+  guideY: number | null
+}
+
+const IMAGE_FIT: Record<ImageObject['fit'], string> = {
+  contain: 'xMidYMid meet',
+  cover: 'xMidYMid slice',
+  fill: 'none',
+  none: 'xMinYMin meet',
+}
+
+/* =====================
+ * VYKRESLENIE OBJEKTOV
+ * ===================== */
+
+const symbolKey = (obj: BarcodeObject) => `${obj.codeType}\u0000${obj.value}`
+
+/** Symboly kódov všetkých vrstiev podľa typu a hodnoty; null = neplatné dáta */
+function barcodeSymbolMap(layers: Layer[]): Map<string, VdpPdfSymbol | null> {
+  const symbols = new Map<string, VdpPdfSymbol | null>()
+  for (const layer of layers) {
+    for (const obj of layer.objects) {
+      if (isBarcodeObject(obj) && !symbols.has(symbolKey(obj))) symbols.set(symbolKey(obj), barcodeObjectSymbol(obj))
+    }
+  }
+  return symbols
+}
+
+function renderBarcode(obj: BarcodeObject, symbol: VdpPdfSymbol | null, uiMm: number) {
+  const linear = symbol !== null && isLinearSymbol(symbol)
+  const hrFontMm = obj.hrFontSizePt * PT_TO_MM
+  const hrText = obj.hrCustomText || obj.value
+  const symbolHeight = symbol
+    ? barcodeObjectSize(obj, symbol, linear).symbolHeightMm
+    : obj.showHrText && hrText
+      ? Math.max(0, obj.heightMm - hrFontMm * 1.2)
+      : obj.heightMm
+  const padding = obj.whiteBoxPaddingMm
+  // BWR zúži každý tmavý beh (čiaru) o rovnakú hodnotu z oboch strán, v moduloch symbolu
+  const moduleMm = barcodeModuleMm(obj)
+  const bwr = moduleMm > 0 ? Math.min(0.9, Math.max(0, obj.barWidthReductionMm / moduleMm)) : 0
+
+  return (
+    <>
+      {obj.whiteBoxEnabled && (
+        <rect
+          x={-padding}
+          y={-padding}
+          width={obj.widthMm + 2 * padding}
+          height={obj.heightMm + 2 * padding}
+          rx={obj.whiteBoxCornerRadiusMm}
+          fill="#ffffff"
+        />
+      )}
+      {symbol ? (
+        <svg
+          x={0}
+          y={0}
+          width={obj.widthMm}
+          height={symbolHeight}
+          viewBox={`0 0 ${symbol.widthModules} ${symbol.heightModules}`}
+          preserveAspectRatio={linear ? 'none' : 'xMidYMid meet'}
+          overflow="visible"
+        >
+          {symbol.rects.map((r, i) => (
+            <rect
+              key={i}
+              x={r.x + bwr / 2}
+              y={r.y}
+              width={Math.max(0, r.w - bwr)}
+              height={r.h}
+              fill={obj.strokeColor || '#000000'}
+            />
+          ))}
+        </svg>
+      ) : (
+        <>
+          <rect width={obj.widthMm} height={symbolHeight} fill="#fee2e2" stroke="#ef4444" strokeWidth={uiMm} />
+          <text
+            x={obj.widthMm / 2}
+            y={symbolHeight / 2}
+            fontSize={Math.min(3, symbolHeight / 2)}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="#b91c1c"
+          >
+            Neplatné dáta
+          </text>
+        </>
+      )}
+      {obj.showHrText && hrText && (
+        <text
+          x={obj.widthMm / 2}
+          y={obj.heightMm - hrFontMm * 0.2}
+          textAnchor="middle"
+          fontSize={hrFontMm}
+          fill={obj.hrTextColor}
+          fontFamily={obj.hrFontFamily}
+        >
+          {hrText}
+        </text>
+      )}
+    </>
+  )
+}
+
+function renderText(obj: TextObject) {
+  const fontMm = obj.fontSizePt * PT_TO_MM
+  const lineMm = (fontMm * obj.lineHeightPercent) / 100
+  const anchor = obj.horizontalAlign === 'center' ? 'middle' : obj.horizontalAlign === 'right' ? 'end' : 'start'
+  const x = obj.horizontalAlign === 'center' ? obj.widthMm / 2 : obj.horizontalAlign === 'right' ? obj.widthMm : 0
+  const lines = labelTextLines(obj)
+
+  return (
+    <text
+      fontSize={fontMm}
+      fontFamily={obj.fontFamily}
+      fontWeight={obj.fontWeight}
+      fontStyle={obj.fontStyle}
+      letterSpacing={obj.letterSpacingPt * PT_TO_MM}
+      textAnchor={anchor}
+      fill={obj.fillColor}
+    >
+      {lines.map((line, i) => (
+        <tspan key={i} x={x} y={fontMm + i * lineMm}>
+          {line || ' '}
+        </tspan>
+      ))}
+    </text>
+  )
+}
+
+function renderImage(obj: ImageObject, uiMm: number, clipPrefix: string) {
+  return obj.src ? (
+    <>
+      <clipPath id={`${clipPrefix}-${obj.id}`}>
+        <rect width={obj.widthMm} height={obj.heightMm} />
+      </clipPath>
+      <image
+        href={obj.src}
+        width={obj.widthMm}
+        height={obj.heightMm}
+        preserveAspectRatio={IMAGE_FIT[obj.fit]}
+        clipPath={`url(#${clipPrefix}-${obj.id})`}
+      />
+    </>
+  ) : (
+    <rect
+      width={obj.widthMm}
+      height={obj.heightMm}
+      fill="#e5e7eb"
+      stroke="#9ca3af"
+      strokeWidth={uiMm}
+      strokeDasharray={`${4 * uiMm} ${2 * uiMm}`}
+    />
+  )
+}
+
+function renderShape(obj: ShapeObject, uiMm: number) {
+  const stroke = obj.strokeWidthMm > 0 ? obj.strokeColor : 'none'
+  if (obj.type === 'line') {
+    return (
+      <line
+        x1={0}
+        y1={obj.heightMm / 2}
+        x2={obj.widthMm}
+        y2={obj.heightMm / 2}
+        stroke={obj.strokeColor}
+        strokeWidth={Math.max(obj.strokeWidthMm, uiMm)}
+      />
+    )
+  }
+  if (obj.type === 'ellipse') {
+    return (
+      <ellipse
+        cx={obj.widthMm / 2}
+        cy={obj.heightMm / 2}
+        rx={obj.widthMm / 2}
+        ry={obj.heightMm / 2}
+        fill={obj.fillColor}
+        stroke={stroke}
+        strokeWidth={obj.strokeWidthMm}
+      />
+    )
+  }
+  return (
+    <rect
+      width={obj.widthMm}
+      height={obj.heightMm}
+      rx={obj.cornerRadiusMm}
+      fill={obj.fillColor}
+      stroke={stroke}
+      strokeWidth={obj.strokeWidthMm}
+    />
+  )
+}
+
+/**
+ * Obsah objektu v jeho rámčeku (mm). `uiMm` je hrúbka pomocných čiar
+ * (zástupné tvary, minimum čiary), `clipPrefix` odlíši orezy viacerých SVG.
+ */
+function renderObjectContent(obj: LabelObject, symbol: VdpPdfSymbol | null, uiMm: number, clipPrefix = 'clip') {
+  if (isBarcodeObject(obj)) return renderBarcode(obj, symbol, uiMm)
+  if (isTextObject(obj)) return renderText(obj)
+  if (isImageObject(obj)) return renderImage(obj, uiMm, clipPrefix)
+  if (isShapeObject(obj)) return renderShape(obj, uiMm)
+  return null
+}
 
 export const LabelCanvas: React.FC<LabelCanvasProps> = ({
   labelConfig,
@@ -35,6 +290,7 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
   selectedObjectId,
   onSelectObject,
   onUpdateObject,
+  onRemoveObject,
   distortionSettings,
   zoom,
   showRulers,
@@ -42,8 +298,8 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
   snapToObjects,
 }) => {
   const canvasRef = useRef<SVGSVGElement>(null)
-  const [isDragging, setIsDragging] = useState(false)
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
 
   const {
     widthMm,
@@ -77,6 +333,12 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
   const cornerRadiusPx = cornerRadiusMm * MM_TO_PX * zoom
   const gridSizePx = gridSizeMm * MM_TO_PX * zoom
 
+  // Objekty sú v mm etikety; distorzia ich natiahne spolu s etiketou
+  const scaleX = widthMm > 0 ? trimWidthPx / widthMm : MM_TO_PX * zoom
+  const scaleY = heightMm > 0 ? trimHeightPx / heightMm : MM_TO_PX * zoom
+  // Prvky rozhrania (úchyty, čiary výberu) majú stálu veľkosť v px
+  const uiMm = 1 / Math.min(scaleX, scaleY)
+
   // Celkové rozmery SVG vrátane bleed
   const totalWidthPx = trimWidthPx + 2 * bleedPx
   const totalHeightPx = trimHeightPx + 2 * bleedPx
@@ -85,40 +347,30 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
   const rulerSize = showRulers ? 25 : 0
   const svgWidth = totalWidthPx + rulerSize + 40
   const svgHeight = totalHeightPx + rulerSize + 40
+  // Začiatok orezu v súradniciach SVG
+  const originX = rulerSize + 20 + bleedPx
+  const originY = rulerSize + 20 + bleedPx
 
   // Snap points
-  const snapPoints = useMemo<SnapPoint[]>(() => {
-    const points: SnapPoint[] = []
-    const refs: ReferenceBox[] = ['TRIM', 'SAFE']
-    
-    refs.forEach(ref => {
-      const offsetX = ref === 'SAFE' ? safeMarginMm : 0
-      const offsetY = ref === 'SAFE' ? safeMarginMm : 0
-      const w = ref === 'SAFE' ? widthMm - 2 * safeMarginMm : widthMm
-      const h = ref === 'SAFE' ? heightMm - 2 * safeMarginMm : heightMm
-
-      // Rohy
-      points.push({ id: `${ref}_TL`, name: 'Ľavý horný', xMm: offsetX, yMm: offsetY, reference: ref })
-      points.push({ id: `${ref}_TR`, name: 'Pravý horný', xMm: offsetX + w, yMm: offsetY, reference: ref })
-      points.push({ id: `${ref}_BL`, name: 'Ľavý dolný', xMm: offsetX, yMm: offsetY + h, reference: ref })
-      points.push({ id: `${ref}_BR`, name: 'Pravý dolný', xMm: offsetX + w, yMm: offsetY + h, reference: ref })
-      
-      // Stredy hrán
-      points.push({ id: `${ref}_TC`, name: 'Horný stred', xMm: offsetX + w / 2, yMm: offsetY, reference: ref })
-      points.push({ id: `${ref}_BC`, name: 'Dolný stred', xMm: offsetX + w / 2, yMm: offsetY + h, reference: ref })
-      points.push({ id: `${ref}_LC`, name: 'Ľavý stred', xMm: offsetX, yMm: offsetY + h / 2, reference: ref })
-      points.push({ id: `${ref}_RC`, name: 'Pravý stred', xMm: offsetX + w, yMm: offsetY + h / 2, reference: ref })
-      
-      // Stred
-      points.push({ id: `${ref}_C`, name: 'Stred', xMm: offsetX + w / 2, yMm: offsetY + h / 2, reference: ref })
-    })
+  const snapPoints = useMemo(
+    () => labelSnapPoints({ widthMm, heightMm, bleedMm, safeMarginMm }),
+    [widthMm, heightMm, bleedMm, safeMarginMm],
+  )
 
-    return points
-  }, [widthMm, heightMm, safeMarginMm])
+  // Symboly čiarových kódov – prepočítajú sa len pri zmene objektov
+  const barcodeSymbols = useMemo(() => barcodeSymbolMap(layers), [layers])
+  const symbolOf = (obj: BarcodeObject) => barcodeSymbols.get(symbolKey(obj)) ?? null
+
+  // Rozmer kódu určuje symbol, X-dimenzia a zväčšenie – rámček objektu sa mu prispôsobí
+  const sizedObject = (obj: LabelObject): LabelObject => {
+    if (!isBarcodeObject(obj)) return obj
+    const symbol = symbolOf(obj)
+    return symbol ? sizedBarcodeObject(obj, symbol) : obj
+  }
 
   // Grid lines
   const gridLines = useMemo(() => {
-    if (!showGrid || gridSizeMm <= 0 || gridSizePx <= 0 || isDragging) return { vertical: [], horizontal: [] }
+    if (!showGrid || gridSizeMm <= 0 || gridSizePx <= 0) return { vertical: [], horizontal: [] }
 
     const vertical: number[] = []
     const horizontal: number[] = []
@@ -131,7 +383,7 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
     }
 
     return { vertical, horizontal }
-  }, [widthMm, heightMm, zoom, isDragging, gridSizePx])
+  }, [showGrid, widthMm, heightMm, gridSizeMm, zoom, gridSizePx])
 
   // Ruler ticks
   const rulerTicks = useMemo(() => {
@@ -159,253 +411,275 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
     return { horizontal, vertical }
   }, [widthMm, heightMm, zoom])
 
-  // Základná drag logika (pripravená pre budúce presúvanie objektov)
-  const handleMouseDown = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
-    setIsDragging(true)
-    setDragOffset({ x: e.clientX, y: e.clientY })
-  }, [])
-
-  const handleMouseUp = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
-    if (isDragging) {
-      const dx = e.clientX - dragOffset.x
-      const dy = e.clientY - dragOffset.y
-      // Rezervované pre budúci posun objektov, momentálne len využitie pre TS
-      void dx
-      void dy
-    }
-    setIsDragging(false)
-  }, [isDragging, dragOffset])
-
-  // Snap vybraného objektu na najbližší grid podľa gridSizeMm
-  const snapSelectedToGrid = useCallback(() => {
-    if (!snapToGrid || !selectedObjectId || gridSizeMm <= 0 || isDragging) return
-
-    const snap = (vMm: number) => Math.round(vMm / gridSizeMm) * gridSizeMm
-
-    for (const layer of layers) {
-      const obj = layer.objects.find(o => o.id === selectedObjectId)
-      if (obj) {
-        onUpdateObject(layer.id, obj.id, {
-          xMm: snap(obj.xMm),
-          yMm: snap(obj.yMm),
-        })
-        break
+  /* =====================
+   * INTERAKCIA
+   * ===================== */
+
+  const startDrag = (e: React.PointerEvent, obj: LabelObject, layer: Layer, mode: DragState['mode']) => {
+    if (e.button !== 0) return
+    e.stopPropagation()
+    onSelectObject(obj.id)
+    containerRef.current?.focus()
+    if (obj.locked || layer.locked) return
+
+    canvasRef.current?.setPointerCapture(e.pointerId)
+    setDrag({
+      layerId: layer.id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      original: obj,
+      preview: obj,
+      targets: snapToObjects
+        ? collectSnapTargets(
+            snapPoints,
+            layers.map(l => ({ ...l, objects: l.objects.map(sizedObject) })),
+            obj.id,
+          )
+        : { x: [], y: [] },
+      guideX: null,
+      guideY: null,
+    })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return
+    const o = drag.original
+    const dx = (e.clientX - drag.startX) / scaleX
+    const dy = (e.clientY - drag.startY) / scaleY
+    // Alt dočasne vypne prichytávanie
+    const snapping = !e.altKey
+
+    if (drag.mode === 'move') {
+      let xMm = o.xMm + dx
+      let yMm = o.yMm + dy
+      if (snapping && snapToGrid && gridSizeMm > 0) {
+        xMm = Math.round(xMm / gridSizeMm) * gridSizeMm
+        yMm = Math.round(yMm / gridSizeMm) * gridSizeMm
       }
+      let guideX: number | null = null
+      let guideY: number | null = null
+      if (snapping && snapToObjects) {
+        const snapped = snapObjectPosition({ ...o, xMm, yMm }, drag.targets, SNAP_TOLERANCE_PX * uiMm)
+        xMm = snapped.xMm
+        yMm = snapped.yMm
+        guideX = snapped.guideX
+        guideY = snapped.guideY
+      }
+      setDrag({ ...drag, preview: { ...o, xMm: roundMm(xMm), yMm: roundMm(yMm) }, guideX, guideY })
+      return
     }
-  }, [snapToGrid, selectedObjectId, gridSizeMm, layers, onUpdateObject])
 
-  // Handle object click
-  const handleObjectClick = useCallback((e: React.MouseEvent, objectId: string) => {
-    e.stopPropagation()
-    onSelectObject(objectId)
-  }, [onSelectObject])
+    if (drag.mode === 'rotate') {
+      const rect = canvasRef.current?.getBoundingClientRect()
+      if (!rect) return
+      const cx = rect.left + originX + (o.xMm + o.widthMm / 2) * scaleX
+      const cy = rect.top + originY + (o.yMm + o.heightMm / 2) * scaleY
+      let angle = (Math.atan2(e.clientY - cy, e.clientX - cx) * 180) / Math.PI + 90
+      // Shift = kroky po 15°, inak sa prichytí k násobkom 90° v okolí 3°
+      if (e.shiftKey) angle = Math.round(angle / 15) * 15
+      else if (snapping && Math.abs(angle - Math.round(angle / 90) * 90) < 3) angle = Math.round(angle / 90) * 90
+      angle = ((Math.round(angle * 10) / 10) % 360 + 360) % 360
+      setDrag({ ...drag, preview: { ...o, rotation: angle } })
+      return
+    }
+
+    // Zmena veľkosti v súradniciach otočeného objektu, protiľahlá strana stojí
+    const { hx, hy } = RESIZE_HANDLES.find(h => h.handle === drag.mode)!
+    const theta = (o.rotation * Math.PI) / 180
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+    const localDx = dx * cos + dy * sin
+    const localDy = -dx * sin + dy * cos
+    let w = Math.max(MIN_OBJECT_SIZE_MM, o.widthMm + hx * localDx)
+    let h = Math.max(MIN_OBJECT_SIZE_MM, o.heightMm + hy * localDy)
+    let resized: LabelObject = o
+    // Shift pri rohu zachová pomer strán
+    if (e.shiftKey && hx !== 0 && hy !== 0) {
+      const factor = Math.max(w / o.widthMm, h / o.heightMm)
+      w = o.widthMm * factor
+      h = o.heightMm * factor
+    }
+    // Kód sa nenaťahuje – úchyt mení zväčšenie a rozmer vyplynie zo symbolu
+    if (isBarcodeObject(o) && symbolOf(o)) {
+      const factor = hx !== 0 && hy !== 0 ? Math.max(w / o.widthMm, h / o.heightMm) : hx !== 0 ? w / o.widthMm : h / o.heightMm
+      const magnificationPercent = Math.min(
+        BARCODE_MAGNIFICATION_MAX,
+        Math.max(BARCODE_MAGNIFICATION_MIN, Math.round(o.magnificationPercent * factor)),
+      )
+      resized = sizedObject({ ...o, magnificationPercent } as BarcodeObject)
+      w = resized.widthMm
+      h = resized.heightMm
+    }
+    const shiftX = (hx * (w - o.widthMm)) / 2
+    const shiftY = (hy * (h - o.heightMm)) / 2
+    const centerX = o.xMm + o.widthMm / 2 + shiftX * cos - shiftY * sin
+    const centerY = o.yMm + o.heightMm / 2 + shiftX * sin + shiftY * cos
+    setDrag({
+      ...drag,
+      preview: {
+        ...resized,
+        xMm: roundMm(centerX - w / 2),
+        yMm: roundMm(centerY - h / 2),
+        widthMm: roundMm(w),
+        heightMm: roundMm(h),
+      },
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return
+    if (canvasRef.current?.hasPointerCapture(e.pointerId)) canvasRef.current.releasePointerCapture(e.pointerId)
+    const { preview: p } = drag
+    // Porovnanie s uloženým objektom – kód si pri úprave uloží aj rozmer podľa symbolu
+    const o = findLabelObject(layers, drag.original.id)?.object ?? drag.original
+    const updates: Partial<LabelObject> & Partial<Pick<BarcodeObject, 'magnificationPercent'>> = {}
+    if (isBarcodeObject(p) && isBarcodeObject(o) && p.magnificationPercent !== o.magnificationPercent) {
+      updates.magnificationPercent = p.magnificationPercent
+    }
+    if (p.xMm !== o.xMm) updates.xMm = p.xMm
+    if (p.yMm !== o.yMm) updates.yMm = p.yMm
+    if (p.widthMm !== o.widthMm) updates.widthMm = p.widthMm
+    if (p.heightMm !== o.heightMm) updates.heightMm = p.heightMm
+    if (p.rotation !== o.rotation) updates.rotation = p.rotation
+    setDrag(null)
+    if (Object.keys(updates).length) onUpdateObject(drag.layerId, o.id, updates)
+  }
+
+  // Šípky posúvajú vybraný objekt (Shift = 1 mm), Delete ho odstráni
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const found = findLabelObject(layers, selectedObjectId)
+    if (!found || drag) return
+    const { layer, object } = found
+    if (object.locked || layer.locked) return
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault()
+      onRemoveObject(layer.id, object.id)
+      return
+    }
+    const step = e.shiftKey ? 1 : 0.1
+    const nudge: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    }
+    const delta = nudge[e.key]
+    if (!delta) return
+    e.preventDefault()
+    onUpdateObject(layer.id, object.id, {
+      xMm: roundMm(object.xMm + delta[0]),
+      yMm: roundMm(object.yMm + delta[1]),
+    })
+  }
 
   // Handle canvas click (deselect)
-  const handleCanvasClick = useCallback(() => {
+  const handleCanvasPointerDown = () => {
     onSelectObject(null)
-  }, [onSelectObject])
+  }
 
-  // Render barcode object
-  const renderBarcode = (obj: BarcodeObject, layerVisible: boolean) => {
-    if (!obj.visible || !layerVisible) return null
-
-    const x = (bleedMm + obj.xMm) * MM_TO_PX * zoom
-    const y = (bleedMm + obj.yMm) * MM_TO_PX * zoom
-    const w = obj.widthMm * MM_TO_PX * zoom
-    const h = obj.heightMm * MM_TO_PX * zoom
-    const isSelected = selectedObjectId === obj.id
+  /* =====================
+   * VYKRESLENIE OBJEKTOV
+   * ===================== */
 
+  const renderSelection = (obj: LabelObject, layer: Layer) => {
+    const locked = obj.locked || layer.locked
+    const handle = HANDLE_PX * uiMm
     return (
-      <g
-        key={obj.id}
-        transform={`translate(${x}, ${y})`}
-        onClick={(e) => handleObjectClick(e, obj.id)}
-        style={{ cursor: obj.locked ? 'not-allowed' : 'pointer' }}
-      >
-        {/* White box */}
-        {obj.whiteBoxEnabled && (
-          <rect
-            x={-obj.whiteBoxPaddingMm * MM_TO_PX * zoom}
-            y={-obj.whiteBoxPaddingMm * MM_TO_PX * zoom}
-            width={w + 2 * obj.whiteBoxPaddingMm * MM_TO_PX * zoom}
-            height={h + 2 * obj.whiteBoxPaddingMm * MM_TO_PX * zoom}
-            rx={obj.whiteBoxCornerRadiusMm * MM_TO_PX * zoom}
-            fill="#FFFFFF"
-          />
-        )}
-        
-        {/* Barcode placeholder */}
+      <g>
         <rect
           x={0}
           y={0}
-          width={w}
-          height={h}
-          fill={obj.fillColor}
-          stroke={isSelected ? '#3b82f6' : 'transparent'}
-          strokeWidth={isSelected ? 2 : 0}
+          width={obj.widthMm}
+          height={obj.heightMm}
+          fill="none"
+          stroke={locked ? '#f59e0b' : '#3b82f6'}
+          strokeWidth={uiMm}
+          strokeDasharray={`${4 * uiMm} ${2 * uiMm}`}
         />
-        
-        {/* Simplified bars visualization */}
-        <g>
-          {Array.from({ length: 20 }).map((_, i) => (
-            <rect
-              key={i}
-              x={i * (w / 30) + w * 0.1}
-              y={0}
-              width={w / 50}
-              height={h * 0.8}
-              fill={obj.strokeColor || '#000000'}
-            />
-          ))}
-        </g>
-
-        {/* HR Text */}
-        {obj.showHrText && (
-          <text
-            x={w / 2}
-            y={h + 12}
-            textAnchor="middle"
-            fontSize={obj.hrFontSizePt * zoom}
-            fill={obj.hrTextColor}
-            fontFamily={obj.hrFontFamily}
-          >
-            {obj.hrCustomText || obj.value || 'BARCODE'}
-          </text>
-        )}
-
-        {/* Selection handles */}
-        {isSelected && !obj.locked && (
+        {!locked && (
           <>
-            <rect x={-4} y={-4} width={8} height={8} fill="#3b82f6" />
-            <rect x={w - 4} y={-4} width={8} height={8} fill="#3b82f6" />
-            <rect x={-4} y={h - 4} width={8} height={8} fill="#3b82f6" />
-            <rect x={w - 4} y={h - 4} width={8} height={8} fill="#3b82f6" />
+            <line
+              x1={obj.widthMm / 2}
+              y1={0}
+              x2={obj.widthMm / 2}
+              y2={-ROTATE_HANDLE_OFFSET_PX * uiMm}
+              stroke="#3b82f6"
+              strokeWidth={uiMm}
+            />
+            <circle
+              cx={obj.widthMm / 2}
+              cy={-ROTATE_HANDLE_OFFSET_PX * uiMm}
+              r={handle / 2}
+              fill="#ffffff"
+              stroke="#3b82f6"
+              strokeWidth={uiMm}
+              style={{ cursor: 'grab' }}
+              onPointerDown={e => startDrag(e, obj, layer, 'rotate')}
+            />
+            {RESIZE_HANDLES.map(({ handle: name, hx, hy, cursor }) => (
+              <rect
+                key={name}
+                x={((hx + 1) / 2) * obj.widthMm - handle / 2}
+                y={((hy + 1) / 2) * obj.heightMm - handle / 2}
+                width={handle}
+                height={handle}
+                fill="#3b82f6"
+                stroke="#ffffff"
+                strokeWidth={uiMm / 2}
+                style={{ cursor }}
+                onPointerDown={e => startDrag(e, obj, layer, name)}
+              />
+            ))}
           </>
         )}
       </g>
     )
   }
 
-  // Render text object
-  const renderText = (obj: TextObject, layerVisible: boolean) => {
-    if (!obj.visible || !layerVisible) return null
-
-    const x = (bleedMm + obj.xMm) * MM_TO_PX * zoom
-    const y = (bleedMm + obj.yMm) * MM_TO_PX * zoom
+  const renderObject = (stored: LabelObject, layer: Layer) => {
+    // Počas ťahania sa kreslí náhľad, stav aplikácie sa mení až po pustení
+    const obj = drag?.original.id === stored.id ? drag.preview : sizedObject(stored)
+    if (!obj.visible || !layer.visible) return null
     const isSelected = selectedObjectId === obj.id
+    const locked = obj.locked || layer.locked
 
     return (
       <g
         key={obj.id}
-        transform={`translate(${x}, ${y})`}
-        onClick={(e) => handleObjectClick(e, obj.id)}
-        style={{ cursor: obj.locked ? 'not-allowed' : 'pointer' }}
+        transform={`translate(${obj.xMm} ${obj.yMm}) rotate(${obj.rotation} ${obj.widthMm / 2} ${obj.heightMm / 2})`}
       >
-        <text
-          x={0}
-          y={obj.fontSizePt * zoom}
-          fontSize={obj.fontSizePt * zoom}
-          fontFamily={obj.fontFamily}
-          fontWeight={obj.fontWeight}
-          fontStyle={obj.fontStyle}
-          fill={obj.fillColor}
+        <g
           opacity={obj.opacity}
+          onPointerDown={e => startDrag(e, obj, layer, 'move')}
+          style={{ cursor: locked ? 'not-allowed' : 'move' }}
         >
-          {obj.content}
-        </text>
-
-        {isSelected && (
-          <rect
-            x={-2}
-            y={-2}
-            width={obj.widthMm * MM_TO_PX * zoom + 4}
-            height={obj.heightMm * MM_TO_PX * zoom + 4}
-            fill="transparent"
-            stroke="#3b82f6"
-            strokeWidth={1}
-            strokeDasharray="4 2"
-          />
-        )}
-      </g>
-    )
-  }
-
-  // Render image object
-  const renderImage = (obj: ImageObject, layerVisible: boolean) => {
-    if (!obj.visible || !layerVisible) return null
-
-    const x = (bleedMm + obj.xMm) * MM_TO_PX * zoom
-    const y = (bleedMm + obj.yMm) * MM_TO_PX * zoom
-    const w = obj.widthMm * MM_TO_PX * zoom
-    const h = obj.heightMm * MM_TO_PX * zoom
-    const isSelected = selectedObjectId === obj.id
-
-    return (
-      <g
-        key={obj.id}
-        transform={`translate(${x}, ${y})`}
-        onClick={(e) => handleObjectClick(e, obj.id)}
-        style={{ cursor: obj.locked ? 'not-allowed' : 'pointer' }}
-      >
-        {obj.src ? (
-          <image
-            href={obj.src}
-            x={0}
-            y={0}
-            width={w}
-            height={h}
-            preserveAspectRatio={obj.fit === 'contain' ? 'xMidYMid meet' : 'xMidYMid slice'}
-            opacity={obj.opacity}
-          />
-        ) : (
-          <rect
-            x={0}
-            y={0}
-            width={w}
-            height={h}
-            fill="#e5e7eb"
-            stroke="#9ca3af"
-            strokeWidth={1}
-            strokeDasharray="4 2"
-          />
-        )}
-
-        {isSelected && (
-          <>
-            <rect x={-4} y={-4} width={8} height={8} fill="#3b82f6" />
-            <rect x={w - 4} y={-4} width={8} height={8} fill="#3b82f6" />
-            <rect x={-4} y={h - 4} width={8} height={8} fill="#3b82f6" />
-            <rect x={w - 4} y={h - 4} width={8} height={8} fill="#3b82f6" />
-          </>
-        )}
+          {/* Neviditeľná plocha, aby sa dal chytiť aj prázdny text či čiara */}
+          <rect width={obj.widthMm} height={obj.heightMm} fill="transparent" />
+          {renderObjectContent(obj, isBarcodeObject(obj) ? symbolOf(obj) : null, uiMm)}
+        </g>
+        {isSelected && renderSelection(obj, layer)}
       </g>
     )
   }
 
-  // Render object based on type
-  const renderObject = (obj: LabelObject, layerVisible: boolean) => {
-    switch (obj.type) {
-      case 'barcode':
-        return renderBarcode(obj as BarcodeObject, layerVisible)
-      case 'text':
-        return renderText(obj as TextObject, layerVisible)
-      case 'image':
-        return renderImage(obj as ImageObject, layerVisible)
-      default:
-        return null
-    }
-  }
-
   return (
-    <div className="relative overflow-auto rounded-lg border border-slate-700 bg-slate-800 p-4">
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="relative overflow-auto rounded-lg border border-slate-700 bg-slate-800 p-4 outline-none focus:border-sky-700"
+    >
       <svg
         ref={canvasRef}
         width={svgWidth}
         height={svgHeight}
-        onClick={handleCanvasClick}
-        onMouseDown={handleMouseDown}
-        onMouseUp={handleMouseUp}
-        style={{ background: '#1e293b' }}
+        onPointerDown={handleCanvasPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ background: '#1e293b', touchAction: 'none' }}
       >
         {/* Rulers */}
         {showRulers && (
@@ -529,14 +803,46 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
             </g>
           )}
 
+          {/* Layers and objects – prvá vrstva v zozname je navrchu */}
+          <g transform={`translate(${bleedPx}, ${bleedPx}) scale(${scaleX}, ${scaleY})`}>
+            {layers
+              .slice()
+              .reverse()
+              .map(layer => layer.objects.map(obj => renderObject(obj, layer)))}
+
+            {/* Vodiace čiary prichytenia */}
+            {drag?.guideX != null && (
+              <line
+                x1={drag.guideX}
+                y1={-bleedMm}
+                x2={drag.guideX}
+                y2={heightMm + bleedMm}
+                stroke="#d946ef"
+                strokeWidth={uiMm}
+                pointerEvents="none"
+              />
+            )}
+            {drag?.guideY != null && (
+              <line
+                x1={-bleedMm}
+                y1={drag.guideY}
+                x2={widthMm + bleedMm}
+                y2={drag.guideY}
+                stroke="#d946ef"
+                strokeWidth={uiMm}
+                pointerEvents="none"
+              />
+            )}
+          </g>
+
           {/* Snap points */}
           {snapToObjects && (
-            <g opacity={0.5}>
+            <g opacity={0.5} pointerEvents="none">
               {snapPoints.map(point => (
                 <circle
                   key={point.id}
-                  cx={bleedPx + point.xMm * MM_TO_PX * zoom}
-                  cy={bleedPx + point.yMm * MM_TO_PX * zoom}
+                  cx={bleedPx + point.xMm * scaleX}
+                  cy={bleedPx + point.yMm * scaleY}
                   r={3}
                   fill={point.reference === 'SAFE' ? '#10b981' : '#3b82f6'}
                 />
@@ -544,16 +850,6 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
             </g>
           )}
 
-          {/* Layers and objects */}
-          <g transform={`translate(${bleedPx}, ${bleedPx})`}>
-            {layers
-              .slice()
-              .reverse()
-              .map(layer =>
-                layer.objects.map(obj => renderObject(obj, layer.visible))
-              )}
-          </g>
-
           {/* Distortion indicator */}
           {distortionSettings.enabled && distortionSettings.previewDistorted && (
             <g>
@@ -570,9 +866,56 @@ export const LabelCanvas: React.FC<LabelCanvasProps> = ({
           )}
         </g>
       </svg>
-
     </div>
   )
 }
 
-export default LabelCanvas
\ No newline at end of file
+/* =====================
+ * EXPORT
+ * ===================== */
+
+interface LabelExportSvgProps {
+  labelConfig: LabelConfig
+  layers: Layer[]
+  backgroundColor: string
+  svgRef: RefObject<SVGSVGElement | null>
+}
+
+/**
+ * SVG kompozície na export (SVG, PNG, TIFF, PDF, EPS) – tlačené objekty
+ * všetkých vrstiev v mm etikety bez zón, mriežky a úchytov. Kód
+ * s neplatnými dátami a obrázok bez zdroja sa netlačia.
+ */
+export const LabelExportSvg: React.FC<LabelExportSvgProps> = ({ labelConfig, layers, backgroundColor, svgRef }) => {
+  const { widthMm, heightMm, cornerRadiusMm } = labelConfig
+  const barcodeSymbols = useMemo(() => barcodeSymbolMap(layers), [layers])
+
+  const renderObject = (stored: LabelObject) => {
+    const symbol = isBarcodeObject(stored) ? (barcodeSymbols.get(symbolKey(stored)) ?? null) : null
+    if (isBarcodeObject(stored) && !symbol) return null
+    if (isImageObject(stored) && !stored.src) return null
+    const obj = isBarcodeObject(stored) && symbol ? sizedBarcodeObject(stored, symbol) : stored
+
+    return (
+      <g
+        key={obj.id}
+        transform={`translate(${obj.xMm} ${obj.yMm}) rotate(${obj.rotation} ${obj.widthMm / 2} ${obj.heightMm / 2})`}
+        opacity={obj.opacity}
+      >
+        {renderObjectContent(obj, symbol, 0, 'export-clip')}
+      </g>
+    )
+  }
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${widthMm} ${heightMm}`} width={`${widthMm}mm`} height={`${heightMm}mm`}>
+      <rect width={widthMm} height={heightMm} rx={cornerRadiusMm} fill={backgroundColor} />
+      {layers
+        .filter(layer => layer.visible && layer.printable)
+        .reverse()
+        .map(layer => layer.objects.filter(obj => obj.visible && obj.printable).map(renderObject))}
+    </svg>
+  )
+}
+
+export default LabelCanvas
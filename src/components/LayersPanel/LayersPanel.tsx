@@ -5,10 +5,9 @@ import type {
   LayerType,
   LabelObject,
   ObjectType,
-  BarcodeObject,
-  TextObject,
   CodeType,
 } from '../../types/barcodeTypes'
+import { isBarcodeObject, isTextObject } from '../../lib/labelObjects'
 
 interface LayersPanelProps {
   layers: Layer[]
@@ -42,12 +41,12 @@ const OBJECT_TYPES: { type: ObjectType; name: string; icon: string }[] = [
   { type: 'text', name: 'Text', icon: '📝' },
   { type: 'image', name: 'Obrázok', icon: '🖼️' },
   { type: 'rectangle', name: 'Obdĺžnik', icon: '⬜' },
+  { type: 'ellipse', name: 'Elipsa', icon: '⚪' },
   { type: 'line', name: 'Čiara', icon: '➖' },
 ]
 
-// Jednoduché type-guardy, aby boli špecifické typy objektov k dispozícii
-const isBarcodeObject = (obj: LabelObject): obj is BarcodeObject => obj.type === 'barcode'
-const isTextObject = (obj: LabelObject): obj is TextObject => obj.type === 'text'
+const objectIcon = (obj: LabelObject) =>
+  OBJECT_TYPES.find(ot => ot.type === obj.type)?.icon ?? '⬜'
 
 // Helper pre budúce použitie pri filtrovaní vrstiev podľa typu kódu
 const isLinearCodeType = (codeType: CodeType) =>
@@ -314,11 +313,7 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
                                 : 'bg-slate-800 hover:bg-slate-700'
                             }`}
                           >
-                            <span className="text-[11px]">
-                              {obj.type === 'barcode' ? '📊' : 
-                               obj.type === 'text' ? '📝' : 
-                               obj.type === 'image' ? '🖼️' : '⬜'}
-                            </span>
+                            <span className="text-[11px]">{objectIcon(obj)}</span>
                             <span className="flex-1 text-[10px] text-slate-300 truncate">
                               {obj.name}
                             </span>
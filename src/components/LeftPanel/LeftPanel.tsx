@@ -2,6 +2,8 @@
 import React, { useState } from 'react'
 import type {
   CodeType,
+  CompositeComponent,
+  DataBarVariant,
   DataMode,
   ReferenceBox,
   LabelPreset,
@@ -9,12 +11,32 @@ import type {
   VdpImportRow,
 } from '../../types/barcodeTypes'
 import { VdpImportPanel } from '../VdpImportPanel/VdpImportPanel'
+import type { Gs1DigitalLinkCompression } from '../../lib/gs1DigitalLink'
+import { isDataBarExpandedVariant } from '../../lib/gs1'
+import {
+  COMPOSITE_COMPONENT_LABELS,
+  compositeComponentsFor,
+  isCompositeCodeType,
+} from '../../lib/gs1Composite'
+import { compressUpcA, describeEan5, expandUpcE, isAddOnCodeType } from '../../lib/eanUpc'
 
 export type LeftPanelProps = {
   codeType: CodeType
   setCodeType: (t: CodeType) => void
+  dataBarVariant: DataBarVariant
+  setDataBarVariant: (v: DataBarVariant) => void
+  dataBarSegments: number
+  setDataBarSegments: (v: number) => void
+  compositeEnabled: boolean
+  setCompositeEnabled: (v: boolean) => void
+  compositeComponent: CompositeComponent
+  setCompositeComponent: (v: CompositeComponent) => void
   codeValue: string
   setCodeValue: (v: string) => void
+  /** EAN-2/EAN-5 doplnok (prázdny = bez doplnku) */
+  addOn: string
+  setAddOn: (v: string) => void
+  convertUpcType: () => void
   maxLength: number
   error: string
   setTouched: (v: boolean) => void
@@ -42,11 +64,27 @@ export type LeftPanelProps = {
   setLabelQuantity: (v: string) => void
   labelCount: string
   setLabelCount: (v: string) => void
+  labelNetWeightKg: string
+  setLabelNetWeightKg: (v: string) => void
+  labelPrice: string
+  setLabelPrice: (v: string) => void
+  gs1FormError: string
 
   buildGs1LabelString: () => void
+  gs1FormOutput: 'ELEMENT_STRING' | 'DIGITAL_LINK'
+  setGs1FormOutput: (v: 'ELEMENT_STRING' | 'DIGITAL_LINK') => void
+  digitalLinkDomain: string
+  setDigitalLinkDomain: (v: string) => void
+  digitalLinkCompression: Gs1DigitalLinkCompression
+  setDigitalLinkCompression: (v: Gs1DigitalLinkCompression) => void
+  digitalLinkError: string
+  applyDigitalLink: () => void
+  convertDigitalLinkToElementString: () => void
   computeGs1CheckDigit: (gtinBase: string) => string | null
 
   handleValidateGs1Linear: () => Promise<void> | void
+  gs1ServerCheck: boolean
+  setGs1ServerCheck: (v: boolean) => void
   serverMessage: string
   serverError: string
   loading: boolean
@@ -81,8 +119,20 @@ export type LeftPanelProps = {
   setVdpImportState: React.Dispatch<React.SetStateAction<VdpImportState>>
   vdpImportPatternTemplate: string
   setVdpImportPatternTemplate: (v: string) => void
+  onVdpSourceFile?: (file: File) => void
 }
 
+const DATABAR_VARIANTS: { value: DataBarVariant; label: string }[] = [
+  { value: 'OMNIDIRECTIONAL', label: 'Omnidirectional' },
+  { value: 'STACKED', label: 'Stacked Omnidirectional' },
+  { value: 'LIMITED', label: 'Limited' },
+  { value: 'EXPANDED', label: 'Expanded' },
+  { value: 'EXPANDED_STACKED', label: 'Expanded Stacked' },
+]
+
+// Expanded Stacked: párny počet segmentov na riadok 2–22
+const DATABAR_SEGMENT_OPTIONS = Array.from({ length: 11 }, (_, i) => (i + 1) * 2)
+
 const LABEL_PRESETS: { value: LabelPreset; label: string; w: number; h: number }[] = [
   { value: '40x20', label: '40 × 20 mm', w: 40, h: 20 },
   { value: '50x30', label: '50 × 30 mm', w: 50, h: 30 },
@@ -107,8 +157,19 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
   const {
     codeType,
     setCodeType,
+    dataBarVariant,
+    setDataBarVariant,
+    dataBarSegments,
+    setDataBarSegments,
+    compositeEnabled,
+    setCompositeEnabled,
+    compositeComponent,
+    setCompositeComponent,
     codeValue,
     setCodeValue,
+    addOn,
+    setAddOn,
+    convertUpcType,
     maxLength,
     error,
     setTouched,
@@ -134,9 +195,25 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
     setLabelQuantity,
     labelCount,
     setLabelCount,
+    labelNetWeightKg,
+    setLabelNetWeightKg,
+    labelPrice,
+    setLabelPrice,
+    gs1FormError,
     buildGs1LabelString,
+    gs1FormOutput,
+    setGs1FormOutput,
+    digitalLinkDomain,
+    setDigitalLinkDomain,
+    digitalLinkCompression,
+    setDigitalLinkCompression,
+    digitalLinkError,
+    applyDigitalLink,
+    convertDigitalLinkToElementString,
     computeGs1CheckDigit,
     handleValidateGs1Linear,
+    gs1ServerCheck,
+    setGs1ServerCheck,
     serverMessage,
     serverError,
     loading,
@@ -166,8 +243,17 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
     setVdpImportState,
     vdpImportPatternTemplate,
     setVdpImportPatternTemplate,
+    onVdpSourceFile,
   } = props
 
+  // UPC-A ↔ UPC-E ekvivalent aktuálnej hodnoty
+  const upcEquivalent =
+    codeType === 'UPCA' && /^[0-9]{11}$/.test(codeValue)
+      ? { label: 'UPC-E', value: compressUpcA(codeValue) }
+      : codeType === 'UPCE' && /^[0-9]{7}$/.test(codeValue)
+        ? { label: 'UPC-A', value: expandUpcE(codeValue) }
+        : null
+
   const handleVdpApplyRow = (row: VdpImportRow) => {
     setCodeValue(row.generatedCode)
     setTouched(true)
@@ -215,12 +301,128 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
               <option value="EAN13">EAN-13</option>
               <option value="EAN8">EAN-8</option>
               <option value="UPCA">UPC-A</option>
+              <option value="UPCE">UPC-E</option>
               <option value="ITF14">ITF-14</option>
               <option value="GS1128">GS1-128 (AI reťazec)</option>
               <option value="GS1DM">GS1 DataMatrix (AI)</option>
               <option value="GS1DATABAR">GS1 DataBar (AI)</option>
               <option value="QR">QR kód</option>
             </select>
+
+            {codeType === 'GS1DATABAR' && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <div className={dataBarVariant === 'EXPANDED_STACKED' ? '' : 'col-span-2'}>
+                  <label className="mb-0.5 block text-[10px] text-slate-400">Variant DataBar</label>
+                  <select
+                    value={dataBarVariant}
+                    onChange={e => setDataBarVariant(e.target.value as DataBarVariant)}
+                    className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                  >
+                    {DATABAR_VARIANTS.map(v => (
+                      <option key={v.value} value={v.value}>{v.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {dataBarVariant === 'EXPANDED_STACKED' && (
+                  <div>
+                    <label className="mb-0.5 block text-[10px] text-slate-400">Segmenty na riadok</label>
+                    <select
+                      value={dataBarSegments}
+                      onChange={e => setDataBarSegments(Number(e.target.value))}
+                      className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                    >
+                      {DATABAR_SEGMENT_OPTIONS.map(n => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <p className="col-span-2 text-[10px] text-slate-500">
+                  {isDataBarExpandedVariant(dataBarVariant)
+                    ? 'Ľubovoľné AI – hmotnosť (310n), cena (392n), dátumy, LOT'
+                    : dataBarVariant === 'LIMITED'
+                      ? 'Len GTIN (01) s indikátorom 0 alebo 1'
+                      : 'Len GTIN (01)'}
+                </p>
+              </div>
+            )}
+
+            {/* GS1 Composite – 2D zložka nad lineárnym kódom */}
+            {isCompositeCodeType(codeType) && (
+              <div className="mt-2 rounded-md border border-slate-800 bg-slate-900/60 p-2">
+                <label className="flex items-center gap-2 text-[11px] text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={compositeEnabled}
+                    onChange={e => setCompositeEnabled(e.target.checked)}
+                    className="h-3 w-3 rounded border-slate-600 bg-slate-900"
+                  />
+                  GS1 Composite (2D zložka CC)
+                </label>
+                {compositeEnabled && (
+                  <div className="mt-1.5">
+                    <label className="mb-0.5 block text-[10px] text-slate-400">2D zložka</label>
+                    <select
+                      value={compositeComponent}
+                      onChange={e => setCompositeComponent(e.target.value as CompositeComponent)}
+                      className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                    >
+                      {compositeComponentsFor(codeType).map(c => (
+                        <option key={c} value={c}>{COMPOSITE_COMPONENT_LABELS[c]}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-[10px] text-slate-500">
+                      {codeType === 'GS1128'
+                        ? 'Lineárna zložka nesie (01) alebo (00), ostatné AI idú do 2D zložky'
+                        : 'Lineárna zložka nesie GTIN (01), ostatné AI (LOT, dátumy…) idú do 2D zložky'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Doplnok EAN-2/EAN-5 – periodiká a knihy */}
+            {isAddOnCodeType(codeType) && !(compositeEnabled && isCompositeCodeType(codeType)) && (
+              <div className="mt-2 rounded-md border border-slate-800 bg-slate-900/60 p-2">
+                <label className="mb-0.5 block text-[10px] text-slate-400">Doplnok EAN-2 / EAN-5</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={addOn}
+                  onChange={e => setAddOn(e.target.value.replace(/[^0-9]/g, '').slice(0, 5))}
+                  onBlur={() => setTouched(true)}
+                  placeholder="bez doplnku"
+                  className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-1 font-mono text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                />
+                <p className="mt-1 text-[10px] text-slate-500">
+                  {addOn.length === 5
+                    ? describeEan5(addOn) ?? 'EAN-5'
+                    : addOn.length === 2
+                      ? 'EAN-2 – číslo vydania periodika'
+                      : '2 číslice pre periodiká (ISSN 977), 5 číslic s cenou pre knihy (ISBN 978/979)'}
+                </p>
+              </div>
+            )}
+
+            {/* UPC-A ↔ UPC-E – potlačenie núl */}
+            {upcEquivalent && (
+              <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-slate-800 bg-slate-900/60 p-2 text-[10px]">
+                <span className={upcEquivalent.value ? 'text-slate-300' : 'text-amber-300'}>
+                  {upcEquivalent.value
+                    ? <>{upcEquivalent.label} ekvivalent: <span className="font-mono">{upcEquivalent.value}</span></>
+                    : 'UPC-A sa nedá potlačiť na UPC-E (číselný systém 0/1 a dostatok núl)'}
+                </span>
+                {upcEquivalent.value && (
+                  <button
+                    type="button"
+                    onClick={convertUpcType}
+                    className="shrink-0 rounded border border-slate-600 px-1.5 py-0.5 text-slate-200 hover:border-sky-500"
+                  >
+                    Prepnúť na {upcEquivalent.label}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Hodnota kódu + data mode */}
@@ -260,7 +462,8 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
                   !(
                     codeType === 'GS1128' ||
                     codeType === 'GS1DM' ||
-                    codeType === 'GS1DATABAR'
+                    codeType === 'GS1DATABAR' ||
+                    codeType === 'QR'
                   )
                 }
                 className={`rounded-full border px-2 py-0.5 transition-colors ${
@@ -370,7 +573,8 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
             dataMode === 'GS1_FORM' &&
             (codeType === 'GS1128' ||
               codeType === 'GS1DM' ||
-              codeType === 'GS1DATABAR') && (
+              codeType === 'GS1DATABAR' ||
+              codeType === 'QR') && (
               <div className="rounded-md border border-slate-800 bg-slate-900/80 p-3 text-[11px] text-slate-200">
                 <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-300">
                   GS1 Formulár
@@ -476,13 +680,115 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
                       className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500"
                     />
                   </div>
+                  <div>
+                    <label className="mb-0.5 block text-[10px] text-slate-400">(310n) Hmotnosť kg</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="1,235"
+                      value={labelNetWeightKg}
+                      onChange={e => setLabelNetWeightKg(e.target.value)}
+                      className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-0.5 block text-[10px] text-slate-400">(392n) Cena</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="4,99"
+                      value={labelPrice}
+                      onChange={e => setLabelPrice(e.target.value)}
+                      className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                    />
+                  </div>
+                </div>
+
+                {gs1FormError && (
+                  <p className="mt-2 whitespace-pre-line rounded border border-red-700 bg-red-900/40 p-1.5 text-[10px] text-red-200">
+                    {gs1FormError}
+                  </p>
+                )}
+
+                {/* GS1 Digital Link */}
+                <div className="mt-3 space-y-2 rounded border border-slate-800 bg-slate-950/40 p-2">
+                  <div className="flex gap-1.5 text-[10px]">
+                    {([
+                      ['ELEMENT_STRING', 'Element string'],
+                      ['DIGITAL_LINK', 'Digital Link (QR)'],
+                    ] as const).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setGs1FormOutput(value)}
+                        disabled={value === 'ELEMENT_STRING' && codeType === 'QR'}
+                        className={`rounded-full border px-2 py-0.5 transition-colors ${
+                          gs1FormOutput === value || (value === 'DIGITAL_LINK' && codeType === 'QR')
+                            ? 'border-emerald-500 bg-emerald-600/20 text-emerald-100'
+                            : 'border-slate-700 bg-slate-900 text-slate-300 hover:border-emerald-500'
+                        } disabled:opacity-40`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {(gs1FormOutput === 'DIGITAL_LINK' || codeType === 'QR') && (
+                    <>
+                      <div>
+                        <label className="mb-0.5 block text-[10px] text-slate-400">Doména resolvera</label>
+                        <input
+                          type="text"
+                          value={digitalLinkDomain}
+                          onChange={e => setDigitalLinkDomain(e.target.value)}
+                          placeholder="https://id.gs1.org"
+                          className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="mb-0.5 block text-[10px] text-slate-400">Kompresia</label>
+                        <select
+                          value={digitalLinkCompression}
+                          onChange={e => setDigitalLinkCompression(e.target.value as Gs1DigitalLinkCompression)}
+                          className="w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500"
+                        >
+                          <option value="NONE">Bez kompresie</option>
+                          <option value="PARTIAL">Čiastočná (atribúty)</option>
+                          <option value="FULL">Úplná</option>
+                        </select>
+                      </div>
+                      <div className="grid grid-cols-2 gap-1.5">
+                        <button
+                          type="button"
+                          onClick={applyDigitalLink}
+                          className="rounded border border-slate-700 bg-slate-800 px-2 py-1 text-[10px] text-slate-200 hover:border-emerald-500"
+                        >
+                          Reťazec → URI
+                        </button>
+                        <button
+                          type="button"
+                          onClick={convertDigitalLinkToElementString}
+                          className="rounded border border-slate-700 bg-slate-800 px-2 py-1 text-[10px] text-slate-200 hover:border-emerald-500"
+                        >
+                          URI → reťazec
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {digitalLinkError && (
+                    <p className="whitespace-pre-line rounded border border-red-700 bg-red-900/40 p-1.5 text-[10px] text-red-200">
+                      {digitalLinkError}
+                    </p>
+                  )}
                 </div>
+
                 <button
                   type="button"
                   onClick={buildGs1LabelString}
                   className="mt-3 w-full rounded-md border border-emerald-600 bg-emerald-600/80 px-3 py-1.5 text-[11px] font-medium text-white hover:bg-emerald-500"
                 >
-                  Zostaviť GS1 reťazec
+                  {gs1FormOutput === 'DIGITAL_LINK' || codeType === 'QR' ? 'Zostaviť Digital Link' : 'Zostaviť GS1 reťazec'}
                 </button>
               </div>
             )}
@@ -775,33 +1081,44 @@ export const LeftPanel: React.FC<LeftPanelProps> = props => {
               onApplyRow={handleVdpApplyRow}
               patternTemplate={vdpImportPatternTemplate}
               setPatternTemplate={setVdpImportPatternTemplate}
+              onSourceFile={onVdpSourceFile}
             />
           )}
 
           {/* BACKEND sekcia */}
           {leftPanelSection === 'BACKEND' && (
             <div className="space-y-3 text-[11px]">
-              {['EAN13', 'EAN8', 'UPCA', 'ITF14', 'GS1128', 'GS1DM', 'GS1DATABAR'].includes(
+              {['EAN13', 'EAN8', 'UPCA', 'ITF14', 'GS1128', 'GS1DM', 'GS1DATABAR', 'QR'].includes(
                 codeType,
               ) && (
                 <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-[10px] text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={gs1ServerCheck}
+                      onChange={e => setGs1ServerCheck(e.target.checked)}
+                      className="h-3 w-3 rounded border-slate-600 bg-slate-900"
+                    />
+                    Krížová kontrola na serveri
+                  </label>
+
                   <button
                     type="button"
                     onClick={handleValidateGs1Linear}
                     disabled={loading}
                     className="w-full rounded-md border border-sky-600 bg-sky-600/90 px-3 py-1.5 text-center text-[11px] font-semibold text-slate-50 shadow-sm hover:bg-sky-500 disabled:cursor-not-allowed disabled:border-slate-700 disabled:bg-slate-800"
                   >
-                    {loading ? 'Overujem kód…' : 'Overiť a doplniť GS1 kód'}
+                    {loading ? 'Overujem kód…' : 'Overiť GS1 kód'}
                   </button>
 
                   {serverMessage && (
-                    <p className="rounded-md border border-emerald-700 bg-emerald-900/40 p-2 text-emerald-200">
+                    <p className="whitespace-pre-line rounded-md border border-emerald-700 bg-emerald-900/40 p-2 text-emerald-200">
                       {serverMessage}
                     </p>
                   )}
 
                   {serverError && (
-                    <p className="rounded-md border border-red-700 bg-red-900/40 p-2 text-red-200">
+                    <p className="whitespace-pre-line rounded-md border border-red-700 bg-red-900/40 p-2 text-red-200">
                       {serverError}
                     </p>
                   )}
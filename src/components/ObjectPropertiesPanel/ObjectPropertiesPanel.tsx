@@ -0,0 +1,576 @@
+// src/components/ObjectPropertiesPanel/ObjectPropertiesPanel.tsx
+import React from 'react'
+import type {
+  BarcodeObject,
+  CodeType,
+  HorizontalAlign,
+  ImageObject,
+  LabelConfig,
+  LabelObject,
+  Layer,
+  ShapeObject,
+  TextObject,
+  VerticalAlign,
+} from '../../types/barcodeTypes'
+import {
+  BARCODE_MAGNIFICATION_MAX,
+  BARCODE_MAGNIFICATION_MIN,
+  alignLabelObject,
+  findLabelObject,
+  isBarcodeObject,
+  isImageObject,
+  isShapeObject,
+  isTextObject,
+  referenceBoxRect,
+  type ZOrderAction,
+} from '../../lib/labelObjects'
+import { formatVdpTemplateIssue, validateVdpTemplate, type VdpTemplateContext } from '../../lib/vdp'
+import {
+  DEFAULT_MIN_FONT_SIZE_PT,
+  isVdpBoundObject,
+  renderVdpBinding,
+  resolveVdpObject,
+  type VdpImageSources,
+} from '../../lib/vdpObjects'
+
+interface ObjectPropertiesPanelProps {
+  layers: Layer[]
+  selectedObjectId: string | null
+  labelConfig: LabelConfig
+  /** Stĺpce a mapované polia VDP importu pre väzbu textu a obrázka */
+  vdpFields: string[]
+  /** Aktuálny riadok VDP importu – náhľad hodnoty väzby; null = bez dát */
+  vdpContext: VdpTemplateContext | null
+  /** Obrázky záznamov v prílohách jobu podľa názvu súboru */
+  vdpImages: VdpImageSources
+  /** Pridá obrázky záznamov do príloh jobu, vráti ich názvy */
+  onAddVdpImages: (files: File[]) => Promise<string[]>
+  onUpdateObject: (layerId: string, objectId: string, updates: Partial<LabelObject>) => void
+  onReorderObject: (objectId: string, action: ZOrderAction) => void
+  onMoveObjectToLayer: (objectId: string, layerId: string) => void
+}
+
+const CODE_TYPES: CodeType[] = [
+  'CODE128', 'EAN13', 'EAN8', 'UPCA', 'UPCE', 'ITF14', 'GS1128', 'GS1DM', 'GS1DATABAR',
+  'QR', 'DATAMATRIX', 'PDF417', 'CODE39', 'CODE93', 'CODABAR',
+]
+
+const H_ALIGN: { value: HorizontalAlign; label: string; title: string }[] = [
+  { value: 'left', label: '⇤', title: 'Zarovnať vľavo' },
+  { value: 'center', label: '↔', title: 'Na stred vodorovne' },
+  { value: 'right', label: '⇥', title: 'Zarovnať vpravo' },
+]
+
+const V_ALIGN: { value: VerticalAlign; label: string; title: string }[] = [
+  { value: 'top', label: '⤒', title: 'Zarovnať hore' },
+  { value: 'center', label: '↕', title: 'Na stred zvisle' },
+  { value: 'bottom', label: '⤓', title: 'Zarovnať dole' },
+]
+
+const Z_ORDER: { action: ZOrderAction; label: string }[] = [
+  { action: 'FRONT', label: 'Navrch' },
+  { action: 'FORWARD', label: 'Dopredu' },
+  { action: 'BACKWARD', label: 'Dozadu' },
+  { action: 'BACK', label: 'Naspodok' },
+]
+
+const inputClass =
+  'w-full rounded border border-slate-700 bg-slate-900 px-1.5 py-0.5 text-[11px] text-slate-100 outline-none focus:border-sky-500'
+const buttonClass =
+  'rounded border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:border-sky-500 hover:bg-sky-500/10'
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="mb-0.5 block text-[10px] text-slate-500">{label}</span>
+    {children}
+  </label>
+)
+
+const NumberInput: React.FC<{
+  value: number
+  onChange: (value: number) => void
+  step?: number
+  min?: number
+  max?: number
+}> = ({ value, onChange, step = 0.1, min, max }) => (
+  <input
+    type="number"
+    value={value}
+    step={step}
+    min={min}
+    max={max}
+    onChange={e => {
+      const next = Number(e.target.value)
+      if (e.target.value !== '' && Number.isFinite(next)) onChange(next)
+    }}
+    className={inputClass}
+  />
+)
+
+const ColorInput: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+  <input
+    type="color"
+    value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#000000'}
+    onChange={e => onChange(e.target.value)}
+    className="h-6 w-full cursor-pointer rounded border border-slate-700 bg-slate-900"
+  />
+)
+
+export const ObjectPropertiesPanel: React.FC<ObjectPropertiesPanelProps> = ({
+  layers,
+  selectedObjectId,
+  labelConfig,
+  vdpFields,
+  vdpContext,
+  vdpImages,
+  onAddVdpImages,
+  onUpdateObject,
+  onReorderObject,
+  onMoveObjectToLayer,
+}) => {
+  const found = findLabelObject(layers, selectedObjectId)
+
+  if (!found) {
+    return (
+      <div className="rounded-xl border border-slate-700 bg-slate-900/80 p-3 text-[11px] text-slate-500">
+        Vyber objekt na plátne alebo vo vrstvách.
+      </div>
+    )
+  }
+
+  const { layer, object: obj } = found
+  const update = (updates: Partial<LabelObject>) => onUpdateObject(layer.id, obj.id, updates)
+  const updateBarcode = (updates: Partial<BarcodeObject>) => update(updates)
+  const updateText = (updates: Partial<TextObject>) => update(updates)
+  const updateImage = (updates: Partial<ImageObject>) => update(updates)
+  const updateShape = (updates: Partial<ShapeObject>) => update(updates)
+
+  // Zarovnanie k referenčnému boxu etikety (TRIM / SAFE / BLEED)
+  const alignBox = referenceBoxRect(labelConfig, labelConfig.referenceBox)
+  const align = (horizontal?: HorizontalAlign, vertical?: VerticalAlign) =>
+    update(alignLabelObject(obj, alignBox, horizontal, vertical))
+
+  const handleImageFile = (file: File | undefined) => {
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      if (typeof reader.result === 'string') updateImage({ src: reader.result, name: file.name })
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Obrázky záznamov – súbory idú do príloh jobu, objekt drží ich názvy,
+  // na ktoré odkazuje stĺpec
+  const handleVdpImageFiles = async (files: FileList | null) => {
+    if (!files?.length || !isImageObject(obj)) return
+    const names = await onAddVdpImages([...files])
+    updateImage({ vdpImageNames: [...new Set([...(obj.vdpImageNames ?? []), ...names])] })
+  }
+
+  // VDP väzba – kontrola šablóny a hodnota pre aktuálny riadok
+  const fieldOptions = obj.vdpField && !vdpFields.includes(obj.vdpField) ? [...vdpFields, obj.vdpField] : vdpFields
+  const templateIssues = obj.vdpTemplate?.trim()
+    ? validateVdpTemplate(obj.vdpTemplate, vdpFields.length > 0 ? [...vdpFields, 'VALUE'] : undefined)
+    : []
+  const bound = isVdpBoundObject(obj)
+  const bindingValue = bound && vdpContext ? renderVdpBinding(obj, vdpContext).value : null
+  const resolved = resolveVdpObject(obj, vdpContext, vdpImages)
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-700 bg-slate-900/80 p-3">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-300">Objekt</h2>
+
+      <Field label="Názov">
+        <input type="text" value={obj.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+      </Field>
+
+      {/* Pozícia a rozmer */}
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="X (mm)">
+          <NumberInput value={obj.xMm} onChange={xMm => update({ xMm })} />
+        </Field>
+        <Field label="Y (mm)">
+          <NumberInput value={obj.yMm} onChange={yMm => update({ yMm })} />
+        </Field>
+        {/* Rozmer kódu vychádza z modulov, X-dimenzie a zväčšenia */}
+        {!isBarcodeObject(obj) && (
+          <>
+            <Field label="Šírka (mm)">
+              <NumberInput value={obj.widthMm} min={1} onChange={widthMm => update({ widthMm: Math.max(1, widthMm) })} />
+            </Field>
+            <Field label="Výška (mm)">
+              <NumberInput value={obj.heightMm} min={1} onChange={heightMm => update({ heightMm: Math.max(1, heightMm) })} />
+            </Field>
+          </>
+        )}
+        <Field label="Rotácia (°)">
+          <NumberInput value={obj.rotation} step={1} onChange={rotation => update({ rotation: ((rotation % 360) + 360) % 360 })} />
+        </Field>
+        <Field label="Krytie (%)">
+          <NumberInput
+            value={Math.round(obj.opacity * 100)}
+            step={5}
+            min={0}
+            max={100}
+            onChange={value => update({ opacity: Math.min(1, Math.max(0, value / 100)) })}
+          />
+        </Field>
+      </div>
+
+      {/* Zarovnanie */}
+      <div>
+        <div className="mb-1 text-[10px] text-slate-500">
+          Zarovnanie k {labelConfig.referenceBox === 'SAFE' ? 'bezpečnej zóne' : labelConfig.referenceBox === 'BLEED' ? 'spadávke' : 'orezu'}
+        </div>
+        <div className="flex gap-1">
+          {H_ALIGN.map(a => (
+            <button key={a.value} type="button" title={a.title} onClick={() => align(a.value)} className={buttonClass}>
+              {a.label}
+            </button>
+          ))}
+          <span className="mx-1 w-px bg-slate-700" />
+          {V_ALIGN.map(a => (
+            <button key={a.value} type="button" title={a.title} onClick={() => align(undefined, a.value)} className={buttonClass}>
+              {a.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Poradie a vrstva */}
+      <div className="space-y-1">
+        <div className="flex flex-wrap gap-1">
+          {Z_ORDER.map(z => (
+            <button key={z.action} type="button" onClick={() => onReorderObject(obj.id, z.action)} className={buttonClass}>
+              {z.label}
+            </button>
+          ))}
+        </div>
+        <Field label="Vrstva">
+          <select value={layer.id} onChange={e => onMoveObjectToLayer(obj.id, e.target.value)} className={inputClass}>
+            {layers.map(l => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-[11px] text-slate-400">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={obj.locked} onChange={e => update({ locked: e.target.checked })} className="h-3 w-3" />
+          Zamknúť
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={obj.visible} onChange={e => update({ visible: e.target.checked })} className="h-3 w-3" />
+          Viditeľný
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={obj.printable} onChange={e => update({ printable: e.target.checked })} className="h-3 w-3" />
+          Tlačiť
+        </label>
+      </div>
+
+      {/* Čiarový kód */}
+      {isBarcodeObject(obj) && (
+        <div className="space-y-2 border-t border-slate-700 pt-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Typ kódu">
+              <select
+                value={obj.codeType}
+                onChange={e => updateBarcode({ codeType: e.target.value as CodeType })}
+                className={inputClass}
+              >
+                {CODE_TYPES.map(type => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Farba čiar">
+              <ColorInput value={obj.strokeColor} onChange={strokeColor => updateBarcode({ strokeColor })} />
+            </Field>
+          </div>
+          <Field label="Dáta">
+            <input type="text" value={obj.value} onChange={e => updateBarcode({ value: e.target.value })} className={inputClass} />
+          </Field>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="X-dimenzia (mm)">
+              <NumberInput
+                value={obj.xDimMm}
+                step={0.01}
+                min={0.05}
+                onChange={xDimMm => updateBarcode({ xDimMm: Math.max(0.05, xDimMm) })}
+              />
+            </Field>
+            <Field label="Zväčšenie (%)">
+              <NumberInput
+                value={obj.magnificationPercent}
+                step={5}
+                min={BARCODE_MAGNIFICATION_MIN}
+                max={BARCODE_MAGNIFICATION_MAX}
+                onChange={value =>
+                  updateBarcode({
+                    magnificationPercent: Math.min(BARCODE_MAGNIFICATION_MAX, Math.max(BARCODE_MAGNIFICATION_MIN, value)),
+                  })
+                }
+              />
+            </Field>
+            <Field label="Výška čiar (mm)">
+              <NumberInput
+                value={obj.barHeightMm}
+                min={1}
+                onChange={barHeightMm => updateBarcode({ barHeightMm: Math.max(1, barHeightMm) })}
+              />
+            </Field>
+            <Field label="BWR (mm)">
+              <NumberInput
+                value={obj.barWidthReductionMm}
+                step={0.005}
+                min={0}
+                onChange={barWidthReductionMm => updateBarcode({ barWidthReductionMm: Math.max(0, barWidthReductionMm) })}
+              />
+            </Field>
+          </div>
+          <p className="text-[10px] text-slate-500">Rozmer kódu = moduly × X-dimenzia × zväčšenie; úchyt mení zväčšenie.</p>
+          <label className="flex items-center gap-1 text-[11px] text-slate-400">
+            <input
+              type="checkbox"
+              checked={obj.showHrText}
+              onChange={e => updateBarcode({ showHrText: e.target.checked })}
+              className="h-3 w-3"
+            />
+            HR text
+          </label>
+          {obj.showHrText && (
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Veľkosť HR (pt)">
+                <NumberInput value={obj.hrFontSizePt} step={0.5} min={4} onChange={hrFontSizePt => updateBarcode({ hrFontSizePt })} />
+              </Field>
+              <Field label="Vlastný HR text">
+                <input
+                  type="text"
+                  value={obj.hrCustomText ?? ''}
+                  onChange={e => updateBarcode({ hrCustomText: e.target.value || undefined })}
+                  className={inputClass}
+                />
+              </Field>
+            </div>
+          )}
+          <label className="flex items-center gap-1 text-[11px] text-slate-400">
+            <input
+              type="checkbox"
+              checked={obj.whiteBoxEnabled}
+              onChange={e => updateBarcode({ whiteBoxEnabled: e.target.checked })}
+              className="h-3 w-3"
+            />
+            Biely box
+          </label>
+        </div>
+      )}
+
+      {/* Text */}
+      {isTextObject(obj) && (
+        <div className="space-y-2 border-t border-slate-700 pt-2">
+          <Field label="Text">
+            <textarea
+              value={obj.content}
+              rows={3}
+              onChange={e => updateText({ content: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Písmo">
+              <input type="text" value={obj.fontFamily} onChange={e => updateText({ fontFamily: e.target.value })} className={inputClass} />
+            </Field>
+            <Field label="Veľkosť (pt)">
+              <NumberInput value={obj.fontSizePt} step={0.5} min={1} onChange={fontSizePt => updateText({ fontSizePt })} />
+            </Field>
+            <Field label="Farba">
+              <ColorInput value={obj.fillColor} onChange={fillColor => updateText({ fillColor })} />
+            </Field>
+            <Field label="Veľké / malé">
+              <select
+                value={obj.textTransform}
+                onChange={e => updateText({ textTransform: e.target.value as TextObject['textTransform'] })}
+                className={inputClass}
+              >
+                <option value="none">Bez zmeny</option>
+                <option value="uppercase">VEĽKÉ</option>
+                <option value="lowercase">malé</option>
+              </select>
+            </Field>
+          </div>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => updateText({ fontWeight: obj.fontWeight === 'bold' ? 'normal' : 'bold' })}
+              className={`${buttonClass} font-bold ${obj.fontWeight === 'bold' ? 'border-sky-500 bg-sky-500/20' : ''}`}
+            >
+              B
+            </button>
+            <button
+              type="button"
+              onClick={() => updateText({ fontStyle: obj.fontStyle === 'italic' ? 'normal' : 'italic' })}
+              className={`${buttonClass} italic ${obj.fontStyle === 'italic' ? 'border-sky-500 bg-sky-500/20' : ''}`}
+            >
+              I
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Obrázok */}
+      {isImageObject(obj) && (
+        <div className="space-y-2 border-t border-slate-700 pt-2">
+          <Field label="Súbor">
+            <input
+              type="file"
+              accept="image/*"
+              onChange={e => handleImageFile(e.target.files?.[0])}
+              className="w-full text-[11px] text-slate-400"
+            />
+          </Field>
+          <Field label="Prispôsobenie">
+            <select
+              value={obj.fit}
+              onChange={e => updateImage({ fit: e.target.value as ImageObject['fit'] })}
+              className={inputClass}
+            >
+              <option value="contain">Celý obrázok</option>
+              <option value="cover">Vyplniť (orezať)</option>
+              <option value="fill">Natiahnuť</option>
+              <option value="none">Bez zmeny mierky</option>
+            </select>
+          </Field>
+        </div>
+      )}
+
+      {/* VDP väzba */}
+      {(isTextObject(obj) || isImageObject(obj)) && (
+        <div className="space-y-2 border-t border-slate-700 pt-2">
+          <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">VDP väzba</div>
+          <Field label={isImageObject(obj) ? 'Stĺpec s názvom súboru' : 'Stĺpec'}>
+            <select value={obj.vdpField ?? ''} onChange={e => update({ vdpField: e.target.value || undefined })} className={inputClass}>
+              <option value="">– bez väzby –</option>
+              {fieldOptions.map(field => (
+                <option key={field} value={field}>
+                  {field}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Šablóna (má prednosť pred stĺpcom)">
+            <input
+              type="text"
+              value={obj.vdpTemplate ?? ''}
+              placeholder={isImageObject(obj) ? '{SKU}.jpg' : 'LOT {LOT} · EXP {EXPIRY|date:DD.MM.YYYY}'}
+              onChange={e => update({ vdpTemplate: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </Field>
+          {templateIssues.map(issue => (
+            <div key={issue.position + issue.message} className="text-[10px] text-red-400">
+              {formatVdpTemplateIssue(issue)}
+            </div>
+          ))}
+          {bound && (
+            <div className="rounded border border-slate-700 bg-slate-950/60 px-2 py-1 text-[10px] text-slate-400">
+              {vdpContext ? (
+                <>
+                  Záznam {vdpContext.index + 1}: <span className="text-slate-100">{bindingValue || '(prázdne)'}</span>
+                  {resolved.issues.map(issue => (
+                    <div key={issue.message} className="text-amber-400">
+                      {issue.message}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                'Bez VDP dát – na plátne je zápis väzby.'
+              )}
+            </div>
+          )}
+
+          {isTextObject(obj) && (
+            <>
+              <label className="flex items-center gap-1 text-[11px] text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={obj.shrinkToFit ?? false}
+                  onChange={e => updateText({ shrinkToFit: e.target.checked })}
+                  className="h-3 w-3"
+                />
+                Zmenšiť text do rámčeka
+              </label>
+              {obj.shrinkToFit && (
+                <div className="grid grid-cols-2 items-end gap-2">
+                  <Field label="Najmenej (pt)">
+                    <NumberInput
+                      value={obj.minFontSizePt ?? DEFAULT_MIN_FONT_SIZE_PT}
+                      step={0.5}
+                      min={1}
+                      onChange={minFontSizePt => updateText({ minFontSizePt: Math.max(1, minFontSizePt) })}
+                    />
+                  </Field>
+                  {isTextObject(resolved.object) && (
+                    <span className="pb-1 text-[10px] text-slate-500">Teraz {resolved.object.fontSizePt} pt</span>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {isImageObject(obj) && (
+            <>
+              <Field label="Obrázky záznamov (podľa názvu súboru)">
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={e => handleVdpImageFiles(e.target.files)}
+                  className="w-full text-[11px] text-slate-400"
+                />
+              </Field>
+              {obj.vdpImageNames && (
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                  <span title={obj.vdpImageNames.join('\n')}>{obj.vdpImageNames.length} obrázkov</span>
+                  <button type="button" onClick={() => updateImage({ vdpImageNames: undefined })} className={buttonClass}>
+                    Odstrániť
+                  </button>
+                </div>
+              )}
+              <div className="text-[10px] text-slate-500">Súbor objektu vyššie sa použije, keď záznam nemá obrázok.</div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Tvar */}
+      {isShapeObject(obj) && (
+        <div className="grid grid-cols-2 gap-2 border-t border-slate-700 pt-2">
+          {obj.type !== 'line' && (
+            <Field label="Výplň">
+              <ColorInput value={obj.fillColor} onChange={fillColor => updateShape({ fillColor })} />
+            </Field>
+          )}
+          <Field label="Obrys">
+            <ColorInput value={obj.strokeColor} onChange={strokeColor => updateShape({ strokeColor })} />
+          </Field>
+          <Field label="Hrúbka obrysu (mm)">
+            <NumberInput value={obj.strokeWidthMm} step={0.05} min={0} onChange={strokeWidthMm => updateShape({ strokeWidthMm: Math.max(0, strokeWidthMm) })} />
+          </Field>
+          {obj.type === 'rectangle' && (
+            <Field label="Zaoblenie (mm)">
+              <NumberInput value={obj.cornerRadiusMm} min={0} onChange={cornerRadiusMm => updateShape({ cornerRadiusMm: Math.max(0, cornerRadiusMm) })} />
+            </Field>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ObjectPropertiesPanel
@@ -1,20 +1,38 @@
 import React, { useMemo } from 'react'
 import type { RefObject } from 'react'
 import type { PrintingProfile } from '../../config/printingProfiles'
-import type { CodeType, VdpMode, PrintDirection } from '../../types/barcodeTypes'
+import type { CodeType, CompositeComponent, DataBarVariant, VdpMode, VdpRandomConfig, PrintDirection } from '../../types/barcodeTypes'
 import { QRCodeSVG } from 'qrcode.react'
+import { barcodeTypeForCodeType, renderBwipImage } from '../../barcodeQuality'
+import {
+  ADD_ON_GAP_DEFAULT,
+  ADD_ON_QUIET_ZONE_MODULES,
+  addOnModules,
+  addOnNumberSets,
+  expandUpcE,
+  splitAddOn,
+  upcENumberSets,
+} from '../../lib/eanUpc'
+import { formatVdpTemplateIssue, renderVdpPattern } from '../../lib/vdp'
+import { moduleRects } from '../../lib/vdpPdf'
 
 type PreviewPanelProps = {
   codeType: CodeType
+  dataBarVariant: DataBarVariant
+  dataBarSegments: number
+  /** 2D zložka GS1 Composite (undefined = bez kompozitu) */
+  composite?: CompositeComponent
   rawCodeValue: string
 
   vdpEnabled: boolean
+  serialStart: number
   serialCurrent: number
   serialPadding: number
   vdpPattern: string
   vdpMode: VdpMode
   vdpPrefix: string
   vdpAlphaStartChar: string
+  vdpRandom?: VdpRandomConfig
 
   rotation: 0 | 90 | 180 | 270
   printDirection: PrintDirection
@@ -50,15 +68,18 @@ type PreviewPanelProps = {
 
 const mmLabel = (v: number) => `${v.toFixed(2).replace('.', ',')}mm`
 
-// Norma EAN-13 pri 100 %
+// Norma EAN/UPC pri 100 %
 const EAN13_BASE = {
-  totalWidthMm: 37.29,
-  quietLeftMm: 3.63,
-  coreWidthMm: 31.35,
-  quietRightMm: 2.31,
+  xDimMm: 0.33,
   barHeightMm: 22.85,
   hrTextHeightMm: 3.06, // výška pre HR text pod čiarami
-  modulesCore: 95, // celé jadro (guardy + dáta, bez quiet)
+}
+
+// Quiet zóny a jadro (guardy + dáta) EAN/UPC v moduloch
+const EAN_UPC_LAYOUT: Partial<Record<CodeType, { quietLeft: number; quietRight: number; modules: number }>> = {
+  EAN13: { quietLeft: 11, quietRight: 7, modules: 95 },
+  UPCA: { quietLeft: 9, quietRight: 9, modules: 95 },
+  UPCE: { quietLeft: 9, quietRight: 7, modules: 51 },
 }
 
 // Parity pre prvú číslicu
@@ -160,11 +181,92 @@ function encodeEan13Pattern(digits13: string): string {
   return pattern
 }
 
+function encodeUpcEPattern(digits8: string): string {
+  if (!/^[01][0-9]{7}$/.test(digits8)) return ''
+
+  // Číselný systém a kontrolná číslica sú zakódované paritou
+  const sets = upcENumberSets(Number(digits8[0]), Number(digits8[7]))
+  let pattern = '101'
+  for (let i = 0; i < 6; i++) {
+    pattern += sets[i] === 'A' ? L_CODES[digits8[i + 1]] : G_CODES[digits8[i + 1]]
+  }
+  return pattern + '010101'
+}
+
+// Doplnok EAN-2/EAN-5: štart 1011, znaky oddelené 01
+function encodeAddOnPattern(addOn: string): string {
+  const sets = addOnNumberSets(addOn)
+  if (!sets) return ''
+  return '1011' + addOn.split('').map((d, i) => (sets[i] === 'A' ? L_CODES[d] : G_CODES[d])).join('01')
+}
+
+type EanUpcInfo = {
+  digits: string
+  pattern: string
+  /** Číslica vľavo mimo symbolu */
+  hrLeft: string
+  /** Skupiny číslic pod čiarami so stredom v moduloch hlavného symbolu */
+  hrGroups: Array<{ text: string; centerModule: number }>
+  /** Vpravo mimo symbolu – kontrolná číslica UPC, pri EAN-13 značka quiet zóny */
+  hrRight: string
+}
+
+function eanUpcInfo(codeType: CodeType, value: string): EanUpcInfo | null {
+  const digitsOnly = value.replace(/[^0-9]/g, '')
+
+  if (codeType === 'EAN13') {
+    if (digitsOnly.length < 12) return null
+    const full13 = digitsOnly.slice(0, 12) + computeEan13CheckDigit(digitsOnly.slice(0, 12))
+    return {
+      digits: full13,
+      pattern: encodeEan13Pattern(full13),
+      hrLeft: full13[0],
+      hrGroups: [
+        { text: full13.slice(1, 7), centerModule: 24 },
+        { text: full13.slice(7, 13), centerModule: 71 },
+      ],
+      hrRight: '>',
+    }
+  }
+
+  if (codeType === 'UPCA') {
+    if (digitsOnly.length < 11) return null
+    const full12 = digitsOnly.slice(0, 11) + computeEan13CheckDigit('0' + digitsOnly.slice(0, 11))
+    return {
+      digits: full12,
+      pattern: encodeEan13Pattern('0' + full12),
+      hrLeft: full12[0],
+      hrGroups: [
+        { text: full12.slice(1, 6), centerModule: 27.5 },
+        { text: full12.slice(6, 11), centerModule: 67.5 },
+      ],
+      hrRight: full12[11],
+    }
+  }
+
+  if (codeType === 'UPCE') {
+    const upca = expandUpcE(digitsOnly.slice(0, 7))
+    if (!upca) return null
+    const full8 = digitsOnly.slice(0, 7) + upca[11]
+    return {
+      digits: full8,
+      pattern: encodeUpcEPattern(full8),
+      hrLeft: full8[0],
+      hrGroups: [{ text: full8.slice(1, 7), centerModule: 24 }],
+      hrRight: full8[7],
+    }
+  }
+  return null
+}
+
 // ===================== KOMPONENT =====================
 
 export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
   const {
     codeType,
+    dataBarVariant,
+    dataBarSegments,
+    composite,
     rawCodeValue,
     rotation,
     printDirection,
@@ -184,12 +286,14 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
     hrFontSizePt,
     showHrText,
     vdpEnabled,
+    serialStart,
     serialCurrent,
     serialPadding,
     vdpPattern,
     vdpMode,
     vdpPrefix,
     vdpAlphaStartChar,
+    vdpRandom,
     qrLogoDataUrl,
     qrLogoScale,
     hrCustomText,
@@ -201,60 +305,83 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
   const mmToPx = (mm: number) => mm * 6 // 6 px / mm
 
   /* ========= VDP string (ako "raw text") ========= */
-  const baseValue = useMemo(() => {
-    if (!vdpEnabled) return rawCodeValue
-
-    const serialStr = String(serialCurrent).padStart(serialPadding, '0')
-    const alphaStr = vdpMode === 'ALPHA' ? vdpAlphaStartChar : vdpAlphaStartChar
-
-    const base = vdpPattern
-      .replace('[SERIAL]', serialStr)
-      .replace('[PREFIX]', vdpPrefix)
-      .replace('[ALPHA]', alphaStr)
-
-    return base || rawCodeValue
+  // Chyby šablóny sa ukážu pod hlavičkou – náhľad medzitým kreslí surovú hodnotu
+  const vdpPatternResult = useMemo(() => {
+    if (!vdpEnabled) return null
+
+    return renderVdpPattern(
+      serialCurrent,
+      serialPadding,
+      vdpPattern,
+      vdpMode,
+      vdpPrefix,
+      vdpAlphaStartChar,
+      serialCurrent - serialStart,
+      vdpRandom,
+    )
   }, [
     vdpEnabled,
-    rawCodeValue,
+    serialStart,
     serialCurrent,
     serialPadding,
     vdpPattern,
     vdpMode,
     vdpPrefix,
     vdpAlphaStartChar,
+    vdpRandom,
   ])
 
-  /* ========= EAN-13 info: 13 číslic, human readable, pattern ========= */
-  const eanInfo = useMemo(() => {
-    if (codeType !== 'EAN13') return null
-
-    const digitsOnly = baseValue.replace(/[^0-9]/g, '')
-    if (digitsOnly.length < 12) return null
+  const baseValue = vdpPatternResult?.value || rawCodeValue
+
+  /* ========= GS1 Composite – symbol z bwip-js (1 px = 1 modul) ========= */
+  const compositeSymbol = useMemo(() => {
+    if (!composite) return null
+    const barcodeType = barcodeTypeForCodeType(codeType, dataBarVariant)
+    if (!barcodeType) return null
+
+    try {
+      const image = renderBwipImage(barcodeType, baseValue, {
+        scale: 1,
+        padding: 0,
+        composite,
+        segments: dataBarSegments,
+      })
+      return { widthModules: image.width, heightModules: image.height, rects: moduleRects(image) }
+    } catch {
+      // Neplatné dáta – chybu hlási validácia v ľavom paneli
+      return null
+    }
+  }, [composite, codeType, dataBarVariant, dataBarSegments, baseValue])
 
-    const body12 = digitsOnly.slice(0, 12)
-    const check = computeEan13CheckDigit(body12)
-    const full13 = body12 + check
+  /* ========= EAN/UPC: moduly, číslice, human readable, doplnok ========= */
+  const eanLayout = composite ? undefined : EAN_UPC_LAYOUT[codeType]
+  const eanAddOnValue = splitAddOn(baseValue).addOn
+  const eanAddOn = eanLayout && addOnNumberSets(eanAddOnValue) ? eanAddOnValue : ''
 
-    const pattern = encodeEan13Pattern(full13)
-    if (!pattern) return null
+  const eanInfo = useMemo(() => {
+    if (!eanLayout) return null
+    const info = eanUpcInfo(codeType, splitAddOn(baseValue).main)
+    return info?.pattern ? info : null
+  }, [codeType, eanLayout, baseValue])
 
-    return {
-      digits: full13,
-      firstDigit: full13[0],
-      leftGroup: full13.slice(1, 7),
-      rightGroup: full13.slice(7, 13),
-      pattern,
-    }
-  }, [codeType, baseValue])
+  // Moduly za hlavným symbolom: medzera + doplnok, pravá quiet zóna 5X
+  const addOnOffsetModules = eanLayout ? eanLayout.modules + ADD_ON_GAP_DEFAULT : 0
+  const eanCoreModules = eanLayout
+    ? eanAddOn ? addOnOffsetModules + addOnModules(eanAddOn.length) : eanLayout.modules
+    : 0
 
-  const previewValue = codeType === 'EAN13' && eanInfo ? eanInfo.digits : baseValue
+  const previewValue = eanInfo ? [eanInfo.digits, eanAddOn].filter(Boolean).join(' ') : baseValue
 
   // Je to 2D kód (QR, DataMatrix)?
   const is2DCode = codeType === 'QR' || codeType === 'DATAMATRIX' || codeType === 'PDF417'
 
   /* ========= Výška čiar v mm ========= */
   const barHeightMm = useMemo(() => {
-    if (codeType === 'EAN13') {
+    // Kompozit – 2D zložka, separátor a lineárny kód v mierke X rozmeru
+    if (compositeSymbol) {
+      return compositeSymbol.heightModules * (xDimMm > 0 ? xDimMm : 0.33)
+    }
+    if (eanLayout) {
       const scale = (magnificationPercent || 100) / 100
       return EAN13_BASE.barHeightMm * scale
     }
@@ -267,16 +394,16 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
     }
     if (!exportDpi || barHeightPx <= 0) return 0
     return (barHeightPx / exportDpi) * 25.4
-  }, [codeType, magnificationPercent, exportDpi, barHeightPx, is2DCode, quietZoneMm, labelWidthMm, labelHeightMm, showHrText])
+  }, [eanLayout, compositeSymbol, xDimMm, magnificationPercent, exportDpi, barHeightPx, is2DCode, quietZoneMm, labelWidthMm, labelHeightMm, showHrText])
 
   /* ========= HR text height v mm ========= */
   const hrTextHeightMm = useMemo(() => {
-    if (codeType === 'EAN13') {
+    if (eanLayout) {
       const scale = (magnificationPercent || 100) / 100
       return EAN13_BASE.hrTextHeightMm * scale
     }
     return showHrText ? 3 : 0
-  }, [codeType, magnificationPercent, showHrText])
+  }, [eanLayout, magnificationPercent, showHrText])
 
   /* ========= Total height (bars + HR text) v mm ========= */
   const totalHeightMm = useMemo(() => {
@@ -285,13 +412,25 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
 
   /* ========= Quiet / core / total v mm ========= */
   const dims = useMemo(() => {
-    if (codeType === 'EAN13') {
-      const scale = (magnificationPercent || 100) / 100
+    if (compositeSymbol) {
+      const q = quietZoneMm > 0 ? quietZoneMm : 2.5
+      const core = compositeSymbol.widthModules * (xDimMm > 0 ? xDimMm : 0.33)
       return {
-        quietLeftMm: EAN13_BASE.quietLeftMm * scale,
-        quietRightMm: EAN13_BASE.quietRightMm * scale,
-        coreWidthMm: EAN13_BASE.coreWidthMm * scale,
-        totalWidthMm: EAN13_BASE.totalWidthMm * scale,
+        quietLeftMm: q,
+        quietRightMm: q,
+        coreWidthMm: core,
+        totalWidthMm: core + 2 * q,
+      }
+    }
+
+    if (eanLayout) {
+      const moduleMm = EAN13_BASE.xDimMm * ((magnificationPercent || 100) / 100)
+      const quietRight = eanAddOn ? ADD_ON_QUIET_ZONE_MODULES : eanLayout.quietRight
+      return {
+        quietLeftMm: eanLayout.quietLeft * moduleMm,
+        quietRightMm: quietRight * moduleMm,
+        coreWidthMm: eanCoreModules * moduleMm,
+        totalWidthMm: (eanLayout.quietLeft + eanCoreModules + quietRight) * moduleMm,
       }
     }
 
@@ -316,7 +455,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
       coreWidthMm: core,
       totalWidthMm: core + 2 * q,
     }
-  }, [codeType, magnificationPercent, quietZoneMm, labelWidthMm, is2DCode, labelHeightMm, showHrText])
+  }, [eanLayout, eanAddOn, eanCoreModules, compositeSymbol, xDimMm, magnificationPercent, quietZoneMm, labelWidthMm, is2DCode, labelHeightMm, showHrText])
 
   const { quietLeftMm, quietRightMm, coreWidthMm, totalWidthMm } = dims
 
@@ -339,34 +478,41 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
   const coreWidthPx = mmToPx(coreWidthMm)
   const quietRightPx = mmToPx(quietRightMm)
 
+  // Doplnok má čiary skrátené zhora, nad nimi je jeho HR text
+  const eanModulePx = eanCoreModules > 0 ? coreWidthPx / eanCoreModules : 0
+  const addOnTopPx = showHrText ? hrTextHeightPx : 0
+
   /* ========= Bars ========= */
   const bars = useMemo(() => {
-    // reálny EAN-13 pattern
-    if (codeType === 'EAN13' && eanInfo?.pattern) {
-      const barsRes: Array<{ x: number; w: number }> = []
-      const modulePx = coreWidthPx / EAN13_BASE.modulesCore
-      const pattern = eanInfo.pattern
-
-      let i = 0
-      while (i < pattern.length) {
-        if (pattern[i] === '1') {
-          let j = i
-          while (j < pattern.length && pattern[j] === '1') j++
-          const runLen = j - i
-          barsRes.push({
-            x: quietLeftPx + i * modulePx,
-            w: runLen * modulePx,
-          })
-          i = j
-        } else {
-          i++
+    // reálny EAN/UPC pattern, za ním doplnok po medzere
+    if (eanInfo) {
+      const barsRes: Array<{ x: number; w: number; top?: number }> = []
+      const pushRuns = (pattern: string, offsetModules: number, top?: number) => {
+        let i = 0
+        while (i < pattern.length) {
+          if (pattern[i] === '1') {
+            let j = i
+            while (j < pattern.length && pattern[j] === '1') j++
+            const runLen = j - i
+            barsRes.push({
+              x: quietLeftPx + (offsetModules + i) * eanModulePx,
+              w: runLen * eanModulePx,
+              top,
+            })
+            i = j
+          } else {
+            i++
+          }
         }
       }
+
+      pushRuns(eanInfo.pattern, 0)
+      if (eanAddOn) pushRuns(encodeAddOnPattern(eanAddOn), addOnOffsetModules, addOnTopPx)
       return barsRes
     }
 
     // fallback pre ostatné typy – jednoduchý pattern
-    const out: Array<{ x: number; w: number }> = []
+    const out: Array<{ x: number; w: number; top?: number }> = []
     if (!previewValue) return out
 
     const modulePx = xDimMm > 0 ? mmToPx(xDimMm) : 2
@@ -389,11 +535,9 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
     }
 
     return out
-  }, [codeType, eanInfo, coreWidthPx, quietLeftPx, previewValue, xDimMm])
+  }, [eanInfo, eanAddOn, eanModulePx, addOnOffsetModules, addOnTopPx, coreWidthPx, quietLeftPx, previewValue, xDimMm])
 
-  const effectiveHrText =
-    hrCustomText ||
-    (codeType === 'EAN13' && eanInfo ? `${eanInfo.firstDigit}  ${eanInfo.leftGroup}  ${eanInfo.rightGroup}` : previewValue)
+  const effectiveHrText = hrCustomText || previewValue
 
   const charCount = (previewValue || '').length
 
@@ -413,7 +557,8 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
         <div className="flex w-full items-center justify-between text-xs text-slate-300">
           <div className="flex flex-col gap-0.5">
             <span className="font-semibold">
-              Náhľad kódu {codeType}{' '}
+              Náhľad kódu {codeType}{compositeSymbol ? ' Composite' : ''}
+              {eanAddOn ? ` + EAN-${eanAddOn.length}` : ''}{' '}
               {magnificationPercent ? `· ${magnificationPercent}%` : null}
             </span>
             <span className="text-[11px] text-slate-400">
@@ -433,6 +578,12 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
           </div>
         </div>
 
+        {vdpPatternResult && vdpPatternResult.issues.length > 0 && (
+          <p className="w-full rounded border border-red-700 bg-red-900/40 p-1.5 text-[10px] text-red-200">
+            VDP vzor: {vdpPatternResult.issues.map(formatVdpTemplateIssue).join(' · ')}
+          </p>
+        )}
+
         {/* SVG náhľad */}
         <div className="flex w-full flex-1 items-center justify-center">
           <svg
@@ -496,7 +647,19 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
                   />
 
                   {/* reálne bary alebo 2D kód */}
-                  {(codeType === 'QR' || codeType === 'DATAMATRIX') ? (
+                  {compositeSymbol ? (
+                    <g fill={barColor}>
+                      {compositeSymbol.rects.map((r, idx) => (
+                        <rect
+                          key={idx}
+                          x={x0 + quietLeftPx + (r.x * coreWidthPx) / compositeSymbol.widthModules}
+                          y={barTop + (r.y * barHeightPxCalc) / compositeSymbol.heightModules}
+                          width={(r.w * coreWidthPx) / compositeSymbol.widthModules}
+                          height={(r.h * barHeightPxCalc) / compositeSymbol.heightModules}
+                        />
+                      ))}
+                    </g>
+                  ) : (codeType === 'QR' || codeType === 'DATAMATRIX') ? (
                     <foreignObject
                       x={x0 + quietLeftPx}
                       y={barTop}
@@ -525,17 +688,17 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
                         <rect
                           key={idx}
                           x={x0 + b.x}
-                          y={barTop}
+                          y={barTop + (b.top ?? 0)}
                           width={b.w}
-                          height={barHeightPxCalc}
+                          height={barHeightPxCalc - (b.top ?? 0)}
                           fill={barColor}
                         />
                       ))}
                     </g>
                   )}
 
-                  {/* HR text pre EAN-13 - formát: 8  581234  123458  > */}
-                  {showHrText && codeType === 'EAN13' && eanInfo && (
+                  {/* HR text pre EAN/UPC - formát: 8  581234  123458  > */}
+                  {showHrText && eanInfo && (
                     <g fontSize={hrFontSizePt} fill={textColor} fontFamily="monospace">
                       {/* Prvá číslica - vľavo od quiet zóny */}
                       <text
@@ -543,37 +706,42 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = props => {
                         y={hrTextY}
                         textAnchor="end"
                       >
-                        {eanInfo.firstDigit}
-                      </text>
-                      {/* Ľavá skupina 6 číslic */}
-                      <text
-                        x={x0 + quietLeftPx + (coreWidthPx / 2 - 5) / 2 + 3}
-                        y={hrTextY}
-                        textAnchor="middle"
-                      >
-                        {eanInfo.leftGroup}
-                      </text>
-                      {/* Pravá skupina 6 číslic */}
-                      <text
-                        x={x0 + quietLeftPx + coreWidthPx / 2 + 5 + (coreWidthPx / 2 - 5) / 2 - 3}
-                        y={hrTextY}
-                        textAnchor="middle"
-                      >
-                        {eanInfo.rightGroup}
+                        {eanInfo.hrLeft}
                       </text>
-                      {/* > symbol vpravo */}
+                      {/* Skupiny číslic pod čiarami */}
+                      {eanInfo.hrGroups.map(group => (
+                        <text
+                          key={group.centerModule}
+                          x={x0 + quietLeftPx + group.centerModule * eanModulePx}
+                          y={hrTextY}
+                          textAnchor="middle"
+                        >
+                          {group.text}
+                        </text>
+                      ))}
+                      {/* Kontrolná číslica UPC za symbolom, > pri EAN-13 až za doplnkom */}
                       <text
-                        x={x0 + quietLeftPx + coreWidthPx + 8}
+                        x={x0 + quietLeftPx + (codeType === 'EAN13' ? coreWidthPx : (eanLayout?.modules ?? 0) * eanModulePx) + 8}
                         y={hrTextY}
                         textAnchor="start"
                       >
-                        &gt;
+                        {eanInfo.hrRight}
                       </text>
+                      {/* Doplnok – číslice nad jeho čiarami */}
+                      {eanAddOn && (
+                        <text
+                          x={x0 + quietLeftPx + (addOnOffsetModules + addOnModules(eanAddOn.length) / 2) * eanModulePx}
+                          y={barTop + addOnTopPx - 4}
+                          textAnchor="middle"
+                        >
+                          {eanAddOn}
+                        </text>
+                      )}
                     </g>
                   )}
 
                   {/* HR text pre ostatné typy */}
-                  {showHrText && codeType !== 'EAN13' && (
+                  {showHrText && !eanInfo && (
                     <text
                       x={x0 + barcodeWidthPx / 2}
                       y={hrTextY}
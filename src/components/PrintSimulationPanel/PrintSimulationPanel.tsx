@@ -0,0 +1,254 @@
+// src/components/PrintSimulationPanel/PrintSimulationPanel.tsx
+import React, { useState, useMemo, useCallback, useRef } from 'react'
+import type { CodeType, CompositeComponent, DataBarVariant } from '../../types/barcodeTypes'
+import type { PrintingProfile } from '../../config/printingProfiles'
+import type { PrintSimulationResult } from '../../barcodeQuality'
+import {
+  barcodeTypeForCodeType,
+  compareBarWidthReductions,
+  createBwipRenderer,
+  gainSteps,
+  getGradeColor,
+  minimumGradeForProfile,
+  pressModelForProfile,
+  recommendBarWidthReduction,
+} from '../../barcodeQuality'
+
+interface PrintSimulationPanelProps {
+  codeType: CodeType
+  dataBarVariant?: DataBarVariant
+  dataBarSegments?: number
+  /** 2D zložka GS1 Composite (undefined = bez kompozitu) */
+  composite?: CompositeComponent
+  codeValue: string
+  xDimMm: number
+  barWidthReductionMm: number
+  activeProfile: PrintingProfile | null
+  onApplyBwr: (bwrMm: number) => void
+}
+
+/** Rozlíšenie vykresleného symbolu (bwip scale 10 = 10 px / modul) */
+const MODULE_SIZE_PX = 10
+
+const roundMm = (v: number) => Math.round(v * 1000) / 1000
+
+export const PrintSimulationPanel: React.FC<PrintSimulationPanelProps> = ({
+  codeType,
+  dataBarVariant,
+  dataBarSegments,
+  composite,
+  codeValue,
+  xDimMm,
+  barWidthReductionMm,
+  activeProfile,
+  onApplyBwr,
+}) => {
+  const model = useMemo(
+    () => (activeProfile ? pressModelForProfile(activeProfile) : { expectedGainMm: 0.025, maxGainMm: 0.1, blurMm: 0.02 }),
+    [activeProfile],
+  )
+  const [maxGainMm, setMaxGainMm] = useState<number | null>(null)
+  const [blurMm, setBlurMm] = useState<number | null>(null)
+  const [stepCount, setStepCount] = useState(9)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [results, setResults] = useState<PrintSimulationResult[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const barcodeType = barcodeTypeForCodeType(codeType, dataBarVariant)
+  const minimumGrade = minimumGradeForProfile(activeProfile)
+  const effectiveMaxGain = maxGainMm ?? model.maxGainMm
+  const effectiveBlur = blurMm ?? model.blurMm
+
+  // Kandidáti BWR: bez BWR, aktuálne BWR a rozsah profilu
+  const bwrCandidates = useMemo(() => {
+    const values = [0, barWidthReductionMm]
+    if (activeProfile) {
+      const { bwrMmMin, bwrMmMax } = activeProfile.limits
+      values.push(bwrMmMin, (bwrMmMin + bwrMmMax) / 2, bwrMmMax)
+    }
+    return [...new Set(values.map(roundMm))].sort((a, b) => a - b)
+  }, [activeProfile, barWidthReductionMm])
+
+  const handleSimulate = useCallback(async () => {
+    if (!barcodeType || !codeValue || xDimMm <= 0) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setResults([])
+    setError(null)
+    setProgress({ done: 0, total: 0 })
+    try {
+      const renderer = createBwipRenderer(barcodeType, { gs1: codeType === 'GS1DM', segments: dataBarSegments, composite })
+      const imageData = await renderer(codeValue, 0)
+      const simulated = await compareBarWidthReductions(imageData, bwrCandidates, {
+        barcodeType,
+        xDimensionMm: xDimMm,
+        moduleSizePx: MODULE_SIZE_PX,
+        blurMm: effectiveBlur,
+        gainStepsMm: gainSteps(effectiveMaxGain, stepCount),
+        minimumGrade,
+        expectedData: codeValue,
+        composite: composite !== undefined,
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      })
+      setResults(simulated)
+    } catch (err) {
+      console.error('Print simulation failed:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }, [barcodeType, codeType, dataBarSegments, composite, codeValue, xDimMm, bwrCandidates, effectiveBlur, effectiveMaxGain, stepCount, minimumGrade])
+
+  const recommended = useMemo(
+    () => recommendBarWidthReduction(results, model.expectedGainMm),
+    [results, model.expectedGainMm],
+  )
+
+  const gainColumns = results[0]?.steps.map(s => s.gainMm) ?? []
+
+  return (
+    <div className="rounded-xl border border-slate-600 bg-slate-800/50 p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-base font-semibold text-white">
+          <span>🧪</span>
+          Simulácia tlače
+        </h2>
+        {progress ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="rounded bg-red-600 px-2 py-0.5 text-[10px] text-white hover:bg-red-500"
+          >
+            Zastaviť
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleSimulate}
+            disabled={!barcodeType || !codeValue}
+            className="rounded bg-amber-600 px-2 py-0.5 text-[10px] text-white hover:bg-amber-500 disabled:opacity-50"
+          >
+            Simulovať
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="text-[9px] text-slate-500">Max. prírastok (mm)</label>
+          <input
+            type="number"
+            step="0.005"
+            min={0}
+            value={roundMm(effectiveMaxGain)}
+            onChange={e => setMaxGainMm(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+          />
+        </div>
+        <div>
+          <label className="text-[9px] text-slate-500">Rozmazanie σ (mm)</label>
+          <input
+            type="number"
+            step="0.005"
+            min={0}
+            value={roundMm(effectiveBlur)}
+            onChange={e => setBlurMm(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+          />
+        </div>
+        <div>
+          <label className="text-[9px] text-slate-500">Kroky</label>
+          <input
+            type="number"
+            min={2}
+            max={21}
+            value={stepCount}
+            onChange={e => setStepCount(Math.min(21, Math.max(2, parseInt(e.target.value) || 2)))}
+            className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+          />
+        </div>
+      </div>
+
+      <div className="mt-2 text-[9px] text-slate-400">
+        {activeProfile
+          ? `Profil ${activeProfile.label}: očakávaný prírastok ${model.expectedGainMm} mm · min. grade ${minimumGrade}`
+          : `Bez profilu · min. grade ${minimumGrade}`}
+        {!barcodeType && ' · tento typ kódu nie je možné verifikovať'}
+      </div>
+
+      {progress && (
+        <div className="mt-2 text-[9px] text-slate-400">
+          Simulujem {progress.done} / {progress.total}...
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-2 rounded border border-red-500/50 bg-red-500/10 px-2 py-1 text-[9px] text-red-300">
+          {error}
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-center text-[9px]">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="px-1 text-left font-normal">BWR \ prírastok</th>
+                  {gainColumns.map(gain => (
+                    <th key={gain} className="px-1 font-normal">{gain.toFixed(3)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr
+                    key={result.bwrMm}
+                    className={recommended?.bwrMm === result.bwrMm ? 'bg-sky-500/10' : ''}
+                  >
+                    <td className="px-1 text-left font-mono text-slate-300">{result.bwrMm.toFixed(3)}</td>
+                    {result.steps.map(step => (
+                      <td key={step.gainMm} className="px-0.5 py-0.5">
+                        <div
+                          className="rounded py-0.5 font-semibold text-slate-900"
+                          style={{ background: getGradeColor(step.overallGrade) }}
+                          title={`${step.numericGrade.toFixed(1)} · čistý prírastok ${step.netGainMm.toFixed(3)} mm`}
+                        >
+                          {step.overallGrade}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {recommended && (
+            <div className="flex items-center justify-between rounded border border-sky-500/50 bg-sky-500/10 px-2 py-1 text-[10px] text-sky-200">
+              <span>
+                Odporúčané BWR {recommended.bwrMm.toFixed(3)} mm
+                {recommended.maxPassingGainMm !== null
+                  ? ` · vyhovuje do prírastku ${recommended.maxPassingGainMm.toFixed(3)} mm`
+                  : ' · žiadny prírastok nevyhovuje'}
+              </span>
+              <button
+                type="button"
+                onClick={() => onApplyBwr(recommended.bwrMm)}
+                className="rounded border border-sky-500/50 bg-sky-500/20 px-1.5 py-0.5 text-[9px] text-sky-100 hover:bg-sky-500/30"
+              >
+                Použiť
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PrintSimulationPanel
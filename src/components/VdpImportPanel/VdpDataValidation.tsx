@@ -0,0 +1,216 @@
+// src/components/VdpImportPanel/VdpDataValidation.tsx
+import React, { useMemo, useState } from 'react'
+import type { VdpImportRow, VdpImportState, VdpValidationRules } from '../../types/barcodeTypes'
+import {
+  DEFAULT_VDP_VALIDATION_RULES,
+  cleanVdpImport,
+  validateVdpImport,
+  vdpValidationReportToCsv,
+} from '../../lib/vdpValidation'
+
+export type VdpDataValidationProps = {
+  importState: VdpImportState
+  rules?: VdpValidationRules
+  onRulesChange: (rules: VdpValidationRules) => void
+  /** Vygenerovaný kód riadku (duplicity podľa kódu) */
+  renderRow: (row: VdpImportRow) => string
+  /** Import po automatickej oprave / vylúčení riadkov */
+  onApply: (state: VdpImportState) => void
+  onSelectRow?: (rowIndex: number) => void
+}
+
+const MAX_LISTED_ISSUES = 50
+
+export const VdpDataValidation: React.FC<VdpDataValidationProps> = ({
+  importState,
+  rules = DEFAULT_VDP_VALIDATION_RULES,
+  onRulesChange,
+  renderRow,
+  onApply,
+  onSelectRow,
+}) => {
+  const [message, setMessage] = useState<string | null>(null)
+
+  const validation = useMemo(
+    () => validateVdpImport(importState, { rules, renderRow }),
+    [importState, rules, renderRow],
+  )
+
+  const updateRules = (patch: Partial<VdpValidationRules>) => onRulesChange({ ...rules, ...patch })
+
+  const handleDownloadReport = () => {
+    const blob = new Blob([vdpValidationReportToCsv(validation)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = importState.fileName
+      ? importState.fileName.replace(/\.[^.]+$/, '') + '_validation.csv'
+      : 'vdp_validation.csv'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleClean = (exclude: boolean) => {
+    const result = cleanVdpImport(importState, validation, { fix: true, exclude }, { rules, renderRow })
+    onApply(result.state)
+    setMessage(
+      `Opravených hodnôt: ${result.fixedValues}` +
+        (exclude ? ` · vylúčené riadky: ${result.excludedRows.length ? result.excludedRows.join(', ') : 'žiadne'}` : ''),
+    )
+  }
+
+  const fixableIssues = validation.issues.filter(issue => issue.fix !== undefined).length
+
+  return (
+    <div className="rounded-md border border-slate-700 bg-slate-900/60 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-medium uppercase tracking-wide text-slate-400">
+          Kontrola dát
+        </span>
+        <span className="text-[10px] text-slate-500">{validation.totalRows} riadkov</span>
+      </div>
+
+      <div className="mb-2 grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] text-slate-300">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={rules.gtinCheckDigit}
+            onChange={e => updateRules({ gtinCheckDigit: e.target.checked })}
+            className="h-3 w-3"
+          />
+          Kontrolná číslica GTIN
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={rules.dateOrder}
+            onChange={e => updateRules({ dateOrder: e.target.checked })}
+            className="h-3 w-3"
+          />
+          Spotreba po dátume výroby
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={rules.rejectExpired}
+            onChange={e => updateRules({ rejectExpired: e.target.checked })}
+            className="h-3 w-3"
+          />
+          Odmietnuť expirované
+        </label>
+        <label className="flex items-center justify-between gap-1.5">
+          Min. trvanlivosť (dni)
+          <input
+            type="number"
+            min={0}
+            value={rules.minShelfLifeDays}
+            onChange={e => updateRules({ minShelfLifeDays: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-14 rounded border border-slate-600 bg-slate-900 px-1 py-0.5 text-[10px] text-slate-200"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-1.5">
+          LOT max. znakov
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={rules.lotMaxLength}
+            onChange={e => updateRules({ lotMaxLength: Math.max(1, parseInt(e.target.value) || 20) })}
+            className="w-14 rounded border border-slate-600 bg-slate-900 px-1 py-0.5 text-[10px] text-slate-200"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-1.5">
+          LOT znaky
+          <select
+            value={rules.lotCharset}
+            onChange={e => updateRules({ lotCharset: e.target.value as VdpValidationRules['lotCharset'] })}
+            className="rounded border border-slate-600 bg-slate-900 px-1 py-0.5 text-[10px] text-slate-200"
+          >
+            <option value="CSET82">GS1 (CSET 82)</option>
+            <option value="ALNUM">A–Z, 0–9</option>
+          </select>
+        </label>
+        <label className="col-span-2 flex items-center justify-between gap-1.5">
+          Duplicity
+          <select
+            value={rules.duplicates}
+            onChange={e => updateRules({ duplicates: e.target.value as VdpValidationRules['duplicates'] })}
+            className="rounded border border-slate-600 bg-slate-900 px-1 py-0.5 text-[10px] text-slate-200"
+          >
+            <option value="SERIAL">Sériové číslo (v rámci GTIN)</option>
+            <option value="CODE">Vygenerovaný kód</option>
+            <option value="NONE">Nekontrolovať</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="mb-2 grid grid-cols-3 gap-2 text-center text-[10px]">
+        <div>
+          <div className="font-medium text-emerald-400">{validation.validRows}</div>
+          <div className="text-slate-500">OK</div>
+        </div>
+        <div>
+          <div className="font-medium text-amber-400">{validation.warningRows}</div>
+          <div className="text-slate-500">Upozornenia</div>
+        </div>
+        <div>
+          <div className="font-medium text-red-400">{validation.errorRows}</div>
+          <div className="text-slate-500">Chybné</div>
+        </div>
+      </div>
+
+      {validation.issues.length > 0 && (
+        <div className="mb-2 max-h-32 space-y-0.5 overflow-y-auto">
+          {validation.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+            <div
+              key={`${issue.rowIndex}-${issue.column}-${i}`}
+              onClick={() => onSelectRow?.(issue.rowIndex)}
+              className={`cursor-pointer rounded px-1.5 py-0.5 text-[10px] hover:bg-slate-800 ${
+                issue.severity === 'error' ? 'text-red-400' : 'text-amber-300'
+              }`}
+            >
+              <span className="text-slate-500">#{issue.rowIndex + 1}</span>
+              {issue.column && <span className="text-slate-400"> {issue.column}:</span>} {issue.message}
+              {issue.fix !== undefined && <span className="text-emerald-400"> → {issue.fix}</span>}
+            </div>
+          ))}
+          {validation.issues.length > MAX_LISTED_ISSUES && (
+            <div className="px-1.5 text-[10px] text-slate-500">
+              … a ďalších {validation.issues.length - MAX_LISTED_ISSUES} (kompletný zoznam v reporte)
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        <button
+          type="button"
+          onClick={handleDownloadReport}
+          disabled={validation.issues.length === 0}
+          className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-[10px] text-slate-200 hover:border-sky-500 disabled:opacity-40"
+        >
+          Report chýb (.csv)
+        </button>
+        <button
+          type="button"
+          onClick={() => handleClean(false)}
+          disabled={fixableIssues === 0}
+          className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-[10px] text-slate-200 hover:border-sky-500 disabled:opacity-40"
+        >
+          Opraviť automaticky ({fixableIssues})
+        </button>
+        <button
+          type="button"
+          onClick={() => handleClean(true)}
+          disabled={validation.errorRows === 0}
+          className="rounded border border-red-700 bg-red-900/40 px-2 py-1 text-[10px] text-red-200 hover:border-red-500 disabled:opacity-40"
+        >
+          Opraviť a vylúčiť chybné riadky
+        </button>
+      </div>
+      {message && <div className="mt-2 text-[10px] text-slate-400">{message}</div>}
+    </div>
+  )
+}
+
+export default VdpDataValidation
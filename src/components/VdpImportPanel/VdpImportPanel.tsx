@@ -1,11 +1,31 @@
 // src/components/VdpImportPanel/VdpImportPanel.tsx
 import React, { useCallback, useState } from 'react'
 import type {
-  VdpImportColumn,
+  VdpColumnType,
   VdpImportRow,
   VdpFieldMapping,
   VdpImportState,
+  VdpValidationRules,
 } from '../../types/barcodeTypes'
+import {
+  formatVdpTemplateIssue,
+  renderVdpTemplate,
+  validateVdpTemplate,
+  vdpImportFieldNames,
+  vdpImportRowFields,
+} from '../../lib/vdp'
+import {
+  buildVdpImportState,
+  createVdpStructuredSource,
+  detectFixedWidthColumns,
+  formatFixedWidthColumns,
+  looksLikeFixedWidth,
+  parseVdpCsv,
+  readVdpStructuredSource,
+} from '../../lib/vdpDataSource'
+import type { VdpDataTable, VdpStructuredSource } from '../../lib/vdpDataSource'
+import { DEFAULT_VDP_VALIDATION_RULES } from '../../lib/vdpValidation'
+import { VdpDataValidation } from './VdpDataValidation'
 
 export type VdpImportPanelProps = {
   vdpImportState: VdpImportState
@@ -13,6 +33,8 @@ export type VdpImportPanelProps = {
   onApplyRow: (row: VdpImportRow) => void
   patternTemplate: string
   setPatternTemplate: (v: string) => void
+  /** Úspešne načítaný zdrojový súbor – editor ho pribalí k jobu */
+  onSourceFile?: (file: File) => void
 }
 
 const FIELD_MAPPING_OPTIONS: { value: VdpFieldMapping; label: string }[] = [
@@ -28,27 +50,23 @@ const FIELD_MAPPING_OPTIONS: { value: VdpFieldMapping; label: string }[] = [
   { value: 'CUSTOM', label: 'Vlastný text [CUSTOM]' },
 ]
 
-const parseCSV = (text: string): string[][] => {
-  const lines = text.split(/\r?\n/).filter(line => line.trim())
-  return lines.map(line => {
-    const result: string[] = []
-    let current = ''
-    let inQuotes = false
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i]
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if ((char === ',' || char === ';') && !inQuotes) {
-        result.push(current.trim())
-        current = ''
-      } else {
-        current += char
-      }
-    }
-    result.push(current.trim())
-    return result
-  })
+const SOURCE_LABELS: Record<VdpStructuredSource['kind'], string> = {
+  JSON: 'JSON',
+  XML: 'XML',
+  FIXED_WIDTH: 'Pevná šírka',
+}
+
+const SOURCE_SELECTOR_LABELS: Record<VdpStructuredSource['kind'], string> = {
+  JSON: 'Cesta k poľu záznamov (napr. data.items, orders[*].lines)',
+  XML: 'Selektor záznamov (napr. /Export/Items/Item, //Item)',
+  FIXED_WIDTH: 'Stĺpce NÁZOV:OD-DO (pozície znakov od 1)',
+}
+
+const COLUMN_TYPE_LABELS: Record<VdpColumnType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Číslo',
+  GTIN: 'GTIN',
+  DATE: 'Dátum',
 }
 
 export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
@@ -57,87 +75,64 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
   onApplyRow,
   patternTemplate,
   setPatternTemplate,
+  onSourceFile,
 }) => {
   const [dragOver, setDragOver] = useState(false)
   const [parseError, setParseError] = useState<string | null>(null)
+  const [validationRules, setValidationRules] = useState<VdpValidationRules>(DEFAULT_VDP_VALIDATION_RULES)
+
+  const [dataSource, setDataSource] = useState<VdpStructuredSource | null>(null)
+
+  const loadTable = useCallback(
+    (fileName: string, table: VdpDataTable): boolean => {
+      if (table.rows.length === 0) {
+        setParseError('Súbor musí obsahovať hlavičku a aspoň jeden riadok dát.')
+        return false
+      }
+      setVdpImportState(buildVdpImportState(fileName, table, patternTemplate))
+      return true
+    },
+    [setVdpImportState, patternTemplate],
+  )
+
+  // JSON / XML / pevná šírka – pri zmene selektora sa súbor načíta znova
+  const loadStructuredSource = useCallback(
+    (source: VdpStructuredSource): boolean => {
+      setParseError(null)
+      setDataSource(source)
+      try {
+        return loadTable(source.fileName, readVdpStructuredSource(source))
+      } catch (err) {
+        setParseError(`Chyba pri čítaní záznamov: ${err instanceof Error ? err.message : 'Neznáma chyba'}`)
+        return false
+      }
+    },
+    [loadTable],
+  )
 
   const processFile = useCallback(
     async (file: File) => {
       setParseError(null)
+      setDataSource(null)
 
       const fileName = file.name.toLowerCase()
+      let loaded = false
 
       try {
-        if (fileName.endsWith('.csv') || fileName.endsWith('.txt')) {
+        if (fileName.endsWith('.json')) {
+          loaded = loadStructuredSource(createVdpStructuredSource('JSON', file.name, await file.text()))
+        } else if (fileName.endsWith('.xml')) {
+          loaded = loadStructuredSource(createVdpStructuredSource('XML', file.name, await file.text()))
+        } else if (/\.(prn|dat|fwf)$/.test(fileName)) {
+          loaded = loadStructuredSource(createVdpStructuredSource('FIXED_WIDTH', file.name, await file.text()))
+        } else if (fileName.endsWith('.csv') || fileName.endsWith('.txt')) {
           const text = await file.text()
-          const rows = parseCSV(text)
-
-          if (rows.length < 2) {
-            setParseError('Súbor musí obsahovať hlavičku a aspoň jeden riadok dát.')
-            return
+          // TXT bez oddeľovačov so zarovnanými stĺpcami je export s pevnou šírkou
+          if (fileName.endsWith('.txt') && looksLikeFixedWidth(text)) {
+            loaded = loadStructuredSource(createVdpStructuredSource('FIXED_WIDTH', file.name, text))
+          } else {
+            loaded = loadTable(file.name, parseVdpCsv(text))
           }
-
-          const headerRow = rows[0]
-          const dataRows = rows.slice(1)
-
-          const columns: VdpImportColumn[] = headerRow.map((name, index) => ({
-            columnIndex: index,
-            columnName: name || `Stĺpec ${index + 1}`,
-            mappedTo: null,
-          }))
-
-          // Auto-map
-          columns.forEach(col => {
-            const nameLower = col.columnName.toLowerCase()
-            if (
-              nameLower.includes('serial') ||
-              nameLower.includes('sn') ||
-              nameLower.includes('číslo')
-            ) {
-              col.mappedTo = 'SERIAL'
-            } else if (
-              nameLower.includes('lot') ||
-              nameLower.includes('šarža') ||
-              nameLower.includes('batch')
-            ) {
-              col.mappedTo = 'LOT'
-            } else if (
-              nameLower.includes('gtin') ||
-              nameLower.includes('ean') ||
-              nameLower.includes('upc')
-            ) {
-              col.mappedTo = 'GTIN'
-            } else if (
-              nameLower.includes('expir') ||
-              nameLower.includes('best') ||
-              nameLower.includes('spotreba')
-            ) {
-              col.mappedTo = 'BEST_BEFORE'
-            } else if (nameLower.includes('prod') || nameLower.includes('výrob')) {
-              col.mappedTo = 'PROD_DATE'
-            }
-          })
-
-          const importRows: VdpImportRow[] = dataRows.map((row, idx) => {
-            const values: Record<string, string> = {}
-            columns.forEach((col, colIdx) => {
-              values[col.columnName] = row[colIdx] || ''
-            })
-            return {
-              rowIndex: idx,
-              values,
-              generatedCode: '',
-            }
-          })
-
-          setVdpImportState({
-            fileName: file.name,
-            columns,
-            rows: importRows,
-            currentRowIndex: 0,
-            totalRows: importRows.length,
-            patternTemplate,
-          })
         } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
           const arrayBuffer = await file.arrayBuffer()
 
@@ -152,52 +147,14 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
             return
           }
 
-          const headerRow = jsonData[0] as string[]
-          const dataRows = jsonData.slice(1) as string[][]
-
-          const columns: VdpImportColumn[] = headerRow.map((name, index) => ({
-            columnIndex: index,
-            columnName: String(name) || `Stĺpec ${index + 1}`,
-            mappedTo: null,
-          }))
-
-          // Auto-map
-          columns.forEach(col => {
-            const nameLower = col.columnName.toLowerCase()
-            if (nameLower.includes('serial') || nameLower.includes('sn')) {
-              col.mappedTo = 'SERIAL'
-            } else if (nameLower.includes('lot') || nameLower.includes('šarža')) {
-              col.mappedTo = 'LOT'
-            } else if (nameLower.includes('gtin') || nameLower.includes('ean')) {
-              col.mappedTo = 'GTIN'
-            } else if (nameLower.includes('expir') || nameLower.includes('best')) {
-              col.mappedTo = 'BEST_BEFORE'
-            }
-          })
-
-          const importRows: VdpImportRow[] = dataRows.map((row, idx) => {
-            const values: Record<string, string> = {}
-            columns.forEach((col, colIdx) => {
-              values[col.columnName] = String(row[colIdx] ?? '')
-            })
-            return {
-              rowIndex: idx,
-              values,
-              generatedCode: '',
-            }
-          })
-
-          setVdpImportState({
-            fileName: file.name,
-            columns,
-            rows: importRows,
-            currentRowIndex: 0,
-            totalRows: importRows.length,
-            patternTemplate,
+          loaded = loadTable(file.name, {
+            header: (jsonData[0] as unknown[]).map(name => String(name ?? '')),
+            rows: (jsonData.slice(1) as unknown[][]).map(row => Array.from(row, value => String(value ?? ''))),
           })
         } else {
-          setParseError('Podporované formáty: CSV, TXT, XLSX, XLS')
+          setParseError('Podporované formáty: CSV, TXT, XLSX, XLS, JSON, XML, PRN/DAT (pevná šírka)')
         }
+        if (loaded) onSourceFile?.(file)
       } catch (err) {
         console.error('Parse error:', err)
         setParseError(
@@ -207,7 +164,7 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
         )
       }
     },
-    [setVdpImportState, patternTemplate],
+    [loadTable, loadStructuredSource, onSourceFile],
   )
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -244,19 +201,23 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
     }))
   }
 
-  const generateCodeForRow = (row: VdpImportRow): string => {
-    let result = patternTemplate
-
-    vdpImportState.columns.forEach(col => {
-      if (col.mappedTo) {
-        const token = `[${col.mappedTo}]`
-        const value = row.values[col.columnName] || ''
-        result = result.replace(new RegExp(token.replace(/[[\]]/g, '\\$&'), 'g'), value)
-      }
+  const renderRow = (row: VdpImportRow) =>
+    renderVdpTemplate(patternTemplate, {
+      fields: vdpImportRowFields(vdpImportState.columns, row),
+      index: row.rowIndex,
     })
 
-    return result
-  }
+  const generateCodeForRow = (row: VdpImportRow): string => renderRow(row).value
+
+  // Stabilná referencia – kontrola dát sa prepočíta len pri zmene šablóny alebo stĺpcov
+  const renderCode = useCallback(
+    (row: VdpImportRow) =>
+      renderVdpTemplate(patternTemplate, {
+        fields: vdpImportRowFields(vdpImportState.columns, row),
+        index: row.rowIndex,
+      }).value,
+    [patternTemplate, vdpImportState.columns],
+  )
 
   const handleApplyCurrentRow = () => {
     const currentRow = vdpImportState.rows[vdpImportState.currentRowIndex]
@@ -290,6 +251,7 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
       patternTemplate: '[SERIAL]',
     })
     setParseError(null)
+    setDataSource(null)
   }
 
   // --------- Batch export všetkých riadkov do CSV ---------
@@ -331,13 +293,15 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
   }
 
   const currentRow = vdpImportState.rows[vdpImportState.currentRowIndex]
-  const previewCode = currentRow ? generateCodeForRow(currentRow) : ''
+  const templateIssues = validateVdpTemplate(patternTemplate, vdpImportFieldNames(vdpImportState.columns))
+  const preview = currentRow && templateIssues.length === 0 ? renderRow(currentRow) : null
+  const previewCode = preview?.value ?? ''
 
   return (
     <div className="space-y-4 rounded-lg border border-slate-800 bg-slate-900/80 p-4">
       <div className="flex items-center justify-between">
         <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-300">
-          VDP Import – CSV / Excel
+          VDP Import – CSV / Excel / JSON / XML
         </h3>
         {vdpImportState.fileName && (
           <button
@@ -376,14 +340,14 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
             />
           </svg>
           <p className="mb-1 text-sm text-slate-300">
-            Pretiahni CSV / Excel súbor sem
+            Pretiahni CSV / Excel / JSON / XML súbor sem
           </p>
           <p className="mb-3 text-[10px] text-slate-500">
             alebo klikni pre výber súboru
           </p>
           <input
             type="file"
-            accept=".csv,.txt,.xlsx,.xls"
+            accept=".csv,.txt,.xlsx,.xls,.json,.xml,.prn,.dat,.fwf"
             onChange={handleFileInput}
             className="hidden"
             id="vdp-file-input"
@@ -403,6 +367,85 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
         </div>
       )}
 
+      {/* Výber záznamov pre JSON / XML / pevnú šírku */}
+      {dataSource && vdpImportState.fileName === dataSource.fileName && (
+        <div className="rounded-md border border-slate-700 bg-slate-900/60 p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-[10px] font-medium uppercase tracking-wide text-slate-400">
+              Zdroj dát: {SOURCE_LABELS[dataSource.kind]}
+            </span>
+            {dataSource.kind === 'FIXED_WIDTH' && (
+              <button
+                type="button"
+                onClick={() =>
+                  setDataSource({
+                    ...dataSource,
+                    selector: formatFixedWidthColumns(detectFixedWidthColumns(dataSource.text, dataSource.hasHeader)),
+                  })
+                }
+                className="rounded border border-slate-600 bg-slate-800 px-2 py-0.5 text-[10px] text-slate-200 hover:border-sky-500"
+              >
+                Rozpoznať stĺpce
+              </button>
+            )}
+          </div>
+
+          <label className="mb-1 block text-[10px] text-slate-400">{SOURCE_SELECTOR_LABELS[dataSource.kind]}</label>
+          {dataSource.kind === 'FIXED_WIDTH' ? (
+            <textarea
+              value={dataSource.selector}
+              onChange={e => setDataSource({ ...dataSource, selector: e.target.value })}
+              rows={2}
+              placeholder="GTIN:1-14, LOT:15-24, EXPIRY:25-34"
+              className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 font-mono text-[10px] text-slate-200 outline-none focus:border-sky-500"
+            />
+          ) : (
+            <>
+              <input
+                type="text"
+                list="vdp-source-suggestions"
+                value={dataSource.selector}
+                onChange={e => setDataSource({ ...dataSource, selector: e.target.value })}
+                placeholder={dataSource.kind === 'JSON' ? '$ (koreňové pole)' : '//Item'}
+                className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 font-mono text-[10px] text-slate-200 outline-none focus:border-sky-500"
+              />
+              <datalist id="vdp-source-suggestions">
+                {dataSource.suggestions.map(suggestion => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            </>
+          )}
+
+          <div className="mt-2 flex items-center justify-between gap-2">
+            {dataSource.kind === 'FIXED_WIDTH' ? (
+              <label className="flex items-center gap-1.5 text-[10px] text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={dataSource.hasHeader}
+                  onChange={e => setDataSource({ ...dataSource, hasHeader: e.target.checked })}
+                  className="h-3 w-3"
+                />
+                Prvý riadok je hlavička
+              </label>
+            ) : (
+              <span className="text-[10px] text-slate-500">
+                {dataSource.suggestions.length > 0
+                  ? `Návrhy: ${dataSource.suggestions.slice(0, 3).map(s => s || '$').join(', ')}`
+                  : 'Žiadne opakované záznamy nenájdené'}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => loadStructuredSource(dataSource)}
+              className="rounded border border-sky-600 bg-sky-900/40 px-2 py-1 text-[10px] text-sky-200 hover:border-sky-400"
+            >
+              Načítať záznamy
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Column mapping + preview + batch export */}
       {vdpImportState.fileName && vdpImportState.columns.length > 0 && (
         <>
@@ -427,6 +470,11 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
                     <span className="flex-1 truncate text-[11px] text-slate-300">
                       {col.columnName}
                     </span>
+                    {col.detectedType && col.detectedType !== 'TEXT' && (
+                      <span className="rounded bg-slate-700 px-1 text-[9px] text-slate-300">
+                        {COLUMN_TYPE_LABELS[col.detectedType]}
+                      </span>
+                    )}
                     <select
                       value={col.mappedTo || ''}
                       onChange={e =>
@@ -458,13 +506,20 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
               type="text"
               value={patternTemplate}
               onChange={e => setPatternTemplate(e.target.value)}
-              placeholder="(01)[SERIAL]"
+              placeholder="(01){GTIN|gs1check}(17){BEST_BEFORE|date:YYMMDD}(21){SERIAL}"
               className="w-full rounded-md border border-slate-700 bg-slate-900 px-2.5 py-1.5 text-xs text-slate-100 outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
             />
             <p className="mt-1 text-[10px] text-slate-500">
-              Použite tokeny: [SERIAL], [LOT], [GTIN], [BEST_BEFORE], [PROD_DATE], [USE_BY],
-              [VARIANT], [QUANTITY], [CUSTOM]
+              Polia: {'{Názov stĺpca}'} alebo mapované {'{SERIAL}'}, {'{LOT}'}, {'{GTIN}'}, {'{BEST_BEFORE}'},
+              {' '}{'{PROD_DATE}'}, {'{USE_BY}'}, {'{VARIANT}'}, {'{QUANTITY}'}, {'{CUSTOM}'}, {'{INDEX}'}, {'{TODAY}'}.
+              Funkcie: pad, padr, upper, lower, trim, slice, default, gs1check, date, days; počítadlo
+              {' '}{'{counter:START:STEP:SKIP}'}; podmienka {'{if LOT}…{else}…{end}'}.
             </p>
+            {templateIssues.map(issue => (
+              <p key={issue.position + issue.message} className="mt-1 text-[10px] text-red-400">
+                {formatVdpTemplateIssue(issue)}
+              </p>
+            ))}
           </div>
 
           {/* Row navigation + preview */}
@@ -498,6 +553,11 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
               <div className="break-all rounded-md bg-slate-950 p-2 font-mono text-[11px] text-emerald-400">
                 {previewCode || '(prázdny)'}
               </div>
+              {preview?.issues.map(issue => (
+                <p key={issue.position + issue.message} className="mt-1 text-[10px] text-red-400">
+                  {formatVdpTemplateIssue(issue)}
+                </p>
+              ))}
             </div>
 
             <div className="flex items-center justify-between gap-2">
@@ -527,6 +587,16 @@ export const VdpImportPanel: React.FC<VdpImportPanelProps> = ({
             </div>
           </div>
 
+          {/* Data validation */}
+          <VdpDataValidation
+            importState={vdpImportState}
+            rules={validationRules}
+            onRulesChange={setValidationRules}
+            renderRow={renderCode}
+            onApply={setVdpImportState}
+            onSelectRow={rowIndex => setVdpImportState(prev => ({ ...prev, currentRowIndex: rowIndex }))}
+          />
+
           {/* Batch export */}
           <div className="rounded-md border border-amber-700/50 bg-amber-900/20 p-3 text-[10px] text-amber-200">
             <div className="mb-1 font-semibold">Batch export VDP</div>
@@ -1,5 +1,5 @@
 // src/components/VdpPrintRunPanel/VdpPrintRunPanel.tsx
-import React, { useState, useMemo, useCallback } from 'react'
+import React, { useState, useMemo, useCallback, useRef } from 'react'
 import type {
   VdpPrintRun,
   VdpImportState,
@@ -8,26 +8,177 @@ import type {
   VdpValidationResult,
   VdpExportOptions,
   CodeType,
+  CompositeComponent,
+  LabelObject,
+  Layer,
+  DataBarVariant,
+  StepRepeatConfig,
+  VdpLaneSequencing,
+  VdpProofConfig,
+  VdpRollWinding,
 } from '../../types/barcodeTypes'
+import type { CodeJobId } from '../../types/jobTypes'
+import type { PrintingProfile } from '../../config/printingProfiles'
+import type { BarcodeType, BatchRecordRenderer, BatchVerificationReport, QualityGrade } from '../../barcodeQuality'
+import {
+  barcodeTypeForCodeType,
+  batchReportToCsv,
+  batchReportToJson,
+  createBwipRenderer,
+  getGradeColor,
+  minimumGradeForProfile,
+  verifyBatch,
+  QUIET_ZONE_REQUIREMENTS,
+} from '../../barcodeQuality'
+import {
+  formatVdpTemplateIssue,
+  getPrintRunRecordCount,
+  getPrintRunRecordValue,
+  printRunRecordFields,
+  renderPrintRunRecord,
+  renderVdpFileName,
+  renderVdpTemplate,
+  validateVdpTemplate,
+  vdpImportFieldNames,
+  vdpImportRowFields,
+} from '../../lib/vdp'
+import { validateVdpImport, vdpValidationResults } from '../../lib/vdpValidation'
+import { VdpDataValidation } from '../VdpImportPanel/VdpDataValidation'
+import { DEFAULT_ROLL_WINDING, planRecordRanges, planVdpLanes } from '../../lib/vdpSequencing'
+import {
+  DEFAULT_VDP_PROOF_CONFIG,
+  describeVdpProofCriteria,
+  formatVdpProofRecordList,
+  parseVdpProofRecordList,
+  selectVdpProofRecords,
+  type VdpProofEntry,
+} from '../../lib/vdpProof'
+import { formatGs1Hri, isGs1CodeType, parseGs1Input } from '../../lib/gs1'
+import { canStreamToFile, createBlobPdfSink, createFilePdfSink, type PdfSink } from '../../lib/pdfStream'
+import { createZip } from '../../lib/zipArchive'
+import {
+  barcodeObjectSymbol,
+  exportVdpPdf,
+  exportVdpPdfFiles,
+  exportVdpProofPdf,
+  imageFromImageData,
+  sizedBarcodeObject,
+  symbolFromImage,
+  vdpPdfStaticContent,
+  type VdpPdfExportResult,
+  type VdpPdfImage,
+  type VdpPdfLabel,
+  type VdpPdfProgress,
+} from '../../lib/vdpPdf'
+import {
+  isVdpBoundObject,
+  vdpRecordObjects,
+  vdpStaticObjects,
+  vdpSymbolObject,
+  type VdpImageSources,
+} from '../../lib/vdpObjects'
+import { barcodeModuleMm } from '../../lib/labelObjects'
+import {
+  exportSerialLedger,
+  findSerialOverlaps,
+  importSerialLedger,
+  listSerialRanges,
+  nextFreeSerial,
+  normalizeLedgerGtin,
+  recordSerialExport,
+  releaseSerialRange,
+  reserveSerialRange,
+  serialLedgerToCsv,
+  type SerialRangeQuery,
+} from '../../lib/serialLedger'
 
 interface VdpPrintRunPanelProps {
   printRun: VdpPrintRun
   onUpdatePrintRun: (updates: Partial<VdpPrintRun>) => void
   codeType: CodeType
+  dataBarVariant?: DataBarVariant
+  dataBarSegments?: number
+  /** 2D zložka GS1 Composite (undefined = bez kompozitu) */
+  composite?: CompositeComponent
   onImportCsv: (file: File) => Promise<VdpImportState>
   onValidateAll: () => VdpValidationResult[]
-  onExportVdp: (options: VdpExportOptions) => void
+  /**
+   * Export symbológie bez PDF renderera rieši rodič – `objectsAt` dáva
+   * variabilné objekty záznamu. Po dokončení (Promise) sa celý beh zapíše do ledgera.
+   */
+  onExportVdp: (options: VdpExportOptions, objectsAt?: (index: number) => LabelObject[]) => void | Promise<void>
   onPreviewItem: (index: number) => void
+  activeProfile?: PrintingProfile | null
+  renderRecord?: BatchRecordRenderer
+  /** Geometria a farby etikety pre streamovaný PDF export */
+  pdfLabel?: Partial<VdpPdfLabel>
+  /** Job, ku ktorému sa rezervácie v ledgeri sériových čísel viažu */
+  jobId?: CodeJobId
+  jobName?: string
+  /** Step & repeat – pri páse určuje počet pruhov pre poradie záznamov */
+  stepRepeatConfig?: StepRepeatConfig
+  /** Vrstvy etikety – texty a obrázky s VDP väzbou sa kreslia pre každý záznam */
+  labelLayers?: Layer[]
+  /** Obrázky záznamov v prílohách jobu podľa názvu súboru */
+  vdpImages?: VdpImageSources
+}
+
+const DEFAULT_PDF_LABEL: VdpPdfLabel = {
+  widthMm: 50,
+  heightMm: 30,
+  xDimMm: 0.33,
+  symbolHeightMm: 15,
+  barColor: '#000000',
+  backgroundColor: '#ffffff',
+  hrText: true,
+  hrFontSizePt: 8,
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const downloadText = (content: string, fileName: string, type: string) =>
+  downloadBlob(new Blob([content], { type }), fileName)
+
+/** Obrázok objektu (data URL) ako RGB pixely pre PDF */
+const loadPdfImage = async (src: string): Promise<VdpPdfImage> => {
+  const image = new Image()
+  image.src = src
+  await image.decode()
+  const canvas = document.createElement('canvas')
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not get canvas context')
+  ctx.drawImage(image, 0, 0)
+  return imageFromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height))
 }
 
 export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
   printRun,
   onUpdatePrintRun,
   codeType,
+  dataBarVariant,
+  dataBarSegments,
+  composite,
   onImportCsv,
   onValidateAll,
   onExportVdp,
   onPreviewItem,
+  activeProfile,
+  renderRecord,
+  pdfLabel,
+  jobId,
+  jobName,
+  stepRepeatConfig,
+  labelLayers,
+  vdpImages,
 }) => {
   const [activeTab, setActiveTab] = useState<'serial' | 'csv' | 'lanes' | 'export'>('serial')
   const [validationResults, setValidationResults] = useState<VdpValidationResult[]>([])
@@ -39,6 +190,24 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
     generateJobReport: true,
   })
 
+  const [batchSampleSize, setBatchSampleSize] = useState(100)
+  const [batchProgress, setBatchProgress] = useState<{ verified: number; total: number } | null>(null)
+  const [batchReport, setBatchReport] = useState<BatchVerificationReport | null>(null)
+  const batchAbortRef = useRef<AbortController | null>(null)
+
+  const [pdfProgress, setPdfProgress] = useState<VdpPdfProgress | null>(null)
+  const [pdfResult, setPdfResult] = useState<VdpPdfExportResult | null>(null)
+  const [pdfError, setPdfError] = useState<string | null>(null)
+  const [exportLedgerError, setExportLedgerError] = useState<string | null>(null)
+  const pdfAbortRef = useRef<AbortController | null>(null)
+
+  const [proofRecordsText, setProofRecordsText] = useState<string | null>(null)
+  const [proofProgress, setProofProgress] = useState<string | null>(null)
+  const [proofMessage, setProofMessage] = useState<string | null>(null)
+
+  const barcodeType = barcodeTypeForCodeType(codeType, dataBarVariant)
+  const minimumGrade = minimumGradeForProfile(activeProfile)
+
   // Serial calculations
   const serialStats = useMemo(() => {
     const count = printRun.serialEnd - printRun.serialStart + 1
@@ -49,32 +218,108 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
     return { count, digits }
   }, [printRun.serialStart, printRun.serialEnd, printRun.serialPadding])
 
-  // Generate preview samples
-  const previewSamples = useMemo(() => {
-    const samples: { index: number; value: string }[] = []
-    
-    if (printRun.source === 'SERIAL') {
-      const { serialStart, serialEnd, serialPadding, serialPrefix } = printRun
-      const first = serialPrefix + String(serialStart).padStart(serialPadding, '0')
-      const second = serialPrefix + String(serialStart + 1).padStart(serialPadding, '0')
-      const tenth = serialPrefix + String(Math.min(serialStart + 9, serialEnd)).padStart(serialPadding, '0')
-      const last = serialPrefix + String(serialEnd).padStart(serialPadding, '0')
-      
-      samples.push({ index: 0, value: first })
-      if (serialEnd > serialStart) samples.push({ index: 1, value: second })
-      if (serialEnd >= serialStart + 9) samples.push({ index: 9, value: tenth })
-      if (serialEnd > serialStart + 9) samples.push({ index: serialEnd - serialStart, value: last })
-    } else if (printRun.csvData) {
-      const { rows } = printRun.csvData
-      if (rows.length > 0) samples.push({ index: 0, value: rows[0].generatedCode })
-      if (rows.length > 1) samples.push({ index: 1, value: rows[1].generatedCode })
-      if (rows.length > 9) samples.push({ index: 9, value: rows[9].generatedCode })
-      if (rows.length > 10) samples.push({ index: rows.length - 1, value: rows[rows.length - 1].generatedCode })
+  // Poradie záznamov na páse – počet pruhov z raportu pásu, inak z počtu lanes
+  const webStepRepeatConfig = exportOptions.stepRepeatConfig ?? stepRepeatConfig
+  const webStepRepeat = webStepRepeatConfig?.mode === 'WEB' ? webStepRepeatConfig : null
+  const laneCount = webStepRepeat?.lanes ?? Math.max(1, printRun.laneConfigs.length)
+  const lanePlan = useMemo(() => {
+    if (!printRun.useLanes) return null
+    return planVdpLanes(getPrintRunRecordCount(printRun), {
+      lanes: laneCount,
+      sequencing: printRun.laneSequencing ?? 'DOWN_EACH_LANE',
+      winding: printRun.rollWinding ?? DEFAULT_ROLL_WINDING,
+      laneConfigs: printRun.laneConfigs,
+    })
+  }, [printRun, laneCount])
+
+  const rollWinding = printRun.rollWinding ?? DEFAULT_ROLL_WINDING
+  const updateRollWinding = (patch: Partial<VdpRollWinding>) =>
+    onUpdatePrintRun({ rollWinding: { ...rollWinding, ...patch } })
+
+  // Riadky náhľadu pásu – začiatok a koniec, medzera ako null
+  const webPreviewRows = useMemo(() => {
+    if (!lanePlan) return []
+    const rows = Array.from({ length: lanePlan.webRows }, (_, row) => row)
+    return rows.length <= 8 ? rows : [...rows.slice(0, 5), null, ...rows.slice(-2)]
+  }, [lanePlan])
+
+  // Ledger sériových čísel – len pre sériový zdroj s GTIN
+  const [ledgerRevision, setLedgerRevision] = useState(0)
+  const [ledgerMessage, setLedgerMessage] = useState<string | null>(null)
+
+  const ledgerQuery = useMemo<SerialRangeQuery | null>(() => {
+    if (printRun.source !== 'SERIAL' || !printRun.gtin?.trim()) return null
+    return {
+      gtin: printRun.gtin,
+      lot: printRun.lot ?? '',
+      prefix: printRun.serialPrefix,
+      start: printRun.serialStart,
+      end: printRun.serialEnd,
+      jobId,
+      jobName,
     }
-    
-    return samples
+  }, [printRun.source, printRun.gtin, printRun.lot, printRun.serialPrefix, printRun.serialStart, printRun.serialEnd, jobId, jobName])
+
+  const ledger = useMemo(() => {
+    const ranges = ledgerRevision >= 0 ? listSerialRanges() : []
+    return {
+      issues: ledgerQuery ? findSerialOverlaps(ledgerQuery, ranges) : [],
+      ownReservations: ledgerQuery
+        ? ranges.filter(r =>
+            r.status === 'RESERVED' &&
+            jobId !== undefined &&
+            r.jobId === jobId &&
+            r.gtin === normalizeLedgerGtin(ledgerQuery.gtin),
+          )
+        : [],
+      totalRanges: ranges.length,
+    }
+  }, [ledgerQuery, ledgerRevision, jobId])
+
+  const handleReserveRange = () => {
+    if (!ledgerQuery) return
+    const result = reserveSerialRange(ledgerQuery)
+    setLedgerMessage(
+      result.error ?? (result.range ? `Rezervované ${result.range.start}–${result.range.end}` : 'Rozsah sa prekrýva s ledgerom')
+    )
+    setLedgerRevision(r => r + 1)
+  }
+
+  const handleNextFreeRange = () => {
+    if (!ledgerQuery) return
+    const start = nextFreeSerial(ledgerQuery.gtin, ledgerQuery.prefix)
+    onUpdatePrintRun({ serialStart: start, serialEnd: start + serialStats.count - 1 })
+  }
+
+  const handleReleaseRange = (id: string) => {
+    releaseSerialRange(id)
+    setLedgerRevision(r => r + 1)
+  }
+
+  const handleImportLedger = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const result = importSerialLedger(await file.text())
+    setLedgerMessage(
+      [`Importované ${result.added}, preskočené ${result.skipped}`, ...result.issues].join(' · ')
+    )
+    setLedgerRevision(r => r + 1)
+    e.target.value = ''
+  }
+
+  // Generate preview samples – prvé dva, desiaty a posledný záznam
+  const previewSamples = useMemo(() => {
+    const count = getPrintRunRecordCount(printRun)
+    return [0, 1, 9, count - 1]
+      .filter((index, i, all) => index >= 0 && index < count && all.indexOf(index) === i)
+      .map(index => ({ index, value: getPrintRunRecordValue(printRun, index) }))
   }, [printRun])
 
+  const patternIssues = printRun.csvData
+    ? validateVdpTemplate(printRun.csvData.patternTemplate, vdpImportFieldNames(printRun.csvData.columns))
+    : []
+  const fileNameIssues = validateVdpTemplate(exportOptions.fileNamePattern, ['VALUE'])
+
   // Handle CSV import
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -88,16 +333,53 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
     }
   }
 
-  // Handle validation
+  // Kód riadku CSV pre kontrolu dát (duplicity podľa kódu)
+  const csvPatternTemplate = printRun.csvData?.patternTemplate
+  const csvColumns = printRun.csvData?.columns
+  const renderCsvRow = useCallback(
+    (row: VdpImportRow) =>
+      csvPatternTemplate && csvColumns
+        ? renderVdpTemplate(csvPatternTemplate, { fields: vdpImportRowFields(csvColumns, row), index: row.rowIndex }).value
+        : row.generatedCode,
+    [csvPatternTemplate, csvColumns],
+  )
+
+  const validateCsvData = useCallback(
+    () =>
+      printRun.source === 'CSV' && printRun.csvData
+        ? validateVdpImport(printRun.csvData, { rules: printRun.validationRules, renderRow: renderCsvRow })
+        : null,
+    [printRun.source, printRun.csvData, printRun.validationRules, renderCsvRow],
+  )
+
+  // Handle validation – výsledky rodiča doplnené o pravidlá dátového zdroja
   const handleValidate = useCallback(async () => {
     setIsValidating(true)
     try {
       const results = onValidateAll()
-      setValidationResults(results)
+      const dataValidation = validateCsvData()
+      if (dataValidation && printRun.csvData) {
+        const byIndex = new Map(results.map(result => [result.index, result]))
+        setValidationResults(
+          vdpValidationResults(printRun.csvData, dataValidation, renderCsvRow).map(result => {
+            const own = byIndex.get(result.index)
+            if (!own) return result
+            const errors = [...own.errors, ...result.errors]
+            return {
+              ...own,
+              errors,
+              warnings: [...own.warnings, ...result.warnings],
+              isValid: errors.length === 0,
+            }
+          }),
+        )
+      } else {
+        setValidationResults(results)
+      }
     } finally {
       setIsValidating(false)
     }
-  }, [onValidateAll])
+  }, [onValidateAll, validateCsvData, printRun.csvData, renderCsvRow])
 
   // Lane configuration
   const handleAddLane = () => {
@@ -128,7 +410,6 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
       ? serialStats.count 
       : (printRun.csvData?.rows.length || 0)
     
-    const laneCount = printRun.laneConfigs.length || 1
     const perLane = Math.ceil(totalCount / laneCount)
     
     const newConfigs: VdpLaneConfig[] = []
@@ -143,9 +424,333 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
     onUpdatePrintRun({ laneConfigs: newConfigs })
   }
 
-  // Export
-  const handleExport = () => {
-    onExportVdp(exportOptions)
+  // Batch verification
+  const handleVerifyBatch = useCallback(async () => {
+    if (!barcodeType) return
+
+    const controller = new AbortController()
+    batchAbortRef.current = controller
+    setBatchReport(null)
+    setBatchProgress({ verified: 0, total: 0 })
+    try {
+      const report = await verifyBatch(
+        {
+          count: getPrintRunRecordCount(printRun),
+          valueAt: index => getPrintRunRecordValue(printRun, index),
+        },
+        renderRecord ?? createBwipRenderer(barcodeType, { gs1: codeType === 'GS1DM', segments: dataBarSegments, composite }),
+        {
+          barcodeType,
+          minimumGrade,
+          composite: composite !== undefined,
+          sampleSize: batchSampleSize,
+          onProgress: (verified, total) => setBatchProgress({ verified, total }),
+          signal: controller.signal,
+        }
+      )
+      setBatchReport(report)
+    } catch (error) {
+      console.error('Batch verification failed:', error)
+    } finally {
+      batchAbortRef.current = null
+      setBatchProgress(null)
+    }
+  }, [barcodeType, codeType, dataBarSegments, composite, minimumGrade, batchSampleSize, printRun, renderRecord])
+
+  const handleDownloadBatchReport = (format: 'CSV' | 'JSON') => {
+    if (!batchReport) return
+    if (format === 'CSV') {
+      downloadText(batchReportToCsv(batchReport), 'vdp_verification.csv', 'text/csv;charset=utf-8')
+    } else {
+      downloadText(batchReportToJson(batchReport), 'vdp_verification.json', 'application/json')
+    }
+  }
+
+  const failedBatchRecords = batchReport?.records.filter(r => !r.passed) ?? []
+
+  // Korektúra – výber záznamov na schválenie zákazníkom
+  const proofConfig = printRun.proofConfig ?? DEFAULT_VDP_PROOF_CONFIG
+  const updateProofConfig = (patch: Partial<VdpProofConfig>) =>
+    onUpdatePrintRun({ proofConfig: { ...proofConfig, ...patch } })
+
+  const proofSelection = useMemo(
+    () => selectVdpProofRecords(getPrintRunRecordCount(printRun), printRun.proofConfig ?? DEFAULT_VDP_PROOF_CONFIG),
+    [printRun],
+  )
+
+  // Zoznam záznamov sa zapíše do konfigurácie až po opustení poľa (rozpísané „10-“)
+  const handleProofRecordsBlur = () => {
+    if (proofRecordsText === null) return
+    const { records, invalid } = parseVdpProofRecordList(proofRecordsText)
+    updateProofConfig({ records })
+    setProofRecordsText(null)
+    setProofMessage(invalid.length > 0 ? `Neplatné položky vynechané: ${invalid.join(', ')}` : null)
+  }
+
+  const handleExportProof = async () => {
+    if (!barcodeType || proofSelection.records.length === 0) return
+
+    const entries: VdpProofEntry[] = proofSelection.records.map(selection => {
+      const value = getPrintRunRecordValue(printRun, selection.index)
+      const row = printRun.source === 'CSV' ? printRun.csvData?.rows[selection.index] : undefined
+      let gs1Hri: string | undefined
+      if (isGs1CodeType(codeType) && !/^\d+$/.test(value)) {
+        const parsed = parseGs1Input(value)
+        if (parsed.elements.length > 0 && !parsed.issues.some(issue => issue.severity === 'error')) {
+          gs1Hri = formatGs1Hri(parsed.elements)
+        }
+      }
+      return { ...selection, value, gs1Hri, sourceRow: row ? row.rowIndex + 1 : undefined }
+    })
+
+    setProofMessage(null)
+    try {
+      // Dekódovanie vykreslených symbolov – rovnaký verifikátor ako pri overení behu
+      if (proofConfig.verify) {
+        const report = await verifyBatch(
+          { count: entries.length, valueAt: position => entries[position].value },
+          (value, position) =>
+            (renderRecord ??
+              createBwipRenderer(barcodeType, { gs1: codeType === 'GS1DM', segments: dataBarSegments, composite }))(
+              value,
+              entries[position].index,
+            ),
+          {
+            barcodeType,
+            minimumGrade,
+            composite: composite !== undefined,
+            sampleSize: 0,
+            onProgress: (verified, total) => setProofProgress(`Overujem ${verified} / ${total}...`),
+          },
+        )
+        for (const record of report.records) {
+          Object.assign(entries[record.index], {
+            decodedData: record.decodedData,
+            grade: record.overallGrade,
+            passed: record.passed,
+          })
+        }
+      }
+
+      setProofProgress('Zapisujem PDF...')
+      const render = pdfRendererFor(barcodeType)
+      const result = await exportVdpProofPdf(
+        entries,
+        async (value, index) => symbolFromImage(await render(value, index)),
+        createBlobPdfSink(`vdp_proof_${codeType}.pdf`),
+        {
+          label: pdfLabelFor(barcodeType),
+          title: jobName ? `${jobName} (${codeType})` : `VDP ${codeType}`,
+          totalRecords: getPrintRunRecordCount(printRun),
+          criteria: describeVdpProofCriteria(proofConfig),
+          objectsAt: variableObjectsAt,
+          loadImage: loadPdfImage,
+        },
+      )
+      const failed = entries.filter(entry => entry.passed === false || entry.decodedData === null).length
+      setProofMessage(
+        `Proof: ${entries.length} záznamov · ${result.pages} strán` + (failed > 0 ? ` · ${failed} neprešlo overením` : ''),
+      )
+    } catch (error) {
+      console.error('VDP proof export failed:', error)
+      setProofMessage(`Proof zlyhal: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setProofProgress(null)
+    }
+  }
+
+  // Výška čiar len pre jednoriadkové lineárne symboly, 2D a stacked majú moduly X × X.
+  // Symbol sa tlačí v rámčeku čiarového kódu etikety s jeho modulom, výškou čiar
+  // a HR textom, ostatné tlačené objekty bez väzby sú statická grafika etikety.
+  const pdfLabelFor = (type: BarcodeType): VdpPdfLabel => {
+    const linear = type in QUIET_ZONE_REQUIREMENTS && !type.endsWith('STACKED') && !composite
+    let label: VdpPdfLabel = { ...DEFAULT_PDF_LABEL, ...pdfLabel }
+    if (labelLayers) {
+      const symbolObject = vdpSymbolObject(labelLayers, codeType)
+      if (symbolObject) {
+        const sample = barcodeObjectSymbol(symbolObject)
+        label = {
+          ...label,
+          xDimMm: barcodeModuleMm(symbolObject),
+          symbolHeightMm: (symbolObject.barHeightMm * symbolObject.magnificationPercent) / 100,
+          barColor: symbolObject.strokeColor || '#000000',
+          hrText: symbolObject.showHrText,
+          hrFontSizePt: symbolObject.hrFontSizePt,
+          symbolFrame: sample ? sizedBarcodeObject(symbolObject, sample) : symbolObject,
+        }
+      }
+      label = { ...label, ...vdpPdfStaticContent(vdpStaticObjects(labelLayers, symbolObject)) }
+    }
+    if (!linear) label.symbolHeightMm = undefined
+    return label
+  }
+
+  // Variabilné texty a obrázky etikety; chyba väzby (neznáme pole, chýbajúci obrázok) zastaví export na zázname
+  const variableObjectsAt = labelLayers?.some(layer => layer.objects.some(isVdpBoundObject))
+    ? (index: number): LabelObject[] => {
+        const context = { fields: printRunRecordFields(printRun, index), index }
+        const { objects, issues } = vdpRecordObjects(labelLayers, context, vdpImages)
+        if (issues.length > 0) throw new Error(issues.join('; '))
+        return objects
+      }
+    : undefined
+
+  const pdfRendererFor = (type: BarcodeType) =>
+    createBwipRenderer(type, {
+      gs1: codeType === 'GS1DM',
+      segments: dataBarSegments,
+      composite,
+      scale: 1,
+      padding: 0,
+    })
+
+  // Export – PDF režimy sa zapisujú streamovane, jednotlivé súbory ako PDF
+  // záznamov v ZIP archíve; symbológie bez PDF renderera rieši rodič
+  const handleExport = async () => {
+    const { outputMode } = exportOptions
+    const streamed = barcodeType !== null
+    setPdfError(null)
+    setExportLedgerError(null)
+
+    if (printRun.validateBeforeExport) {
+      const dataValidation = validateCsvData()
+      if (dataValidation && dataValidation.errorRows > 0) {
+        const summary = `${dataValidation.errorRows} of ${dataValidation.totalRows} rows failed data validation`
+        if (printRun.stopOnError) {
+          setPdfError(`${summary} – fix or exclude them in the CSV tab`)
+          return
+        }
+        if (!window.confirm(`${summary}.\n\nPokračovať v exporte?`)) return
+      }
+    }
+
+    // Raport pásu s pruhmi – pozície sa mapujú na záznamy podľa poradia pruhov;
+    // export rodiča zapisuje vždy celý beh
+    const plan = streamed && outputMode === 'STEP_REPEAT_PDF' && webStepRepeat ? lanePlan : null
+    const recordCount = getPrintRunRecordCount(printRun)
+    const count = plan ? plan.positions : recordCount
+    const startRecord = streamed
+      ? Math.min(Math.max(0, exportOptions.resumeFromRecord ?? 0), Math.max(0, count - 1))
+      : 0
+    const recordRanges = (from: number, to: number) =>
+      plan ? planRecordRanges(plan, from, to) : to > from ? [{ start: from, end: to - 1 }] : []
+
+    // Ledger: už vytlačené sériové čísla export zablokujú, cudzie rezervácie len varujú
+    const ledgerRanges = (from: number, to: number): SerialRangeQuery[] =>
+      ledgerQuery
+        ? recordRanges(from, to).map(range => ({
+            ...ledgerQuery,
+            start: ledgerQuery.start + range.start,
+            end: ledgerQuery.start + range.end,
+          }))
+        : []
+    if (ledgerQuery) {
+      const issues = ledgerRanges(startRecord, count).flatMap(query => findSerialOverlaps(query))
+      const errors = issues.filter(issue => issue.severity === 'error')
+      if (errors.length > 0) {
+        setPdfError(errors.map(issue => issue.message).join('; '))
+        return
+      }
+      if (issues.length > 0 && !window.confirm(`${issues.map(issue => issue.message).join('\n')}\n\nPokračovať v exporte?`)) {
+        return
+      }
+    }
+
+    // Do ledgera ide len skutočne zapísaný rozsah (aj pri zrušení); chyba
+    // ledgera nemení výsledok exportu, rozsah treba doplniť ručne
+    const recordLedger = (from: number, to: number) => {
+      const exported = ledgerRanges(from, to)
+      if (exported.length === 0) return
+      try {
+        exported.forEach(query => recordSerialExport(query))
+      } catch (error) {
+        console.error('Serial ledger update failed:', error)
+        const ranges = exported.map(query => `${query.prefix}${query.start}–${query.end}`).join(', ')
+        setExportLedgerError(
+          `Export prebehol, ale ledger sa nezapísal (${error instanceof Error ? error.message : String(error)}). ` +
+            `Zapíšte rozsah ${ranges} ručne.`,
+        )
+      } finally {
+        setLedgerRevision(r => r + 1)
+      }
+    }
+
+    if (!streamed) {
+      try {
+        await onExportVdp(exportOptions, variableObjectsAt)
+      } catch (error) {
+        console.error('VDP export failed:', error)
+        setPdfError(`Export zlyhal: ${error instanceof Error ? error.message : String(error)}`)
+        return
+      }
+      recordLedger(0, count)
+      return
+    }
+
+    let sink: PdfSink | null = null
+    if (outputMode !== 'INDIVIDUAL_FILES') {
+      const fileName = `vdp_${codeType}_${startRecord + 1}-${count}.pdf`
+      sink = canStreamToFile() ? await createFilePdfSink(fileName) : createBlobPdfSink(fileName)
+      if (!sink) return
+    }
+
+    const label = pdfLabelFor(barcodeType)
+    const render = pdfRendererFor(barcodeType)
+    const renderSymbol = async (value: string, index: number) => symbolFromImage(await render(value, index))
+    const source = {
+      count,
+      valueAt: (index: number) => getPrintRunRecordValue(printRun, index),
+      objectsAt: variableObjectsAt,
+    }
+    const controller = new AbortController()
+    pdfAbortRef.current = controller
+    setPdfResult(null)
+    setPdfProgress({ written: 0, total: count - startRecord, nextRecord: startRecord, bytes: 0 })
+
+    // Zapísané súbory sa stiahnu ako ZIP aj pri zrušení alebo chybe záznamu
+    const exportFiles = async (): Promise<VdpPdfExportResult> => {
+      const { files, ...filesResult } = await exportVdpPdfFiles(source, renderSymbol, {
+        label,
+        startRecord,
+        fileNameAt: (index, value) => renderVdpFileName(exportOptions.fileNamePattern, index, value),
+        loadImage: loadPdfImage,
+        signal: controller.signal,
+        onProgress: setPdfProgress,
+      })
+      if (files.length > 0) {
+        downloadBlob(await createZip(files), `vdp_${codeType}_${filesResult.firstRecord + 1}-${filesResult.nextRecord}.zip`)
+      }
+      return filesResult
+    }
+
+    let result: VdpPdfExportResult
+    try {
+      result =
+        outputMode === 'INDIVIDUAL_FILES' || !sink
+          ? await exportFiles()
+          : await exportVdpPdf({ ...source, recordAt: plan?.recordAt }, renderSymbol, sink, {
+              label,
+              outputMode,
+              labelsPerPage: exportOptions.labelsPerPage,
+              stepRepeatConfig: exportOptions.stepRepeatConfig ?? stepRepeatConfig,
+              startRecord,
+              title: `VDP ${codeType} ${startRecord + 1}–${count}`,
+              loadImage: loadPdfImage,
+              signal: controller.signal,
+              onProgress: setPdfProgress,
+            })
+    } catch (error) {
+      console.error('VDP PDF export failed:', error)
+      setPdfError(`Zápis zlyhal: ${error instanceof Error ? error.message : String(error)}`)
+      return
+    } finally {
+      pdfAbortRef.current = null
+      setPdfProgress(null)
+    }
+
+    setPdfResult(result)
+    setExportOptions(prev => ({ ...prev, resumeFromRecord: result.nextRecord < count ? result.nextRecord : 0 }))
+    recordLedger(result.firstRecord, result.nextRecord)
   }
 
   // Validation stats
@@ -279,6 +884,114 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
                     <span className="text-slate-200">{serialStats.digits} číslic</span>
                   </div>
                 </div>
+
+                <div className="rounded border border-slate-700 bg-slate-800 p-2">
+                  <div className="mb-2 flex items-center justify-between">
+                    <span className="text-[10px] text-slate-400">Ledger sériových čísel</span>
+                    <span className="text-[9px] text-slate-500">{ledger.totalRanges} záznamov</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="mb-1 block text-[9px] text-slate-400">GTIN</label>
+                      <input
+                        type="text"
+                        value={printRun.gtin ?? ''}
+                        onChange={(e) => onUpdatePrintRun({ gtin: e.target.value })}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+                        placeholder="14 číslic"
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-[9px] text-slate-400">Šarža</label>
+                      <input
+                        type="text"
+                        value={printRun.lot ?? ''}
+                        onChange={(e) => onUpdatePrintRun({ lot: e.target.value })}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+                      />
+                    </div>
+                  </div>
+
+                  {!ledgerQuery && (
+                    <div className="mt-2 text-[9px] text-slate-500">
+                      Zadajte GTIN – export sa potom skontroluje voči už vytlačeným sériovým číslam.
+                    </div>
+                  )}
+
+                  {ledger.issues.length > 0 && (
+                    <div className="mt-2 space-y-0.5">
+                      {ledger.issues.map(issue => (
+                        <div
+                          key={issue.range.id}
+                          className={`text-[9px] ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-300'}`}
+                        >
+                          {issue.message}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {ledgerQuery && ledger.issues.length === 0 && (
+                    <div className="mt-2 text-[9px] text-emerald-400">Rozsah sa neprekrýva s ledgerom</div>
+                  )}
+
+                  {ledger.ownReservations.length > 0 && (
+                    <div className="mt-2 space-y-0.5">
+                      {ledger.ownReservations.map(range => (
+                        <div key={range.id} className="flex items-center justify-between text-[9px] text-slate-300">
+                          <span>
+                            Rezervované {range.prefix}{range.start}–{range.prefix}{range.end}
+                            {range.lot && ` · šarža ${range.lot}`}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleReleaseRange(range.id)}
+                            className="text-slate-500 hover:text-red-400"
+                          >
+                            Uvoľniť
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    <button
+                      type="button"
+                      onClick={handleReserveRange}
+                      disabled={!ledgerQuery || ledger.issues.length > 0}
+                      className="rounded bg-slate-700 px-2 py-1 text-[10px] text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      Rezervovať rozsah
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleNextFreeRange}
+                      disabled={!ledgerQuery}
+                      className="rounded bg-slate-700 px-2 py-1 text-[10px] text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+                    >
+                      Ďalší voľný rozsah
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => downloadText(exportSerialLedger(), 'serial_ledger.json', 'application/json')}
+                      className="rounded bg-slate-700 px-2 py-1 text-[10px] text-slate-200 hover:bg-slate-600"
+                    >
+                      Export JSON
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => downloadText(serialLedgerToCsv(), 'serial_ledger.csv', 'text/csv;charset=utf-8')}
+                      className="rounded bg-slate-700 px-2 py-1 text-[10px] text-slate-200 hover:bg-slate-600"
+                    >
+                      Export CSV
+                    </button>
+                    <label className="cursor-pointer rounded bg-slate-700 px-2 py-1 text-[10px] text-slate-200 hover:bg-slate-600">
+                      Import
+                      <input type="file" accept=".json" onChange={handleImportLedger} className="hidden" />
+                    </label>
+                  </div>
+                  {ledgerMessage && <div className="mt-2 text-[9px] text-slate-400">{ledgerMessage}</div>}
+                </div>
               </>
             )}
           </div>
@@ -331,33 +1044,52 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
                       csvData: { ...printRun.csvData!, patternTemplate: e.target.value }
                     })}
                     className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200 font-mono"
-                    placeholder="(01){GTIN}(21){SERIAL}"
+                    placeholder="(01){GTIN|gs1check}(21){SERIAL}"
                   />
                   <p className="mt-1 text-[9px] text-slate-500">
-                    Použite {'{COLUMN_NAME}'} pre vloženie dát zo stĺpca
+                    Použite {'{COLUMN_NAME}'} pre vloženie dát zo stĺpca, funkcie za |
+                    (napr. {'{LOT|upper}'}, {'{DATE|date:YYMMDD}'}), {'{counter:1:1:0}'} a {'{if …}…{end}'}
                   </p>
+                  {patternIssues.map(issue => (
+                    <p key={issue.position + issue.message} className="mt-1 text-[9px] text-red-400">
+                      {formatVdpTemplateIssue(issue)}
+                    </p>
+                  ))}
                 </div>
 
+                <VdpDataValidation
+                  importState={printRun.csvData}
+                  rules={printRun.validationRules}
+                  onRulesChange={validationRules => onUpdatePrintRun({ validationRules })}
+                  renderRow={renderCsvRow}
+                  onApply={csvData => onUpdatePrintRun({ csvData })}
+                  onSelectRow={onPreviewItem}
+                />
+
                 {/* Preview first rows */}
                 <div>
                   <label className="mb-1 block text-[9px] text-slate-400">Náhľad prvých riadkov</label>
                   <div className="space-y-1 max-h-32 overflow-y-auto">
-                    {csvRows.slice(0, 5).map((row, idx) => (
-                      <div
-                        key={idx}
-                        onClick={() => onPreviewItem(idx)}
-                        className={`cursor-pointer rounded border p-1.5 text-[9px] ${
-                          row.isValid
-                            ? 'border-slate-700 bg-slate-800 hover:bg-slate-700'
-                            : 'border-red-500/50 bg-red-500/10'
-                        }`}
-                      >
-                        <div className="font-mono text-slate-200">{row.generatedCode}</div>
-                        {row.errors && row.errors.length > 0 && (
-                          <div className="mt-0.5 text-red-400">{row.errors.join(', ')}</div>
-                        )}
-                      </div>
-                    ))}
+                    {csvRows.slice(0, 5).map((row, idx) => {
+                      const record = renderPrintRunRecord(printRun, idx)
+                      const errors = [...(row.errors ?? []), ...record.issues.map(formatVdpTemplateIssue)]
+                      return (
+                        <div
+                          key={idx}
+                          onClick={() => onPreviewItem(idx)}
+                          className={`cursor-pointer rounded border p-1.5 text-[9px] ${
+                            row.isValid !== false && errors.length === 0
+                              ? 'border-slate-700 bg-slate-800 hover:bg-slate-700'
+                              : 'border-red-500/50 bg-red-500/10'
+                          }`}
+                        >
+                          <div className="font-mono text-slate-200">{record.value}</div>
+                          {errors.length > 0 && (
+                            <div className="mt-0.5 text-red-400">{errors.join(', ')}</div>
+                          )}
+                        </div>
+                      )
+                    })}
                   </div>
                 </div>
               </>
@@ -378,8 +1110,116 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
               Použiť lane rozdelenie
             </label>
 
-            {printRun.useLanes && (
+            {printRun.useLanes && lanePlan && (
               <>
+                <div className="rounded border border-slate-700 bg-slate-800 p-2">
+                  <div className="mb-2 flex items-center justify-between">
+                    <span className="text-[10px] text-slate-400">Poradie na páse</span>
+                    <span className="text-[9px] text-slate-500">
+                      {laneCount} {webStepRepeat ? 'pruhov z raportu pásu' : 'pruhov podľa lanes'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="col-span-2">
+                      <label className="mb-1 block text-[9px] text-slate-400">Číslovanie</label>
+                      <select
+                        value={printRun.laneSequencing ?? 'DOWN_EACH_LANE'}
+                        onChange={(e) => onUpdatePrintRun({ laneSequencing: e.target.value as VdpLaneSequencing })}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200"
+                      >
+                        <option value="DOWN_EACH_LANE">Po pruhoch – každá rola súvislý blok</option>
+                        <option value="ACROSS_THEN_DOWN">Naprieč, potom dole</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-[9px] text-slate-400">Navinutie</label>
+                      <select
+                        value={rollWinding.wound}
+                        onChange={(e) => updateRollWinding({ wound: e.target.value as VdpRollWinding['wound'] })}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200"
+                      >
+                        <option value="OUTSIDE">Potlačou von</option>
+                        <option value="INSIDE">Potlačou dnu</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="mb-1 block text-[9px] text-slate-400">Prevíjaní po tlači</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={3}
+                        value={rollWinding.rewinds}
+                        onChange={(e) => updateRollWinding({ rewinds: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label className="mb-1 block text-[9px] text-slate-400">Poradie pre aplikátor</label>
+                      <select
+                        value={rollWinding.dispenseOrder}
+                        onChange={(e) =>
+                          updateRollWinding({ dispenseOrder: e.target.value as VdpRollWinding['dispenseOrder'] })
+                        }
+                        className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200"
+                      >
+                        <option value="ASCENDING">Vzostupne (prvé číslo ide z roly prvé)</option>
+                        <option value="DESCENDING">Zostupne</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="mt-2 text-[9px] text-slate-400">
+                    Tlač {lanePlan.printDescending ? 'od posledného čísla (obrátene)' : 'od prvého čísla'} ·{' '}
+                    {lanePlan.webRows.toLocaleString()} riadkov na páse · poloha odvíjania {lanePlan.unwindPosition}
+                  </div>
+                  {lanePlan.issues.map(issue => (
+                    <div key={issue} className="mt-1 text-[9px] text-amber-300">{issue}</div>
+                  ))}
+                </div>
+
+                {/* Náhľad pásu a rolí */}
+                <div className="rounded border border-slate-700 bg-slate-800/50 p-2">
+                  <div className="mb-1 text-[10px] text-slate-400">Náhľad pásu (poradie tlače)</div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full font-mono text-[9px] text-slate-300">
+                      <tbody>
+                        {webPreviewRows.map(row =>
+                          row === null ? (
+                            <tr key="gap">
+                              <td colSpan={lanePlan.lanes} className="text-center text-slate-500">⋮</td>
+                            </tr>
+                          ) : (
+                            <tr key={row}>
+                              {Array.from({ length: lanePlan.lanes }, (_, lane) => {
+                                const record = lanePlan.recordAt(row * lanePlan.lanes + lane)
+                                return (
+                                  <td key={lane} className="border border-slate-700 px-1 py-0.5 text-center">
+                                    {record < 0 ? '—' : `#${record + 1}`}
+                                  </td>
+                                )
+                              })}
+                            </tr>
+                          ),
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="mt-2 space-y-0.5">
+                    {lanePlan.rolls.map(roll => (
+                      <div key={roll.lane} className="flex justify-between text-[9px]">
+                        <span className="text-slate-400">Rola {roll.lane}</span>
+                        <span className="text-slate-200">
+                          {roll.count > 0
+                            ? `#${roll.firstOff + 1} → #${roll.lastOff + 1} · ${roll.count.toLocaleString()} ks`
+                            : 'prázdna'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {(printRun.laneSequencing ?? 'DOWN_EACH_LANE') === 'DOWN_EACH_LANE' && (
+                <>
                 <div className="flex gap-2">
                   <button
                     onClick={handleAddLane}
@@ -440,6 +1280,8 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
                     </div>
                   ))}
                 </div>
+                </>
+                )}
               </>
             )}
           </div>
@@ -498,6 +1340,106 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
               </label>
             </div>
 
+            {/* Batch verification */}
+            <div className="rounded border border-slate-700 bg-slate-800/50 p-2">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-medium text-slate-300">Verifikácia kvality (ISO)</span>
+                {batchProgress ? (
+                  <button
+                    onClick={() => batchAbortRef.current?.abort()}
+                    className="rounded bg-red-600 px-2 py-0.5 text-[9px] text-white hover:bg-red-500"
+                  >
+                    Zastaviť
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleVerifyBatch}
+                    disabled={!barcodeType}
+                    className="rounded bg-amber-600 px-2 py-0.5 text-[9px] text-white hover:bg-amber-500 disabled:opacity-50"
+                  >
+                    Verifikovať beh
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-[8px] text-slate-500">Vzorka (0 = všetky)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={batchSampleSize}
+                    onChange={(e) => setBatchSampleSize(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-0.5 text-[10px] text-slate-200"
+                  />
+                </div>
+                <div>
+                  <label className="text-[8px] text-slate-500">Min. grade (profil)</label>
+                  <div className="px-2 py-0.5 text-[10px] font-medium text-slate-200">
+                    {minimumGrade}{activeProfile ? ` · ${activeProfile.label}` : ''}
+                  </div>
+                </div>
+              </div>
+
+              {batchProgress && (
+                <div className="mt-2 text-[9px] text-slate-400">
+                  Verifikujem {batchProgress.verified} / {batchProgress.total}...
+                </div>
+              )}
+
+              {batchReport && (
+                <div className="mt-2 space-y-2">
+                  <div className="grid grid-cols-5 gap-1 text-center text-[10px]">
+                    {(['A', 'B', 'C', 'D', 'F'] as QualityGrade[]).map(grade => (
+                      <div key={grade} className="rounded bg-slate-900 py-1">
+                        <div className="font-semibold" style={{ color: getGradeColor(grade) }}>{grade}</div>
+                        <div className="text-slate-300">{batchReport.summary.gradeDistribution[grade]}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-[9px] text-slate-400">
+                    Overených {batchReport.summary.verifiedRecords} z {batchReport.summary.totalRecords} ·{' '}
+                    <span className="text-emerald-400">{batchReport.summary.passedRecords} OK</span> ·{' '}
+                    <span className="text-red-400">{batchReport.summary.failedRecords} chybných</span>
+                    {batchReport.summary.cancelled && ' · zastavené'}
+                  </div>
+
+                  {failedBatchRecords.length > 0 && (
+                    <div className="max-h-24 space-y-1 overflow-y-auto">
+                      {failedBatchRecords.slice(0, 50).map(record => (
+                        <div
+                          key={record.index}
+                          onClick={() => onPreviewItem(record.index)}
+                          className="cursor-pointer rounded border border-red-500/50 bg-red-500/10 px-2 py-1 text-[9px] hover:bg-red-500/20"
+                        >
+                          <span className="text-slate-500">#{record.index + 1}</span>{' '}
+                          <span className="font-mono text-slate-200">{record.value}</span>{' '}
+                          <span className="text-red-400">
+                            {record.overallGrade} · {record.failedParameters.join(', ')}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleDownloadBatchReport('CSV')}
+                      className="flex-1 rounded bg-slate-700 py-1 text-[9px] text-slate-300 hover:bg-slate-600"
+                    >
+                      Report CSV
+                    </button>
+                    <button
+                      onClick={() => handleDownloadBatchReport('JSON')}
+                      className="flex-1 rounded bg-slate-700 py-1 text-[9px] text-slate-300 hover:bg-slate-600"
+                    >
+                      Report JSON
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Export options */}
             <div>
               <label className="mb-1 block text-[9px] text-slate-400">Formát výstupu</label>
@@ -543,11 +1485,21 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
                     fileNamePattern: e.target.value
                   })}
                   className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200 font-mono"
-                  placeholder="label_{INDEX}_{VALUE}"
+                  placeholder="label_{INDEX|pad:5}_{VALUE}"
                 />
                 <p className="mt-1 text-[9px] text-slate-500">
-                  {'{INDEX}'} = poradie, {'{VALUE}'} = hodnota kódu
+                  {'{INDEX}'} = poradie, {'{VALUE}'} = hodnota kódu, funkcie ako v šablóne dát
                 </p>
+                {fileNameIssues.length === 0 && previewSamples.length > 0 && (
+                  <p className="mt-0.5 font-mono text-[9px] text-slate-400">
+                    {renderVdpFileName(exportOptions.fileNamePattern, 0, previewSamples[0].value)}
+                  </p>
+                )}
+                {fileNameIssues.map(issue => (
+                  <p key={issue.position + issue.message} className="mt-0.5 text-[9px] text-red-400">
+                    {formatVdpTemplateIssue(issue)}
+                  </p>
+                ))}
               </div>
             )}
 
@@ -564,6 +1516,135 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
               Generovať job report
             </label>
 
+            {barcodeType !== null && (
+              <div className="rounded border border-slate-700 bg-slate-800/50 p-2">
+                <div className="mb-1 text-[10px] font-medium text-slate-300">
+                  {exportOptions.outputMode === 'INDIVIDUAL_FILES' ? 'Jednotlivé PDF' : 'Streamovaný PDF'}
+                </div>
+                <p className="mb-2 text-[9px] text-slate-500">
+                  {exportOptions.outputMode === 'INDIVIDUAL_FILES'
+                    ? 'Každý záznam sa uloží ako PDF s jednou etiketou, súbory sa stiahnu v ZIP archíve. Po zrušení obsahuje archív zapísané záznamy.'
+                    : `${canStreamToFile()
+                        ? 'PDF sa zapisuje priebežne priamo do súboru na disku.'
+                        : 'Prehliadač nepodporuje zápis na disk – PDF sa skladá po blokoch a na konci stiahne.'} Po zrušení zostane platné PDF so zapísanými stranami.`}
+                </p>
+                <label className="mb-1 block text-[9px] text-slate-400">Pokračovať od záznamu</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={(exportOptions.resumeFromRecord ?? 0) + 1}
+                  onChange={(e) => setExportOptions({
+                    ...exportOptions,
+                    resumeFromRecord: Math.max(0, (parseInt(e.target.value) || 1) - 1)
+                  })}
+                  disabled={pdfProgress !== null}
+                  className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-[10px] text-slate-200"
+                />
+
+                {pdfProgress && (
+                  <div className="mt-2 space-y-1">
+                    <div className="h-1.5 overflow-hidden rounded bg-slate-900">
+                      <div
+                        className="h-full bg-emerald-500"
+                        style={{ width: `${pdfProgress.total > 0 ? (pdfProgress.written / pdfProgress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-[9px] text-slate-400">
+                      <span>
+                        {pdfProgress.written.toLocaleString()} / {pdfProgress.total.toLocaleString()} ·{' '}
+                        {(pdfProgress.bytes / 1048576).toFixed(1)} MB
+                      </span>
+                      <button
+                        onClick={() => pdfAbortRef.current?.abort()}
+                        className="rounded bg-red-600 px-2 py-0.5 text-[9px] text-white hover:bg-red-500"
+                      >
+                        Zrušiť
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {pdfResult && (
+                  <div className={`mt-2 text-[9px] ${pdfResult.cancelled || pdfResult.error ? 'text-amber-300' : 'text-emerald-400'}`}>
+                    Záznamy {pdfResult.firstRecord + 1}–{pdfResult.nextRecord} · {pdfResult.pages.toLocaleString()}{' '}
+                    {exportOptions.outputMode === 'INDIVIDUAL_FILES' ? 'súborov' : 'strán'} ·{' '}
+                    {(pdfResult.bytes / 1048576).toFixed(1)} MB
+                    {pdfResult.cancelled && ` · zrušené, pokračujte od záznamu ${pdfResult.nextRecord + 1}`}
+                    {pdfResult.error &&
+                      ` · export zastavený: ${pdfResult.error} – opravte dáta a pokračujte od záznamu ${pdfResult.nextRecord + 1}`}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Proof */}
+            <div className="rounded border border-slate-700 bg-slate-800/50 p-2">
+              <div className="mb-2 flex items-center justify-between">
+                <span className="text-[10px] font-medium text-slate-300">Korektúra (proof) na schválenie</span>
+                <span className="text-[9px] text-slate-500">{proofSelection.records.length} záznamov</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="text-[8px] text-slate-500">Prvých</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={proofConfig.firstCount}
+                    onChange={(e) => updateProofConfig({ firstCount: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-0.5 text-[10px] text-slate-200"
+                  />
+                </div>
+                <div>
+                  <label className="text-[8px] text-slate-500">Posledných</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={proofConfig.lastCount}
+                    onChange={(e) => updateProofConfig({ lastCount: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-0.5 text-[10px] text-slate-200"
+                  />
+                </div>
+                <div>
+                  <label className="text-[8px] text-slate-500">Každý K-tý (0 = nie)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={proofConfig.everyNth}
+                    onChange={(e) => updateProofConfig({ everyNth: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-0.5 text-[10px] text-slate-200"
+                  />
+                </div>
+              </div>
+              <label className="mt-2 block text-[8px] text-slate-500">Vybrané záznamy (napr. 12, 250, 1000-1005)</label>
+              <input
+                type="text"
+                value={proofRecordsText ?? formatVdpProofRecordList(proofConfig.records)}
+                onChange={(e) => setProofRecordsText(e.target.value)}
+                onBlur={handleProofRecordsBlur}
+                className="w-full rounded border border-slate-600 bg-slate-900 px-2 py-0.5 font-mono text-[10px] text-slate-200"
+              />
+              <label className="mt-2 flex items-center gap-2 text-[9px] text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={proofConfig.verify}
+                  onChange={(e) => updateProofConfig({ verify: e.target.checked })}
+                  className="h-3 w-3"
+                />
+                Dekódovať symboly a uviesť grade
+              </label>
+              {proofSelection.issues.map(issue => (
+                <div key={issue} className="mt-1 text-[9px] text-amber-300">{issue}</div>
+              ))}
+              <button
+                onClick={handleExportProof}
+                disabled={!barcodeType || proofProgress !== null || proofSelection.records.length === 0}
+                className="mt-2 w-full rounded bg-sky-700 py-1 text-[10px] text-white hover:bg-sky-600 disabled:opacity-50"
+              >
+                {proofProgress ?? 'Exportovať proof PDF'}
+              </button>
+              {proofMessage && <div className="mt-1 text-[9px] text-slate-400">{proofMessage}</div>}
+            </div>
+
             {/* Preview samples */}
             <div className="rounded border border-slate-700 bg-slate-800/50 p-2">
               <div className="mb-2 text-[10px] font-medium text-slate-300">Náhľad vzoriek</div>
@@ -588,7 +1669,8 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
       <div className="border-t border-slate-700 p-3">
         <button
           onClick={handleExport}
-          className="w-full rounded bg-emerald-600 py-2 text-[11px] font-medium text-white hover:bg-emerald-500"
+          disabled={pdfProgress !== null}
+          className="w-full rounded bg-emerald-600 py-2 text-[11px] font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
         >
           Exportovať VDP ({
             printRun.source === 'SERIAL' 
@@ -596,6 +1678,8 @@ export const VdpPrintRunPanel: React.FC<VdpPrintRunPanelProps> = ({
               : printRun.csvData?.totalRows.toLocaleString() || 0
           } ks)
         </button>
+        {pdfError && <div className="mt-2 text-[9px] text-red-400">{pdfError}</div>}
+        {exportLedgerError && <div className="mt-2 text-[9px] text-amber-300">{exportLedgerError}</div>}
       </div>
     </div>
   )
@@ -0,0 +1,252 @@
+// src/lib/eanUpc.ts
+// EAN/UPC – doplnkové symboly EAN-2/EAN-5 (periodiká, knihy) a konverzia
+// UPC-E ↔ UPC-A s kontrolou číselného systému
+import type { CodeType } from '../types/barcodeTypes'
+import {
+  buildGs1ElementString,
+  formatGs1Hri,
+  gs1CheckDigit,
+  validateGtin,
+  type Gs1Element,
+  type Gs1Issue,
+  type Gs1ValidationReport,
+} from './gs1'
+
+/* =====================
+ * DOPLNKOVÉ SYMBOLY (ADD-ON)
+ * ===================== */
+
+/** Typy kódov, za ktoré sa dá pridať EAN-2/EAN-5 */
+const ADD_ON_CODE_TYPES: CodeType[] = ['EAN13', 'UPCA', 'UPCE']
+
+/** Medzera medzi hlavným symbolom a doplnkom v moduloch (GS1 General Specifications) */
+export const ADD_ON_GAP_MODULES: Partial<Record<CodeType, { min: number; max: number }>> = {
+  EAN13: { min: 7, max: 12 },
+  UPCA: { min: 9, max: 12 },
+  UPCE: { min: 9, max: 12 },
+}
+
+/** Kreslená medzera – horná hranica rozsahu, rovnako ako bwip-js */
+export const ADD_ON_GAP_DEFAULT = 12
+
+/** Pravá quiet zóna za doplnkom */
+export const ADD_ON_QUIET_ZONE_MODULES = 5
+
+/** Sady číslic EAN-2 podľa hodnoty mod 4 (A = nepárna, B = párna parita) */
+const EAN2_NUMBER_SETS = ['AA', 'AB', 'BA', 'BB']
+
+/** Sady číslic EAN-5 podľa kontrolnej hodnoty */
+const EAN5_NUMBER_SETS = ['BBAAA', 'BABAA', 'BAABA', 'BAAAB', 'ABBAA', 'AABBA', 'AAABB', 'ABABA', 'ABAAB', 'AABAB']
+
+/** Mena ceny v EAN-5 (knihy) podľa prvej číslice */
+const EAN5_CURRENCIES: Record<string, string> = {
+  '0': 'GBP',
+  '1': 'GBP',
+  '3': 'AUD',
+  '4': 'NZD',
+  '5': 'USD',
+  '6': 'CAD',
+}
+
+export function isAddOnCodeType(codeType: CodeType): boolean {
+  return ADD_ON_CODE_TYPES.includes(codeType)
+}
+
+/** Počet modulov doplnku: štart 1011, znaky po 7 modulov, oddeľovače 01 */
+export function addOnModules(digits: number): number {
+  return 4 + digits * 7 + (digits - 1) * 2
+}
+
+/** Sady číslic doplnku, null pre neplatnú dĺžku */
+export function addOnNumberSets(addOn: string): string | null {
+  if (!/^\d+$/.test(addOn)) return null
+  if (addOn.length === 2) return EAN2_NUMBER_SETS[Number(addOn) % 4]
+  if (addOn.length !== 5) return null
+
+  const digits = addOn.split('').map(Number)
+  const check = (3 * (digits[0] + digits[2] + digits[4]) + 9 * (digits[1] + digits[3])) % 10
+  return EAN5_NUMBER_SETS[check]
+}
+
+/** Hlavný symbol a doplnok oddelené medzerou (vstup bwip-js) */
+export function splitAddOn(value: string): { main: string; addOn: string } {
+  const [main, addOn = ''] = value.trim().split(/\s+/)
+  return { main: main ?? '', addOn }
+}
+
+export function joinAddOn(main: string, addOn: string): string {
+  return addOn ? `${main} ${addOn}` : main
+}
+
+/** Význam EAN-5 na knihách – odporúčaná cena */
+export function describeEan5(addOn: string): string | null {
+  if (!/^\d{5}$/.test(addOn)) return null
+  if (addOn === '90000') return 'No suggested retail price'
+  if (addOn.startsWith('9')) return 'Publisher internal use'
+
+  const currency = EAN5_CURRENCIES[addOn[0]]
+  return currency ? `Suggested retail price ${currency} ${Number(addOn.slice(1)) / 100}` : null
+}
+
+/**
+ * Kontrola doplnku: 2 alebo 5 číslic. Pri GTIN-13 kníh (978/979) sa čaká
+ * EAN-5 s cenou, pri periodikách ISSN (977) EAN-2 s číslom vydania.
+ */
+export function validateAddOn(addOn: string, gtin = ''): Gs1Issue[] {
+  if (!/^\d+$/.test(addOn)) {
+    return [{ code: 'INVALID_CHARACTER', severity: 'error', message: 'Add-on must contain only digits' }]
+  }
+  if (addOn.length !== 2 && addOn.length !== 5) {
+    return [{ code: 'INVALID_VALUE', severity: 'error', message: 'Add-on must have 2 (EAN-2) or 5 (EAN-5) digits' }]
+  }
+
+  const issues: Gs1Issue[] = []
+  const prefix = gtin.slice(-13, -10)
+  if ((prefix === '978' || prefix === '979') && addOn.length !== 5) {
+    issues.push({ code: 'INVALID_VALUE', severity: 'warning', message: 'Books (ISBN 978/979) use a 5-digit price add-on' })
+  }
+  if (prefix === '977' && addOn.length !== 2) {
+    issues.push({ code: 'INVALID_VALUE', severity: 'warning', message: 'Periodicals (ISSN 977) use a 2-digit issue number add-on' })
+  }
+  if (addOn.length === 5 && addOn[0] !== '9' && !EAN5_CURRENCIES[addOn[0]]) {
+    issues.push({ code: 'INVALID_VALUE', severity: 'warning', message: `EAN-5 leading digit ${addOn[0]} is not an assigned price currency` })
+  }
+  return issues
+}
+
+/* =====================
+ * UPC-E ↔ UPC-A
+ * ===================== */
+
+/** Sady číslic UPC-E pre číselný systém 0 podľa kontrolnej číslice (systém 1 je inverzný) */
+const UPCE_NUMBER_SETS = ['BBBAAA', 'BBABAA', 'BBAABA', 'BBAAAB', 'BABBAA', 'BAABBA', 'BAAABB', 'BABABA', 'BABAAB', 'BAABAB']
+
+/** Sady číslic UPC-E – kontrolná číslica a číselný systém sú zakódované paritou */
+export function upcENumberSets(numberSystem: number, checkDigit: number): string {
+  const sets = UPCE_NUMBER_SETS[checkDigit]
+  return numberSystem === 0 ? sets : sets.replace(/[AB]/g, c => (c === 'A' ? 'B' : 'A'))
+}
+
+/**
+ * UPC-E (7 číslic bez kontrolnej alebo 8 s kontrolnou) → 12-miestny UPC-A.
+ * Null pri neplatnom formáte alebo číselnom systéme inom ako 0/1.
+ */
+export function expandUpcE(upce: string): string | null {
+  if (!/^[01]\d{6,7}$/.test(upce)) return null
+
+  const d = upce.slice(1, 7)
+  const last = d[5]
+  let body: string
+  if (last <= '2') {
+    body = d.slice(0, 2) + last + '0000' + d.slice(2, 5)
+  } else if (last === '3') {
+    body = d.slice(0, 3) + '00000' + d.slice(3, 5)
+  } else if (last === '4') {
+    body = d.slice(0, 4) + '00000' + d[4]
+  } else {
+    body = d.slice(0, 5) + '0000' + last
+  }
+
+  const upca = upce[0] + body
+  return upca + String(gs1CheckDigit(upca))
+}
+
+/**
+ * UPC-A (11 alebo 12 číslic) → 8-miestny UPC-E vrátane kontrolnej číslice.
+ * Null, ak UPC-A nemá číselný systém 0/1 alebo sa nedá potlačiť nulami.
+ */
+export function compressUpcA(upca: string): string | null {
+  if (!/^[01]\d{10,11}$/.test(upca)) return null
+  if (upca.length === 12 && gs1CheckDigit(upca.slice(0, 11)) !== Number(upca[11])) return null
+
+  const manufacturer = upca.slice(1, 6)
+  const product = upca.slice(6, 11)
+  let compressed: string | null = null
+
+  if (/^[0-2]00$/.test(manufacturer.slice(2)) && product.startsWith('00')) {
+    compressed = manufacturer.slice(0, 2) + product.slice(2) + manufacturer[2]
+  } else if (manufacturer.endsWith('00') && product.startsWith('000')) {
+    compressed = manufacturer.slice(0, 3) + product.slice(3) + '3'
+  } else if (manufacturer.endsWith('0') && product.startsWith('0000')) {
+    compressed = manufacturer.slice(0, 4) + product[4] + '4'
+  } else if (product.startsWith('0000') && product[4] >= '5') {
+    compressed = manufacturer + product[4]
+  }
+  if (!compressed) return null
+
+  return upca[0] + compressed + String(gs1CheckDigit(upca.slice(0, 11)))
+}
+
+/**
+ * Validácia UPC-E. Číselný systém musí byť 0 alebo 1, kontrolná číslica
+ * sa počíta z UPC-A ekvivalentu a UPC-E musí byť jeho jediným platným
+ * potlačeným tvarom. Výsledok je (01) element s GTIN-14.
+ */
+export function validateUpcE(value: string): Gs1ValidationReport {
+  const digits = value.trim()
+  const issues: Gs1Issue[] = []
+  const upca = expandUpcE(digits)
+
+  if (!/^\d+$/.test(digits)) {
+    issues.push({ code: 'INVALID_CHARACTER', severity: 'error', ai: '01', message: 'UPC-E must contain only digits' })
+  } else if (digits.length !== 7 && digits.length !== 8) {
+    issues.push({
+      code: digits.length < 7 ? 'TOO_SHORT' : 'TOO_LONG',
+      severity: 'error',
+      ai: '01',
+      message: 'UPC-E must have 7 or 8 digits (number system, 6 digits, optional check digit)',
+    })
+  } else if (!upca) {
+    issues.push({ code: 'INVALID_VALUE', severity: 'error', ai: '01', message: `UPC-E number system must be 0 or 1, got ${digits[0]}` })
+  } else if (digits.length === 8 && digits[7] !== upca[11]) {
+    issues.push({ code: 'CHECK_DIGIT', severity: 'error', ai: '01', message: `Invalid check digit, expected ${upca[11]}` })
+  } else if (compressUpcA(upca)?.slice(0, 7) !== digits.slice(0, 7)) {
+    issues.push({
+      code: 'INVALID_VALUE',
+      severity: 'error',
+      ai: '01',
+      message: `UPC-E ${digits} does not match the zero suppression of UPC-A ${upca}, use ${compressUpcA(upca)}`,
+    })
+  }
+
+  const valid = issues.length === 0
+  const elements: Gs1Element[] = valid && upca
+    ? [{ ai: '01', title: 'GTIN', value: upca.padStart(14, '0'), predefinedLength: true, valid }]
+    : []
+  return {
+    valid,
+    elements,
+    issues,
+    hri: formatGs1Hri(elements),
+    elementString: buildGs1ElementString(elements),
+  }
+}
+
+/* =====================
+ * VALIDÁCIA EAN/UPC
+ * ===================== */
+
+const GTIN_LENGTHS: Partial<Record<CodeType, number>> = {
+  EAN13: 13,
+  EAN8: 8,
+  UPCA: 12,
+}
+
+/**
+ * Validácia EAN/UPC vrátane doplnku za medzerou (napr. "978020137962 51995")
+ */
+export function validateEanUpc(codeType: CodeType, value: string): Gs1ValidationReport {
+  const { main, addOn } = splitAddOn(value)
+  const gtinLength = GTIN_LENGTHS[codeType]
+  const report = gtinLength ? validateGtin(main, gtinLength) : validateUpcE(main)
+  if (!addOn) return report
+
+  const issues = isAddOnCodeType(codeType)
+    ? validateAddOn(addOn, report.elements[0]?.value)
+    : [{ code: 'INVALID_VALUE', severity: 'error', message: `${codeType} does not support add-on symbols` } satisfies Gs1Issue]
+  return {
+    ...report,
+    valid: report.valid && !issues.some(i => i.severity === 'error'),
+    issues: [...report.issues, ...issues],
+  }
+}
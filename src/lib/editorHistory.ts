@@ -0,0 +1,119 @@
+// src/lib/editorHistory.ts
+// História úprav editora etikety – každý krok je príkaz so stavom pred
+// a po zmene a čitateľným popisom; rýchle ťahanie posuvníka sa zlúči
+// do jedného kroku
+import { diffCodeJobs, formatCodeJobChange, type CodeJobChange } from './jobDiff'
+import type { CodeJob } from '../types/jobTypes'
+import type { VdpImportState } from '../types/barcodeTypes'
+
+/** Stav editora, do ktorého sa dá vrátiť */
+export type EditorSnapshot = {
+  job: CodeJob
+  /** Importované VDP dáta – v jobe sú len ako súbor, pri návrate sa nečítajú znova */
+  vdpImportState: VdpImportState
+}
+
+export type EditorCommand = {
+  id: number
+  description: string
+  changes: CodeJobChange[]
+  before: EditorSnapshot
+  after: EditorSnapshot
+  /** Čas poslednej zmeny v kroku (ms) */
+  at: number
+}
+
+export type EditorHistory = {
+  /** Vykonané kroky, najstarší prvý */
+  past: EditorCommand[]
+  /** Vrátené kroky, najbližší na zopakovanie prvý */
+  future: EditorCommand[]
+}
+
+export const EMPTY_EDITOR_HISTORY: EditorHistory = { past: [], future: [] }
+
+/** Zmeny tých istých polí v tomto okne sa zlúčia do jedného kroku */
+export const HISTORY_MERGE_WINDOW_MS = 800
+/** Najstaršie kroky nad limit sa zahodia */
+export const HISTORY_LIMIT = 200
+
+let nextCommandId = 1
+
+/** Napr. „Šírka etikety (mm): 50 → 40“, pri viacerých zmenách „… (+2)“ */
+export function describeEditorChanges(changes: CodeJobChange[]): string {
+  if (!changes.length) return 'Bez zmien'
+  const first = formatCodeJobChange(changes[0])
+  return changes.length > 1 ? `${first} (+${changes.length - 1})` : first
+}
+
+function samePaths(a: CodeJobChange[], b: CodeJobChange[]): boolean {
+  return a.length === b.length && a.every((change, i) => change.path === b[i].path)
+}
+
+/**
+ * Zaznamená zmenu stavu `before` → `after`. Zmena bez rozdielu v jobe sa
+ * ignoruje; pokračovanie ťahania (tie isté polia tesne po sebe) rozšíri
+ * posledný krok namiesto pridania nového.
+ */
+export function recordEditorChange(
+  history: EditorHistory,
+  before: EditorSnapshot,
+  after: EditorSnapshot,
+  at: number,
+): EditorHistory {
+  const changes = diffCodeJobs(before.job, after.job)
+  if (!changes.length) return history
+
+  const last = history.past[history.past.length - 1]
+  if (
+    last &&
+    !history.future.length &&
+    at - last.at <= HISTORY_MERGE_WINDOW_MS &&
+    samePaths(last.changes, changes)
+  ) {
+    const merged = diffCodeJobs(last.before.job, after.job)
+    const past = history.past.slice(0, -1)
+    // Ťahanie späť na pôvodnú hodnotu krok úplne zruší
+    if (!merged.length) return { past, future: [] }
+    return {
+      past: [...past, { ...last, description: describeEditorChanges(merged), changes: merged, after, at }],
+      future: [],
+    }
+  }
+
+  const command: EditorCommand = {
+    id: nextCommandId++,
+    description: describeEditorChanges(changes),
+    changes,
+    before,
+    after,
+    at,
+  }
+  return { past: [...history.past, command].slice(-HISTORY_LIMIT), future: [] }
+}
+
+/**
+ * Presun v histórii na pozíciu `position` (počet vykonaných krokov).
+ * Vráti novú históriu a stav editora, ktorý treba nastaviť, alebo null,
+ * ak pozícia neexistuje alebo sa nemení.
+ */
+export function goToEditorHistory(
+  history: EditorHistory,
+  position: number,
+): { history: EditorHistory; snapshot: EditorSnapshot } | null {
+  const commands = [...history.past, ...history.future]
+  if (position === history.past.length || position < 0 || position > commands.length) return null
+  const snapshot = position === 0 ? commands[0].before : commands[position - 1].after
+  return {
+    history: { past: commands.slice(0, position), future: commands.slice(position) },
+    snapshot,
+  }
+}
+
+export function undoEditorHistory(history: EditorHistory) {
+  return goToEditorHistory(history, history.past.length - 1)
+}
+
+export function redoEditorHistory(history: EditorHistory) {
+  return goToEditorHistory(history, history.past.length + 1)
+}
@@ -0,0 +1,775 @@
+// src/lib/gs1.ts
+// Klientský GS1 syntax engine – parsovanie a validácia GS1 element stringov
+// (AI slovník, dĺžky, FNC1, kontrolné číslice, dátumy, párovanie AI)
+import type { CodeType, DataBarVariant } from '../types/barcodeTypes'
+import {
+  GS1_AI_TABLE,
+  GS1_PREDEFINED_LENGTH_PREFIXES,
+  ISO3166_ALPHA2,
+  ISO3166_NUMERIC,
+  ISO4217_NUMERIC,
+} from './gs1Dictionary'
+
+/** FNC1 separátor v element stringu (ASCII GS) */
+export const GS1_GS = '\x1D'
+
+export type Gs1CharacterSet = 'N' | 'X' | 'Y' | 'Z'
+
+export type Gs1Component = {
+  charset: Gs1CharacterSet
+  minLength: number
+  maxLength: number
+  optional: boolean
+  checks: string[]
+}
+
+export type Gs1AiDefinition = {
+  ai: string
+  title: string
+  components: Gs1Component[]
+  minLength: number
+  maxLength: number
+  /** AI s preddefinovanou dĺžkou – za nimi sa FNC1 nevkladá */
+  predefinedLength: boolean
+  /** Každá skupina musí mať v symbole aspoň jeden AI */
+  requires: string[][]
+  excludes: string[]
+}
+
+export type Gs1IssueCode =
+  | 'EMPTY'
+  | 'SYNTAX'
+  | 'UNKNOWN_AI'
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'INVALID_CHARACTER'
+  | 'CHECK_DIGIT'
+  | 'INVALID_DATE'
+  | 'INVALID_TIME'
+  | 'INVALID_VALUE'
+  | 'MISSING_FNC1'
+  | 'UNNECESSARY_FNC1'
+  | 'MISSING_REQUIRED_AI'
+  | 'EXCLUSIVE_AIS'
+  | 'DUPLICATE_AI'
+  | 'URI_SYNTAX'
+  | 'AI_NOT_SUPPORTED'
+
+export type Gs1Issue = {
+  code: Gs1IssueCode
+  severity: 'error' | 'warning'
+  ai?: string
+  message: string
+}
+
+export type Gs1Element = {
+  ai: string
+  title: string
+  value: string
+  predefinedLength: boolean
+  valid: boolean
+}
+
+export type Gs1ValidationReport = {
+  valid: boolean
+  elements: Gs1Element[]
+  issues: Gs1Issue[]
+  /** Bracketed HRI, napr. (01)09501101530003(10)ABC */
+  hri: string
+  /** Element string s FNC1 (GS) separátormi, bez symbology identifikátora */
+  elementString: string
+}
+
+/* =====================
+ * SLOVNÍK
+ * ===================== */
+
+function parseComponent(spec: string): Gs1Component {
+  const optional = spec.startsWith('[') && spec.endsWith(']')
+  const body = optional ? spec.slice(1, -1) : spec
+  const [format, ...checks] = body.split(',')
+  const match = /^([NXYZ])(\d*)(?:\.\.(\d+))?$/.exec(format)
+  if (!match) throw new Error(`Neplatná GS1 špecifikácia komponentu: ${spec}`)
+
+  const charset = match[1] as Gs1CharacterSet
+  const minLength = match[2] ? parseInt(match[2], 10) : 1
+  const maxLength = match[3] ? parseInt(match[3], 10) : minLength
+  return { charset, minLength, maxLength, optional, checks }
+}
+
+function expandAiRange(range: string): string[] {
+  const [from, to] = range.split('-')
+  if (!to) return [from]
+  const result: string[] = []
+  for (let n = parseInt(from, 10); n <= parseInt(to, 10); n++) {
+    result.push(String(n).padStart(from.length, '0'))
+  }
+  return result
+}
+
+function buildDictionary(): Map<string, Gs1AiDefinition> {
+  const dictionary = new Map<string, Gs1AiDefinition>()
+
+  for (const rawLine of GS1_AI_TABLE.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const hashIndex = line.indexOf('#')
+    const title = hashIndex >= 0 ? line.slice(hashIndex + 1).trim() : ''
+    const [range, ...tokens] = line.slice(0, hashIndex >= 0 ? hashIndex : undefined).trim().split(/\s+/)
+
+    const components: Gs1Component[] = []
+    const requires: string[][] = []
+    let excludes: string[] = []
+    for (const token of tokens) {
+      if (token.startsWith('req=')) requires.push(token.slice(4).split(','))
+      else if (token.startsWith('ex=')) excludes = token.slice(3).split(',')
+      else components.push(parseComponent(token))
+    }
+
+    for (const ai of expandAiRange(range)) {
+      dictionary.set(ai, {
+        ai,
+        title,
+        components,
+        minLength: components.reduce((sum, c) => sum + (c.optional ? 0 : c.minLength), 0),
+        maxLength: components.reduce((sum, c) => sum + c.maxLength, 0),
+        predefinedLength: ai.slice(0, 2) in GS1_PREDEFINED_LENGTH_PREFIXES,
+        requires,
+        excludes,
+      })
+    }
+  }
+
+  return dictionary
+}
+
+let dictionaryCache: Map<string, Gs1AiDefinition> | null = null
+
+function dictionary(): Map<string, Gs1AiDefinition> {
+  if (!dictionaryCache) dictionaryCache = buildDictionary()
+  return dictionaryCache
+}
+
+/** Definícia AI zo slovníka */
+export function lookupGs1Ai(ai: string): Gs1AiDefinition | undefined {
+  return dictionary().get(ai)
+}
+
+/** Nájde AI (2–4 číslice) na začiatku reťazca */
+function matchAiPrefix(data: string, position: number): Gs1AiDefinition | undefined {
+  for (let length = 2; length <= 4; length++) {
+    const definition = dictionary().get(data.slice(position, position + length))
+    if (definition) return definition
+  }
+  return undefined
+}
+
+/* =====================
+ * KONTROLNÉ ČÍSLICE
+ * ===================== */
+
+/** GS1 mod-10 kontrolná číslica pre telo čísla (bez kontrolnej číslice) */
+export function gs1CheckDigit(body: string): number {
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    const digit = body.charCodeAt(body.length - 1 - i) - 48
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+function hasValidCheckDigit(digits: string): boolean {
+  return gs1CheckDigit(digits.slice(0, -1)) === digits.charCodeAt(digits.length - 1) - 48
+}
+
+/** Znaková sada 82 (AI so sadou X, napr. sériové číslo AI 21) */
+export const CSET82 = '!"%&\'()*+,-./0123456789:;<=>?ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz'
+const CSET32 = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+const PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89]
+
+/** Alfanumerický kontrolný pár (GMN, AI 8013) */
+export function gs1CheckCharacterPair(body: string): string {
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    sum += CSET82.indexOf(body[body.length - 1 - i]) * PRIMES[i]
+  }
+  sum %= 1021
+  return CSET32[sum >> 5] + CSET32[sum & 31]
+}
+
+/* =====================
+ * KONTROLY HODNÔT
+ * ===================== */
+
+const CHARSET_PATTERNS: Record<Gs1CharacterSet, RegExp> = {
+  N: /^[0-9]*$/,
+  X: /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/,
+  Y: /^[#\-/0-9A-Z]*$/,
+  Z: /^[A-Za-z0-9\-_=]*$/,
+}
+
+const CHARSET_NAMES: Record<Gs1CharacterSet, string> = {
+  N: 'digits only',
+  X: 'GS1 character set 82',
+  Y: 'GS1 character set 39',
+  Z: 'GS1 character set 64',
+}
+
+/**
+ * Rok z dvojmiestneho YY podľa GS1 (GenSpecs 7.12):
+ * hodnota je v rozsahu −49 až +50 rokov od aktuálneho roka
+ */
+export function gs1CenturyYear(yy: number, now: Date = new Date()): number {
+  const currentYear = now.getFullYear()
+  const difference = yy - (currentYear % 100)
+  const century = Math.floor(currentYear / 100) * 100
+  if (difference >= 51) return century - 100 + yy
+  if (difference <= -50) return century + 100 + yy
+  return century + yy
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate()
+}
+
+function checkDate(year: number, month: number, day: number, allowZeroDay: boolean): boolean {
+  if (month < 1 || month > 12) return false
+  if (day === 0) return allowZeroDay
+  return day <= daysInMonth(year, month)
+}
+
+function checkTime(hours: number, minutes: number): boolean {
+  return hours <= 23 && minutes <= 59
+}
+
+function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{1,30}$/.test(iban)) return false
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const value = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char
+    for (const digit of value) remainder = (remainder * 10 + (digit.charCodeAt(0) - 48)) % 97
+  }
+  return remainder === 1
+}
+
+/** Vráti chybu komponentu alebo null */
+function runCheck(check: string, value: string): { code: Gs1IssueCode; message: string } | null {
+  const num = (from: number, to: number) => parseInt(value.slice(from, to), 10)
+
+  switch (check) {
+    case 'csum':
+      return hasValidCheckDigit(value) ? null : { code: 'CHECK_DIGIT', message: 'invalid check digit' }
+    case 'csumalpha':
+      if (value.length < 3) return { code: 'TOO_SHORT', message: 'too short for a check character pair' }
+      return gs1CheckCharacterPair(value.slice(0, -2)) === value.slice(-2)
+        ? null
+        : { code: 'CHECK_DIGIT', message: 'invalid check character pair' }
+    case 'yymmdd':
+    case 'yymmd0':
+      return checkDate(gs1CenturyYear(num(0, 2)), num(2, 4), num(4, 6), check === 'yymmd0')
+        ? null
+        : { code: 'INVALID_DATE', message: `invalid date ${value} (YYMMDD)` }
+    case 'yyyymmdd':
+      return checkDate(num(0, 4), num(4, 6), num(6, 8), false)
+        ? null
+        : { code: 'INVALID_DATE', message: `invalid date ${value} (YYYYMMDD)` }
+    case 'yymmddhh':
+      if (!checkDate(gs1CenturyYear(num(0, 2)), num(2, 4), num(4, 6), false)) {
+        return { code: 'INVALID_DATE', message: `invalid date ${value.slice(0, 6)} (YYMMDD)` }
+      }
+      return num(6, 8) <= 23 ? null : { code: 'INVALID_TIME', message: `invalid hour ${value.slice(6, 8)}` }
+    case 'hhmi':
+      return checkTime(num(0, 2), num(2, 4)) ? null : { code: 'INVALID_TIME', message: `invalid time ${value} (HHMM)` }
+    case 'iso3166':
+      return ISO3166_NUMERIC.has(value) ? null : { code: 'INVALID_VALUE', message: `unknown ISO 3166 country code ${value}` }
+    case 'iso3166list': {
+      if (value.length % 3 !== 0) return { code: 'INVALID_VALUE', message: 'country list must consist of 3-digit codes' }
+      for (let i = 0; i < value.length; i += 3) {
+        const code = value.slice(i, i + 3)
+        if (!ISO3166_NUMERIC.has(code)) return { code: 'INVALID_VALUE', message: `unknown ISO 3166 country code ${code}` }
+      }
+      return null
+    }
+    case 'iso3166alpha2':
+      return ISO3166_ALPHA2.has(value) ? null : { code: 'INVALID_VALUE', message: `unknown ISO 3166 country code ${value}` }
+    case 'iso4217':
+      return ISO4217_NUMERIC.has(value) ? null : { code: 'INVALID_VALUE', message: `unknown ISO 4217 currency code ${value}` }
+    case 'iban':
+      return isValidIban(value) ? null : { code: 'CHECK_DIGIT', message: 'invalid IBAN' }
+    case 'latlong':
+      return num(0, 10) <= 1800000000 && num(10, 20) <= 3600000000
+        ? null
+        : { code: 'INVALID_VALUE', message: 'latitude/longitude out of range' }
+    case 'yesno':
+      return value === '0' || value === '1' ? null : { code: 'INVALID_VALUE', message: 'value must be 0 or 1' }
+    case 'minus':
+      return value === '-' ? null : { code: 'INVALID_VALUE', message: 'only "-" is allowed' }
+    default:
+      return null
+  }
+}
+
+/** Validácia hodnoty jedného AI podľa komponentov zo slovníka */
+function validateElementValue(definition: Gs1AiDefinition, value: string): Gs1Issue[] {
+  const issues: Gs1Issue[] = []
+  const fail = (code: Gs1IssueCode, message: string) =>
+    issues.push({ code, severity: 'error', ai: definition.ai, message: `AI (${definition.ai}) ${definition.title}: ${message}` })
+
+  if (value.length === 0) {
+    fail('TOO_SHORT', 'empty value')
+    return issues
+  }
+  if (value.length < definition.minLength) {
+    fail('TOO_SHORT', `value too short (min ${definition.minLength})`)
+    return issues
+  }
+  if (value.length > definition.maxLength) {
+    fail('TOO_LONG', `value too long (max ${definition.maxLength})`)
+    return issues
+  }
+
+  let position = 0
+  definition.components.forEach((component, index) => {
+    if (issues.length > 0) return
+    const remaining = value.length - position
+    if (remaining === 0) {
+      if (!component.optional) fail('TOO_SHORT', 'missing component')
+      return
+    }
+
+    // Komponenty s pevnou dĺžkou berú presne svoju dĺžku, posledný variabilný zvyšok
+    const rest = definition.components.slice(index + 1)
+    const reservedForRest = rest.reduce((sum, c) => sum + (c.optional ? 0 : c.minLength), 0)
+    const length = component.minLength === component.maxLength
+      ? component.maxLength
+      : Math.min(component.maxLength, remaining - reservedForRest)
+    const part = value.slice(position, position + length)
+    position += part.length
+
+    if (part.length < component.minLength) {
+      fail('TOO_SHORT', `value too short (min ${definition.minLength})`)
+      return
+    }
+    if (!CHARSET_PATTERNS[component.charset].test(part)) {
+      fail('INVALID_CHARACTER', `invalid character, ${CHARSET_NAMES[component.charset]} allowed`)
+      return
+    }
+    for (const check of component.checks) {
+      const error = runCheck(check, part)
+      if (error) {
+        fail(error.code, error.message)
+        return
+      }
+    }
+  })
+
+  if (issues.length === 0 && position < value.length) {
+    fail('TOO_LONG', `value too long (max ${definition.maxLength})`)
+  }
+  return issues
+}
+
+/* =====================
+ * PARSOVANIE
+ * ===================== */
+
+type ParsedElements = {
+  elements: { ai: string; value: string }[]
+  issues: Gs1Issue[]
+}
+
+const SYMBOLOGY_IDENTIFIERS = [']C1', ']e0', ']d2', ']Q3', ']J1']
+
+function parseBracketed(input: string): ParsedElements {
+  const elements: { ai: string; value: string }[] = []
+  const issues: Gs1Issue[] = []
+  let position = 0
+
+  while (position < input.length) {
+    const match = /^\((\d{2,4})\)/.exec(input.slice(position))
+    if (!match) {
+      issues.push({ code: 'SYNTAX', severity: 'error', message: `Expected "(AI)" at position ${position + 1}` })
+      break
+    }
+    position += match[0].length
+
+    // Hodnota pokračuje po ďalšiu nezakódovanú "(", "\(" je literál
+    let value = ''
+    while (position < input.length && input[position] !== '(') {
+      if (input[position] === '\\' && input[position + 1] === '(') position++
+      value += input[position]
+      position++
+    }
+    elements.push({ ai: match[1], value })
+  }
+
+  return { elements, issues }
+}
+
+function parseUnbracketed(input: string): ParsedElements {
+  const elements: { ai: string; value: string }[] = []
+  const issues: Gs1Issue[] = []
+  let position = 0
+
+  if (input.startsWith(GS1_GS)) position++
+
+  while (position < input.length) {
+    const definition = matchAiPrefix(input, position)
+    if (!definition) {
+      issues.push({
+        code: 'UNKNOWN_AI',
+        severity: 'error',
+        message: `Unknown AI at position ${position + 1}: ${input.slice(position, position + 4)}`,
+      })
+      break
+    }
+
+    const start = position + definition.ai.length
+    if (definition.predefinedLength) {
+      const end = Math.min(start + definition.maxLength, input.length)
+      const separator = input.indexOf(GS1_GS, start)
+      const value = input.slice(start, separator >= 0 && separator < end ? separator : end)
+      elements.push({ ai: definition.ai, value })
+      position = start + value.length
+      if (input[position] === GS1_GS) {
+        if (value.length === definition.maxLength && position + 1 < input.length) {
+          issues.push({
+            code: 'UNNECESSARY_FNC1',
+            severity: 'warning',
+            ai: definition.ai,
+            message: `AI (${definition.ai}) has a predefined length and must not be followed by FNC1`,
+          })
+        }
+        position++
+      }
+    } else {
+      const separator = input.indexOf(GS1_GS, start)
+      const end = separator >= 0 ? separator : input.length
+      const value = input.slice(start, end)
+      if (value.length > definition.maxLength && separator < 0) {
+        issues.push({
+          code: 'MISSING_FNC1',
+          severity: 'error',
+          ai: definition.ai,
+          message: `AI (${definition.ai}) exceeds ${definition.maxLength} characters, a FNC1 separator is probably missing`,
+        })
+      }
+      elements.push({ ai: definition.ai, value })
+      position = separator >= 0 ? end + 1 : end
+    }
+  }
+
+  return { elements, issues }
+}
+
+/**
+ * Rozparsuje GS1 vstup – bracketed HRI "(01)...(10)..." alebo element string
+ * s FNC1 (GS) separátormi, voliteľne so symbology identifikátorom ]C1/]d2/]Q3/]e0
+ */
+export function parseGs1Input(input: string): ParsedElements {
+  let data = input.trim()
+  for (const identifier of SYMBOLOGY_IDENTIFIERS) {
+    if (data.startsWith(identifier)) {
+      data = data.slice(identifier.length)
+      break
+    }
+  }
+  return data.startsWith('(') ? parseBracketed(data) : parseUnbracketed(data)
+}
+
+/* =====================
+ * PÁROVANIE AI
+ * ===================== */
+
+function checkAssociations(elements: Gs1Element[]): Gs1Issue[] {
+  const issues: Gs1Issue[] = []
+  const present = new Set(elements.map(e => e.ai))
+  const reportedPairs = new Set<string>()
+
+  for (const element of elements) {
+    const definition = lookupGs1Ai(element.ai)
+    if (!definition) continue
+
+    for (const group of definition.requires) {
+      if (!group.some(ai => present.has(ai))) {
+        issues.push({
+          code: 'MISSING_REQUIRED_AI',
+          severity: 'error',
+          ai: element.ai,
+          message: `AI (${element.ai}) requires ${group.map(ai => `(${ai})`).join(' or ')}`,
+        })
+      }
+    }
+
+    for (const excluded of definition.excludes) {
+      const pair = [element.ai, excluded].sort().join('+')
+      if (present.has(excluded) && !reportedPairs.has(pair)) {
+        reportedPairs.add(pair)
+        issues.push({
+          code: 'EXCLUSIVE_AIS',
+          severity: 'error',
+          ai: element.ai,
+          message: `AI (${element.ai}) and (${excluded}) must not appear together`,
+        })
+      }
+    }
+  }
+
+  // Duplicitné AI a tá istá miera s rôznym desatinným miestom (310n, 330n...)
+  const seen = new Map<string, string>()
+  const measures = new Map<string, string>()
+  for (const element of elements) {
+    const previous = seen.get(element.ai)
+    if (previous !== undefined) {
+      issues.push(previous === element.value
+        ? { code: 'DUPLICATE_AI', severity: 'warning', ai: element.ai, message: `AI (${element.ai}) is repeated` }
+        : { code: 'DUPLICATE_AI', severity: 'error', ai: element.ai, message: `AI (${element.ai}) appears with different values` })
+      continue
+    }
+    seen.set(element.ai, element.value)
+
+    if (/^3[1-6]\d\d$/.test(element.ai)) {
+      const measure = element.ai.slice(0, 3)
+      const other = measures.get(measure)
+      if (other) {
+        issues.push({
+          code: 'DUPLICATE_AI',
+          severity: 'error',
+          ai: element.ai,
+          message: `AI (${element.ai}) and (${other}) encode the same measure`,
+        })
+      } else {
+        measures.set(measure, element.ai)
+      }
+    }
+  }
+
+  return issues
+}
+
+/* =====================
+ * VÝSTUP
+ * ===================== */
+
+/** Bracketed HRI zápis elementov */
+export function formatGs1Hri(elements: { ai: string; value: string }[]): string {
+  return elements.map(e => `(${e.ai})${e.value}`).join('')
+}
+
+/**
+ * Element string pre kódovanie: AI s preddefinovanou dĺžkou idú dopredu,
+ * FNC1 (GS) sa vkladá len za AI s variabilnou dĺžkou, ktoré nie sú posledné
+ */
+export function buildGs1ElementString(elements: { ai: string; value: string }[], separator: string = GS1_GS): string {
+  const isPredefined = (ai: string) => ai.slice(0, 2) in GS1_PREDEFINED_LENGTH_PREFIXES
+  const ordered = [
+    ...elements.filter(e => isPredefined(e.ai)),
+    ...elements.filter(e => !isPredefined(e.ai)),
+  ]
+  return ordered
+    .map((e, i) => e.ai + e.value + (!isPredefined(e.ai) && i < ordered.length - 1 ? separator : ''))
+    .join('')
+}
+
+/* =====================
+ * VALIDÁCIA
+ * ===================== */
+
+/** Kompletná GS1 validácia vstupu (HRI alebo element string) */
+export function validateGs1(input: string): Gs1ValidationReport {
+  if (!input.trim()) {
+    return {
+      valid: false,
+      elements: [],
+      issues: [{ code: 'EMPTY', severity: 'error', message: 'No GS1 data' }],
+      hri: '',
+      elementString: '',
+    }
+  }
+
+  const parsed = parseGs1Input(input)
+  return validateGs1Elements(parsed.elements, parsed.issues)
+}
+
+/** Validácia už rozparsovaných AI elementov (napr. z GS1 Digital Link URI) */
+export function validateGs1Elements(
+  parsedElements: { ai: string; value: string }[],
+  parseIssues: Gs1Issue[] = [],
+): Gs1ValidationReport {
+  const issues: Gs1Issue[] = [...parseIssues]
+  const elements: Gs1Element[] = parsedElements.map(({ ai, value }) => {
+    const definition = lookupGs1Ai(ai)
+    if (!definition) {
+      issues.push({ code: 'UNKNOWN_AI', severity: 'error', ai, message: `Unknown AI (${ai})` })
+      return { ai, title: '', value, predefinedLength: false, valid: false }
+    }
+    const valueIssues = validateElementValue(definition, value)
+    issues.push(...valueIssues)
+    return {
+      ai,
+      title: definition.title,
+      value,
+      predefinedLength: definition.predefinedLength,
+      valid: valueIssues.length === 0,
+    }
+  })
+
+  if (elements.length === 0 && !issues.some(i => i.severity === 'error')) {
+    issues.push({ code: 'EMPTY', severity: 'error', message: 'No GS1 element found' })
+  }
+  issues.push(...checkAssociations(elements))
+
+  return {
+    valid: !issues.some(i => i.severity === 'error'),
+    elements,
+    issues,
+    hri: formatGs1Hri(elements),
+    elementString: buildGs1ElementString(elements),
+  }
+}
+
+const GTIN_LENGTHS: Partial<Record<CodeType, number>> = {
+  EAN13: 13,
+  EAN8: 8,
+  UPCA: 12,
+  ITF14: 14,
+}
+
+/**
+ * Validácia GTIN (EAN/UPC/ITF-14). Bez kontrolnej číslice sa doplní,
+ * s kontrolnou číslicou sa overí. Výsledok je (01) element s GTIN-14.
+ */
+export function validateGtin(value: string, length: number): Gs1ValidationReport {
+  const digits = value.trim()
+  const issues: Gs1Issue[] = []
+  let gtin = digits
+
+  if (!/^\d+$/.test(digits)) {
+    issues.push({ code: 'INVALID_CHARACTER', severity: 'error', ai: '01', message: 'GTIN must contain only digits' })
+  } else if (digits.length === length - 1) {
+    gtin = digits + String(gs1CheckDigit(digits))
+  } else if (digits.length !== length) {
+    issues.push({
+      code: digits.length < length ? 'TOO_SHORT' : 'TOO_LONG',
+      severity: 'error',
+      ai: '01',
+      message: `GTIN must have ${length - 1} or ${length} digits`,
+    })
+  } else if (!hasValidCheckDigit(digits)) {
+    issues.push({
+      code: 'CHECK_DIGIT',
+      severity: 'error',
+      ai: '01',
+      message: `Invalid check digit, expected ${gs1CheckDigit(digits.slice(0, -1))}`,
+    })
+  }
+
+  const valid = issues.length === 0
+  const elements: Gs1Element[] = valid
+    ? [{ ai: '01', title: 'GTIN', value: gtin.padStart(14, '0'), predefinedLength: true, valid }]
+    : []
+  return {
+    valid,
+    elements,
+    issues,
+    hri: formatGs1Hri(elements),
+    elementString: buildGs1ElementString(elements),
+  }
+}
+
+/** Typy kódov, ktoré nesú GS1 dáta */
+export function isGs1CodeType(codeType: CodeType): boolean {
+  return codeType in GTIN_LENGTHS || codeType === 'GS1128' || codeType === 'GS1DM' || codeType === 'GS1DATABAR'
+}
+
+/**
+ * GS1 validácia podľa typu kódu – EAN/UPC/ITF-14 ako GTIN, GS1 typy
+ * ako element string. GS1 DataBar sa validuje podľa zvoleného variantu.
+ */
+export function validateGs1ForCodeType(
+  codeType: CodeType,
+  value: string,
+  dataBarVariant: DataBarVariant = 'OMNIDIRECTIONAL',
+): Gs1ValidationReport {
+  const gtinLength = GTIN_LENGTHS[codeType]
+  if (gtinLength) return validateGtin(value, gtinLength)
+  if (codeType === 'GS1DATABAR') return validateGs1DataBar(value, dataBarVariant)
+  return validateGs1(value)
+}
+
+/* =====================
+ * GS1 DATABAR
+ * ===================== */
+
+const DATABAR_VARIANT_NAMES: Record<DataBarVariant, string> = {
+  OMNIDIRECTIONAL: 'GS1 DataBar Omnidirectional',
+  STACKED: 'GS1 DataBar Stacked Omnidirectional',
+  LIMITED: 'GS1 DataBar Limited',
+  EXPANDED: 'GS1 DataBar Expanded',
+  EXPANDED_STACKED: 'GS1 DataBar Expanded Stacked',
+}
+
+/** Expanded varianty nesú ľubovoľný element string, ostatné len (01) */
+export function isDataBarExpandedVariant(variant: DataBarVariant): boolean {
+  return variant === 'EXPANDED' || variant === 'EXPANDED_STACKED'
+}
+
+/**
+ * Validácia dát pre GS1 DataBar. Omnidirectional, Stacked a Limited kódujú
+ * len GTIN (01), samotný GTIN-14 sa akceptuje aj bez zátvoriek. Limited
+ * povoľuje len indikátor 0 alebo 1.
+ */
+export function validateGs1DataBar(value: string, variant: DataBarVariant): Gs1ValidationReport {
+  const expanded = isDataBarExpandedVariant(variant)
+  const report = !expanded && /^\d{13,14}$/.test(value.trim()) ? validateGtin(value, 14) : validateGs1(value)
+  if (expanded) return report
+
+  const name = DATABAR_VARIANT_NAMES[variant]
+  const issues = [...report.issues]
+  for (const element of report.elements.filter(e => e.ai !== '01')) {
+    issues.push({
+      code: 'AI_NOT_SUPPORTED',
+      severity: 'error',
+      ai: element.ai,
+      message: `${name} encodes only AI (01), use DataBar Expanded for (${element.ai})`,
+    })
+  }
+
+  const gtin = report.elements.find(e => e.ai === '01')
+  if (!gtin && report.elements.length > 0) {
+    issues.push({ code: 'MISSING_REQUIRED_AI', severity: 'error', ai: '01', message: `${name} requires AI (01)` })
+  }
+  if (variant === 'LIMITED' && gtin && gtin.value[0] > '1') {
+    issues.push({
+      code: 'INVALID_VALUE',
+      severity: 'error',
+      ai: '01',
+      message: `${name} requires GTIN indicator digit 0 or 1`,
+    })
+  }
+
+  return { ...report, valid: !issues.some(i => i.severity === 'error'), issues }
+}
+
+/**
+ * Desatinná hodnota ako GS1 element s pozíciou desatinnej čiarky v poslednej
+ * číslici AI, napr. ('310', '1,235', 6) → (3103)001235. Pevná dĺžka sa
+ * dopĺňa nulami zľava, pri null je dĺžka premenlivá. Null pri neplatnej hodnote.
+ */
+export function formatGs1Decimal(aiPrefix: string, value: string, fixedLength: number | null): string | null {
+  const match = /^(\d*)(?:[.,](\d*))?$/.exec(value.trim())
+  if (!match || (!match[1] && !match[2])) return null
+
+  const decimals = match[2] ?? ''
+  if (decimals.length > 9) return null
+  const digits = (match[1] + decimals).replace(/^0+(?=\d)/, '')
+  if (fixedLength !== null && digits.length > fixedLength) return null
+
+  const ai = aiPrefix + decimals.length
+  const definition = lookupGs1Ai(ai)
+  if (!definition) return null
+  const padded = fixedLength !== null ? digits.padStart(fixedLength, '0') : digits
+  return `(${ai})${padded}`
+}
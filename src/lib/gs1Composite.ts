@@ -0,0 +1,134 @@
+// src/lib/gs1Composite.ts
+// GS1 Composite (ISO/IEC 24723) – rozdelenie AI dát medzi lineárnu zložku
+// (EAN/UPC, GS1-128, GS1 DataBar) a 2D zložku CC-A / CC-B / CC-C
+import type { CodeType, CompositeComponent, DataBarVariant } from '../types/barcodeTypes'
+import {
+  formatGs1Hri,
+  validateGs1,
+  validateGs1DataBar,
+  type Gs1Element,
+  type Gs1Issue,
+  type Gs1ValidationReport,
+} from './gs1'
+
+export type Gs1CompositeSplit = {
+  /** Vstup lineárnej zložky pre bwip-js (EAN/UPC ako GTIN bez AI) */
+  linearText: string
+  linear: Gs1Element[]
+  component: Gs1Element[]
+  /** Bracketed HRI 2D zložky */
+  componentHri: string
+  /** Validácia celých dát vrátane pravidiel kompozitu */
+  report: Gs1ValidationReport
+}
+
+/* =====================
+ * TYPY KÓDOV
+ * ===================== */
+
+const LINEAR_NAMES: Partial<Record<CodeType, string>> = {
+  EAN13: 'EAN-13',
+  EAN8: 'EAN-8',
+  UPCA: 'UPC-A',
+  GS1128: 'GS1-128',
+  GS1DATABAR: 'GS1 DataBar',
+}
+
+/** Počet vedúcich núl GTIN-14, ktoré EAN/UPC lineárna zložka nekóduje */
+const GTIN_LEADING_ZEROS: Partial<Record<CodeType, number>> = {
+  EAN13: 1,
+  UPCA: 2,
+  EAN8: 6,
+}
+
+export const COMPOSITE_COMPONENT_LABELS: Record<CompositeComponent, string> = {
+  AUTO: 'Automaticky',
+  CC_A: 'CC-A',
+  CC_B: 'CC-B',
+  CC_C: 'CC-C',
+}
+
+/** Typy kódov, ku ktorým sa dá pridať 2D zložka */
+export function isCompositeCodeType(codeType: CodeType): boolean {
+  return codeType in LINEAR_NAMES
+}
+
+/** Dostupné 2D zložky – CC-C (PDF417) len nad GS1-128 */
+export function compositeComponentsFor(codeType: CodeType): CompositeComponent[] {
+  return codeType === 'GS1128' ? ['AUTO', 'CC_A', 'CC_B', 'CC_C'] : ['AUTO', 'CC_A', 'CC_B']
+}
+
+/** Lineárna zložka nesie GTIN (01), GS1-128 aj SSCC (00) */
+function isLinearAi(codeType: CodeType, ai: string): boolean {
+  return ai === '01' || (codeType === 'GS1128' && ai === '00')
+}
+
+/* =====================
+ * ROZDELENIE DÁT
+ * ===================== */
+
+/**
+ * Rozdelí GS1 dáta medzi zložky kompozitu a overí pravidlá kompozitu:
+ * lineárna zložka musí niesť (01), 2D zložka aspoň jeden ďalší AI
+ * a GTIN sa musí zmestiť do EAN/UPC.
+ */
+export function splitGs1Composite(
+  codeType: CodeType,
+  value: string,
+  dataBarVariant: DataBarVariant = 'OMNIDIRECTIONAL',
+  component: CompositeComponent = 'AUTO',
+): Gs1CompositeSplit {
+  const report = validateGs1(value)
+  const issues: Gs1Issue[] = [...report.issues]
+  const name = LINEAR_NAMES[codeType] ?? codeType
+
+  const linear = report.elements.filter(e => isLinearAi(codeType, e.ai))
+  const ccElements = report.elements.filter(e => !isLinearAi(codeType, e.ai))
+  const gtin = linear.find(e => e.ai === '01')?.value ?? ''
+  const leadingZeros = GTIN_LEADING_ZEROS[codeType]
+
+  if (report.elements.length > 0 && linear.length === 0) {
+    issues.push({
+      code: 'MISSING_REQUIRED_AI',
+      severity: 'error',
+      ai: '01',
+      message: `${name} composite requires AI (01)${codeType === 'GS1128' ? ' or (00)' : ''} for the linear component`,
+    })
+  }
+  if (gtin && leadingZeros && !gtin.startsWith('0'.repeat(leadingZeros))) {
+    issues.push({
+      code: 'INVALID_VALUE',
+      severity: 'error',
+      ai: '01',
+      message: `${name} composite encodes a GTIN-${14 - leadingZeros}, the GTIN-14 must start with ${'0'.repeat(leadingZeros)}`,
+    })
+  }
+  if (gtin && codeType === 'GS1DATABAR') {
+    // Obmedzenia variantu (napr. indikátor Limited) platia pre lineárnu zložku
+    issues.push(...validateGs1DataBar(`(01)${gtin}`, dataBarVariant).issues.filter(i => i.code === 'INVALID_VALUE'))
+  }
+  if (linear.length > 0 && ccElements.length === 0) {
+    issues.push({
+      code: 'EMPTY',
+      severity: 'error',
+      message: 'The 2D component has no data, add AIs after the linear component key',
+    })
+  }
+  if (component === 'CC_C' && codeType !== 'GS1128') {
+    issues.push({ code: 'INVALID_VALUE', severity: 'error', message: 'CC-C is available only with GS1-128' })
+  }
+
+  const linearText = leadingZeros
+    ? gtin.slice(leadingZeros)
+    : codeType === 'GS1DATABAR'
+      ? `(01)${gtin}`
+      : formatGs1Hri(linear)
+
+  return {
+    linearText,
+    linear,
+    component: ccElements,
+    componentHri: formatGs1Hri(ccElements),
+    report: { ...report, valid: !issues.some(i => i.severity === 'error'), issues },
+  }
+}
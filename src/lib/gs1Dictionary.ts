@@ -0,0 +1,264 @@
+// src/lib/gs1Dictionary.ts
+// GS1 Application Identifier slovník (GS1 General Specifications, kap. 3)
+//
+// Formát riadku (podľa GS1 Barcode Syntax Dictionary):
+//   AI[-AI]  komponent [komponent...]  [req=AI,AI...] [ex=AI,AI...]  # NÁZOV
+// Komponent: N/X/Y/Z + dĺžka (N18, X..20, N3..15), za čiarkou kontroly
+// (csum, yymmdd, iso3166...). Voliteľný komponent je v [hranatých zátvorkách].
+// req= vyžaduje aspoň jeden z uvedených AI (viac req= musí platiť všetky),
+// ex= nesmie byť v jednom symbole s uvedenými AI.
+
+export const GS1_AI_TABLE = `
+00          N18,csum                                        # SSCC
+01          N14,csum                       ex=02,255,37     # GTIN
+02          N14,csum                       req=37 ex=01     # CONTENT
+03          N14,csum                                        # MTO GTIN
+10          X..20      req=01,02,03,8006,8026               # BATCH/LOT
+11          N6,yymmd0  req=01,02,03,8006,8026               # PROD DATE
+12          N6,yymmd0  req=8020 req=415                     # DUE DATE
+13          N6,yymmd0  req=01,02,03,8006,8026               # PACK DATE
+15          N6,yymmd0  req=01,02,03,8006,8026               # BEST BEFORE or BEST BY
+16          N6,yymmd0  req=01,02,03,8006,8026               # SELL BY
+17          N6,yymmd0  req=01,02,03,8006,8026,255           # USE BY OR EXPIRY
+20          N2         req=01,02,03,8006,8026               # VARIANT
+21          X..20      req=01,03,8006   ex=235              # SERIAL
+22          X..20      req=01                               # CPV
+235         X..28      req=01                               # TPX
+240         X..30      req=01,02,03,8006,8026               # ADDITIONAL ID
+241         X..30      req=01,02,03,8006,8026               # CUST. PART No.
+242         N..6       req=01,02,03,8006,8026               # MTO VARIANT
+243         X..20      req=01                               # PCN
+250         X..30      req=01,8006 req=21                   # SECONDARY SERIAL
+251         X..30      req=01,8006                          # REF. TO SOURCE
+253         N13,csum [X..17]                                # GDTI
+254         X..20      req=414                              # GLN EXTENSION COMPONENT
+255         N13,csum [N..12]                                # GCN
+30          N..8       req=01,02                            # VAR. COUNT
+3100-3105   N6         req=01,02                            # NET WEIGHT (kg)
+3110-3115   N6         req=01,02                            # LENGTH (m)
+3120-3125   N6         req=01,02                            # WIDTH (m)
+3130-3135   N6         req=01,02                            # HEIGHT (m)
+3140-3145   N6         req=01,02                            # AREA (m2)
+3150-3155   N6         req=01,02                            # NET VOLUME (l)
+3160-3165   N6         req=01,02                            # NET VOLUME (m3)
+3200-3205   N6         req=01,02                            # NET WEIGHT (lb)
+3210-3215   N6         req=01,02                            # LENGTH (in)
+3220-3225   N6         req=01,02                            # LENGTH (ft)
+3230-3235   N6         req=01,02                            # LENGTH (yd)
+3240-3245   N6         req=01,02                            # WIDTH (in)
+3250-3255   N6         req=01,02                            # WIDTH (ft)
+3260-3265   N6         req=01,02                            # WIDTH (yd)
+3270-3275   N6         req=01,02                            # HEIGHT (in)
+3280-3285   N6         req=01,02                            # HEIGHT (ft)
+3290-3295   N6         req=01,02                            # HEIGHT (yd)
+3300-3305   N6         req=00,01,02                         # GROSS WEIGHT (kg)
+3310-3315   N6         req=00,01,02                         # LENGTH (m), log
+3320-3325   N6         req=00,01,02                         # WIDTH (m), log
+3330-3335   N6         req=00,01,02                         # HEIGHT (m), log
+3340-3345   N6         req=00,01,02                         # AREA (m2), log
+3350-3355   N6         req=00,01,02                         # VOLUME (l), log
+3360-3365   N6         req=00,01,02                         # VOLUME (m3), log
+3370-3375   N6         req=01                               # KG PER m2
+3400-3405   N6         req=00,01,02                         # GROSS WEIGHT (lb)
+3410-3415   N6         req=00,01,02                         # LENGTH (in), log
+3420-3425   N6         req=00,01,02                         # LENGTH (ft), log
+3430-3435   N6         req=00,01,02                         # LENGTH (yd), log
+3440-3445   N6         req=00,01,02                         # WIDTH (in), log
+3450-3455   N6         req=00,01,02                         # WIDTH (ft), log
+3460-3465   N6         req=00,01,02                         # WIDTH (yd), log
+3470-3475   N6         req=00,01,02                         # HEIGHT (in), log
+3480-3485   N6         req=00,01,02                         # HEIGHT (ft), log
+3490-3495   N6         req=00,01,02                         # HEIGHT (yd), log
+3500-3505   N6         req=01,02                            # AREA (in2)
+3510-3515   N6         req=01,02                            # AREA (ft2)
+3520-3525   N6         req=01,02                            # AREA (yd2)
+3530-3535   N6         req=00,01,02                         # AREA (in2), log
+3540-3545   N6         req=00,01,02                         # AREA (ft2), log
+3550-3555   N6         req=00,01,02                         # AREA (yd2), log
+3560-3565   N6         req=01,02                            # NET WEIGHT (t oz)
+3570-3575   N6         req=01,02                            # NET VOLUME (oz)
+3600-3605   N6         req=01,02                            # NET VOLUME (qt)
+3610-3615   N6         req=01,02                            # NET VOLUME (gal.)
+3620-3625   N6         req=00,01,02                         # VOLUME (qt), log
+3630-3635   N6         req=00,01,02                         # VOLUME (gal.), log
+3640-3645   N6         req=01,02                            # VOLUME (in3)
+3650-3655   N6         req=01,02                            # VOLUME (ft3)
+3660-3665   N6         req=01,02                            # VOLUME (yd3)
+3670-3675   N6         req=00,01,02                         # VOLUME (in3), log
+3680-3685   N6         req=00,01,02                         # VOLUME (ft3), log
+3690-3695   N6         req=00,01,02                         # VOLUME (yd3), log
+37          N..8       req=02,8026                          # COUNT
+3900-3909   N..15      req=255,8020                         # AMOUNT
+3910-3919   N3,iso4217 N..15  req=8020                      # AMOUNT (ISO)
+3920-3929   N..15      req=01                               # PRICE
+3930-3939   N3,iso4217 N..15  req=01                        # PRICE (ISO)
+3940-3943   N4         req=255                              # PRCNT OFF
+3950-3955   N6         req=01                               # PRICE/UoM
+400         X..30                                           # ORDER NUMBER
+401         X..30                                           # GINC
+402         N17,csum                                        # GSIN
+403         X..30      req=00                               # ROUTE
+410         N13,csum                                        # SHIP TO LOC
+411         N13,csum                                        # BILL TO
+412         N13,csum                                        # PURCHASE FROM
+413         N13,csum                                        # SHIP FOR LOC
+414         N13,csum                                        # LOC No.
+415         N13,csum   req=8020                             # PAY TO
+416         N13,csum                                        # PROD/SERV LOC
+417         N13,csum                                        # PARTY
+420         X..20      ex=421                               # SHIP TO POST
+421         N3,iso3166 X..9                                 # SHIP TO POST
+422         N3,iso3166 req=01,02,8006                       # ORIGIN
+423         N3..15,iso3166list  req=01,02,8006              # COUNTRY - INITIAL PROCESS.
+424         N3,iso3166 req=01,02,8006                       # COUNTRY - PROCESS.
+425         N3..15,iso3166list  req=01,02,8006              # COUNTRY - DISASSEMBLY
+426         N3,iso3166 req=01,02                            # COUNTRY - FULL PROCESS
+427         X..3       req=422                              # ORIGIN SUBDIVISION
+4300        X..35                                           # SHIP TO COMP
+4301        X..35                                           # SHIP TO NAME
+4302        X..70                                           # SHIP TO ADD1
+4303        X..70                                           # SHIP TO ADD2
+4304        X..70                                           # SHIP TO SUB
+4305        X..70                                           # SHIP TO LOC
+4306        X..70                                           # SHIP TO REG
+4307        X2,iso3166alpha2                                # SHIP TO COUNTRY
+4308        X..30                                           # SHIP TO PHONE
+4309        N20,latlong                                     # SHIP TO GEO
+4310        X..35                                           # RTN TO COMP
+4311        X..35                                           # RTN TO NAME
+4312        X..70                                           # RTN TO ADD1
+4313        X..70                                           # RTN TO ADD2
+4314        X..70                                           # RTN TO SUB
+4315        X..70                                           # RTN TO LOC
+4316        X..70                                           # RTN TO REG
+4317        X2,iso3166alpha2                                # RTN TO COUNTRY
+4318        X..20                                           # RTN TO POST
+4319        X..30                                           # RTN TO PHONE
+4320        X..35                                           # SRV DESCRIPTION
+4321        N1,yesno                                        # DANGEROUS GOODS
+4322        N1,yesno                                        # AUTH LEAVE
+4323        N1,yesno                                        # SIG REQUIRED
+4324        N6,yymmd0 N4,hhmi                               # NBEF DEL DT
+4325        N6,yymmd0 N4,hhmi                               # NAFT DEL DT
+4326        N6,yymmdd                                       # REL DATE
+4330        N6 [X1,minus]                                   # MAX TEMP F
+4331        N6 [X1,minus]                                   # MAX TEMP C
+4332        N6 [X1,minus]                                   # MIN TEMP F
+4333        N6 [X1,minus]                                   # MIN TEMP C
+7001        N13                                             # NSN
+7002        X..30                                           # MEAT CUT
+7003        N6,yymmdd N4,hhmi                               # EXPIRY TIME
+7004        N..4       req=01,02,8006                       # ACTIVE POTENCY
+7005        X..12                                           # CATCH AREA
+7006        N6,yymmdd                                       # FIRST FREEZE DATE
+7007        N6,yymmdd [N6,yymmdd]                           # HARVEST DATE
+7008        X..3                                            # AQUATIC SPECIES
+7009        X..10                                           # FISHING GEAR TYPE
+7010        X..2                                            # PROD METHOD
+7011        N6,yymmdd [N4,hhmi]                             # TEST BY DATE
+7020        X..20                                           # REFURB LOT
+7021        X..20                                           # FUNC STAT
+7022        X..20      req=7021                             # REV STAT
+7023        X..30                                           # GIAI - ASSEMBLY
+7030-7039   N3,iso3166 X..27                                # PROCESSOR # s
+7040        N1 X3                                           # UIC+EXT
+7041        X..4                                            # UFRGT UNIT TYPE
+710         X..20      req=01                               # NHRN PZN
+711         X..20      req=01                               # NHRN CIP
+712         X..20      req=01                               # NHRN CN
+713         X..20      req=01                               # NHRN DRN
+714         X..20      req=01                               # NHRN AIM
+715         X..20      req=01                               # NHRN NDC
+716         X..20      req=01                               # NHRN AIC
+7230-7239   X2 X..28                                        # CERT # s
+7240        X..20                                           # PROTOCOL
+7241        N2                                              # AIDC MEDIA TYPE
+7242        X..25                                           # VCN
+7250        N8,yyyymmdd                                     # DOB
+7251        N8,yyyymmdd N4,hhmi                             # DOB TIME
+7252        N1                                              # BIO SEX
+7253        X..40                                           # FAMILY NAME
+7254        X..40                                           # GIVEN NAME
+7255        X..10                                           # SUFFIX
+7256        X..90                                           # FULL NAME
+7257        X..70                                           # PERSON ADDR
+7258        N1 X1 N1                                        # BIRTH SEQUENCE
+7259        X..40                                           # BABY
+8001        N14                                             # DIMENSIONS
+8002        X..20                                           # CMT No.
+8003        N14,csum [X..16]                                # GRAI
+8004        X..30                                           # GIAI
+8005        N6                                              # PRICE PER UNIT
+8006        N14,csum N2 N2             ex=01,02,37          # ITIP
+8007        X..34,iban                                      # IBAN
+8008        N8,yymmddhh [N..4]                              # PROD TIME
+8009        X..50                                           # OPTSEN
+8010        Y..30                                           # CPID
+8011        N..12      req=8010                             # CPID SERIAL
+8012        X..20                                           # VERSION
+8013        X..25,csumalpha                                 # GMN
+8014        X..25,csumalpha                                 # MUDI
+8017        N18,csum                                        # GSRN - PROVIDER
+8018        N18,csum                                        # GSRN - RECIPIENT
+8019        N..10      req=8017,8018                        # SRIN
+8020        X..25      req=415                              # REF No.
+8026        N14,csum N2 N2             ex=01,02,37          # ITIP CONTENT
+8030        Z..90                                           # DIGSIG
+8110        X..70                                           # -
+8111        N4         req=255                              # POINTS
+8112        X..70                                           # -
+8200        X..70      req=01                               # PRODUCT URL
+90          X..30                                           # INTERNAL
+91-99       X..90                                           # INTERNAL
+`
+
+/**
+ * AI prefixy s preddefinovanou dĺžkou (GS1 General Specifications, fig. 5.10.1-2).
+ * Za týmito AI sa FNC1 separátor nevkladá.
+ */
+export const GS1_PREDEFINED_LENGTH_PREFIXES: Record<string, number> = {
+  '00': 20, '01': 16, '02': 16, '03': 16, '04': 18,
+  '11': 8, '12': 8, '13': 8, '14': 8, '15': 8, '16': 8, '17': 8, '18': 8, '19': 8,
+  '20': 4, '23': 4,
+  '31': 10, '32': 10, '33': 10, '34': 10, '35': 10, '36': 10,
+  '41': 16,
+}
+
+/** ISO 3166-1 numerické kódy krajín */
+export const ISO3166_NUMERIC = new Set(`
+004 008 010 012 016 020 024 028 031 032 036 040 044 048 050 051 052 056 060 064 068 070 072 074
+076 084 086 090 092 096 100 104 108 112 116 120 124 132 136 140 144 148 152 156 158 162 166 170
+174 175 178 180 184 188 191 192 196 203 204 208 212 214 218 222 226 231 232 233 234 238 239 242
+246 248 250 254 258 260 262 266 268 270 275 276 288 292 296 300 304 308 312 316 320 324 328 332
+334 336 340 344 348 352 356 360 364 368 372 376 380 384 388 392 398 400 404 408 410 414 417 418
+422 426 428 430 434 438 440 442 446 450 454 458 462 466 470 474 478 480 484 492 496 498 499 500
+504 508 512 516 520 524 528 531 533 534 535 540 548 554 558 562 566 570 574 578 580 581 583 584
+585 586 591 598 600 604 608 612 616 620 624 626 630 634 638 642 643 646 652 654 659 660 662 663
+666 670 674 678 682 686 688 690 694 702 703 704 705 706 710 716 724 728 729 732 740 744 748 752
+756 760 762 764 768 772 776 780 784 788 792 795 796 798 800 804 807 818 826 831 832 833 834 840
+850 854 858 860 862 876 882 887 894
+`.trim().split(/\s+/))
+
+/** ISO 3166-1 alpha-2 kódy krajín */
+export const ISO3166_ALPHA2 = new Set(`
+AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS
+BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE
+EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM
+HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC
+LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA
+NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW
+SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO
+TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW
+`.trim().split(/\s+/))
+
+/** ISO 4217 numerické kódy mien */
+export const ISO4217_NUMERIC = new Set(`
+008 012 032 036 044 048 050 051 052 060 064 068 072 084 090 096 104 108 116 124 132 136 144 152
+156 170 174 188 191 192 203 208 214 222 230 232 238 242 262 270 292 320 324 328 332 340 344 348
+352 356 360 364 368 376 388 392 398 400 404 408 410 414 417 418 422 426 430 434 446 454 458 462
+480 484 496 498 504 512 516 524 532 533 548 554 558 566 578 586 590 598 600 604 608 634 643 646
+654 682 690 694 702 704 706 710 728 748 752 756 760 764 776 780 784 788 800 807 818 826 834 840
+858 860 882 886 901 924 925 926 927 928 929 930 932 933 934 936 938 940 941 943 944 946 947 948
+949 950 951 952 953 955 956 957 958 959 960 961 962 963 964 965 967 968 969 970 971 972 973 975
+976 977 978 979 980 981 984 985 986 990 994 997 999
+`.trim().split(/\s+/))
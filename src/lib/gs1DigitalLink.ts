@@ -0,0 +1,423 @@
+// src/lib/gs1DigitalLink.ts
+// GS1 Digital Link URI – prevod medzi element stringom a URI
+// (primárny kľúč a kvalifikátory v ceste, atribúty v query, kompresia)
+import {
+  lookupGs1Ai,
+  validateGs1,
+  validateGs1Elements,
+  type Gs1Component,
+  type Gs1Issue,
+  type Gs1ValidationReport,
+} from './gs1'
+
+export const GS1_DIGITAL_LINK_DEFAULT_DOMAIN = 'https://id.gs1.org'
+
+/**
+ * NONE – /01/{gtin}/10/{lot}?17=...
+ * PARTIAL – kľúč a kvalifikátory v ceste, atribúty komprimované
+ * FULL – celý obsah komprimovaný do jedného segmentu
+ */
+export type Gs1DigitalLinkCompression = 'NONE' | 'PARTIAL' | 'FULL'
+
+export type Gs1DigitalLinkOptions = {
+  domain: string
+  compression: Gs1DigitalLinkCompression
+}
+
+export type Gs1DigitalLinkResult = {
+  uri: string
+  valid: boolean
+  issues: Gs1Issue[]
+  report: Gs1ValidationReport
+}
+
+export type Gs1DigitalLinkParseResult = Gs1ValidationReport & {
+  domain: string
+  /** Vlastné segmenty cesty pred primárnym kľúčom */
+  pathPrefix: string
+  /** Query parametre, ktoré nie sú AI */
+  otherParams: Record<string, string>
+  compressed: boolean
+}
+
+/* =====================
+ * KĽÚČE A KVALIFIKÁTORY
+ * ===================== */
+
+/** Primárne kľúče v poradí priority a ich kvalifikátory v povolenom poradí */
+const PRIMARY_KEYS: [string, string[]][] = [
+  ['01', ['22', '10', '21']],
+  ['8006', ['22', '10', '21']],
+  ['8013', ['7240']],
+  ['8010', ['8011']],
+  ['414', ['254', '7040']],
+  ['415', ['8020']],
+  ['417', ['7040']],
+  ['8017', ['8019']],
+  ['8018', ['8019']],
+  ['00', []],
+  ['253', []],
+  ['255', []],
+  ['401', []],
+  ['402', []],
+  ['8003', []],
+  ['8004', []],
+]
+
+const QUALIFIERS = new Map(PRIMARY_KEYS)
+
+/** Staršie "convenience alphas" z GS1 Digital Link 1.0 */
+const CONVENIENCE_ALPHAS: Record<string, string> = {
+  gtin: '01', itip: '8006', gmn: '8013', cpid: '8010', gln: '414', payto: '415', party: '417',
+  gsrnp: '8017', gsrn: '8018', sscc: '00', gdti: '253', gcn: '255', ginc: '401', gsin: '402',
+  grai: '8003', giai: '8004', cpv: '22', lot: '10', ser: '21', cpsn: '8011', glnx: '254',
+  refno: '8020', srin: '8019',
+}
+
+const normalizeKey = (segment: string) => CONVENIENCE_ALPHAS[segment] ?? segment
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+function uriIssue(message: string, ai?: string): Gs1Issue {
+  return { code: 'URI_SYNTAX', severity: 'error', ai, message }
+}
+
+/** GTIN-8/12/13 v ceste sa kanonicky dopĺňa na GTIN-14 */
+function canonicalValue(ai: string, value: string): string {
+  return (ai === '01' || ai === '02') && /^\d{8}$|^\d{12,13}$/.test(value) ? value.padStart(14, '0') : value
+}
+
+/** Percent-encoding hodnoty podľa RFC 3986 (vrátane !'()*) */
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function normalizeDomain(domain: string): string {
+  const trimmed = domain.trim().replace(/\/+$/, '')
+  if (!trimmed) return GS1_DIGITAL_LINK_DEFAULT_DOMAIN
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+}
+
+/* =====================
+ * KOMPRESIA
+ * Binárny zápis: AI ako 4-bitové číslice, numerické komponenty binárne,
+ * alfanumerické s 3-bitovým indikátorom kódovania; výsledok base64url
+ * ===================== */
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+
+const numericBits = (digits: number) => Math.ceil(digits * Math.log2(10))
+const lengthBits = (maxLength: number) => Math.ceil(Math.log2(maxLength + 1))
+const toBits = (value: number | bigint, width: number) => value.toString(2).padStart(width, '0')
+
+const ENCODING_NUMERIC = 0
+const ENCODING_HEX_LOWER = 1
+const ENCODING_HEX_UPPER = 2
+const ENCODING_BASE64URL = 3
+const ENCODING_ASCII = 4
+
+/**
+ * Komponenty pre kompresiu – pevné komponenty sa kódujú jednotlivo,
+ * AI s voliteľnými časťami ako jeden alfanumerický reťazec
+ */
+function compressionComponents(ai: string): Gs1Component[] {
+  const definition = lookupGs1Ai(ai)
+  if (!definition) throw new Error(`Unknown AI (${ai})`)
+  const { components } = definition
+  const splittable = components.every(
+    (c, i) => !c.optional && (i === components.length - 1 || c.minLength === c.maxLength),
+  )
+  return splittable
+    ? components
+    : [{ charset: 'X', minLength: 0, maxLength: definition.maxLength, optional: false, checks: [] }]
+}
+
+function encodeNumeric(value: string): string {
+  return value ? toBits(BigInt(value), numericBits(value.length)) : ''
+}
+
+function encodeComponent(component: Gs1Component, value: string): string {
+  if (component.charset === 'N') {
+    if (component.minLength === component.maxLength) return encodeNumeric(value)
+    return toBits(value.length, lengthBits(component.maxLength)) + encodeNumeric(value)
+  }
+
+  const length = toBits(value.length, lengthBits(component.maxLength))
+  if (/^\d*$/.test(value)) return toBits(ENCODING_NUMERIC, 3) + length + encodeNumeric(value)
+  if (/^[0-9a-f]+$/.test(value)) {
+    return toBits(ENCODING_HEX_LOWER, 3) + length + [...value].map(c => toBits(parseInt(c, 16), 4)).join('')
+  }
+  if (/^[0-9A-F]+$/.test(value)) {
+    return toBits(ENCODING_HEX_UPPER, 3) + length + [...value].map(c => toBits(parseInt(c, 16), 4)).join('')
+  }
+  if (/^[A-Za-z0-9_-]+$/.test(value)) {
+    return toBits(ENCODING_BASE64URL, 3) + length + [...value].map(c => toBits(BASE64URL.indexOf(c), 6)).join('')
+  }
+  return toBits(ENCODING_ASCII, 3) + length + [...value].map(c => toBits(c.charCodeAt(0) & 0x7f, 7)).join('')
+}
+
+/** Komprimuje AI elementy do base64url reťazca */
+export function compressGs1Elements(elements: { ai: string; value: string }[]): string {
+  let bits = ''
+  for (const { ai, value } of elements) {
+    bits += [...ai].map(d => toBits(Number(d), 4)).join('')
+
+    let position = 0
+    compressionComponents(ai).forEach((component, index, all) => {
+      const length = index === all.length - 1 ? value.length - position : component.maxLength
+      bits += encodeComponent(component, value.slice(position, position + length))
+      position += length
+    })
+  }
+
+  bits = bits.padEnd(Math.ceil(bits.length / 6) * 6, '0')
+  let result = ''
+  for (let i = 0; i < bits.length; i += 6) result += BASE64URL[parseInt(bits.slice(i, i + 6), 2)]
+  return result
+}
+
+/** Dekomprimuje base64url reťazec na AI elementy */
+export function decompressGs1Elements(compressed: string): { ai: string; value: string }[] {
+  let bits = ''
+  for (const char of compressed) {
+    const index = BASE64URL.indexOf(char)
+    if (index < 0) throw new Error(`Invalid character in compressed data: ${char}`)
+    bits += toBits(index, 6)
+  }
+
+  let position = 0
+  const read = (width: number) => {
+    if (position + width > bits.length) throw new Error('Compressed data is truncated')
+    const chunk = bits.slice(position, position + width)
+    position += width
+    return chunk
+  }
+  const readNumber = (width: number) => (width === 0 ? 0 : parseInt(read(width), 2))
+  const readNumeric = (digits: number) => (digits === 0 ? '' : BigInt(`0b${read(numericBits(digits))}`).toString().padStart(digits, '0'))
+
+  const elements: { ai: string; value: string }[] = []
+  // Zvyšok kratší ako 8 bitov je výplň
+  while (bits.length - position >= 8) {
+    let ai = ''
+    while (!lookupGs1Ai(ai) || ai.length < 2) {
+      if (ai.length >= 4) throw new Error(`Unknown AI in compressed data: ${ai}`)
+      const digit = readNumber(4)
+      if (digit > 9) throw new Error('Invalid AI in compressed data')
+      ai += String(digit)
+    }
+
+    let value = ''
+    for (const component of compressionComponents(ai)) {
+      if (component.charset === 'N') {
+        const length = component.minLength === component.maxLength
+          ? component.maxLength
+          : readNumber(lengthBits(component.maxLength))
+        value += readNumeric(length)
+        continue
+      }
+
+      const encoding = readNumber(3)
+      const length = readNumber(lengthBits(component.maxLength))
+      switch (encoding) {
+        case ENCODING_NUMERIC:
+          value += readNumeric(length)
+          break
+        case ENCODING_HEX_LOWER:
+        case ENCODING_HEX_UPPER:
+          for (let i = 0; i < length; i++) {
+            const hex = readNumber(4).toString(16)
+            value += encoding === ENCODING_HEX_UPPER ? hex.toUpperCase() : hex
+          }
+          break
+        case ENCODING_BASE64URL:
+          for (let i = 0; i < length; i++) value += BASE64URL[readNumber(6)]
+          break
+        case ENCODING_ASCII:
+          for (let i = 0; i < length; i++) value += String.fromCharCode(readNumber(7))
+          break
+        default:
+          throw new Error(`Unknown encoding ${encoding} in compressed data`)
+      }
+    }
+    elements.push({ ai, value })
+  }
+
+  return elements
+}
+
+/* =====================
+ * ZOSTAVENIE URI
+ * ===================== */
+
+/**
+ * Zostaví GS1 Digital Link URI z AI elementov. Primárny kľúč a jeho
+ * kvalifikátory idú do cesty, ostatné AI ako atribúty do query.
+ */
+export function buildGs1DigitalLink(
+  elements: { ai: string; value: string }[],
+  options: Gs1DigitalLinkOptions,
+): { uri: string; issues: Gs1Issue[] } {
+  const primary = PRIMARY_KEYS.find(([key]) => elements.some(e => e.ai === key))
+  if (!primary) {
+    return {
+      uri: '',
+      issues: [uriIssue(`Digital Link requires a primary key: ${PRIMARY_KEYS.map(([key]) => `(${key})`).join(', ')}`)],
+    }
+  }
+
+  const [key, qualifiers] = primary
+  const keyElement = elements.find(e => e.ai === key)!
+  const pathElements = [
+    { ai: key, value: canonicalValue(key, keyElement.value) },
+    ...qualifiers.flatMap(q => elements.filter(e => e.ai === q).slice(0, 1)),
+  ]
+  const attributes = elements.filter(e => !pathElements.some(p => p.ai === e.ai))
+  const domain = normalizeDomain(options.domain)
+
+  if (options.compression === 'FULL') {
+    return { uri: `${domain}/${compressGs1Elements([...pathElements, ...attributes])}`, issues: [] }
+  }
+
+  const path = pathElements.map(e => `/${e.ai}/${encodeValue(e.value)}`).join('')
+  if (attributes.length === 0) return { uri: domain + path, issues: [] }
+
+  if (options.compression === 'PARTIAL') {
+    return { uri: `${domain}${path}/${compressGs1Elements(attributes)}`, issues: [] }
+  }
+
+  const query = attributes.map(e => `${e.ai}=${encodeValue(e.value)}`).join('&')
+  return { uri: `${domain}${path}?${query}`, issues: [] }
+}
+
+/** Prevedie GS1 element string / HRI na Digital Link URI (s validáciou) */
+export function gs1ToDigitalLink(input: string, options: Gs1DigitalLinkOptions): Gs1DigitalLinkResult {
+  const report = validateGs1(input)
+  if (!report.valid) return { uri: '', valid: false, issues: report.issues, report }
+
+  const built = buildGs1DigitalLink(report.elements, options)
+  const issues = [...report.issues, ...built.issues]
+  return { uri: built.uri, valid: !issues.some(i => i.severity === 'error'), issues, report }
+}
+
+/* =====================
+ * PARSOVANIE URI
+ * ===================== */
+
+/**
+ * Rozparsuje GS1 Digital Link URI (nekomprimované, čiastočne aj úplne
+ * komprimované) a validuje rozdelenie cesta/query aj AI pravidlá
+ */
+export function parseGs1DigitalLink(uri: string): Gs1DigitalLinkParseResult {
+  const empty = (issue: Gs1Issue): Gs1DigitalLinkParseResult => ({
+    ...validateGs1Elements([], [issue]),
+    domain: '',
+    pathPrefix: '',
+    otherParams: {},
+    compressed: false,
+  })
+
+  let url: URL
+  try {
+    url = new URL(uri.trim())
+  } catch {
+    return empty(uriIssue('Invalid URI'))
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return empty(uriIssue('Digital Link URI must use http or https'))
+  }
+
+  const issues: Gs1Issue[] = []
+  const elements: { ai: string; value: string }[] = []
+  const segments = url.pathname.split('/').filter(Boolean)
+  let compressed = false
+  let prefixEnd = segments.length
+
+  const decompressInto = (segment: string) => {
+    try {
+      elements.push(...decompressGs1Elements(segment))
+      compressed = true
+    } catch (err) {
+      issues.push(uriIssue(err instanceof Error ? err.message : String(err)))
+    }
+  }
+
+  const keyIndex = segments.findIndex(
+    (segment, i) => QUALIFIERS.has(normalizeKey(segment)) && i + 1 < segments.length,
+  )
+
+  if (keyIndex >= 0) {
+    prefixEnd = keyIndex
+    const key = normalizeKey(segments[keyIndex])
+    const qualifiers = QUALIFIERS.get(key) ?? []
+    elements.push({ ai: key, value: canonicalValue(key, decodeSegment(segments[keyIndex + 1])) })
+
+    let lastQualifier = -1
+    let i = keyIndex + 2
+    for (; i + 1 < segments.length; i += 2) {
+      const ai = normalizeKey(segments[i])
+      const order = qualifiers.indexOf(ai)
+      if (order <= lastQualifier) {
+        issues.push(uriIssue(`AI (${ai}) is not a key qualifier of (${key}) or is out of order in the URI path`, ai))
+      }
+      lastQualifier = Math.max(lastQualifier, order)
+      elements.push({ ai, value: decodeSegment(segments[i + 1]) })
+    }
+    // Nepárny posledný segment = komprimované atribúty
+    if (i < segments.length) decompressInto(segments[i])
+  } else if (segments.length > 0 && /^[A-Za-z0-9_-]+$/.test(segments[segments.length - 1])) {
+    prefixEnd = segments.length - 1
+    decompressInto(segments[segments.length - 1])
+  }
+
+  if (elements.length > 0 && !QUALIFIERS.has(elements[0].ai)) {
+    issues.push(uriIssue(`URI path must start with a primary key, found (${elements[0].ai})`, elements[0].ai))
+  }
+
+  const pathKey = elements.length > 0 ? elements[0].ai : null
+  const otherParams: Record<string, string> = {}
+  url.searchParams.forEach((value, name) => {
+    if (!/^\d{2,4}$/.test(name) || !lookupGs1Ai(name)) {
+      if (name) otherParams[name] = value
+      return
+    }
+    if (QUALIFIERS.has(name)) {
+      issues.push(uriIssue(`AI (${name}) is a primary key and must not be in the query string`, name))
+    } else if (pathKey && QUALIFIERS.get(pathKey)?.includes(name)) {
+      issues.push(uriIssue(`AI (${name}) is a key qualifier and belongs in the URI path`, name))
+    }
+    elements.push({ ai: name, value })
+  })
+
+  if (elements.length === 0) {
+    issues.push(uriIssue('No GS1 primary key found in the URI'))
+  }
+
+  return {
+    ...validateGs1Elements(elements, issues),
+    domain: url.origin,
+    pathPrefix: segments.slice(0, prefixEnd).map(s => `/${s}`).join(''),
+    otherParams,
+    compressed,
+  }
+}
+
+/**
+ * Validácia hodnoty ako GS1 Digital Link – null, ak hodnota nie je
+ * URI s GS1 primárnym kľúčom (bežná URL adresa)
+ */
+export function validateGs1DigitalLink(value: string): Gs1DigitalLinkParseResult | null {
+  if (!/^https?:\/\//i.test(value.trim())) return null
+  const parsed = parseGs1DigitalLink(value)
+  return parsed.elements.length > 0 && QUALIFIERS.has(parsed.elements[0].ai) ? parsed : null
+}
+
+/** Je hodnota GS1 Digital Link URI s primárnym kľúčom? */
+export function isGs1DigitalLink(value: string): boolean {
+  return validateGs1DigitalLink(value) !== null
+}
@@ -0,0 +1,177 @@
+// src/lib/jobDiff.ts
+// Porovnanie dvoch revízií jobu po poliach – čo sa zmenilo medzi verziou,
+// ktorú zákazník schválil, a verziou pre dotlač
+import type { CodeJob } from '../types/jobTypes'
+
+export type CodeJobChange = {
+  /** Cesta k poľu, napr. `vdpRandom.length` */
+  path: string
+  label: string
+  before: unknown
+  after: unknown
+}
+
+/** Identita a metadáta uloženia – menia sa pri každej revízii, nie sú zmenou jobu */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'revision'])
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Názov',
+  codeType: 'Typ kódu',
+  dataMode: 'Režim dát',
+  rawCodeValue: 'Dáta kódu',
+  dataBarVariant: 'Variant DataBar',
+  dataBarSegments: 'Segmenty DataBar',
+  compositeEnabled: 'GS1 Composite',
+  compositeComponent: 'Zložka Composite',
+  addOn: 'Doplnok EAN/UPC',
+  gs1Label: 'GS1 formulár',
+  gs1FormOutput: 'Výstup GS1 formulára',
+  digitalLinkDomain: 'Doména Digital Link',
+  digitalLinkCompression: 'Kompresia Digital Link',
+  vdpEnabled: 'VDP',
+  vdpMode: 'VDP režim',
+  vdpPattern: 'VDP vzor',
+  vdpPrefix: 'VDP prefix',
+  vdpAlphaStartChar: 'VDP počiatočný znak',
+  serialStart: 'Počiatočné sériové číslo',
+  serialCurrent: 'Aktuálne sériové číslo',
+  serialPadding: 'Počet číslic série',
+  vdpCount: 'Počet VDP kusov',
+  vdpRandom: 'VDP náhodné čísla',
+  vdpImportPatternTemplate: 'Vzor importovaných dát',
+  labelPreset: 'Predvoľba etikety',
+  labelWidthMm: 'Šírka etikety (mm)',
+  labelHeightMm: 'Výška etikety (mm)',
+  bleedMm: 'Spadávka (mm)',
+  safeMarginMm: 'Bezpečný okraj (mm)',
+  labelBorderRadiusMm: 'Zaoblenie rohov (mm)',
+  referenceBox: 'Referenčný box',
+  rotation: 'Rotácia',
+  printDirection: 'Smer tlače',
+  anchorX: 'Ukotvenie X',
+  anchorY: 'Ukotvenie Y',
+  offsetXmm: 'Posun X (mm)',
+  offsetYmm: 'Posun Y (mm)',
+  activeProfileId: 'Tlačový profil',
+  xDimMm: 'X-dim (mm)',
+  quietZoneMm: 'Tichá zóna (mm)',
+  magnificationPercent: 'Zväčšenie (%)',
+  barWidthReductionMm: 'BWR (mm)',
+  barHeightPx: 'Výška čiar (px)',
+  showHrText: 'HR text',
+  hrFontSizePt: 'Veľkosť HR textu (pt)',
+  barColor: 'Farba čiar',
+  bgColor: 'Farba pozadia',
+  textColor: 'Farba textu',
+  qrLogoDataUrl: 'QR logo',
+  qrLogoScale: 'Veľkosť QR loga',
+  hrCustomText: 'Vlastný HR text',
+  showDimensionGuides: 'Kóty',
+  canvasGridSizeMm: 'Mriežka (mm)',
+  vdpDataFile: 'VDP dáta',
+  dieLineFile: 'Výsekový nástroj',
+  vdpImageFiles: 'Obrázky záznamov',
+  exportDpi: 'DPI exportu',
+  stepRepeat: 'Step & repeat',
+  exportSettings: 'Nastavenia exportu',
+  distortion: 'Distorzia',
+  machinePreset: 'Stroj',
+  layers: 'Vrstvy a objekty',
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
+function isFile(value: unknown): value is { name: string; mimeType: string; data: Blob; hash?: string } {
+  return isPlainObject(value) && typeof Blob !== 'undefined' && value.data instanceof Blob
+}
+
+function isFileList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isFile)
+}
+
+/** Súbory sa porovnávajú podľa mena, typu a hashu obsahu spočítaného pri pripojení */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isFileList(a) || isFileList(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((file, i) => sameValue(file, b[i]))
+  }
+  if (isFile(a) || isFile(b)) {
+    return (
+      isFile(a) &&
+      isFile(b) &&
+      a.name === b.name &&
+      a.mimeType === b.mimeType &&
+      a.data.size === b.data.size &&
+      Boolean(a.hash) &&
+      a.hash === b.hash
+    )
+  }
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Pole položiek s id (vrstvy, objekty) – porovnáva sa po položkách */
+function identifiedItems(value: unknown): Map<string, Record<string, unknown>> | null {
+  if (!Array.isArray(value) || !value.every(item => isPlainObject(item) && typeof item.id === 'string')) return null
+  return new Map(value.map(item => [item.id as string, item as Record<string, unknown>]))
+}
+
+function labelFor(path: string): string {
+  const [root, ...rest] = path.split('.')
+  const label = FIELD_LABELS[root] ?? root
+  return rest.length ? `${label} › ${rest.join('.')}` : label
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, changes: CodeJobChange[]) {
+  // Vnorené konfigurácie sa porovnávajú po poliach, polia a súbory celé
+  if (isPlainObject(before) && isPlainObject(after) && !isFile(before) && !isFile(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    for (const key of keys) {
+      if (!path && IGNORED_FIELDS.has(key)) continue
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes)
+    }
+    return
+  }
+  // Rovnaké položky v rovnakom poradí – zmena sa hlási na konkrétnej položke
+  const beforeItems = identifiedItems(before)
+  const afterItems = identifiedItems(after)
+  if (
+    beforeItems &&
+    afterItems &&
+    beforeItems.size === afterItems.size &&
+    [...beforeItems.keys()].join('\n') === [...afterItems.keys()].join('\n')
+  ) {
+    for (const [id, item] of beforeItems) collectChanges(item, afterItems.get(id), `${path}.${id}`, changes)
+    return
+  }
+  // Chýbajúce pole staršieho jobu a null sú to isté
+  if ((before ?? null) === null && (after ?? null) === null) return
+  if (!sameValue(before, after)) changes.push({ path, label: labelFor(path), before, after })
+}
+
+/** Zmenené polia medzi dvoma verziami jobu */
+export function diffCodeJobs(before: CodeJob, after: CodeJob): CodeJobChange[] {
+  const changes: CodeJobChange[] = []
+  collectChanges(before, after, '', changes)
+  return changes
+}
+
+/** Hodnota do prehľadu zmien; dlhé hodnoty (dáta, logo) sa nevypisujú celé */
+export function formatCodeJobValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (isFile(value)) return `${value.name} (${Math.ceil(value.data.size / 1024)} kB)`
+  if (isFileList(value)) return `${value.length} súborov`
+  if (typeof value === 'boolean') return value ? 'áno' : 'nie'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  if (text.startsWith('data:')) return 'obrázok'
+  return text.length > 40 ? `${text.slice(0, 37)}…` : text
+}
+
+/** Napr. „Šírka etikety (mm): 50 → 40“ */
+export function formatCodeJobChange(change: CodeJobChange): string {
+  return `${change.label}: ${formatCodeJobValue(change.before)} → ${formatCodeJobValue(change.after)}`
+}
+
+export function summarizeCodeJobChanges(changes: CodeJobChange[]): string {
+  return changes.length ? changes.map(formatCodeJobChange).join(', ') : 'Bez zmien'
+}
@@ -0,0 +1,624 @@
+// src/lib/jobPackage.ts
+// Prenosný balík jobu (.gpcsjob) – ZIP s manifestom, ktorý nesie job,
+// nastavenia etikety, step & repeat, exportu, job ticket, výsekový
+// nástroj a všetky binárne prílohy. Pri importe sa balík overí voči
+// schéme; chýbajúce a neznáme polia (balík z novšej verzie) sa hlásia.
+import type { CodeJob, CodeJobFile } from '../types/jobTypes'
+import type { ExportSettings, JobTicket, LabelConfig, StepRepeatConfig } from '../types/barcodeTypes'
+import type { DieLineInfo } from '../prepress/dieline/DieLineTypes'
+import { blobToDataUrl, createEmptyJob, createJobFile, dataUrlToBlob } from './jobStorage'
+import { crc32, createZip, readZip, type ZipEntry } from './zipArchive'
+
+export const JOB_PACKAGE_EXTENSION = '.gpcsjob'
+export const JOB_PACKAGE_MIME_TYPE = 'application/vnd.gpcs.job+zip'
+const JOB_PACKAGE_FORMAT = 'gpcs-job-package'
+
+/** Verzia formátu balíka – zvýši sa pri každej zmene štruktúry */
+export const JOB_PACKAGE_VERSION = 2
+
+const MANIFEST_PATH = 'manifest.json'
+
+/** Obsah balíka – job vrátane príloh a voliteľné nastavenia výroby */
+export type JobPackage = {
+  job: CodeJob
+  labelConfig?: LabelConfig
+  stepRepeat?: StepRepeatConfig
+  exportSettings?: ExportSettings
+  jobTicket?: JobTicket
+  dieLine?: DieLineInfo
+  /** Ďalšie zdrojové súbory VDP okrem `job.vdpDataFile` */
+  vdpSourceFiles?: CodeJobFile[]
+}
+
+type JobPackageSection = 'job' | 'labelConfig' | 'stepRepeat' | 'exportSettings' | 'jobTicket' | 'dieLine'
+
+export type JobPackageAssetRole = 'QR_LOGO' | 'VDP_DATA' | 'DIE_LINE' | 'VDP_SOURCE' | 'VDP_IMAGE'
+
+type JobPackageAsset = {
+  path: string
+  role: JobPackageAssetRole
+  name: string
+  mimeType: string
+  size: number
+  crc32: number
+}
+
+export type JobPackageManifest = {
+  format: typeof JOB_PACKAGE_FORMAT
+  version: number
+  createdAt: string
+  application: string
+  jobId: string
+  jobName: string
+  /** Cesty JSON súborov sekcií */
+  sections: Partial<Record<JobPackageSection, string>>
+  assets: JobPackageAsset[]
+}
+
+export type JobPackageIssue = {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+const SECTION_PATHS: Record<JobPackageSection, string> = {
+  job: 'job.json',
+  labelConfig: 'label-config.json',
+  stepRepeat: 'step-repeat.json',
+  exportSettings: 'export-settings.json',
+  jobTicket: 'job-ticket.json',
+  dieLine: 'die-line.json',
+}
+
+const SECTION_LABELS: Record<JobPackageSection, string> = {
+  job: 'Job',
+  labelConfig: 'Label config',
+  stepRepeat: 'Step & repeat',
+  exportSettings: 'Export settings',
+  jobTicket: 'Job ticket',
+  dieLine: 'Die line',
+}
+
+/* =====================
+ * SCHÉMA
+ * ===================== */
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'date'
+
+/** Pole s `?` môže chýbať alebo byť null */
+type SectionSchema = Record<string, FieldKind | `${FieldKind}?`>
+
+const CODE_JOB_SCHEMA: SectionSchema = {
+  id: 'string',
+  name: 'string',
+  createdAt: 'string',
+  updatedAt: 'string',
+  revision: 'number?',
+  codeType: 'string',
+  dataMode: 'string',
+  rawCodeValue: 'string',
+  dataBarVariant: 'string',
+  dataBarSegments: 'number',
+  compositeEnabled: 'boolean',
+  compositeComponent: 'string',
+  addOn: 'string',
+  gs1Label: 'object',
+  gs1FormOutput: 'string',
+  digitalLinkDomain: 'string',
+  digitalLinkCompression: 'string',
+  vdpEnabled: 'boolean',
+  vdpMode: 'string',
+  vdpPattern: 'string',
+  vdpPrefix: 'string',
+  vdpAlphaStartChar: 'string',
+  serialStart: 'number',
+  serialCurrent: 'number',
+  serialPadding: 'number',
+  vdpCount: 'number',
+  vdpRandom: 'object?',
+  vdpImportPatternTemplate: 'string',
+  labelPreset: 'string',
+  labelWidthMm: 'number',
+  labelHeightMm: 'number',
+  bleedMm: 'number',
+  safeMarginMm: 'number',
+  labelBorderRadiusMm: 'number',
+  referenceBox: 'string',
+  rotation: 'number',
+  printDirection: 'string',
+  anchorX: 'string',
+  anchorY: 'string',
+  offsetXmm: 'number',
+  offsetYmm: 'number',
+  activeProfileId: 'string?',
+  xDimMm: 'number',
+  quietZoneMm: 'number',
+  magnificationPercent: 'number',
+  barWidthReductionMm: 'number',
+  barHeightPx: 'number',
+  showHrText: 'boolean',
+  hrFontSizePt: 'number',
+  barColor: 'string',
+  bgColor: 'string',
+  textColor: 'string',
+  qrLogoScale: 'number',
+  hrCustomText: 'string',
+  showDimensionGuides: 'boolean',
+  canvasGridSizeMm: 'number',
+  layers: 'array',
+  exportDpi: 'number',
+  stepRepeat: 'object',
+  exportSettings: 'object',
+  distortion: 'object',
+  machinePreset: 'object?',
+}
+
+const LABEL_CONFIG_SCHEMA: SectionSchema = {
+  widthMm: 'number',
+  heightMm: 'number',
+  bleedMm: 'number',
+  safeMarginMm: 'number',
+  cornerRadiusMm: 'number',
+  orientation: 'string',
+  printDirection: 'string',
+  referenceBox: 'string',
+  showBleedZone: 'boolean',
+  showTrimZone: 'boolean',
+  showSafeZone: 'boolean',
+  showGrid: 'boolean',
+  gridSizeMm: 'number',
+}
+
+const EXPORT_SETTINGS_SCHEMA: SectionSchema = {
+  format: 'string',
+  pdfVersion: 'string',
+  embedFonts: 'boolean',
+  outlineFonts: 'boolean',
+  dpi: 'number',
+  colorMode: 'string',
+  spotColors: 'array',
+  barcodeColorName: 'string',
+  barcodeAsSpot: 'boolean',
+  whiteUnderprint: 'boolean',
+  whiteUnderprintSpread: 'number',
+  includeBleed: 'boolean',
+  includeCropMarks: 'boolean',
+  includeRegistrationMarks: 'boolean',
+  includeColorBars: 'boolean',
+  markOffset: 'number',
+}
+
+const STEP_REPEAT_COMMON_SCHEMA: SectionSchema = {
+  mode: 'string',
+  rows: 'number',
+  horizontalGapMm: 'number',
+  verticalGapMm: 'number',
+  includeRegistrationMarks: 'boolean',
+  includeColorBar: 'boolean',
+}
+
+const WEB_STEP_REPEAT_SCHEMA: SectionSchema = {
+  ...STEP_REPEAT_COMMON_SCHEMA,
+  webWidthMm: 'number',
+  repeatLengthMm: 'number',
+  lanes: 'number',
+  staggerMode: 'string',
+  customStaggerMm: 'number?',
+  leftMarginMm: 'number',
+  rightMarginMm: 'number',
+  leadingEdgeMm: 'number',
+  trailingEdgeMm: 'number',
+  includeEyeMark: 'boolean',
+  eyeMarkPositionMm: 'number',
+  eyeMarkWidthMm: 'number',
+  eyeMarkHeightMm: 'number',
+  includeMicrotext: 'boolean',
+  microtextContent: 'string',
+}
+
+const SHEET_STEP_REPEAT_SCHEMA: SectionSchema = {
+  ...STEP_REPEAT_COMMON_SCHEMA,
+  sheetWidthMm: 'number',
+  sheetHeightMm: 'number',
+  columns: 'number',
+  topMarginMm: 'number',
+  bottomMarginMm: 'number',
+  leftMarginMm: 'number',
+  rightMarginMm: 'number',
+  includeCropMarks: 'boolean',
+  cropMarkLength: 'number',
+  cropMarkOffset: 'number',
+  colorBarPosition: 'string',
+}
+
+const JOB_TICKET_SCHEMA: SectionSchema = {
+  jobId: 'string',
+  jobName: 'string',
+  orderNumber: 'string?',
+  customerName: 'string',
+  createdAt: 'date',
+  createdBy: 'string',
+  labelConfig: 'object',
+  presetUsed: 'string',
+  codeType: 'string',
+  codeValue: 'string',
+  magnificationPercent: 'number',
+  xDimMm: 'number',
+  barWidthReductionMm: 'number',
+  substrate: 'string',
+  adhesive: 'string?',
+  liner: 'string?',
+  machinePreset: 'object?',
+  printingProfile: 'string',
+  colors: 'array',
+  hasWhiteUnderprint: 'boolean',
+  totalQuantity: 'number',
+  labelsPerRepeat: 'number',
+  totalRepeats: 'number',
+  totalMeters: 'number',
+  waste: 'number',
+  vdpEnabled: 'boolean',
+  vdpSource: 'string?',
+  vdpRange: 'string?',
+  vdpVersionCount: 'number?',
+  productionNotes: 'array',
+  qualityNotes: 'array',
+}
+
+const DIE_LINE_SCHEMA: SectionSchema = {
+  id: 'string',
+  format: 'string',
+  version: 'string?',
+  name: 'string',
+  created: 'date',
+  modified: 'date',
+  unit: 'string',
+  width: 'number',
+  height: 'number',
+  paths: 'array',
+  layers: 'array',
+  material: 'object?',
+  standard: 'object?',
+  isFolded: 'boolean?',
+  foldSteps: 'number?',
+  warnings: 'array',
+  errors: 'array',
+}
+
+function kindOf(value: unknown): FieldKind | 'null' | 'other' {
+  if (value === null || value === undefined) return 'null'
+  if (value instanceof Date) return 'date'
+  if (Array.isArray(value)) return 'array'
+  const type = typeof value
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'other'
+}
+
+/**
+ * Overí objekt voči schéme. Chýbajúce povinné pole je chyba (job ho
+ * doplní z predvolených hodnôt), neznáme pole sa zahodí s upozornením.
+ */
+function checkSection(
+  section: JobPackageSection,
+  value: unknown,
+  schema: SectionSchema,
+  issues: JobPackageIssue[],
+  defaults?: Record<string, unknown>,
+): Record<string, unknown> | null {
+  const label = SECTION_LABELS[section]
+  if (kindOf(value) !== 'object') {
+    issues.push({ severity: 'error', message: `${label} is not a JSON object` })
+    return null
+  }
+  const source = value as Record<string, unknown>
+  const result: Record<string, unknown> = {}
+  let valid = true
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?')
+    const expected = spec.replace('?', '') as FieldKind
+    const actual = kindOf(source[field])
+    if (actual === 'null') {
+      if (optional) {
+        if (field in source) result[field] = source[field]
+      } else if (defaults && field in defaults) {
+        issues.push({ severity: 'warning', message: `${label}: field "${field}" is missing – default value used` })
+        result[field] = defaults[field]
+      } else {
+        issues.push({ severity: 'error', message: `${label}: required field "${field}" is missing` })
+        valid = false
+      }
+    } else if (actual !== expected) {
+      issues.push({ severity: 'error', message: `${label}: field "${field}" should be ${expected}, found ${actual}` })
+      valid = false
+    } else {
+      result[field] = source[field]
+    }
+  }
+
+  const unknown = Object.keys(source).filter(field => !(field in schema))
+  if (unknown.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `${label}: ${unknown.map(field => `"${field}"`).join(', ')} not supported by this version – ignored`,
+    })
+  }
+  return valid ? result : null
+}
+
+/* =====================
+ * JSON S DÁTUMAMI
+ * ===================== */
+
+// Date sa v JSON zapíše ako { "$date": ISO } – job ticket a výsekový
+// nástroj ich majú a po importe musia byť opäť Date
+function stringifySection(value: unknown): Uint8Array {
+  const json = JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, serialized: unknown) {
+      return this[key] instanceof Date ? { $date: serialized } : serialized
+    },
+    2,
+  )
+  return new TextEncoder().encode(json)
+}
+
+function parseSection(data: Uint8Array): unknown {
+  return JSON.parse(new TextDecoder().decode(data), (_key, value: unknown) => {
+    if (kindOf(value) === 'object') {
+      const date = (value as { $date?: unknown }).$date
+      if (typeof date === 'string' && Object.keys(value as object).length === 1) return new Date(date)
+    }
+    return value
+  })
+}
+
+/* =====================
+ * EXPORT
+ * ===================== */
+
+/** Meno súboru bezpečné v ZIP ceste */
+function safeFileName(name: string, fallback: string): string {
+  const clean = name.replace(/[\\/:*?"<>|]+/g, '_').trim()
+  return clean || fallback
+}
+
+const LOGO_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+export async function createJobPackage(content: JobPackage): Promise<Blob> {
+  const { job } = content
+  const entries: ZipEntry[] = []
+  const assets: JobPackageAsset[] = []
+  const sections: Partial<Record<JobPackageSection, string>> = {}
+
+  const addAsset = async (role: JobPackageAssetRole, path: string, file: Omit<CodeJobFile, 'hash'>) => {
+    const data = new Uint8Array(await file.data.arrayBuffer())
+    entries.push({ name: path, data })
+    assets.push({ path, role, name: file.name, mimeType: file.mimeType, size: data.length, crc32: crc32(data) })
+  }
+
+  // Binárne dáta idú do samostatných súborov, job.json ich neobsahuje
+  const { qrLogoDataUrl, vdpDataFile, dieLineFile, vdpImageFiles, ...jobData } = job
+  const addSection = (section: JobPackageSection, value: unknown) => {
+    if (value === undefined) return
+    sections[section] = SECTION_PATHS[section]
+    entries.push({ name: SECTION_PATHS[section], data: stringifySection(value) })
+  }
+  addSection('job', jobData)
+  addSection('labelConfig', content.labelConfig)
+  addSection('stepRepeat', content.stepRepeat)
+  addSection('exportSettings', content.exportSettings)
+  addSection('jobTicket', content.jobTicket)
+  addSection('dieLine', content.dieLine)
+
+  if (qrLogoDataUrl) {
+    const data = dataUrlToBlob(qrLogoDataUrl)
+    const name = `qr-logo.${LOGO_EXTENSIONS[data.type] ?? 'bin'}`
+    await addAsset('QR_LOGO', `assets/${name}`, { name, mimeType: data.type, data })
+  }
+  if (vdpDataFile) {
+    await addAsset('VDP_DATA', `assets/vdp-data/${safeFileName(vdpDataFile.name, 'data')}`, vdpDataFile)
+  }
+  if (dieLineFile) {
+    await addAsset('DIE_LINE', `assets/die-line/${safeFileName(dieLineFile.name, 'die-line')}`, dieLineFile)
+  }
+  // Názov obrázka je kľúč, na ktorý odkazujú objekty – v manifeste ostáva presný
+  for (const [index, file] of (vdpImageFiles ?? []).entries()) {
+    const path = `assets/vdp-images/${String(index + 1).padStart(3, '0')}_${safeFileName(file.name, 'image')}`
+    await addAsset('VDP_IMAGE', path, file)
+  }
+  for (const [index, file] of (content.vdpSourceFiles ?? []).entries()) {
+    // Poradie v ceste – dva zdroje môžu mať rovnaké meno
+    const path = `assets/vdp-sources/${String(index + 1).padStart(2, '0')}_${safeFileName(file.name, 'source')}`
+    await addAsset('VDP_SOURCE', path, file)
+  }
+
+  const manifest: JobPackageManifest = {
+    format: JOB_PACKAGE_FORMAT,
+    version: JOB_PACKAGE_VERSION,
+    createdAt: new Date().toISOString(),
+    application: 'GPCS CodeStudio',
+    jobId: job.id,
+    jobName: job.name,
+    sections,
+    assets,
+  }
+  // Manifest ako prvý súbor – dá sa prečítať bez rozbalenia zvyšku
+  entries.unshift({ name: MANIFEST_PATH, data: stringifySection(manifest) })
+  return createZip(entries)
+}
+
+export function jobPackageFileName(job: Pick<CodeJob, 'name'>): string {
+  return `${safeFileName(job.name, 'job').replace(/\s+/g, '_')}${JOB_PACKAGE_EXTENSION}`
+}
+
+/* =====================
+ * IMPORT
+ * ===================== */
+
+function checkManifest(value: unknown, issues: JobPackageIssue[]): JobPackageManifest | null {
+  const manifest = value as Partial<JobPackageManifest> | null
+  if (kindOf(manifest) !== 'object' || manifest?.format !== JOB_PACKAGE_FORMAT) {
+    issues.push({ severity: 'error', message: 'File is not a GPCS job package (manifest format is missing)' })
+    return null
+  }
+  if (typeof manifest.version !== 'number' || !Number.isInteger(manifest.version) || manifest.version < 1) {
+    issues.push({ severity: 'error', message: 'Package manifest has no valid format version' })
+    return null
+  }
+  if (manifest.version > JOB_PACKAGE_VERSION) {
+    issues.push({
+      severity: 'warning',
+      message:
+        `Package was created by a newer CodeStudio (format ${manifest.version}, supported ${JOB_PACKAGE_VERSION}) ` +
+        '– fields this version does not know are ignored',
+    })
+  }
+  if (kindOf(manifest.sections) !== 'object' || !manifest.sections?.job) {
+    issues.push({ severity: 'error', message: 'Package manifest does not reference the job' })
+    return null
+  }
+  if (!Array.isArray(manifest.assets)) {
+    issues.push({ severity: 'error', message: 'Package manifest has no asset list' })
+    return null
+  }
+  return manifest as JobPackageManifest
+}
+
+/**
+ * Načíta a overí balík. Pri chybe je `content` null a `issues` hovoria
+ * prečo; upozornenia (doplnené alebo ignorované polia) import nezastavia.
+ * Job si ponechá pôvodné id – volajúci rozhodne, či ho prepíše.
+ */
+export async function readJobPackage(file: Blob): Promise<{ content: JobPackage | null; issues: JobPackageIssue[] }> {
+  const issues: JobPackageIssue[] = []
+  const fail = (message: string) => {
+    issues.push({ severity: 'error', message })
+    return { content: null, issues }
+  }
+
+  let files: Map<string, Uint8Array>
+  try {
+    const entries = await readZip(new Uint8Array(await file.arrayBuffer()))
+    files = new Map(entries.map(entry => [entry.name, entry.data]))
+  } catch (error) {
+    return fail(`Cannot open package: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const manifestData = files.get(MANIFEST_PATH)
+  if (!manifestData) return fail(`Package has no ${MANIFEST_PATH}`)
+
+  const readJson = (path: string, what: string): unknown => {
+    const data = files.get(path)
+    if (!data) {
+      issues.push({ severity: 'error', message: `${what} file "${path}" is missing from the package` })
+      return undefined
+    }
+    try {
+      return parseSection(data)
+    } catch {
+      issues.push({ severity: 'error', message: `${what} file "${path}" is not valid JSON` })
+      return undefined
+    }
+  }
+
+  const manifest = checkManifest(readJson(MANIFEST_PATH, 'Manifest'), issues)
+  if (!manifest) return { content: null, issues }
+
+  const loadSection = (section: JobPackageSection, schema: SectionSchema, defaults?: Record<string, unknown>) => {
+    const path = manifest.sections[section]
+    if (!path) return undefined
+    const value = readJson(path, SECTION_LABELS[section])
+    return value === undefined ? undefined : (checkSection(section, value, schema, issues, defaults) ?? undefined)
+  }
+
+  // Id sa nedopĺňa – job bez id je chybný balík
+  const jobDefaults: Record<string, unknown> = { ...createEmptyJob() }
+  delete jobDefaults.id
+  const jobData = loadSection('job', CODE_JOB_SCHEMA, jobDefaults)
+
+  let stepRepeat: Record<string, unknown> | undefined
+  const stepRepeatPath = manifest.sections.stepRepeat
+  if (stepRepeatPath) {
+    const value = readJson(stepRepeatPath, SECTION_LABELS.stepRepeat) as { mode?: unknown } | undefined
+    if (value?.mode === 'WEB' || value?.mode === 'SHEET') {
+      const schema = value.mode === 'WEB' ? WEB_STEP_REPEAT_SCHEMA : SHEET_STEP_REPEAT_SCHEMA
+      stepRepeat = checkSection('stepRepeat', value, schema, issues) ?? undefined
+    } else if (value !== undefined) {
+      issues.push({ severity: 'error', message: `Step & repeat mode "${String(value.mode)}" is not supported` })
+    }
+  }
+
+  const content = {
+    labelConfig: loadSection('labelConfig', LABEL_CONFIG_SCHEMA) as LabelConfig | undefined,
+    stepRepeat: stepRepeat as StepRepeatConfig | undefined,
+    exportSettings: loadSection('exportSettings', EXPORT_SETTINGS_SCHEMA) as ExportSettings | undefined,
+    jobTicket: loadSection('jobTicket', JOB_TICKET_SCHEMA) as JobTicket | undefined,
+    dieLine: loadSection('dieLine', DIE_LINE_SCHEMA) as DieLineInfo | undefined,
+  }
+
+  // Prílohy – veľkosť a CRC z manifestu musia sedieť so súborom
+  const assetFiles: Partial<Record<JobPackageAssetRole, CodeJobFile[]>> = {}
+  for (const asset of manifest.assets) {
+    const data = files.get(asset.path)
+    if (!data) {
+      issues.push({ severity: 'error', message: `Asset "${asset.name}" (${asset.path}) is missing from the package` })
+      continue
+    }
+    if (data.length !== asset.size || crc32(data) !== asset.crc32) {
+      issues.push({ severity: 'error', message: `Asset "${asset.name}" does not match the manifest checksum` })
+      continue
+    }
+    const list = (assetFiles[asset.role] ??= [])
+    list.push(createJobFile(asset.name, asset.mimeType, data))
+  }
+
+  if (!jobData || issues.some(issue => issue.severity === 'error')) return { content: null, issues }
+
+  const logo = assetFiles.QR_LOGO?.[0]
+  const job = {
+    ...jobData,
+    qrLogoDataUrl: logo ? await blobToDataUrl(logo.data) : null,
+    vdpDataFile: assetFiles.VDP_DATA?.[0] ?? null,
+    dieLineFile: assetFiles.DIE_LINE?.[0] ?? null,
+    vdpImageFiles: assetFiles.VDP_IMAGE ?? [],
+  } as CodeJob
+
+  return {
+    content: {
+      job,
+      ...Object.fromEntries(Object.entries(content).filter(([, value]) => value !== undefined)),
+      ...(assetFiles.VDP_SOURCE ? { vdpSourceFiles: assetFiles.VDP_SOURCE } : {}),
+    },
+    issues,
+  }
+}
+
+/**
+ * Job s nastaveniami z balíka – rozmery etikety z label configu, step
+ * & repeat a export majú prednosť pred kópiou uloženou v jobe
+ */
+export function jobWithPackageSettings(content: JobPackage): CodeJob {
+  const { job, labelConfig } = content
+  return {
+    ...job,
+    ...(labelConfig
+      ? {
+          labelWidthMm: labelConfig.widthMm,
+          labelHeightMm: labelConfig.heightMm,
+          bleedMm: labelConfig.bleedMm,
+          safeMarginMm: labelConfig.safeMarginMm,
+          labelBorderRadiusMm: labelConfig.cornerRadiusMm,
+          printDirection: labelConfig.printDirection,
+          referenceBox: labelConfig.referenceBox,
+          canvasGridSizeMm: labelConfig.gridSizeMm,
+        }
+      : {}),
+    stepRepeat: content.stepRepeat ?? job.stepRepeat,
+    exportSettings: content.exportSettings ?? job.exportSettings,
+  }
+}
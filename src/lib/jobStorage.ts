@@ -1,81 +1,666 @@
 // src/lib/jobStorage.ts
-import type { CodeJob, CodeJobId } from '../types/jobTypes'
+// Úložisko jobov v IndexedDB – záznam jobu má verziu schémy a staršie
+// záznamy (aj pôvodný localStorage formát v1) sa pri otvorení migrujú.
+// Binárne prílohy (QR logo, VDP dáta, výsekový nástroj, obrázky záznamov)
+// sú v samostatnom store, job na ne odkazuje. Každé uloženie vytvorí
+// nemennú revíziu, rozpracovaný stav editora sa priebežne ukladá ako
+// koncept (obnova po páde).
+// Chyby zápisu (plná kvóta) sa vyhadzujú – volajúci ich musí ukázať,
+// job sa nesmie potichu stratiť.
+import type { CodeJob, CodeJobAssetKind, CodeJobFile, CodeJobId, CodeJobRevision } from '../types/jobTypes'
+import type { Layer } from '../types/barcodeTypes'
+import { getDefaultProfile } from '../config/printingProfiles'
+import { GS1_DIGITAL_LINK_DEFAULT_DOMAIN } from './gs1DigitalLink'
+import { DEFAULT_RANDOM_CONFIG } from './randomSerial'
+import { createDefaultLayers } from './labelObjects'
+import { crc32 } from './zipArchive'
 
-const STORAGE_KEY = 'gpcs_codestudio_jobs_v1'
+const DB_NAME = 'gpcs_codestudio'
+const DB_VERSION = 3
+const JOBS_STORE = 'jobs'
+const ASSETS_STORE = 'assets'
+const REVISIONS_STORE = 'revisions'
+const DRAFTS_STORE = 'drafts'
+/** Editor má jeden rozpracovaný koncept */
+const EDITOR_DRAFT_ID = 'editor'
 
-type JobsState = {
-  jobs: CodeJob[]
+/** Pôvodné úložisko (schéma v1) – po úspešnej migrácii sa zmaže */
+const LEGACY_STORAGE_KEY = 'gpcs_codestudio_jobs_v1'
+
+/** Aktuálna verzia schémy záznamu jobu */
+export const JOB_SCHEMA_VERSION = 5
+
+/* =====================
+ * ZÁZNAMY
+ * ===================== */
+
+type StoredJob = {
+  id: CodeJobId
+  schemaVersion: number
+  /** Job bez binárnych dát */
+  job: Omit<CodeJob, 'qrLogoDataUrl' | 'vdpDataFile' | 'dieLineFile' | 'vdpImageFiles'>
+  /** Id príloh v store `assets` */
+  assetIds: Partial<Record<Exclude<CodeJobAssetKind, 'VDP_IMAGE'>, string>>
+  /** Id obrázkov záznamov v store `assets` */
+  imageAssetIds?: string[]
+}
+
+type StoredAsset = {
+  id: string
+  jobId: CodeJobId
+  kind: CodeJobAssetKind
+  name: string
+  mimeType: string
+  size: number
+  data: Blob
+  /** CRC-32 obsahu (`CodeJobFile.hash`); staršie prílohy ho nemajú */
+  crc32?: string
+  createdAt: string
+}
+
+/** Revízia – snímka záznamu jobu v čase uloženia, prílohy sa zdieľajú */
+type StoredRevision = CodeJobRevision & {
+  id: string
+  record: StoredJob
+}
+
+/** Koncept – celý job vrátane príloh (IndexedDB ukladá Blob priamo) */
+type StoredDraft = JobDraft & {
+  id: string
+  schemaVersion: number
+}
+
+/** Výsledok kroku migrácie – záznam novej verzie a prílohy na zápis */
+type MigrationResult = {
+  record: Record<string, unknown>
+  assets: StoredAsset[]
+}
+
+/**
+ * Id prílohy; s hashom obsahu je príloha nemenná – revízie na ňu môžu
+ * odkazovať a nezmenené logo sa pri uložení nezapisuje znova. Obrázkov
+ * záznamov je viac, ich id končí názvom súboru.
+ */
+function assetId(jobId: CodeJobId, kind: CodeJobAssetKind, hash?: string, name?: string): string {
+  const id = hash ? `${jobId}:${kind}:${hash}` : `${jobId}:${kind}`
+  return name === undefined ? id : `${id}/${name}`
+}
+
+function revisionId(jobId: CodeJobId, revision: number): string {
+  return `${jobId}#${String(revision).padStart(6, '0')}`
 }
 
-function readRaw(): JobsState {
-  if (typeof window === 'undefined') {
-    return { jobs: [] }
+/** SHA-256 obsahu (prvých 128 bitov); bez Web Crypto (http) FNV-1a */
+async function contentHash(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+    return Array.from(digest.slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('')
   }
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY)
-    if (!raw) return { jobs: [] }
-    const parsed = JSON.parse(raw) as JobsState
-    if (!Array.isArray(parsed.jobs)) return { jobs: [] }
-    return { jobs: parsed.jobs }
-  } catch {
-    return { jobs: [] }
+  let hash = 0x811c9dc5
+  for (const byte of bytes) hash = Math.imul(hash ^ byte, 0x01000193)
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}${bytes.length.toString(16)}`
+}
+
+/** Hash obsahu prílohy pre porovnanie verzií jobu */
+export function jobFileHash(data: Uint8Array): string {
+  return crc32(data).toString(16).padStart(8, '0')
+}
+
+/** Príloha jobu z bajtov – hash obsahu sa spočíta pri pripojení */
+export function createJobFile(name: string, mimeType: string, data: Uint8Array): CodeJobFile {
+  return { name, mimeType, data: new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType }), hash: jobFileHash(data) }
+}
+
+/** Príloha jobu zo súboru alebo Blobu */
+export async function createJobFileFromBlob(name: string, mimeType: string, blob: Blob): Promise<CodeJobFile> {
+  return createJobFile(name, mimeType, new Uint8Array(await blob.arrayBuffer()))
+}
+
+/** Doplní hash prílohe uloženej staršou verziou (koncept, import) */
+async function withFileHash(file: CodeJobFile | null | undefined): Promise<CodeJobFile | null> {
+  if (!file) return null
+  return file.hash ? file : createJobFileFromBlob(file.name, file.mimeType, file.data)
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl)
+  if (!match) throw new Error('Logo is not a data URL')
+  const mimeType = match[1] || 'application/octet-stream'
+  if (!match[2]) return new Blob([decodeURIComponent(match[3])], { type: mimeType })
+  const binary = atob(match[3])
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: mimeType })
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Cannot read stored logo'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+function createAsset(
+  jobId: CodeJobId,
+  kind: CodeJobAssetKind,
+  file: Omit<CodeJobFile, 'hash'> & { hash?: string },
+  hash?: string,
+): StoredAsset {
+  return {
+    id: assetId(jobId, kind, hash, kind === 'VDP_IMAGE' ? file.name : undefined),
+    jobId,
+    kind,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.data.size,
+    data: file.data,
+    crc32: file.hash,
+    createdAt: new Date().toISOString(),
   }
 }
 
-function writeRaw(state: JobsState) {
-  if (typeof window === 'undefined') return
+/**
+ * Rozdelí job na záznam bez binárnych dát a prílohy (`hashes` = obsahové
+ * id podľa id prílohy bez hashu)
+ */
+function splitJob(job: CodeJob, hashes: Record<string, string> = {}): { record: StoredJob; assets: StoredAsset[] } {
+  const { qrLogoDataUrl, vdpDataFile, dieLineFile, vdpImageFiles, ...rest } = job
+  // Logo sa v jobe porovnáva ako data URL, hash nepotrebuje
+  const files: [CodeJobAssetKind, (Omit<CodeJobFile, 'hash'> & { hash?: string }) | null | undefined][] = [
+    ['QR_LOGO', qrLogoDataUrl ? { name: 'qr-logo', mimeType: '', data: dataUrlToBlob(qrLogoDataUrl) } : null],
+    ['VDP_DATA', vdpDataFile],
+    ['DIE_LINE', dieLineFile],
+    ...(vdpImageFiles ?? []).map(file => ['VDP_IMAGE', file] as [CodeJobAssetKind, CodeJobFile]),
+  ]
+
+  const assets: StoredAsset[] = []
+  const assetIds: StoredJob['assetIds'] = {}
+  const imageAssetIds: string[] = []
+  for (const [kind, file] of files) {
+    if (!file) continue
+    const plainId = assetId(job.id, kind, undefined, kind === 'VDP_IMAGE' ? file.name : undefined)
+    const asset = createAsset(job.id, kind, { ...file, mimeType: file.mimeType || file.data.type }, hashes[plainId])
+    assets.push(asset)
+    if (kind === 'VDP_IMAGE') imageAssetIds.push(asset.id)
+    else assetIds[kind] = asset.id
+  }
+  return {
+    record: { id: job.id, schemaVersion: JOB_SCHEMA_VERSION, job: rest, assetIds, imageAssetIds },
+    assets,
+  }
+}
+
+/**
+ * Obrázky záznamov uložené v schéme 4 ako data URL v objektoch vrstiev –
+ * obrázky sa vrátia ako prílohy, objekty si nechajú len ich názvy
+ */
+function moveLegacyVdpImages(layers: Layer[]): { layers: Layer[]; images: Omit<CodeJobFile, 'hash'>[] } {
+  const images = new Map<string, Omit<CodeJobFile, 'hash'>>()
+  const moved = layers.map(layer => ({
+    ...layer,
+    objects: layer.objects.map(obj => {
+      const { vdpImages, ...rest } = obj as typeof obj & { vdpImages?: Record<string, string> }
+      if (!vdpImages) return obj
+      for (const [name, dataUrl] of Object.entries(vdpImages)) {
+        const data = dataUrlToBlob(dataUrl)
+        images.set(name, { name, mimeType: data.type, data })
+      }
+      return { ...rest, vdpImageNames: Object.keys(vdpImages) }
+    }),
+  }))
+  return { layers: moved, images: [...images.values()] }
+}
+
+/* =====================
+ * MIGRÁCIE
+ * ===================== */
+
+/**
+ * Migrácie záznamu z verzie (kľúč) na nasledujúcu. Pri zmene schémy sa
+ * zvýši JOB_SCHEMA_VERSION a pridá krok – staré kroky sa nemenia.
+ */
+const JOB_MIGRATIONS: Record<number, (record: Record<string, unknown>) => MigrationResult> = {
+  // v1: celý CodeJob v localStorage, logo ako data URL priamo v jobe
+  1: record => splitJob(record as unknown as CodeJob),
+  // v2: job pokrýval len časť editora – doplnia sa predvolené hodnoty
+  2: record => {
+    const stored = record as unknown as StoredJob
+    return { record: { ...stored, job: withJobDefaults(stored.job) }, assets: [] }
+  },
+  // v3: bez vrstiev a objektov etikety – dostane predvolené prázdne vrstvy
+  3: record => {
+    const stored = record as unknown as StoredJob
+    return { record: { ...stored, job: withJobDefaults(stored.job) }, assets: [] }
+  },
+  // v4: obrázky záznamov ako data URL v objektoch – presunú sa do príloh
+  4: record => {
+    const stored = record as unknown as StoredJob
+    const { layers, images } = moveLegacyVdpImages(stored.job.layers)
+    const assets = images.map(image => createAsset(stored.id, 'VDP_IMAGE', image))
+    return {
+      record: { ...stored, job: { ...stored.job, layers }, imageAssetIds: assets.map(asset => asset.id) },
+      assets,
+    }
+  },
+}
+
+function migrateRecord(record: Record<string, unknown>): MigrationResult {
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1
+  let current: MigrationResult = { record, assets: [] }
+  while (version < JOB_SCHEMA_VERSION) {
+    const migrate = JOB_MIGRATIONS[version]
+    if (!migrate) throw new Error(`No migration for job schema version ${version}`)
+    const next = migrate(current.record)
+    // Neskorší krok môže prílohu nahradiť – platí posledná s rovnakým id
+    const assets = new Map(current.assets.map(asset => [asset.id, asset]))
+    for (const asset of next.assets) assets.set(asset.id, asset)
+    current = { record: { ...next.record, schemaVersion: version + 1 }, assets: [...assets.values()] }
+    version++
+  }
+  return current
+}
+
+/* =====================
+ * INDEXEDDB
+ * ===================== */
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    // Prekročená kvóta transakciu zruší – chyba je v transaction.error
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/** Čitateľná chyba pre používateľa; pri plnej kvóte s radou, čo zmazať */
+function storageError(error: unknown, action: string): Error {
+  const name = error instanceof DOMException ? error.name : ''
+  if (name === 'QuotaExceededError') {
+    return new Error(
+      `Browser storage is full – ${action} failed and nothing was overwritten. Delete old jobs or large logos and try again.`,
+    )
+  }
+  return new Error(`${action} failed: ${error instanceof Error ? error.message : String(error)}`)
+}
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(JOBS_STORE, { keyPath: 'id' })
+    const assets = db.createObjectStore(ASSETS_STORE, { keyPath: 'id' })
+    assets.createIndex('jobId', 'jobId')
+  }
+  if (oldVersion < 2) {
+    const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' })
+    revisions.createIndex('jobId', 'jobId')
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' })
+  }
+}
+
+function readLegacyJobs(): Record<string, unknown>[] | null {
   try {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    const raw = window.localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as { jobs?: unknown }
+    return Array.isArray(parsed.jobs) ? (parsed.jobs as Record<string, unknown>[]) : []
   } catch {
-    // nič – nech to nespadne
+    return null
   }
 }
 
-export function listJobs(): CodeJob[] {
-  return readRaw().jobs.sort(
-    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+/**
+ * Presun jobov z localStorage a migrácia starších záznamov v IndexedDB.
+ * localStorage sa zmaže až po úspešnom zápise – pri chybe zostane zdrojom.
+ */
+async function migrateStoredJobs(db: IDBDatabase): Promise<void> {
+  const legacy = readLegacyJobs()
+  const stored = (await requestResult(
+    db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll(),
+  )) as Record<string, unknown>[]
+  const outdated = stored.filter(
+    record => typeof record.schemaVersion !== 'number' || record.schemaVersion < JOB_SCHEMA_VERSION,
   )
+  if (!legacy && outdated.length === 0) return
+
+  // Job, ktorý už v IndexedDB je, má prednosť pred kópiou z localStorage
+  const storedIds = new Set(stored.map(record => record.id))
+  const migrated: MigrationResult[] = []
+  const failed: Record<string, unknown>[] = []
+  for (const record of [...(legacy ?? []).filter(record => !storedIds.has(record.id)), ...outdated]) {
+    try {
+      migrated.push(migrateRecord(record))
+    } catch (error) {
+      console.warn(`Job ${String(record.id)} could not be migrated:`, error)
+      failed.push(record)
+    }
+  }
+
+  const transaction = db.transaction([JOBS_STORE, ASSETS_STORE], 'readwrite')
+  for (const { record, assets } of migrated) {
+    transaction.objectStore(JOBS_STORE).put(record)
+    for (const asset of assets) transaction.objectStore(ASSETS_STORE).put(asset)
+  }
+  try {
+    await transactionDone(transaction)
+  } catch (error) {
+    throw storageError(error, 'Migrating saved jobs')
+  }
+  // Nemigrované joby z localStorage zostanú v ňom, aby sa nestratili
+  const failedLegacy = failed.filter(record => legacy?.includes(record))
+  if (failedLegacy.length > 0) {
+    window.localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify({ jobs: failedLegacy }))
+  } else if (legacy) {
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY)
+  }
 }
 
-export function getJob(id: CodeJobId): CodeJob | undefined {
-  return readRaw().jobs.find(j => j.id === id)
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser – jobs cannot be stored'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = event => upgradeDatabase(request.result, event.oldVersion)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(storageError(request.error, 'Opening job storage'))
+    request.onblocked = () => reject(new Error('Job storage is blocked by another open tab – close it and reload'))
+  }).then(async db => {
+    // Novšia verzia aplikácie v inej záložke upgraduje databázu – toto spojenie ju nesmie blokovať
+    db.onversionchange = () => {
+      db.close()
+      databasePromise = null
+    }
+    await migrateStoredJobs(db)
+    return db
+  })
+  // Po chybe sa pri ďalšom volaní skúsi otvoriť znova
+  databasePromise.catch(() => {
+    databasePromise = null
+  })
+  return databasePromise
 }
 
-export function saveJob(job: CodeJob): void {
-  const state = readRaw()
-  const existingIndex = state.jobs.findIndex(j => j.id === job.id)
-  const now = new Date().toISOString()
+/* =====================
+ * NAČÍTANIE
+ * ===================== */
+
+/** Job so zdieľanými prílohami; `pending` = prílohy migrácie, ktoré ešte nie sú v úložisku */
+async function hydrateJob(db: IDBDatabase, record: StoredJob, pending: StoredAsset[] = []): Promise<CodeJob> {
+  const { job, assetIds } = record
+  const store = db.transaction(ASSETS_STORE).objectStore(ASSETS_STORE)
+  const loadId = async (id: string | undefined) =>
+    id
+      ? (pending.find(asset => asset.id === id) ?? ((await requestResult(store.get(id))) as StoredAsset | undefined))
+      : undefined
+  const load = (kind: Exclude<CodeJobAssetKind, 'VDP_IMAGE'>) => loadId(assetIds?.[kind])
+  const [logo, vdpData, dieLine, images] = await Promise.all([
+    load('QR_LOGO'),
+    load('VDP_DATA'),
+    load('DIE_LINE'),
+    Promise.all((record.imageAssetIds ?? []).map(loadId)),
+  ])
+  const toFile = async (asset: StoredAsset | undefined): Promise<CodeJobFile | null> =>
+    asset
+      ? asset.crc32
+        ? { name: asset.name, mimeType: asset.mimeType, data: asset.data, hash: asset.crc32 }
+        : createJobFileFromBlob(asset.name, asset.mimeType, asset.data)
+      : null
 
-  const normalized: CodeJob = {
+  return {
     ...job,
-    createdAt: job.createdAt || now,
-    updatedAt: now,
+    qrLogoDataUrl: logo ? await blobToDataUrl(logo.data) : null,
+    vdpDataFile: await toFile(vdpData),
+    dieLineFile: await toFile(dieLine),
+    vdpImageFiles: (await Promise.all(images.map(toFile))).filter(file => file !== null),
   }
+}
+
+/** Rozsah kľúčov všetkých záznamov jobu v `assets` a `revisions` */
+function jobKeyRange(id: CodeJobId, separator: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${id}${separator}`, `${id}${separator}\uffff`)
+}
+
+export async function listJobs(): Promise<CodeJob[]> {
+  if (typeof window === 'undefined') return []
+  const db = await openDatabase()
+  const records = (await requestResult(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll())) as StoredJob[]
+  const jobs = await Promise.all(records.map(record => hydrateJob(db, record)))
+  return jobs.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+}
+
+export async function getJob(id: CodeJobId): Promise<CodeJob | undefined> {
+  if (typeof window === 'undefined') return undefined
+  const db = await openDatabase()
+  const record = (await requestResult(db.transaction(JOBS_STORE).objectStore(JOBS_STORE).get(id))) as
+    | StoredJob
+    | undefined
+  return record ? hydrateJob(db, record) : undefined
+}
+
+/** Revízie jobu od najnovšej */
+export async function listJobRevisions(jobId: CodeJobId): Promise<CodeJobRevision[]> {
+  if (typeof window === 'undefined') return []
+  const db = await openDatabase()
+  const revisions = (await requestResult(
+    db.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).getAll(jobKeyRange(jobId, '#')),
+  )) as StoredRevision[]
+  return revisions
+    .map(({ jobId, revision, createdAt, author, comment }) => ({ jobId, revision, createdAt, author, comment }))
+    .sort((a, b) => b.revision - a.revision)
+}
 
-  if (existingIndex >= 0) {
-    state.jobs[existingIndex] = normalized
-  } else {
-    state.jobs.push(normalized)
+/** Job presne v stave danej revízie (vrátane príloh) – podklad pre dotlač */
+export async function getJobRevision(jobId: CodeJobId, revision: number): Promise<CodeJob | undefined> {
+  if (typeof window === 'undefined') return undefined
+  const db = await openDatabase()
+  const stored = (await requestResult(
+    db.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).get(revisionId(jobId, revision)),
+  )) as StoredRevision | undefined
+  if (!stored) return undefined
+  // Revízia staršej schémy sa pri čítaní migruje, uložená zostáva nemenná
+  if (stored.record.schemaVersion < JOB_SCHEMA_VERSION) {
+    const migrated = migrateRecord(stored.record as unknown as Record<string, unknown>)
+    return hydrateJob(db, migrated.record as unknown as StoredJob, migrated.assets)
   }
-  writeRaw(state)
+  return hydrateJob(db, stored.record)
 }
 
-export function deleteJob(id: CodeJobId): void {
-  const state = readRaw()
-  state.jobs = state.jobs.filter(j => j.id !== id)
-  writeRaw(state)
+/** Obsadené a dostupné miesto úložiska prehliadača v bajtoch */
+export async function getJobStorageUsage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
 }
 
-export function deleteAllJobs(): void {
-  writeRaw({ jobs: [] })
+/* =====================
+ * ZÁPIS
+ * ===================== */
+
+export type SaveJobOptions = {
+  author?: string
+  comment?: string
 }
 
+/**
+ * Uloží job aj s prílohami a novou revíziou v jednej transakcii – pri
+ * chybe (plná kvóta) zostane uložená predchádzajúca verzia a vyhodí sa
+ * čitateľná chyba. Vráti job s číslom novej revízie.
+ */
+export async function saveJob(job: CodeJob, options: SaveJobOptions = {}): Promise<CodeJob> {
+  const now = new Date().toISOString()
+  const db = await openDatabase()
+
+  // Hashe sa rátajú pred transakciou – čakanie mimo IndexedDB by ju uzavrelo
+  const { assets: plainAssets } = splitJob(job)
+  const hashes: Record<string, string> = {}
+  for (const asset of plainAssets) hashes[asset.id] = await contentHash(asset.data)
+
+  const transaction = db.transaction([JOBS_STORE, ASSETS_STORE, REVISIONS_STORE], 'readwrite')
+  const done = transactionDone(transaction)
+  const jobStore = transaction.objectStore(JOBS_STORE)
+  const assetStore = transaction.objectStore(ASSETS_STORE)
+
+  let saved: CodeJob
+  try {
+    const previous = (await requestResult(jobStore.get(job.id))) as StoredJob | undefined
+    const revision = (previous?.job.revision ?? 0) + 1
+    saved = { ...job, createdAt: job.createdAt || now, updatedAt: now, revision }
+
+    const { record, assets } = splitJob(saved, hashes)
+    jobStore.put(record)
+    for (const asset of assets) {
+      // Príloha s rovnakým obsahom už existuje (predchádzajúca revízia)
+      if ((await requestResult(assetStore.getKey(asset.id))) === undefined) assetStore.put(asset)
+    }
+    const stored: StoredRevision = {
+      id: revisionId(job.id, revision),
+      jobId: job.id,
+      revision,
+      createdAt: now,
+      author: options.author?.trim() ?? '',
+      comment: options.comment?.trim() ?? '',
+      record,
+    }
+    transaction.objectStore(REVISIONS_STORE).add(stored)
+    await done
+  } catch (error) {
+    done.catch(() => undefined)
+    throw storageError(error, `Saving job "${job.name}"`)
+  }
+  return saved
+}
+
+/**
+ * Obnoví staršiu revíziu ako novú – história zostáva nemenná a obnovenie
+ * je v nej zaznamenané
+ */
+export async function restoreJobRevision(
+  jobId: CodeJobId,
+  revision: number,
+  options: SaveJobOptions = {},
+): Promise<CodeJob> {
+  const job = await getJobRevision(jobId, revision)
+  if (!job) throw new Error(`Revision ${revision} of job ${jobId} does not exist`)
+  return saveJob(job, { author: options.author, comment: options.comment || `Restored revision ${revision}` })
+}
+
+export async function deleteJob(id: CodeJobId): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([JOBS_STORE, ASSETS_STORE, REVISIONS_STORE], 'readwrite')
+  transaction.objectStore(JOBS_STORE).delete(id)
+  transaction.objectStore(ASSETS_STORE).delete(jobKeyRange(id, ':'))
+  transaction.objectStore(REVISIONS_STORE).delete(jobKeyRange(id, '#'))
+  try {
+    await transactionDone(transaction)
+  } catch (error) {
+    throw storageError(error, 'Deleting job')
+  }
+}
+
+export async function deleteAllJobs(): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([JOBS_STORE, ASSETS_STORE, REVISIONS_STORE], 'readwrite')
+  transaction.objectStore(JOBS_STORE).clear()
+  transaction.objectStore(ASSETS_STORE).clear()
+  transaction.objectStore(REVISIONS_STORE).clear()
+  try {
+    await transactionDone(transaction)
+  } catch (error) {
+    throw storageError(error, 'Deleting jobs')
+  }
+}
+
+/* =====================
+ * KONCEPT (AUTOSAVE)
+ * ===================== */
+
+export type JobDraft = {
+  job: CodeJob
+  savedAt: string
+}
+
+/** Priebežné uloženie editora – nevytvára revíziu, prepisuje predchádzajúci koncept */
+export async function saveJobDraft(job: CodeJob): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(DRAFTS_STORE, 'readwrite')
+  const draft: StoredDraft = {
+    id: EDITOR_DRAFT_ID,
+    schemaVersion: JOB_SCHEMA_VERSION,
+    job,
+    savedAt: new Date().toISOString(),
+  }
+  transaction.objectStore(DRAFTS_STORE).put(draft)
+  try {
+    await transactionDone(transaction)
+  } catch (error) {
+    throw storageError(error, 'Autosaving the editor')
+  }
+}
+
+/** Koncept, ktorý po sebe nechala predchádzajúca (spadnutá) relácia */
+export async function getJobDraft(): Promise<JobDraft | undefined> {
+  if (typeof window === 'undefined') return undefined
+  const db = await openDatabase()
+  const stored = (await requestResult(
+    db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).get(EDITOR_DRAFT_ID),
+  )) as StoredDraft | undefined
+  if (!stored) return undefined
+  let job = withJobDefaults(stored.job)
+  // Koncept v4 má obrázky záznamov v objektoch vrstiev
+  if (stored.schemaVersion < 5) {
+    const { layers, images } = moveLegacyVdpImages(job.layers)
+    job = { ...job, layers, vdpImageFiles: images.map(image => ({ ...image, hash: '' })) }
+  }
+  return {
+    job: {
+      ...job,
+      vdpDataFile: await withFileHash(job.vdpDataFile),
+      dieLineFile: await withFileHash(job.dieLineFile),
+      vdpImageFiles:
+        job.vdpImageFiles && (await Promise.all(job.vdpImageFiles.map(withFileHash))).filter(file => file !== null),
+    },
+    savedAt: stored.savedAt,
+  }
+}
+
+export async function clearJobDraft(): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction(DRAFTS_STORE, 'readwrite')
+  transaction.objectStore(DRAFTS_STORE).delete(EDITOR_DRAFT_ID)
+  await transactionDone(transaction)
+}
+
+/* =====================
+ * NOVÝ JOB
+ * ===================== */
+
+export function createJobId(): CodeJobId {
+  return `job_${new Date().toISOString()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Nový job s predvolenými hodnotami editora */
 export function createEmptyJob(name = 'Nový job'): CodeJob {
   const now = new Date().toISOString()
-  const id = `job_${now}_${Math.random().toString(36).slice(2, 8)}`
+  const profile = getDefaultProfile()
 
   const job: CodeJob = {
-    id,
+    id: createJobId(),
     name,
     createdAt: now,
     updatedAt: now,
@@ -83,38 +668,145 @@ export function createEmptyJob(name = 'Nový job'): CodeJob {
     codeType: 'CODE128',
     dataMode: 'PLAIN',
     rawCodeValue: '',
+    dataBarVariant: 'OMNIDIRECTIONAL',
+    dataBarSegments: 4,
+    compositeEnabled: false,
+    compositeComponent: 'AUTO',
+    addOn: '',
+
+    gs1Label: {
+      gtin14: '',
+      lot: '',
+      bestBefore: '',
+      serial: '',
+      prodDate: '',
+      packDate: '',
+      useBy: '',
+      variant: '',
+      quantity: '',
+      count: '',
+      netWeightKg: '',
+      price: '',
+    },
+    gs1FormOutput: 'ELEMENT_STRING',
+    digitalLinkDomain: GS1_DIGITAL_LINK_DEFAULT_DOMAIN,
+    digitalLinkCompression: 'NONE',
 
     vdpEnabled: false,
     vdpMode: 'LINEAR',
-    vdpPattern: '',
+    vdpPattern: '[SERIAL]',
     vdpPrefix: '',
     vdpAlphaStartChar: 'A',
+    serialStart: 1,
     serialCurrent: 1,
-    serialPadding: 4,
+    serialPadding: 6,
+    vdpCount: 100,
+    vdpRandom: DEFAULT_RANDOM_CONFIG,
+    vdpImportPatternTemplate: '(01)[SERIAL]',
 
     labelPreset: '50x30',
     labelWidthMm: 50,
     labelHeightMm: 30,
-    bleedMm: 0,
+    bleedMm: 2,
+    safeMarginMm: 2,
+    labelBorderRadiusMm: 1,
+    referenceBox: 'TRIM',
     rotation: 0,
     printDirection: 'ALONG_WEB',
 
-    activeProfileId: null,
+    anchorX: 'end',
+    anchorY: 'end',
+    offsetXmm: -3,
+    offsetYmm: 3,
 
-    barHeightPx: 80,
+    activeProfileId: profile.id,
+    xDimMm: profile.recommended.xDimMm,
+    quietZoneMm: profile.recommended.quietZoneMm,
+    magnificationPercent: profile.recommended.magnificationPercent,
+    barWidthReductionMm: profile.recommended.barWidthReductionMm,
+
+    barHeightPx: 60,
     showHrText: true,
-    hrFontSizePt: 10,
+    hrFontSizePt: 14,
     barColor: '#000000',
     bgColor: '#ffffff',
     textColor: '#000000',
 
     qrLogoDataUrl: null,
-    qrLogoScale: 0.3,
+    qrLogoScale: 0.25,
 
     hrCustomText: '',
 
+    showDimensionGuides: true,
+    canvasGridSizeMm: 1,
+
+    layers: createDefaultLayers(),
+    vdpImageFiles: [],
+
     exportDpi: 300,
+    stepRepeat: {
+      mode: 'WEB',
+      webWidthMm: 330,
+      repeatLengthMm: 330,
+      lanes: 3,
+      rows: 4,
+      horizontalGapMm: 2,
+      verticalGapMm: 2,
+      staggerMode: 'NONE',
+      leftMarginMm: 5,
+      rightMarginMm: 5,
+      leadingEdgeMm: 5,
+      trailingEdgeMm: 5,
+      includeEyeMark: true,
+      eyeMarkPositionMm: 5,
+      eyeMarkWidthMm: 3,
+      eyeMarkHeightMm: 5,
+      includeRegistrationMarks: true,
+      includeColorBar: false,
+      includeMicrotext: false,
+      microtextContent: '',
+    },
+    exportSettings: {
+      format: 'PDF',
+      pdfVersion: 'PDF_X4',
+      embedFonts: true,
+      outlineFonts: false,
+      dpi: 300,
+      colorMode: 'CMYK',
+      spotColors: [],
+      barcodeColorName: 'Black',
+      barcodeAsSpot: false,
+      whiteUnderprint: false,
+      whiteUnderprintSpread: 0.1,
+      includeBleed: true,
+      includeCropMarks: true,
+      includeRegistrationMarks: true,
+      includeColorBars: false,
+      markOffset: 3,
+    },
+    distortion: {
+      enabled: false,
+      webDirectionPercent: 0,
+      crossDirectionPercent: 0,
+      previewDistorted: false,
+    },
+    machinePreset: null,
   }
 
   return job
 }
+
+/**
+ * Doplní polia, ktoré staršie joby nemajú, predvolenými hodnotami –
+ * existujúce hodnoty (aj null profil) sa nemenia
+ */
+export function withJobDefaults<T extends Partial<CodeJob>>(job: T): T {
+  const defaults = createEmptyJob()
+  return {
+    ...defaults,
+    ...job,
+    gs1Label: { ...defaults.gs1Label, ...job.gs1Label },
+    exportSettings: { ...defaults.exportSettings, ...job.exportSettings },
+    distortion: { ...defaults.distortion, ...job.distortion },
+  }
+}
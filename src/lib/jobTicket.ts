@@ -0,0 +1,124 @@
+// src/lib/jobTicket.ts
+// Job ticket – údaje zákazky zadané v editore (zákazník, objednávka,
+// materiál, množstvo, poznámky) a výpočty z raportu. Z nich sa skladá
+// JobTicket pre balík jobu a pri importe balíka sa z neho údaje obnovia.
+import type {
+  CodeType,
+  JobTicket,
+  LabelConfig,
+  LabelPreset,
+  Layer,
+  MachinePreset,
+  StepRepeatConfig,
+} from '../types/barcodeTypes'
+
+export type JobTicketDetails = {
+  customerName: string
+  orderNumber: string
+  material: string
+  adhesive: string
+  quantity: number
+  notes: string
+}
+
+export const DEFAULT_JOB_TICKET_DETAILS: JobTicketDetails = {
+  customerName: '',
+  orderNumber: '',
+  material: 'PP White',
+  adhesive: 'Permanent',
+  quantity: 10000,
+  notes: '',
+}
+
+/** Dĺžka raportu, ak ho pás nemá zadaný */
+const DEFAULT_REPEAT_LENGTH_MM = 330
+
+/* =====================
+ * VÝPOČTY
+ * ===================== */
+
+/** Etikety v raporte pásu, počet raportov a dĺžka pásu (hárok = 1 etiketa, 0 m) */
+export function jobTicketRun(
+  stepRepeat: StepRepeatConfig | undefined,
+  quantity: number,
+): { labelsPerRepeat: number; totalRepeats: number; totalMeters: number } {
+  const web = stepRepeat?.mode === 'WEB' ? stepRepeat : null
+  const labelsPerRepeat = web ? (web.lanes || 1) * (web.rows || 1) : 1
+  const totalRepeats = Math.ceil(quantity / labelsPerRepeat)
+  const totalMeters = web ? (totalRepeats * (web.repeatLengthMm || DEFAULT_REPEAT_LENGTH_MM)) / 1000 : 0
+  return { labelsPerRepeat, totalRepeats, totalMeters }
+}
+
+/** Farby tlačových vrstiev – spot podľa názvu, ostatné CMYK */
+export function jobTicketColors(layers: Layer[]): string[] {
+  const colors = layers
+    .filter(layer => layer.visible && layer.printable)
+    .map(layer => (layer.colorMode === 'SPOT' ? layer.spotColorName || 'SPOT' : 'CMYK'))
+  return [...new Set(colors)]
+}
+
+/* =====================
+ * JOB TICKET
+ * ===================== */
+
+export type JobTicketInput = {
+  jobId: string
+  jobName: string
+  createdBy: string
+  details: JobTicketDetails
+  labelConfig: LabelConfig
+  presetUsed: LabelPreset
+  codeType: CodeType
+  codeValue: string
+  magnificationPercent: number
+  xDimMm: number
+  barWidthReductionMm: number
+  machinePreset?: MachinePreset
+  printingProfile: string
+  layers: Layer[]
+  stepRepeat?: StepRepeatConfig
+  vdpEnabled: boolean
+}
+
+export function createJobTicket(input: JobTicketInput): JobTicket {
+  const { details } = input
+  return {
+    jobId: input.jobId,
+    jobName: input.jobName,
+    orderNumber: details.orderNumber,
+    customerName: details.customerName,
+    createdAt: new Date(),
+    createdBy: input.createdBy,
+    labelConfig: input.labelConfig,
+    presetUsed: input.presetUsed,
+    codeType: input.codeType,
+    codeValue: input.codeValue,
+    magnificationPercent: input.magnificationPercent,
+    xDimMm: input.xDimMm,
+    barWidthReductionMm: input.barWidthReductionMm,
+    substrate: details.material,
+    adhesive: details.adhesive,
+    machinePreset: input.machinePreset,
+    printingProfile: input.printingProfile,
+    colors: jobTicketColors(input.layers),
+    hasWhiteUnderprint: input.layers.some(layer => layer.type === 'WHITE_UNDERPRINT' && layer.visible),
+    totalQuantity: details.quantity,
+    ...jobTicketRun(input.stepRepeat, details.quantity),
+    waste: 0,
+    vdpEnabled: input.vdpEnabled,
+    productionNotes: details.notes ? details.notes.split('\n') : [],
+    qualityNotes: [],
+  }
+}
+
+/** Údaje zákazky z job ticketu (import balíka) */
+export function jobTicketDetailsOf(ticket: JobTicket): JobTicketDetails {
+  return {
+    customerName: ticket.customerName,
+    orderNumber: ticket.orderNumber ?? '',
+    material: ticket.substrate,
+    adhesive: ticket.adhesive ?? DEFAULT_JOB_TICKET_DETAILS.adhesive,
+    quantity: ticket.totalQuantity,
+    notes: ticket.productionNotes.join('\n'),
+  }
+}
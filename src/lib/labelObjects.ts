@@ -0,0 +1,479 @@
+// src/lib/labelObjects.ts
+// Objekty etikety vo vrstvách – vytváranie, úpravy, poradie (z-order),
+// zarovnanie k referenčnému boxu a prichytávanie (snap) pri presúvaní.
+// Súradnice sú v mm od ľavého horného rohu orezu (TRIM).
+import type {
+  BarcodeObject,
+  HorizontalAlign,
+  ImageObject,
+  LabelConfig,
+  LabelObject,
+  Layer,
+  LayerType,
+  ObjectType,
+  ReferenceBox,
+  ShapeObject,
+  SnapPoint,
+  TextObject,
+  VerticalAlign,
+} from '../types/barcodeTypes'
+
+export type LabelRect = { xMm: number; yMm: number; widthMm: number; heightMm: number }
+
+/** Rozmery etikety potrebné pre umiestnenie objektov */
+export type LabelBounds = Pick<LabelConfig, 'widthMm' | 'heightMm' | 'bleedMm' | 'safeMarginMm'>
+
+/** Najmenší rozmer objektu pri zmene veľkosti */
+export const MIN_OBJECT_SIZE_MM = 1
+
+/** Rozsah zväčšenia kódu úchytom – limity symboliky stráži tlačový profil */
+export const BARCODE_MAGNIFICATION_MIN = 25
+export const BARCODE_MAGNIFICATION_MAX = 400
+
+const PT_TO_MM = 25.4 / 72
+/** Výška riadku HR textu pod kódom (násobok veľkosti písma) */
+const HR_LINE_HEIGHT = 1.2
+
+/* =====================
+ * TYPE GUARDY
+ * ===================== */
+
+export const isBarcodeObject = (obj: LabelObject): obj is BarcodeObject => obj.type === 'barcode'
+export const isTextObject = (obj: LabelObject): obj is TextObject => obj.type === 'text'
+export const isImageObject = (obj: LabelObject): obj is ImageObject => obj.type === 'image'
+export const isShapeObject = (obj: LabelObject): obj is ShapeObject =>
+  obj.type === 'rectangle' || obj.type === 'ellipse' || obj.type === 'line'
+
+/* =====================
+ * VRSTVY
+ * ===================== */
+
+const LAYER_NAMES: Record<LayerType, string> = {
+  WHITE_UNDERPRINT: 'White Underprint',
+  BACKGROUND: 'Pozadie',
+  LOGO: 'Logo',
+  BARCODE: 'Barcode',
+  TEXT: 'Text',
+  GRAPHICS: 'Grafika',
+  VARNISH: 'Lak',
+}
+
+let idCounter = 0
+
+function createObjectId(prefix: string): string {
+  idCounter++
+  return `${prefix}_${Date.now().toString(36)}_${idCounter.toString(36)}`
+}
+
+export function createLayer(type: LayerType, id = createObjectId('layer')): Layer {
+  const spot = type === 'WHITE_UNDERPRINT' || type === 'VARNISH'
+  return {
+    id,
+    type,
+    name: LAYER_NAMES[type],
+    visible: true,
+    locked: false,
+    printable: true,
+    objects: [],
+    colorMode: spot ? 'SPOT' : 'PROCESS',
+    spotColorName: type === 'WHITE_UNDERPRINT' ? 'WHITE' : type === 'VARNISH' ? 'VARNISH' : undefined,
+    overprint: type === 'VARNISH',
+    knockout: !spot,
+  }
+}
+
+/** Vrstvy novej etikety – prvá v poli je navrchu */
+export function createDefaultLayers(): Layer[] {
+  return [
+    createLayer('LOGO', 'layer_logo'),
+    createLayer('TEXT', 'layer_text'),
+    createLayer('BARCODE', 'layer_barcode'),
+    createLayer('WHITE_UNDERPRINT', 'layer_white'),
+  ]
+}
+
+/** Presun vrstvy v poradí (index 0 = navrchu) */
+export function reorderLayers(layers: Layer[], fromIndex: number, toIndex: number): Layer[] {
+  if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0 || fromIndex >= layers.length || toIndex >= layers.length) {
+    return layers
+  }
+  const next = [...layers]
+  const [moved] = next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, moved)
+  return next
+}
+
+export function updateLayer(layers: Layer[], layerId: string, updates: Partial<Layer>): Layer[] {
+  return layers.map(layer => (layer.id === layerId ? { ...layer, ...updates } : layer))
+}
+
+/* =====================
+ * OBJEKTY
+ * ===================== */
+
+const OBJECT_NAMES: Record<ObjectType, string> = {
+  barcode: 'Čiarový kód',
+  qrcode: 'QR kód',
+  text: 'Text',
+  image: 'Obrázok',
+  rectangle: 'Obdĺžnik',
+  ellipse: 'Elipsa',
+  line: 'Čiara',
+}
+
+/** Nový objekt daného typu v strede etikety */
+export function createLabelObject(type: ObjectType, layerType: LayerType, label: LabelBounds): LabelObject {
+  const widthMm = Math.max(MIN_OBJECT_SIZE_MM, Math.min(label.widthMm * 0.6, type === 'qrcode' ? 20 : 40))
+  const heightMm =
+    type === 'qrcode' ? widthMm : type === 'line' ? 2 : type === 'text' ? 6 : Math.min(label.heightMm * 0.5, 20)
+
+  const base: LabelObject = {
+    id: createObjectId('obj'),
+    type,
+    name: OBJECT_NAMES[type],
+    layer: layerType,
+    xMm: roundMm((label.widthMm - widthMm) / 2),
+    yMm: roundMm((label.heightMm - heightMm) / 2),
+    widthMm: roundMm(widthMm),
+    heightMm: roundMm(heightMm),
+    rotation: 0,
+    horizontalAlign: 'left',
+    verticalAlign: 'top',
+    fillColor: '#000000',
+    strokeColor: '#000000',
+    strokeWidthMm: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    printable: true,
+  }
+
+  switch (type) {
+    case 'barcode':
+    case 'qrcode': {
+      // QR kód je čiarový kód s 2D symbolikou
+      const barcode: BarcodeObject = {
+        ...base,
+        type: 'barcode',
+        codeType: type === 'qrcode' ? 'QR' : 'CODE128',
+        value: type === 'qrcode' ? 'https://example.com' : '12345678',
+        fillColor: '#ffffff',
+        xDimMm: 0.33,
+        barHeightMm: heightMm,
+        magnificationPercent: 100,
+        barWidthReductionMm: 0,
+        quietZoneMm: 0,
+        showHrText: type !== 'qrcode',
+        hrFontFamily: 'OCR-B, monospace',
+        hrFontSizePt: 8,
+        hrTextColor: '#000000',
+        whiteBoxEnabled: false,
+        whiteBoxPaddingMm: 1,
+        whiteBoxCornerRadiusMm: 0,
+      }
+      return barcode
+    }
+    case 'text': {
+      const text: TextObject = {
+        ...base,
+        type: 'text',
+        content: 'Text',
+        fontFamily: 'Arial, sans-serif',
+        fontSizePt: 10,
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        lineHeightPercent: 120,
+        letterSpacingPt: 0,
+        textTransform: 'none',
+      }
+      return text
+    }
+    case 'image': {
+      const image: ImageObject = { ...base, type: 'image', src: '', fit: 'contain' }
+      return image
+    }
+    default: {
+      const shape: ShapeObject = {
+        ...base,
+        type,
+        fillColor: type === 'line' ? 'transparent' : '#e2e8f0',
+        strokeWidthMm: type === 'line' ? 0.5 : 0.25,
+        cornerRadiusMm: 0,
+      }
+      return shape
+    }
+  }
+}
+
+/** Objekt a jeho vrstva podľa id */
+export function findLabelObject(
+  layers: Layer[],
+  objectId: string | null,
+): { layer: Layer; object: LabelObject; index: number } | null {
+  if (!objectId) return null
+  for (const layer of layers) {
+    const index = layer.objects.findIndex(obj => obj.id === objectId)
+    if (index >= 0) return { layer, object: layer.objects[index], index }
+  }
+  return null
+}
+
+export function addLabelObject(layers: Layer[], layerId: string, object: LabelObject): Layer[] {
+  return layers.map(layer =>
+    layer.id === layerId ? { ...layer, objects: [...layer.objects, { ...object, layer: layer.type }] } : layer,
+  )
+}
+
+export function updateLabelObject(layers: Layer[], objectId: string, updates: Partial<LabelObject>): Layer[] {
+  return layers.map(layer =>
+    layer.objects.some(obj => obj.id === objectId)
+      ? { ...layer, objects: layer.objects.map(obj => (obj.id === objectId ? { ...obj, ...updates } : obj)) }
+      : layer,
+  )
+}
+
+export function removeLabelObject(layers: Layer[], objectId: string): Layer[] {
+  return layers.map(layer =>
+    layer.objects.some(obj => obj.id === objectId)
+      ? { ...layer, objects: layer.objects.filter(obj => obj.id !== objectId) }
+      : layer,
+  )
+}
+
+/** Kópia objektu posunutá o `offsetMm`, vložená hneď nad originál */
+export function duplicateLabelObject(
+  layers: Layer[],
+  objectId: string,
+  offsetMm = 2,
+): { layers: Layer[]; id: string } | null {
+  const found = findLabelObject(layers, objectId)
+  if (!found) return null
+  const copy: LabelObject = {
+    ...found.object,
+    id: createObjectId('obj'),
+    name: `${found.object.name} (kópia)`,
+    xMm: roundMm(found.object.xMm + offsetMm),
+    yMm: roundMm(found.object.yMm + offsetMm),
+    locked: false,
+  }
+  const objects = [...found.layer.objects]
+  objects.splice(found.index + 1, 0, copy)
+  return { layers: layers.map(layer => (layer.id === found.layer.id ? { ...layer, objects } : layer)), id: copy.id }
+}
+
+export type ZOrderAction = 'FRONT' | 'FORWARD' | 'BACKWARD' | 'BACK'
+
+/** Poradie objektu vo vrstve – posledný v poli sa kreslí navrchu */
+export function reorderLabelObject(layers: Layer[], objectId: string, action: ZOrderAction): Layer[] {
+  const found = findLabelObject(layers, objectId)
+  if (!found) return layers
+  const last = found.layer.objects.length - 1
+  const target =
+    action === 'FRONT' ? last
+    : action === 'BACK' ? 0
+    : action === 'FORWARD' ? Math.min(last, found.index + 1)
+    : Math.max(0, found.index - 1)
+  if (target === found.index) return layers
+
+  const objects = [...found.layer.objects]
+  objects.splice(found.index, 1)
+  objects.splice(target, 0, found.object)
+  return layers.map(layer => (layer.id === found.layer.id ? { ...layer, objects } : layer))
+}
+
+/** Presun objektu do inej vrstvy (navrch jej objektov) */
+export function moveLabelObjectToLayer(layers: Layer[], objectId: string, layerId: string): Layer[] {
+  const found = findLabelObject(layers, objectId)
+  if (!found || found.layer.id === layerId) return layers
+  const target = layers.find(layer => layer.id === layerId)
+  if (!target) return layers
+  return addLabelObject(removeLabelObject(layers, objectId), layerId, found.object)
+}
+
+const TEXT_TRANSFORMS: Record<TextObject['textTransform'], (text: string) => string> = {
+  none: text => text,
+  uppercase: text => text.toUpperCase(),
+  lowercase: text => text.toLowerCase(),
+}
+
+/** Riadky textového objektu tak, ako sa vykreslia (po zmene veľkosti písmen) */
+export function labelTextLines(obj: TextObject): string[] {
+  return TEXT_TRANSFORMS[obj.textTransform](obj.content).split('\n')
+}
+
+/* =====================
+ * ROZMER ČIAROVÉHO KÓDU
+ * ===================== */
+
+/** Šírka modulu v mm – X-dimenzia pri zväčšení */
+export function barcodeModuleMm(obj: BarcodeObject): number {
+  return (obj.xDimMm * obj.magnificationPercent) / 100
+}
+
+/**
+ * Rozmer kódu podľa symbolu: šírka sú moduly × modul, lineárny kód má
+ * výšku čiar `barHeightMm` so zväčšením, 2D kód štvorcové moduly.
+ * HR text je pod symbolom.
+ */
+export function barcodeObjectSize(
+  obj: BarcodeObject,
+  symbol: { widthModules: number; heightModules: number },
+  linear: boolean,
+): { widthMm: number; heightMm: number; symbolHeightMm: number } {
+  const moduleMm = barcodeModuleMm(obj)
+  const symbolHeightMm = linear ? (obj.barHeightMm * obj.magnificationPercent) / 100 : symbol.heightModules * moduleMm
+  const hrText = obj.hrCustomText || obj.value
+  const hrHeightMm = obj.showHrText && hrText ? obj.hrFontSizePt * PT_TO_MM * HR_LINE_HEIGHT : 0
+  return {
+    widthMm: roundMm(symbol.widthModules * moduleMm),
+    heightMm: roundMm(symbolHeightMm + hrHeightMm),
+    symbolHeightMm,
+  }
+}
+
+/* =====================
+ * GEOMETRIA
+ * ===================== */
+
+/** Zaokrúhlenie na stotiny mm */
+export function roundMm(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Obdĺžnik referenčného boxu v súradniciach orezu */
+export function referenceBoxRect(label: LabelBounds, box: ReferenceBox): LabelRect {
+  const inset = box === 'SAFE' ? label.safeMarginMm : box === 'BLEED' ? -label.bleedMm : 0
+  return {
+    xMm: inset,
+    yMm: inset,
+    widthMm: label.widthMm - 2 * inset,
+    heightMm: label.heightMm - 2 * inset,
+  }
+}
+
+/** Osovo zarovnaný obal objektu vrátane rotácie */
+export function objectBounds(obj: Pick<LabelObject, 'xMm' | 'yMm' | 'widthMm' | 'heightMm' | 'rotation'>): LabelRect {
+  const angle = (obj.rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(angle))
+  const sin = Math.abs(Math.sin(angle))
+  const widthMm = obj.widthMm * cos + obj.heightMm * sin
+  const heightMm = obj.widthMm * sin + obj.heightMm * cos
+  const cx = obj.xMm + obj.widthMm / 2
+  const cy = obj.yMm + obj.heightMm / 2
+  return { xMm: cx - widthMm / 2, yMm: cy - heightMm / 2, widthMm, heightMm }
+}
+
+/**
+ * Pozícia objektu zarovnaného k boxu. Zarovnáva sa obal objektu
+ * (aj otočeného); nezadaná os sa nemení.
+ */
+export function alignLabelObject(
+  obj: LabelObject,
+  box: LabelRect,
+  horizontal?: HorizontalAlign,
+  vertical?: VerticalAlign,
+): Partial<LabelObject> {
+  const bounds = objectBounds(obj)
+  const updates: Partial<LabelObject> = {}
+  if (horizontal) {
+    const x =
+      horizontal === 'left' ? box.xMm
+      : horizontal === 'right' ? box.xMm + box.widthMm - bounds.widthMm
+      : box.xMm + (box.widthMm - bounds.widthMm) / 2
+    updates.xMm = roundMm(obj.xMm + x - bounds.xMm)
+    updates.horizontalAlign = horizontal
+  }
+  if (vertical) {
+    const y =
+      vertical === 'top' ? box.yMm
+      : vertical === 'bottom' ? box.yMm + box.heightMm - bounds.heightMm
+      : box.yMm + (box.heightMm - bounds.heightMm) / 2
+    updates.yMm = roundMm(obj.yMm + y - bounds.yMm)
+    updates.verticalAlign = vertical
+  }
+  return updates
+}
+
+/* =====================
+ * SNAP
+ * ===================== */
+
+/** Rohy, stredy hrán a stred orezu a bezpečnej zóny */
+export function labelSnapPoints(label: LabelBounds): SnapPoint[] {
+  const points: SnapPoint[] = []
+  const refs: ReferenceBox[] = ['TRIM', 'SAFE']
+
+  refs.forEach(ref => {
+    const { xMm: x, yMm: y, widthMm: w, heightMm: h } = referenceBoxRect(label, ref)
+
+    // Rohy
+    points.push({ id: `${ref}_TL`, name: 'Ľavý horný', xMm: x, yMm: y, reference: ref })
+    points.push({ id: `${ref}_TR`, name: 'Pravý horný', xMm: x + w, yMm: y, reference: ref })
+    points.push({ id: `${ref}_BL`, name: 'Ľavý dolný', xMm: x, yMm: y + h, reference: ref })
+    points.push({ id: `${ref}_BR`, name: 'Pravý dolný', xMm: x + w, yMm: y + h, reference: ref })
+
+    // Stredy hrán
+    points.push({ id: `${ref}_TC`, name: 'Horný stred', xMm: x + w / 2, yMm: y, reference: ref })
+    points.push({ id: `${ref}_BC`, name: 'Dolný stred', xMm: x + w / 2, yMm: y + h, reference: ref })
+    points.push({ id: `${ref}_LC`, name: 'Ľavý stred', xMm: x, yMm: y + h / 2, reference: ref })
+    points.push({ id: `${ref}_RC`, name: 'Pravý stred', xMm: x + w, yMm: y + h / 2, reference: ref })
+
+    // Stred
+    points.push({ id: `${ref}_C`, name: 'Stred', xMm: x + w / 2, yMm: y + h / 2, reference: ref })
+  })
+
+  return points
+}
+
+/** Súradnice, ku ktorým sa prichytávajú hrany a stred presúvaného objektu */
+export type SnapTargets = { x: number[]; y: number[] }
+
+/** Snap body etikety a hrany / stredy ostatných viditeľných objektov */
+export function collectSnapTargets(snapPoints: SnapPoint[], layers: Layer[], excludeId: string): SnapTargets {
+  const x = new Set(snapPoints.map(p => p.xMm))
+  const y = new Set(snapPoints.map(p => p.yMm))
+  for (const layer of layers) {
+    if (!layer.visible) continue
+    for (const obj of layer.objects) {
+      if (obj.id === excludeId || !obj.visible) continue
+      const b = objectBounds(obj)
+      x.add(b.xMm).add(b.xMm + b.widthMm / 2).add(b.xMm + b.widthMm)
+      y.add(b.yMm).add(b.yMm + b.heightMm / 2).add(b.yMm + b.heightMm)
+    }
+  }
+  return { x: [...x], y: [...y] }
+}
+
+/** Najmenší posun, ktorým sa niektorá z hodnôt dostane na cieľ v tolerancii */
+function nearestSnap(values: number[], targets: number[], toleranceMm: number): { delta: number; at: number } | null {
+  let best: { delta: number; at: number } | null = null
+  for (const value of values) {
+    for (const target of targets) {
+      const delta = target - value
+      if (Math.abs(delta) <= toleranceMm && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, at: target }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Prichytí presúvaný objekt hranou alebo stredom k cieľom; vráti novú
+ * pozíciu a súradnice vodiacich čiar, ku ktorým sa prichytil
+ */
+export function snapObjectPosition(
+  obj: Pick<LabelObject, 'xMm' | 'yMm' | 'widthMm' | 'heightMm' | 'rotation'>,
+  targets: SnapTargets,
+  toleranceMm: number,
+): { xMm: number; yMm: number; guideX: number | null; guideY: number | null } {
+  const b = objectBounds(obj)
+  const sx = nearestSnap([b.xMm, b.xMm + b.widthMm / 2, b.xMm + b.widthMm], targets.x, toleranceMm)
+  const sy = nearestSnap([b.yMm, b.yMm + b.heightMm / 2, b.yMm + b.heightMm], targets.y, toleranceMm)
+  return {
+    xMm: obj.xMm + (sx?.delta ?? 0),
+    yMm: obj.yMm + (sy?.delta ?? 0),
+    guideX: sx?.at ?? null,
+    guideY: sy?.at ?? null,
+  }
+}
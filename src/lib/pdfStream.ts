@@ -0,0 +1,227 @@
+// src/lib/pdfStream.ts
+// Inkrementálny zápis PDF – objekty sa zapisujú postupne do výstupu
+// (súbor cez File System Access API alebo Blob časti), v pamäti zostávajú
+// len offsety objektov pre xref tabuľku
+
+/* =====================
+ * VÝSTUP (SINK)
+ * ===================== */
+
+export type PdfSink = {
+  write: (chunk: Uint8Array) => Promise<void>
+  /** Dokončí výstup (uloží súbor / spustí stiahnutie) */
+  close: () => Promise<void>
+  /** Zahodí rozpísaný výstup */
+  abort: () => Promise<void>
+}
+
+type SaveFilePicker = (options: {
+  suggestedName?: string
+  types?: { description: string; accept: Record<string, string[]> }[]
+}) => Promise<FileSystemFileHandle>
+
+/** Priamy zápis na disk je dostupný (Chromium) */
+export function canStreamToFile(): boolean {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window
+}
+
+/**
+ * Zápis priamo do súboru vybraného používateľom – PDF sa nikdy nedrží
+ * v pamäti celé. Null, ak prehliadač API nepodporuje alebo používateľ
+ * výber zrušil.
+ */
+export async function createFilePdfSink(fileName: string): Promise<PdfSink | null> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+  if (!picker) return null
+
+  let handle: FileSystemFileHandle
+  try {
+    handle = await picker({
+      suggestedName: fileName,
+      types: [{ description: 'PDF', accept: { 'application/pdf': ['.pdf'] } }],
+    })
+  } catch {
+    // Používateľ zatvoril dialóg
+    return null
+  }
+
+  const writable = await handle.createWritable()
+  return {
+    write: chunk => writable.write(chunk as Uint8Array<ArrayBuffer>),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  }
+}
+
+/**
+ * Záložný výstup – každý zapísaný blok je samostatný Blob (prehliadač ho
+ * môže odložiť mimo JS heap), na konci sa spojí a stiahne
+ */
+export function createBlobPdfSink(fileName: string): PdfSink {
+  let parts: Blob[] = []
+  return {
+    write: async chunk => {
+      parts.push(new Blob([chunk as Uint8Array<ArrayBuffer>]))
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: 'application/pdf' }))
+      parts = []
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      a.click()
+      URL.revokeObjectURL(url)
+    },
+    abort: async () => {
+      parts = []
+    },
+  }
+}
+
+/* =====================
+ * ZAPISOVAČ
+ * ===================== */
+
+export type PdfStreamWriter = {
+  /** Rezervuje číslo objektu (objekt sa môže zapísať neskôr) */
+  allocate: () => number
+  writeObject: (id: number, body: string) => Promise<void>
+  /** Stream objekt (text alebo binárne dáta); `compress` použije FlateDecode, ak ho prehliadač vie */
+  writeStream: (id: number, dictionary: string, data: string | Uint8Array, compress?: boolean) => Promise<void>
+  /** Xref tabuľka, trailer a zatvorenie výstupu */
+  finish: (rootId: number, infoId?: number) => Promise<void>
+  abort: () => Promise<void>
+  bytesWritten: () => number
+}
+
+/** Veľkosť bloku, po ktorej sa buffer odošle do výstupu */
+const FLUSH_BYTES = 1 << 20
+
+const encoder = new TextEncoder()
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export function createPdfStreamWriter(sink: PdfSink): PdfStreamWriter {
+  // offsets[id] = pozícia objektu vo výstupe, -1 = rezervovaný, ešte nezapísaný
+  const offsets: number[] = [0]
+  let pending: Uint8Array[] = []
+  let pendingBytes = 0
+  let position = 0
+  const canCompress = typeof CompressionStream !== 'undefined'
+
+  const flush = async () => {
+    if (pendingBytes === 0) return
+    const chunk = new Uint8Array(pendingBytes)
+    let offset = 0
+    for (const part of pending) {
+      chunk.set(part, offset)
+      offset += part.length
+    }
+    pending = []
+    pendingBytes = 0
+    await sink.write(chunk)
+  }
+
+  const append = async (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    pending.push(bytes)
+    pendingBytes += bytes.length
+    position += bytes.length
+    if (pendingBytes >= FLUSH_BYTES) await flush()
+  }
+
+  const begin = (id: number) => {
+    if (offsets[id] !== -1) throw new Error(`PDF object ${id} is not allocated or already written`)
+    offsets[id] = position
+  }
+
+  // Hlavička s binárnym komentárom (PDF 7.5.2)
+  pending.push(encoder.encode('%PDF-1.7\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+  pendingBytes = position = pending[0].length + pending[1].length
+
+  return {
+    allocate: () => {
+      offsets.push(-1)
+      return offsets.length - 1
+    },
+    writeObject: async (id, body) => {
+      begin(id)
+      await append(`${id} 0 obj\n${body}\nendobj\n`)
+    },
+    writeStream: async (id, dictionary, data, compress = true) => {
+      begin(id)
+      let bytes: Uint8Array = typeof data === 'string' ? encoder.encode(data) : data
+      let filter = ''
+      if (compress && canCompress) {
+        bytes = await deflate(bytes)
+        filter = ' /Filter /FlateDecode'
+      }
+      await append(`${id} 0 obj\n<< ${dictionary}${filter} /Length ${bytes.length} >>\nstream\n`)
+      await append(bytes)
+      await append('\nendstream\nendobj\n')
+    },
+    finish: async (rootId, infoId) => {
+      const missing = offsets.findIndex((offset, id) => id > 0 && offset < 0)
+      if (missing > 0) throw new Error(`PDF object ${missing} was allocated but never written`)
+
+      const xrefPosition = position
+      // Položka xref má presne 20 bajtov vrátane konca riadku, zapisuje sa po blokoch
+      await append(`xref\n0 ${offsets.length}\n0000000000 65535 f \n`)
+      for (let start = 1; start < offsets.length; start += 4096) {
+        let block = ''
+        for (let id = start; id < Math.min(start + 4096, offsets.length); id++) {
+          block += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+        }
+        await append(block)
+      }
+      const info = infoId ? ` /Info ${infoId} 0 R` : ''
+      await append(`trailer\n<< /Size ${offsets.length} /Root ${rootId} 0 R${info} >>\nstartxref\n${xrefPosition}\n%%EOF\n`)
+      await flush()
+      await sink.close()
+    },
+    abort: async () => {
+      pending = []
+      pendingBytes = 0
+      await sink.abort()
+    },
+    bytesWritten: () => position,
+  }
+}
+
+/** Znaky cp1252 (WinAnsiEncoding) na bajtoch 0x80–0x9F, medzera = nepoužitý bajt */
+const CP1252_80_9F = '€ ‚ƒ„…†‡ˆ‰Š‹Œ Ž  \u2018\u2019\u201C\u201D•–—˜™š›œ žŸ'
+
+/** Bajt cp1252 pre znak, null ak ho kódovanie nepozná */
+function cp1252Byte(char: string): number | null {
+  const code = char.codePointAt(0) ?? 0
+  if (code >= 0x20 && code <= 0x7e) return code
+  // 0xA0–0xFF je zhodné s Latin-1
+  if (code >= 0xa0 && code <= 0xff) return code
+  const index = code > 0x7e ? CP1252_80_9F.indexOf(char) : -1
+  return index >= 0 ? 0x80 + index : null
+}
+
+/**
+ * Textový reťazec PDF pre fonty s WinAnsiEncoding – znaky sa kódujú do
+ * cp1252, bajty nad 0x7F ako osmičkové escape, \ a zátvorky escapované.
+ * `?` len pre znaky, ktoré cp1252 nevie zobraziť (napr. ľ, č, ť).
+ */
+export function pdfString(text: string): string {
+  let out = ''
+  for (const char of text) {
+    const byte = cp1252Byte(char)
+    if (byte === null) out += '?'
+    else if (byte >= 0x80) out += `\\${byte.toString(8).padStart(3, '0')}`
+    else out += char === '\\' || char === '(' || char === ')' ? `\\${char}` : char
+  }
+  return `(${out})`
+}
+
+/** Číslo v PDF obsahu – najviac 3 desatinné miesta, bez exponentu */
+export function pdfNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
@@ -0,0 +1,332 @@
+// src/lib/randomSerial.ts
+// Náhodné sériové čísla (EU FMD) – kľúčovaná permutácia priestoru
+// abeceda^dĺžka, takže séria je bez kolízií, reprodukovateľná zo semienka
+// a záznam N sa dá vygenerovať priamo (dotlač poškodenej roly)
+import type { VdpRandomConfig } from '../types/barcodeTypes'
+import { CSET82 } from './gs1'
+
+export type RandomSerialIssue = {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export type RandomSerialAlphabet = {
+  id: 'NUMERIC' | 'ALNUM' | 'UNAMBIGUOUS'
+  label: string
+  chars: string
+}
+
+export const RANDOM_SERIAL_ALPHABETS: RandomSerialAlphabet[] = [
+  { id: 'NUMERIC', label: 'Číslice 0–9', chars: '0123456789' },
+  { id: 'ALNUM', label: 'A–Z, 0–9', chars: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ' },
+  { id: 'UNAMBIGUOUS', label: 'Bez zameniteľných (0/O, 1/I/L)', chars: '23456789ABCDEFGHJKMNPQRSTUVWXYZ' },
+]
+
+export const DEFAULT_RANDOM_CONFIG: VdpRandomConfig = {
+  seed: '',
+  alphabet: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  length: 12,
+  exclusions: [],
+}
+
+/** Delegované nariadenie (EÚ) 2016/161, čl. 4 – pravdepodobnosť uhádnutia < 1 : 10 000 */
+const FMD_MAX_GUESS_PROBABILITY = 1e-4
+const MAX_SERIAL_LENGTH = 50
+const ROUNDS = 8
+
+/* =====================
+ * KĽÚČOVANÁ PERMUTÁCIA
+ * ===================== */
+
+function mix32(value: number): number {
+  let h = value
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+/** 128-bitový kľúč zo semienka (4 × 32 bitov) */
+function deriveKey(seed: string): number[] {
+  const key = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a]
+  for (let i = 0; i < seed.length; i++) {
+    const code = seed.charCodeAt(i)
+    for (let k = 0; k < 4; k++) {
+      key[k] = mix32(key[k] ^ Math.imul(code + k + 1, 0x9e3779b1))
+    }
+  }
+  return key.map((word, k) => mix32(word ^ key[(k + 1) % 4] ^ seed.length))
+}
+
+type Permutation = {
+  size: bigint
+  forward: (position: bigint) => bigint
+  inverse: (value: bigint) => bigint
+}
+
+/**
+ * Feistelova sieť nad 2·h bitmi s „cycle walking“ – výsledky mimo
+ * [0, size) sa šifrujú znova, kým nepadnú do rozsahu (bijekcia na size)
+ */
+function createPermutation(size: bigint, key: number[]): Permutation {
+  const bits = Math.max(2, (size - 1n).toString(2).length)
+  const half = BigInt(Math.ceil(bits / 2))
+  const mask = (1n << half) - 1n
+  const words = Math.ceil(Number(half) / 32)
+
+  const round = (r: number, x: bigint): bigint => {
+    let input = x
+    let state = key[r % 4] ^ Math.imul(r + 1, 0x9e3779b1)
+    for (let w = 0; w < words; w++) {
+      state = mix32(state ^ Number(input & 0xffffffffn)) ^ key[(r + w + 1) % 4]
+      input >>= 32n
+    }
+    let output = 0n
+    for (let w = 0; w < words; w++) {
+      output = (output << 32n) | BigInt(mix32(state ^ Math.imul(w + 1, 0x85ebca6b) ^ key[(r + w) % 4]))
+    }
+    return output & mask
+  }
+
+  const encrypt = (x: bigint): bigint => {
+    let left = x >> half
+    let right = x & mask
+    for (let r = 0; r < ROUNDS; r++) {
+      const next = left ^ round(r, right)
+      left = right
+      right = next
+    }
+    return (left << half) | right
+  }
+
+  const decrypt = (x: bigint): bigint => {
+    let left = x >> half
+    let right = x & mask
+    for (let r = ROUNDS - 1; r >= 0; r--) {
+      const previous = right ^ round(r, left)
+      right = left
+      left = previous
+    }
+    return (left << half) | right
+  }
+
+  return {
+    size,
+    forward: position => {
+      let value = encrypt(position)
+      while (value >= size) value = encrypt(value)
+      return value
+    },
+    inverse: value => {
+      let position = decrypt(value)
+      while (position >= size) position = decrypt(position)
+      return position
+    },
+  }
+}
+
+/* =====================
+ * GENERÁTOR
+ * ===================== */
+
+export type RandomSerialGenerator = {
+  /** Počet čísel, ktoré sa dajú vygenerovať (priestor bez vylúčených) */
+  capacity: bigint
+  /** Sériové číslo záznamu (0-based); prázdny reťazec mimo kapacity */
+  at: (index: number) => string
+  /** Vylúčené hodnoty, ktoré abecedou alebo dĺžkou do priestoru nepatria */
+  ignoredExclusions: string[]
+}
+
+function encode(value: bigint, alphabet: string, length: number): string {
+  const base = BigInt(alphabet.length)
+  let rest = value
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    result = alphabet[Number(rest % base)] + result
+    rest /= base
+  }
+  return result
+}
+
+function decode(serial: string, alphabet: string, length: number): bigint | null {
+  if (serial.length !== length) return null
+  const base = BigInt(alphabet.length)
+  let value = 0n
+  for (const char of serial) {
+    const digit = alphabet.indexOf(char)
+    if (digit < 0) return null
+    value = value * base + BigInt(digit)
+  }
+  return value
+}
+
+/** Počet prvkov zoradeného poľa ≤ value (binárne vyhľadávanie) */
+function countAtMost(sorted: bigint[], value: bigint): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (sorted[middle] <= value) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+function createGenerator(config: VdpRandomConfig): RandomSerialGenerator {
+  const alphabet = [...new Set(config.alphabet)].join('')
+  const length = Math.max(1, Math.min(MAX_SERIAL_LENGTH, Math.floor(config.length)))
+  if (alphabet.length < 2) {
+    return { capacity: 0n, at: () => '', ignoredExclusions: [...config.exclusions] }
+  }
+
+  const size = BigInt(alphabet.length) ** BigInt(length)
+  const permutation = createPermutation(size, deriveKey(config.seed))
+
+  // Pozície vylúčených hodnôt v permutácii, vzostupne – pri generovaní sa preskočia
+  const ignoredExclusions: string[] = []
+  const excluded = new Set<bigint>()
+  for (const exclusion of config.exclusions) {
+    const value = decode(exclusion.trim(), alphabet, length)
+    if (value === null) {
+      if (exclusion.trim()) ignoredExclusions.push(exclusion)
+      continue
+    }
+    excluded.add(permutation.inverse(value))
+  }
+  const skipped = [...excluded].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  const capacity = size - BigInt(skipped.length)
+
+  return {
+    capacity,
+    ignoredExclusions,
+    at: index => {
+      if (!Number.isInteger(index) || index < 0 || BigInt(index) >= capacity) return ''
+      // Najmenšia pozícia p, pre ktorú p − (počet vylúčených ≤ p) = index
+      let position = BigInt(index)
+      for (;;) {
+        const next = BigInt(index + countAtMost(skipped, position))
+        if (next === position) break
+        position = next
+      }
+      return encode(permutation.forward(position), alphabet, length)
+    },
+  }
+}
+
+const GENERATOR_CACHE_SIZE = 8
+const generatorCache = new Map<string, RandomSerialGenerator>()
+
+/** Generátor z cache – náhľad a export volajú `at` pre každý záznam */
+export function getRandomSerialGenerator(config: VdpRandomConfig): RandomSerialGenerator {
+  const cacheKey = JSON.stringify([config.seed, config.alphabet, config.length, config.exclusions])
+  const cached = generatorCache.get(cacheKey)
+  if (cached) return cached
+
+  const generator = createGenerator(config)
+  if (generatorCache.size >= GENERATOR_CACHE_SIZE) {
+    generatorCache.delete(generatorCache.keys().next().value as string)
+  }
+  generatorCache.set(cacheKey, generator)
+  return generator
+}
+
+export function randomSerialAt(config: VdpRandomConfig, index: number): string {
+  return getRandomSerialGenerator(config).at(index)
+}
+
+/** Nové semienko – 128 bitov z kryptografického zdroja prehliadača */
+export function createRandomSerialSeed(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/* =====================
+ * VALIDÁCIA
+ * ===================== */
+
+export function validateRandomSerialConfig(config: VdpRandomConfig, count: number): RandomSerialIssue[] {
+  const issues: RandomSerialIssue[] = []
+
+  if (!config.seed.trim()) {
+    issues.push({ severity: 'error', message: 'Seed is required – without it the run cannot be regenerated' })
+  }
+  if (new Set(config.alphabet).size < 2) {
+    issues.push({ severity: 'error', message: 'Alphabet must contain at least 2 distinct characters' })
+    return issues
+  }
+  if (new Set(config.alphabet).size !== config.alphabet.length) {
+    issues.push({ severity: 'warning', message: 'Alphabet contains duplicate characters; duplicates are ignored' })
+  }
+  if (!Number.isInteger(config.length) || config.length < 1 || config.length > MAX_SERIAL_LENGTH) {
+    issues.push({ severity: 'error', message: `Serial length must be between 1 and ${MAX_SERIAL_LENGTH}` })
+    return issues
+  }
+  if (config.length > 20) {
+    issues.push({ severity: 'warning', message: 'GS1 AI (21) allows at most 20 characters' })
+  }
+  const outsideCset = [...new Set(config.alphabet)].filter(char => !CSET82.includes(char))
+  if (outsideCset.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `Characters ${outsideCset.join(' ')} are outside GS1 CSET 82 and not allowed in AI (21)`,
+    })
+  }
+
+  const generator = getRandomSerialGenerator(config)
+  if (generator.ignoredExclusions.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `${generator.ignoredExclusions.length} excluded value(s) do not match the alphabet or length and are ignored`,
+    })
+  }
+  if (BigInt(Math.max(0, count)) > generator.capacity) {
+    issues.push({
+      severity: 'error',
+      message: `Run of ${count} exceeds the ${generator.capacity} available serials`,
+    })
+  } else {
+    const size = BigInt(new Set(config.alphabet).size) ** BigInt(config.length)
+    // Pravdepodobnosť uhádnutia platného čísla = počet / veľkosť priestoru
+    const probability = count / Number(size)
+    if (probability > FMD_MAX_GUESS_PROBABILITY) {
+      issues.push({
+        severity: 'warning',
+        message: `Guess probability ${probability.toExponential(1)} exceeds 1 in 10 000 (EU FMD) – use a longer serial or larger alphabet`,
+      })
+    }
+  }
+  return issues
+}
+
+/* =====================
+ * EXPORT ZOZNAMU
+ * ===================== */
+
+/**
+ * Zoznam vygenerovaných čísel pre upload do repozitára. Semienko sa do
+ * výstupu nezapisuje – kto ho pozná, vie sériu zrekonštruovať.
+ */
+export function randomSerialList(config: VdpRandomConfig, start: number, count: number): string[] {
+  const generator = getRandomSerialGenerator(config)
+  const serials: string[] = []
+  for (let i = start; i < start + count; i++) {
+    const serial = generator.at(i)
+    if (!serial) break
+    serials.push(serial)
+  }
+  return serials
+}
+
+export function randomSerialsToText(serials: string[]): string {
+  return serials.join('\r\n')
+}
+
+export function randomSerialsToCsv(serials: string[], start = 0): string {
+  const lines = ['Index;Serial']
+  serials.forEach((serial, i) => lines.push(`${start + i + 1};"${serial.replace(/"/g, '""')}"`))
+  return lines.join('\r\n')
+}
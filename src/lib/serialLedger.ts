@@ -0,0 +1,345 @@
+// src/lib/serialLedger.ts
+// Ledger sériových čísel – rezervované a exportované rozsahy podľa GTIN,
+// šarže a prefixu, kontrola prekrytia pred tlačou a auditný export/import
+import type { CodeJobId, SerialRange } from '../types/jobTypes'
+
+const STORAGE_KEY = 'gpcs_codestudio_serial_ledger_v1'
+
+/** Identifikátor formátu exportovaného ledgeru */
+export const SERIAL_LEDGER_FORMAT = 'gpcs-serial-ledger'
+const SERIAL_LEDGER_VERSION = 1
+
+type LedgerState = {
+  ranges: SerialRange[]
+}
+
+export type SerialRangeQuery = {
+  gtin: string
+  lot: string
+  prefix: string
+  start: number
+  end: number
+  jobId?: CodeJobId
+  jobName?: string
+}
+
+export type SerialLedgerIssue = {
+  /** error = sériové čísla už boli vytlačené, warning = rezervované iným jobom */
+  severity: 'error' | 'warning'
+  range: SerialRange
+  message: string
+}
+
+export type SerialLedgerImportResult = {
+  added: number
+  skipped: number
+  issues: string[]
+}
+
+/* =====================
+ * ÚLOŽISKO
+ * ===================== */
+
+function readRaw(): LedgerState {
+  if (typeof window === 'undefined') {
+    return { ranges: [] }
+  }
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { ranges: [] }
+    const parsed = JSON.parse(raw) as LedgerState
+    if (!Array.isArray(parsed.ranges)) return { ranges: [] }
+    return { ranges: parsed.ranges }
+  } catch {
+    return { ranges: [] }
+  }
+}
+
+// Na rozdiel od jobov sa chyba zápisu nezahadzuje – stratený záznam
+// v ledgeri znamená riziko duplicitných sériových čísel
+function writeRaw(state: LedgerState) {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+}
+
+function createId(): string {
+  return `serial_${new Date().toISOString()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** GTIN ako 14 číslic (GTIN-8/12/13 doplnené nulami), iný vstup len orezaný */
+export function normalizeLedgerGtin(gtin: string): string {
+  const digits = gtin.trim()
+  return /^(\d{8}|\d{12,14})$/.test(digits) ? digits.padStart(14, '0') : digits
+}
+
+function formatRange(range: { prefix: string; start: number; end: number }): string {
+  return range.start === range.end
+    ? `${range.prefix}${range.start}`
+    : `${range.prefix}${range.start}–${range.prefix}${range.end}`
+}
+
+/* =====================
+ * DOTAZY
+ * ===================== */
+
+export function listSerialRanges(): SerialRange[] {
+  return readRaw().ranges.sort(
+    (a, b) => a.gtin.localeCompare(b.gtin) || a.prefix.localeCompare(b.prefix) || a.start - b.start,
+  )
+}
+
+/**
+ * Prekrytie rozsahu s ledgerom. Jedinečnosť platí v rámci GTIN a prefixu
+ * bez ohľadu na šaržu; vlastné rezervácie jobu sa ignorujú.
+ */
+export function findSerialOverlaps(
+  query: SerialRangeQuery,
+  ranges: SerialRange[] = readRaw().ranges,
+): SerialLedgerIssue[] {
+  const gtin = normalizeLedgerGtin(query.gtin)
+  const issues: SerialLedgerIssue[] = []
+
+  for (const range of ranges) {
+    if (range.gtin !== gtin || range.prefix !== query.prefix) continue
+    if (range.end < query.start || range.start > query.end) continue
+    if (range.status === 'RESERVED' && query.jobId && range.jobId === query.jobId) continue
+
+    const overlap = formatRange({
+      prefix: range.prefix,
+      start: Math.max(range.start, query.start),
+      end: Math.min(range.end, query.end),
+    })
+    const owner = [range.jobName, range.lot && `lot ${range.lot}`].filter(Boolean).join(', ')
+    issues.push(
+      range.status === 'EXPORTED'
+        ? {
+            severity: 'error',
+            range,
+            message: `Serials ${overlap} of GTIN ${gtin} were already exported${owner ? ` (${owner})` : ''} on ${(range.exportedAt ?? range.createdAt).slice(0, 10)}`,
+          }
+        : {
+            severity: 'warning',
+            range,
+            message: `Serials ${overlap} of GTIN ${gtin} are reserved${owner ? ` by ${owner}` : ''}`,
+          },
+    )
+  }
+  return issues
+}
+
+/** Prvé číslo za všetkými použitými rozsahmi GTIN a prefixu */
+export function nextFreeSerial(gtin: string, prefix: string): number {
+  const normalized = normalizeLedgerGtin(gtin)
+  return readRaw().ranges
+    .filter(r => r.gtin === normalized && r.prefix === prefix)
+    .reduce((next, r) => Math.max(next, r.end + 1), 1)
+}
+
+function validateQuery(query: SerialRangeQuery): string | null {
+  if (!normalizeLedgerGtin(query.gtin)) return 'GTIN is required for the serial ledger'
+  if (!Number.isInteger(query.start) || !Number.isInteger(query.end) || query.start < 0) {
+    return 'Serial range must consist of non-negative whole numbers'
+  }
+  if (query.end < query.start) return 'Serial range end is before its start'
+  return null
+}
+
+/* =====================
+ * ZÁPIS
+ * ===================== */
+
+/**
+ * Rezervuje rozsah pre job. Akékoľvek prekrytie (exportované aj cudzia
+ * rezervácia) rezerváciu odmietne.
+ */
+export function reserveSerialRange(
+  query: SerialRangeQuery,
+  note?: string,
+): { range: SerialRange | null; issues: SerialLedgerIssue[]; error?: string } {
+  const error = validateQuery(query)
+  if (error) return { range: null, issues: [], error }
+
+  const state = readRaw()
+  const issues = findSerialOverlaps(query, state.ranges)
+  if (issues.length > 0) return { range: null, issues }
+
+  const range: SerialRange = {
+    id: createId(),
+    gtin: normalizeLedgerGtin(query.gtin),
+    lot: query.lot.trim(),
+    prefix: query.prefix,
+    start: query.start,
+    end: query.end,
+    status: 'RESERVED',
+    jobId: query.jobId,
+    jobName: query.jobName,
+    createdAt: new Date().toISOString(),
+    note,
+  }
+  state.ranges.push(range)
+  writeRaw(state)
+  return { range, issues: [] }
+}
+
+/**
+ * Zaznamená exportované (vytlačené) sériové čísla. Nadväzujúci export
+ * toho istého jobu a šarže (pokračovanie po zrušení) predĺži posledný záznam.
+ */
+export function recordSerialExport(query: SerialRangeQuery, note?: string): SerialRange {
+  const error = validateQuery(query)
+  if (error) throw new Error(error)
+
+  const state = readRaw()
+  const now = new Date().toISOString()
+  const gtin = normalizeLedgerGtin(query.gtin)
+  const lot = query.lot.trim()
+
+  const previous = state.ranges.find(r =>
+    r.status === 'EXPORTED' &&
+    r.gtin === gtin &&
+    r.lot === lot &&
+    r.prefix === query.prefix &&
+    r.jobId === query.jobId &&
+    r.end + 1 === query.start,
+  )
+  if (previous) {
+    previous.end = query.end
+    previous.exportedAt = now
+    writeRaw(state)
+    return previous
+  }
+
+  const range: SerialRange = {
+    id: createId(),
+    gtin,
+    lot,
+    prefix: query.prefix,
+    start: query.start,
+    end: query.end,
+    status: 'EXPORTED',
+    jobId: query.jobId,
+    jobName: query.jobName,
+    createdAt: now,
+    exportedAt: now,
+    note,
+  }
+  state.ranges.push(range)
+  writeRaw(state)
+  return range
+}
+
+/** Zruší rezerváciu; exportované rozsahy sú auditný záznam a nemažú sa */
+export function releaseSerialRange(id: string): boolean {
+  const state = readRaw()
+  const index = state.ranges.findIndex(r => r.id === id && r.status === 'RESERVED')
+  if (index < 0) return false
+  state.ranges.splice(index, 1)
+  writeRaw(state)
+  return true
+}
+
+/* =====================
+ * EXPORT / IMPORT
+ * ===================== */
+
+export function exportSerialLedger(): string {
+  return JSON.stringify(
+    {
+      format: SERIAL_LEDGER_FORMAT,
+      version: SERIAL_LEDGER_VERSION,
+      exportedAt: new Date().toISOString(),
+      ranges: listSerialRanges(),
+    },
+    null,
+    2,
+  )
+}
+
+/** CSV pre audit – jeden riadok na rozsah */
+export function serialLedgerToCsv(ranges: SerialRange[] = listSerialRanges()): string {
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const lines = [
+    ['GTIN', 'Lot', 'Prefix', 'First serial', 'Last serial', 'Count', 'Status', 'Job', 'Created', 'Exported', 'Note'].join(';'),
+  ]
+  for (const range of ranges) {
+    lines.push([
+      range.gtin,
+      range.lot,
+      range.prefix,
+      range.start,
+      range.end,
+      range.end - range.start + 1,
+      range.status,
+      range.jobName ?? range.jobId ?? '',
+      range.createdAt,
+      range.exportedAt ?? '',
+      range.note ?? '',
+    ].map(quote).join(';'))
+  }
+  return lines.join('\r\n')
+}
+
+function isSerialRange(value: unknown): value is SerialRange {
+  const range = value as SerialRange
+  return (
+    typeof range === 'object' && range !== null &&
+    typeof range.id === 'string' &&
+    typeof range.gtin === 'string' &&
+    typeof range.lot === 'string' &&
+    typeof range.prefix === 'string' &&
+    Number.isInteger(range.start) &&
+    Number.isInteger(range.end) &&
+    range.end >= range.start &&
+    (range.status === 'RESERVED' || range.status === 'EXPORTED') &&
+    typeof range.createdAt === 'string'
+  )
+}
+
+/**
+ * Zlúči exportovaný ledger (napr. z inej stanice) s lokálnym. Rozsahy
+ * s existujúcim id sa preskočia, prekrytia sa nahlásia, ale záznam sa
+ * prevezme – audit musí obsahovať aj konflikt.
+ */
+export function importSerialLedger(json: string): SerialLedgerImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { added: 0, skipped: 0, issues: ['File is not valid JSON'] }
+  }
+  // JSON môže byť aj null, číslo alebo pole – polia sa čítajú až z objektu
+  const ledger =
+    typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as { format?: unknown; ranges?: unknown })
+      : null
+  if (!ledger || ledger.format !== SERIAL_LEDGER_FORMAT || !Array.isArray(ledger.ranges)) {
+    return { added: 0, skipped: 0, issues: [`File is not a ${SERIAL_LEDGER_FORMAT} export`] }
+  }
+
+  const state = readRaw()
+  const ids = new Set(state.ranges.map(r => r.id))
+  const result: SerialLedgerImportResult = { added: 0, skipped: 0, issues: [] }
+
+  ledger.ranges.forEach((value, index) => {
+    if (!isSerialRange(value)) {
+      result.issues.push(`Range ${index + 1} is malformed and was skipped`)
+      result.skipped++
+      return
+    }
+    if (ids.has(value.id)) {
+      result.skipped++
+      return
+    }
+    for (const issue of findSerialOverlaps({ ...value, jobId: undefined }, state.ranges)) {
+      if (issue.severity === 'error' || value.status === 'EXPORTED') {
+        result.issues.push(`Imported ${formatRange(value)} (${value.status}): ${issue.message}`)
+      }
+    }
+    state.ranges.push(value)
+    ids.add(value.id)
+    result.added++
+  })
+
+  writeRaw(state)
+  return result
+}
@@ -1,27 +1,651 @@
 // src/lib/vdp.ts
-import type { VdpMode } from '../types/barcodeTypes'
+// VDP – šablónový jazyk pre variabilné dáta (polia zo stĺpcov importu,
+// formátovacie funkcie, GS1 kontrolné číslice, počítadlá, podmienky)
+// a hodnoty záznamov tlačového behu
+import type {
+  VdpImportColumn,
+  VdpImportRow,
+  VdpMode,
+  VdpPrintRun,
+  VdpRandomConfig,
+} from '../types/barcodeTypes'
+import { GS1_GS, gs1CenturyYear, gs1CheckDigit } from './gs1'
+import { randomSerialAt } from './randomSerial'
+
+/* =====================
+ * ŠABLÓNA – TYPY
+ * ===================== */
+
+/**
+ * Syntax šablóny:
+ *   {FIELD}                    hodnota poľa (názov stĺpca alebo mapované pole)
+ *   {FIELD|pad:6|upper}        reťazenie funkcií, argumenty za dvojbodkou
+ *   {GTIN|gs1check}            doplnenie GS1 kontrolnej číslice
+ *   {PROD_DATE|date:YYMMDD}    formát dátumu, {TODAY|days:30|date:YYMMDD}
+ *   {counter:START:STEP:SKIP}  počítadlo podľa poradia záznamu
+ *   {"text"|pad:8:*}           literál v úvodzovkách
+ *   {if LOT}…{else}…{end}      podmienka (aj {if !LOT}, {if VARIANT = "B"}, !=)
+ *   {{ a }}                    znaky { a }
+ *   [SERIAL], [LOT]…           pôvodné tokeny, rovnaké ako {SERIAL}, {LOT}
+ */
+export type VdpTemplateIssue = {
+  /** Pozícia v šablóne (od 0) */
+  position: number
+  message: string
+}
+
+type VdpPipe = {
+  name: string
+  args: string[]
+  position: number
+}
+
+type VdpExpression = (
+  | { kind: 'field'; name: string; legacy?: boolean }
+  | { kind: 'literal'; value: string }
+  | { kind: 'counter'; start: number; step: number; skip: number }
+) & { pipes: VdpPipe[]; position: number }
+
+type VdpCondition = {
+  negate: boolean
+  left: VdpExpression
+  operator?: '=' | '!='
+  right?: string
+}
+
+type VdpTemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'expression'; expression: VdpExpression }
+  | { kind: 'if'; condition: VdpCondition; then: VdpTemplateNode[]; otherwise: VdpTemplateNode[] }
+
+export type VdpTemplate = {
+  source: string
+  nodes: VdpTemplateNode[]
+  /** Chyby syntaxe – šablóna s chybami sa nevyhodnocuje */
+  issues: VdpTemplateIssue[]
+  /** Polia, na ktoré šablóna odkazuje, s pozíciou prvého výskytu */
+  fields: { name: string; position: number; legacy?: boolean }[]
+}
+
+export type VdpTemplateContext = {
+  /** Hodnoty polí podľa názvu */
+  fields: Record<string, string>
+  /** Poradie záznamu od 0 – pre {INDEX} a počítadlá */
+  index: number
+  /** Dátum pre {TODAY}, predvolene aktuálny */
+  now?: Date
+}
+
+export type VdpRenderResult = {
+  value: string
+  issues: VdpTemplateIssue[]
+}
+
+/** Pôvodné tokeny v hranatých zátvorkách */
+const LEGACY_TOKENS = new Set([
+  'SERIAL',
+  'PREFIX',
+  'ALPHA',
+  'LOT',
+  'GTIN',
+  'BEST_BEFORE',
+  'PROD_DATE',
+  'USE_BY',
+  'VARIANT',
+  'QUANTITY',
+  'CUSTOM',
+])
+
+/** Vstavané polia – použijú sa, ak záznam nemá rovnomenné pole */
+const BUILTIN_FIELDS = ['INDEX', 'TODAY']
+
+/* =====================
+ * FUNKCIE
+ * ===================== */
+
+type VdpArgumentKind = 'int' | 'text'
+
+type VdpFunction = {
+  args: VdpArgumentKind[]
+  /** Počet povinných argumentov */
+  required: number
+  apply: (value: string, args: string[]) => string
+}
+
+const DATE_FORMAT_TOKENS = /YYYY|YY|MM|DD/g
+
+const VDP_FUNCTIONS: Record<string, VdpFunction> = {
+  pad: {
+    args: ['int', 'text'],
+    required: 1,
+    apply: (value, [length, fill = '0']) => value.padStart(Number(length), fill),
+  },
+  padr: {
+    args: ['int', 'text'],
+    required: 1,
+    apply: (value, [length, fill = ' ']) => value.padEnd(Number(length), fill),
+  },
+  upper: { args: [], required: 0, apply: value => value.toUpperCase() },
+  lower: { args: [], required: 0, apply: value => value.toLowerCase() },
+  trim: { args: [], required: 0, apply: value => value.trim() },
+  slice: {
+    args: ['int', 'int'],
+    required: 1,
+    apply: (value, [start, end]) => value.slice(Number(start), end === undefined ? undefined : Number(end)),
+  },
+  default: { args: ['text'], required: 1, apply: (value, [fallback]) => value || fallback },
+  gs1check: {
+    args: [],
+    required: 0,
+    apply: value => {
+      if (!/^\d+$/.test(value)) throw new Error(`gs1check needs digits, got "${value}"`)
+      return value + String(gs1CheckDigit(value))
+    },
+  },
+  date: {
+    args: ['text'],
+    required: 1,
+    apply: (value, [format]) => {
+      const date = parseVdpDate(value)
+      return format.replace(DATE_FORMAT_TOKENS, token => formatDateToken(date, token))
+    },
+  },
+  days: {
+    args: ['int'],
+    required: 1,
+    apply: (value, [days]) => {
+      const date = parseVdpDate(value)
+      return isoDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + Number(days)))
+    },
+  },
+}
+
+export function isoDate(date: Date): string {
+  return [
+    String(date.getFullYear()).padStart(4, '0'),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+function formatDateToken(date: Date, token: string): string {
+  switch (token) {
+    case 'YYYY':
+      return String(date.getFullYear()).padStart(4, '0')
+    case 'YY':
+      return String(date.getFullYear() % 100).padStart(2, '0')
+    case 'MM':
+      return String(date.getMonth() + 1).padStart(2, '0')
+    default:
+      return String(date.getDate()).padStart(2, '0')
+  }
+}
+
+/** Excel sériové číslo dátumu (systém 1900) – 1 = 1. 1. 1900 */
+const EXCEL_EPOCH = new Date(1899, 11, 30)
+
+/**
+ * Dátum z hodnoty poľa: YYYY-MM-DD, YYYYMMDD, GS1 YYMMDD, DD.MM.YYYY
+ * alebo Excel sériové číslo (5 číslic)
+ */
+export function parseVdpDate(value: string): Date {
+  const text = value.trim()
+  let parts: [number, number, number] | null = null
+  let match: RegExpExecArray | null
+
+  if ((match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text))) {
+    parts = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else if ((match = /^(\d{4})(\d{2})(\d{2})$/.exec(text))) {
+    parts = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else if ((match = /^(\d{2})(\d{2})(\d{2})$/.exec(text))) {
+    parts = [gs1CenturyYear(Number(match[1])), Number(match[2]), Number(match[3])]
+  } else if ((match = /^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})$/.exec(text))) {
+    parts = [Number(match[3]), Number(match[2]), Number(match[1])]
+  } else if (/^\d{5}$/.test(text)) {
+    const date = new Date(EXCEL_EPOCH)
+    date.setDate(date.getDate() + Number(text))
+    return date
+  }
+
+  if (parts) {
+    const [year, month, day] = parts
+    const date = new Date(year, month - 1, day)
+    if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) return date
+  }
+  throw new Error(`Cannot read "${value}" as a date (use YYYY-MM-DD, YYYYMMDD, YYMMDD or DD.MM.YYYY)`)
+}
+
+/* =====================
+ * ŠABLÓNA – PARSER
+ * ===================== */
+
+/** Značka {…}; `legacy` pri starom zápise [TOKEN] */
+type VdpTag = { body: string; position: number; legacy?: boolean }
+
+/** Rozdelí text podľa oddeľovača mimo úvodzoviek */
+function splitOutsideQuotes(text: string, separator: string): { part: string; offset: number }[] {
+  const parts: { part: string; offset: number }[] = []
+  let start = 0
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && quoted) {
+      i++
+    } else if (text[i] === '"') {
+      quoted = !quoted
+    } else if (!quoted && text.startsWith(separator, i)) {
+      parts.push({ part: text.slice(start, i), offset: start })
+      start = i + separator.length
+      i += separator.length - 1
+    }
+  }
+  parts.push({ part: text.slice(start), offset: start })
+  return parts
+}
+
+/** Literál v úvodzovkách s \" a \\, null ak text nie je literál */
+function unquote(text: string): string | null {
+  if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) return null
+  return text.slice(1, -1).replace(/\\(.)/g, '$1')
+}
+
+function parseArgument(raw: string): string {
+  const text = raw.trim()
+  return unquote(text) ?? text
+}
+
+function parsePipe(raw: string, position: number, issues: VdpTemplateIssue[]): VdpPipe | null {
+  const [head, ...rest] = splitOutsideQuotes(raw, ':')
+  const name = head.part.trim()
+  const args = rest.map(r => parseArgument(r.part))
+  const fn = VDP_FUNCTIONS[name.toLowerCase()]
+
+  if (!name) {
+    issues.push({ position, message: 'Missing function name after "|"' })
+    return null
+  }
+  if (!fn) {
+    issues.push({
+      position,
+      message: `Unknown function "${name}" (available: ${Object.keys(VDP_FUNCTIONS).join(', ')})`,
+    })
+    return null
+  }
+  if (args.length < fn.required || args.length > fn.args.length) {
+    const expected = fn.required === fn.args.length ? `${fn.required}` : `${fn.required}–${fn.args.length}`
+    issues.push({ position, message: `Function "${name}" expects ${expected} argument(s), got ${args.length}` })
+    return null
+  }
+  for (let i = 0; i < args.length; i++) {
+    if (fn.args[i] === 'int' && !/^[-+]?\d+$/.test(args[i])) {
+      issues.push({ position, message: `Argument ${i + 1} of "${name}" must be a whole number, got "${args[i]}"` })
+      return null
+    }
+  }
+  return { name: name.toLowerCase(), args, position }
+}
+
+function parseExpression(body: string, position: number, issues: VdpTemplateIssue[]): VdpExpression | null {
+  const [source, ...pipeParts] = splitOutsideQuotes(body, '|')
+  const head = source.part.trim()
+  const pipes: VdpPipe[] = []
+  for (const pipe of pipeParts) {
+    const parsed = parsePipe(pipe.part, position + pipe.offset, issues)
+    if (!parsed) return null
+    pipes.push(parsed)
+  }
+
+  if (!head) {
+    issues.push({ position, message: 'Empty expression, expected a field name, "text" or counter' })
+    return null
+  }
+
+  const literal = unquote(head)
+  if (literal !== null) return { kind: 'literal', value: literal, pipes, position }
+  if (head.startsWith('"')) {
+    issues.push({ position, message: 'Unterminated "text" literal' })
+    return null
+  }
+
+  const [name, ...args] = splitOutsideQuotes(head, ':').map(p => p.part.trim())
+  if (name.toLowerCase() === 'counter') {
+    if (args.length > 3 || args.some(a => !/^[-+]?\d+$/.test(a))) {
+      issues.push({ position, message: 'Counter expects whole numbers: {counter:START:STEP:SKIP}' })
+      return null
+    }
+    const [start = 1, step = 1, skip = 0] = args.map(Number)
+    if (skip < 0) {
+      issues.push({ position, message: 'Counter SKIP must not be negative' })
+      return null
+    }
+    return { kind: 'counter', start, step, skip, pipes, position }
+  }
+  if (args.length > 0) {
+    issues.push({ position, message: `Unexpected ":" after field "${name}", functions go after "|" (e.g. {${name}|pad:6})` })
+    return null
+  }
+  if (/[{}"[\]]/.test(name)) {
+    issues.push({ position, message: `Invalid character in field name "${name}"` })
+    return null
+  }
+  return { kind: 'field', name, pipes, position }
+}
+
+function parseCondition(body: string, position: number, issues: VdpTemplateIssue[]): VdpCondition | null {
+  let text = body.trim()
+  const negate = text.startsWith('!')
+  if (negate) text = text.slice(1)
+
+  for (const operator of ['!=', '='] as const) {
+    const parts = splitOutsideQuotes(text, operator)
+    if (parts.length === 1) continue
+    if (parts.length > 2 || negate) {
+      issues.push({ position, message: 'A condition compares one expression with one value, e.g. {if VARIANT = "B"}' })
+      return null
+    }
+    const left = parseExpression(parts[0].part, position, issues)
+    return left ? { negate, left, operator, right: parseArgument(parts[1].part) } : null
+  }
+
+  const left = parseExpression(text, position, issues)
+  return left ? { negate, left } : null
+}
+
+/** Rozdelí šablónu na text a značky {…} / [TOKEN] */
+function scanTemplate(source: string, issues: VdpTemplateIssue[]): (string | VdpTag)[] {
+  const parts: (string | VdpTag)[] = []
+  let text = ''
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    if ((char === '{' || char === '}') && source[i + 1] === char) {
+      text += char
+      i += 2
+      continue
+    }
+    if (char === '}') {
+      issues.push({ position: i, message: 'Unexpected "}" (write "}}" for a literal brace)' })
+      i++
+      continue
+    }
+    if (char === '[') {
+      const legacy = /^\[([A-Z_]+)\]/.exec(source.slice(i))
+      if (legacy && LEGACY_TOKENS.has(legacy[1])) {
+        if (text) parts.push(text)
+        text = ''
+        parts.push({ body: legacy[1], position: i, legacy: true })
+        i += legacy[0].length
+        continue
+      }
+    }
+    if (char !== '{') {
+      text += char
+      i++
+      continue
+    }
+
+    let end = i + 1
+    let quoted = false
+    for (; end < source.length; end++) {
+      if (source[end] === '\\' && quoted) end++
+      else if (source[end] === '"') quoted = !quoted
+      else if (!quoted && (source[end] === '}' || source[end] === '{')) break
+    }
+    if (source[end] !== '}') {
+      issues.push({ position: i, message: 'Unclosed "{" (write "{{" for a literal brace)' })
+      i = end
+      continue
+    }
+    if (text) parts.push(text)
+    text = ''
+    parts.push({ body: source.slice(i + 1, end), position: i })
+    i = end + 1
+  }
+
+  if (text) parts.push(text)
+  return parts
+}
+
+function collectFields(nodes: VdpTemplateNode[], fields: Map<string, VdpTemplate['fields'][number]>): void {
+  const add = (expression: VdpExpression) => {
+    if (expression.kind !== 'field') return
+    const known = fields.get(expression.name)
+    // Pole je „staré“, len ak sa nikde nepoužije v zápise {…}
+    if (!known) fields.set(expression.name, { name: expression.name, position: expression.position, legacy: expression.legacy })
+    else if (!expression.legacy) known.legacy = undefined
+  }
+  for (const node of nodes) {
+    if (node.kind === 'expression') {
+      add(node.expression)
+    } else if (node.kind === 'if') {
+      add(node.condition.left)
+      collectFields(node.then, fields)
+      collectFields(node.otherwise, fields)
+    }
+  }
+}
+
+/** Rozparsuje šablónu; chyby syntaxe sú v `issues` */
+export function parseVdpTemplate(source: string): VdpTemplate {
+  const issues: VdpTemplateIssue[] = []
+  const root: VdpTemplateNode[] = []
+  const stack: { node: Extract<VdpTemplateNode, { kind: 'if' }>; position: number; inElse: boolean }[] = []
+  const target = () => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    return top.inElse ? top.node.otherwise : top.node.then
+  }
+
+  for (const part of scanTemplate(source, issues)) {
+    if (typeof part === 'string') {
+      target().push({ kind: 'text', value: part })
+      continue
+    }
+
+    // Offset tela značky za "{" (pri [TOKEN] za "[")
+    const bodyPosition = part.position + 1
+    const keyword = /^\s*(if|else|end)\b/.exec(part.body)
+    if (keyword?.[1] === 'if') {
+      const condition = parseCondition(part.body.slice(keyword[0].length), bodyPosition, issues)
+      if (!condition) continue
+      const node: Extract<VdpTemplateNode, { kind: 'if' }> = { kind: 'if', condition, then: [], otherwise: [] }
+      target().push(node)
+      stack.push({ node, position: part.position, inElse: false })
+    } else if (keyword?.[1] === 'else') {
+      const top = stack[stack.length - 1]
+      if (!top) issues.push({ position: part.position, message: '{else} without a matching {if}' })
+      else if (top.inElse) issues.push({ position: part.position, message: 'Duplicate {else} in one {if}' })
+      else top.inElse = true
+    } else if (keyword?.[1] === 'end') {
+      if (!stack.pop()) issues.push({ position: part.position, message: '{end} without a matching {if}' })
+    } else {
+      const expression = parseExpression(part.body, bodyPosition, issues)
+      if (expression?.kind === 'field' && part.legacy) expression.legacy = true
+      if (expression) target().push({ kind: 'expression', expression })
+    }
+  }
+
+  for (const open of stack) {
+    issues.push({ position: open.position, message: '{if} is missing its {end}' })
+  }
+
+  const fields = new Map<string, VdpTemplate['fields'][number]>()
+  collectFields(root, fields)
+  issues.sort((a, b) => a.position - b.position)
+  return { source, nodes: root, issues, fields: [...fields.values()] }
+}
+
+/* =====================
+ * ŠABLÓNA – VYHODNOTENIE
+ * ===================== */
+
+const TEMPLATE_CACHE_SIZE = 32
+const templateCache = new Map<string, VdpTemplate>()
+
+/** Rozparsovaná šablóna z cache – tlačový beh vyhodnocuje tú istú šablónu pre každý záznam */
+function compileVdpTemplate(source: string): VdpTemplate {
+  const cached = templateCache.get(source)
+  if (cached) return cached
+
+  const template = parseVdpTemplate(source)
+  if (templateCache.size >= TEMPLATE_CACHE_SIZE) {
+    templateCache.delete(templateCache.keys().next().value as string)
+  }
+  templateCache.set(source, template)
+  return template
+}
+
+function lookupField(name: string, context: VdpTemplateContext): string | undefined {
+  if (name in context.fields) return context.fields[name]
+  const lower = name.toLowerCase()
+  const key = Object.keys(context.fields).find(k => k.toLowerCase() === lower)
+  if (key !== undefined) return context.fields[key]
+
+  switch (name.toUpperCase()) {
+    case 'INDEX':
+      return String(context.index + 1)
+    case 'TODAY':
+      return isoDate(context.now ?? new Date())
+    default:
+      return undefined
+  }
+}
+
+function evaluateExpression(expression: VdpExpression, context: VdpTemplateContext, issues: VdpTemplateIssue[]): string {
+  let value: string
+  if (expression.kind === 'literal') {
+    value = expression.value
+  } else if (expression.kind === 'counter') {
+    const { start, step, skip } = expression
+    value = String(start + step * Math.floor(Math.max(0, context.index) / (skip + 1)))
+  } else {
+    const field = lookupField(expression.name, context)
+    if (field === undefined && expression.legacy) {
+      // Starý token bez hodnoty ([LOT] pri jednej úlohe) ostáva v kóde doslovne ako predtým
+      value = `[${expression.name}]`
+    } else {
+      if (field === undefined) {
+        issues.push({ position: expression.position, message: `Unknown field "${expression.name}"` })
+      }
+      value = field ?? ''
+    }
+  }
+
+  for (const pipe of expression.pipes) {
+    try {
+      value = VDP_FUNCTIONS[pipe.name].apply(value, pipe.args)
+    } catch (error) {
+      issues.push({ position: pipe.position, message: error instanceof Error ? error.message : String(error) })
+      return ''
+    }
+  }
+  return value
+}
+
+function evaluateCondition(condition: VdpCondition, context: VdpTemplateContext, issues: VdpTemplateIssue[]): boolean {
+  const value = evaluateExpression(condition.left, context, issues)
+  let result: boolean
+  if (condition.operator === '=') result = value === condition.right
+  else if (condition.operator === '!=') result = value !== condition.right
+  else result = value !== ''
+  return condition.negate ? !result : result
+}
+
+function renderNodes(nodes: VdpTemplateNode[], context: VdpTemplateContext, issues: VdpTemplateIssue[]): string {
+  let output = ''
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.value
+    } else if (node.kind === 'expression') {
+      output += evaluateExpression(node.expression, context, issues)
+    } else {
+      const branch = evaluateCondition(node.condition, context, issues) ? node.then : node.otherwise
+      output += renderNodes(branch, context, issues)
+    }
+  }
+  return output
+}
+
+/**
+ * Vyhodnotí šablónu pre jeden záznam. Pri chybe syntaxe vráti prázdnu
+ * hodnotu a chyby parsera; chyby vyhodnotenia (neznáme pole, neplatný
+ * dátum…) sú v `issues` a dotknutý výraz je prázdny.
+ */
+export function renderVdpTemplate(template: string | VdpTemplate, context: VdpTemplateContext): VdpRenderResult {
+  const compiled = typeof template === 'string' ? compileVdpTemplate(template) : template
+  if (compiled.issues.length > 0) return { value: '', issues: compiled.issues }
+
+  const issues: VdpTemplateIssue[] = []
+  const value = renderNodes(compiled.nodes, context, issues)
+  return { value, issues }
+}
+
+/**
+ * Kontrola šablóny pred tlačou: chyby syntaxe a (ak sú známe dostupné
+ * polia) odkazy na neexistujúce polia – okrem starých tokenov [LOT]…,
+ * ktoré sa bez hodnoty vypíšu doslovne
+ */
+export function validateVdpTemplate(source: string, availableFields?: string[]): VdpTemplateIssue[] {
+  const template = compileVdpTemplate(source)
+  if (template.issues.length > 0 || !availableFields) return template.issues
+
+  const known = new Set([...availableFields, ...BUILTIN_FIELDS].map(f => f.toLowerCase()))
+  return template.fields
+    .filter(field => !field.legacy && !known.has(field.name.toLowerCase()))
+    .map(field => ({
+      position: field.position,
+      message: `Unknown field "${field.name}" (available: ${availableFields.join(', ') || 'none'})`,
+    }))
+}
+
+/** Chyba šablóny pre zobrazenie v UI */
+export function formatVdpTemplateIssue(issue: VdpTemplateIssue): string {
+  return `${issue.message} (char ${issue.position + 1})`
+}
+
+/* =====================
+ * POLIA ZÁZNAMOV
+ * ===================== */
+
+/** Polia riadku importu – podľa názvu stĺpca aj mapovaného poľa (SERIAL, LOT…) */
+export function vdpImportRowFields(columns: VdpImportColumn[], row: VdpImportRow): Record<string, string> {
+  const fields: Record<string, string> = { ...row.values }
+  for (const column of columns) {
+    if (column.mappedTo) fields[column.mappedTo] = row.values[column.columnName] ?? ''
+  }
+  return fields
+}
+
+/** Názvy polí dostupných v šablóne importu */
+export function vdpImportFieldNames(columns: VdpImportColumn[]): string[] {
+  const names = columns.map(c => c.columnName)
+  for (const column of columns) {
+    if (column.mappedTo && !names.includes(column.mappedTo)) names.push(column.mappedTo)
+  }
+  return names
+}
+
+/** Polia jednej úlohy so sériovým číslom podľa VDP režimu */
+export const VDP_SERIAL_FIELDS = ['SERIAL', 'PREFIX', 'ALPHA']
 
 function formatSerial(current: number, padding: number): string {
   const s = String(Math.max(0, current))
   return s.padStart(Math.max(1, padding), '0')
 }
 
-export function applyVdpPattern(
-  raw: string,
-  enabled: boolean,
+function vdpSerialFields(
   current: number,
   padding: number,
-  pattern: string,
   mode: VdpMode,
   prefix: string,
   alphaStartChar: string,
-): string {
-  if (!enabled) return raw
-
+  random?: VdpRandomConfig,
+): Record<string, string> {
   const safePadding = Math.max(1, padding)
   const numericSerial = Math.max(0, current)
 
   let serialToken = ''
+  let letter = ''
 
   if (mode === 'PREFIX') {
     const core = formatSerial(numericSerial, safePadding)
@@ -40,15 +664,104 @@ export function applyVdpPattern(
     if (letterCode > zCode) {
       letterCode = zCode
     }
-    const letter = String.fromCharCode(letterCode)
+    letter = String.fromCharCode(letterCode)
     const withinStr = String(within).padStart(safePadding, '0')
     serialToken = `${letter}${withinStr}`
+  } else if (mode === 'RANDOM') {
+    // Záznam N má vždy to isté číslo – dotlač časti roly stačí začať od N
+    serialToken = random ? randomSerialAt(random, Math.max(0, numericSerial - 1)) : ''
   } else {
     serialToken = formatSerial(numericSerial, safePadding)
   }
 
-  if (!pattern.includes('[SERIAL]')) {
-    return serialToken
+  return { SERIAL: serialToken, PREFIX: prefix ?? '', ALPHA: letter || (alphaStartChar || 'A').toUpperCase() }
+}
+
+/**
+ * Kód jednej úlohy podľa VDP vzoru s chybami šablóny – pri chybe syntaxe
+ * je hodnota prázdna a náhľad musí chyby ukázať
+ */
+export function renderVdpPattern(
+  current: number,
+  padding: number,
+  pattern: string,
+  mode: VdpMode,
+  prefix: string,
+  alphaStartChar: string,
+  index: number = current - 1,
+  random?: VdpRandomConfig,
+): VdpRenderResult {
+  const fields = vdpSerialFields(current, padding, mode, prefix, alphaStartChar, random)
+  const template = compileVdpTemplate(pattern)
+  if (!template.nodes.some(node => node.kind !== 'text') && template.issues.length === 0) {
+    return { value: fields.SERIAL, issues: [] }
+  }
+  return renderVdpTemplate(template, { fields, index })
+}
+
+/**
+ * Hodnota jednej úlohy s VDP. Šablóna bez výrazov (aj prázdna) znamená
+ * samotné sériové číslo; `index` je poradie záznamu pre {INDEX} a počítadlá.
+ */
+export function applyVdpPattern(
+  raw: string,
+  enabled: boolean,
+  current: number,
+  padding: number,
+  pattern: string,
+  mode: VdpMode,
+  prefix: string,
+  alphaStartChar: string,
+  index: number = current - 1,
+  random?: VdpRandomConfig,
+): string {
+  if (!enabled) return raw
+  return renderVdpPattern(current, padding, pattern, mode, prefix, alphaStartChar, index, random).value
+}
+
+/* =====================
+ * TLAČOVÝ BEH
+ * ===================== */
+
+export function getPrintRunRecordCount(printRun: VdpPrintRun): number {
+  if (printRun.source === 'SERIAL') {
+    return Math.max(0, printRun.serialEnd - printRun.serialStart + 1)
+  }
+  return printRun.csvData?.rows.length ?? 0
+}
+
+/** Vyhodnotenie záznamu tlačového behu – CSV riadky cez šablónu importu */
+export function renderPrintRunRecord(printRun: VdpPrintRun, index: number): VdpRenderResult {
+  if (printRun.source === 'SERIAL') {
+    const serial = String(printRun.serialStart + index).padStart(printRun.serialPadding, '0')
+    return { value: `${printRun.serialPrefix}${serial}`, issues: [] }
   }
-  return pattern.replaceAll('[SERIAL]', serialToken)
-}
\ No newline at end of file
+
+  const csvData = printRun.csvData
+  const row = csvData?.rows[index]
+  if (!csvData || !row) return { value: '', issues: [] }
+  if (!csvData.patternTemplate) return { value: row.generatedCode, issues: [] }
+  return renderVdpTemplate(csvData.patternTemplate, { fields: vdpImportRowFields(csvData.columns, row), index })
+}
+
+export function getPrintRunRecordValue(printRun: VdpPrintRun, index: number): string {
+  return renderPrintRunRecord(printRun, index).value
+}
+
+/**
+ * Polia záznamu pre variabilné objekty etikety – stĺpce CSV riadku, pri
+ * sérii SERIAL; VALUE je hodnota kódu, ak ju záznam neprepíše
+ */
+export function printRunRecordFields(printRun: VdpPrintRun, index: number): Record<string, string> {
+  const value = getPrintRunRecordValue(printRun, index)
+  if (printRun.source === 'SERIAL') return { VALUE: value, SERIAL: value }
+  const row = printRun.csvData?.rows[index]
+  return { VALUE: value, ...(printRun.csvData && row ? vdpImportRowFields(printRun.csvData.columns, row) : {}) }
+}
+
+/** Názov súboru záznamu, napr. "label_{INDEX|pad:5}_{VALUE}" */
+export function renderVdpFileName(pattern: string, index: number, value: string): string {
+  return renderVdpTemplate(pattern, { fields: { VALUE: value }, index })
+    .value.replaceAll(GS1_GS, '_')
+    .replace(/[\\/:*?"<>|]/g, '_')
+}
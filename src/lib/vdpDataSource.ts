@@ -0,0 +1,539 @@
+// src/lib/vdpDataSource.ts
+// Zdroje dát pre VDP import mimo Excelu – CSV, JSON pole (cesta k záznamom),
+// XML export z ERP (selektor záznamov v štýle XPath) a text s pevnou šírkou
+// stĺpcov. Všetky vracajú tabuľku hlavička + riadky, z ktorej sa zostaví
+// VdpImportState s rozpoznanými typmi a automatickým mapovaním.
+import type {
+  VdpColumnType,
+  VdpFieldMapping,
+  VdpImportColumn,
+  VdpImportRow,
+  VdpImportState,
+} from '../types/barcodeTypes'
+import type { CodeJobFile } from '../types/jobTypes'
+import { gs1CheckDigit } from './gs1'
+import { createJobFile } from './jobStorage'
+import { parseVdpDate } from './vdp'
+
+export type VdpDataTable = {
+  header: string[]
+  rows: string[][]
+}
+
+export type VdpFixedWidthColumn = {
+  name: string
+  /** Prvý znak stĺpca (1-based, ako v špecifikáciách ERP exportov) */
+  start: number
+  width: number
+}
+
+/** Počet riadkov, z ktorých sa rozpoznávajú typy a stĺpce pevnej šírky */
+const TYPE_DETECTION_SAMPLE = 200
+
+/* =====================
+ * TYPY STĹPCOV
+ * ===================== */
+
+function isGtin(value: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(value)) return false
+  return gs1CheckDigit(value.slice(0, -1)) === Number(value[value.length - 1])
+}
+
+function isDate(value: string): boolean {
+  // Samotné číslice (YYMMDD, Excel) by zachytili aj množstvá a kódy
+  if (!/[-.]/.test(value)) return false
+  try {
+    parseVdpDate(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Typ stĺpca podľa vzorky neprázdnych hodnôt – všetky musia vyhovieť */
+export function detectVdpColumnType(values: string[]): VdpColumnType {
+  const sample = values.map(value => value.trim()).filter(Boolean).slice(0, TYPE_DETECTION_SAMPLE)
+  if (sample.length === 0) return 'TEXT'
+  if (sample.every(isGtin)) return 'GTIN'
+  if (sample.every(isDate)) return 'DATE'
+  if (sample.every(value => /^-?\d+([.,]\d+)?$/.test(value))) return 'NUMBER'
+  return 'TEXT'
+}
+
+/** Automatické mapovanie podľa názvu stĺpca, pri neznámom názve podľa typu */
+export function autoMapVdpColumn(columnName: string, type: VdpColumnType = 'TEXT'): VdpFieldMapping {
+  const nameLower = columnName.toLowerCase()
+  if (nameLower.includes('serial') || nameLower.includes('sn') || nameLower.includes('číslo')) {
+    return 'SERIAL'
+  }
+  if (nameLower.includes('lot') || nameLower.includes('šarža') || nameLower.includes('batch')) {
+    return 'LOT'
+  }
+  if (nameLower.includes('gtin') || nameLower.includes('ean') || nameLower.includes('upc')) {
+    return 'GTIN'
+  }
+  if (nameLower.includes('expir') || nameLower.includes('best') || nameLower.includes('spotreba')) {
+    return 'BEST_BEFORE'
+  }
+  if (nameLower.includes('prod') || nameLower.includes('výrob')) {
+    return 'PROD_DATE'
+  }
+  return type === 'GTIN' ? 'GTIN' : null
+}
+
+/** VdpImportState z tabuľky – spoločné pre CSV, Excel, JSON, XML aj pevnú šírku */
+export function buildVdpImportState(
+  fileName: string,
+  table: VdpDataTable,
+  patternTemplate: string,
+): VdpImportState {
+  // Duplicitné názvy by si v `values` prepisovali hodnoty
+  const seen = new Map<string, number>()
+  const columns: VdpImportColumn[] = table.header.map((name, index) => {
+    const base = String(name ?? '').trim() || `Stĺpec ${index + 1}`
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    const columnName = count > 1 ? `${base} (${count})` : base
+    const detectedType = detectVdpColumnType(table.rows.map(row => String(row[index] ?? '')))
+    return { columnIndex: index, columnName, mappedTo: autoMapVdpColumn(columnName, detectedType), detectedType }
+  })
+
+  const rows: VdpImportRow[] = table.rows.map((row, rowIndex) => {
+    const values: Record<string, string> = {}
+    columns.forEach((col, colIdx) => {
+      values[col.columnName] = String(row[colIdx] ?? '')
+    })
+    return { rowIndex, values, generatedCode: '' }
+  })
+
+  return {
+    fileName,
+    columns,
+    rows,
+    currentRowIndex: 0,
+    totalRows: rows.length,
+    patternTemplate,
+  }
+}
+
+/** Tabuľka zo záznamov (objektov) – stĺpce v poradí prvého výskytu */
+function recordsToTable(records: Record<string, string>[]): VdpDataTable {
+  const header: string[] = []
+  const known = new Set<string>()
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!known.has(key)) {
+        known.add(key)
+        header.push(key)
+      }
+    }
+  }
+  return { header, rows: records.map(record => header.map(key => record[key] ?? '')) }
+}
+
+/* =====================
+ * CSV
+ * ===================== */
+
+/** CSV/TXT s oddeľovačom `,` alebo `;` – prvý neprázdny riadok je hlavička */
+export function parseVdpCsv(text: string): VdpDataTable {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  const rows = lines.map(line => {
+    const result: string[] = []
+    let current = ''
+    let inQuotes = false
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (char === '"') {
+        inQuotes = !inQuotes
+      } else if ((char === ',' || char === ';') && !inQuotes) {
+        result.push(current.trim())
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    result.push(current.trim())
+    return result
+  })
+  return { header: rows[0] ?? [], rows: rows.slice(1) }
+}
+
+/* =====================
+ * JSON
+ * ===================== */
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+
+/**
+ * Cesta k poľu záznamov: `data.items`, `$.orders[0].lines`, `orders[*].lines`
+ * ([*] zlúči polia zo všetkých prvkov). Prázdna cesta = koreň.
+ */
+function selectJsonPath(root: JsonValue, path: string): JsonValue[] {
+  const tokens = path
+    .trim()
+    .replace(/^\$\.?/, '')
+    .split(/\.|(?=\[)/)
+    .filter(Boolean)
+
+  let current: JsonValue[] = [root]
+  for (const token of tokens) {
+    const next: JsonValue[] = []
+    const index = /^\[(\d+|\*)\]$/.exec(token)
+    for (const value of current) {
+      if (index) {
+        if (!Array.isArray(value)) continue
+        if (index[1] === '*') next.push(...value)
+        else if (value[Number(index[1])] !== undefined) next.push(value[Number(index[1])])
+      } else {
+        // Kľúč na poli sa aplikuje na každý prvok
+        const items = Array.isArray(value) ? value : [value]
+        for (const item of items) {
+          if (item && typeof item === 'object' && !Array.isArray(item) && token in item) next.push(item[token])
+        }
+      }
+    }
+    current = next
+  }
+  return current.flatMap(value => (Array.isArray(value) ? value : [value]))
+}
+
+/** Vnorené objekty ako `adresa.mesto`, polia hodnôt spojené „|“ */
+function flattenJson(value: JsonValue, prefix: string, out: Record<string, string>) {
+  if (value === null || value === undefined) {
+    out[prefix || 'value'] = ''
+  } else if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      out[prefix || 'value'] = value.map(item => (item === null ? '' : String(item))).join('|')
+    } else {
+      value.forEach((item, i) => flattenJson(item, `${prefix}[${i}]`, out))
+    }
+  } else if (typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) flattenJson(item, prefix ? `${prefix}.${key}` : key, out)
+  } else {
+    out[prefix || 'value'] = String(value)
+  }
+}
+
+/** Cesty k poliam objektov v dokumente – ponuka pre výber záznamov */
+export function findJsonRecordPaths(text: string, maxPaths = 20): string[] {
+  const paths: string[] = []
+  const visit = (value: JsonValue, path: string, depth: number) => {
+    if (paths.length >= maxPaths || depth > 6 || value === null || typeof value !== 'object') return
+    if (Array.isArray(value)) {
+      if (value.some(item => item !== null && typeof item === 'object' && !Array.isArray(item))) paths.push(path)
+      // Vnorené polia stačí hľadať v prvom prvku
+      if (value.length > 0) visit(value[0], `${path}[*]`, depth + 1)
+      return
+    }
+    for (const [key, item] of Object.entries(value)) visit(item, path ? `${path}.${key}` : key, depth + 1)
+  }
+  visit(JSON.parse(text) as JsonValue, '', 0)
+  return paths
+}
+
+export function parseJsonRecords(text: string, path: string): VdpDataTable {
+  let root: JsonValue
+  try {
+    root = JSON.parse(text) as JsonValue
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  const selected = selectJsonPath(root, path)
+  if (selected.length === 0) throw new Error(`Path "${path || '$'}" does not select any records`)
+
+  return recordsToTable(
+    selected.map(value => {
+      const record: Record<string, string> = {}
+      flattenJson(value, '', record)
+      return record
+    }),
+  )
+}
+
+/* =====================
+ * XML
+ * ===================== */
+
+type XmlStep = { descendant: boolean; name: string }
+
+/**
+ * Selektor v štýle XPath: `/Export/Items/Item`, `//Item`, `Orders/*`.
+ * Mená sa porovnávajú bez prefixu menného priestoru (ERP exporty
+ * často používajú predvolený namespace, na ktorom by XPath zlyhal).
+ */
+function parseXmlSelector(selector: string): XmlStep[] {
+  const text = selector.trim()
+  if (!text) throw new Error('Record selector is empty')
+  const steps: XmlStep[] = []
+  const pattern = /(\/\/|\/)?([^/]+)/g
+  let match: RegExpExecArray | null
+  let first = true
+  while ((match = pattern.exec(text))) {
+    const name = match[2].trim()
+    if (!/^(\*|[\w.-]+(:[\w.-]+)?)$/.test(name)) throw new Error(`Unsupported selector step "${name}"`)
+    // Relatívny selektor bez lomky hľadá kdekoľvek v dokumente
+    const descendant = match[1] === '//' || (first && !match[1])
+    steps.push({ descendant, name: name.includes(':') ? name.split(':')[1] : name })
+    first = false
+  }
+  return steps
+}
+
+function elementChildren(element: Element): Element[] {
+  return Array.from(element.children)
+}
+
+function selectXml(root: Element, steps: XmlStep[]): Element[] {
+  const matches = (element: Element, name: string) => name === '*' || element.localName === name
+
+  // Koreň je kontext pre prvý krok, ako dokument v XPath
+  let current: Element[] = []
+  const [firstStep, ...rest] = steps
+  if (firstStep.descendant) {
+    current = [root, ...Array.from(root.getElementsByTagName('*'))].filter(el => matches(el, firstStep.name))
+  } else if (matches(root, firstStep.name)) {
+    current = [root]
+  }
+
+  for (const step of rest) {
+    const next = new Set<Element>()
+    for (const element of current) {
+      const candidates = step.descendant ? Array.from(element.getElementsByTagName('*')) : elementChildren(element)
+      for (const candidate of candidates) if (matches(candidate, step.name)) next.add(candidate)
+    }
+    current = [...next]
+  }
+  return current
+}
+
+/** Atribúty ako `@id`, texty podelementov ako `Adresa.Mesto`, opakované ako `Kód[2]` */
+function flattenXml(element: Element, prefix: string, out: Record<string, string>) {
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.name === 'xmlns' || attribute.name.startsWith('xmlns:')) continue
+    out[`${prefix}@${attribute.localName}`] = attribute.value
+  }
+
+  const children = elementChildren(element)
+  if (children.length === 0) {
+    const text = element.textContent?.trim() ?? ''
+    if (prefix) out[prefix.replace(/\.$/, '')] = text
+    else if (text) out.value = text
+    return
+  }
+
+  const counts = new Map<string, number>()
+  for (const child of children) {
+    const count = (counts.get(child.localName) ?? 0) + 1
+    counts.set(child.localName, count)
+    const name = count > 1 ? `${child.localName}[${count}]` : child.localName
+    flattenXml(child, `${prefix}${name}.`, out)
+  }
+}
+
+function parseXmlDocument(text: string): Element {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  const error = document.getElementsByTagName('parsererror')[0]
+  if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] ?? 'parse error'}`)
+  return document.documentElement
+}
+
+/** Selektory opakovaných elementov (kandidáti na záznamy), najčastejšie prvé */
+export function findXmlRecordSelectors(text: string, maxSelectors = 20): string[] {
+  const root = parseXmlDocument(text)
+  const counts = new Map<string, number>()
+  const visit = (element: Element, path: string) => {
+    const siblings = new Map<string, number>()
+    for (const child of elementChildren(element)) {
+      siblings.set(child.localName, (siblings.get(child.localName) ?? 0) + 1)
+    }
+    for (const [name, count] of siblings) {
+      if (count > 1) counts.set(`${path}/${name}`, (counts.get(`${path}/${name}`) ?? 0) + count)
+    }
+    const visited = new Set<string>()
+    for (const child of elementChildren(element)) {
+      // Štruktúra opakovaných elementov sa prejde len raz
+      if (visited.has(child.localName)) continue
+      visited.add(child.localName)
+      visit(child, `${path}/${child.localName}`)
+    }
+  }
+  visit(root, `/${root.localName}`)
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxSelectors)
+    .map(([selector]) => selector)
+}
+
+export function parseXmlRecords(text: string, selector: string): VdpDataTable {
+  const root = parseXmlDocument(text)
+  const elements = selectXml(root, parseXmlSelector(selector))
+  if (elements.length === 0) throw new Error(`Selector "${selector}" does not match any element`)
+
+  return recordsToTable(
+    elements.map(element => {
+      const record: Record<string, string> = {}
+      flattenXml(element, '', record)
+      return record
+    }),
+  )
+}
+
+/* =====================
+ * PEVNÁ ŠÍRKA
+ * ===================== */
+
+function textLines(text: string): string[] {
+  return text.split(/\r?\n/).filter(line => line.trim())
+}
+
+/**
+ * Stĺpce podľa medzier, ktoré sú na rovnakej pozícii vo všetkých riadkoch.
+ * Názvy sa berú z hlavičky, ak ju súbor má.
+ */
+export function detectFixedWidthColumns(text: string, hasHeader: boolean): VdpFixedWidthColumn[] {
+  const lines = textLines(text).slice(0, TYPE_DETECTION_SAMPLE)
+  if (lines.length === 0) return []
+  const width = Math.max(...lines.map(line => line.length))
+
+  const blank = Array.from({ length: width }, (_, i) => lines.every(line => i >= line.length || line[i] === ' '))
+  const columns: VdpFixedWidthColumn[] = []
+  let start = -1
+  for (let i = 0; i <= width; i++) {
+    if (i < width && !blank[i]) {
+      if (start < 0) start = i
+    } else if (start >= 0) {
+      columns.push({ name: '', start: start + 1, width: i - start })
+      start = -1
+    }
+  }
+
+  // Medzery za stĺpcom patria k nemu – hodnoty kratšie ako šírka sú zarovnané vľavo
+  columns.forEach((column, index) => {
+    const next = columns[index + 1]
+    column.width = (next ? next.start : width + 1) - column.start
+    column.name = hasHeader
+      ? lines[0].slice(column.start - 1, column.start - 1 + column.width).trim() || `Stĺpec ${index + 1}`
+      : `Stĺpec ${index + 1}`
+  })
+  return columns
+}
+
+/** Zápis stĺpcov pre úpravu v paneli: `GTIN:1-14, LOT:15-24` (pozície od 1, vrátane) */
+export function formatFixedWidthColumns(columns: VdpFixedWidthColumn[]): string {
+  return columns.map(column => `${column.name}:${column.start}-${column.start + column.width - 1}`).join(', ')
+}
+
+export function parseFixedWidthColumns(spec: string): VdpFixedWidthColumn[] {
+  return spec
+    .split(/[,\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = /^(.*?):\s*(\d+)\s*-\s*(\d+)$/.exec(part)
+      if (!match) throw new Error(`Column "${part}" must be written as NAME:START-END`)
+      const start = Number(match[2])
+      const end = Number(match[3])
+      if (start < 1 || end < start) throw new Error(`Column "${part}" has an invalid position range`)
+      return { name: match[1].trim(), start, width: end - start + 1 }
+    })
+}
+
+export function parseFixedWidthRecords(
+  text: string,
+  columns: VdpFixedWidthColumn[],
+  hasHeader: boolean,
+): VdpDataTable {
+  if (columns.length === 0) throw new Error('No fixed-width columns defined')
+  const lines = textLines(text).slice(hasHeader ? 1 : 0)
+  return {
+    header: columns.map((column, index) => column.name || `Stĺpec ${index + 1}`),
+    rows: lines.map(line => columns.map(column => line.slice(column.start - 1, column.start - 1 + column.width).trim())),
+  }
+}
+
+/** Text bez oddeľovačov CSV so zarovnanými stĺpcami */
+export function looksLikeFixedWidth(text: string): boolean {
+  const lines = textLines(text).slice(0, TYPE_DETECTION_SAMPLE)
+  if (lines.length < 2 || lines.some(line => /[,;\t]/.test(line))) return false
+  return detectFixedWidthColumns(text, false).length >= 2
+}
+
+/* =====================
+ * ŠTRUKTÚROVANÝ ZDROJ
+ * ===================== */
+
+export type VdpStructuredSourceKind = 'JSON' | 'XML' | 'FIXED_WIDTH'
+
+/**
+ * Načítaný súbor so selektorom záznamov – cesta JSON, selektor XML alebo
+ * zápis stĺpcov pevnej šírky. Text sa drží, aby sa dal selektor zmeniť.
+ */
+export type VdpStructuredSource = {
+  kind: VdpStructuredSourceKind
+  fileName: string
+  text: string
+  selector: string
+  /** Navrhnuté selektory z obsahu súboru */
+  suggestions: string[]
+  /** Pevná šírka – prvý riadok obsahuje názvy stĺpcov */
+  hasHeader: boolean
+}
+
+/** Zdroj s predvoleným selektorom podľa obsahu súboru */
+export function createVdpStructuredSource(
+  kind: VdpStructuredSourceKind,
+  fileName: string,
+  text: string,
+): VdpStructuredSource {
+  if (kind === 'JSON') {
+    const suggestions = findJsonRecordPaths(text)
+    return { kind, fileName, text, selector: suggestions[0] ?? '', suggestions, hasHeader: true }
+  }
+  if (kind === 'XML') {
+    const suggestions = findXmlRecordSelectors(text)
+    return { kind, fileName, text, selector: suggestions[0] ?? '/*/*', suggestions, hasHeader: true }
+  }
+  const columns = detectFixedWidthColumns(text, true)
+  return { kind, fileName, text, selector: formatFixedWidthColumns(columns), suggestions: [], hasHeader: true }
+}
+
+export function readVdpStructuredSource(source: VdpStructuredSource): VdpDataTable {
+  switch (source.kind) {
+    case 'JSON':
+      return parseJsonRecords(source.text, source.selector)
+    case 'XML':
+      return parseXmlRecords(source.text, source.selector)
+    default:
+      return parseFixedWidthRecords(source.text, parseFixedWidthColumns(source.selector), source.hasHeader)
+  }
+}
+
+/* =====================
+ * ULOŽENIE V JOBE
+ * ===================== */
+
+/** Importovaná tabuľka uložená ako príloha jobu (VDP_DATA) */
+export const VDP_IMPORT_MIME_TYPE = 'application/vnd.gpcs.vdp-import+json'
+
+/** Null, ak nie sú importované žiadne dáta */
+export function vdpImportToFile(state: VdpImportState): CodeJobFile | null {
+  if (state.rows.length === 0) return null
+  // Prechádzanie riadkov v náhľade nie je zmena dát jobu
+  return createJobFile(
+    `${(state.fileName ?? 'vdp_data').replace(/\.[^.]+$/, '')}.vdp.json`,
+    VDP_IMPORT_MIME_TYPE,
+    new TextEncoder().encode(JSON.stringify({ ...state, currentRowIndex: 0 })),
+  )
+}
+
+/** Import z prílohy jobu; iný typ súboru (pôvodný CSV) sa musí importovať znova */
+export async function vdpImportFromFile(file: CodeJobFile): Promise<VdpImportState | null> {
+  if (file.mimeType !== VDP_IMPORT_MIME_TYPE) return null
+  const state = JSON.parse(await file.data.text()) as VdpImportState
+  if (!Array.isArray(state.rows) || !Array.isArray(state.columns)) {
+    throw new Error('Stored VDP data is damaged')
+  }
+  return state
+}
@@ -0,0 +1,222 @@
+// src/lib/vdpObjects.ts
+// Variabilné objekty etikety – text a obrázok viazaný na stĺpec VDP importu
+// alebo šablónu sa vyhodnotí pre každý záznam (náhľad, proof aj export),
+// obrázok sa vyberie podľa názvu súboru z príloh jobu a text sa môže
+// zmenšiť do rámčeka. Ostatné tlačené objekty sú statická grafika, na
+// mieste čiarového kódu sa tlačí variabilný symbol behu.
+import type {
+  BarcodeObject,
+  CodeType,
+  ImageObject,
+  LabelObject,
+  Layer,
+  TextObject,
+  VdpImportState,
+} from '../types/barcodeTypes'
+import { isBarcodeObject, isImageObject, isTextObject, labelTextLines } from './labelObjects'
+import {
+  renderVdpTemplate,
+  vdpImportRowFields,
+  type VdpRenderResult,
+  type VdpTemplateContext,
+  type VdpTemplateIssue,
+} from './vdp'
+import { helveticaTextWidth } from './vdpPdf'
+
+const MM_TO_PT = 72 / 25.4
+
+/** Najmenšie písmo pri zmenšovaní, ak objekt nemá vlastné minimum */
+export const DEFAULT_MIN_FONT_SIZE_PT = 4
+
+/** Výška riadku nad základnou čiarou a dotiahnutie pod ňu (Helvetica, v em) */
+const TEXT_ASCENT_EM = 1
+const TEXT_DESCENT_EM = 0.21
+
+/* =====================
+ * VÄZBA
+ * ===================== */
+
+/** Text alebo obrázok s väzbou na VDP dáta */
+export function isVdpBoundObject(obj: LabelObject): obj is TextObject | ImageObject {
+  return (isTextObject(obj) || isImageObject(obj)) && Boolean(obj.vdpTemplate?.trim() || obj.vdpField)
+}
+
+/** Zápis väzby – šablóna alebo {POLE}; zobrazí sa, keď nie sú načítané dáta */
+export function vdpBindingLabel(obj: LabelObject): string {
+  return obj.vdpTemplate?.trim() || (obj.vdpField ? `{${obj.vdpField}}` : '')
+}
+
+/** Hodnota väzby pre záznam – šablóna má prednosť pred stĺpcom */
+export function renderVdpBinding(obj: LabelObject, context: VdpTemplateContext): VdpRenderResult {
+  const template = obj.vdpTemplate?.trim()
+  if (template) return renderVdpTemplate(template, context)
+
+  const field = obj.vdpField ?? ''
+  const name =
+    field in context.fields
+      ? field
+      : Object.keys(context.fields).find(key => key.toLowerCase() === field.toLowerCase())
+  if (name === undefined) return { value: '', issues: [{ position: 0, message: `Unknown field "${field}"` }] }
+  return { value: context.fields[name], issues: [] }
+}
+
+/** Kontext aktuálneho riadku VDP importu pre náhľad; null, ak nie sú dáta */
+export function vdpImportRowContext(state: VdpImportState): VdpTemplateContext | null {
+  const row = state.rows[state.currentRowIndex]
+  if (!row) return null
+  return {
+    fields: { VALUE: row.generatedCode, ...vdpImportRowFields(state.columns, row) },
+    index: state.currentRowIndex,
+  }
+}
+
+/* =====================
+ * OBRÁZKY PODĽA NÁZVU SÚBORU
+ * ===================== */
+
+const fileKey = (name: string) => (name.trim().split(/[\\/]/).pop() ?? '').toLowerCase()
+const fileStem = (name: string) => name.replace(/\.[^.]+$/, '')
+
+/** Obrázky príloh jobu podľa názvu súboru (názov → URL na zobrazenie) */
+export type VdpImageSources = Record<string, string>
+
+/**
+ * Názov obrázka objektu pre názov súboru v dátach – bez ohľadu na cestu
+ * a veľkosť písmen, pri nezhode aj bez prípony ("IMG_01" → "img_01.jpg")
+ */
+export function findVdpImage(names: string[] | undefined, fileName: string): string | undefined {
+  const key = fileKey(fileName)
+  if (!names || !key) return undefined
+  return names.find(name => fileKey(name) === key) ?? names.find(name => fileStem(fileKey(name)) === fileStem(key))
+}
+
+/* =====================
+ * ZMENŠENIE TEXTU
+ * ===================== */
+
+/**
+ * Veľkosť písma, pri ktorej sa text zmestí do rámčeka objektu – najviac
+ * nastavená veľkosť, najmenej minimum. Šírka je odhad podľa metriky
+ * Helvetica, rovnakej ako v PDF exporte.
+ */
+export function fitTextFontSize(obj: TextObject): number {
+  if (!obj.shrinkToFit) return obj.fontSizePt
+  const lines = labelTextLines(obj)
+  const widthPt = obj.widthMm * MM_TO_PT
+  const heightPt = obj.heightMm * MM_TO_PT
+
+  let size = obj.fontSizePt
+  for (const line of lines) {
+    // Šírka je lineárna vo veľkosti písma, prestrkanie sa nemení
+    const perPoint = helveticaTextWidth(line, 1)
+    const spacing = helveticaTextWidth(line, 0, obj.letterSpacingPt)
+    if (perPoint > 0) size = Math.min(size, (widthPt - spacing) / perPoint)
+  }
+  const heightEm = TEXT_ASCENT_EM + TEXT_DESCENT_EM + ((lines.length - 1) * obj.lineHeightPercent) / 100
+  size = Math.min(size, heightPt / heightEm)
+
+  const minimum = Math.min(obj.fontSizePt, obj.minFontSizePt ?? DEFAULT_MIN_FONT_SIZE_PT)
+  return Math.max(minimum, Math.floor(size * 10) / 10)
+}
+
+/* =====================
+ * VYHODNOTENIE PRE ZÁZNAM
+ * ===================== */
+
+/**
+ * Objekt pre záznam: text s hodnotou väzby, obrázok podľa názvu súboru
+ * z príloh jobu (nenájdený ostane pri náhradnom `src`), text so zmenšením
+ * prispôsobený rámčeku. Bez kontextu (žiadne dáta) ukáže text zápis väzby.
+ */
+export function resolveVdpObject(
+  obj: LabelObject,
+  context: VdpTemplateContext | null,
+  images: VdpImageSources = {},
+): { object: LabelObject; issues: VdpTemplateIssue[] } {
+  let object: LabelObject | TextObject | ImageObject = obj
+  let issues: VdpTemplateIssue[] = []
+
+  if (isVdpBoundObject(obj)) {
+    if (!context) {
+      if (isTextObject(obj)) object = { ...obj, content: vdpBindingLabel(obj) }
+    } else {
+      const result = renderVdpBinding(obj, context)
+      issues = result.issues
+      if (isTextObject(obj)) {
+        object = { ...obj, content: result.value }
+      } else {
+        const name = findVdpImage(obj.vdpImageNames, result.value)
+        const src = name === undefined ? undefined : images[name]
+        if (name !== undefined && !src) {
+          issues = [...issues, { position: 0, message: `Image "${name}" is missing from the job` }]
+        } else if (!src && result.value) {
+          issues = [...issues, { position: 0, message: `No image for "${result.value}"` }]
+        }
+        object = { ...obj, src: src ?? obj.src }
+      }
+    }
+  }
+
+  if (isTextObject(object) && object.shrinkToFit) {
+    object = { ...object, fontSizePt: fitTextFontSize(object) }
+  }
+  return { object, issues }
+}
+
+/** Vrstvy s objektmi vyhodnotenými pre záznam – náhľad na plátne */
+export function resolveVdpLayers(
+  layers: Layer[],
+  context: VdpTemplateContext | null,
+  images?: VdpImageSources,
+): Layer[] {
+  return layers.map(layer => ({
+    ...layer,
+    objects: layer.objects.map(obj => resolveVdpObject(obj, context, images).object),
+  }))
+}
+
+/** Tlačené objekty v poradí kreslenia – spodná vrstva a v nej spodný objekt prvé (vrstva 0 je navrchu) */
+function printedObjects(layers: Layer[]): LabelObject[] {
+  return [...layers]
+    .reverse()
+    .filter(layer => layer.visible && layer.printable)
+    .flatMap(layer => layer.objects.filter(obj => obj.visible && obj.printable))
+}
+
+/**
+ * Tlačené variabilné objekty pre záznam v poradí kreslenia. Chyby väzieb
+ * sú s názvom objektu; export sa na zázname s chybou zastaví a po oprave
+ * dát pokračuje od neho.
+ */
+export function vdpRecordObjects(
+  layers: Layer[],
+  context: VdpTemplateContext,
+  images?: VdpImageSources,
+): { objects: LabelObject[]; issues: string[] } {
+  const objects: LabelObject[] = []
+  const issues: string[] = []
+  for (const obj of printedObjects(layers).filter(isVdpBoundObject)) {
+    const resolved = resolveVdpObject(obj, context, images)
+    objects.push(resolved.object)
+    issues.push(...resolved.issues.map(issue => `${obj.name}: ${issue.message}`))
+  }
+  return { objects, issues }
+}
+
+/* =====================
+ * STATICKÁ GRAFIKA
+ * ===================== */
+
+/**
+ * Čiarový kód, na ktorého mieste sa tlačí variabilný symbol behu – vrchný
+ * kód s typom kódu behu, inak vrchný kód etikety
+ */
+export function vdpSymbolObject(layers: Layer[], codeType: CodeType): BarcodeObject | undefined {
+  const barcodes = printedObjects(layers).filter(isBarcodeObject).reverse()
+  return barcodes.find(obj => obj.codeType === codeType) ?? barcodes[0]
+}
+
+/** Tlačené objekty bez VDP väzby okrem kódu variabilného symbolu, v poradí kreslenia */
+export function vdpStaticObjects(layers: Layer[], symbolObject?: LabelObject): LabelObject[] {
+  return printedObjects(layers).filter(obj => !isVdpBoundObject(obj) && obj.id !== symbolObject?.id)
+}
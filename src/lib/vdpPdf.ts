@@ -0,0 +1,1123 @@
+// src/lib/vdpPdf.ts
+// Streamovaný VDP PDF export pre veľké tlačové behy – statická grafika
+// etikety je jeden form XObject, na stranu sa zapisuje len variabilný kód.
+// PDF sa zapisuje po blokoch strán s priebehom, zrušením a pokračovaním
+// od ľubovoľného záznamu. Variabilné texty a obrázky etikety sa kreslia
+// pre každý záznam, každý zdrojový obrázok sa do PDF zapíše raz.
+// Statické objekty kompozície (texty, tvary, obrázky, ďalšie kódy) sú vo
+// form XObjecte a symbol sa kreslí v rámčeku svojho čiarového kódu.
+// Jednotlivé súbory sú PDF s jednou etiketou pre každý záznam.
+import type {
+  BarcodeObject,
+  ImageObject,
+  LabelObject,
+  ShapeObject,
+  StepRepeatConfig,
+  VdpExportOptions,
+} from '../types/barcodeTypes'
+import { barcodeTypeForCodeType, renderBwipImage } from '../barcodeQuality'
+import {
+  barcodeModuleMm,
+  barcodeObjectSize,
+  isBarcodeObject,
+  isImageObject,
+  isShapeObject,
+  isTextObject,
+  labelTextLines,
+} from './labelObjects'
+import { createPdfStreamWriter, pdfNumber, pdfString, type PdfSink, type PdfStreamWriter } from './pdfStream'
+import type { ZipEntry } from './zipArchive'
+import { VDP_PROOF_REASON_LABELS, vdpProofDisplayValue, type VdpProofEntry } from './vdpProof'
+
+/* =====================
+ * SYMBOL
+ * ===================== */
+
+export type ModuleRect = { x: number; y: number; w: number; h: number }
+
+/** Symbol v mriežke modulov (1 px bwip-js obrázka = 1 modul) */
+export type VdpPdfSymbol = {
+  widthModules: number
+  heightModules: number
+  rects: ModuleRect[]
+}
+
+/**
+ * Tmavé moduly vykresleného symbolu ako obdĺžniky v jednotkách modulu,
+ * zhodné po sebe idúce riadky sa zlúčia do jedného obdĺžnika
+ */
+export function moduleRects(image: ImageData): ModuleRect[] {
+  const rects: ModuleRect[] = []
+  let open: ModuleRect[] = []
+  let previousKey = ''
+
+  for (let y = 0; y < image.height; y++) {
+    const runs: ModuleRect[] = []
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[(y * image.width + x) * 4] >= 128) continue
+      const last = runs[runs.length - 1]
+      if (last && last.x + last.w === x) last.w++
+      else runs.push({ x, y, w: 1, h: 1 })
+    }
+
+    const key = runs.map(r => `${r.x}:${r.w}`).join(',')
+    if (key === previousKey) {
+      open.forEach(r => r.h++)
+      continue
+    }
+    open = runs
+    rects.push(...runs)
+    previousKey = key
+  }
+  return rects
+}
+
+/** Symbol z bwip-js obrázka vykresleného so scale 1 a bez paddingu */
+export function symbolFromImage(image: ImageData): VdpPdfSymbol {
+  return { widthModules: image.width, heightModules: image.height, rects: moduleRects(image) }
+}
+
+/** Lineárny kód má všetky moduly cez celú výšku – výška čiar je nezávislá od modulu */
+export const isLinearSymbol = (symbol: VdpPdfSymbol) =>
+  symbol.rects.every(r => r.y === 0 && r.h === symbol.heightModules)
+
+/** Symbol čiarového kódu objektu etikety; null, ak sa hodnota nedá zakódovať */
+export function barcodeObjectSymbol(obj: BarcodeObject): VdpPdfSymbol | null {
+  const barcodeType = barcodeTypeForCodeType(obj.codeType)
+  if (!barcodeType || !obj.value) return null
+  try {
+    return symbolFromImage(renderBwipImage(barcodeType, obj.value, { scale: 1, padding: 0 }))
+  } catch {
+    return null
+  }
+}
+
+/** Objekt kódu s rozmerom podľa symbolu – rovnaký rámček ako na plátne */
+export function sizedBarcodeObject(obj: BarcodeObject, symbol: VdpPdfSymbol): BarcodeObject {
+  const { widthMm, heightMm } = barcodeObjectSize(obj, symbol, isLinearSymbol(symbol))
+  return { ...obj, widthMm, heightMm }
+}
+
+/* =====================
+ * OBRÁZKY
+ * ===================== */
+
+/** Obrázok pre PDF – RGB pixely po riadkoch, priehľadnosť ako SMask */
+export type VdpPdfImage = {
+  width: number
+  height: number
+  rgb: Uint8Array
+  /** Len ak má obrázok priehľadné pixely */
+  alpha?: Uint8Array
+}
+
+/** Načítanie obrázka objektu podľa `src` (data URL) */
+export type VdpPdfImageLoader = (src: string) => Promise<VdpPdfImage>
+
+/** Obrázok z RGBA pixelov (canvas) */
+export function imageFromImageData(image: ImageData): VdpPdfImage {
+  const pixels = image.width * image.height
+  const rgb = new Uint8Array(pixels * 3)
+  const alpha = new Uint8Array(pixels)
+  let transparent = false
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = image.data[i * 4]
+    rgb[i * 3 + 1] = image.data[i * 4 + 1]
+    rgb[i * 3 + 2] = image.data[i * 4 + 2]
+    alpha[i] = image.data[i * 4 + 3]
+    if (alpha[i] < 255) transparent = true
+  }
+  return { width: image.width, height: image.height, rgb, alpha: transparent ? alpha : undefined }
+}
+
+/* =====================
+ * TYPY EXPORTU
+ * ===================== */
+
+export type VdpPdfLabel = {
+  widthMm: number
+  heightMm: number
+  xDimMm: number
+  /** Výška lineárneho symbolu; bez nej majú moduly výšku X (2D symboly) */
+  symbolHeightMm?: number
+  /** Farby ako #rrggbb */
+  barColor: string
+  backgroundColor?: string
+  cornerRadiusMm?: number
+  /** Hodnota záznamu pod symbolom (Helvetica) */
+  hrText: boolean
+  hrFontSizePt: number
+  /**
+   * Rámček variabilného symbolu – objekt čiarového kódu na etikete (mm od
+   * ľavého horného rohu, rotácia okolo stredu); bez neho je symbol v strede
+   */
+  symbolFrame?: Pick<LabelObject, 'xMm' | 'yMm' | 'widthMm' | 'heightMm' | 'rotation'>
+  /** Statické objekty etikety v poradí kreslenia – kreslia sa raz do form XObjectu */
+  objects?: LabelObject[]
+  /** Symboly statických čiarových kódov podľa id objektu */
+  symbols?: Record<string, VdpPdfSymbol>
+}
+
+/**
+ * Statický obsah etikety pre PDF – čiarové kódy dostanú symbol a rozmer
+ * podľa neho, kód s hodnotou, ktorá sa nedá zakódovať, sa vynechá
+ */
+export function vdpPdfStaticContent(objects: LabelObject[]): Pick<VdpPdfLabel, 'objects' | 'symbols'> {
+  const symbols: Record<string, VdpPdfSymbol> = {}
+  const sized = objects.flatMap(obj => {
+    if (!isBarcodeObject(obj)) return [obj]
+    const symbol = barcodeObjectSymbol(obj)
+    if (!symbol) return []
+    symbols[obj.id] = symbol
+    return [sizedBarcodeObject(obj, symbol)]
+  })
+  return { objects: sized, symbols }
+}
+
+export type VdpPdfRecordSource = {
+  /** Počet pozícií (bez `recordAt` = počet záznamov) */
+  count: number
+  valueAt: (index: number) => string
+  /** Záznam na pozícii (poradie po pruhoch pásu); -1 = prázdne miesto */
+  recordAt?: (position: number) => number
+  /** Variabilné textové a obrazové objekty vyhodnotené pre záznam (mm od ľavého horného rohu etikety) */
+  objectsAt?: (index: number) => LabelObject[]
+}
+
+export type VdpPdfRenderer = (value: string, index: number) => VdpPdfSymbol | Promise<VdpPdfSymbol>
+
+export type VdpPdfProgress = {
+  /** Zapísané záznamy v tomto súbore */
+  written: number
+  /** Záznamy na zápis od začiatočného */
+  total: number
+  /** Prvý ešte nezapísaný záznam (od 0) */
+  nextRecord: number
+  bytes: number
+}
+
+export type VdpPdfExportOptions = {
+  label: VdpPdfLabel
+  outputMode: Exclude<VdpExportOptions['outputMode'], 'INDIVIDUAL_FILES'>
+  labelsPerPage: number
+  stepRepeatConfig?: StepRepeatConfig
+  /** Pokračovanie od záznamu (od 0) */
+  startRecord?: number
+  /** Strán v jednom uzle stromu strán */
+  chunkSize?: number
+  title?: string
+  /** Načítanie obrázkov variabilných objektov; bez neho sa obrázky nekreslia */
+  loadImage?: VdpPdfImageLoader
+  signal?: AbortSignal
+  onProgress?: (progress: VdpPdfProgress) => void
+}
+
+export type VdpPdfExportResult = {
+  firstRecord: number
+  /** Prvý nezapísaný záznam – odtiaľto pokračuje ďalší súbor */
+  nextRecord: number
+  records: number
+  pages: number
+  bytes: number
+  cancelled: boolean
+  /** Chyba vykreslenia záznamu `nextRecord`, súbor obsahuje záznamy pred ním */
+  error?: string
+}
+
+/* =====================
+ * ROZLOŽENIE STRANY
+ * ===================== */
+
+const MM_TO_PT = 72 / 25.4
+
+export type VdpPdfPageLayout = {
+  widthMm: number
+  heightMm: number
+  /** Ľavé horné rohy etikiet od ľavého horného rohu strany, v poradí záznamov */
+  slots: { xMm: number; yMm: number }[]
+}
+
+function gridSlots(
+  columns: number,
+  rows: number,
+  leftMm: number,
+  topMm: number,
+  stepXMm: number,
+  stepYMm: number,
+): { xMm: number; yMm: number }[] {
+  const slots: { xMm: number; yMm: number }[] = []
+  for (let row = 0; row < Math.max(1, rows); row++) {
+    for (let column = 0; column < Math.max(1, columns); column++) {
+      slots.push({ xMm: leftMm + column * stepXMm, yMm: topMm + row * stepYMm })
+    }
+  }
+  return slots
+}
+
+/**
+ * Multi-page: etikety pod sebou na strane šírky etikety. Step & repeat:
+ * hárok alebo raport pásu s etiketami po riadkoch.
+ */
+export function vdpPdfPageLayout(
+  label: VdpPdfLabel,
+  outputMode: VdpPdfExportOptions['outputMode'],
+  labelsPerPage: number,
+  stepRepeatConfig?: StepRepeatConfig,
+): VdpPdfPageLayout {
+  const { widthMm, heightMm } = label
+
+  if (outputMode === 'STEP_REPEAT_PDF' && stepRepeatConfig?.mode === 'SHEET') {
+    const config = stepRepeatConfig
+    return {
+      widthMm: config.sheetWidthMm,
+      heightMm: config.sheetHeightMm,
+      slots: gridSlots(
+        config.columns,
+        config.rows,
+        config.leftMarginMm,
+        config.topMarginMm,
+        widthMm + config.horizontalGapMm,
+        heightMm + config.verticalGapMm,
+      ),
+    }
+  }
+  if (outputMode === 'STEP_REPEAT_PDF' && stepRepeatConfig?.mode === 'WEB') {
+    const config = stepRepeatConfig
+    return {
+      widthMm: config.webWidthMm,
+      heightMm: config.repeatLengthMm,
+      slots: gridSlots(
+        config.lanes,
+        config.rows,
+        config.leftMarginMm,
+        config.leadingEdgeMm,
+        widthMm + config.horizontalGapMm,
+        heightMm + config.verticalGapMm,
+      ),
+    }
+  }
+
+  const count = Math.max(1, Math.floor(labelsPerPage))
+  return { widthMm, heightMm: heightMm * count, slots: gridSlots(1, count, 0, 0, 0, heightMm) }
+}
+
+/* =====================
+ * OBSAH
+ * ===================== */
+
+/** Zložky RGB farby #rrggbb; null pre iný zápis (transparent, none) */
+function pdfRgb(hex: string): string | null {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim())
+  return match ? match.slice(1).map(c => pdfNumber(parseInt(c, 16) / 255)).join(' ') : null
+}
+
+function pdfFillColor(hex: string): string {
+  return `${pdfRgb(hex) ?? '0 0 0'} rg`
+}
+
+/** Obdĺžnik so zaoblenými rohmi (Bézierove kvadranty) */
+function roundedRectPath(width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2)
+  if (r <= 0) return `0 0 ${pdfNumber(width)} ${pdfNumber(height)} re`
+  const k = r * 0.5523
+  const n = pdfNumber
+  return [
+    `${n(r)} 0 m`,
+    `${n(width - r)} 0 l`,
+    `${n(width - r + k)} 0 ${n(width)} ${n(r - k)} ${n(width)} ${n(r)} c`,
+    `${n(width)} ${n(height - r)} l`,
+    `${n(width)} ${n(height - r + k)} ${n(width - r + k)} ${n(height)} ${n(width - r)} ${n(height)} c`,
+    `${n(r)} ${n(height)} l`,
+    `${n(r - k)} ${n(height)} 0 ${n(height - r + k)} 0 ${n(height - r)} c`,
+    `0 ${n(r)} l`,
+    `0 ${n(r - k)} ${n(r - k)} 0 ${n(r)} 0 c h`,
+  ].join('\n')
+}
+
+/** Elipsa vpísaná do obdĺžnika (Bézierove kvadranty) */
+function ellipsePath(width: number, height: number): string {
+  const rx = width / 2
+  const ry = height / 2
+  const kx = rx * 0.5523
+  const ky = ry * 0.5523
+  const n = pdfNumber
+  return [
+    `${n(width)} ${n(ry)} m`,
+    `${n(width)} ${n(ry + ky)} ${n(rx + kx)} ${n(height)} ${n(rx)} ${n(height)} c`,
+    `${n(rx - kx)} ${n(height)} 0 ${n(ry + ky)} 0 ${n(ry)} c`,
+    `0 ${n(ry - ky)} ${n(rx - kx)} 0 ${n(rx)} 0 c`,
+    `${n(rx + kx)} 0 ${n(width)} ${n(ry - ky)} ${n(width)} ${n(ry)} c h`,
+  ].join('\n')
+}
+
+/**
+ * Súradnice rámčeka objektu: počiatok v jeho ľavom hornom rohu, rotácia
+ * okolo stredu (otvára `q`, volajúci uzavrie `Q`)
+ */
+function objectFrame(obj: NonNullable<VdpPdfLabel['symbolFrame']>, labelHeight: number): string[] {
+  const n = pdfNumber
+  const width = obj.widthMm * MM_TO_PT
+  const height = obj.heightMm * MM_TO_PT
+  const centerX = (obj.xMm + obj.widthMm / 2) * MM_TO_PT
+  const centerY = labelHeight - (obj.yMm + obj.heightMm / 2) * MM_TO_PT
+  // Os y v PDF smeruje nahor – rotácia v smere hodín je záporný uhol
+  const angle = (obj.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return [
+    'q',
+    `${n(cos)} ${n(-sin)} ${n(sin)} ${n(cos)} ${n(centerX)} ${n(centerY)} cm`,
+    `1 0 0 1 ${n(-width / 2)} ${n(height / 2)} cm`,
+  ]
+}
+
+/** Približná šírka Helvetica textu v em (číslice 0,556) – na centrovanie HR textu */
+function helveticaWidthEm(text: string): number {
+  let width = 0
+  for (const char of text) {
+    if (/[0-9]/.test(char)) width += 0.556
+    else if (/[A-Z]/.test(char)) width += 0.667
+    else if (/[a-z]/.test(char)) width += 0.5
+    else width += 0.333
+  }
+  return width
+}
+
+/** Šírka riadku Helvetica v bodoch vrátane prestrkania (Tc sa pridá za každý znak) */
+export function helveticaTextWidth(text: string, fontSizePt: number, letterSpacingPt = 0): number {
+  return helveticaWidthEm(text) * fontSizePt + letterSpacingPt * [...text].length
+}
+
+/** Text pod symbolom – hodnota záznamu bez netlačiteľných znakov (FNC1) */
+export function vdpLabelHrText(label: VdpPdfLabel, value: string): string {
+  return label.hrText ? value.replace(/[^\x20-\x7E]/g, '') : ''
+}
+
+/**
+ * Obsah jednej etikety v jej súradniciach (body, počiatok vľavo dole) –
+ * symbol s HR textom je v strede rámčeka kódu navrchu, bez rámčeka
+ * v strede etikety
+ */
+function labelContent(label: VdpPdfLabel, symbol: VdpPdfSymbol, value: string): string {
+  const frame = label.symbolFrame
+  const width = (frame ? frame.widthMm : label.widthMm) * MM_TO_PT
+  const height = label.heightMm * MM_TO_PT
+  const moduleWidth = label.xDimMm * MM_TO_PT
+  const moduleHeight = label.symbolHeightMm
+    ? (label.symbolHeightMm * MM_TO_PT) / Math.max(1, symbol.heightModules)
+    : moduleWidth
+  const symbolWidth = symbol.widthModules * moduleWidth
+  const symbolHeight = symbol.heightModules * moduleHeight
+
+  const text = vdpLabelHrText(label, value)
+  const textGap = text ? label.hrFontSizePt * 0.3 : 0
+  const textHeight = text ? label.hrFontSizePt : 0
+
+  const left = (width - symbolWidth) / 2
+  const top = frame ? 0 : height - (height - symbolHeight - textGap - textHeight) / 2
+
+  const n = pdfNumber
+  const parts = ['/Label Do', ...(frame ? objectFrame(frame, height) : []), pdfFillColor(label.barColor)]
+  if (symbol.rects.length > 0) {
+    for (const r of symbol.rects) {
+      const y = top - (r.y + r.h) * moduleHeight
+      parts.push(`${n(left + r.x * moduleWidth)} ${n(y)} ${n(r.w * moduleWidth)} ${n(r.h * moduleHeight)} re`)
+    }
+    parts.push('f')
+  }
+  if (text) {
+    const textWidth = helveticaWidthEm(text) * label.hrFontSizePt
+    const baseline = top - symbolHeight - textGap - label.hrFontSizePt * 0.8
+    parts.push(`BT /F1 ${n(label.hrFontSizePt)} Tf ${n((width - textWidth) / 2)} ${n(baseline)} Td ${pdfString(text)} Tj ET`)
+  }
+  if (frame) parts.push('Q')
+  return parts.join('\n')
+}
+
+/** Rezy Helvetica ako /F1 – /F4 (normálne, tučné, kurzíva, tučná kurzíva) */
+const HELVETICA_FONTS = ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique']
+
+/** Zapíše písma a vráti položku /Font do zdrojov strany */
+async function writeHelveticaFonts(writer: PdfStreamWriter): Promise<string> {
+  const entries: string[] = []
+  for (const [i, baseFont] of HELVETICA_FONTS.entries()) {
+    const id = writer.allocate()
+    await writer.writeObject(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`)
+    entries.push(`/F${i + 1} ${id} 0 R`)
+  }
+  return `/Font << ${entries.join(' ')} >>`
+}
+
+type PdfImageEntry = { name: string; id: number; width: number; height: number }
+
+/**
+ * Obrázky variabilných objektov – každý zdroj sa zapíše ako image XObject
+ * pri prvom použití, strany sa naň odkazujú menom /ImN
+ */
+function createPdfImageCache(writer: PdfStreamWriter, loadImage?: VdpPdfImageLoader) {
+  const images = new Map<string, PdfImageEntry>()
+
+  const imageObjects = (objects: LabelObject[]) =>
+    objects.filter((obj): obj is ImageObject => isImageObject(obj) && Boolean(obj.src) && obj.visible && obj.printable)
+
+  return {
+    /** Zapíše ešte nepoužité obrázky objektov (chyba načítania sa vyhodí) */
+    prepare: async (objects: LabelObject[]) => {
+      if (!loadImage) return
+      for (const obj of imageObjects(objects)) {
+        if (images.has(obj.src)) continue
+        const image = await loadImage(obj.src)
+        const dictionary = `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /BitsPerComponent 8`
+        let smask = ''
+        if (image.alpha) {
+          const maskId = writer.allocate()
+          await writer.writeStream(maskId, `${dictionary} /ColorSpace /DeviceGray`, image.alpha)
+          smask = ` /SMask ${maskId} 0 R`
+        }
+        const id = writer.allocate()
+        await writer.writeStream(id, `${dictionary} /ColorSpace /DeviceRGB${smask}`, image.rgb)
+        images.set(obj.src, { name: `Im${images.size + 1}`, id, width: image.width, height: image.height })
+      }
+    },
+    get: (src: string) => images.get(src),
+    /** Položky /XObject pre obrázky objektov */
+    references: (objects: LabelObject[]) =>
+      imageObjects(objects).flatMap(obj => {
+        const entry = images.get(obj.src)
+        return entry ? [`/${entry.name} ${entry.id} 0 R`] : []
+      }),
+  }
+}
+
+type PdfImageCache = ReturnType<typeof createPdfImageCache>
+
+/** Čiarový kód objektu v jeho rámčeku – biele pole, symbol so zúžením čiar (BWR) a HR text */
+function barcodeContent(obj: BarcodeObject, symbol: VdpPdfSymbol): string[] {
+  const n = pdfNumber
+  const width = obj.widthMm * MM_TO_PT
+  const height = obj.heightMm * MM_TO_PT
+  const moduleWidth = width / Math.max(1, symbol.widthModules)
+  const moduleHeight = isLinearSymbol(symbol)
+    ? (barcodeObjectSize(obj, symbol, true).symbolHeightMm * MM_TO_PT) / Math.max(1, symbol.heightModules)
+    : moduleWidth
+  const moduleMm = barcodeModuleMm(obj)
+  const bwr = moduleMm > 0 ? Math.min(0.9, Math.max(0, obj.barWidthReductionMm / moduleMm)) : 0
+
+  const parts: string[] = []
+  if (obj.whiteBoxEnabled) {
+    const padding = obj.whiteBoxPaddingMm * MM_TO_PT
+    parts.push(
+      `q 1 1 1 rg 1 0 0 1 ${n(-padding)} ${n(-height - padding)} cm`,
+      roundedRectPath(width + 2 * padding, height + 2 * padding, obj.whiteBoxCornerRadiusMm * MM_TO_PT),
+      'f Q',
+    )
+  }
+  if (symbol.rects.length > 0) {
+    parts.push(pdfFillColor(obj.strokeColor || '#000000'))
+    for (const r of symbol.rects) {
+      const x = (r.x + bwr / 2) * moduleWidth
+      const w = Math.max(0, r.w - bwr) * moduleWidth
+      parts.push(`${n(x)} ${n(-(r.y + r.h) * moduleHeight)} ${n(w)} ${n(r.h * moduleHeight)} re`)
+    }
+    parts.push('f')
+  }
+  const text = obj.hrCustomText || obj.value
+  if (obj.showHrText && text) {
+    const size = obj.hrFontSizePt
+    const textWidth = helveticaTextWidth(text, size)
+    parts.push(
+      pdfFillColor(obj.hrTextColor),
+      `BT /F1 ${n(size)} Tf ${n((width - textWidth) / 2)} ${n(-height + size * 0.2)} Td ${pdfString(text)} Tj ET`,
+    )
+  }
+  return parts
+}
+
+/** Obdĺžnik, elipsa alebo čiara v rámčeku objektu; bez výplne aj obrysu nič */
+function shapeContent(obj: ShapeObject): string[] {
+  const n = pdfNumber
+  const width = obj.widthMm * MM_TO_PT
+  const height = obj.heightMm * MM_TO_PT
+  const stroke = pdfRgb(obj.strokeColor)
+  const strokeWidth = obj.strokeWidthMm * MM_TO_PT
+  if (obj.type === 'line') {
+    if (!stroke) return []
+    return [`${stroke} RG ${n(strokeWidth)} w 0 ${n(-height / 2)} m ${n(width)} ${n(-height / 2)} l S`]
+  }
+
+  const fill = pdfRgb(obj.fillColor)
+  const outline = strokeWidth > 0 ? stroke : null
+  if (!fill && !outline) return []
+  const path =
+    obj.type === 'ellipse' ? ellipsePath(width, height) : roundedRectPath(width, height, obj.cornerRadiusMm * MM_TO_PT)
+  return [
+    `1 0 0 1 0 ${n(-height)} cm`,
+    ...(fill ? [`${fill} rg`] : []),
+    ...(outline ? [`${outline} RG ${n(strokeWidth)} w`] : []),
+    path,
+    fill && outline ? 'B' : fill ? 'f' : 'S',
+  ]
+}
+
+/**
+ * Objekty etikety v jej súradniciach (body, počiatok vľavo dole). Každý
+ * objekt má počiatok v ľavom hornom rohu svojho rámčeka a rotáciu okolo
+ * stredu; text je Helvetica, obrázky podľa prispôsobenia (fit), čiarové
+ * kódy so symbolom z `label.symbols`.
+ */
+function labelObjectsContent(label: VdpPdfLabel, objects: LabelObject[], images: PdfImageCache): string {
+  const n = pdfNumber
+  const labelHeight = label.heightMm * MM_TO_PT
+  const parts: string[] = []
+
+  for (const obj of objects) {
+    if (!obj.visible || !obj.printable) continue
+    const width = obj.widthMm * MM_TO_PT
+    const height = obj.heightMm * MM_TO_PT
+    const frame = objectFrame(obj, labelHeight)
+
+    if (isTextObject(obj)) {
+      const size = obj.fontSizePt
+      const lineHeight = (size * obj.lineHeightPercent) / 100
+      const font = 1 + (obj.fontWeight === 'bold' ? 1 : 0) + (obj.fontStyle === 'italic' ? 2 : 0)
+      parts.push(...frame, pdfFillColor(obj.fillColor), `BT /F${font} ${n(size)} Tf ${n(obj.letterSpacingPt)} Tc`)
+      labelTextLines(obj).forEach((line, i) => {
+        const lineWidth = helveticaTextWidth(line, size, obj.letterSpacingPt)
+        const x = obj.horizontalAlign === 'center' ? (width - lineWidth) / 2 : obj.horizontalAlign === 'right' ? width - lineWidth : 0
+        parts.push(`1 0 0 1 ${n(x)} ${n(-(size + i * lineHeight))} Tm ${pdfString(line)} Tj`)
+      })
+      parts.push('ET', 'Q')
+    } else if (isImageObject(obj)) {
+      const image = obj.src ? images.get(obj.src) : undefined
+      if (!image) continue
+      let drawWidth = width
+      let drawHeight = height
+      if (obj.fit !== 'fill') {
+        const fitScale = (obj.fit === 'cover' ? Math.max : Math.min)(width / image.width, height / image.height)
+        drawWidth = image.width * fitScale
+        drawHeight = image.height * fitScale
+      }
+      // 'none' je ako v náhľade ukotvené vľavo hore, ostatné na stred
+      const x = obj.fit === 'none' ? 0 : (width - drawWidth) / 2
+      const top = obj.fit === 'none' ? 0 : (height - drawHeight) / 2
+      parts.push(
+        ...frame,
+        `0 ${n(-height)} ${n(width)} ${n(height)} re W n`,
+        `${n(drawWidth)} 0 0 ${n(drawHeight)} ${n(x)} ${n(-top - drawHeight)} cm /${image.name} Do`,
+        'Q',
+      )
+    } else if (isBarcodeObject(obj)) {
+      const symbol = label.symbols?.[obj.id]
+      if (symbol) parts.push(...frame, ...barcodeContent(obj, symbol), 'Q')
+    } else if (isShapeObject(obj)) {
+      const shape = shapeContent(obj)
+      if (shape.length > 0) parts.push(...frame, ...shape, 'Q')
+    }
+  }
+  return parts.join('\n')
+}
+
+/**
+ * Form XObject etikety – pozadie a statické objekty s vlastnými zdrojmi;
+ * obrázky statických objektov sa zapíšu pred ním
+ */
+async function writeLabelForm(
+  writer: PdfStreamWriter,
+  id: number,
+  label: VdpPdfLabel,
+  fonts: string,
+  images: PdfImageCache,
+): Promise<void> {
+  const n = pdfNumber
+  const width = label.widthMm * MM_TO_PT
+  const height = label.heightMm * MM_TO_PT
+  const objects = label.objects ?? []
+  await images.prepare(objects)
+
+  const parts: string[] = []
+  if (label.backgroundColor) {
+    parts.push(pdfFillColor(label.backgroundColor), roundedRectPath(width, height, (label.cornerRadiusMm ?? 0) * MM_TO_PT), 'f')
+  }
+  if (objects.length > 0) parts.push(labelObjectsContent(label, objects, images))
+  await writer.writeStream(
+    id,
+    `/Type /XObject /Subtype /Form /BBox [0 0 ${n(width)} ${n(height)}] /Resources << /XObject << ${images.references(objects).join(' ')} >> ${fonts} /ProcSet [/PDF /Text /ImageC] >>`,
+    parts.join('\n'),
+  )
+}
+
+/* =====================
+ * EXPORT
+ * ===================== */
+
+/** Po koľkých ms sa pustí UI (priebeh, zrušenie) */
+const YIELD_INTERVAL_MS = 50
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
+
+/**
+ * Zapíše záznamy od `startRecord` do PDF. Pri zrušení alebo chybe
+ * vykreslenia sa súbor uzavrie so zapísanými stranami (platné PDF)
+ * a `nextRecord` určuje, odkiaľ pokračovať. Chyba zápisu výstupu
+ * rozpísaný súbor zahodí a vyhodí sa ďalej.
+ */
+export async function exportVdpPdf(
+  source: VdpPdfRecordSource,
+  render: VdpPdfRenderer,
+  sink: PdfSink,
+  options: VdpPdfExportOptions,
+): Promise<VdpPdfExportResult> {
+  const { label, signal, onProgress } = options
+  const layout = vdpPdfPageLayout(label, options.outputMode, options.labelsPerPage, options.stepRepeatConfig)
+  const firstRecord = Math.min(Math.max(0, Math.floor(options.startRecord ?? 0)), source.count)
+  const chunkSize = Math.max(1, options.chunkSize ?? 500)
+  const writer = createPdfStreamWriter(sink)
+
+  const pageWidth = layout.widthMm * MM_TO_PT
+  const pageHeight = layout.heightMm * MM_TO_PT
+  const labelHeight = label.heightMm * MM_TO_PT
+
+  let nextRecord = firstRecord
+  let pages = 0
+  let cancelled = false
+  let error: string | undefined
+
+  try {
+    const catalogId = writer.allocate()
+    const rootPagesId = writer.allocate()
+    const labelFormId = writer.allocate()
+    const resourcesId = writer.allocate()
+    const infoId = writer.allocate()
+    const images = createPdfImageCache(writer, options.loadImage)
+
+    await writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${rootPagesId} 0 R >>`)
+    const fonts = await writeHelveticaFonts(writer)
+    await writeLabelForm(writer, labelFormId, label, fonts, images)
+    // Strana s obrázkami má vlastné zdroje, ostatné zdieľajú jeden objekt
+    const resources = (imageRefs: string[] = []) =>
+      `<< /XObject << /Label ${labelFormId} 0 R${imageRefs.map(ref => ` ${ref}`).join('')} >> ${fonts} /ProcSet [/PDF /Text /ImageC] >>`
+    await writer.writeObject(resourcesId, resources())
+    await writer.writeObject(
+      infoId,
+      `<< /Producer (GPCS CodeStudio) /Title ${pdfString(options.title ?? 'VDP print run')} /CreationDate (${pdfDate(new Date())}) >>`,
+    )
+
+    // Strom strán: koreň -> uzol pre každý blok `chunkSize` strán -> strany
+    const chunkIds: number[] = []
+    let chunkId = 0
+    let chunkKids: number[] = []
+    const closeChunk = async () => {
+      if (chunkKids.length === 0) return
+      await writer.writeObject(
+        chunkId,
+        `<< /Type /Pages /Parent ${rootPagesId} 0 R /Kids [${chunkKids.map(id => `${id} 0 R`).join(' ')}] /Count ${chunkKids.length} >>`,
+      )
+      chunkIds.push(chunkId)
+      chunkKids = []
+    }
+
+    let lastYield = performance.now()
+    pageLoop: while (nextRecord < source.count) {
+      if (signal?.aborted) {
+        cancelled = true
+        break
+      }
+
+      const contents: string[] = []
+      const imageRefs = new Set<string>()
+      let record = nextRecord
+      for (const slot of layout.slots) {
+        if (record >= source.count) break
+        const index = source.recordAt ? source.recordAt(record) : record
+        if (index < 0) {
+          record++
+          continue
+        }
+        const value = source.valueAt(index)
+        let symbol: VdpPdfSymbol
+        let objects: LabelObject[]
+        try {
+          symbol = await render(value, index)
+          objects = source.objectsAt?.(index) ?? []
+          await images.prepare(objects)
+        } catch (renderError) {
+          error = `Record ${index + 1}: ${renderError instanceof Error ? renderError.message : String(renderError)}`
+          // Strana s chybným záznamom sa nezapíše, pokračuje sa od jej prvého záznamu
+          break pageLoop
+        }
+        const x = slot.xMm * MM_TO_PT
+        const y = pageHeight - slot.yMm * MM_TO_PT - labelHeight
+        const variable = objects.length > 0 ? `\n${labelObjectsContent(label, objects, images)}` : ''
+        contents.push(`q 1 0 0 1 ${pdfNumber(x)} ${pdfNumber(y)} cm\n${labelContent(label, symbol, value)}${variable}\nQ`)
+        images.references(objects).forEach(ref => imageRefs.add(ref))
+        record++
+      }
+
+      if (chunkKids.length === 0) chunkId = writer.allocate()
+      const contentId = writer.allocate()
+      const pageId = writer.allocate()
+      await writer.writeStream(contentId, '', contents.join('\n'))
+      await writer.writeObject(
+        pageId,
+        `<< /Type /Page /Parent ${chunkId} 0 R /MediaBox [0 0 ${pdfNumber(pageWidth)} ${pdfNumber(pageHeight)}] /Resources ${imageRefs.size > 0 ? resources([...imageRefs]) : `${resourcesId} 0 R`} /Contents ${contentId} 0 R >>`,
+      )
+      chunkKids.push(pageId)
+      pages++
+      nextRecord = record
+      if (chunkKids.length >= chunkSize) await closeChunk()
+
+      if (performance.now() - lastYield >= YIELD_INTERVAL_MS) {
+        onProgress?.({
+          written: nextRecord - firstRecord,
+          total: source.count - firstRecord,
+          nextRecord,
+          bytes: writer.bytesWritten(),
+        })
+        await new Promise(resolve => setTimeout(resolve, 0))
+        lastYield = performance.now()
+      }
+    }
+
+    await closeChunk()
+    await writer.writeObject(
+      rootPagesId,
+      `<< /Type /Pages /Kids [${chunkIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages} >>`,
+    )
+    await writer.finish(catalogId, infoId)
+    const bytes = writer.bytesWritten()
+    onProgress?.({ written: nextRecord - firstRecord, total: source.count - firstRecord, nextRecord, bytes })
+
+    return { firstRecord, nextRecord, records: nextRecord - firstRecord, pages, bytes, cancelled, error }
+  } catch (writeError) {
+    await writer.abort()
+    throw writeError
+  }
+}
+
+/* =====================
+ * JEDNOTLIVÉ SÚBORY
+ * ===================== */
+
+export type VdpPdfFilesOptions = Pick<VdpPdfExportOptions, 'label' | 'startRecord' | 'loadImage' | 'signal' | 'onProgress'> & {
+  /** Názov súboru záznamu bez prípony */
+  fileNameAt: (index: number, value: string) => string
+}
+
+/** Výstup do pamäte – súbor jedného záznamu */
+function createMemoryPdfSink(): PdfSink & { data: () => Uint8Array } {
+  let chunks: Uint8Array[] = []
+  return {
+    write: async chunk => {
+      chunks.push(chunk.slice())
+    },
+    close: async () => {},
+    abort: async () => {
+      chunks = []
+    },
+    data: () => {
+      const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+      let offset = 0
+      for (const chunk of chunks) {
+        data.set(chunk, offset)
+        offset += chunk.length
+      }
+      return data
+    },
+  }
+}
+
+/**
+ * Jednotlivé súbory – každý záznam od `startRecord` ako samostatné PDF
+ * s jednou etiketou (vrátane variabilných objektov). Pri zrušení alebo
+ * chybe vykreslenia sú v `files` záznamy pred `nextRecord`.
+ */
+export async function exportVdpPdfFiles(
+  source: Omit<VdpPdfRecordSource, 'recordAt'>,
+  render: VdpPdfRenderer,
+  options: VdpPdfFilesOptions,
+): Promise<VdpPdfExportResult & { files: ZipEntry[] }> {
+  const { signal, onProgress } = options
+  const firstRecord = Math.min(Math.max(0, Math.floor(options.startRecord ?? 0)), source.count)
+  const files: ZipEntry[] = []
+  const names = new Set<string>()
+  let nextRecord = firstRecord
+  let bytes = 0
+  let cancelled = false
+  let error: string | undefined
+
+  let lastYield = performance.now()
+  while (nextRecord < source.count) {
+    if (signal?.aborted) {
+      cancelled = true
+      break
+    }
+    const index = nextRecord
+    const value = source.valueAt(index)
+    const sink = createMemoryPdfSink()
+    const result = await exportVdpPdf({ ...source, count: index + 1 }, render, sink, {
+      label: options.label,
+      outputMode: 'MULTI_PAGE_PDF',
+      labelsPerPage: 1,
+      startRecord: index,
+      title: options.fileNameAt(index, value),
+      loadImage: options.loadImage,
+    })
+    if (result.error) {
+      error = result.error
+      break
+    }
+    // Rovnaký názov (napr. bez {INDEX} vo vzore) dostane číslo záznamu
+    const base = options.fileNameAt(index, value)
+    const name = names.has(`${base}.pdf`) ? `${base}_${index + 1}.pdf` : `${base}.pdf`
+    names.add(name)
+    files.push({ name, data: sink.data() })
+    bytes += result.bytes
+    nextRecord++
+
+    if (performance.now() - lastYield >= YIELD_INTERVAL_MS) {
+      onProgress?.({ written: nextRecord - firstRecord, total: source.count - firstRecord, nextRecord, bytes })
+      await new Promise(resolve => setTimeout(resolve, 0))
+      lastYield = performance.now()
+    }
+  }
+
+  onProgress?.({ written: nextRecord - firstRecord, total: source.count - firstRecord, nextRecord, bytes })
+  const records = nextRecord - firstRecord
+  return { firstRecord, nextRecord, records, pages: records, bytes, cancelled, error, files }
+}
+
+/* =====================
+ * KOREKTÚRA (PROOF)
+ * ===================== */
+
+export type VdpProofPdfOptions = {
+  label: VdpPdfLabel
+  title: string
+  /** Počet záznamov celého behu */
+  totalRecords: number
+  /** Popis výberu záznamov (prvé N, posledné N…) */
+  criteria: string
+  /** Variabilné objekty etikety pre záznam – ako pri exporte behu */
+  objectsAt?: (index: number) => LabelObject[]
+  loadImage?: VdpPdfImageLoader
+}
+
+const PROOF_PAGE = { widthMm: 210, heightMm: 297, marginMm: 15 }
+const PROOF_HEADER_MM = 22
+const PROOF_FOOTER_MM = 10
+const PROOF_SIGN_OFF_MM = 36
+/** Etiketa sa na proofe zmenší, ak je väčšia */
+const PROOF_LABEL_BOX = { widthMm: 80, heightMm: 50 }
+const PROOF_TEXT_PT = 8
+const PROOF_LINE_PT = 10.5
+
+/** Zalomenie textu na šírku v bodoch (Helvetica) */
+function wrapPdfText(text: string, widthPt: number, fontSizePt: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const char of text) {
+    if (line && helveticaWidthEm(line + char) * fontSizePt > widthPt) {
+      lines.push(line)
+      line = ''
+    }
+    line += char
+  }
+  if (line || lines.length === 0) lines.push(line)
+  return lines
+}
+
+function proofEntryLines(
+  entry: VdpProofEntry,
+  label: VdpPdfLabel,
+  totalRecords: number,
+): { text: string; bold?: boolean; color?: string }[] {
+  const lines: { text: string; bold?: boolean; color?: string }[] = [
+    {
+      text: `Record ${entry.index + 1} of ${totalRecords} (${entry.reasons.map(reason => VDP_PROOF_REASON_LABELS[reason]).join(', ')})`,
+      bold: true,
+    },
+  ]
+  if (entry.sourceRow !== undefined) lines.push({ text: `Source row: ${entry.sourceRow}` })
+  lines.push({ text: `Encoded data: ${vdpProofDisplayValue(entry.value)}` })
+  lines.push({ text: `HR text: ${vdpLabelHrText(label, entry.value) || '(none)'}` })
+  if (entry.gs1Hri) lines.push({ text: `GS1 elements: ${entry.gs1Hri}` })
+  if (entry.decodedData === undefined) {
+    lines.push({ text: 'Decoded: not verified', color: '#666666' })
+  } else if (entry.decodedData === null) {
+    lines.push({ text: 'Decoded: UNREADABLE', color: '#cc0000' })
+  } else {
+    const match = entry.decodedData === entry.value
+    lines.push({
+      text: `Decoded: ${vdpProofDisplayValue(entry.decodedData)}${match ? '' : ' (MISMATCH)'}`,
+      color: match ? undefined : '#cc0000',
+    })
+  }
+  if (entry.grade) {
+    lines.push({
+      text: `Grade: ${entry.grade}${entry.passed === false ? ' - FAIL' : ''}`,
+      color: entry.passed === false ? '#cc0000' : undefined,
+    })
+  }
+  return lines
+}
+
+/**
+ * Proof na schválenie dátového zlúčenia – A4 s etiketou každého vybraného
+ * záznamu tak, ako sa vytlačí (veľká etiketa zmenšená), jej dátami, HR
+ * textom, číslom záznamu a zdrojového riadku a podpisovým blokom na konci.
+ * Chyba vykreslenia záznamu sa vypíše na proof, export nepreruší.
+ */
+export async function exportVdpProofPdf(
+  entries: VdpProofEntry[],
+  render: VdpPdfRenderer,
+  sink: PdfSink,
+  options: VdpProofPdfOptions,
+): Promise<{ pages: number; bytes: number }> {
+  const { label } = options
+  const writer = createPdfStreamWriter(sink)
+  const n = pdfNumber
+
+  const scale = Math.min(1, PROOF_LABEL_BOX.widthMm / label.widthMm, PROOF_LABEL_BOX.heightMm / label.heightMm)
+  const margin = PROOF_PAGE.marginMm * MM_TO_PT
+  const pageWidth = PROOF_PAGE.widthMm * MM_TO_PT
+  const pageHeight = PROOF_PAGE.heightMm * MM_TO_PT
+  const textLeft = margin + (PROOF_LABEL_BOX.widthMm + 6) * MM_TO_PT
+  const textWidth = pageWidth - margin - textLeft
+  const labelHeight = label.heightMm * scale * MM_TO_PT
+
+  // Výška riadku záznamu: etiketa alebo text (najviac 8 riadkov), podľa toho, čo je vyššie
+  const rowHeight = Math.max(labelHeight, 8 * PROOF_LINE_PT) + 6 * MM_TO_PT
+  const bodyTop = pageHeight - margin - PROOF_HEADER_MM * MM_TO_PT
+  const bodyBottom = margin + PROOF_FOOTER_MM * MM_TO_PT
+  const perPage = Math.max(1, Math.floor((bodyTop - bodyBottom) / rowHeight))
+  const recordPages = Math.max(1, Math.ceil(entries.length / perPage))
+  const lastPageRows = entries.length - (recordPages - 1) * perPage
+  const signOffFits = bodyTop - lastPageRows * rowHeight - PROOF_SIGN_OFF_MM * MM_TO_PT >= bodyBottom
+  const totalPages = recordPages + (signOffFits ? 0 : 1)
+
+  const text = (x: number, y: number, value: string, font = 'F1', size = PROOF_TEXT_PT) =>
+    `BT /${font} ${n(size)} Tf ${n(x)} ${n(y)} Td ${pdfString(value)} Tj ET`
+
+  const header = (page: number): string =>
+    [
+      '0 0 0 rg',
+      text(margin, pageHeight - margin - 12, `VDP proof - ${options.title}`, 'F2', 13),
+      text(
+        margin,
+        pageHeight - margin - 27,
+        `${options.totalRecords} records in run, ${entries.length} shown (${options.criteria}) - generated ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`,
+      ),
+      text(pageWidth - margin - 60, margin, `Page ${page} of ${totalPages}`),
+      `0.6 0.6 0.6 RG 0.5 w ${n(margin)} ${n(bodyTop + 6)} m ${n(pageWidth - margin)} ${n(bodyTop + 6)} l S`,
+    ].join('\n')
+
+  const signOff = (top: number): string => {
+    const lineY = top - 28 * MM_TO_PT
+    const third = (pageWidth - 2 * margin) / 3
+    return [
+      '0 0 0 rg',
+      text(margin, top - 14, 'Data merge approved for production', 'F2', 10),
+      text(margin, top - 28, 'By signing, the customer confirms the variable data, record order and human readable text shown above.'),
+      '0 0 0 RG 0.5 w',
+      ...[0, 1, 2].map(i => `${n(margin + i * third)} ${n(lineY)} m ${n(margin + (i + 1) * third - 12)} ${n(lineY)} l S`),
+      ...['Name', 'Signature', 'Date'].map((caption, i) => text(margin + i * third, lineY - 10, caption)),
+    ].join('\n')
+  }
+
+  try {
+    const catalogId = writer.allocate()
+    const rootPagesId = writer.allocate()
+    const labelFormId = writer.allocate()
+    const resourcesId = writer.allocate()
+    const infoId = writer.allocate()
+    const images = createPdfImageCache(writer, options.loadImage)
+
+    await writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${rootPagesId} 0 R >>`)
+    const fonts = await writeHelveticaFonts(writer)
+    await writeLabelForm(writer, labelFormId, label, fonts, images)
+    const resources = (imageRefs: string[] = []) =>
+      `<< /XObject << /Label ${labelFormId} 0 R${imageRefs.map(ref => ` ${ref}`).join('')} >> ${fonts} /ProcSet [/PDF /Text /ImageC] >>`
+    await writer.writeObject(resourcesId, resources())
+    await writer.writeObject(
+      infoId,
+      `<< /Producer (GPCS CodeStudio) /Title ${pdfString(`VDP proof - ${options.title}`)} /CreationDate (${pdfDate(new Date())}) >>`,
+    )
+
+    const pageIds: number[] = []
+    const writePage = async (content: string, imageRefs: string[] = []) => {
+      const contentId = writer.allocate()
+      const pageId = writer.allocate()
+      await writer.writeStream(contentId, '', content)
+      await writer.writeObject(
+        pageId,
+        `<< /Type /Page /Parent ${rootPagesId} 0 R /MediaBox [0 0 ${n(pageWidth)} ${n(pageHeight)}] /Resources ${imageRefs.length > 0 ? resources(imageRefs) : `${resourcesId} 0 R`} /Contents ${contentId} 0 R >>`,
+      )
+      pageIds.push(pageId)
+    }
+
+    for (let page = 0; page < recordPages; page++) {
+      const parts = [header(page + 1)]
+      const imageRefs = new Set<string>()
+      const pageEntries = entries.slice(page * perPage, (page + 1) * perPage)
+
+      for (const [row, entry] of pageEntries.entries()) {
+        const top = bodyTop - row * rowHeight
+        const labelX = margin + ((PROOF_LABEL_BOX.widthMm - label.widthMm * scale) / 2) * MM_TO_PT
+        const labelY = top - labelHeight
+
+        let renderError: string | null = null
+        try {
+          const symbol = await render(entry.value, entry.index)
+          const objects = options.objectsAt?.(entry.index) ?? []
+          await images.prepare(objects)
+          const variable = objects.length > 0 ? `\n${labelObjectsContent(label, objects, images)}` : ''
+          parts.push(
+            `q ${n(scale)} 0 0 ${n(scale)} ${n(labelX)} ${n(labelY)} cm\n${labelContent(label, symbol, entry.value)}${variable}\nQ`,
+          )
+          images.references(objects).forEach(ref => imageRefs.add(ref))
+        } catch (error) {
+          renderError = error instanceof Error ? error.message : String(error)
+        }
+        // Obrys etikety – na proofe je vidieť jej rozmer aj bez pozadia
+        parts.push(
+          `0.7 0.7 0.7 RG 0.5 w ${n(labelX)} ${n(labelY)} ${n(label.widthMm * scale * MM_TO_PT)} ${n(labelHeight)} re S`,
+        )
+        if (scale < 1) {
+          parts.push('0.4 0.4 0.4 rg', text(labelX, labelY - 9, `scaled to ${Math.round(scale * 100)} %`, 'F1', 6.5))
+        }
+
+        const lines = proofEntryLines(entry, label, options.totalRecords)
+        if (renderError) lines.push({ text: `Render error: ${renderError}`, color: '#cc0000' })
+        let y = top - PROOF_TEXT_PT
+        let written = 0
+        for (const line of lines) {
+          for (const wrapped of wrapPdfText(line.text, textWidth, PROOF_TEXT_PT)) {
+            if (written++ >= 8) break
+            parts.push(pdfFillColor(line.color ?? '#000000'), text(textLeft, y, wrapped, line.bold ? 'F2' : 'F1'))
+            y -= PROOF_LINE_PT
+          }
+        }
+
+        const separator = top - rowHeight + 3 * MM_TO_PT
+        parts.push(`0.85 0.85 0.85 RG 0.5 w ${n(margin)} ${n(separator)} m ${n(pageWidth - margin)} ${n(separator)} l S`)
+      }
+
+      if (page === recordPages - 1 && signOffFits) parts.push(signOff(bodyTop - pageEntries.length * rowHeight))
+      await writePage(parts.join('\n'), [...imageRefs])
+    }
+    if (!signOffFits) await writePage([header(totalPages), signOff(bodyTop)].join('\n'))
+
+    await writer.writeObject(
+      rootPagesId,
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    )
+    await writer.finish(catalogId, infoId)
+    return { pages: pageIds.length, bytes: writer.bytesWritten() }
+  } catch (writeError) {
+    await writer.abort()
+    throw writeError
+  }
+}
@@ -0,0 +1,143 @@
+// src/lib/vdpProof.ts
+// Korektúra (proof) VDP behu – výber záznamov (prvé N, posledné N, každý
+// K-tý, explicitný zoznam) a údaje záznamu pre tlačový proof, ktorý
+// zákazník podpíše pred výrobou
+import type { VdpProofConfig } from '../types/barcodeTypes'
+
+export const DEFAULT_VDP_PROOF_CONFIG: VdpProofConfig = {
+  firstCount: 5,
+  lastCount: 5,
+  everyNth: 0,
+  records: [],
+  verify: true,
+}
+
+/** Viac záznamov už proof nie je – na celý beh slúži verifikácia kvality */
+export const MAX_PROOF_RECORDS = 1000
+
+export type VdpProofReason = 'FIRST' | 'LAST' | 'EVERY_NTH' | 'LISTED'
+
+export type VdpProofSelection = {
+  /** Index záznamu (0-based) */
+  index: number
+  reasons: VdpProofReason[]
+}
+
+/** Záznam korektúry so všetkým, čo sa vytlačí vedľa etikety */
+export type VdpProofEntry = VdpProofSelection & {
+  /** Zakódované dáta */
+  value: string
+  /** GS1 elementy v zátvorkovom HRI zápise, ak sa dáta dajú rozparsovať */
+  gs1Hri?: string
+  /** Riadok zdrojových dát (od 1); pri sériovom zdroji chýba */
+  sourceRow?: number
+  /** Dáta prečítané z vykresleného symbolu; null = nečitateľný, undefined = neoverené */
+  decodedData?: string | null
+  grade?: string
+  passed?: boolean
+}
+
+/* =====================
+ * VÝBER ZÁZNAMOV
+ * ===================== */
+
+export function selectVdpProofRecords(
+  total: number,
+  config: VdpProofConfig,
+): { records: VdpProofSelection[]; issues: string[] } {
+  const issues: string[] = []
+  const reasons = new Map<number, VdpProofReason[]>()
+  const add = (index: number, reason: VdpProofReason) => {
+    const list = reasons.get(index)
+    if (!list) reasons.set(index, [reason])
+    else if (!list.includes(reason)) list.push(reason)
+  }
+
+  for (let i = 0; i < Math.min(total, Math.max(0, config.firstCount)); i++) add(i, 'FIRST')
+  for (let i = Math.max(0, total - Math.max(0, config.lastCount)); i < total; i++) add(i, 'LAST')
+  if (config.everyNth > 0) {
+    // K-tý, 2K-tý… záznam (čísla od 1)
+    for (let i = config.everyNth - 1; i < total && reasons.size <= MAX_PROOF_RECORDS; i += config.everyNth) {
+      add(i, 'EVERY_NTH')
+    }
+  }
+
+  const outside = config.records.filter(record => record < 1 || record > total)
+  if (outside.length > 0) {
+    issues.push(`Records ${formatVdpProofRecordList(outside)} are outside the run (1–${total})`)
+  }
+  config.records.filter(record => record >= 1 && record <= total).forEach(record => add(record - 1, 'LISTED'))
+
+  let records = [...reasons.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, list]) => ({ index, reasons: list }))
+  if (records.length > MAX_PROOF_RECORDS) {
+    issues.push(`Proof is limited to ${MAX_PROOF_RECORDS} records – increase the step or shorten the list`)
+    records = records.slice(0, MAX_PROOF_RECORDS)
+  }
+  return { records, issues }
+}
+
+/** Zoznam čísel záznamov, napr. „1, 5, 10-12“ */
+export function parseVdpProofRecordList(text: string): { records: number[]; invalid: string[] } {
+  const records = new Set<number>()
+  const invalid: string[] = []
+  for (const part of text.split(/[,;\s]+/).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part)
+    const from = match ? Number(match[1]) : NaN
+    const to = match?.[2] ? Number(match[2]) : from
+    if (!match || from < 1 || to < from || to - from >= MAX_PROOF_RECORDS) {
+      invalid.push(part)
+      continue
+    }
+    for (let record = from; record <= to; record++) records.add(record)
+  }
+  return { records: [...records].sort((a, b) => a - b), invalid }
+}
+
+/** Súvislé čísla sa zlúčia do rozsahov */
+export function formatVdpProofRecordList(records: number[]): string {
+  const sorted = [...new Set(records)].sort((a, b) => a - b)
+  const parts: string[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    let end = i
+    while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) end++
+    parts.push(end > i ? `${sorted[i]}-${sorted[end]}` : String(sorted[i]))
+    i = end
+  }
+  return parts.join(', ')
+}
+
+function ordinal(value: number): string {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'
+  return `${value}${suffix}`
+}
+
+/** Popis výberu do hlavičky proofu */
+export function describeVdpProofCriteria(config: VdpProofConfig): string {
+  const parts: string[] = []
+  if (config.firstCount > 0) parts.push(`first ${config.firstCount}`)
+  if (config.lastCount > 0) parts.push(`last ${config.lastCount}`)
+  if (config.everyNth > 0) parts.push(`every ${ordinal(config.everyNth)}`)
+  if (config.records.length > 0) parts.push(`listed ${formatVdpProofRecordList(config.records)}`)
+  return parts.join(', ') || 'no records selected'
+}
+
+export const VDP_PROOF_REASON_LABELS: Record<VdpProofReason, string> = {
+  FIRST: 'first',
+  LAST: 'last',
+  EVERY_NTH: 'sample',
+  LISTED: 'listed',
+}
+
+/** Dáta s riadiacimi znakmi v čitateľnej podobe – FNC1 ako <GS> */
+export function vdpProofDisplayValue(value: string): string {
+  let result = ''
+  for (const char of value) {
+    const code = char.charCodeAt(0)
+    if (code === 0x1d) result += '<GS>'
+    else if (code < 0x20 || code === 0x7f) result += `<${code.toString(16).toUpperCase().padStart(2, '0')}>`
+    else result += char
+  }
+  return result
+}
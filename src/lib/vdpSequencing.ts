@@ -0,0 +1,164 @@
+// src/lib/vdpSequencing.ts
+// Poradie VDP záznamov na viacpruhovom páse – naprieč pruhmi alebo
+// po pruhoch, obrátená tlač podľa navíjania rolí a výsledné poradie
+// čísel na rolách po rezaní
+import type { VdpLaneConfig, VdpLaneSequencing, VdpRollWinding } from '../types/barcodeTypes'
+
+export const DEFAULT_ROLL_WINDING: VdpRollWinding = {
+  wound: 'OUTSIDE',
+  rewinds: 1,
+  dispenseOrder: 'ASCENDING',
+}
+
+export type VdpRollSummary = {
+  lane: number
+  count: number
+  /** Záznam, ktorý sa z roly odvinie prvý (index od 0, -1 = prázdna rola) */
+  firstOff: number
+  lastOff: number
+}
+
+export type VdpLanePlan = {
+  lanes: number
+  /** Riadky etikiet pozdĺž pásu potrebné na celý beh */
+  webRows: number
+  /** Pozície na páse (webRows × lanes), poradie tlače riadok po riadku */
+  positions: number
+  /** Pás sa tlačí od posledného záznamu pruhu */
+  printDescending: boolean
+  /** Poloha odvíjania podľa štandardnej tabuľky 1–8 (hlava etikety vpredu pri tlači) */
+  unwindPosition: 1 | 2 | 5 | 6
+  /** Index záznamu na pozícii `riadok × lanes + pruh`; -1 = prázdne miesto */
+  recordAt: (position: number) => number
+  rolls: VdpRollSummary[]
+  issues: string[]
+}
+
+type LaneRange = { start: number; count: number; step: number }
+
+function unassigned(from: number, to: number): string {
+  return from === to ? `Record ${from} is not assigned to any lane` : `Records ${from}–${to} are not assigned to any lane`
+}
+
+/**
+ * Rozdelenie záznamov na pruhy. Po pruhoch sa použijú ručne zadané
+ * rozsahy lanes, ak ich počet sedí s počtom pruhov, inak rovnaké bloky.
+ */
+function laneRanges(
+  total: number,
+  lanes: number,
+  sequencing: VdpLaneSequencing,
+  laneConfigs: VdpLaneConfig[],
+  issues: string[],
+): LaneRange[] {
+  if (sequencing === 'ACROSS_THEN_DOWN') {
+    return Array.from({ length: lanes }, (_, lane) => ({
+      start: lane,
+      count: lane < total ? Math.floor((total - lane - 1) / lanes) + 1 : 0,
+      step: lanes,
+    }))
+  }
+
+  if (laneConfigs.length === lanes) {
+    const ranges = laneConfigs.map(config => {
+      const start = Math.max(0, config.startIndex)
+      const end = Math.min(total - 1, config.endIndex)
+      return { start, count: Math.max(0, end - start + 1), step: 1 }
+    })
+    const sorted = [...ranges].filter(range => range.count > 0).sort((a, b) => a.start - b.start)
+    let covered = 0
+    for (const range of sorted) {
+      if (range.start < covered) issues.push(`Lanes overlap at record ${range.start + 1}`)
+      else if (range.start > covered) issues.push(unassigned(covered + 1, range.start))
+      covered = Math.max(covered, range.start + range.count)
+    }
+    if (covered < total) issues.push(unassigned(covered + 1, total))
+    return ranges
+  }
+
+  if (laneConfigs.length > 0) {
+    issues.push(`${laneConfigs.length} lane ranges defined for ${lanes} lanes – records split evenly instead`)
+  }
+  const perLane = Math.ceil(total / lanes)
+  return Array.from({ length: lanes }, (_, lane) => ({
+    start: lane * perLane,
+    count: Math.max(0, Math.min(perLane, total - lane * perLane)),
+    step: 1,
+  }))
+}
+
+export function planVdpLanes(
+  total: number,
+  options: {
+    lanes: number
+    sequencing: VdpLaneSequencing
+    winding: VdpRollWinding
+    laneConfigs?: VdpLaneConfig[]
+  },
+): VdpLanePlan {
+  const lanes = Math.max(1, Math.floor(options.lanes))
+  const issues: string[] = []
+  const ranges = laneRanges(Math.max(0, total), lanes, options.sequencing, options.laneConfigs ?? [], issues)
+  const webRows = Math.max(0, ...ranges.map(range => range.count))
+
+  // Rola z tlačového stroja sa odvíja od posledného vytlačeného záznamu,
+  // každé prevíjanie poradie obráti
+  const rewinds = Math.max(0, Math.floor(options.winding.rewinds))
+  const dispenseReversed = rewinds % 2 === 0
+  const printDescending = dispenseReversed !== (options.winding.dispenseOrder === 'DESCENDING')
+  const headFirst = !dispenseReversed
+  const unwindPosition = options.winding.wound === 'OUTSIDE' ? (headFirst ? 1 : 2) : headFirst ? 5 : 6
+
+  const recordAt = (position: number): number => {
+    const row = Math.floor(position / lanes)
+    const range = ranges[position % lanes]
+    const k = printDescending ? range.count - 1 - row : row
+    return k >= 0 && k < range.count ? range.start + k * range.step : -1
+  }
+
+  const rolls = ranges.map((range, lane) => {
+    if (range.count === 0) return { lane: lane + 1, count: 0, firstOff: -1, lastOff: -1 }
+    const first = range.start
+    const last = range.start + (range.count - 1) * range.step
+    // Poradie na roli = poradie tlače, obrátené pri párnom počte prevíjaní
+    const offAscending = printDescending === dispenseReversed
+    return {
+      lane: lane + 1,
+      count: range.count,
+      firstOff: offAscending ? first : last,
+      lastOff: offAscending ? last : first,
+    }
+  })
+
+  return {
+    lanes,
+    webRows,
+    positions: webRows * lanes,
+    printDescending,
+    unwindPosition,
+    recordAt,
+    rolls,
+    issues,
+  }
+}
+
+/**
+ * Súvislé rozsahy záznamov vytlačených na pozíciách [from, to) – pre
+ * ledger sériových čísel pri čiastočnom exporte
+ */
+export function planRecordRanges(plan: VdpLanePlan, from: number, to: number): { start: number; end: number }[] {
+  const records: number[] = []
+  for (let position = Math.max(0, from); position < Math.min(to, plan.positions); position++) {
+    const record = plan.recordAt(position)
+    if (record >= 0) records.push(record)
+  }
+  records.sort((a, b) => a - b)
+
+  const ranges: { start: number; end: number }[] = []
+  for (const record of records) {
+    const last = ranges[ranges.length - 1]
+    if (last && record === last.end + 1) last.end = record
+    else ranges.push({ start: record, end: record })
+  }
+  return ranges
+}
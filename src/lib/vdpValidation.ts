@@ -0,0 +1,492 @@
+// src/lib/vdpValidation.ts
+// Validácia dát VDP importu – pravidlá podľa mapovaných stĺpcov (GTIN,
+// dátumy, LOT, sériové čísla), duplicity, riadkový report a automatické
+// opravy / vylúčenie chybných riadkov pred generovaním behu
+import type {
+  VdpFieldMapping,
+  VdpImportRow,
+  VdpImportState,
+  VdpValidationResult,
+  VdpValidationRules,
+} from '../types/barcodeTypes'
+import { CSET82, gs1CheckDigit } from './gs1'
+import { isoDate, parseVdpDate } from './vdp'
+
+export const DEFAULT_VDP_VALIDATION_RULES: VdpValidationRules = {
+  gtinCheckDigit: true,
+  dateOrder: true,
+  rejectExpired: true,
+  minShelfLifeDays: 0,
+  lotMaxLength: 20,
+  lotCharset: 'CSET82',
+  duplicates: 'SERIAL',
+}
+
+export type VdpRowIssue = {
+  /** Index riadku v importe (0-based) */
+  rowIndex: number
+  /** Názov stĺpca; null = týka sa celého riadku */
+  column: string | null
+  field: VdpFieldMapping
+  severity: 'error' | 'warning'
+  value: string
+  message: string
+  /** Opravená hodnota stĺpca, ak sa dá problém opraviť automaticky */
+  fix?: string
+}
+
+export type VdpImportValidation = {
+  issues: VdpRowIssue[]
+  totalRows: number
+  validRows: number
+  warningRows: number
+  errorRows: number
+}
+
+export type VdpValidationOptions = {
+  rules?: VdpValidationRules
+  /** Vygenerovaný kód riadku – potrebný pre duplicity podľa kódu */
+  renderRow?: (row: VdpImportRow) => string
+  /** Deň tlače pre kontrolu expirácie (predvolene dnes) */
+  today?: Date
+}
+
+/** GS1 AI (21) – sériové číslo */
+const SERIAL_MAX_LENGTH = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const EXPIRY_FIELDS: { field: VdpFieldMapping; label: string }[] = [
+  { field: 'BEST_BEFORE', label: 'Best-before date' },
+  { field: 'USE_BY', label: 'Use-by date' },
+]
+
+/* =====================
+ * KONTROLA POĽA
+ * ===================== */
+
+type FieldCheck = {
+  issues: { severity: 'error' | 'warning'; message: string; fixable: boolean }[]
+  /** Normalizovaná hodnota (orezaná, bez oddeľovačov…) */
+  value: string
+}
+
+function stripDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+function isCset82(text: string): boolean {
+  return [...text].every(char => CSET82.includes(char))
+}
+
+function checkGtin(value: string, rules: VdpValidationRules): FieldCheck {
+  const compact = value.replace(/[\s.-]/g, '')
+  if (!compact) {
+    return { value, issues: [{ severity: 'error', message: 'GTIN is empty', fixable: false }] }
+  }
+  if (!/^\d+$/.test(compact)) {
+    return { value, issues: [{ severity: 'error', message: `GTIN "${value}" must contain digits only`, fixable: false }] }
+  }
+  if (![8, 12, 13, 14].includes(compact.length)) {
+    return {
+      value,
+      issues: [{ severity: 'error', message: `GTIN has ${compact.length} digits (expected 8, 12, 13 or 14)`, fixable: false }],
+    }
+  }
+
+  const check: FieldCheck = { value: compact, issues: [] }
+  if (rules.gtinCheckDigit) {
+    const expected = gs1CheckDigit(compact.slice(0, -1))
+    if (String(expected) !== compact[compact.length - 1]) {
+      check.issues.push({
+        severity: 'error',
+        message: `GTIN check digit is ${compact[compact.length - 1]}, expected ${expected}`,
+        fixable: false,
+      })
+    }
+  }
+  if (compact !== value) {
+    check.issues.push({ severity: 'warning', message: 'GTIN contains spaces or separators', fixable: true })
+  }
+  return check
+}
+
+function checkSerial(value: string): FieldCheck {
+  if (!value) {
+    return { value, issues: [{ severity: 'error', message: 'Serial number is empty', fixable: false }] }
+  }
+  const candidate = isCset82(value) ? value : stripDiacritics(value)
+  const check: FieldCheck = { value: candidate, issues: [] }
+  if (!isCset82(candidate)) {
+    check.value = value
+    check.issues.push({
+      severity: 'error',
+      message: `Serial "${value}" contains characters not allowed in GS1 AI (21)`,
+      fixable: false,
+    })
+  } else if (candidate !== value) {
+    check.issues.push({ severity: 'warning', message: 'Serial contains accented characters', fixable: true })
+  }
+  if (check.value.length > SERIAL_MAX_LENGTH) {
+    check.issues.push({
+      severity: 'error',
+      message: `Serial has ${check.value.length} characters (maximum ${SERIAL_MAX_LENGTH})`,
+      fixable: false,
+    })
+  }
+  return check
+}
+
+function checkLot(value: string, rules: VdpValidationRules): FieldCheck {
+  if (!value) return { value, issues: [] }
+
+  const allowed = rules.lotCharset === 'ALNUM' ? (text: string) => /^[A-Z0-9]+$/.test(text) : isCset82
+  let candidate = allowed(value) ? value : stripDiacritics(value)
+  if (rules.lotCharset === 'ALNUM') candidate = candidate.toUpperCase()
+
+  const check: FieldCheck = { value: candidate, issues: [] }
+  if (!allowed(candidate)) {
+    check.value = value
+    check.issues.push({
+      severity: 'error',
+      message:
+        rules.lotCharset === 'ALNUM'
+          ? `LOT "${value}" may contain only A–Z and 0–9`
+          : `LOT "${value}" contains characters not allowed in GS1 AI (10)`,
+      fixable: false,
+    })
+  } else if (candidate !== value) {
+    check.issues.push({ severity: 'warning', message: `LOT normalised to "${candidate}"`, fixable: true })
+  }
+  if (check.value.length > rules.lotMaxLength) {
+    check.issues.push({
+      severity: 'error',
+      message: `LOT has ${check.value.length} characters (maximum ${rules.lotMaxLength})`,
+      fixable: false,
+    })
+  }
+  return check
+}
+
+/**
+ * Dátum v inom zápise (D/M/YYYY, D-M-YY, D.M.YY) – európske poradie,
+ * oprava na YYYY-MM-DD, ktorému rozumie šablóna
+ */
+function parseAlternativeDate(value: string): string | null {
+  const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(value)
+  if (!match) return null
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+  const date = new Date(year, Number(match[2]) - 1, Number(match[1]))
+  if (date.getFullYear() !== year || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[1])) {
+    return null
+  }
+  return isoDate(date)
+}
+
+function checkDate(value: string): FieldCheck {
+  if (!value) {
+    return { value, issues: [{ severity: 'warning', message: 'Date is empty', fixable: false }] }
+  }
+  try {
+    parseVdpDate(value)
+    return { value, issues: [] }
+  } catch {
+    const fixed = parseAlternativeDate(value)
+    if (fixed) {
+      return { value: fixed, issues: [{ severity: 'warning', message: `Date normalised to ${fixed}`, fixable: true }] }
+    }
+    return { value, issues: [{ severity: 'error', message: `Invalid date "${value}"`, fixable: false }] }
+  }
+}
+
+function checkQuantity(value: string): FieldCheck {
+  if (!value) return { value, issues: [] }
+  const compact = value.replace(/[\s'’]/g, '')
+  if (!/^\d+$/.test(compact)) {
+    return { value, issues: [{ severity: 'error', message: `Quantity "${value}" must be a whole number`, fixable: false }] }
+  }
+  return {
+    value: compact,
+    issues: compact !== value ? [{ severity: 'warning', message: 'Quantity contains separators', fixable: true }] : [],
+  }
+}
+
+function checkField(field: VdpFieldMapping, raw: string, rules: VdpValidationRules): FieldCheck {
+  const value = raw.trim()
+  let check: FieldCheck
+  switch (field) {
+    case 'GTIN':
+      check = checkGtin(value, rules)
+      break
+    case 'SERIAL':
+      check = checkSerial(value)
+      break
+    case 'LOT':
+      check = checkLot(value, rules)
+      break
+    case 'BEST_BEFORE':
+    case 'PROD_DATE':
+    case 'USE_BY':
+      check = checkDate(value)
+      break
+    case 'QUANTITY':
+      check = checkQuantity(value)
+      break
+    default:
+      check = { value, issues: [] }
+  }
+  if (check.value !== raw && !check.issues.some(issue => issue.fixable)) {
+    check.issues.push({ severity: 'warning', message: 'Value has leading or trailing spaces', fixable: true })
+  }
+  return check
+}
+
+/* =====================
+ * VALIDÁCIA IMPORTU
+ * ===================== */
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+function tryParseDate(value: string | undefined): Date | null {
+  if (!value) return null
+  try {
+    return parseVdpDate(value)
+  } catch {
+    return null
+  }
+}
+
+export function validateVdpImport(state: VdpImportState, options: VdpValidationOptions = {}): VdpImportValidation {
+  const rules = options.rules ?? DEFAULT_VDP_VALIDATION_RULES
+  const today = startOfDay(options.today ?? new Date())
+  const mapped = state.columns.filter(col => col.mappedTo)
+  const columnFor = (field: VdpFieldMapping) => mapped.find(col => col.mappedTo === field)?.columnName
+  const issues: VdpRowIssue[] = []
+  const duplicateKeys = new Map<string, number>()
+
+  for (const row of state.rows) {
+    // Hodnoty po normalizácii – krížové kontroly a duplicity pracujú s opravenými dátami
+    const effective: Record<string, string> = { ...row.values }
+
+    for (const col of mapped) {
+      const raw = row.values[col.columnName] ?? ''
+      const check = checkField(col.mappedTo, raw, rules)
+      effective[col.columnName] = check.value
+      for (const issue of check.issues) {
+        issues.push({
+          rowIndex: row.rowIndex,
+          column: col.columnName,
+          field: col.mappedTo,
+          severity: issue.severity,
+          value: raw,
+          message: issue.message,
+          fix: issue.fixable ? check.value : undefined,
+        })
+      }
+    }
+
+    const prodColumn = columnFor('PROD_DATE')
+    const prodDate = prodColumn ? tryParseDate(effective[prodColumn]) : null
+    for (const { field, label } of EXPIRY_FIELDS) {
+      const column = columnFor(field)
+      const expiry = column ? tryParseDate(effective[column]) : null
+      if (!column || !expiry) continue
+
+      const base = { rowIndex: row.rowIndex, column, field, value: row.values[column] ?? '' }
+      if (rules.dateOrder && prodDate && startOfDay(expiry) <= startOfDay(prodDate)) {
+        issues.push({
+          ...base,
+          severity: 'error',
+          message: `${label} ${isoDate(expiry)} is not after production date ${isoDate(prodDate)}`,
+        })
+      }
+      const remainingDays = Math.round((startOfDay(expiry) - today) / DAY_MS)
+      if (rules.rejectExpired && remainingDays < 0) {
+        issues.push({ ...base, severity: 'error', message: `${label} ${isoDate(expiry)} is in the past` })
+      } else if (rules.minShelfLifeDays > 0 && remainingDays < rules.minShelfLifeDays) {
+        issues.push({
+          ...base,
+          severity: 'warning',
+          message: `Remaining shelf life ${Math.max(0, remainingDays)} days is below the minimum ${rules.minShelfLifeDays}`,
+        })
+      }
+    }
+
+    let duplicateKey = ''
+    let duplicateColumn: string | null = null
+    if (rules.duplicates === 'SERIAL') {
+      duplicateColumn = columnFor('SERIAL') ?? null
+      const gtinColumn = columnFor('GTIN')
+      const serial = duplicateColumn ? effective[duplicateColumn] : ''
+      duplicateKey = serial ? `${gtinColumn ? effective[gtinColumn].padStart(14, '0') : ''}|${serial}` : ''
+    } else if (rules.duplicates === 'CODE' && options.renderRow) {
+      duplicateKey = options.renderRow({ ...row, values: effective })
+    }
+    if (duplicateKey) {
+      const first = duplicateKeys.get(duplicateKey)
+      if (first === undefined) {
+        duplicateKeys.set(duplicateKey, row.rowIndex)
+      } else {
+        issues.push({
+          rowIndex: row.rowIndex,
+          column: duplicateColumn,
+          field: duplicateColumn ? 'SERIAL' : null,
+          severity: 'error',
+          value: duplicateColumn ? (row.values[duplicateColumn] ?? '') : duplicateKey,
+          message: rules.duplicates === 'SERIAL' ? `Duplicate serial (first in row ${first + 1})` : `Duplicate code (first in row ${first + 1})`,
+        })
+      }
+    }
+  }
+
+  return summarize(state.rows.length, issues)
+}
+
+function summarize(totalRows: number, issues: VdpRowIssue[]): VdpImportValidation {
+  const errorRows = new Set<number>()
+  const warningRows = new Set<number>()
+  for (const issue of issues) {
+    if (issue.severity === 'error') {
+      errorRows.add(issue.rowIndex)
+    } else {
+      warningRows.add(issue.rowIndex)
+    }
+  }
+  return {
+    issues,
+    totalRows,
+    validRows: totalRows - errorRows.size,
+    warningRows: [...warningRows].filter(row => !errorRows.has(row)).length,
+    errorRows: errorRows.size,
+  }
+}
+
+/* =====================
+ * OPRAVY A VYLÚČENIE
+ * ===================== */
+
+/** Zapíše výsledok validácie do riadkov (warnings / errors / isValid) */
+export function annotateVdpImportRows(state: VdpImportState, validation: VdpImportValidation): VdpImportState {
+  const byRow = new Map<number, VdpRowIssue[]>()
+  for (const issue of validation.issues) {
+    const rowIssues = byRow.get(issue.rowIndex)
+    if (rowIssues) rowIssues.push(issue)
+    else byRow.set(issue.rowIndex, [issue])
+  }
+  return {
+    ...state,
+    rows: state.rows.map(row => {
+      const rowIssues = byRow.get(row.rowIndex) ?? []
+      const errors = rowIssues.filter(issue => issue.severity === 'error').map(issue => issue.message)
+      return {
+        ...row,
+        errors,
+        warnings: rowIssues.filter(issue => issue.severity === 'warning').map(issue => issue.message),
+        isValid: errors.length === 0,
+      }
+    }),
+  }
+}
+
+export type VdpImportCleanup = {
+  state: VdpImportState
+  validation: VdpImportValidation
+  fixedValues: number
+  /** Čísla vylúčených riadkov (1-based, podľa pôvodného importu) */
+  excludedRows: number[]
+}
+
+/**
+ * Použije automatické opravy a/alebo vylúči riadky, ktoré aj po oprave
+ * obsahujú chybu. Zostávajúce riadky sa prečíslujú (počítadlá a {INDEX}
+ * v šablóne idú bez medzier).
+ */
+export function cleanVdpImport(
+  state: VdpImportState,
+  validation: VdpImportValidation,
+  action: { fix: boolean; exclude: boolean },
+  options: VdpValidationOptions = {},
+): VdpImportCleanup {
+  let fixedValues = 0
+  let rows = state.rows
+
+  if (action.fix) {
+    const fixes = new Map<number, Record<string, string>>()
+    for (const issue of validation.issues) {
+      if (issue.fix === undefined || !issue.column) continue
+      fixes.set(issue.rowIndex, { ...fixes.get(issue.rowIndex), [issue.column]: issue.fix })
+    }
+    rows = rows.map(row => {
+      const rowFixes = fixes.get(row.rowIndex)
+      if (!rowFixes) return row
+      fixedValues += Object.keys(rowFixes).length
+      return { ...row, values: { ...row.values, ...rowFixes } }
+    })
+  }
+
+  let next: VdpImportState = { ...state, rows }
+  let result = action.fix ? validateVdpImport(next, options) : validation
+  const excludedRows: number[] = []
+
+  if (action.exclude) {
+    const invalid = new Set(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.rowIndex))
+    rows = rows
+      .filter(row => {
+        if (!invalid.has(row.rowIndex)) return true
+        excludedRows.push(row.rowIndex + 1)
+        return false
+      })
+      .map((row, rowIndex) => ({ ...row, rowIndex }))
+    next = {
+      ...state,
+      rows,
+      totalRows: rows.length,
+      currentRowIndex: Math.min(state.currentRowIndex, Math.max(0, rows.length - 1)),
+    }
+    result = validateVdpImport(next, options)
+  }
+
+  return { state: annotateVdpImportRows(next, result), validation: result, fixedValues, excludedRows }
+}
+
+/* =====================
+ * REPORT
+ * ===================== */
+
+/** Riadkový report – jeden riadok CSV na nález */
+export function vdpValidationReportToCsv(validation: VdpImportValidation): string {
+  const quote = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+  const lines = [['Row', 'Column', 'Field', 'Severity', 'Value', 'Message', 'Fix'].join(';')]
+  const sorted = [...validation.issues].sort((a, b) => a.rowIndex - b.rowIndex)
+  for (const issue of sorted) {
+    lines.push(
+      [
+        issue.rowIndex + 1,
+        issue.column ?? '',
+        issue.field ?? '',
+        issue.severity,
+        issue.value,
+        issue.message,
+        issue.fix ?? '',
+      ].map(quote).join(';'),
+    )
+  }
+  return lines.join('\r\n')
+}
+
+/** Výsledky po riadkoch pre prehľad validácie tlačového behu */
+export function vdpValidationResults(
+  state: VdpImportState,
+  validation: VdpImportValidation,
+  renderRow: (row: VdpImportRow) => string,
+): VdpValidationResult[] {
+  const annotated = annotateVdpImportRows(state, validation)
+  return annotated.rows.map(row => ({
+    index: row.rowIndex,
+    value: renderRow(row),
+    isValid: row.isValid ?? true,
+    warnings: row.warnings ?? [],
+    errors: row.errors ?? [],
+  }))
+}
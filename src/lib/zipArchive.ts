@@ -0,0 +1,202 @@
+// src/lib/zipArchive.ts
+// Minimálny ZIP kontajner pre balíky jobov – zápis a čítanie súborov
+// bez závislostí (deflate cez CompressionStream prehliadača, inak bez
+// kompresie), CRC-32 sa pri čítaní overuje
+
+export type ZipEntry = {
+  /** Cesta v archíve, oddeľovač `/` */
+  name: string
+  data: Uint8Array
+  modifiedAt?: Date
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+/** Príznak UTF-8 mien súborov */
+const FLAG_UTF8 = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/* =====================
+ * CRC-32
+ * ===================== */
+
+let crcTable: Uint32Array | null = null
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/* =====================
+ * KOMPRESIA
+ * ===================== */
+
+async function pipe(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null
+  return pipe(data, new CompressionStream('deflate-raw'))
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress ZIP entries')
+  }
+  return pipe(data, new DecompressionStream('deflate-raw'))
+}
+
+/** Dátum a čas vo formáte MS-DOS (lokálny čas, presnosť 2 s) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+}
+
+/* =====================
+ * ZÁPIS
+ * ===================== */
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    // Už skomprimované dáta (PNG, JPEG) sa uložia bez kompresie
+    const deflated = await deflateRaw(entry.data)
+    const compress = deflated !== null && deflated.length < entry.data.length
+    const stored = compress ? deflated : entry.data
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, FLAG_UTF8, true)
+    local.setUint16(8, compress ? METHOD_DEFLATE : METHOD_STORE, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, stored.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, CENTRAL_HEADER, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, FLAG_UTF8, true)
+    header.setUint16(10, compress ? METHOD_DEFLATE : METHOD_STORE, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, stored.length, true)
+    header.setUint32(24, entry.data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, stored)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + stored.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as Uint8Array<ArrayBuffer>[], {
+    type: 'application/zip',
+  })
+}
+
+/* =====================
+ * ČÍTANIE
+ * ===================== */
+
+/** Všetky súbory archívu; poškodený archív alebo CRC vyhodí chybu */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  // Koniec centrálneho adresára – za ním môže byť ešte komentár (max 64 kB)
+  let endOffset = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) throw new Error('File is not a ZIP archive')
+
+  const count = view.getUint16(endOffset + 10, true)
+  let position = view.getUint32(endOffset + 16, true)
+  if (count === 0xffff || position === 0xffffffff) throw new Error('ZIP64 archives are not supported')
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > data.length || view.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw new Error('ZIP central directory is damaged')
+    }
+    const method = view.getUint16(position + 10, true)
+    const time = view.getUint16(position + 12, true)
+    const date = view.getUint16(position + 14, true)
+    const crc = view.getUint32(position + 16, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const size = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength))
+    position += 46 + nameLength + extraLength + commentLength
+
+    // Adresáre sa preskočia
+    if (name.endsWith('/')) continue
+
+    if (localOffset + 30 > data.length || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new Error(`ZIP entry "${name}" is damaged`)
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    if (start + compressedSize > data.length) throw new Error(`ZIP entry "${name}" is truncated`)
+    const raw = data.subarray(start, start + compressedSize)
+
+    let content: Uint8Array
+    if (method === METHOD_STORE) content = raw.slice()
+    else if (method === METHOD_DEFLATE) content = await inflateRaw(raw)
+    else throw new Error(`ZIP entry "${name}" uses unsupported compression method ${method}`)
+
+    if (content.length !== size || crc32(content) !== crc) {
+      throw new Error(`ZIP entry "${name}" is corrupted (checksum mismatch)`)
+    }
+    entries.push({ name, data: content, modifiedAt: fromDosDateTime(time, date) })
+  }
+  return entries
+}
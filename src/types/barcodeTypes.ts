@@ -23,9 +23,15 @@ export type CodeType =
   | 'CODABAR'
   | 'MSI'
 
+/** Varianty GS1 DataBar (ISO/IEC 24724) */
+export type DataBarVariant = 'OMNIDIRECTIONAL' | 'STACKED' | 'LIMITED' | 'EXPANDED' | 'EXPANDED_STACKED'
+
+/** 2D zložka GS1 Composite (ISO/IEC 24723) – AUTO volí najmenšiu, do ktorej sa dáta zmestia */
+export type CompositeComponent = 'AUTO' | 'CC_A' | 'CC_B' | 'CC_C'
+
 export type DataMode = 'PLAIN' | 'GS1_MANUAL' | 'GS1_FORM' | 'VDP_IMPORT'
 export type Rotation = 0 | 90 | 180 | 270
-export type VdpMode = 'LINEAR' | 'PREFIX' | 'ALPHA' | 'IMPORT'
+export type VdpMode = 'LINEAR' | 'PREFIX' | 'ALPHA' | 'IMPORT' | 'RANDOM'
 export type PrintDirection = 'ALONG_WEB' | 'ACROSS_WEB'
 export type ReferenceBox = 'TRIM' | 'BLEED' | 'SAFE'
 
@@ -115,6 +121,7 @@ export type ObjectType =
   | 'text'
   | 'image'
   | 'rectangle'
+  | 'ellipse'
   | 'line'
   | 'qrcode'
 
@@ -140,7 +147,8 @@ export interface LabelObject {
   yMm: number
   widthMm: number
   heightMm: number
-  rotation: Rotation
+  /** Stupne v smere hodinových ručičiek okolo stredu objektu */
+  rotation: number
   
   // Zarovnanie
   horizontalAlign: HorizontalAlign
@@ -157,8 +165,11 @@ export interface LabelObject {
   visible: boolean
   printable: boolean
   
-  // VDP binding
+  // VDP binding – text a obrázok sa vyhodnocujú pre každý záznam
+  /** Stĺpec (alebo mapované pole) VDP importu */
   vdpField?: string
+  /** Šablóna hodnoty, napr. "LOT {LOT} · EXP {EXPIRY|date:DD.MM.YYYY}" – má prednosť pred vdpField */
+  vdpTemplate?: string
 }
 
 export interface BarcodeObject extends LabelObject {
@@ -196,6 +207,10 @@ export interface TextObject extends LabelObject {
   lineHeightPercent: number
   letterSpacingPt: number
   textTransform: 'none' | 'uppercase' | 'lowercase'
+  /** Zmenšiť písmo, aby sa text zmestil do rámčeka objektu */
+  shrinkToFit?: boolean
+  /** Najmenšia veľkosť pri zmenšovaní (pt) */
+  minFontSizePt?: number
 }
 
 export interface ImageObject extends LabelObject {
@@ -203,6 +218,14 @@ export interface ImageObject extends LabelObject {
   src: string // base64 alebo URL
   fit: 'contain' | 'cover' | 'fill' | 'none'
   clipPath?: string
+  /** Názvy obrázkov záznamov v prílohách jobu (`CodeJob.vdpImageFiles`), `src` je náhradný */
+  vdpImageNames?: string[]
+}
+
+export interface ShapeObject extends LabelObject {
+  type: 'rectangle' | 'ellipse' | 'line'
+  /** Zaoblenie rohov obdĺžnika */
+  cornerRadiusMm: number
 }
 
 export interface Layer {
@@ -362,10 +385,14 @@ export type VdpFieldMapping =
   | 'QUANTITY'
   | 'CUSTOM'
 
+/** Typ stĺpca rozpoznaný z hodnôt pri importe */
+export type VdpColumnType = 'TEXT' | 'NUMBER' | 'GTIN' | 'DATE'
+
 export interface VdpImportColumn {
   columnIndex: number
   columnName: string
   mappedTo: VdpFieldMapping
+  detectedType?: VdpColumnType
 }
 
 export interface VdpImportRow {
@@ -387,6 +414,15 @@ export interface VdpImportState {
   fieldMapping?: Record<string, string> // CSV column -> template field
 }
 
+/** Náhodné (nepredvídateľné) sériové čísla – rovnaké semienko dá rovnakú sériu */
+export interface VdpRandomConfig {
+  seed: string
+  alphabet: string
+  length: number
+  /** Hodnoty, ktoré sa nesmú vygenerovať (napr. už použité v repozitári) */
+  exclusions: string[]
+}
+
 export interface VdpLaneConfig {
   laneId: number
   startIndex: number
@@ -395,6 +431,23 @@ export interface VdpLaneConfig {
   serialStart?: number
 }
 
+/**
+ * Poradie záznamov na viacpruhovom páse: ACROSS_THEN_DOWN = čísla idú
+ * naprieč pruhmi a potom ďalší riadok, DOWN_EACH_LANE = každý pruh
+ * (rola po rezaní) má súvislý blok čísel
+ */
+export type VdpLaneSequencing = 'ACROSS_THEN_DOWN' | 'DOWN_EACH_LANE'
+
+/** Navinutie hotových rolí – určuje, či sa pás tlačí v obrátenom poradí */
+export interface VdpRollWinding {
+  /** Potlač na vonkajšej / vnútornej strane roly */
+  wound: 'OUTSIDE' | 'INSIDE'
+  /** Počet prevíjaní po tlači (0 = rola priamo z tlačového stroja); každé obráti poradie */
+  rewinds: number
+  /** Poradie čísel, v ktorom ich má dostávať aplikátor */
+  dispenseOrder: 'ASCENDING' | 'DESCENDING'
+}
+
 export interface VdpPrintRun {
   // Zdroj dát
   source: 'SERIAL' | 'CSV'
@@ -404,6 +457,10 @@ export interface VdpPrintRun {
   serialEnd: number
   serialPadding: number
   serialPrefix: string
+
+  // Ledger sériových čísel – produkt a šarža, ku ktorým sa séria viaže
+  gtin?: string
+  lot?: string
   
   // CSV import
   csvData?: VdpImportState
@@ -411,13 +468,46 @@ export interface VdpPrintRun {
   // Lane konfigurácia
   useLanes: boolean
   laneConfigs: VdpLaneConfig[]
+  laneSequencing?: VdpLaneSequencing
+  rollWinding?: VdpRollWinding
   
   // Validácia
   validateBeforeExport: boolean
   stopOnError: boolean
+  validationRules?: VdpValidationRules
   
   // Náhľad
   previewIndices: number[] // napr. [0, 1, 9, -1] pre prvé 2, 10. a posledný
+  proofConfig?: VdpProofConfig
+}
+
+/** Výber záznamov do korektúry (proof) na schválenie zákazníkom */
+export interface VdpProofConfig {
+  firstCount: number
+  lastCount: number
+  /** Každý K-tý záznam (0 = vypnuté) */
+  everyNth: number
+  /** Explicitne vybrané záznamy (čísla od 1) */
+  records: number[]
+  /** Dekódovať vykreslené symboly a uviesť grade */
+  verify: boolean
+}
+
+/** Pravidlá kontroly dát importu podľa mapovaných polí (VdpFieldMapping) */
+export interface VdpValidationRules {
+  /** Kontrolná číslica GTIN */
+  gtinCheckDigit: boolean
+  /** Spotreba / použiť do musí byť po dátume výroby */
+  dateOrder: boolean
+  /** Dátum spotreby v minulosti je chyba */
+  rejectExpired: boolean
+  /** Minimálna zostávajúca trvanlivosť v dňoch (0 = bez kontroly) */
+  minShelfLifeDays: number
+  lotMaxLength: number
+  /** CSET82 = znaky povolené v GS1 AI (10), ALNUM = len A–Z a 0–9 */
+  lotCharset: 'CSET82' | 'ALNUM'
+  /** SERIAL = sériové číslo (v rámci GTIN, ak je mapovaný), CODE = vygenerovaný kód */
+  duplicates: 'SERIAL' | 'CODE' | 'NONE'
 }
 
 export interface VdpValidationResult {
@@ -440,6 +530,9 @@ export interface VdpExportOptions {
   
   // Naming
   fileNamePattern: string // napr. "label_{INDEX}_{VALUE}"
+
+  // Streamovaný PDF – pokračovanie po zrušení (záznam od 0)
+  resumeFromRecord?: number
   
   // Report
   generateJobReport: boolean
@@ -498,6 +591,7 @@ export interface JobTicket {
   // Identifikácia
   jobId: string
   jobName: string
+  orderNumber?: string
   customerName: string
   createdAt: Date
   createdBy: string
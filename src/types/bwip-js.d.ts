@@ -10,6 +10,8 @@ declare module 'bwip-js' {
     paddingheight?: number
     textxalign?: 'left' | 'center' | 'right'
     textsize?: number
+    segments?: number
+    ccversion?: string
   }
 
   export interface BwipJs {
@@ -1,27 +1,81 @@
 // src/types/jobTypes.ts
 import type {
   CodeType,
+  CompositeComponent,
+  DataBarVariant,
   DataMode,
   VdpMode,
+  VdpRandomConfig,
   Rotation,
   LabelPreset,
   PrintDirection,
+  ReferenceBox,
+  DistortionSettings,
+  ExportSettings,
+  Layer,
+  MachinePreset,
+  StepRepeatConfig,
 } from './barcodeTypes'
 import type { PrintingProfileId } from '../config/printingProfiles'
+import type { Gs1DigitalLinkCompression } from '../lib/gs1DigitalLink'
 
 export type CodeJobId = string
 
+/** Binárne prílohy jobu – v úložisku sa držia oddelene od jobu */
+export type CodeJobAssetKind = 'QR_LOGO' | 'VDP_DATA' | 'DIE_LINE' | 'VDP_IMAGE'
+
+/** Polia GS1 formulára etikety (AI hodnoty ako ich zadal používateľ) */
+export type CodeJobGs1Label = {
+  gtin14: string
+  lot: string
+  bestBefore: string
+  serial: string
+  prodDate: string
+  packDate: string
+  useBy: string
+  variant: string
+  quantity: string
+  count: string
+  netWeightKg: string
+  price: string
+}
+
+export type CodeJobAnchor = 'start' | 'center' | 'end'
+
+/** Súbor priložený k jobu (importované VDP dáta, výsekový nástroj, obrázky záznamov) */
+export type CodeJobFile = {
+  name: string
+  mimeType: string
+  data: Blob
+  /** CRC-32 obsahu (hex) spočítané pri pripojení – zmena dát pri rovnakej veľkosti je zmena jobu */
+  hash: string
+}
+
 export type CodeJob = {
   id: CodeJobId
   name: string
 
   createdAt: string
   updatedAt: string
+  /** Číslo poslednej uloženej revízie (neuložený job ho nemá) */
+  revision?: number
 
   // --- základný kód ---
   codeType: CodeType
   dataMode: DataMode
   rawCodeValue: string
+  dataBarVariant: DataBarVariant
+  dataBarSegments: number
+  compositeEnabled: boolean
+  compositeComponent: CompositeComponent
+  /** EAN-2/EAN-5 doplnok */
+  addOn: string
+
+  // GS1 formulár a Digital Link
+  gs1Label: CodeJobGs1Label
+  gs1FormOutput: 'ELEMENT_STRING' | 'DIGITAL_LINK'
+  digitalLinkDomain: string
+  digitalLinkCompression: Gs1DigitalLinkCompression
 
   // GS1 / VDP
   vdpEnabled: boolean
@@ -29,19 +83,38 @@ export type CodeJob = {
   vdpPattern: string
   vdpPrefix: string
   vdpAlphaStartChar: string
+  serialStart: number
   serialCurrent: number
   serialPadding: number
+  vdpCount: number
+  /** Konfigurácia režimu RANDOM (staršie joby ju nemajú) */
+  vdpRandom?: VdpRandomConfig
+  /** Vzor kódu pre importované dáta; samotné dáta sú v `vdpDataFile` */
+  vdpImportPatternTemplate: string
 
   // layout etikety
   labelPreset: LabelPreset
   labelWidthMm: number
   labelHeightMm: number
   bleedMm: number
+  safeMarginMm: number
+  labelBorderRadiusMm: number
+  referenceBox: ReferenceBox
   rotation: Rotation
   printDirection: PrintDirection
 
+  // umiestnenie kódu na etikete
+  anchorX: CodeJobAnchor
+  anchorY: CodeJobAnchor
+  offsetXmm: number
+  offsetYmm: number
+
   // tlačový profil
   activeProfileId: PrintingProfileId | null
+  xDimMm: number
+  quietZoneMm: number
+  magnificationPercent: number
+  barWidthReductionMm: number
 
   // vzhľad čiarového kódu
   barHeightPx: number
@@ -58,6 +131,58 @@ export type CodeJob = {
   // HR text
   hrCustomText: string
 
-  // export
+  // zobrazenie
+  showDimensionGuides: boolean
+  canvasGridSizeMm: number
+
+  // kompozícia etikety – vrstvy s objektmi (kódy, texty, obrázky, tvary)
+  layers: Layer[]
+
+  // prílohy (staršie joby ich nemajú)
+  vdpDataFile?: CodeJobFile | null
+  dieLineFile?: CodeJobFile | null
+  /** Obrázky variabilných objektov, kľúčom je názov súboru */
+  vdpImageFiles?: CodeJobFile[]
+
+  // export a výroba
   exportDpi: number
+  stepRepeat: StepRepeatConfig
+  exportSettings: ExportSettings
+  distortion: DistortionSettings
+  machinePreset: MachinePreset | null
+}
+
+// --- revízie ---
+
+/** Nemenná revízia jobu vytvorená pri každom uložení */
+export type CodeJobRevision = {
+  jobId: CodeJobId
+  revision: number
+  createdAt: string
+  author: string
+  comment: string
+}
+
+// --- ledger sériových čísel ---
+
+export type SerialRangeStatus = 'RESERVED' | 'EXPORTED'
+
+/**
+ * Rozsah sériových čísel v ledgeri. Sériové číslo je prefix + číslo,
+ * jedinečné v rámci GTIN (EU FMD, DSCSA), šarža je súčasť auditného záznamu.
+ */
+export type SerialRange = {
+  id: string
+  gtin: string
+  lot: string
+  prefix: string
+  /** Prvé a posledné číslo rozsahu (vrátane) */
+  start: number
+  end: number
+  status: SerialRangeStatus
+  jobId?: CodeJobId
+  jobName?: string
+  createdAt: string
+  exportedAt?: string
+  note?: string
 }